@@ -0,0 +1,21 @@
+import type { Metadata } from 'next'
+
+// Area member (/portal): terpisah dari aplikasi staf, tidak dilindungi
+// middleware.ts; halaman memeriksa token member sendiri (lib/memberPortal.ts)
+export const metadata: Metadata = {
+  title: 'Member Wear Calaa',
+  description: 'Cek poin, riwayat belanja, struk dan voucher member',
+}
+
+export default function MemberPortalLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-3xl mx-auto px-4 py-3">
+          <span className="text-lg font-bold text-gray-900">Member Wear Calaa</span>
+        </div>
+      </header>
+      <main className="max-w-3xl mx-auto px-4 py-6">{children}</main>
+    </div>
+  )
+}
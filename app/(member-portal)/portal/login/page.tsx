@@ -0,0 +1,127 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { DevicePhoneMobileIcon } from "@heroicons/react/24/outline"
+import toast from "react-hot-toast"
+import { PortalError, getMemberToken, portalFetch, setMemberToken } from "@/lib/memberPortal"
+
+const errorMessage = (error: unknown) => {
+  if (error instanceof PortalError) {
+    if (error.status === 429) return "Terlalu banyak percobaan. Coba lagi dalam beberapa menit."
+    if (error.status === 401) return "Kode salah atau sudah kedaluwarsa"
+    if (error.status === 400) return "Nomor WhatsApp tidak valid"
+    if (error.status === 503 || error.status === 502) return "Kode belum bisa dikirim. Silakan coba lagi nanti."
+  }
+  return "Terjadi kesalahan, silakan coba lagi"
+}
+
+export default function MemberLoginPage() {
+  const router = useRouter()
+  const [phone, setPhone] = useState("")
+  const [code, setCode] = useState("")
+  const [step, setStep] = useState<"phone" | "code">("phone")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (getMemberToken()) router.replace("/portal")
+  }, [router])
+
+  const requestCode = async (e?: React.FormEvent) => {
+    e?.preventDefault()
+    setIsLoading(true)
+    try {
+      await portalFetch("/auth/request-otp", { method: "POST", body: JSON.stringify({ phone }) })
+      setStep("code")
+      setCode("")
+      toast.success("Jika nomor terdaftar sebagai member, kode dikirim lewat WhatsApp")
+    } catch (error) {
+      toast.error(errorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const verifyCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    try {
+      const result = await portalFetch<{ token: string }>("/auth/verify-otp", {
+        method: "POST",
+        body: JSON.stringify({ phone, code }),
+      })
+      setMemberToken(result.token)
+      router.replace("/portal")
+    } catch (error) {
+      toast.error(errorMessage(error))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <div className="max-w-sm mx-auto mt-8 bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="text-center">
+        <div className="mx-auto h-12 w-12 flex items-center justify-center rounded-full bg-blue-100">
+          <DevicePhoneMobileIcon className="h-7 w-7 text-blue-600" />
+        </div>
+        <h1 className="mt-4 text-xl font-bold text-gray-900">Masuk Member</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          {step === "phone"
+            ? "Masukkan nomor WhatsApp yang terdaftar sebagai member"
+            : `Masukkan 6 digit kode yang dikirim ke ${phone}`}
+        </p>
+      </div>
+
+      {step === "phone" ? (
+        <form onSubmit={requestCode} className="space-y-4">
+          <input
+            type="tel"
+            inputMode="tel"
+            required
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="08xxxxxxxxxx"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || !phone.trim()}
+            className="w-full py-2 px-4 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoading ? "Mengirim..." : "Kirim Kode"}
+          </button>
+        </form>
+      ) : (
+        <form onSubmit={verifyCode} className="space-y-4">
+          <input
+            type="text"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            required
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+            placeholder="123456"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-center tracking-widest text-lg focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={isLoading || code.length !== 6}
+            className="w-full py-2 px-4 rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isLoading ? "Memeriksa..." : "Masuk"}
+          </button>
+          <div className="flex justify-between text-sm">
+            <button type="button" onClick={() => setStep("phone")} className="text-gray-600 hover:text-gray-900">
+              Ganti nomor
+            </button>
+            <button type="button" onClick={() => requestCode()} disabled={isLoading} className="text-blue-600 hover:text-blue-800">
+              Kirim ulang kode
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import useSWR from "swr"
+import { ArrowRightOnRectangleIcon, ClockIcon, ReceiptPercentIcon, StarIcon, TicketIcon } from "@heroicons/react/24/outline"
+import { PortalError, formatRupiah, formatTanggal, getMemberToken, portalFetch, portalSWRFetcher, setMemberToken } from "@/lib/memberPortal"
+
+interface PortalTier {
+  id: number
+  name: string
+  color: string | null
+  earnMultiplier: number
+  discountPercent: number
+}
+
+interface PortalProfile {
+  id: number
+  name: string
+  phone: string
+  memberSince: string
+  points: number
+  pointValue: number
+  tier: PortalTier | null
+  rollingSpend: number
+  marketingOptOut: boolean
+  pointsExpiry: {
+    expiryMonths: number | null
+    withinDays: number
+    expiringSoon: { points: number; firstExpiresAt: string | null }
+  }
+}
+
+interface PointEntry {
+  id: number
+  transactionId: string | null
+  points: number
+  type: "EARNED" | "USED" | "EXPIRED" | "ADJUSTED"
+  description: string | null
+  createdAt: string
+}
+
+interface PortalTransaction {
+  id: string
+  createdAt: string
+  finalTotal: number
+  status: string
+  pointsEarned: number
+  pointsUsed: number
+  itemCount: number
+}
+
+interface PortalVoucher {
+  id: number
+  code: string
+  name: string
+  description: string | null
+  type: "percentage" | "fixed" | "free_shipping"
+  value: number
+  minPurchase: number | null
+  maxDiscount: number | null
+  endDate: string
+  remainingUses: number | null
+  personal: boolean
+}
+
+type Tab = "poin" | "transaksi" | "voucher"
+
+const POINT_TYPE_LABELS: Record<PointEntry["type"], string> = {
+  EARNED: "Diperoleh",
+  USED: "Dipakai",
+  EXPIRED: "Kedaluwarsa",
+  ADJUSTED: "Penyesuaian",
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  COMPLETED: "Selesai",
+  PENDING: "Pending",
+  REFUNDED: "Dikembalikan",
+  PARTIALLY_REFUNDED: "Dikembalikan Sebagian",
+  CANCELLED: "Dibatalkan",
+}
+
+const voucherValue = (voucher: PortalVoucher) => {
+  if (voucher.type === "percentage") {
+    return `Diskon ${voucher.value}%${voucher.maxDiscount ? ` (maks. ${formatRupiah(voucher.maxDiscount)})` : ""}`
+  }
+  if (voucher.type === "free_shipping") return `Gratis ongkir s.d. ${formatRupiah(voucher.value)}`
+  return `Potongan ${formatRupiah(voucher.value)}`
+}
+
+export default function MemberPortalPage() {
+  const router = useRouter()
+  const [ready, setReady] = useState(false)
+  const [tab, setTab] = useState<Tab>("poin")
+  const [savingPreference, setSavingPreference] = useState(false)
+
+  useEffect(() => {
+    if (!getMemberToken()) router.replace("/portal/login")
+    else setReady(true)
+  }, [router])
+
+  const { data: profile, error: profileError, mutate: mutateProfile } = useSWR<PortalProfile>(ready ? "/me" : null, portalSWRFetcher)
+  const { data: history } = useSWR<{ entries: PointEntry[] }>(ready && tab === "poin" ? "/points-history?limit=50" : null, portalSWRFetcher)
+  const { data: transactions } = useSWR<{ transactions: PortalTransaction[] }>(ready && tab === "transaksi" ? "/transactions?limit=50" : null, portalSWRFetcher)
+  const { data: vouchers } = useSWR<{ vouchers: PortalVoucher[] }>(ready && tab === "voucher" ? "/vouchers" : null, portalSWRFetcher)
+
+  // Token kedaluwarsa atau member dinonaktifkan: kembali ke halaman masuk
+  useEffect(() => {
+    if (profileError instanceof PortalError && profileError.status === 401) router.replace("/portal/login")
+  }, [profileError, router])
+
+  const toggleMarketing = async (receive: boolean) => {
+    setSavingPreference(true)
+    try {
+      await portalFetch("/me/marketing", { method: "PUT", body: JSON.stringify({ optOut: !receive }) })
+      await mutateProfile()
+    } catch (err) {
+      console.error("Failed to update marketing preference:", err)
+    } finally {
+      setSavingPreference(false)
+    }
+  }
+
+  const logout = () => {
+    setMemberToken(null)
+    router.replace("/portal/login")
+  }
+
+  if (!ready || (!profile && !profileError)) {
+    return <div className="text-center text-gray-500 py-12">Memuat...</div>
+  }
+  if (!profile) {
+    return <div className="text-center text-red-600 py-12">Data member gagal dimuat. Silakan muat ulang halaman.</div>
+  }
+
+  const expiring = profile.pointsExpiry.expiringSoon
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-5">
+        <div className="flex items-start justify-between">
+          <div>
+            <p className="text-sm text-gray-500">Halo,</p>
+            <h1 className="text-xl font-bold text-gray-900">{profile.name}</h1>
+            <p className="text-xs text-gray-500">Member sejak {formatTanggal(profile.memberSince)}</p>
+          </div>
+          <button onClick={logout} className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+            <ArrowRightOnRectangleIcon className="h-5 w-5 mr-1" />
+            Keluar
+          </button>
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-4">
+          <div className="rounded-lg bg-blue-50 p-4">
+            <p className="text-sm text-blue-700">Saldo Poin</p>
+            <p className="text-2xl font-bold text-blue-900">{profile.points.toLocaleString("id-ID")}</p>
+            <p className="text-xs text-blue-700">senilai {formatRupiah(profile.points * profile.pointValue)}</p>
+          </div>
+          <div className="rounded-lg bg-gray-50 p-4">
+            <p className="text-sm text-gray-600">Tier</p>
+            {profile.tier ? (
+              <>
+                <span
+                  className="inline-flex items-center mt-1 px-2.5 py-0.5 rounded-full text-sm font-semibold text-white"
+                  style={{ backgroundColor: profile.tier.color || "#6b7280" }}
+                >
+                  {profile.tier.name}
+                </span>
+                <p className="mt-1 text-xs text-gray-600">
+                  {profile.tier.discountPercent > 0 && `Diskon ${profile.tier.discountPercent}% · `}
+                  Poin {profile.tier.earnMultiplier}x
+                </p>
+              </>
+            ) : (
+              <p className="mt-1 text-sm text-gray-500">Belum ada tier</p>
+            )}
+            <p className="mt-1 text-xs text-gray-500">Belanja 12 bulan: {formatRupiah(profile.rollingSpend)}</p>
+          </div>
+        </div>
+
+        {expiring.points > 0 && (
+          <div className="mt-4 flex items-center rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            <ClockIcon className="h-5 w-5 mr-2 flex-shrink-0" />
+            {expiring.points} poin akan kedaluwarsa mulai {formatTanggal(expiring.firstExpiresAt)}
+          </div>
+        )}
+
+        <label className="mt-4 flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={!profile.marketingOptOut}
+            disabled={savingPreference}
+            onChange={(e) => toggleMarketing(e.target.checked)}
+            className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+          />
+          Kirimi saya info promo lewat WhatsApp
+        </label>
+      </div>
+
+      <div className="flex border-b border-gray-200">
+        {([
+          { key: "poin", label: "Riwayat Poin", icon: StarIcon },
+          { key: "transaksi", label: "Transaksi", icon: ReceiptPercentIcon },
+          { key: "voucher", label: "Voucher", icon: TicketIcon },
+        ] as const).map(({ key, label, icon: Icon }) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`flex-1 inline-flex items-center justify-center py-2 text-sm font-medium border-b-2 ${
+              tab === key ? "border-blue-600 text-blue-600" : "border-transparent text-gray-500 hover:text-gray-700"
+            }`}
+          >
+            <Icon className="h-5 w-5 mr-1" />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === "poin" && (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {!history && <p className="p-4 text-sm text-gray-500">Memuat...</p>}
+          {history?.entries.length === 0 && <p className="p-4 text-sm text-gray-500">Belum ada riwayat poin</p>}
+          {history?.entries.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between p-4">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{POINT_TYPE_LABELS[entry.type] || entry.type}</p>
+                <p className="text-xs text-gray-500">
+                  {formatTanggal(entry.createdAt)}
+                  {entry.description ? ` · ${entry.description}` : ""}
+                </p>
+              </div>
+              <span className={`text-sm font-semibold ${entry.points >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {entry.points >= 0 ? "+" : ""}
+                {entry.points}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tab === "transaksi" && (
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-100">
+          {!transactions && <p className="p-4 text-sm text-gray-500">Memuat...</p>}
+          {transactions?.transactions.length === 0 && <p className="p-4 text-sm text-gray-500">Belum ada transaksi</p>}
+          {transactions?.transactions.map((trx) => (
+            <Link key={trx.id} href={`/portal/transactions/${trx.id}`} className="flex items-center justify-between p-4 hover:bg-gray-50">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{formatTanggal(trx.createdAt)}</p>
+                <p className="text-xs text-gray-500">
+                  {trx.itemCount} barang · {STATUS_LABELS[trx.status] || trx.status}
+                  {trx.pointsEarned > 0 ? ` · +${trx.pointsEarned} poin` : ""}
+                </p>
+              </div>
+              <span className="text-sm font-semibold text-gray-900">{formatRupiah(trx.finalTotal)}</span>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {tab === "voucher" && (
+        <div className="space-y-3">
+          {!vouchers && <p className="text-sm text-gray-500">Memuat...</p>}
+          {vouchers?.vouchers.length === 0 && <p className="text-sm text-gray-500">Belum ada voucher yang bisa dipakai</p>}
+          {vouchers?.vouchers.map((voucher) => (
+            <div key={voucher.id} className="bg-white rounded-lg shadow p-4">
+              <div className="flex items-center justify-between">
+                <p className="font-semibold text-gray-900">
+                  {voucher.name}
+                  {voucher.personal && <span className="ml-2 text-xs font-medium text-pink-600">Khusus untuk Anda</span>}
+                </p>
+                <span className="font-mono text-sm px-2 py-0.5 rounded bg-blue-50 text-blue-700">{voucher.code}</span>
+              </div>
+              <p className="text-sm text-gray-700 mt-1">{voucherValue(voucher)}</p>
+              {voucher.description && <p className="text-xs text-gray-500 mt-1">{voucher.description}</p>}
+              <p className="text-xs text-gray-500 mt-2">
+                {voucher.minPurchase ? `Min. belanja ${formatRupiah(voucher.minPurchase)} · ` : ""}
+                Berlaku s.d. {formatTanggal(voucher.endDate)}
+                {voucher.remainingUses !== null ? ` · sisa ${voucher.remainingUses}x pakai` : ""}
+              </p>
+            </div>
+          ))}
+          {vouchers && vouchers.vouchers.length > 0 && (
+            <p className="text-xs text-gray-500">Sebutkan kode voucher kepada kasir saat membayar.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
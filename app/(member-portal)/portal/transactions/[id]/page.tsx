@@ -0,0 +1,155 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import useSWR from "swr"
+import { ArrowLeftIcon, PrinterIcon } from "@heroicons/react/24/outline"
+import { PortalError, formatRupiah, formatTanggal, getMemberToken, portalSWRFetcher } from "@/lib/memberPortal"
+
+interface ReceiptItem {
+  id: number
+  name: string
+  quantity: number
+  price: number
+  total: number
+  size?: string
+  color?: string
+}
+
+interface PortalReceipt {
+  transaction: {
+    id: string
+    createdAt: string
+    items: ReceiptItem[]
+    subtotal: number
+    tax: number
+    taxInclusive?: boolean
+    finalTotal: number
+    paymentMethod: string
+    status: string
+    pointsUsed?: number
+    pointsDiscount: number
+    pointsEarned?: number
+    voucherCode?: string
+    voucherDiscount: number
+    promotionDiscount: number
+    tierDiscount: number
+    user?: { name: string }
+  }
+  text: string
+}
+
+const PAYMENT_LABELS: Record<string, string> = {
+  CASH: "Tunai",
+  CARD: "Kartu",
+  QRIS: "QRIS",
+  BANK_TRANSFER: "Transfer Bank",
+  MIDTRANS: "Midtrans",
+  VIRTUAL_ACCOUNT: "Virtual Account",
+}
+
+export default function MemberReceiptPage() {
+  const router = useRouter()
+  const params = useParams<{ id: string }>()
+  const [ready, setReady] = useState(false)
+
+  useEffect(() => {
+    if (!getMemberToken()) router.replace("/portal/login")
+    else setReady(true)
+  }, [router])
+
+  const { data, error } = useSWR<PortalReceipt>(
+    ready && params?.id ? `/transactions/${encodeURIComponent(params.id)}/receipt` : null,
+    portalSWRFetcher
+  )
+
+  useEffect(() => {
+    if (error instanceof PortalError && error.status === 401) router.replace("/portal/login")
+  }, [error, router])
+
+  if (error) {
+    return (
+      <div className="text-center py-12 space-y-4">
+        <p className="text-gray-600">Struk tidak ditemukan</p>
+        <Link href="/portal" className="text-blue-600 hover:text-blue-800 text-sm">Kembali</Link>
+      </div>
+    )
+  }
+  if (!data) return <div className="text-center text-gray-500 py-12">Memuat...</div>
+
+  const trx = data.transaction
+  const discounts = [
+    { label: "Diskon Promo", amount: trx.promotionDiscount },
+    { label: trx.voucherCode ? `Voucher (${trx.voucherCode})` : "Voucher", amount: trx.voucherDiscount },
+    { label: "Diskon Member", amount: trx.tierDiscount },
+    { label: `Tukar Poin${trx.pointsUsed ? ` (${trx.pointsUsed} poin)` : ""}`, amount: trx.pointsDiscount },
+  ].filter((row) => row.amount > 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between print:hidden">
+        <Link href="/portal" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Kembali
+        </Link>
+        <button onClick={() => window.print()} className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800">
+          <PrinterIcon className="h-5 w-5 mr-1" />
+          Cetak
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-5 font-mono text-sm">
+        <div className="text-center border-b border-dashed border-gray-300 pb-3">
+          <p className="font-bold text-base">WEAR CALAA</p>
+          <p className="text-xs text-gray-500">No. {trx.id}</p>
+          <p className="text-xs text-gray-500">
+            {formatTanggal(trx.createdAt)} {new Date(trx.createdAt).toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit" })}
+          </p>
+        </div>
+
+        <div className="py-3 space-y-2 border-b border-dashed border-gray-300">
+          {trx.items.map((item) => (
+            <div key={item.id}>
+              <p>{item.name}{item.size || item.color ? ` (${[item.size, item.color].filter(Boolean).join(", ")})` : ""}</p>
+              <div className="flex justify-between text-gray-600">
+                <span>{item.quantity} x {formatRupiah(item.price)}</span>
+                <span>{formatRupiah(item.total)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="py-3 space-y-1 border-b border-dashed border-gray-300">
+          <div className="flex justify-between"><span>Subtotal</span><span>{formatRupiah(trx.subtotal)}</span></div>
+          {discounts.map((row) => (
+            <div key={row.label} className="flex justify-between text-green-700">
+              <span>{row.label}</span>
+              <span>-{formatRupiah(row.amount)}</span>
+            </div>
+          ))}
+          {trx.tax > 0 && (
+            <div className="flex justify-between">
+              <span>{trx.taxInclusive ? "PPN (termasuk)" : "PPN"}</span>
+              <span>{formatRupiah(trx.tax)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-bold text-base pt-1">
+            <span>Total</span>
+            <span>{formatRupiah(trx.finalTotal)}</span>
+          </div>
+          <div className="flex justify-between text-gray-600">
+            <span>Pembayaran</span>
+            <span>{PAYMENT_LABELS[trx.paymentMethod] || trx.paymentMethod}</span>
+          </div>
+        </div>
+
+        <div className="pt-3 text-center text-xs text-gray-500 space-y-1">
+          {trx.pointsEarned ? <p>Poin diperoleh: +{trx.pointsEarned}</p> : null}
+          {trx.user?.name && <p>Kasir: {trx.user.name}</p>}
+          <p>Terima kasih telah berbelanja di Wear Calaa</p>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,411 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import {
+  ArchiveBoxIcon,
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  CheckCircleIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+import { formatCurrency } from '@/lib/utils'
+
+type ArchiveStatus = 'DRAFT' | 'ARCHIVED' | 'RESTORED' | 'DISCARDED'
+
+interface SalesArchive {
+  id: string
+  periodStart: string
+  periodEnd: string
+  status: ArchiveStatus
+  transactionCount: number
+  totalSales: number
+  note?: string | null
+  exportChecksum?: string | null
+  exportedAt?: string | null
+  archivedAt?: string | null
+  restoredAt?: string | null
+  createdAt: string
+  creator?: { id: number; name: string } | null
+  archiver?: { id: number; name: string } | null
+  restorer?: { id: number; name: string } | null
+}
+
+interface ArchivePreview {
+  periodStart: string
+  periodEnd: string
+  transactionCount: number
+  pendingCount: number
+  totalSales: number
+}
+
+const STATUS_LABELS: Record<ArchiveStatus, string> = {
+  DRAFT: 'Draft',
+  ARCHIVED: 'Diarsipkan',
+  RESTORED: 'Dipulihkan',
+  DISCARDED: 'Dibatalkan',
+}
+
+const STATUS_CLASSES: Record<ArchiveStatus, string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-800',
+  ARCHIVED: 'bg-blue-100 text-blue-800',
+  RESTORED: 'bg-green-100 text-green-800',
+  DISCARDED: 'bg-gray-100 text-gray-600',
+}
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Intl.DateTimeFormat('id-ID', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' }).format(new Date(value))
+    : '-'
+
+export default function ArchivesPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [note, setNote] = useState('')
+  const [preview, setPreview] = useState<ArchivePreview | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [applying, setApplying] = useState<SalesArchive | null>(null)
+  const [confirmation, setConfirmation] = useState('')
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'archives:manage')) {
+      toast.error('Akses ditolak - Hanya admin yang dapat mengarsipkan penjualan')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canManage = hasPermission(user?.role, 'archives:manage')
+  const { data, mutate } = useSWR<{ archives: SalesArchive[]; confirmation: string }>(canManage ? '/api/v1/archives' : null, apiSWRFetcher)
+  const archives = data?.archives || []
+  const confirmationWord = data?.confirmation || 'ARSIPKAN'
+
+  // Pratinjau ikut berubah saat periode diganti
+  useEffect(() => {
+    setPreview(null)
+  }, [from, to])
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Archive action failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const readError = async (res: Response, fallback: string) => {
+    const body = await res.json().catch(() => ({}))
+    return new Error(body.error || fallback)
+  }
+
+  const loadPreview = () => runAction('preview', async () => {
+    if (!from || !to) throw new Error('Pilih tanggal awal dan akhir periode')
+    const res = await apiFetch(`/api/v1/archives/preview?from=${from}&to=${to}`)
+    if (!res.ok) throw await readError(res, 'Gagal memuat pratinjau')
+    setPreview(await res.json())
+  })
+
+  const createDraft = () => runAction('create', async () => {
+    const res = await apiFetch('/api/v1/archives', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to, ...(note.trim() ? { note: note.trim() } : {}) })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal membuat draft arsip')
+    toast.success('Draft arsip dibuat. Unduh file ekspor sebelum mengarsipkan.')
+    setPreview(null)
+    setNote('')
+    mutate()
+  })
+
+  const downloadExport = (archive: SalesArchive) => runAction(`export-${archive.id}`, async () => {
+    const res = await apiFetch(`/api/v1/archives/${archive.id}/export`)
+    if (!res.ok) throw await readError(res, 'Gagal mengunduh ekspor')
+    const url = URL.createObjectURL(await res.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `arsip-penjualan-${archive.periodStart}_${archive.periodEnd}.json`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setTimeout(() => URL.revokeObjectURL(url), 60000)
+    mutate()
+  })
+
+  const applyArchive = () => runAction('apply', async () => {
+    if (!applying) return
+    const res = await apiFetch(`/api/v1/archives/${applying.id}/apply`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ confirmation })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal mengarsipkan periode')
+    const body = await res.json()
+    toast.success(`${body.archivedCount} transaksi diarsipkan`)
+    setApplying(null)
+    setConfirmation('')
+    mutate()
+  })
+
+  const restoreArchive = (archive: SalesArchive) => runAction(`restore-${archive.id}`, async () => {
+    if (!confirm(`Pulihkan ${archive.transactionCount} transaksi periode ${archive.periodStart} s/d ${archive.periodEnd} ke dashboard?`)) return
+    const res = await apiFetch(`/api/v1/archives/${archive.id}/restore`, { method: 'POST' })
+    if (!res.ok) throw await readError(res, 'Gagal memulihkan arsip')
+    const body = await res.json()
+    toast.success(`${body.restoredCount} transaksi dipulihkan`)
+    mutate()
+  })
+
+  const discardDraft = (archive: SalesArchive) => runAction(`discard-${archive.id}`, async () => {
+    if (!confirm('Batalkan draft arsip ini?')) return
+    const res = await apiFetch(`/api/v1/archives/${archive.id}`, { method: 'DELETE' })
+    if (!res.ok) throw await readError(res, 'Gagal membatalkan draft')
+    mutate()
+  })
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canManage) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <h1 className="text-2xl font-bold text-gray-900">Arsip Periode Penjualan</h1>
+            <p className="text-sm text-gray-500">
+              Transaksi yang diarsipkan tidak dihapus; hanya disembunyikan dari dashboard dan dapat dipulihkan kapan saja.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Draft baru */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Tutup Periode</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dari tanggal</label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sampai tanggal</label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Catatan</label>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Mis. Tutup buku Januari"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <button
+              onClick={loadPreview}
+              disabled={busy === 'preview'}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium disabled:opacity-50"
+            >
+              {busy === 'preview' ? 'Memuat...' : 'Pratinjau'}
+            </button>
+            {preview && (
+              <>
+                <span className="text-sm text-gray-700">
+                  {preview.transactionCount} transaksi, penjualan {formatCurrency(preview.totalSales)}
+                  {preview.pendingCount > 0 && (
+                    <span className="text-red-600"> — {preview.pendingCount} transaksi masih PENDING</span>
+                  )}
+                </span>
+                <button
+                  onClick={createDraft}
+                  disabled={busy === 'create' || preview.transactionCount === 0 || preview.pendingCount > 0}
+                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50 flex items-center"
+                >
+                  <ArchiveBoxIcon className="h-5 w-5 mr-2" />
+                  Buat Draft Arsip
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Daftar arsip */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Periode</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaksi</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Riwayat</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {archives.map((archive) => (
+                <tr key={archive.id}>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="font-medium text-gray-900">{archive.periodStart} s/d {archive.periodEnd}</div>
+                    {archive.note && <div className="text-xs text-gray-500">{archive.note}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-700">
+                    {archive.transactionCount}
+                    <div className="text-xs text-gray-500">{formatCurrency(archive.totalSales)}</div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_CLASSES[archive.status]}`}>
+                      {STATUS_LABELS[archive.status]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-xs text-gray-500 space-y-0.5">
+                    <div>Dibuat {formatDate(archive.createdAt)} oleh {archive.creator?.name || '-'}</div>
+                    {archive.exportedAt && <div>Diekspor {formatDate(archive.exportedAt)}</div>}
+                    {archive.archivedAt && <div>Diarsipkan {formatDate(archive.archivedAt)} oleh {archive.archiver?.name || '-'}</div>}
+                    {archive.restoredAt && <div>Dipulihkan {formatDate(archive.restoredAt)} oleh {archive.restorer?.name || '-'}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center gap-3">
+                      {archive.status !== 'DISCARDED' && (
+                        <button
+                          onClick={() => downloadExport(archive)}
+                          disabled={busy === `export-${archive.id}`}
+                          className="text-blue-600 hover:text-blue-900 flex items-center disabled:opacity-50"
+                          title="Unduh ekspor JSON"
+                        >
+                          <ArrowDownTrayIcon className="h-5 w-5 mr-1" />
+                          Ekspor
+                        </button>
+                      )}
+                      {archive.status === 'DRAFT' && (
+                        <>
+                          <button
+                            onClick={() => {
+                              setConfirmation('')
+                              setApplying(archive)
+                            }}
+                            disabled={!archive.exportedAt}
+                            className="text-amber-600 hover:text-amber-800 flex items-center disabled:opacity-40"
+                            title={archive.exportedAt ? 'Arsipkan periode' : 'Unduh ekspor terlebih dahulu'}
+                          >
+                            <CheckCircleIcon className="h-5 w-5 mr-1" />
+                            Arsipkan
+                          </button>
+                          <button onClick={() => discardDraft(archive)} className="text-red-600 hover:text-red-900" title="Batalkan draft">
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        </>
+                      )}
+                      {archive.status === 'ARCHIVED' && (
+                        <button
+                          onClick={() => restoreArchive(archive)}
+                          disabled={busy === `restore-${archive.id}`}
+                          className="text-green-600 hover:text-green-800 flex items-center disabled:opacity-50"
+                        >
+                          <ArrowUturnLeftIcon className="h-5 w-5 mr-1" />
+                          Pulihkan
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {archives.length === 0 && (
+            <div className="text-center py-12">
+              <p className="text-gray-500">Belum ada arsip periode</p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      {/* Konfirmasi arsip */}
+      {applying && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Arsipkan Periode</h3>
+              <button onClick={() => setApplying(null)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-700">
+                {applying.transactionCount} transaksi periode <strong>{applying.periodStart} s/d {applying.periodEnd}</strong> akan
+                disembunyikan dari dashboard. Data tetap tersimpan dan arsip dapat dipulihkan.
+              </p>
+              {applying.exportedAt && (
+                <p className="text-xs text-gray-500">
+                  File ekspor dibuat {formatDate(applying.exportedAt)}. Jika penjualan periode ini berubah setelahnya, unduh ulang
+                  ekspor sebelum mengarsipkan.
+                </p>
+              )}
+              {applying.exportChecksum && (
+                <p className="text-xs text-gray-500 break-all">Checksum ekspor (SHA-256): {applying.exportChecksum}</p>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Ketik <span className="font-mono font-bold">{confirmationWord}</span> untuk melanjutkan
+                </label>
+                <input
+                  type="text"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono"
+                  autoFocus
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={() => setApplying(null)}
+                  className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+                >
+                  Batal
+                </button>
+                <button
+                  onClick={applyArchive}
+                  disabled={busy === 'apply' || confirmation.trim().toUpperCase() !== confirmationWord}
+                  className="px-4 py-2 rounded-lg bg-amber-600 hover:bg-amber-700 text-white font-medium disabled:opacity-50"
+                >
+                  {busy === 'apply' ? 'Memproses...' : 'Arsipkan'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
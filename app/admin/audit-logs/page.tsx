@@ -0,0 +1,313 @@
+"use client"
+
+import { Fragment, useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  ChevronLeftIcon,
+} from '@heroicons/react/24/outline'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiSWRFetcher } from '@/lib/api'
+
+type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'BULK_UPDATE' | 'BULK_DELETE'
+
+interface AuditLog {
+  id: string
+  action: AuditAction
+  entity: string
+  entityId: string | null
+  actorId: number | null
+  actorRole: string | null
+  actor?: { id: number; name: string; email: string; role: string } | null
+  ip: string | null
+  method: string | null
+  route: string | null
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  createdAt: string
+}
+
+interface AuditLogResponse {
+  count: number
+  page: number
+  limit: number
+  logs: AuditLog[]
+}
+
+interface Filters {
+  entity: string
+  action: string
+  actorId: string
+  entityId: string
+  route: string
+  from: string
+  to: string
+}
+
+const emptyFilters: Filters = { entity: '', action: '', actorId: '', entityId: '', route: '', from: '', to: '' }
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Buat',
+  UPDATE: 'Ubah',
+  DELETE: 'Hapus',
+  BULK_UPDATE: 'Ubah Massal',
+  BULK_DELETE: 'Hapus Massal',
+}
+
+const ACTION_CLASSES: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+  BULK_UPDATE: 'bg-indigo-100 text-indigo-800',
+  BULK_DELETE: 'bg-orange-100 text-orange-800',
+}
+
+const PAGE_SIZE = 50
+
+const formatDateTime = (value: string) =>
+  new Intl.DateTimeFormat('id-ID', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(new Date(value))
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '-'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Changed fields side by side; creates only have "after", deletes only "before"
+function AuditDiff({ log }: { log: AuditLog }) {
+  const keys = Array.from(new Set([...Object.keys(log.before || {}), ...Object.keys(log.after || {})]))
+  if (keys.length === 0) return <p className="text-sm text-gray-500">Tidak ada detail perubahan</p>
+  return (
+    <table className="min-w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-4 font-medium">Field</th>
+          <th className="py-1 pr-4 font-medium">Sebelum</th>
+          <th className="py-1 font-medium">Sesudah</th>
+        </tr>
+      </thead>
+      <tbody className="font-mono">
+        {keys.map((key) => (
+          <tr key={key} className="align-top">
+            <td className="py-1 pr-4 text-gray-700">{key}</td>
+            <td className="py-1 pr-4 text-red-700 break-all">{log.before ? formatValue(log.before[key]) : '-'}</td>
+            <td className="py-1 text-green-700 break-all">{log.after ? formatValue(log.after[key]) : '-'}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function AuditLogsPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [filters, setFilters] = useState<Filters>(emptyFilters)
+  const [page, setPage] = useState(1)
+  const [expanded, setExpanded] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'audit:read')) {
+      toast.error('Akses ditolak - Hanya admin yang dapat melihat audit log')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canRead = hasPermission(user?.role, 'audit:read')
+  const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+  for (const [key, value] of Object.entries(filters)) {
+    if (value.trim()) params.set(key, value.trim())
+  }
+
+  const { data, isLoading } = useSWR<AuditLogResponse>(canRead ? `/api/v1/audit-logs?${params.toString()}` : null, apiSWRFetcher)
+  const { data: entityData } = useSWR<{ entities: string[] }>(canRead ? '/api/v1/audit-logs/entities' : null, apiSWRFetcher)
+  const { data: usersData } = useSWR<{ users: Array<{ id: number; name: string; role: string }> }>(canRead ? '/api/v1/users' : null, apiSWRFetcher)
+
+  const logs = data?.logs || []
+  const totalPages = Math.max(1, Math.ceil((data?.count || 0) / PAGE_SIZE))
+  const users = usersData?.users || []
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters({ ...filters, [key]: value })
+    setPage(1)
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canRead) {
+    return null
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+              <p className="text-sm text-gray-500">Semua perubahan data melalui API: siapa, kapan, dari mana dan apa yang berubah</p>
+            </div>
+            <span className="text-sm text-gray-500">{data?.count ?? 0} entri</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          {/* Filters */}
+          <div className="p-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-4 lg:grid-cols-7 gap-3">
+            <select value={filters.entity} onChange={(e) => updateFilter('entity', e.target.value)} className={inputClass}>
+              <option value="">Semua entitas</option>
+              {(entityData?.entities || []).map((entity) => (
+                <option key={entity} value={entity}>{entity}</option>
+              ))}
+            </select>
+            <select value={filters.action} onChange={(e) => updateFilter('action', e.target.value)} className={inputClass}>
+              <option value="">Semua aksi</option>
+              {(Object.keys(ACTION_LABELS) as AuditAction[]).map((action) => (
+                <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+              ))}
+            </select>
+            <select value={filters.actorId} onChange={(e) => updateFilter('actorId', e.target.value)} className={inputClass}>
+              <option value="">Semua pengguna</option>
+              {users.map((u) => (
+                <option key={u.id} value={u.id}>{u.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={filters.entityId}
+              onChange={(e) => updateFilter('entityId', e.target.value)}
+              placeholder="ID entitas"
+              className={inputClass}
+            />
+            <input
+              type="text"
+              value={filters.route}
+              onChange={(e) => updateFilter('route', e.target.value)}
+              placeholder="Route, mis. /products"
+              className={inputClass}
+            />
+            <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+            <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3"></th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pengguna</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entitas</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Route</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">IP</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                  {logs.map((log) => (
+                    <Fragment key={log.id}>
+                      <tr className="hover:bg-gray-50 cursor-pointer" onClick={() => setExpanded(expanded === log.id ? null : log.id)}>
+                        <td className="px-4 py-3 text-gray-400">
+                          {expanded === log.id ? <ChevronDownIcon className="h-4 w-4" /> : <ChevronRightIcon className="h-4 w-4" />}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600">{formatDateTime(log.createdAt)}</td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <div className="font-medium text-gray-900">{log.actor?.name || (log.actorId ? `#${log.actorId}` : 'Sistem')}</div>
+                          {log.actorRole && <div className="text-xs text-gray-500">{log.actorRole}</div>}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ACTION_CLASSES[log.action]}`}>
+                            {ACTION_LABELS[log.action]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap">
+                          <div className="font-medium text-gray-900">{log.entity}</div>
+                          {log.entityId && <div className="text-xs text-gray-500 font-mono">{log.entityId}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600 font-mono text-xs break-all">
+                          {log.method} {log.route}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-600 font-mono text-xs">{log.ip || '-'}</td>
+                      </tr>
+                      {expanded === log.id && (
+                        <tr className="bg-gray-50">
+                          <td></td>
+                          <td colSpan={6} className="px-4 py-3">
+                            <AuditDiff log={log} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+              {logs.length === 0 && (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">Tidak ada entri audit untuk filter ini</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Pagination */}
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+            <span>Halaman {page} dari {totalPages}</span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <ChevronLeftIcon className="h-4 w-4 mr-1" />
+                Sebelumnya
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Berikutnya
+                <ChevronRightIcon className="h-4 w-4 ml-1" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
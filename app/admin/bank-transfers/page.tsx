@@ -2,12 +2,14 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import { toast } from 'react-hot-toast'
 import { apiFetch } from '@/lib/api'
 import { formatCurrency } from '@/lib/utils'
 import { FaCheckCircle, FaTimesCircle } from 'react-icons/fa'
 import LoadingSpinner from '@/components/LoadingSpinner'
+import ManagerApprovalModal, { isApprovalRequired, type ApprovalRequest } from '@/components/ManagerApprovalModal'
 
 type Transaction = {
   id: string
@@ -27,14 +29,15 @@ export default function BankTransfersPage() {
   const [transactions, setTransactions] = useState<Transaction[]>([])
   const [loading, setLoading] = useState(true)
   const [confirming, setConfirming] = useState<string | null>(null)
+  const [approvalRequest, setApprovalRequest] = useState<(ApprovalRequest & { retry: (approvalToken: string) => void }) | null>(null)
 
   useEffect(() => {
     if (authLoading) return
     if (!user) {
       router.push('/login')
-    } else if (user.role !== 'ADMIN') {
+    } else if (!hasPermission(user.role, 'payments:confirm')) {
       router.push('/dashboard')
-      toast.error('Hanya admin yang dapat mengakses halaman ini')
+      toast.error('Anda tidak memiliki akses ke halaman ini')
     } else {
       fetchPendingTransactions()
     }
@@ -59,17 +62,29 @@ export default function BankTransfersPage() {
     }
   }
 
-  const confirmPayment = async (transactionId: string) => {
+  const confirmPayment = async (transaction: Transaction, approvalToken?: string) => {
+    const transactionId = transaction.id
     try {
       setConfirming(transactionId)
       
       const response = await apiFetch('/api/v1/payments/bank-transfer/confirm', {
         method: 'POST',
+        headers: approvalToken ? { 'X-Approval-Token': approvalToken } : {},
         body: JSON.stringify({ transactionId })
       })
       
       if (!response.ok) {
-        const errorData = await response.json()
+        const errorData = await response.json().catch(() => ({}))
+        // Kasir perlu persetujuan manajer untuk menandai transaksi lunas
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId,
+            description: `Konfirmasi transfer bank ${transactionId} (${formatCurrency(transaction.total)})`,
+            retry: (token) => confirmPayment(transaction, token)
+          })
+          return
+        }
         throw new Error(errorData.message || 'Failed to confirm payment')
       }
       
@@ -142,7 +157,7 @@ export default function BankTransfersPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                     <button
-                      onClick={() => confirmPayment(transaction.id)}
+                      onClick={() => confirmPayment(transaction)}
                       disabled={confirming === transaction.id}
                       className="text-green-600 hover:text-green-900 mr-4 disabled:opacity-50"
                     >
@@ -165,6 +180,18 @@ export default function BankTransfersPage() {
           </table>
         </div>
       )}
+
+      {approvalRequest && (
+        <ManagerApprovalModal
+          request={approvalRequest}
+          onClose={() => setApprovalRequest(null)}
+          onApproved={(approvalToken) => {
+            const { retry } = approvalRequest
+            setApprovalRequest(null)
+            retry(approvalToken)
+          }}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,742 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+import { formatCurrency } from '@/lib/utils'
+
+interface LoyaltyProgram {
+  spendPerPoint: number
+  pointValue: number
+  minRedeemPoints: number
+  maxPointsPerTransaction: number | null
+  categoryMultipliers: Record<string, number>
+  excludedCategoryIds: string[]
+  pointsExpiryMonths: number | null
+  expiryReminderDays: number | null
+  birthdayVoucherType: RewardVoucherType
+  birthdayVoucherValue: number | null
+  anniversaryVoucherType: RewardVoucherType
+  anniversaryVoucherValue: number | null
+  rewardVoucherDays: number
+  updatedAt?: string | null
+}
+
+type RewardVoucherType = 'fixed' | 'percentage'
+
+interface Category {
+  id: string
+  name: string
+}
+
+interface MemberTier {
+  id: number
+  name: string
+  minSpend: number
+  earnMultiplier: number
+  discountPercent: number
+  color: string | null
+  isActive: boolean
+}
+
+interface TierForm {
+  name: string
+  minSpend: string
+  earnMultiplier: string
+  discountPercent: string
+  color: string
+  isActive: boolean
+}
+
+const EMPTY_TIER_FORM: TierForm = { name: '', minSpend: '', earnMultiplier: '1', discountPercent: '0', color: '#6b7280', isActive: true }
+
+// Nilai form disimpan sebagai teks agar input boleh dikosongkan saat diketik
+interface ProgramForm {
+  spendPerPoint: string
+  pointValue: string
+  minRedeemPoints: string
+  maxPointsPerTransaction: string
+  pointsExpiryMonths: string
+  expiryReminderDays: string
+  birthdayVoucherType: RewardVoucherType
+  birthdayVoucherValue: string
+  anniversaryVoucherType: RewardVoucherType
+  anniversaryVoucherValue: string
+  rewardVoucherDays: string
+}
+
+interface CategoryDraft {
+  multiplier: string
+  excluded: boolean
+}
+
+const toForm = (program: LoyaltyProgram): ProgramForm => ({
+  spendPerPoint: String(program.spendPerPoint),
+  pointValue: String(program.pointValue),
+  minRedeemPoints: String(program.minRedeemPoints),
+  maxPointsPerTransaction: program.maxPointsPerTransaction == null ? '' : String(program.maxPointsPerTransaction),
+  pointsExpiryMonths: program.pointsExpiryMonths == null ? '' : String(program.pointsExpiryMonths),
+  expiryReminderDays: program.expiryReminderDays == null ? '' : String(program.expiryReminderDays),
+  birthdayVoucherType: program.birthdayVoucherType,
+  birthdayVoucherValue: program.birthdayVoucherValue == null ? '' : String(program.birthdayVoucherValue),
+  anniversaryVoucherType: program.anniversaryVoucherType,
+  anniversaryVoucherValue: program.anniversaryVoucherValue == null ? '' : String(program.anniversaryVoucherValue),
+  rewardVoucherDays: String(program.rewardVoucherDays),
+})
+
+const REWARD_OCCASIONS = [
+  { key: 'birthday', label: 'Voucher Ulang Tahun' },
+  { key: 'anniversary', label: 'Voucher Anniversary Member' },
+] as const
+
+// Tier dihitung dari belanja 12 bulan terakhir; setiap perubahan definisi langsung menghitung ulang semua member
+function MemberTiersSection() {
+  const { data, mutate } = useSWR<{ tiers: MemberTier[] }>('/api/v1/member-tiers', apiSWRFetcher)
+  const tiers = data?.tiers || []
+  const [form, setForm] = useState<TierForm>(EMPTY_TIER_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const resetForm = () => {
+    setForm(EMPTY_TIER_FORM)
+    setEditingId(null)
+  }
+
+  const editTier = (tier: MemberTier) => {
+    setEditingId(tier.id)
+    setForm({
+      name: tier.name,
+      minSpend: String(tier.minSpend),
+      earnMultiplier: String(tier.earnMultiplier),
+      discountPercent: String(tier.discountPercent),
+      color: tier.color || '#6b7280',
+      isActive: tier.isActive,
+    })
+  }
+
+  const request = async (path: string, init: RequestInit, success: (body: any) => string) => {
+    setBusy(true)
+    try {
+      const res = await apiFetch(path, init)
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menyimpan tier')
+      toast.success(success(body))
+      mutate()
+      return true
+    } catch (error) {
+      console.error('Member tier request failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+      return false
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const movedMessage = (body: any) => body?.recalculated?.changed > 0 ? `, ${body.recalculated.changed} member pindah tier` : ''
+
+  const saveTier = async () => {
+    const minSpend = Number(form.minSpend)
+    const earnMultiplier = Number(form.earnMultiplier)
+    const discountPercent = Number(form.discountPercent || 0)
+    if (!form.name.trim()) return toast.error('Nama tier wajib diisi')
+    if (form.minSpend.trim() === '' || !Number.isFinite(minSpend) || minSpend < 0) return toast.error('Minimal belanja tidak valid')
+    if (!Number.isFinite(earnMultiplier) || earnMultiplier < 0) return toast.error('Pengali poin tidak valid')
+    if (!Number.isFinite(discountPercent) || discountPercent < 0 || discountPercent > 100) return toast.error('Diskon harus 0-100%')
+
+    const saved = await request(
+      editingId ? `/api/v1/member-tiers/${editingId}` : '/api/v1/member-tiers',
+      {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: form.name.trim(), minSpend, earnMultiplier, discountPercent, color: form.color, isActive: form.isActive })
+      },
+      (body) => `Tier disimpan${movedMessage(body)}`
+    )
+    if (saved) resetForm()
+  }
+
+  const deleteTier = async (tier: MemberTier) => {
+    if (!confirm(`Hapus tier ${tier.name}? Member di tier ini akan dihitung ulang.`)) return
+    const deleted = await request(`/api/v1/member-tiers/${tier.id}`, { method: 'DELETE' }, (body) => `Tier dihapus${movedMessage(body)}`)
+    if (deleted && editingId === tier.id) resetForm()
+  }
+
+  const recalculate = () => request(
+    '/api/v1/member-tiers/recalculate',
+    { method: 'POST' },
+    (body) => `Tier dihitung ulang untuk ${body.members} member, ${body.changed} pindah tier`
+  )
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+      <div className="p-6 pb-0 flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Tier Member</h2>
+          <p className="text-sm text-gray-500">
+            Tier mengikuti total belanja 12 bulan terakhir, dihitung ulang setiap transaksi dan setiap malam. Diskon tier otomatis dipotong setelah promosi dan voucher.
+          </p>
+        </div>
+        <button
+          onClick={recalculate}
+          disabled={busy}
+          className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+        >
+          Hitung ulang sekarang
+        </button>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Nama</label>
+          <input
+            type="text"
+            value={form.name}
+            placeholder="Gold"
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Minimal belanja (Rp)</label>
+          <input
+            type="number"
+            min={0}
+            step="100000"
+            value={form.minSpend}
+            onChange={(e) => setForm({ ...form, minSpend: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Pengali poin</label>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={form.earnMultiplier}
+            onChange={(e) => setForm({ ...form, earnMultiplier: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Diskon otomatis (%)</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="1"
+            value={form.discountPercent}
+            onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+          />
+        </div>
+        <div className="flex items-center gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Warna</label>
+            <input
+              type="color"
+              value={form.color}
+              onChange={(e) => setForm({ ...form, color: e.target.value })}
+              className="h-10 w-14 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+            <input
+              type="checkbox"
+              checked={form.isActive}
+              onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+            />
+            Aktif
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={saveTier}
+            disabled={busy}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+          >
+            {editingId ? 'Simpan' : 'Tambah'}
+          </button>
+          {editingId && (
+            <button onClick={resetForm} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+              Batal
+            </button>
+          )}
+        </div>
+      </div>
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tier</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Minimal Belanja 12 Bulan</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pengali Poin</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diskon</th>
+            <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+            <th className="px-6 py-3"></th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200 text-sm">
+          {tiers.map((tier) => (
+            <tr key={tier.id}>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span
+                  className="px-2 py-0.5 rounded-full text-xs font-semibold text-white"
+                  style={{ backgroundColor: tier.color || '#6b7280' }}
+                >
+                  {tier.name}
+                </span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-gray-900">{formatCurrency(tier.minSpend)}</td>
+              <td className="px-6 py-4 whitespace-nowrap text-gray-900">{tier.earnMultiplier}x</td>
+              <td className="px-6 py-4 whitespace-nowrap text-gray-900">{tier.discountPercent > 0 ? `${tier.discountPercent}%` : '-'}</td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${tier.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'}`}>
+                  {tier.isActive ? 'Aktif' : 'Nonaktif'}
+                </span>
+              </td>
+              <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                <button onClick={() => editTier(tier)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                <button onClick={() => deleteTier(tier)} disabled={busy} className="text-red-600 hover:text-red-800 disabled:opacity-50">Hapus</button>
+              </td>
+            </tr>
+          ))}
+          {tiers.length === 0 && (
+            <tr>
+              <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Belum ada tier; semua member mendapat aturan dasar</td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export default function LoyaltyPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [form, setForm] = useState<ProgramForm | null>(null)
+  const [categoryDrafts, setCategoryDrafts] = useState<Record<string, CategoryDraft>>({})
+  const [saving, setSaving] = useState(false)
+  const [expiring, setExpiring] = useState(false)
+  const [rewarding, setRewarding] = useState(false)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'loyalty:manage')) {
+      toast.error('Akses ditolak - Hanya admin yang dapat mengatur program poin')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canManage = hasPermission(user?.role, 'loyalty:manage')
+  const { data: program, mutate: mutateProgram } = useSWR<LoyaltyProgram>(canManage ? '/api/v1/loyalty/program' : null, apiSWRFetcher)
+  const { data: categoryData } = useSWR<{ categories: Category[] }>(canManage ? '/api/v1/categories' : null, apiSWRFetcher)
+  const categories = categoryData?.categories || []
+
+  useEffect(() => {
+    if (program) setForm(toForm(program))
+  }, [program])
+
+  useEffect(() => {
+    if (!program) return
+    setCategoryDrafts(Object.fromEntries(categories.map((c) => [c.id, {
+      multiplier: program.categoryMultipliers[c.id] == null ? '' : String(program.categoryMultipliers[c.id]),
+      excluded: program.excludedCategoryIds.includes(c.id),
+    }])))
+  }, [program, categoryData])
+
+  const updateDraft = (id: string, changes: Partial<CategoryDraft>) =>
+    setCategoryDrafts((prev) => ({ ...prev, [id]: { ...(prev[id] || { multiplier: '', excluded: false }), ...changes } }))
+
+  const saveProgram = async () => {
+    if (!form) return
+    const spendPerPoint = Number(form.spendPerPoint)
+    const pointValue = Number(form.pointValue)
+    const minRedeemPoints = Number(form.minRedeemPoints || 0)
+    const maxPointsPerTransaction = form.maxPointsPerTransaction.trim() === '' ? null : Number(form.maxPointsPerTransaction)
+    if (!Number.isFinite(spendPerPoint) || spendPerPoint < 1) return toast.error('Belanja per poin minimal Rp 1')
+    if (!Number.isFinite(pointValue) || pointValue < 0) return toast.error('Nilai tukar poin tidak valid')
+    if (!Number.isInteger(minRedeemPoints) || minRedeemPoints < 0) return toast.error('Minimal penukaran harus bilangan bulat')
+    if (maxPointsPerTransaction !== null && (!Number.isInteger(maxPointsPerTransaction) || maxPointsPerTransaction < 0)) {
+      return toast.error('Batas poin per transaksi harus bilangan bulat')
+    }
+    const pointsExpiryMonths = form.pointsExpiryMonths.trim() === '' ? null : Number(form.pointsExpiryMonths)
+    const expiryReminderDays = form.expiryReminderDays.trim() === '' ? null : Number(form.expiryReminderDays)
+    if (pointsExpiryMonths !== null && (!Number.isInteger(pointsExpiryMonths) || pointsExpiryMonths < 1)) {
+      return toast.error('Masa berlaku poin minimal 1 bulan')
+    }
+    if (expiryReminderDays !== null && (!Number.isInteger(expiryReminderDays) || expiryReminderDays < 1)) {
+      return toast.error('Pengingat minimal 1 hari sebelum kedaluwarsa')
+    }
+    const birthdayVoucherValue = form.birthdayVoucherValue.trim() === '' ? null : Number(form.birthdayVoucherValue)
+    const anniversaryVoucherValue = form.anniversaryVoucherValue.trim() === '' ? null : Number(form.anniversaryVoucherValue)
+    for (const [value, type] of [
+      [birthdayVoucherValue, form.birthdayVoucherType],
+      [anniversaryVoucherValue, form.anniversaryVoucherType],
+    ] as const) {
+      if (value === null) continue
+      if (!Number.isFinite(value) || value < 1) return toast.error('Nilai voucher minimal 1')
+      if (type === 'percentage' && value > 100) return toast.error('Diskon voucher maksimal 100%')
+    }
+    const rewardVoucherDays = Number(form.rewardVoucherDays)
+    if (!Number.isInteger(rewardVoucherDays) || rewardVoucherDays < 1) {
+      return toast.error('Masa berlaku voucher minimal 1 hari')
+    }
+
+    const categoryMultipliers: Record<string, number> = {}
+    const excludedCategoryIds: string[] = []
+    for (const [id, draft] of Object.entries(categoryDrafts)) {
+      if (draft.excluded) {
+        excludedCategoryIds.push(id)
+        continue
+      }
+      if (draft.multiplier.trim() === '') continue
+      const multiplier = Number(draft.multiplier)
+      if (!Number.isFinite(multiplier) || multiplier < 0) {
+        return toast.error(`Pengali ${categories.find((c) => c.id === id)?.name || 'kategori'} tidak valid`)
+      }
+      categoryMultipliers[id] = multiplier
+    }
+
+    setSaving(true)
+    try {
+      const res = await apiFetch('/api/v1/loyalty/program', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          spendPerPoint,
+          pointValue,
+          minRedeemPoints,
+          maxPointsPerTransaction,
+          pointsExpiryMonths,
+          expiryReminderDays,
+          birthdayVoucherType: form.birthdayVoucherType,
+          birthdayVoucherValue,
+          anniversaryVoucherType: form.anniversaryVoucherType,
+          anniversaryVoucherValue,
+          rewardVoucherDays,
+          categoryMultipliers,
+          excludedCategoryIds,
+        })
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menyimpan program poin')
+      toast.success('Program poin disimpan')
+      mutateProgram(body, false)
+    } catch (error) {
+      console.error('Loyalty save failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Menjalankan tugas malam (kedaluwarsa + pengingat) sekarang
+  const runExpiry = async () => {
+    if (!confirm('Jalankan kedaluwarsa poin sekarang? Poin yang sudah lewat masa berlakunya akan dihapus dari saldo member.')) return
+    setExpiring(true)
+    try {
+      const res = await apiFetch('/api/v1/loyalty/expire', { method: 'POST' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menjalankan kedaluwarsa poin')
+      toast.success(`${body.expired.points} poin dari ${body.expired.members} member kedaluwarsa; ${body.reminders.sent} pengingat terkirim`)
+    } catch (error) {
+      console.error('Points expiry failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setExpiring(false)
+    }
+  }
+
+  // Menerbitkan voucher ulang tahun/anniversary hari ini dan mengirim ucapan yang tertunda
+  const runRewards = async () => {
+    setRewarding(true)
+    try {
+      const res = await apiFetch('/api/v1/loyalty/rewards/run', { method: 'POST' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menerbitkan voucher')
+      toast.success(`${body.issued} voucher diterbitkan; ${body.notified} ucapan terkirim${body.failed ? `, ${body.failed} gagal` : ''}`)
+    } catch (error) {
+      console.error('Member rewards failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setRewarding(false)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canManage) {
+    return null
+  }
+
+  const spendPerPoint = Number(form?.spendPerPoint) || 0
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <h1 className="text-2xl font-bold text-gray-900">Program Poin Member</h1>
+            <p className="text-sm text-gray-500">
+              Aturan baru berlaku untuk transaksi berikutnya; pembatalan dan retur memakai poin yang tercatat di transaksi asal.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Aturan umum */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Perolehan & Penukaran</h2>
+          {!form ? (
+            <p className="text-sm text-gray-500">Memuat...</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Belanja per 1 poin (Rp)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="100"
+                  value={form.spendPerPoint}
+                  onChange={(e) => setForm({ ...form, spendPerPoint: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+                {spendPerPoint > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Belanja {formatCurrency(spendPerPoint * 100)} = 100 poin</p>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nilai tukar 1 poin (Rp)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="100"
+                  value={form.pointValue}
+                  onChange={(e) => setForm({ ...form, pointValue: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimal penukaran (poin)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="1"
+                  value={form.minRedeemPoints}
+                  onChange={(e) => setForm({ ...form, minRedeemPoints: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Batas poin per transaksi</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="1"
+                  value={form.maxPointsPerTransaction}
+                  placeholder="Tanpa batas"
+                  onChange={(e) => setForm({ ...form, maxPointsPerTransaction: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Masa berlaku poin */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Masa Berlaku Poin</h2>
+              <p className="text-sm text-gray-500">
+                Poin terlama dipakai lebih dulu. Setiap malam poin yang lewat masa berlakunya dicatat sebagai kedaluwarsa dan dikurangi dari saldo member.
+              </p>
+            </div>
+            <button
+              onClick={runExpiry}
+              disabled={expiring || !program?.pointsExpiryMonths}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+            >
+              {expiring ? 'Memproses...' : 'Jalankan sekarang'}
+            </button>
+          </div>
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Berlaku (bulan sejak diperoleh)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={form.pointsExpiryMonths}
+                  placeholder="Tidak kedaluwarsa"
+                  onChange={(e) => setForm({ ...form, pointsExpiryMonths: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pengingat WhatsApp (hari sebelum)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={form.expiryReminderDays}
+                  placeholder="Tanpa pengingat"
+                  disabled={form.pointsExpiryMonths.trim() === ''}
+                  onChange={(e) => setForm({ ...form, expiryReminderDays: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Voucher ulang tahun & anniversary */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Voucher Ulang Tahun &amp; Anniversary</h2>
+              <p className="text-sm text-gray-500">
+                Setiap pagi member yang berulang tahun atau merayakan tahun keanggotaan menerima voucher pribadi sekali pakai beserta ucapan lewat WhatsApp. Kosongkan nilai untuk menonaktifkan.
+              </p>
+            </div>
+            <button
+              onClick={runRewards}
+              disabled={rewarding || (!program?.birthdayVoucherValue && !program?.anniversaryVoucherValue)}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+            >
+              {rewarding ? 'Memproses...' : 'Jalankan sekarang'}
+            </button>
+          </div>
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {REWARD_OCCASIONS.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <div className="flex gap-2">
+                    <select
+                      value={form[`${key}VoucherType`]}
+                      onChange={(e) => setForm({ ...form, [`${key}VoucherType`]: e.target.value as RewardVoucherType })}
+                      className="px-3 py-2 border border-gray-300 rounded-lg"
+                    >
+                      <option value="fixed">Rp</option>
+                      <option value="percentage">%</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      step="1"
+                      value={form[`${key}VoucherValue`]}
+                      placeholder="Nonaktif"
+                      onChange={(e) => setForm({ ...form, [`${key}VoucherValue`]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Voucher berlaku (hari)</label>
+                <input
+                  type="number"
+                  min={1}
+                  step="1"
+                  value={form.rewardVoucherDays}
+                  onChange={(e) => setForm({ ...form, rewardVoucherDays: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Aturan per kategori */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <div className="p-6 pb-0">
+            <h2 className="text-lg font-semibold text-gray-900">Aturan per Kategori</h2>
+            <p className="text-sm text-gray-500">
+              Kosongkan pengali untuk 1x. Kategori yang dikecualikan tidak menghasilkan poin, tetapi poin tetap bisa dipakai untuk membayarnya.
+            </p>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 mt-4">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kategori</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pengali Poin</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dikecualikan</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {categories.map((category) => {
+                const draft = categoryDrafts[category.id] || { multiplier: '', excluded: false }
+                return (
+                  <tr key={category.id}>
+                    <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-900">{category.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.5"
+                        value={draft.multiplier}
+                        placeholder="1x"
+                        disabled={draft.excluded}
+                        onChange={(e) => updateDraft(category.id, { multiplier: e.target.value })}
+                        className="w-32 px-3 py-1.5 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={draft.excluded}
+                        onChange={(e) => updateDraft(category.id, { excluded: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
+                  </tr>
+                )
+              })}
+              {categories.length === 0 && (
+                <tr>
+                  <td colSpan={3} className="px-6 py-8 text-center text-gray-500">Belum ada kategori</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={saveProgram}
+            disabled={saving || !form}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+          >
+            {saving ? 'Menyimpan...' : 'Simpan Program Poin'}
+          </button>
+        </div>
+
+        <MemberTiersSection />
+      </main>
+    </div>
+  )
+}
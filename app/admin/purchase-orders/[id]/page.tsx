@@ -0,0 +1,448 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter, useParams } from 'next/navigation'
+import Link from 'next/link'
+import useSWR from 'swr'
+import { ArrowLeftIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+import PurchaseOrderForm, { PURCHASE_ORDER_STATUS_LABELS, type PurchaseOrderStatus } from '@/components/PurchaseOrderForm'
+
+interface PurchaseOrderItem {
+  id: string
+  productId: string
+  variantId?: string | null
+  quantityOrdered: number
+  quantityReceived: number
+  unitCost: number
+  product?: { id: string; name: string; productCode?: string; stock: number; costPrice?: number } | null
+  variant?: { id: string; size: string; color: string; productCode?: string } | null
+}
+
+interface PurchaseOrderDetail {
+  id: string
+  poNumber: string
+  status: PurchaseOrderStatus
+  totalAmount: number
+  expectedDate?: string | null
+  notes?: string | null
+  sentAt?: string | null
+  closedAt?: string | null
+  createdAt: string
+  supplier?: { id: string; name: string; phone?: string | null; contactName?: string | null } | null
+  creator?: { id: number; name: string } | null
+  items: PurchaseOrderItem[]
+}
+
+interface ReceiveLine {
+  quantity: string
+  unitCost: string
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' }) : '-'
+
+export default function PurchaseOrderDetailPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const params = useParams()
+  const orderId = params.id as string
+  const [isEditOpen, setIsEditOpen] = useState(false)
+  const [isReceiveOpen, setIsReceiveOpen] = useState(false)
+  const [receiveLines, setReceiveLines] = useState<Record<string, ReceiveLine>>({})
+  const [receiveNote, setReceiveNote] = useState('')
+  const [processing, setProcessing] = useState(false)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'purchasing:manage')) {
+      toast.error('Akses ditolak - Hanya admin atau manajer yang dapat mengakses halaman ini')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const { data: order, isLoading, mutate } = useSWR<PurchaseOrderDetail>(
+    hasPermission(user?.role, 'purchasing:manage') ? `/api/v1/purchase-orders/${orderId}` : null,
+    apiSWRFetcher
+  )
+
+  const runAction = async (action: 'send' | 'close', successMessage: string) => {
+    setProcessing(true)
+    try {
+      const res = await apiFetch(`/api/v1/purchase-orders/${orderId}/${action}`, { method: 'POST' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal memproses purchase order')
+      toast.success(successMessage)
+      mutate(body, false)
+    } catch (error) {
+      console.error(`Error running purchase order ${action}:`, error)
+      toast.error(error instanceof Error ? error.message : 'Gagal memproses purchase order')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  const deleteDraft = async () => {
+    if (!confirm('Hapus draft purchase order ini?')) return
+    try {
+      const res = await apiFetch(`/api/v1/purchase-orders/${orderId}`, { method: 'DELETE' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menghapus purchase order')
+      toast.success('Draft purchase order dihapus')
+      router.push('/admin/purchase-orders')
+    } catch (error) {
+      console.error('Error deleting purchase order:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus purchase order')
+    }
+  }
+
+  const openReceive = () => {
+    if (!order) return
+    // Default every line to its outstanding quantity at the ordered cost
+    const lines: Record<string, ReceiveLine> = {}
+    for (const item of order.items) {
+      const remaining = Math.max(0, item.quantityOrdered - item.quantityReceived)
+      lines[item.id] = { quantity: String(remaining), unitCost: String(item.unitCost) }
+    }
+    setReceiveLines(lines)
+    setReceiveNote('')
+    setIsReceiveOpen(true)
+  }
+
+  const submitReceive = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const items = Object.entries(receiveLines)
+      .filter(([, line]) => Number(line.quantity) > 0)
+      .map(([purchaseOrderItemId, line]) => ({
+        purchaseOrderItemId,
+        quantity: Number(line.quantity),
+        unitCost: line.unitCost === '' ? undefined : Number(line.unitCost),
+      }))
+    if (items.length === 0) {
+      toast.error('Isi jumlah barang yang diterima')
+      return
+    }
+    setProcessing(true)
+    try {
+      const res = await apiFetch(`/api/v1/purchase-orders/${orderId}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, note: receiveNote || undefined }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menerima barang')
+      toast.success('Penerimaan barang dicatat, stok bertambah')
+      setIsReceiveOpen(false)
+      mutate(body.purchaseOrder, false)
+    } catch (error) {
+      console.error('Error receiving purchase order:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menerima barang')
+    } finally {
+      setProcessing(false)
+    }
+  }
+
+  if (authLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !hasPermission(user.role, 'purchasing:manage')) {
+    return null
+  }
+
+  if (!order) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 py-12 text-center">
+          <p className="text-gray-600">Purchase order tidak ditemukan</p>
+          <Link href="/admin/purchase-orders" className="mt-4 inline-block text-blue-600 hover:text-blue-800 font-medium">
+            Kembali ke daftar PO
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const label = PURCHASE_ORDER_STATUS_LABELS[order.status]
+  const canReceive = order.status === 'SENT' || order.status === 'PARTIALLY_RECEIVED'
+  const canClose = canReceive || order.status === 'RECEIVED'
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link href="/admin/purchase-orders" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{order.poNumber}</h1>
+                <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${label?.color || ''}`}>
+                  {label?.text || order.status}
+                </span>
+              </div>
+            </div>
+            <div className="flex items-center space-x-3">
+              {order.status === 'DRAFT' && (
+                <>
+                  <button
+                    onClick={deleteDraft}
+                    className="px-4 py-2 border border-red-300 text-red-600 hover:bg-red-50 rounded-lg font-medium"
+                  >
+                    Hapus
+                  </button>
+                  <button
+                    onClick={() => setIsEditOpen(true)}
+                    className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg font-medium"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => runAction('send', 'Purchase order ditandai terkirim')}
+                    disabled={processing}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium disabled:opacity-50"
+                  >
+                    Kirim ke Supplier
+                  </button>
+                </>
+              )}
+              {canReceive && (
+                <button
+                  onClick={openReceive}
+                  className="px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium"
+                >
+                  Terima Barang
+                </button>
+              )}
+              {canClose && (
+                <button
+                  onClick={() => {
+                    if (confirm('Tutup purchase order ini? Sisa barang yang belum diterima tidak akan ditunggu lagi.')) {
+                      runAction('close', 'Purchase order ditutup')
+                    }
+                  }}
+                  disabled={processing}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 hover:bg-gray-50 rounded-lg font-medium disabled:opacity-50"
+                >
+                  Tutup PO
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Supplier</dt>
+              <dd className="font-medium text-gray-900">{order.supplier?.name || '-'}</dd>
+              {order.supplier?.phone && <dd className="text-xs text-gray-500">{order.supplier.phone}</dd>}
+            </div>
+            <div>
+              <dt className="text-gray-500">Dibuat</dt>
+              <dd className="font-medium text-gray-900">{formatDate(order.createdAt)}</dd>
+              {order.creator?.name && <dd className="text-xs text-gray-500">oleh {order.creator.name}</dd>}
+            </div>
+            <div>
+              <dt className="text-gray-500">Perkiraan Tiba</dt>
+              <dd className="font-medium text-gray-900">
+                {order.expectedDate ? new Date(order.expectedDate).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta' }) : '-'}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Total</dt>
+              <dd className="font-medium text-gray-900">{formatCurrency(order.totalAmount)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Dikirim</dt>
+              <dd className="font-medium text-gray-900">{formatDate(order.sentAt)}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Ditutup</dt>
+              <dd className="font-medium text-gray-900">{formatDate(order.closedAt)}</dd>
+            </div>
+          </dl>
+          {order.notes && <p className="mt-4 text-sm text-gray-700">{order.notes}</p>}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Produk</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Dipesan</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Diterima</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Harga Beli</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Subtotal</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {order.items.map((item) => (
+                <tr key={item.id}>
+                  <td className="px-6 py-4">
+                    <Link href={`/products/${item.productId}`} className="font-medium text-gray-900 hover:text-blue-600">
+                      {item.product?.name || item.productId}
+                    </Link>
+                    {item.variant && (
+                      <div className="text-xs text-gray-500">{item.variant.size} / {item.variant.color}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right">{item.quantityOrdered}</td>
+                  <td className={`px-6 py-4 text-right ${item.quantityReceived >= item.quantityOrdered ? 'text-green-600' : 'text-gray-900'}`}>
+                    {item.quantityReceived}
+                  </td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(item.unitCost)}</td>
+                  <td className="px-6 py-4 text-right">{formatCurrency(item.unitCost * item.quantityOrdered)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+
+      {isEditOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Edit {order.poNumber}</h3>
+              <button onClick={() => setIsEditOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6">
+              <PurchaseOrderForm
+                purchaseOrderId={order.id}
+                initialValues={{
+                  supplierId: order.supplier?.id || '',
+                  expectedDate: order.expectedDate ? String(order.expectedDate).slice(0, 10) : '',
+                  notes: order.notes || '',
+                  items: order.items.map((item) => ({
+                    productId: item.productId,
+                    variantId: item.variantId || '',
+                    quantity: String(item.quantityOrdered),
+                    unitCost: String(item.unitCost),
+                  })),
+                }}
+                onCancel={() => setIsEditOpen(false)}
+                onSaved={(updated) => {
+                  setIsEditOpen(false)
+                  mutate(updated, false)
+                }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isReceiveOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Terima Barang</h3>
+              <button onClick={() => setIsReceiveOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={submitReceive} className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Stok bertambah sesuai jumlah yang diterima dan harga pokok produk dihitung ulang dengan rata-rata tertimbang.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Produk</th>
+                    <th className="px-3 py-2 text-right font-medium text-gray-500">Sisa</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Diterima</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500">Harga Beli</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {order.items.map((item) => {
+                    const remaining = Math.max(0, item.quantityOrdered - item.quantityReceived)
+                    const line = receiveLines[item.id] || { quantity: '0', unitCost: String(item.unitCost) }
+                    return (
+                      <tr key={item.id}>
+                        <td className="px-3 py-2">
+                          {item.product?.name || item.productId}
+                          {item.variant && <span className="text-xs text-gray-500 ml-1">({item.variant.size} / {item.variant.color})</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right">{remaining}</td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="number"
+                            min="0"
+                            max={remaining}
+                            disabled={remaining === 0}
+                            value={line.quantity}
+                            onChange={(e) => setReceiveLines((prev) => ({ ...prev, [item.id]: { ...line, quantity: e.target.value } }))}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <input
+                            type="text"
+                            disabled={remaining === 0}
+                            value={line.unitCost}
+                            onChange={(e) => setReceiveLines((prev) => ({ ...prev, [item.id]: { ...line, unitCost: e.target.value.replace(/\D/g, '') } }))}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Catatan (No. surat jalan, dll)</label>
+                <input
+                  type="text"
+                  value={receiveNote}
+                  onChange={(e) => setReceiveNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setIsReceiveOpen(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={processing}
+                  className="px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+                >
+                  {processing ? 'Menyimpan...' : 'Simpan Penerimaan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
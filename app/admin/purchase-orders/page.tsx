@@ -0,0 +1,188 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import useSWR from 'swr'
+import { ArrowLeftIcon, PlusIcon, TruckIcon, XMarkIcon } from '@heroicons/react/24/outline'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiSWRFetcher } from '@/lib/api'
+import PurchaseOrderForm, { PURCHASE_ORDER_STATUS_LABELS, type PurchaseOrderStatus } from '@/components/PurchaseOrderForm'
+
+interface PurchaseOrderSummary {
+  id: string
+  poNumber: string
+  status: PurchaseOrderStatus
+  totalAmount: number
+  expectedDate?: string | null
+  createdAt: string
+  supplier?: { id: string; name: string } | null
+  items?: { id: string; quantityOrdered: number; quantityReceived: number }[]
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function PurchaseOrdersPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [status, setStatus] = useState<'' | PurchaseOrderStatus>('')
+  const [isCreateOpen, setIsCreateOpen] = useState(false)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'purchasing:manage')) {
+      toast.error('Akses ditolak - Hanya admin atau manajer yang dapat mengakses halaman ini')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const { data, isLoading } = useSWR<{ purchaseOrders: PurchaseOrderSummary[] }>(
+    hasPermission(user?.role, 'purchasing:manage') ? `/api/v1/purchase-orders${status ? `?status=${status}` : ''}` : null,
+    apiSWRFetcher
+  )
+  const orders = data?.purchaseOrders || []
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !hasPermission(user.role, 'purchasing:manage')) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link href="/" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Purchase Order</h1>
+            </div>
+            <div className="flex items-center space-x-3">
+              <Link
+                href="/admin/suppliers"
+                className="bg-white border border-gray-300 hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+              >
+                <TruckIcon className="h-5 w-5 mr-2" />
+                Supplier
+              </Link>
+              <button
+                onClick={() => setIsCreateOpen(true)}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+              >
+                <PlusIcon className="h-5 w-5 mr-2" />
+                Buat PO
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as '' | PurchaseOrderStatus)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Semua Status</option>
+              {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((key) => (
+                <option key={key} value={key}>{PURCHASE_ORDER_STATUS_LABELS[key].text}</option>
+              ))}
+            </select>
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">No. PO</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Supplier</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tanggal</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diterima</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                  {orders.map((order) => {
+                    const ordered = (order.items || []).reduce((sum, i) => sum + Number(i.quantityOrdered || 0), 0)
+                    const received = (order.items || []).reduce((sum, i) => sum + Number(i.quantityReceived || 0), 0)
+                    const label = PURCHASE_ORDER_STATUS_LABELS[order.status]
+                    return (
+                      <tr key={order.id} className="hover:bg-gray-50">
+                        <td className="px-6 py-4 whitespace-nowrap font-medium">
+                          <Link href={`/admin/purchase-orders/${order.id}`} className="text-blue-600 hover:text-blue-800">
+                            {order.poNumber}
+                          </Link>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-900">{order.supplier?.name || '-'}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-600">
+                          {new Date(order.createdAt).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta' })}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-gray-600">{received} / {ordered}</td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-gray-900">{formatCurrency(order.totalAmount)}</td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${label?.color || ''}`}>
+                            {label?.text || order.status}
+                          </span>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+              {orders.length === 0 && (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">Belum ada purchase order</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {isCreateOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Buat Purchase Order</h3>
+              <button onClick={() => setIsCreateOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6">
+              <PurchaseOrderForm
+                onCancel={() => setIsCreateOpen(false)}
+                onSaved={(order) => router.push(`/admin/purchase-orders/${order.id}`)}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,471 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+import { MemberSegment, RANGE_RULES, RangeRule, SegmentRules, describeRules, downloadSegmentCsv } from '@/lib/memberSegments'
+
+interface MemberTier {
+  id: number
+  name: string
+}
+
+interface Category {
+  id: string
+  name: string
+}
+
+interface PreviewResult {
+  memberCount: number
+  sample: { id: number; name: string; phone: string | null }[]
+}
+
+// Nilai form disimpan sebagai teks agar batas boleh dikosongkan
+interface SegmentForm {
+  name: string
+  description: string
+  color: string
+  isActive: boolean
+  ranges: Record<RangeRule, { min: string; max: string }>
+  tierIds: number[]
+  categoryIds: string[]
+  minCategoryShare: string
+}
+
+const emptyRanges = () =>
+  Object.fromEntries(RANGE_RULES.map(({ key }) => [key, { min: '', max: '' }])) as SegmentForm['ranges']
+
+const EMPTY_FORM: SegmentForm = {
+  name: '',
+  description: '',
+  color: '#2563eb',
+  isActive: true,
+  ranges: emptyRanges(),
+  tierIds: [],
+  categoryIds: [],
+  minCategoryShare: '',
+}
+
+const toForm = (segment: MemberSegment): SegmentForm => {
+  const ranges = emptyRanges()
+  for (const { key } of RANGE_RULES) {
+    const range = segment.rules[key]
+    ranges[key] = { min: range?.min !== undefined ? String(range.min) : '', max: range?.max !== undefined ? String(range.max) : '' }
+  }
+  return {
+    name: segment.name,
+    description: segment.description || '',
+    color: segment.color || '#2563eb',
+    isActive: segment.isActive,
+    ranges,
+    tierIds: segment.rules.tierIds || [],
+    categoryIds: segment.rules.categoryIds || [],
+    minCategoryShare: segment.rules.minCategoryShare ? String(segment.rules.minCategoryShare) : '',
+  }
+}
+
+// Batas kosong tidak dikirim; server memeriksa nilainya
+const toRules = (form: SegmentForm): SegmentRules => {
+  const rules: SegmentRules = {}
+  for (const { key } of RANGE_RULES) {
+    const { min, max } = form.ranges[key]
+    if (min.trim() === '' && max.trim() === '') continue
+    rules[key] = {
+      ...(min.trim() !== '' ? { min: Number(min) } : {}),
+      ...(max.trim() !== '' ? { max: Number(max) } : {}),
+    }
+  }
+  if (form.tierIds.length > 0) rules.tierIds = form.tierIds
+  if (form.categoryIds.length > 0) {
+    rules.categoryIds = form.categoryIds
+    if (form.minCategoryShare.trim() !== '') rules.minCategoryShare = Number(form.minCategoryShare)
+  }
+  return rules
+}
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value])
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-'
+
+export default function MemberSegmentsPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [form, setForm] = useState<SegmentForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'segments:manage')) {
+      toast.error('Akses ditolak - Hanya admin dan manajer yang dapat mengatur segmen member')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canManage = hasPermission(user?.role, 'segments:manage')
+  const { data, mutate } = useSWR<{ segments: MemberSegment[] }>(canManage ? '/api/v1/member-segments' : null, apiSWRFetcher)
+  const { data: tierData } = useSWR<{ tiers: MemberTier[] }>(canManage ? '/api/v1/member-tiers' : null, apiSWRFetcher)
+  const { data: categoryData } = useSWR<{ categories: Category[] }>(canManage ? '/api/v1/categories' : null, apiSWRFetcher)
+  const segments = data?.segments || []
+  const tiers = tierData?.tiers || []
+  const categories = categoryData?.categories || []
+  const names = {
+    tiers: Object.fromEntries(tiers.map((t) => [t.id, t.name])),
+    categories: Object.fromEntries(categories.map((c) => [c.id, c.name])),
+  }
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Member segment action failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const readError = async (res: Response, fallback: string) => {
+    const body = await res.json().catch(() => ({}))
+    return new Error(body.error || fallback)
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+    setPreview(null)
+  }
+
+  const editSegment = (segment: MemberSegment) => {
+    setEditingId(segment.id)
+    setForm(toForm(segment))
+    setPreview(null)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const updateRange = (key: RangeRule, bound: 'min' | 'max', value: string) =>
+    setForm({ ...form, ranges: { ...form.ranges, [key]: { ...form.ranges[key], [bound]: value } } })
+
+  const previewSegment = () => runAction('preview', async () => {
+    const res = await apiFetch('/api/v1/member-segments/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ rules: toRules(form) })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal menghitung pratinjau')
+    setPreview(await res.json())
+  })
+
+  const saveSegment = () => runAction('save', async () => {
+    if (!form.name.trim()) throw new Error('Nama segmen wajib diisi')
+    const res = await apiFetch(editingId ? `/api/v1/member-segments/${editingId}` : '/api/v1/member-segments', {
+      method: editingId ? 'PUT' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: form.name.trim(),
+        description: form.description.trim(),
+        color: form.color,
+        isActive: form.isActive,
+        rules: toRules(form),
+      })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal menyimpan segmen')
+    const body = await res.json()
+    toast.success(`Segmen ${body.segment.name} disimpan: ${body.segment.memberCount} member`)
+    resetForm()
+    mutate()
+  })
+
+  const deleteSegment = (segment: MemberSegment) => runAction(`delete-${segment.id}`, async () => {
+    if (!confirm(`Hapus segmen ${segment.name}?`)) return
+    const res = await apiFetch(`/api/v1/member-segments/${segment.id}`, { method: 'DELETE' })
+    if (!res.ok) throw await readError(res, 'Gagal menghapus segmen')
+    toast.success('Segmen dihapus')
+    if (editingId === segment.id) resetForm()
+    mutate()
+  })
+
+  const addDefaults = () => runAction('defaults', async () => {
+    const res = await apiFetch('/api/v1/member-segments/defaults', { method: 'POST' })
+    if (!res.ok) throw await readError(res, 'Gagal menambah segmen bawaan')
+    const body = await res.json()
+    toast.success(body.created > 0 ? `${body.created} segmen bawaan ditambahkan` : 'Semua segmen bawaan sudah ada')
+    mutate()
+  })
+
+  const recompute = () => runAction('recompute', async () => {
+    const res = await apiFetch('/api/v1/member-segments/recompute', { method: 'POST' })
+    if (!res.ok) throw await readError(res, 'Gagal menghitung ulang segmen')
+    const body = await res.json()
+    toast.success(`Segmen dihitung ulang untuk ${body.members} member`)
+    mutate()
+  })
+
+  const exportSegment = (segment: MemberSegment) => runAction(`export-${segment.id}`, () => downloadSegmentCsv(segment))
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canManage) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Segmen Member</h1>
+              <p className="text-sm text-gray-500">
+                Skor RFM (recency, frequency, monetary) dihitung dari belanja 12 bulan terakhir, 5 = terbaik. Segmen dihitung ulang setiap malam dan setiap kali disimpan.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={addDefaults}
+                disabled={busy !== null}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+              >
+                Tambah segmen bawaan
+              </button>
+              <button
+                onClick={recompute}
+                disabled={busy !== null}
+                className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 text-sm font-medium disabled:opacity-50 whitespace-nowrap"
+              >
+                {busy === 'recompute' ? 'Memproses...' : 'Hitung ulang sekarang'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Pembuat segmen */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+          <h2 className="text-lg font-semibold text-gray-900">{editingId ? 'Ubah Segmen' : 'Segmen Baru'}</h2>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Nama</label>
+              <input
+                type="text"
+                value={form.name}
+                placeholder="Pelanggan Setia"
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Keterangan</label>
+              <input
+                type="text"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </div>
+            <div className="flex items-center gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Warna</label>
+                <input
+                  type="color"
+                  value={form.color}
+                  onChange={(e) => setForm({ ...form, color: e.target.value })}
+                  className="h-10 w-14 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                Aktif
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Aturan</h3>
+            <p className="text-xs text-gray-500 mb-3">Semua aturan yang diisi harus terpenuhi. Kosongkan batas yang tidak dipakai.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+              {RANGE_RULES.map(({ key, label }) => (
+                <div key={key}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <div className="flex gap-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.ranges[key].min}
+                      placeholder="Min"
+                      onChange={(e) => updateRange(key, 'min', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      value={form.ranges[key].max}
+                      placeholder="Maks"
+                      onChange={(e) => updateRange(key, 'max', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Tier member</label>
+              <div className="flex flex-wrap gap-3">
+                {tiers.map((tier) => (
+                  <label key={tier.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.tierIds.includes(tier.id)}
+                      onChange={() => setForm({ ...form, tierIds: toggle(form.tierIds, tier.id) })}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {tier.name}
+                  </label>
+                ))}
+                {tiers.length === 0 && <span className="text-sm text-gray-500">Belum ada tier</span>}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Kategori favorit</label>
+              <div className="flex flex-wrap gap-3">
+                {categories.map((category) => (
+                  <label key={category.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.categoryIds.includes(category.id)}
+                      onChange={() => setForm({ ...form, categoryIds: toggle(form.categoryIds, category.id) })}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                    />
+                    {category.name}
+                  </label>
+                ))}
+              </div>
+              {form.categoryIds.length > 0 && (
+                <div className="mt-3 flex items-center gap-2 text-sm text-gray-700">
+                  <span>Porsi belanja lebih dari</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={99}
+                    value={form.minCategoryShare}
+                    placeholder="0"
+                    onChange={(e) => setForm({ ...form, minCategoryShare: e.target.value })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-lg"
+                  />
+                  <span>%</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={previewSegment}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium disabled:opacity-50"
+            >
+              {busy === 'preview' ? 'Menghitung...' : 'Pratinjau'}
+            </button>
+            <button
+              onClick={saveSegment}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+            >
+              {editingId ? 'Simpan' : 'Tambah'}
+            </button>
+            {editingId && (
+              <button onClick={resetForm} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+                Batal
+              </button>
+            )}
+            {preview && (
+              <span className="text-sm text-gray-700">
+                <span className="font-semibold">{preview.memberCount} member</span> cocok
+                {preview.sample.length > 0 && `, mis. ${preview.sample.slice(0, 5).map((m) => m.name).join(', ')}`}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Daftar segmen */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Segmen</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aturan</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dihitung</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {segments.map((segment) => (
+                <tr key={segment.id} className={segment.isActive ? '' : 'opacity-60'}>
+                  <td className="px-6 py-4">
+                    <span
+                      className="px-2 py-0.5 rounded-full text-xs font-semibold text-white"
+                      style={{ backgroundColor: segment.color || '#6b7280' }}
+                    >
+                      {segment.name}
+                    </span>
+                    {!segment.isActive && <span className="ml-2 text-xs text-gray-500">Nonaktif</span>}
+                    {segment.description && <div className="text-xs text-gray-500 mt-1">{segment.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-gray-700">{describeRules(segment.rules, names)}</td>
+                  <td className="px-6 py-4 text-right font-medium text-gray-900">{segment.memberCount}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-gray-500">{formatDateTime(segment.computedAt)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                    <Link href={`/members?segment=${segment.id}`} className="text-gray-700 hover:text-gray-900">Anggota</Link>
+                    <button onClick={() => exportSegment(segment)} disabled={busy !== null} className="text-gray-700 hover:text-gray-900 disabled:opacity-50">CSV</button>
+                    <button onClick={() => editSegment(segment)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                    <button onClick={() => deleteSegment(segment)} disabled={busy !== null} className="text-red-600 hover:text-red-800 disabled:opacity-50">Hapus</button>
+                  </td>
+                </tr>
+              ))}
+              {segments.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                    Belum ada segmen. Mulai dengan segmen bawaan (Champions, Loyal, New, At Risk, Lapsed).
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  )
+}
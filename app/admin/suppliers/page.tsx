@@ -0,0 +1,295 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import useSWR from 'swr'
+import {
+  ArrowLeftIcon,
+  PlusIcon,
+  PencilIcon,
+  TrashIcon,
+  XMarkIcon,
+} from '@heroicons/react/24/outline'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+
+interface Supplier {
+  id: string
+  name: string
+  contactName?: string | null
+  phone?: string | null
+  email?: string | null
+  address?: string | null
+  notes?: string | null
+  isActive: boolean
+}
+
+interface SupplierForm {
+  name: string
+  contactName: string
+  phone: string
+  email: string
+  address: string
+  notes: string
+}
+
+const emptyForm: SupplierForm = { name: '', contactName: '', phone: '', email: '', address: '', notes: '' }
+
+export default function SuppliersPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [showInactive, setShowInactive] = useState(false)
+  const [editing, setEditing] = useState<Supplier | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [form, setForm] = useState<SupplierForm>(emptyForm)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'purchasing:manage')) {
+      toast.error('Akses ditolak - Hanya admin atau manajer yang dapat mengakses halaman ini')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const { data, isLoading, mutate } = useSWR<{ suppliers: Supplier[] }>(
+    hasPermission(user?.role, 'purchasing:manage') ? `/api/v1/suppliers${showInactive ? '?includeInactive=true' : ''}` : null,
+    apiSWRFetcher
+  )
+  const suppliers = data?.suppliers || []
+
+  const openForm = (supplier?: Supplier) => {
+    setEditing(supplier || null)
+    setForm(supplier ? {
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      notes: supplier.notes || '',
+    } : emptyForm)
+    setIsFormOpen(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form.name.trim()) {
+      toast.error('Nama supplier wajib diisi')
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await apiFetch(editing ? `/api/v1/suppliers/${editing.id}` : '/api/v1/suppliers', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}))
+        throw new Error(errorData.error || 'Gagal menyimpan supplier')
+      }
+      toast.success(editing ? 'Supplier berhasil diperbarui' : 'Supplier berhasil ditambahkan')
+      setIsFormOpen(false)
+      mutate()
+    } catch (error) {
+      console.error('Error saving supplier:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan supplier')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteSupplier = async (supplier: Supplier) => {
+    if (!confirm(`Hapus supplier ${supplier.name}?`)) return
+    try {
+      const res = await apiFetch(`/api/v1/suppliers/${supplier.id}`, { method: 'DELETE' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menghapus supplier')
+      toast.success(body.deactivated ? 'Supplier memiliki PO, sehingga hanya dinonaktifkan' : 'Supplier berhasil dihapus')
+      mutate()
+    } catch (error) {
+      console.error('Error deleting supplier:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus supplier')
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !hasPermission(user.role, 'purchasing:manage')) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link href="/admin/purchase-orders" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Supplier</h1>
+            </div>
+            <button
+              onClick={() => openForm()}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              Tambah Supplier
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="p-4 border-b border-gray-200">
+            <label className="inline-flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+                className="mr-2 rounded border-gray-300"
+              />
+              Tampilkan supplier nonaktif
+            </label>
+          </div>
+          {isLoading ? (
+            <div className="flex justify-center items-center h-40">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nama</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kontak</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alamat</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                  {suppliers.map((supplier) => (
+                    <tr key={supplier.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-900">{supplier.name}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-gray-600">
+                        {supplier.contactName || '-'}
+                        {supplier.phone && <div className="text-xs">{supplier.phone}</div>}
+                        {supplier.email && <div className="text-xs">{supplier.email}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-gray-600">{supplier.address || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${supplier.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                          {supplier.isActive ? 'Aktif' : 'Nonaktif'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex space-x-2">
+                          <button onClick={() => openForm(supplier)} className="text-blue-600 hover:text-blue-900">
+                            <PencilIcon className="h-5 w-5" />
+                          </button>
+                          <button onClick={() => deleteSupplier(supplier)} className="text-red-600 hover:text-red-900">
+                            <TrashIcon className="h-5 w-5" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {suppliers.length === 0 && (
+                <div className="text-center py-12">
+                  <p className="text-gray-500">Belum ada supplier</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">{editing ? 'Edit Supplier' : 'Tambah Supplier'}</h3>
+              <button onClick={() => setIsFormOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              {([
+                ['name', 'Nama Supplier *'],
+                ['contactName', 'Nama Kontak'],
+                ['phone', 'No. Telepon'],
+                ['email', 'Email'],
+              ] as const).map(([field, label]) => (
+                <div key={field}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                  <input
+                    type={field === 'email' ? 'email' : 'text'}
+                    value={form[field]}
+                    onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              ))}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Alamat</label>
+                <textarea
+                  value={form.address}
+                  onChange={(e) => setForm((prev) => ({ ...prev, address: e.target.value }))}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Catatan</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div className="flex justify-end space-x-3 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setIsFormOpen(false)}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+                >
+                  Batal
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+                >
+                  {saving ? 'Menyimpan...' : 'Simpan'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
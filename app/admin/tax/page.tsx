@@ -0,0 +1,426 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import { toast } from 'react-hot-toast'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+import { formatCurrency } from '@/lib/utils'
+
+type TaxRounding = 'ROUND' | 'FLOOR' | 'CEIL'
+
+interface TaxSettings {
+  enabled: boolean
+  rate: number
+  priceIncludesTax: boolean
+  rounding: TaxRounding
+  updatedAt?: string | null
+}
+
+interface TaxCategory {
+  id: string
+  name: string
+  description?: string | null
+  taxRate: number | null
+  taxExempt: boolean
+}
+
+interface TaxBucket {
+  taxableAmount: number
+  taxAmount: number
+  exemptAmount: number
+  untaxedAmount: number
+  refundedTaxableAmount: number
+  refundedTaxAmount: number
+  netTaxAmount: number
+}
+
+interface TaxReport {
+  period: { from: string; to: string }
+  totals: TaxBucket & { transactionCount: number }
+  monthly: (TaxBucket & { month: string; transactionCount: number })[]
+  byRate: { rate: number; taxableAmount: number; taxAmount: number; refundedTaxableAmount: number; refundedTaxAmount: number; netTaxAmount: number }[]
+}
+
+const ROUNDING_LABELS: Record<TaxRounding, string> = {
+  ROUND: 'Bulatkan ke rupiah terdekat',
+  FLOOR: 'Bulatkan ke bawah',
+  CEIL: 'Bulatkan ke atas',
+}
+
+// Tanggal hari ini di Asia/Jakarta (YYYY-MM-DD)
+const jakartaToday = () => new Date(Date.now() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+
+const formatMonth = (month: string) =>
+  new Intl.DateTimeFormat('id-ID', { month: 'long', year: 'numeric' }).format(new Date(`${month}-01T00:00:00`))
+
+export default function TaxPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [form, setForm] = useState<TaxSettings | null>(null)
+  const [categoryDrafts, setCategoryDrafts] = useState<Record<string, { taxRate: string; taxExempt: boolean }>>({})
+  const [from, setFrom] = useState(() => `${jakartaToday().slice(0, 7)}-01`)
+  const [to, setTo] = useState(jakartaToday)
+  const [report, setReport] = useState<TaxReport | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'tax:report')) {
+      toast.error('Akses ditolak - Hanya admin dan manajer yang dapat melihat pajak')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canView = hasPermission(user?.role, 'tax:report')
+  const canEditSettings = hasPermission(user?.role, 'tax:manage')
+  const canEditCategories = hasPermission(user?.role, 'categories:write')
+  const { data: settings, mutate: mutateSettings } = useSWR<TaxSettings>(canView ? '/api/v1/tax/settings' : null, apiSWRFetcher)
+  const { data: categoryData, mutate: mutateCategories } = useSWR<{ categories: TaxCategory[] }>(canView ? '/api/v1/categories' : null, apiSWRFetcher)
+  const categories = categoryData?.categories || []
+
+  useEffect(() => {
+    if (settings) setForm(settings)
+  }, [settings])
+
+  useEffect(() => {
+    setCategoryDrafts(Object.fromEntries(categories.map((c) => [c.id, { taxRate: c.taxRate == null ? '' : String(c.taxRate), taxExempt: Boolean(c.taxExempt) }])))
+  }, [categoryData])
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Tax action failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const readError = async (res: Response, fallback: string) => {
+    const body = await res.json().catch(() => ({}))
+    return new Error(body.error || fallback)
+  }
+
+  const saveSettings = () => runAction('settings', async () => {
+    if (!form) return
+    const rate = Number(form.rate)
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) throw new Error('Tarif PPN harus antara 0 dan 100')
+    const res = await apiFetch('/api/v1/tax/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ enabled: form.enabled, rate, priceIncludesTax: form.priceIncludesTax, rounding: form.rounding })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal menyimpan pengaturan pajak')
+    toast.success('Pengaturan pajak disimpan')
+    mutateSettings()
+  })
+
+  const saveCategory = (category: TaxCategory) => runAction(`category-${category.id}`, async () => {
+    const draft = categoryDrafts[category.id]
+    if (!draft) return
+    const rate = draft.taxRate.trim() === '' ? null : Number(draft.taxRate)
+    if (rate !== null && (!Number.isFinite(rate) || rate < 0 || rate > 100)) throw new Error('Tarif kategori harus antara 0 dan 100')
+    const res = await apiFetch(`/api/v1/categories/${category.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: category.name, description: category.description || '', taxRate: rate, taxExempt: draft.taxExempt })
+    })
+    if (!res.ok) throw await readError(res, 'Gagal menyimpan tarif kategori')
+    toast.success(`Tarif ${category.name} disimpan`)
+    mutateCategories()
+  })
+
+  const loadReport = () => runAction('report', async () => {
+    if (!from || !to) throw new Error('Pilih tanggal awal dan akhir periode')
+    const res = await apiFetch(`/api/v1/reports/tax?from=${from}&to=${to}`)
+    if (!res.ok) throw await readError(res, 'Gagal memuat ringkasan pajak')
+    setReport(await res.json())
+  })
+
+  const updateDraft = (id: string, changes: Partial<{ taxRate: string; taxExempt: boolean }>) =>
+    setCategoryDrafts((prev) => ({ ...prev, [id]: { ...prev[id], ...changes } }))
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canView) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4">
+            <h1 className="text-2xl font-bold text-gray-900">Pajak (PPN)</h1>
+            <p className="text-sm text-gray-500">
+              PPN dihitung server per baris transaksi setelah diskon dan dicetak per baris di struk.
+            </p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Pengaturan toko */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Pengaturan PPN Toko</h2>
+          {!form ? (
+            <p className="text-sm text-gray-500">Memuat...</p>
+          ) : (
+            <div className="space-y-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  disabled={!canEditSettings}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                  className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                Pungut PPN pada penjualan
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tarif PPN (%)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    value={form.rate}
+                    disabled={!canEditSettings}
+                    onChange={(e) => setForm({ ...form, rate: e.target.value === '' ? 0 : Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Harga katalog</label>
+                  <select
+                    value={form.priceIncludesTax ? 'INCLUSIVE' : 'EXCLUSIVE'}
+                    disabled={!canEditSettings}
+                    onChange={(e) => setForm({ ...form, priceIncludesTax: e.target.value === 'INCLUSIVE' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                  >
+                    <option value="EXCLUSIVE">Belum termasuk PPN (ditambahkan saat bayar)</option>
+                    <option value="INCLUSIVE">Sudah termasuk PPN</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Pembulatan PPN per baris</label>
+                  <select
+                    value={form.rounding}
+                    disabled={!canEditSettings}
+                    onChange={(e) => setForm({ ...form, rounding: e.target.value as TaxRounding })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                  >
+                    {(Object.keys(ROUNDING_LABELS) as TaxRounding[]).map((key) => (
+                      <option key={key} value={key}>{ROUNDING_LABELS[key]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {canEditSettings ? (
+                <button
+                  onClick={saveSettings}
+                  disabled={busy === 'settings'}
+                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+                >
+                  {busy === 'settings' ? 'Menyimpan...' : 'Simpan Pengaturan'}
+                </button>
+              ) : (
+                <p className="text-xs text-gray-500">Hanya admin yang dapat mengubah pengaturan PPN toko.</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Tarif per kategori */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <div className="p-6 pb-0">
+            <h2 className="text-lg font-semibold text-gray-900">Tarif per Kategori</h2>
+            <p className="text-sm text-gray-500">
+              Kosongkan tarif untuk memakai tarif toko ({settings?.rate ?? 11}%). Produk tertentu dapat dibebaskan dari halaman ubah produk.
+            </p>
+          </div>
+          <table className="min-w-full divide-y divide-gray-200 mt-4">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kategori</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tarif (%)</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Bebas PPN</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Aksi</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {categories.map((category) => {
+                const draft = categoryDrafts[category.id] || { taxRate: '', taxExempt: false }
+                return (
+                  <tr key={category.id}>
+                    <td className="px-6 py-4 whitespace-nowrap font-medium text-gray-900">{category.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.01"
+                        value={draft.taxRate}
+                        placeholder={`Tarif toko (${settings?.rate ?? 11}%)`}
+                        disabled={!canEditCategories || draft.taxExempt}
+                        onChange={(e) => updateDraft(category.id, { taxRate: e.target.value })}
+                        className="w-40 px-3 py-1.5 border border-gray-300 rounded-lg disabled:bg-gray-50"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <input
+                        type="checkbox"
+                        checked={draft.taxExempt}
+                        disabled={!canEditCategories}
+                        onChange={(e) => updateDraft(category.id, { taxExempt: e.target.checked })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {canEditCategories && (
+                        <button
+                          onClick={() => saveCategory(category)}
+                          disabled={busy === `category-${category.id}`}
+                          className="text-blue-600 hover:text-blue-800 font-medium disabled:opacity-50"
+                        >
+                          Simpan
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+              {categories.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-6 py-8 text-center text-gray-500">Belum ada kategori</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Ringkasan untuk pelaporan */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Ringkasan Pajak</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Dasar pengenaan pajak (DPP) dan PPN per bulan untuk SPT Masa PPN. Pengembalian dikurangkan pada bulan penjualan aslinya.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dari tanggal</label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sampai tanggal</label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <button
+              onClick={loadReport}
+              disabled={busy === 'report'}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium disabled:opacity-50"
+            >
+              {busy === 'report' ? 'Memuat...' : 'Tampilkan'}
+            </button>
+          </div>
+
+          {report && (
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">DPP</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(report.totals.taxableAmount - report.totals.refundedTaxableAmount)}</div>
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">PPN terutang</div>
+                  <div className="text-lg font-semibold text-blue-600">{formatCurrency(report.totals.netTaxAmount)}</div>
+                  {report.totals.refundedTaxAmount > 0 && (
+                    <div className="text-xs text-gray-500">setelah pengembalian {formatCurrency(report.totals.refundedTaxAmount)}</div>
+                  )}
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Penjualan bebas PPN</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(report.totals.exemptAmount)}</div>
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Transaksi</div>
+                  <div className="text-lg font-semibold text-gray-900">{report.totals.transactionCount}</div>
+                  {report.totals.untaxedAmount > 0 && (
+                    <div className="text-xs text-gray-500">{formatCurrency(report.totals.untaxedAmount)} terjual saat PPN nonaktif</div>
+                  )}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Masa</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Transaksi</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">DPP</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">PPN</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">PPN Dikembalikan</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">PPN Terutang</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Bebas PPN</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 text-sm">
+                    {report.monthly.map((row) => (
+                      <tr key={row.month}>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-900">{formatMonth(row.month)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{row.transactionCount}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(row.taxableAmount - row.refundedTaxableAmount)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(row.taxAmount)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(row.refundedTaxAmount)}</td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">{formatCurrency(row.netTaxAmount)}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{formatCurrency(row.exemptAmount)}</td>
+                      </tr>
+                    ))}
+                    {report.monthly.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-6 text-center text-gray-500">Tidak ada penjualan pada periode ini</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+
+              {report.byRate.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">Per Tarif</h3>
+                  <div className="flex flex-wrap gap-3">
+                    {report.byRate.map((row) => (
+                      <div key={row.rate} className="rounded-lg bg-gray-50 border border-gray-200 px-4 py-2 text-sm">
+                        <span className="font-medium text-gray-900">{row.rate}%</span>
+                        <span className="text-gray-600"> — DPP {formatCurrency(row.taxableAmount - row.refundedTaxableAmount)}, PPN terutang {formatCurrency(row.netTaxAmount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,543 @@
+"use client"
+
+import { useState, useEffect, useRef } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import { toast } from 'react-hot-toast'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+
+type CampaignStatus = 'DRAFT' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'CANCELLED'
+type RecipientStatus = 'PENDING' | 'SENT' | 'FAILED' | 'SKIPPED'
+
+interface Audience {
+  segmentId?: number
+  tierIds?: number[]
+  minPoints?: number
+}
+
+interface Campaign {
+  id: number
+  name: string
+  template: string
+  audience: Audience
+  status: CampaignStatus
+  startedAt: string | null
+  completedAt: string | null
+  createdAt: string
+  counts: { total: number; pending: number; sent: number; failed: number; skipped: number }
+}
+
+interface Recipient {
+  id: number
+  memberId: number
+  name: string | null
+  phone: string
+  status: RecipientStatus
+  attempts: number
+  error: string | null
+  sentAt: string | null
+}
+
+interface PreviewResult {
+  recipientCount: number
+  optedOut: number
+  sample: { memberId: number; name: string; phone: string; message: string }[]
+}
+
+interface Option {
+  id: number
+  name: string
+  isActive?: boolean
+}
+
+interface CampaignForm {
+  name: string
+  template: string
+  segmentId: string
+  tierIds: number[]
+  minPoints: string
+}
+
+const EMPTY_FORM: CampaignForm = { name: '', template: '', segmentId: '', tierIds: [], minPoints: '' }
+
+const STATUS_LABELS: Record<CampaignStatus, { label: string; className: string }> = {
+  DRAFT: { label: 'Draf', className: 'bg-gray-100 text-gray-700' },
+  SENDING: { label: 'Mengirim', className: 'bg-blue-100 text-blue-800' },
+  PAUSED: { label: 'Dijeda', className: 'bg-amber-100 text-amber-800' },
+  COMPLETED: { label: 'Selesai', className: 'bg-green-100 text-green-800' },
+  CANCELLED: { label: 'Dibatalkan', className: 'bg-red-100 text-red-700' },
+}
+
+const RECIPIENT_LABELS: Record<RecipientStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Antre', className: 'text-gray-600' },
+  SENT: { label: 'Terkirim', className: 'text-green-700' },
+  FAILED: { label: 'Gagal', className: 'text-red-600' },
+  SKIPPED: { label: 'Dilewati', className: 'text-amber-700' },
+}
+
+const PLACEHOLDER_HINTS: Record<string, string> = {
+  nama: 'Nama lengkap',
+  nama_depan: 'Nama depan',
+  poin: 'Saldo poin',
+  tier: 'Nama tier',
+  belanja: 'Belanja 12 bulan',
+}
+
+const toAudience = (form: CampaignForm): Audience => ({
+  ...(form.segmentId ? { segmentId: Number(form.segmentId) } : {}),
+  ...(form.tierIds.length > 0 ? { tierIds: form.tierIds } : {}),
+  ...(form.minPoints.trim() !== '' ? { minPoints: Number(form.minPoints) } : {}),
+})
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-'
+
+export default function WhatsAppCampaignsPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const templateRef = useRef<HTMLTextAreaElement>(null)
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [busy, setBusy] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [recipientStatus, setRecipientStatus] = useState<'' | RecipientStatus>('')
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'campaigns:manage')) {
+      toast.error('Akses ditolak - Hanya admin dan manajer yang dapat mengirim kampanye')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canManage = hasPermission(user?.role, 'campaigns:manage')
+  // Progres pengiriman diperbarui berkala selama ada kampanye yang berjalan
+  const { data, mutate } = useSWR<{ placeholders: string[]; campaigns: Campaign[] }>(
+    canManage ? '/api/v1/whatsapp/campaigns' : null,
+    apiSWRFetcher,
+    { refreshInterval: (latest) => (latest?.campaigns.some((c) => c.status === 'SENDING') ? 10000 : 0) }
+  )
+  const { data: segmentData } = useSWR<{ segments: Option[] }>(canManage ? '/api/v1/member-segments' : null, apiSWRFetcher)
+  const { data: tierData } = useSWR<{ tiers: Option[] }>(canManage ? '/api/v1/member-tiers' : null, apiSWRFetcher)
+  const detailKey = selectedId
+    ? `/api/v1/whatsapp/campaigns/${selectedId}?limit=500${recipientStatus ? `&status=${recipientStatus}` : ''}`
+    : null
+  const { data: detail, mutate: mutateDetail } = useSWR<{ campaign: Campaign; recipients: Recipient[] }>(
+    detailKey,
+    apiSWRFetcher,
+    { refreshInterval: (latest) => (latest?.campaign.status === 'SENDING' ? 10000 : 0) }
+  )
+
+  const campaigns = data?.campaigns || []
+  const placeholders = data?.placeholders || Object.keys(PLACEHOLDER_HINTS)
+  const segments = segmentData?.segments || []
+  const tiers = tierData?.tiers || []
+
+  const runAction = async (key: string, action: () => Promise<void>) => {
+    setBusy(key)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Campaign action failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const request = async (url: string, init: RequestInit, fallback: string) => {
+    const res = await apiFetch(url, init.body ? { ...init, headers: { 'Content-Type': 'application/json' } } : init)
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(body.error || fallback)
+    return body
+  }
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+    setPreview(null)
+  }
+
+  const editCampaign = (campaign: Campaign) => {
+    setEditingId(campaign.id)
+    setForm({
+      name: campaign.name,
+      template: campaign.template,
+      segmentId: campaign.audience.segmentId ? String(campaign.audience.segmentId) : '',
+      tierIds: campaign.audience.tierIds || [],
+      minPoints: campaign.audience.minPoints ? String(campaign.audience.minPoints) : '',
+    })
+    setPreview(null)
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  // Sisipkan placeholder di posisi kursor
+  const insertPlaceholder = (name: string) => {
+    const token = `{${name}}`
+    const input = templateRef.current
+    const start = input?.selectionStart ?? form.template.length
+    const end = input?.selectionEnd ?? form.template.length
+    setForm({ ...form, template: form.template.slice(0, start) + token + form.template.slice(end) })
+    requestAnimationFrame(() => {
+      input?.focus()
+      input?.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  const previewCampaign = () => runAction('preview', async () => {
+    setPreview(await request('/api/v1/whatsapp/campaigns/preview', {
+      method: 'POST',
+      body: JSON.stringify({ template: form.template, audience: toAudience(form) })
+    }, 'Gagal menghitung pratinjau'))
+  })
+
+  const saveCampaign = () => runAction('save', async () => {
+    if (!form.name.trim()) throw new Error('Nama kampanye wajib diisi')
+    if (!form.template.trim()) throw new Error('Isi pesan wajib diisi')
+    await request(editingId ? `/api/v1/whatsapp/campaigns/${editingId}` : '/api/v1/whatsapp/campaigns', {
+      method: editingId ? 'PUT' : 'POST',
+      body: JSON.stringify({ name: form.name.trim(), template: form.template, audience: toAudience(form) })
+    }, 'Gagal menyimpan kampanye')
+    toast.success('Draf kampanye disimpan')
+    resetForm()
+    mutate()
+  })
+
+  const campaignAction = (campaign: Campaign, action: string, success: string, confirmText?: string) =>
+    runAction(`${action}-${campaign.id}`, async () => {
+      if (confirmText && !confirm(confirmText)) return
+      await request(`/api/v1/whatsapp/campaigns/${campaign.id}/${action}`, { method: 'POST' }, 'Gagal memproses kampanye')
+      toast.success(success)
+      mutate()
+      if (selectedId === campaign.id) mutateDetail()
+    })
+
+  const deleteCampaign = (campaign: Campaign) => runAction(`delete-${campaign.id}`, async () => {
+    if (!confirm(`Hapus draf ${campaign.name}?`)) return
+    await request(`/api/v1/whatsapp/campaigns/${campaign.id}`, { method: 'DELETE' }, 'Gagal menghapus kampanye')
+    toast.success('Draf dihapus')
+    if (editingId === campaign.id) resetForm()
+    mutate()
+  })
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canManage) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 flex items-center">
+            {hasPermission(user.role, 'whatsapp:manage') && (
+              <Link href="/admin/whatsapp" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Kampanye WhatsApp</h1>
+              <p className="text-sm text-gray-500">
+                Pesan dikirim bertahap, beberapa per menit, selama WhatsApp terhubung. Member yang menolak promo tidak akan menerima pesan.
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Form kampanye */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+          <h2 className="text-lg font-semibold text-gray-900">{editingId ? 'Ubah Draf' : 'Kampanye Baru'}</h2>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Nama kampanye</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  placeholder="Promo Akhir Tahun"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Isi pesan</label>
+                <textarea
+                  ref={templateRef}
+                  rows={7}
+                  value={form.template}
+                  placeholder="Halo {nama_depan}, ada diskon 20% untuk member {tier} minggu ini!"
+                  onChange={(e) => setForm({ ...form, template: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm"
+                />
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {placeholders.map((name) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => insertPlaceholder(name)}
+                      title={PLACEHOLDER_HINTS[name]}
+                      className="px-2 py-1 rounded border border-gray-300 text-xs font-mono text-gray-700 hover:bg-gray-50"
+                    >
+                      {`{${name}}`}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">Keterangan cara berhenti menerima promo ditambahkan otomatis di akhir pesan.</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-sm font-semibold text-gray-900">Penerima</h3>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Segmen</label>
+                <select
+                  value={form.segmentId}
+                  onChange={(e) => setForm({ ...form, segmentId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                >
+                  <option value="">Semua member aktif</option>
+                  {segments.filter((s) => s.isActive || String(s.id) === form.segmentId).map((segment) => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Tier</label>
+                <div className="flex flex-wrap gap-3">
+                  {tiers.map((tier) => (
+                    <label key={tier.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={form.tierIds.includes(tier.id)}
+                        onChange={() => setForm({
+                          ...form,
+                          tierIds: form.tierIds.includes(tier.id) ? form.tierIds.filter((id) => id !== tier.id) : [...form.tierIds, tier.id]
+                        })}
+                        className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      {tier.name}
+                    </label>
+                  ))}
+                  {tiers.length === 0 && <span className="text-sm text-gray-500">Semua tier</span>}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimal poin</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.minPoints}
+                  placeholder="0"
+                  onChange={(e) => setForm({ ...form, minPoints: e.target.value })}
+                  className="w-40 px-3 py-2 border border-gray-300 rounded-lg"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={previewCampaign}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium disabled:opacity-50"
+            >
+              {busy === 'preview' ? 'Menghitung...' : 'Pratinjau'}
+            </button>
+            <button
+              onClick={saveCampaign}
+              disabled={busy !== null}
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+            >
+              {editingId ? 'Simpan' : 'Simpan draf'}
+            </button>
+            {editingId && (
+              <button onClick={resetForm} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+                Batal
+              </button>
+            )}
+          </div>
+
+          {preview && (
+            <div className="border-t pt-4 space-y-3">
+              <p className="text-sm text-gray-700">
+                <span className="font-semibold">{preview.recipientCount} member</span> akan menerima pesan
+                {preview.optedOut > 0 && `, ${preview.optedOut} member dilewati karena menolak promo`}.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {preview.sample.map((sample) => (
+                  <div key={sample.memberId} className="rounded-lg bg-green-50 border border-green-100 p-3">
+                    <p className="text-xs font-medium text-gray-500 mb-1">{sample.name} · {sample.phone}</p>
+                    <p className="text-sm text-gray-900 whitespace-pre-wrap">{sample.message}</p>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Daftar kampanye */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kampanye</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Terkirim</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gagal</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Dilewati</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dimulai</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {campaigns.map((campaign) => {
+                const status = STATUS_LABELS[campaign.status]
+                const key = (action: string) => `${action}-${campaign.id}`
+                return (
+                  <tr key={campaign.id} className={selectedId === campaign.id ? 'bg-blue-50' : ''}>
+                    <td className="px-6 py-4">
+                      <div className="font-medium text-gray-900">{campaign.name}</div>
+                      <div className="text-xs text-gray-500 truncate max-w-xs">{campaign.template}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-6 py-4 text-right whitespace-nowrap text-gray-900">
+                      {campaign.status === 'DRAFT' ? '-' : `${campaign.counts.sent} / ${campaign.counts.total}`}
+                    </td>
+                    <td className="px-6 py-4 text-right text-red-600">{campaign.counts.failed || '-'}</td>
+                    <td className="px-6 py-4 text-right text-amber-700">{campaign.counts.skipped || '-'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-500">{formatDateTime(campaign.startedAt)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right space-x-3">
+                      {campaign.status === 'DRAFT' && (
+                        <>
+                          <button onClick={() => editCampaign(campaign)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                          <button
+                            onClick={() => campaignAction(campaign, 'start', 'Kampanye masuk antrean kirim', `Mulai kirim ${campaign.name}? Pesan tidak dapat ditarik kembali.`)}
+                            disabled={busy === key('start')}
+                            className="text-green-700 hover:text-green-900 disabled:opacity-50"
+                          >
+                            Mulai kirim
+                          </button>
+                          <button onClick={() => deleteCampaign(campaign)} disabled={busy !== null} className="text-red-600 hover:text-red-800 disabled:opacity-50">Hapus</button>
+                        </>
+                      )}
+                      {campaign.status === 'SENDING' && (
+                        <button onClick={() => campaignAction(campaign, 'pause', 'Kampanye dijeda')} disabled={busy !== null} className="text-amber-700 hover:text-amber-900 disabled:opacity-50">Jeda</button>
+                      )}
+                      {campaign.status === 'PAUSED' && (
+                        <button onClick={() => campaignAction(campaign, 'resume', 'Kampanye dilanjutkan')} disabled={busy !== null} className="text-green-700 hover:text-green-900 disabled:opacity-50">Lanjutkan</button>
+                      )}
+                      {(campaign.status === 'SENDING' || campaign.status === 'PAUSED') && (
+                        <button
+                          onClick={() => campaignAction(campaign, 'cancel', 'Kampanye dibatalkan', `Batalkan ${campaign.name}? Pesan yang belum terkirim tidak akan dikirim.`)}
+                          disabled={busy !== null}
+                          className="text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Batalkan
+                        </button>
+                      )}
+                      {campaign.counts.failed > 0 && campaign.status !== 'CANCELLED' && (
+                        <button onClick={() => campaignAction(campaign, 'retry-failed', 'Pesan gagal masuk antrean lagi')} disabled={busy !== null} className="text-blue-600 hover:text-blue-800 disabled:opacity-50">Kirim ulang gagal</button>
+                      )}
+                      {campaign.status !== 'DRAFT' && (
+                        <button
+                          onClick={() => {
+                            setSelectedId(selectedId === campaign.id ? null : campaign.id)
+                            setRecipientStatus('')
+                          }}
+                          className="text-gray-700 hover:text-gray-900"
+                        >
+                          {selectedId === campaign.id ? 'Tutup' : 'Penerima'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+              {campaigns.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-gray-500">Belum ada kampanye</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Status per penerima */}
+        {selectedId && detail && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="px-6 py-4 border-b flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Penerima {detail.campaign.name}</h2>
+              <select
+                value={recipientStatus}
+                onChange={(e) => setRecipientStatus(e.target.value as '' | RecipientStatus)}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="">Semua status</option>
+                {(Object.keys(RECIPIENT_LABELS) as RecipientStatus[]).map((status) => (
+                  <option key={status} value={status}>{RECIPIENT_LABELS[status].label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nomor</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keterangan</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dikirim</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {detail.recipients.map((recipient) => (
+                    <tr key={recipient.id}>
+                      <td className="px-6 py-3 text-gray-900">{recipient.name || `#${recipient.memberId}`}</td>
+                      <td className="px-6 py-3 text-gray-700">{recipient.phone}</td>
+                      <td className={`px-6 py-3 font-medium ${RECIPIENT_LABELS[recipient.status].className}`}>{RECIPIENT_LABELS[recipient.status].label}</td>
+                      <td className="px-6 py-3 text-gray-500">
+                        {recipient.error || '-'}
+                        {recipient.attempts > 1 && ` (${recipient.attempts}x percobaan)`}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-500">{formatDateTime(recipient.sentAt)}</td>
+                    </tr>
+                  ))}
+                  {detail.recipients.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="px-6 py-6 text-center text-gray-500">Tidak ada penerima dengan status ini</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,263 @@
+"use client"
+
+import { Fragment, useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { useRouter } from 'next/navigation'
+import useSWR from 'swr'
+import { toast } from 'react-hot-toast'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import Navbar from '@/components/Navbar'
+import { apiFetch, apiSWRFetcher } from '@/lib/api'
+
+type MessageStatus = 'PENDING' | 'SENDING' | 'SENT' | 'DEAD'
+
+interface OutboundMessage {
+  id: number
+  kind: 'RECEIPT'
+  transactionId: string | null
+  customerName: string | null
+  recipient: string
+  body: string
+  status: MessageStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string | null
+  lastError: string | null
+  sentAt: string | null
+  createdAt: string
+}
+
+interface OutboxData {
+  counts: { pending: number; sending: number; sent: number; dead: number }
+  messages: OutboundMessage[]
+}
+
+const STATUS_LABELS: Record<MessageStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Antre', className: 'bg-gray-100 text-gray-700' },
+  SENDING: { label: 'Mengirim', className: 'bg-blue-100 text-blue-800' },
+  SENT: { label: 'Terkirim', className: 'bg-green-100 text-green-800' },
+  DEAD: { label: 'Gagal', className: 'bg-red-100 text-red-700' },
+}
+
+const FILTERS: { value: '' | MessageStatus; label: string }[] = [
+  { value: 'DEAD', label: 'Gagal' },
+  { value: 'PENDING', label: 'Antre' },
+  { value: 'SENT', label: 'Terkirim' },
+  { value: '', label: 'Semua' },
+]
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString('id-ID', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : '-'
+
+export default function WhatsAppOutboxPage() {
+  const { user, loading: authLoading } = useAuth()
+  const router = useRouter()
+  const [status, setStatus] = useState<'' | MessageStatus>('DEAD')
+  const [openId, setOpenId] = useState<number | null>(null)
+  const [recipients, setRecipients] = useState<Record<number, string>>({})
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    if (!hasPermission(user.role, 'outbox:manage')) {
+      toast.error('Akses ditolak - Hanya admin dan manajer yang dapat melihat antrean pesan')
+      router.push('/')
+    }
+  }, [user, authLoading, router])
+
+  const canManage = hasPermission(user?.role, 'outbox:manage')
+  // Antrean diperbarui berkala selama masih ada pesan yang menunggu
+  const { data, mutate } = useSWR<OutboxData>(
+    canManage ? `/api/v1/outbound-messages?limit=200${status ? `&status=${status}` : ''}` : null,
+    apiSWRFetcher,
+    { refreshInterval: (latest) => (latest && latest.counts.pending + latest.counts.sending > 0 ? 15000 : 0) }
+  )
+
+  const messages = data?.messages || []
+  const counts = data?.counts
+
+  const resend = async (message: OutboundMessage) => {
+    setBusyId(message.id)
+    try {
+      const recipient = (recipients[message.id] ?? '').trim()
+      const res = await apiFetch(`/api/v1/outbound-messages/${message.id}/resend`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(recipient ? { recipient } : {})
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal mengirim ulang pesan')
+      toast.success('Pesan masuk antrean kirim ulang')
+      setRecipients({ ...recipients, [message.id]: '' })
+      mutate()
+    } catch (error) {
+      console.error('Resend failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  if (!user || !canManage) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="py-4 flex items-center">
+            {hasPermission(user.role, 'whatsapp:manage') && (
+              <Link href="/admin/whatsapp" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+            )}
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Antrean Pesan WhatsApp</h1>
+              <p className="text-sm text-gray-500">
+                Struk dikirim lewat antrean dan dicoba ulang otomatis saat WhatsApp terputus. Pesan yang gagal permanen bisa dikirim ulang dari sini.
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {/* Ringkasan */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {(['DEAD', 'PENDING', 'SENDING', 'SENT'] as MessageStatus[]).map((key) => (
+            <div key={key} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+              <p className="text-sm text-gray-500">{STATUS_LABELS[key].label}</p>
+              <p className={`text-2xl font-semibold ${key === 'DEAD' && counts?.dead ? 'text-red-600' : 'text-gray-900'}`}>
+                {counts ? counts[key.toLowerCase() as keyof OutboxData['counts']] : '-'}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {FILTERS.map((filter) => (
+            <button
+              key={filter.value || 'all'}
+              onClick={() => setStatus(filter.value)}
+              className={`px-3 py-1.5 rounded-full text-sm font-medium ${status === filter.value ? 'bg-blue-600 text-white' : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Daftar pesan */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dibuat</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaksi</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Nomor</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Percobaan</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Keterangan</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200 text-sm">
+              {messages.map((message) => {
+                const label = STATUS_LABELS[message.status]
+                const canResend = message.status === 'DEAD' || message.status === 'PENDING'
+                return (
+                  <Fragment key={message.id}>
+                    <tr>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-700">{formatDateTime(message.createdAt)}</td>
+                      <td className="px-6 py-3">
+                        <div className="font-mono text-xs text-gray-900">{message.transactionId ? `#${message.transactionId.slice(-8)}` : '-'}</div>
+                        {message.customerName && <div className="text-xs text-gray-500">{message.customerName}</div>}
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-700">{message.recipient}</td>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${label.className}`}>{label.label}</span>
+                      </td>
+                      <td className="px-6 py-3 whitespace-nowrap text-gray-700">
+                        {message.attempts}/{message.maxAttempts}
+                        {message.status === 'PENDING' && message.attempts > 0 && (
+                          <div className="text-xs text-gray-500">Berikutnya {formatDateTime(message.nextAttemptAt)}</div>
+                        )}
+                        {message.status === 'SENT' && <div className="text-xs text-gray-500">{formatDateTime(message.sentAt)}</div>}
+                      </td>
+                      <td className="px-6 py-3 text-xs text-red-600 max-w-xs">{message.status === 'SENT' ? '' : message.lastError}</td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap">
+                        <button
+                          onClick={() => setOpenId(openId === message.id ? null : message.id)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          {openId === message.id ? 'Tutup' : 'Detail'}
+                        </button>
+                      </td>
+                    </tr>
+                    {openId === message.id && (
+                      <tr className="bg-gray-50">
+                        <td colSpan={7} className="px-6 py-4">
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <pre className="rounded-lg bg-green-50 border border-green-100 p-3 text-xs text-gray-900 whitespace-pre-wrap font-mono max-h-80 overflow-y-auto">
+                              {message.body}
+                            </pre>
+                            {canResend && (
+                              <div className="space-y-3">
+                                <div>
+                                  <label className="block text-sm font-medium text-gray-700 mb-1">Kirim ke nomor</label>
+                                  <input
+                                    type="tel"
+                                    value={recipients[message.id] ?? ''}
+                                    placeholder={message.recipient}
+                                    onChange={(e) => setRecipients({ ...recipients, [message.id]: e.target.value })}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                                  />
+                                  <p className="mt-1 text-xs text-gray-500">Kosongkan untuk mengirim ke nomor yang sama.</p>
+                                </div>
+                                <button
+                                  onClick={() => resend(message)}
+                                  disabled={busyId !== null}
+                                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+                                >
+                                  {busyId === message.id ? 'Memproses...' : 'Kirim ulang'}
+                                </button>
+                              </div>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                )
+              })}
+              {messages.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-10 text-center text-gray-500">
+                    {data ? 'Tidak ada pesan' : 'Memuat...'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </div>
+  )
+}
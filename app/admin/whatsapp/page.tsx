@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import {
@@ -42,7 +43,7 @@ export default function WhatsAppManagementPage() {
       return
     }
     
-    if (user.role !== 'ADMIN') {
+    if (!hasPermission(user.role, 'whatsapp:manage')) {
       toast.error('Akses ditolak - Hanya admin yang dapat mengakses halaman ini')
       router.push('/')
       return
@@ -169,7 +170,7 @@ export default function WhatsAppManagementPage() {
 
   // Initial status fetch and polling
   useEffect(() => {
-    if (user?.role === 'ADMIN') {
+    if (hasPermission(user?.role, 'whatsapp:manage')) {
       fetchStatus()
       
       // Set up polling with longer interval to reduce server load
@@ -187,7 +188,7 @@ export default function WhatsAppManagementPage() {
     )
   }
 
-  if (!user || user.role !== 'ADMIN') {
+  if (!user || !hasPermission(user.role, 'whatsapp:manage')) {
     return null
   }
 
@@ -205,6 +206,14 @@ export default function WhatsAppManagementPage() {
               </Link>
               <h1 className="text-2xl font-bold text-gray-900">Manajemen WhatsApp</h1>
             </div>
+            <div className="flex items-center gap-6">
+              <Link href="/admin/whatsapp/outbox" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                Antrean Pesan →
+              </Link>
+              <Link href="/admin/whatsapp/campaigns" className="text-sm font-medium text-blue-600 hover:text-blue-800">
+                Kampanye Promo →
+              </Link>
+            </div>
           </div>
         </div>
       </header>
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { v4 as uuidv4 } from 'uuid'
 import { useAuth } from '@/hooks/useAuth'
+import { useBarcodeScanner } from '@/hooks/useBarcodeScanner'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -10,9 +11,27 @@ import Image from 'next/image'
 import Navbar from '@/components/Navbar'
 
 import ProductImage from '@/components/ProductImage'
+import OfflineSyncStatus from '@/components/OfflineSyncStatus'
+import ExchangeModal, { type ExchangeResult } from '@/components/ExchangeModal'
+import SplitPaymentModal, { TENDER_LABELS, type Tender } from '@/components/SplitPaymentModal'
+import HeldCartsDrawer, { type HeldCart } from '@/components/HeldCartsDrawer'
+import ManagerApprovalModal, { isApprovalRequired, type ApprovalRequest } from '@/components/ManagerApprovalModal'
 // DOKU Payment Modal removed
 import useSWR from 'swr'
 import { apiFetch, apiSWRFetcher, apiJson } from '@/lib/api'
+import {
+  OutboxEntry,
+  approveOutboxEntry,
+  enqueueSale,
+  isNetworkError,
+  listOutbox,
+  loadSnapshot,
+  removeOutboxEntry,
+  retryOutboxEntry,
+  saveSnapshot,
+  syncOutbox,
+  withSnapshotFallback
+} from '@/lib/offlineOutbox'
 import {
   ShoppingCartIcon,
   PlusIcon,
@@ -32,7 +51,12 @@ import {
   BuildingLibraryIcon,
   QuestionMarkCircleIcon,
   DocumentDuplicateIcon,
-  ChatBubbleLeftRightIcon
+  ChatBubbleLeftRightIcon,
+  ArrowPathIcon,
+  Squares2X2Icon,
+  ClockIcon,
+  PauseCircleIcon,
+  EnvelopeIcon
 } from '@heroicons/react/24/outline'
 import toast from 'react-hot-toast'
 
@@ -54,6 +78,10 @@ const AutomaticIcon = ({ className }: { className?: string }) => (
   </svg>
 );
 
+// Catalog reads fall back to the last IndexedDB snapshot while offline
+const offlineFetcher = withSnapshotFallback(apiSWRFetcher)
+const SHIFT_SNAPSHOT_KEY = 'cashier-shifts:current'
+
 // Add custom CSS animations
 // Format currency function
 const formatCurrency = (amount: number) => {
@@ -102,6 +130,7 @@ interface Product {
   id: string
   name: string
   productCode?: string
+  barcode?: string | null
   price: number
   category: {
     id: string
@@ -111,10 +140,25 @@ interface Product {
   image?: string
   size?: string
   color?: string
+  variants?: ProductVariant[]
+}
+
+interface ProductVariant {
+  id: string
+  size: string
+  color: string
+  productCode?: string
+  barcode?: string | null
+  price?: number | null
+  stock: number
+  isActive?: boolean
 }
 
 interface CartItem extends Product {
   quantity: number
+  // Product id, or product id + variant id for size/color variants
+  cartKey: string
+  variantId?: string
 }
 
 interface Category {
@@ -127,16 +171,31 @@ interface Transaction {
   items: CartItem[]
   total: number
   paymentMethod: string
+  payments?: Tender[]
   customerName?: string
   createdAt: Date
   pointsUsed?: number
+  pointsDiscount?: number
   pointsEarned?: number
   voucherCode?: string | null
   voucherDiscount?: number
   promotionDiscount?: number
+  tierDiscount?: number
+  discount?: number
+  tax?: number
+  taxInclusive?: boolean
   appliedPromotions?: AppliedPromotion[]
 }
 
+interface MemberTier {
+  id: number
+  name: string
+  color?: string | null
+  discountPercent: number
+  earnMultiplier: number
+  isActive: boolean
+}
+
 interface Member {
   id: string
   name: string
@@ -144,6 +203,8 @@ interface Member {
   email?: string
   points: number
   totalSpent: number
+  rollingSpend?: number
+  tier?: MemberTier | null
 }
 
 interface Voucher {
@@ -170,6 +231,25 @@ interface Promotion {
   endDate?: string
 }
 
+interface LoyaltyProgram {
+  spendPerPoint: number
+  pointValue: number
+  minRedeemPoints: number
+  maxPointsPerTransaction: number | null
+  categoryMultipliers: Record<string, number>
+  excludedCategoryIds: string[]
+}
+
+// Aturan bawaan bila program poin belum dimuat (1 poin per Rp 1.000)
+const DEFAULT_LOYALTY: LoyaltyProgram = {
+  spendPerPoint: 1000,
+  pointValue: 1000,
+  minRedeemPoints: 0,
+  maxPointsPerTransaction: null,
+  categoryMultipliers: {},
+  excludedCategoryIds: []
+}
+
 interface AppliedPromotion {
   promotion: Promotion
   discount: number
@@ -186,10 +266,12 @@ export default function CashierPage() {
   const [customerName, setCustomerName] = useState('')
   const [customerPhone, setCustomerPhone] = useState('')
   const [customerEmail, setCustomerEmail] = useState('')
+  // Tanggal lahir hanya untuk daftar member baru (voucher ulang tahun)
+  const [newMemberBirthDate, setNewMemberBirthDate] = useState('')
   const [member, setMember] = useState<Member | null>(null)
   const [pointsToUse, setPointsToUse] = useState(0)
   const [isSearchingMember, setIsSearchingMember] = useState(false)
-  const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'CARD' | 'QRIS' | 'BANK_TRANSFER' | 'MIDTRANS'>('CASH')
+  const [paymentMethod, setPaymentMethod] = useState<'CASH' | 'CARD' | 'QRIS' | 'BANK_TRANSFER' | 'MIDTRANS' | 'SPLIT'>('CASH')
   // Payment methods are limited to CASH and CARD only
   const [cashAmount, setCashAmount] = useState<number>(0)
   const [changeAmount, setChangeAmount] = useState<number>(0)
@@ -199,6 +281,10 @@ export default function CashierPage() {
   const [error, setError] = useState('')
   const [showTransactionModal, setShowTransactionModal] = useState(false)
   const [completedTransaction, setCompletedTransaction] = useState<any>(null)
+  // Kirim struk dari modal sukses: lewat WhatsApp atau email
+  const [receiptChannel, setReceiptChannel] = useState<'WHATSAPP' | 'EMAIL'>('WHATSAPP')
+  const [receiptTarget, setReceiptTarget] = useState('')
+  const [sendingReceipt, setSendingReceipt] = useState(false)
   const [showBankTransferModal, setShowBankTransferModal] = useState(false)
 const [bankTransferTransaction, setBankTransferTransaction] = useState<any>(null)
 const [confirmingBankTransfer, setConfirmingBankTransfer] = useState(false)
@@ -215,17 +301,33 @@ const [confirmingCard, setConfirmingCard] = useState(false)
   const [voucherDiscount, setVoucherDiscount] = useState(0)
   const [appliedPromotions, setAppliedPromotions] = useState<AppliedPromotion[]>([])
   const [promotionDiscount, setPromotionDiscount] = useState(0)
+  const [taxQuote, setTaxQuote] = useState<{ tax: number; taxInclusive: boolean } | null>(null)
+  // Diskon manual kasir; di atas batas persentase perlu persetujuan manajer
+  const [manualDiscountType, setManualDiscountType] = useState<'PERCENT' | 'AMOUNT'>('PERCENT')
+  const [manualDiscountValue, setManualDiscountValue] = useState('')
+  // Aksi yang menunggu PIN manajer; diulang dengan token persetujuan
+  const [approvalRequest, setApprovalRequest] = useState<(ApprovalRequest & { retry: (approvalToken: string) => void }) | null>(null)
+  const [showNoSaleModal, setShowNoSaleModal] = useState(false)
+  const [noSaleReason, setNoSaleReason] = useState('')
+  const [isOpeningDrawer, setIsOpeningDrawer] = useState(false)
   const [isValidatingVoucher, setIsValidatingVoucher] = useState(false)
   const [availableVouchers, setAvailableVouchers] = useState<Voucher[]>([])
   const [availablePromotions, setAvailablePromotions] = useState<Promotion[]>([])
   const [showVoucherList, setShowVoucherList] = useState(false)
   const [showPromotionList, setShowPromotionList] = useState(false)
   const [showCashPaymentModal, setShowCashPaymentModal] = useState(false)
+  const [showSplitPaymentModal, setShowSplitPaymentModal] = useState(false)
 
   // Shift state
   const [currentShift, setCurrentShift] = useState<any>(null)
   const [isLoadingShift, setIsLoadingShift] = useState(true)
   const [showOpenShiftModal, setShowOpenShiftModal] = useState(false)
+  const [showExchangeModal, setShowExchangeModal] = useState(false)
+  const [showHeldCarts, setShowHeldCarts] = useState(false)
+  const [showHoldModal, setShowHoldModal] = useState(false)
+  const [holdName, setHoldName] = useState('')
+  const [holdNotes, setHoldNotes] = useState('')
+  const [heldCartBusyId, setHeldCartBusyId] = useState<string | null>(null)
   const [openingBalance, setOpeningBalance] = useState<string>('')
   const [showCloseShiftModal, setShowCloseShiftModal] = useState(false)
   const [closingBalance, setClosingBalance] = useState<string>('')
@@ -234,17 +336,44 @@ const [confirmingCard, setConfirmingCard] = useState(false)
   const [isSendingClosureWhatsApp, setIsSendingClosureWhatsApp] = useState(false)
   const [isShiftActionProcessing, setIsShiftActionProcessing] = useState(false)
 
+  // Variant picker state
+  const [variantPickerProduct, setVariantPickerProduct] = useState<Product | null>(null)
+  const [pickerSize, setPickerSize] = useState('')
+  const [pickerColor, setPickerColor] = useState('')
+
+  // Offline mode state
+  const [isOnline, setIsOnline] = useState(true)
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([])
+  const [isSyncingOutbox, setIsSyncingOutbox] = useState(false)
+
 
   // Fetch data using SWR
-  const fetcher = apiSWRFetcher
+  const fetcher = offlineFetcher
   
-  const { data: productsData, error: productsError, isLoading: productsLoading } = useSWR('/api/v1/products?limit=1000&page=1', fetcher, {
+  const { data: productsData, error: productsError, isLoading: productsLoading, mutate: mutateProducts } = useSWR('/api/v1/products?limit=1000&page=1', fetcher, {
     refreshInterval: 5000 // refresh every 5 seconds
   })
   
   const { data: categoriesData, error: categoriesError } = useSWR('/api/v1/categories', fetcher)
   
-  const { data: vouchersData, error: vouchersError } = useSWR('/api/v1/vouchers?active=true', apiSWRFetcher)
+  const { data: vouchersData, error: vouchersError } = useSWR('/api/v1/vouchers?active=true', fetcher)
+
+  const { data: loyaltyData } = useSWR<LoyaltyProgram>('/api/v1/loyalty/program', fetcher)
+  const loyalty = loyaltyData || DEFAULT_LOYALTY
+
+  // Poin member yang kedaluwarsa dalam 30 hari, agar kasir bisa menyarankan penukaran
+  const { data: pointsExpiry } = useSWR<{ expiringSoon: { points: number, firstExpiresAt: string | null } }>(
+    member?.id ? `/api/v1/members/${member.id}/points-expiry?days=30` : null,
+    apiSWRFetcher
+  )
+
+  // Pesanan ditahan milik kasir ini (manajer melihat semua) selama shift-nya masih buka
+  const { data: heldCartsData, mutate: mutateHeldCarts } = useSWR<{ heldCarts: HeldCart[] }>(
+    currentShift ? '/api/v1/held-carts' : null,
+    apiSWRFetcher,
+    { refreshInterval: 15000 }
+  )
+  const heldCarts = heldCartsData?.heldCarts || []
   
   // Load current shift
   useEffect(() => {
@@ -271,7 +400,14 @@ const [confirmingCard, setConfirmingCard] = useState(false)
         
         const json = await res.json()
         setCurrentShift(json.shift || null)
+        await saveSnapshot(SHIFT_SNAPSHOT_KEY, json.shift || null)
       } catch (e) {
+        // Keep selling on the last known shift while the backend is unreachable
+        const cachedShift = isNetworkError(e) ? await loadSnapshot(SHIFT_SNAPSHOT_KEY) : null
+        if (cachedShift) {
+          setCurrentShift(cachedShift)
+          return
+        }
         console.error('Exception loading shift:', e)
         toast.error('Terjadi kesalahan saat memuat status shift')
         setCurrentShift(null)
@@ -282,6 +418,91 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     loadShift()
   }, [user?.id])
 
+  const refreshOutbox = useCallback(async () => {
+    setOutboxEntries(await listOutbox())
+  }, [])
+
+  const syncOfflineSales = useCallback(async (silent = false) => {
+    setIsSyncingOutbox(true)
+    try {
+      const result = await syncOutbox()
+      setIsOnline(!result.interrupted && navigator.onLine)
+      if (!silent || result.synced > 0 || result.conflicts > 0 || result.failed > 0 || result.needsApproval > 0) {
+        if (result.synced > 0) toast.success(`${result.synced} transaksi offline tersinkron`)
+        if (result.conflicts > 0) toast.error(`${result.conflicts} transaksi offline menyebabkan stok minus`)
+        if (result.failed > 0) toast.error(`${result.failed} transaksi offline gagal disinkronkan`)
+        if (result.needsApproval > 0) toast.error(`${result.needsApproval} transaksi offline perlu persetujuan manajer`)
+        if (!silent && result.interrupted) toast.error('Server belum dapat dijangkau')
+      }
+    } catch (e) {
+      console.error('Error syncing offline sales:', e)
+    } finally {
+      setIsSyncingOutbox(false)
+      await refreshOutbox()
+    }
+  }, [refreshOutbox])
+
+  // Track connectivity and replay the outbox whenever the connection returns
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    setIsOnline(navigator.onLine)
+    refreshOutbox()
+    if (navigator.onLine) syncOfflineSales(true)
+
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncOfflineSales(true)
+    }
+    const handleOffline = () => setIsOnline(false)
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    // The browser can report online while the backend is still down, so retry periodically
+    const interval = setInterval(() => {
+      if (navigator.onLine) syncOfflineSales(true)
+    }, 30000)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      clearInterval(interval)
+    }
+  }, [refreshOutbox, syncOfflineSales])
+
+  const handleRetryOutboxEntry = async (idempotencyKey: string) => {
+    await retryOutboxEntry(idempotencyKey)
+    await syncOfflineSales()
+  }
+
+  // A held offline sale goes back into the queue with the manager's token
+  const handleApproveOutboxEntry = (entry: OutboxEntry) => {
+    if (!entry.approval) return
+    setApprovalRequest({
+      action: entry.approval.action as ApprovalRequest['action'],
+      ...(entry.approval.amount != null ? { amount: entry.approval.amount } : {}),
+      description: `Transaksi offline ${new Date(entry.createdAt).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })} sebesar ${formatCurrency(Number(entry.payload?.total || 0))}`,
+      retry: async (approvalToken: string) => {
+        await approveOutboxEntry(entry.idempotencyKey, approvalToken)
+        await syncOfflineSales()
+      },
+    })
+  }
+
+  const handleDismissOutboxEntry = async (idempotencyKey: string) => {
+    await removeOutboxEntry(idempotencyKey)
+    await refreshOutbox()
+  }
+
+  const handleExchangeCompleted = (result: ExchangeResult) => {
+    setShowExchangeModal(false)
+    mutateProducts()
+    if (result.amountDue > 0) {
+      toast.success(`Tukar barang berhasil. Pelanggan membayar selisih ${formatCurrency(result.amountDue)}`)
+    } else if (result.refundDue > 0) {
+      toast.success(`Tukar barang berhasil. Kembalikan ${formatCurrency(result.refundDue)} ke pelanggan`)
+    } else {
+      toast.success('Tukar barang berhasil tanpa selisih')
+    }
+  }
+
   const handleOpenShift = async () => {
     const opening = Number((openingBalance || '').replace(/^0+(?=\d)/, ''))
     if (Number.isNaN(opening) || opening < 0) {
@@ -338,6 +559,228 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     }
   }
 
+  const approvalHeaders = (approvalToken?: string): Record<string, string> =>
+    approvalToken ? { 'X-Approval-Token': approvalToken } : {}
+
+  // Buka laci tanpa penjualan; dicatat di shift beserta manajer yang menyetujui
+  const handleNoSale = async (approvalToken?: string) => {
+    setIsOpeningDrawer(true)
+    try {
+      const res = await apiFetch('/api/v1/cashier-shifts/no-sale', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...approvalHeaders(approvalToken) },
+        body: JSON.stringify({ reason: noSaleReason.trim() || undefined })
+      })
+      const json = await res.json().catch(() => ({}))
+      if (isApprovalRequired(res.status, json)) {
+        setApprovalRequest({
+          action: 'NO_SALE',
+          description: noSaleReason.trim() ? `Alasan: ${noSaleReason.trim()}` : undefined,
+          retry: (token) => handleNoSale(token)
+        })
+        return
+      }
+      if (!res.ok) throw new Error(json.error || 'Gagal membuka laci')
+      setShowNoSaleModal(false)
+      setNoSaleReason('')
+      toast.success('Laci kas dibuka dan dicatat pada shift')
+    } catch (e: any) {
+      toast.error(e.message || 'Gagal membuka laci')
+    } finally {
+      setIsOpeningDrawer(false)
+    }
+  }
+
+  // Konfirmasi pembayaran non-tunai menandai transaksi lunas, sehingga kasir perlu persetujuan manajer (MARK_PAID)
+  const confirmBankTransferPayment = async (approvalToken?: string) => {
+    if (!bankTransferTransaction || confirmingBankTransfer) return
+    setConfirmingBankTransfer(true)
+    try {
+      // Panggil API konfirmasi BANK_TRANSFER yang sekaligus mengurangi stok
+      const response = await apiFetch('/api/v1/payments/bank-transfer/confirm', {
+        method: 'POST',
+        headers: approvalHeaders(approvalToken),
+        body: JSON.stringify({ transactionId: bankTransferTransaction.id })
+      })
+
+      if (response.ok) {
+        toast.success('Pembayaran berhasil dikonfirmasi!')
+        // Tampilkan modal sukses transaksi
+        setCompletedTransaction({ ...bankTransferTransaction })
+        setShowTransactionModal(true)
+        setShowBankTransferModal(false)
+        // Kirim struk WhatsApp jika nomor pelanggan tersedia
+        if (customerPhone) {
+          try {
+            await apiFetch('/api/v1/whatsapp/send-receipt', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ transactionId: bankTransferTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
+            })
+            toast.success('Struk WhatsApp terkirim')
+          } catch (err) {
+            console.error('Gagal mengirim struk WhatsApp:', err)
+            toast.error('Gagal mengirim struk WhatsApp')
+          }
+        }
+        // Clear cart dan reset form
+        clearCart()
+        setCustomerName('')
+        setCustomerPhone('')
+        setCustomerEmail('')
+        setMember(null)
+        setPointsToUse(0)
+        setVoucherCode('')
+        setAppliedVoucher(null)
+        setVoucherDiscount(0)
+        setAppliedPromotions([])
+        setPromotionDiscount(0)
+        setBankTransferTransaction(null)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId: bankTransferTransaction.id,
+            description: `Konfirmasi transfer bank ${bankTransferTransaction.id} (${formatCurrency(bankTransferTransaction.total)})`,
+            retry: (token) => confirmBankTransferPayment(token)
+          })
+          return
+        }
+        toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran')
+      }
+    } catch (error) {
+      console.error('Error confirming payment:', error)
+      toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran')
+    } finally {
+      setConfirmingBankTransfer(false)
+    }
+  }
+
+  const confirmQrisPayment = async (approvalToken?: string) => {
+    if (!qrisTransaction || confirmingQris) return
+    setConfirmingQris(true)
+    try {
+      const response = await apiFetch('/api/v1/payments/qris/confirm', {
+        method: 'POST',
+        headers: approvalHeaders(approvalToken),
+        body: JSON.stringify({ transactionId: qrisTransaction.id })
+      })
+      if (response.ok) {
+        toast.success('Pembayaran QRIS berhasil dikonfirmasi!')
+        // Tampilkan modal sukses transaksi
+        setCompletedTransaction({ ...qrisTransaction })
+        setShowTransactionModal(true)
+        setShowQrisModal(false)
+        // Kirim struk WhatsApp jika nomor pelanggan tersedia
+        if (customerPhone) {
+          try {
+            await apiFetch('/api/v1/whatsapp/send-receipt', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ transactionId: qrisTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
+            })
+            toast.success('Struk WhatsApp terkirim')
+          } catch (err) {
+            console.error('Gagal mengirim struk WhatsApp:', err)
+            toast.error('Gagal mengirim struk WhatsApp')
+          }
+        }
+        clearCart()
+        setCustomerName('')
+        setCustomerPhone('')
+        setCustomerEmail('')
+        setMember(null)
+        setPointsToUse(0)
+        setVoucherCode('')
+        setAppliedVoucher(null)
+        setVoucherDiscount(0)
+        setAppliedPromotions([])
+        setPromotionDiscount(0)
+        setQrisTransaction(null)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId: qrisTransaction.id,
+            description: `Konfirmasi pembayaran QRIS ${qrisTransaction.id} (${formatCurrency(qrisTransaction.total)})`,
+            retry: (token) => confirmQrisPayment(token)
+          })
+          return
+        }
+        toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran QRIS')
+      }
+    } catch (error) {
+      console.error('Error confirming QRIS payment:', error)
+      toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran QRIS')
+    } finally {
+      setConfirmingQris(false)
+    }
+  }
+
+  const confirmCardPayment = async (approvalToken?: string) => {
+    if (!cardTransaction || confirmingCard) return
+    setConfirmingCard(true)
+    try {
+      const response = await apiFetch('/api/v1/payments/card/confirm', {
+        method: 'POST',
+        headers: approvalHeaders(approvalToken),
+        body: JSON.stringify({ transactionId: cardTransaction.id })
+      })
+      if (response.ok) {
+        toast.success('Pembayaran Kartu berhasil dikonfirmasi!')
+        // Tampilkan modal sukses transaksi
+        setCompletedTransaction({ ...cardTransaction })
+        setShowTransactionModal(true)
+        setShowCardModal(false)
+        // Kirim struk WhatsApp jika nomor pelanggan tersedia
+        if (customerPhone) {
+          try {
+            await apiFetch('/api/v1/whatsapp/send-receipt', {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ transactionId: cardTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
+            })
+            toast.success('Struk WhatsApp terkirim')
+          } catch (err) {
+            console.error('Gagal mengirim struk WhatsApp:', err)
+            toast.error('Gagal mengirim struk WhatsApp')
+          }
+        }
+        clearCart()
+        setCustomerName('')
+        setCustomerPhone('')
+        setCustomerEmail('')
+        setMember(null)
+        setPointsToUse(0)
+        setVoucherCode('')
+        setAppliedVoucher(null)
+        setVoucherDiscount(0)
+        setAppliedPromotions([])
+        setPromotionDiscount(0)
+        setCardTransaction(null)
+      } else {
+        const errorData = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId: cardTransaction.id,
+            description: `Konfirmasi pembayaran kartu ${cardTransaction.id} (${formatCurrency(cardTransaction.total)})`,
+            retry: (token) => confirmCardPayment(token)
+          })
+          return
+        }
+        toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran Kartu')
+      }
+    } catch (error) {
+      console.error('Error confirming CARD payment:', error)
+      toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran Kartu')
+    } finally {
+      setConfirmingCard(false)
+    }
+  }
+
   const handleSendClosureSummaryWhatsApp = async () => {
     if (!closureReport) {
       toast.error('Ringkasan penutupan tidak tersedia')
@@ -366,6 +809,7 @@ const [confirmingCard, setConfirmingCard] = useState(false)
   }
   
   const { data: promotionsData, error: promotionsError } = useSWR('/api/v1/promotions?active=true', fetcher)
+  const { data: approvalConfig } = useSWR<{ actions: string[]; discountPercent: number }>('/api/v1/approvals/config', apiSWRFetcher)
 
   // Handle payment callback from Midtrans redirect
   useEffect(() => {
@@ -518,67 +962,149 @@ const [confirmingCard, setConfirmingCard] = useState(false)
   // Filter products
   const filteredProducts = Array.isArray(products) ? products.filter(product => {
     const matchesCategory = selectedCategory === 'all' || product.category.id === selectedCategory
+    const term = searchTerm.toLowerCase()
     const matchesSearch = 
-      product.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      (product.productCode && product.productCode.toLowerCase().includes(searchTerm.toLowerCase()))
+      product.name.toLowerCase().includes(term) || 
+      (product.productCode && product.productCode.toLowerCase().includes(term)) ||
+      (product.variants || []).some(v =>
+        (v.productCode && v.productCode.toLowerCase().includes(term)) || (v.barcode && v.barcode === searchTerm.trim())
+      )
     return matchesCategory && matchesSearch
   }) : []
 
+  const getActiveVariants = (product: Product) => (product.variants || []).filter(v => v.isActive !== false)
+
   // Cart functions
-  const addToCart = (product: Product) => {
+  const addToCart = (product: Product, variant?: ProductVariant) => {
     if (!currentShift) {
       toast.error('Kasir dalam status tutup. Buka shift terlebih dahulu.')
       return
     }
-    const existingItem = cart.find(item => item.id === product.id)
+    // Produk bervarian: pilih ukuran/warna terlebih dahulu
+    if (!variant && getActiveVariants(product).length > 0) {
+      openVariantPicker(product)
+      return
+    }
+    const cartKey = variant ? `${product.id}:${variant.id}` : product.id
+    const availableStock = variant ? variant.stock : product.stock
+    const existingItem = cart.find(item => item.cartKey === cartKey)
     
     if (existingItem) {
-      if (existingItem.quantity >= product.stock) {
+      if (existingItem.quantity >= availableStock) {
         alert('Stok tidak mencukupi')
         return
       }
       setCart(cart.map(item => 
-        item.id === product.id 
+        item.cartKey === cartKey 
           ? { ...item, quantity: item.quantity + 1 }
           : item
       ))
     } else {
-      if (product.stock === 0) {
+      if (availableStock <= 0) {
         alert('Produk habis')
         return
       }
       setCart([...cart, {
         ...product,
+        ...(variant ? {
+          size: variant.size,
+          color: variant.color,
+          productCode: variant.productCode || product.productCode,
+          price: variant.price ?? product.price,
+          stock: variant.stock,
+          variantId: variant.id
+        } : {}),
+        cartKey,
         quantity: 1
       }])
     }
   }
 
-  const updateQuantity = (id: string, newQuantity: number) => {
+  // Keyboard-wedge scanner: add the scanned product straight to the cart
+  const handleBarcodeScan = async (rawCode: string) => {
+    const code = rawCode.trim()
+    const sameCode = (value?: string | null) => Boolean(value) && String(value).toLowerCase() === code.toLowerCase()
+    let match: { product: Product; variant?: ProductVariant } | null = null
+    for (const product of products) {
+      const variant = (product.variants || []).find(v => sameCode(v.barcode) || sameCode(v.productCode))
+      if (variant) { match = { product, variant }; break }
+      if (sameCode(product.barcode) || sameCode(product.productCode)) { match = { product }; break }
+    }
+    if (!match) {
+      try {
+        const res = await apiFetch(`/api/v1/products/barcode/${encodeURIComponent(code)}`)
+        if (res.ok) {
+          const data = await res.json()
+          match = { product: data.product, variant: data.variant || undefined }
+        }
+      } catch (err) {
+        console.error('Barcode lookup failed:', err)
+      }
+    }
+    // The scanner may have typed the code into the search box
+    setSearchTerm(prev => (prev.trim().toLowerCase() === code.toLowerCase() ? '' : prev))
+    if (!match) {
+      toast.error(`Barcode ${code} tidak ditemukan`)
+      return
+    }
+    addToCart(match.product, match.variant)
+    if (match.variant || getActiveVariants(match.product).length === 0) {
+      toast.success(`${match.product.name} ditambahkan ke keranjang`, { duration: 1500 })
+    }
+  }
+
+  useBarcodeScanner(handleBarcodeScan, {
+    enabled: !(showCashPaymentModal || showSplitPaymentModal || showBankTransferModal || showQrisModal || showCardModal)
+  })
+
+  const openVariantPicker = (product: Product) => {
+    const variants = getActiveVariants(product)
+    const firstInStock = variants.find(v => v.stock > 0) || variants[0]
+    setPickerSize(firstInStock?.size || '')
+    setPickerColor(firstInStock?.color || '')
+    setVariantPickerProduct(product)
+  }
+
+  const selectedPickerVariant = variantPickerProduct
+    ? getActiveVariants(variantPickerProduct).find(v => v.size === pickerSize && v.color === pickerColor)
+    : undefined
+
+  // Stok terbaru dari data SWR (per varian bila ada)
+  const getAvailableStock = (item: CartItem) => {
+    const product = products.find(p => p.id === item.id)
+    if (!product) return item.stock
+    if (item.variantId) {
+      const variant = (product.variants || []).find(v => v.id === item.variantId)
+      return variant ? variant.stock : item.stock
+    }
+    return product.stock
+  }
+
+  const updateQuantity = (cartKey: string, newQuantity: number) => {
     if (newQuantity === 0) {
-      removeFromCart(id)
+      removeFromCart(cartKey)
       return
     }
     
-    const product = products.find(p => p.id === id)
-    if (product && newQuantity > product.stock) {
+    const cartItem = cart.find(item => item.cartKey === cartKey)
+    if (cartItem && newQuantity > getAvailableStock(cartItem)) {
       toast.error('Stok tidak mencukupi')
       return
     }
 
     setCart(cart.map(item => 
-      item.id === id 
+      item.cartKey === cartKey 
         ? { ...item, quantity: newQuantity }
         : item
     ))
   }
 
-  const removeFromCart = (id: string) => {
-    setCart(cart.filter(item => item.id !== id))
+  const removeFromCart = (cartKey: string) => {
+    setCart(cart.filter(item => item.cartKey !== cartKey))
     toast.success('Item dihapus dari keranjang')
   }
 
-  const clearCart = () => {
+  const resetCart = () => {
     setCart([])
     setCustomerName('')
     setCustomerPhone('')
@@ -590,9 +1116,106 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     setVoucherDiscount(0)
     setAppliedPromotions([])
     setPromotionDiscount(0)
+    setManualDiscountValue('')
+  }
+
+  const clearCart = () => {
+    resetCart()
     toast.success('Keranjang dikosongkan')
   }
 
+  const openHoldModal = () => {
+    setHoldName(customerName || member?.name || '')
+    setHoldNotes('')
+    setShowHoldModal(true)
+  }
+
+  const holdCart = async () => {
+    if (!holdName.trim()) {
+      toast.error('Nama pesanan harus diisi')
+      return
+    }
+    setHeldCartBusyId('new')
+    try {
+      const res = await apiFetch('/api/v1/held-carts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: holdName.trim(),
+          items: cart,
+          ...(customerName ? { customerName } : {}),
+          ...(customerPhone ? { customerPhone } : {}),
+          ...(customerEmail ? { customerEmail } : {}),
+          ...(member?.id ? { memberId: Number(member.id) } : {}),
+          ...(appliedVoucher?.code ? { voucherCode: appliedVoucher.code } : {}),
+          pointsToUse,
+          ...(holdNotes.trim() ? { notes: holdNotes.trim() } : {})
+        })
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menahan pesanan')
+      resetCart()
+      setShowHoldModal(false)
+      mutateHeldCarts()
+      toast.success(`Pesanan "${body.name}" ditahan`)
+    } catch (error) {
+      console.error('Error holding cart:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menahan pesanan')
+    } finally {
+      setHeldCartBusyId(null)
+    }
+  }
+
+  const resumeHeldCart = async (hold: HeldCart) => {
+    if (cart.length > 0) {
+      toast.error('Tahan atau kosongkan keranjang saat ini terlebih dahulu')
+      return
+    }
+    setHeldCartBusyId(hold.id)
+    try {
+      const res = await apiFetch(`/api/v1/held-carts/${hold.id}/resume`, { method: 'POST' })
+      const body: HeldCart & { error?: string } = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal melanjutkan pesanan')
+      setCart(body.items as CartItem[])
+      setCustomerName(body.customerName || '')
+      setCustomerPhone(body.customerPhone || '')
+      setCustomerEmail(body.customerEmail || '')
+      setMember(body.member ? { ...body.member, id: String(body.member.id) } : null)
+      setPointsToUse(body.member ? Number(body.pointsToUse || 0) : 0)
+      if (body.voucherCode) {
+        // Diskon voucher dihitung ulang terhadap keranjang dan masa berlaku saat ini
+        setVoucherCode(body.voucherCode)
+        toast(`Terapkan ulang voucher ${body.voucherCode}`)
+      }
+      setShowHeldCarts(false)
+      mutateHeldCarts()
+      toast.success(`Pesanan "${body.name}" dilanjutkan`)
+    } catch (error) {
+      console.error('Error resuming held cart:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal melanjutkan pesanan')
+      mutateHeldCarts()
+    } finally {
+      setHeldCartBusyId(null)
+    }
+  }
+
+  const discardHeldCart = async (hold: HeldCart) => {
+    if (!confirm(`Hapus pesanan ditahan "${hold.name}"?`)) return
+    setHeldCartBusyId(hold.id)
+    try {
+      const res = await apiFetch(`/api/v1/held-carts/${hold.id}`, { method: 'DELETE' })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal menghapus pesanan ditahan')
+      mutateHeldCarts()
+      toast.success('Pesanan ditahan dihapus')
+    } catch (error) {
+      console.error('Error discarding held cart:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghapus pesanan ditahan')
+    } finally {
+      setHeldCartBusyId(null)
+    }
+  }
+
   // Member functions
   const searchMember = async () => {
     if (!customerPhone && !customerEmail) {
@@ -652,13 +1275,15 @@ const [confirmingCard, setConfirmingCard] = useState(false)
         body: JSON.stringify({
           name: customerName,
           phone: customerPhone || null,
-          email: customerEmail || null
+          email: customerEmail || null,
+          birthDate: newMemberBirthDate || null
         })
       })
 
       const payload = await response.json().catch(() => ({}))
       if (response.ok) {
         setMember(payload)
+        setNewMemberBirthDate('')
         toast.success(`Member baru berhasil dibuat: ${payload.name}`)
       } else {
         toast.error((payload && (payload.error || payload.message)) || 'Gagal membuat member baru')
@@ -748,7 +1373,8 @@ const [confirmingCard, setConfirmingCard] = useState(false)
       const response = await apiFetch('/api/v1/promotions/calculate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items: cartItems })
+        // Promosi khusus tier hanya berlaku untuk member di tier tersebut
+        body: JSON.stringify({ items: cartItems, ...(member?.id ? { memberId: member.id } : {}) })
       })
 
       const data = await response.json().catch(() => ({}))
@@ -765,31 +1391,113 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     } catch (error) {
       console.error('Error calculating promotions:', error)
     }
-  }, [cart])
+  }, [cart, member?.id])
 
   // Recalculate promotions when cart changes
   useEffect(() => {
     calculatePromotions()
   }, [calculatePromotions])
 
+  // Tier nonaktif tidak memberi keuntungan, sama seperti di server
+  const activeTier = member?.tier?.isActive ? member.tier : null
+
+  // Perkiraan poin seperti services/loyalty.js: total dibagi ke item sesuai subtotalnya
+  const estimatePointsEarned = (subtotal: number, total: number) => {
+    if (subtotal <= 0 || total <= 0) return 0
+    const earnable = cart.reduce((sum, item) => {
+      const categoryId = String(item.category?.id ?? '')
+      if (loyalty.excludedCategoryIds.includes(categoryId)) return sum
+      const multiplier = Number(loyalty.categoryMultipliers[categoryId] ?? 1)
+      return sum + (total * item.price * item.quantity / subtotal) * multiplier
+    }, 0)
+    const tierMultiplier = activeTier ? Number(activeTier.earnMultiplier) : 1
+    const points = Math.floor(Math.round((earnable * tierMultiplier / loyalty.spendPerPoint) * 1e6) / 1e6)
+    return loyalty.maxPointsPerTransaction == null ? points : Math.min(points, loyalty.maxPointsPerTransaction)
+  }
+
+  // Poin yang masih bisa dipakai tanpa membuat total di bawah nol
+  const maxRedeemablePoints = () => {
+    if (!member || loyalty.pointValue <= 0) return 0
+    const { total, pointsDiscount } = calculateTotal()
+    return Math.min(member.points, Math.floor((total + pointsDiscount) / loyalty.pointValue))
+  }
+
   const calculateTotal = () => {
     const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0)
-    const pointsDiscount = pointsToUse * 1000 // 1 poin = 1000 rupiah
+    const pointsDiscount = Math.round(pointsToUse * loyalty.pointValue)
     const totalBeforeDiscounts = subtotal - pointsDiscount
     const totalVoucherDiscount = voucherDiscount
     const totalPromotionDiscount = promotionDiscount
-    const total = Math.max(0, totalBeforeDiscounts - totalVoucherDiscount - totalPromotionDiscount)
-    const pointsEarned = member ? Math.floor(total / 10000) : 0
+    // Diskon tier dihitung dari sisa setelah promosi dan voucher, seperti services/pricing.js
+    const tierDiscount = activeTier && activeTier.discountPercent > 0
+      ? Math.round((Math.max(subtotal - totalPromotionDiscount - totalVoucherDiscount, 0) * activeTier.discountPercent) / 100)
+      : 0
+    const totalAfterDiscounts = Math.max(0, totalBeforeDiscounts - totalVoucherDiscount - totalPromotionDiscount - tierDiscount)
+    // Persentase dihitung dari subtotal, sama seperti batas persetujuan di server
+    const manualValue = Number(manualDiscountValue) || 0
+    const manualDiscount = Math.min(
+      totalAfterDiscounts,
+      Math.max(0, Math.round(manualDiscountType === 'PERCENT' ? (subtotal * manualValue) / 100 : manualValue))
+    )
+    // PPN dari server: eksklusif ditambahkan setelah semua diskon, inklusif sudah termasuk dalam harga
+    const tax = cart.length > 0 ? taxQuote?.tax || 0 : 0
+    const taxInclusive = Boolean(taxQuote?.taxInclusive)
+    const total = totalAfterDiscounts - manualDiscount + (taxInclusive ? 0 : tax)
+    const pointsEarned = member ? estimatePointsEarned(subtotal, total) : 0
     return { 
       subtotal, 
       total, 
       pointsDiscount, 
       pointsEarned, 
       voucherDiscount: totalVoucherDiscount,
-      promotionDiscount: totalPromotionDiscount
+      promotionDiscount: totalPromotionDiscount,
+      tierDiscount,
+      manualDiscount,
+      tax,
+      taxInclusive
     }
   }
 
+  // PPN dihitung server per baris setelah diskon, sama seperti saat transaksi disimpan
+  const calculateTax = async () => {
+    if (cart.length === 0) {
+      setTaxQuote(null)
+      return
+    }
+    try {
+      const response = await apiFetch('/api/v1/tax/calculate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: cart.map(item => ({
+            productId: item.id,
+            ...(item.variantId ? { variantId: item.variantId } : {}),
+            quantity: item.quantity
+          })),
+          discount: calculateTotal().manualDiscount,
+          pointsUsed: pointsToUse,
+          ...(appliedVoucher?.code ? { voucherCode: appliedVoucher.code } : {}),
+          ...(member?.id ? { memberId: member.id } : {})
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (response.ok) {
+        setTaxQuote({ tax: Number(data.tax || 0), taxInclusive: Boolean(data.taxInclusive) })
+      }
+    } catch (error) {
+      console.error('Error calculating tax:', error)
+    }
+  }
+
+  useEffect(() => {
+    calculateTax()
+  }, [cart, pointsToUse, appliedVoucher, member, manualDiscountType, manualDiscountValue])
+
+  const discountNeedsApproval = (discount: number, subtotal: number) => {
+    if (!approvalConfig?.actions.includes('DISCOUNT') || discount <= 0) return false
+    return subtotal <= 0 || (discount / subtotal) * 100 > approvalConfig.discountPercent
+  }
+
   // Function to print bank transfer instructions
   const printBankTransferInstructions = () => {
     if (!bankTransferTransaction) return;
@@ -851,7 +1559,61 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     printWindow?.print();
   };
 
-  const processPayment = async () => {
+  // Simpan penjualan tunai di outbox IndexedDB saat server tidak dapat dijangkau
+  const queueOfflineSale = async (idempotencyKey: string, payload: any) => {
+    const totals = calculateTotal()
+    await enqueueSale(idempotencyKey, payload)
+    setCompletedTransaction({
+      id: `OFFLINE-${idempotencyKey.slice(0, 8).toUpperCase()}`,
+      items: cart,
+      subtotal: totals.subtotal,
+      total: totals.total,
+      paymentMethod: 'CASH',
+      customerName: customerName || undefined,
+      createdAt: new Date(payload.clientCreatedAt),
+      pointsUsed: pointsToUse,
+      pointsDiscount: totals.pointsDiscount,
+      pointsEarned: totals.pointsEarned,
+      voucherCode: appliedVoucher?.code || null,
+      voucherDiscount: totals.voucherDiscount,
+      promotionDiscount: totals.promotionDiscount,
+      tierDiscount: totals.tierDiscount,
+      appliedPromotions: appliedPromotions,
+      offline: true
+    })
+    setShowTransactionModal(true)
+    clearCart()
+    setIsOnline(false)
+    await refreshOutbox()
+    toast.success('Transaksi disimpan offline dan akan disinkronkan saat koneksi kembali')
+  }
+
+  // Server menghitung ulang harga; 409 berarti harga/diskon di keranjang sudah usang
+  const applyServerPricing = (conflict: any) => {
+    const serverLines: any[] = conflict?.pricing?.items || []
+    setCart(prev => prev.map(item => {
+      const line = serverLines.find(l => l.productId === item.id && (l.variantId || null) === (item.variantId || null))
+      return line ? { ...item, price: line.price } : item
+    }))
+    if (conflict?.diff?.voucherError) {
+      setAppliedVoucher(null)
+      setVoucherDiscount(0)
+      toast.error(`Voucher tidak berlaku: ${conflict.diff.voucherError}`)
+    } else if (conflict?.pricing) {
+      setVoucherDiscount(Number(conflict.pricing.voucherDiscount || 0))
+    }
+    if (conflict?.pricing) {
+      setTaxQuote({ tax: Number(conflict.pricing.tax || 0), taxInclusive: Boolean(conflict.pricing.taxInclusive) })
+    }
+    const changed = (conflict?.diff?.items || []).map((i: any) => `${i.name}: ${formatCurrency(i.clientPrice)} → ${formatCurrency(i.serverPrice)}`)
+    toast.error(changed.length > 0
+      ? `Harga berubah (${changed.join(', ')}). Periksa keranjang lalu proses ulang.`
+      : 'Total berubah. Periksa keranjang lalu proses ulang.')
+  }
+
+  // tenders diisi saat pembayaran terpisah (beberapa metode sekaligus);
+  // approvalToken saat diulang setelah manajer menyetujui diskon manual
+  const processPayment = async (tenders?: Tender[], approvalToken?: string) => {
     if (!currentShift) {
       toast.error('Shift kasir belum dibuka. Silakan buka shift.')
       return
@@ -872,33 +1634,53 @@ const [confirmingCard, setConfirmingCard] = useState(false)
     const idempotencyKey = uuidv4()
     setPaymentProcessingId(idempotencyKey)
     setIsProcessing(true)
+    // Payload untuk antrean offline (hanya CASH), diisi setelah data transaksi dibangun
+    let offlinePayload: any = null
     
     try {
       // Re-cek stok terbaru untuk setiap item agar tidak oversell
-      const latestProducts = await Promise.all(
-        cart.map(async (item) => {
-          const latest = await apiJson<Product>(`/api/v1/products/${item.id}`)
-          return latest
-        })
-      )
+      let backendReachable = isOnline
+      if (backendReachable) {
+        try {
+          const latestProducts = await Promise.all(
+            cart.map(async (item) => {
+              const latest = await apiJson<Product>(`/api/v1/products/${item.id}`)
+              return latest
+            })
+          )
 
-      for (const latest of latestProducts) {
-        const cartItem = cart.find(ci => ci.id === latest.id)
-        if (!cartItem) continue
-        if (latest.stock === 0) {
-          toast.error(`Stok habis untuk ${latest.name}`)
-          return
-        }
-        if (cartItem.quantity > latest.stock) {
-          toast.error(`Stok tidak mencukupi untuk ${latest.name}. Tersisa ${latest.stock}.`)
-          return
+          for (let index = 0; index < latestProducts.length; index++) {
+            const latest = latestProducts[index]
+            const cartItem = cart[index]
+            if (!cartItem) continue
+            const latestVariant = cartItem.variantId ? (latest.variants || []).find((v: ProductVariant) => v.id === cartItem.variantId) : undefined
+            const label = latestVariant ? `${latest.name} (${latestVariant.size}/${latestVariant.color})` : latest.name
+            const latestStock = latestVariant ? latestVariant.stock : latest.stock
+            if (latestStock <= 0) {
+              toast.error(`Stok habis untuk ${label}`)
+              return
+            }
+            if (cartItem.quantity > latestStock) {
+              toast.error(`Stok tidak mencukupi untuk ${label}. Tersisa ${latestStock}.`)
+              return
+            }
+          }
+        } catch (stockErr) {
+          if (!isNetworkError(stockErr)) throw stockErr
+          backendReachable = false
         }
       }
 
+      if (!backendReachable && paymentMethod !== 'CASH') {
+        toast.error('Server tidak dapat dijangkau. Mode offline hanya mendukung pembayaran tunai.')
+        return
+      }
+
       const totals = calculateTotal()
       // Bangun payload transaksi tanpa mengirim nilai null untuk field string opsional
       const baseItems = cart.map(item => ({
         productId: item.id,
+        ...(item.variantId ? { variantId: item.variantId } : {}),
         quantity: item.quantity,
         price: item.price,
         subtotal: item.price * item.quantity,
@@ -913,11 +1695,19 @@ const [confirmingCard, setConfirmingCard] = useState(false)
         pointsUsed: pointsToUse,
         voucherDiscount: totals.voucherDiscount,
         promoDiscount: totals.promotionDiscount,
+        tierDiscount: totals.tierDiscount,
+        tax: totals.tax,
+        ...(totals.manualDiscount > 0 ? { discount: totals.manualDiscount } : {}),
         // Data cash (hanya kirim saat CASH)
         ...(paymentMethod === 'CASH' ? { cashAmount, changeAmount } : {}),
         // Kartu butuh konfirmasi manual
         ...(paymentMethod === 'CARD' ? { requiresConfirmation: true } : {})
       }
+      // Pembayaran terpisah: metode utama = tender dengan nominal terbesar
+      if (tenders && tenders.length > 0) {
+        transactionData.payments = tenders
+        transactionData.paymentMethod = tenders.reduce((best, t) => (t.amount > best.amount ? t : best), tenders[0]).method
+      }
       // Sertakan kode voucher bila diterapkan untuk pencatatan penggunaan
       if (appliedVoucher?.code) {
         transactionData.voucherCode = appliedVoucher.code
@@ -929,6 +1719,28 @@ const [confirmingCard, setConfirmingCard] = useState(false)
       if (appliedVoucher?.code) transactionData.voucherCode = appliedVoucher.code
       // Member opsional: kirim hanya jika ada
       if (member?.id) transactionData.memberId = member.id
+
+      // Diskon yang perlu persetujuan manajer tidak bisa diantrekan offline
+      const needsDiscountApproval = discountNeedsApproval(totals.manualDiscount, totals.subtotal)
+      if (paymentMethod === 'CASH' && !needsDiscountApproval) {
+        offlinePayload = { ...transactionData, offline: true, clientCreatedAt: new Date().toISOString() }
+      }
+      if (!backendReachable) {
+        if (!offlinePayload) {
+          toast.error('Diskon manual ini perlu persetujuan manajer dan tidak dapat diproses offline.')
+          return
+        }
+        await queueOfflineSale(idempotencyKey, offlinePayload)
+        return
+      }
+      const requestDiscountApproval = () => {
+        setApprovalRequest({
+          action: 'DISCOUNT',
+          amount: totals.manualDiscount,
+          description: `Diskon ${formatCurrency(totals.manualDiscount)} (${Math.round((totals.manualDiscount / Math.max(totals.subtotal, 1)) * 100)}% dari subtotal ${formatCurrency(totals.subtotal)})`,
+          retry: (token) => processPayment(tenders, token)
+        })
+      }
       
       // Handle Midtrans payment
       if (paymentMethod === 'MIDTRANS') {
@@ -941,6 +1753,7 @@ const [confirmingCard, setConfirmingCard] = useState(false)
             headers: { 
               'Content-Type': 'application/json',
               'X-Idempotency-Key': idempotencyKey,
+              ...approvalHeaders(approvalToken),
             },
             body: JSON.stringify({
               ...transactionData,
@@ -948,6 +1761,14 @@ const [confirmingCard, setConfirmingCard] = useState(false)
             })
           });
 
+          if (transactionResponse.status === 409) {
+            applyServerPricing(await transactionResponse.json().catch(() => ({})))
+            return
+          }
+          if (transactionResponse.status === 403 && isApprovalRequired(403, await transactionResponse.clone().json().catch(() => ({})))) {
+            requestDiscountApproval()
+            return
+          }
           if (!transactionResponse.ok) {
             throw new Error('Failed to create transaction record');
           }
@@ -1001,10 +1822,19 @@ const [confirmingCard, setConfirmingCard] = useState(false)
         headers: {
           'Content-Type': 'application/json',
           'X-Idempotency-Key': idempotencyKey,
+          ...approvalHeaders(approvalToken),
         },
         body: JSON.stringify(pendingForConfirmation ? { ...transactionData, status: 'PENDING', paymentStatus: 'PENDING' } : transactionData)
       })
       
+      if (response.status === 409) {
+        applyServerPricing(await response.json().catch(() => ({})))
+        return
+      }
+      if (response.status === 403 && isApprovalRequired(403, await response.clone().json().catch(() => ({})))) {
+        requestDiscountApproval()
+        return
+      }
       if (!response.ok) {
         try {
           const errorData = await response.json()
@@ -1024,13 +1854,21 @@ const [confirmingCard, setConfirmingCard] = useState(false)
         subtotal: totals.subtotal,
         total: totals.total,
         paymentMethod,
+        ...(tenders && tenders.length > 0 ? { payments: tenders } : {}),
         customerName: customerName || undefined,
+        customerPhone: customerPhone || member?.phone || undefined,
+        customerEmail: customerEmail || member?.email || undefined,
         createdAt: new Date(),
         pointsUsed: pointsToUse,
-        pointsEarned: totals.pointsEarned,
+        pointsDiscount: Number(transaction.pointsDiscount ?? totals.pointsDiscount),
+        pointsEarned: Number(transaction.pointsEarned ?? totals.pointsEarned),
         voucherCode: appliedVoucher?.code || null,
         voucherDiscount: totals.voucherDiscount,
         promotionDiscount: totals.promotionDiscount,
+        tierDiscount: Number(transaction.tierDiscount ?? totals.tierDiscount),
+        discount: totals.manualDiscount,
+        tax: Number(transaction.tax ?? totals.tax),
+        taxInclusive: Boolean(transaction.taxInclusive ?? totals.taxInclusive),
         appliedPromotions: appliedPromotions
       }
       
@@ -1070,6 +1908,16 @@ const [confirmingCard, setConfirmingCard] = useState(false)
       toast.success('Pembayaran berhasil!')
 
     } catch (error) {
+      // Koneksi putus di tengah proses: simpan penjualan tunai ke antrean offline.
+      // Idempotency key yang sama mencegah duplikasi jika request sempat diterima server.
+      if (offlinePayload && isNetworkError(error)) {
+        try {
+          await queueOfflineSale(idempotencyKey, offlinePayload)
+          return
+        } catch (queueErr) {
+          console.error('Failed to queue offline sale:', queueErr)
+        }
+      }
       console.error('Payment failed:', error)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       
@@ -1093,11 +1941,54 @@ const [confirmingCard, setConfirmingCard] = useState(false)
 
   // DOKU payment handlers removed
 
+  const receiptTargetFor = (channel: 'WHATSAPP' | 'EMAIL', transaction: any) =>
+    (channel === 'EMAIL' ? transaction?.customerEmail : transaction?.customerPhone) || ''
+
+  // Saluran awal mengikuti kontak pelanggan: email bila hanya email yang diisi
+  useEffect(() => {
+    if (!completedTransaction) return
+    const channel = !completedTransaction.customerPhone && completedTransaction.customerEmail ? 'EMAIL' : 'WHATSAPP'
+    setReceiptChannel(channel)
+    setReceiptTarget(receiptTargetFor(channel, completedTransaction))
+  }, [completedTransaction])
+
+  const chooseReceiptChannel = (channel: 'WHATSAPP' | 'EMAIL') => {
+    setReceiptChannel(channel)
+    setReceiptTarget(receiptTargetFor(channel, completedTransaction))
+  }
+
+  const sendReceipt = async () => {
+    const target = receiptTarget.trim()
+    if (!completedTransaction || !target) return
+    setSendingReceipt(true)
+    try {
+      const res = receiptChannel === 'EMAIL'
+        ? await apiFetch(`/api/v1/transactions/${completedTransaction.id}/send-receipt-email`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: target })
+          })
+        : await apiFetch('/api/v1/whatsapp/send-receipt', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ transactionId: completedTransaction.id, phoneNumber: target, receiptType: 'detailed' })
+          })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal mengirim struk')
+      toast.success(receiptChannel === 'EMAIL' ? `Struk terkirim ke ${target}` : 'Struk WhatsApp terkirim')
+    } catch (err) {
+      console.error('Gagal mengirim struk:', err)
+      toast.error(err instanceof Error ? err.message : 'Gagal mengirim struk')
+    } finally {
+      setSendingReceipt(false)
+    }
+  }
+
   const printReceipt = () => {
-    const { subtotal, total, voucherDiscount, promotionDiscount } = calculateTotal()
+    const { subtotal, total, voucherDiscount, promotionDiscount, tierDiscount } = calculateTotal()
     const pointsUsed = completedTransaction?.pointsUsed ?? 0
     const pointsEarned = completedTransaction?.pointsEarned ?? 0
-    const pointDiscount = pointsUsed * 1000
+    const pointDiscount = completedTransaction?.pointsDiscount ?? 0
     
     const receiptContent = `
       ===== Wear Calaa =====
@@ -1120,6 +2011,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
       ${pointsUsed > 0 ? `Diskon Poin (${pointsUsed} poin): -${formatCurrency(pointDiscount)}` : ''}
       ${voucherDiscount > 0 ? `Diskon Voucher (${appliedVoucher?.code}): -${formatCurrency(voucherDiscount)}` : ''}
       ${promotionDiscount > 0 ? `Diskon Promosi: -${formatCurrency(promotionDiscount)}` : ''}
+      ${tierDiscount > 0 ? `Diskon Member ${activeTier?.name || ''}: -${formatCurrency(tierDiscount)}` : ''}
       ${appliedPromotions.length > 0 ? `\n===== PROMOSI DITERAPKAN =====\n${appliedPromotions.map(p => `- ${p.promotion?.name || 'Promosi'}: ${formatCurrency(p.discount)}`).join('\n')}` : ''}
       Total: ${formatCurrency(total)}
       
@@ -1195,6 +2087,45 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       </button>
                     </>
                   )}
+                  {currentShift && (
+                    <button
+                      onClick={() => setShowExchangeModal(true)}
+                      className="inline-flex items-center px-3 py-1.5 rounded-lg bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium"
+                    >
+                      <ArrowPathIcon className="h-4 w-4 mr-1" />
+                      Tukar Barang
+                    </button>
+                  )}
+                  {currentShift && (
+                    <button
+                      onClick={() => setShowNoSaleModal(true)}
+                      className="inline-flex items-center px-3 py-1.5 rounded-lg bg-gray-700 hover:bg-gray-800 text-white text-sm font-medium"
+                    >
+                      <BanknotesIcon className="h-4 w-4 mr-1" />
+                      Buka Laci
+                    </button>
+                  )}
+                  {currentShift && (
+                    <button
+                      onClick={() => setShowHeldCarts(true)}
+                      className="inline-flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium"
+                    >
+                      <ClockIcon className="h-4 w-4 mr-1" />
+                      Pesanan Ditahan
+                      {heldCarts.length > 0 && (
+                        <span className="ml-2 px-1.5 py-0.5 bg-white text-indigo-700 rounded text-xs font-semibold">{heldCarts.length}</span>
+                      )}
+                    </button>
+                  )}
+                  <OfflineSyncStatus
+                    isOnline={isOnline}
+                    isSyncing={isSyncingOutbox}
+                    entries={outboxEntries}
+                    onSync={() => syncOfflineSales()}
+                    onRetry={handleRetryOutboxEntry}
+                    onApprove={handleApproveOutboxEntry}
+                    onDismiss={handleDismissOutboxEntry}
+                  />
                 </div>
               </div>
               <div className="flex items-center gap-8">
@@ -1211,6 +2142,122 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
           </div>
         </div>
 
+        {/* Drawer: Held Carts */}
+        {showHeldCarts && (
+          <HeldCartsDrawer
+            heldCarts={heldCarts}
+            busyId={heldCartBusyId}
+            onClose={() => setShowHeldCarts(false)}
+            onResume={resumeHeldCart}
+            onDiscard={discardHeldCart}
+          />
+        )}
+
+        {/* Modal: No Sale (buka laci tanpa penjualan) */}
+        {showNoSaleModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+            <div className="bg-white rounded-xl shadow-lg w-full max-w-md p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Buka Laci Tanpa Penjualan</h3>
+                <button onClick={() => setShowNoSaleModal(false)} className="text-gray-500 hover:text-gray-700">
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-gray-700">Alasan</label>
+                <input
+                  type="text"
+                  value={noSaleReason}
+                  onChange={(e) => setNoSaleReason(e.target.value)}
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-gray-50"
+                  placeholder="Mis. tukar uang kecil"
+                />
+                {approvalConfig?.actions.includes('NO_SALE') && (
+                  <p className="text-xs text-amber-700">Membuka laci tanpa penjualan memerlukan persetujuan manajer.</p>
+                )}
+              </div>
+              <div className="flex justify-end gap-3 mt-6">
+                <button
+                  onClick={() => setShowNoSaleModal(false)}
+                  className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 text-sm font-medium"
+                >
+                  Batal
+                </button>
+                <button
+                  onClick={() => handleNoSale()}
+                  disabled={isOpeningDrawer}
+                  className="px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 text-white text-sm font-medium disabled:opacity-50"
+                >
+                  {isOpeningDrawer ? 'Memproses...' : 'Buka Laci'}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Modal: Manager approval */}
+        {approvalRequest && (
+          <ManagerApprovalModal
+            request={approvalRequest}
+            onClose={() => setApprovalRequest(null)}
+            onApproved={(approvalToken) => {
+              const { retry } = approvalRequest
+              setApprovalRequest(null)
+              retry(approvalToken)
+            }}
+          />
+        )}
+
+        {/* Modal: Hold Cart */}
+        {showHoldModal && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
+            <div className="bg-white rounded-xl shadow-lg w-full max-w-md p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Tahan Pesanan</h3>
+                <button onClick={() => setShowHoldModal(false)} className="text-gray-500 hover:text-gray-700">
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
+              <div className="space-y-3">
+                <label className="text-sm font-medium text-gray-700">Nama Pesanan</label>
+                <input
+                  type="text"
+                  value={holdName}
+                  onChange={(e) => setHoldName(e.target.value)}
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-gray-50"
+                  placeholder="Mis. nama pelanggan atau ciri-cirinya"
+                />
+                <label className="text-sm font-medium text-gray-700">Catatan</label>
+                <textarea
+                  value={holdNotes}
+                  onChange={(e) => setHoldNotes(e.target.value)}
+                  rows={2}
+                  className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-gray-50"
+                  placeholder="Mis. sedang mencoba ukuran L"
+                />
+                <div className="flex justify-end gap-2 pt-2">
+                  <button onClick={() => setShowHoldModal(false)} className="px-3 py-2 rounded-lg border border-gray-200 text-sm">Batal</button>
+                  <button
+                    onClick={holdCart}
+                    disabled={heldCartBusyId === 'new'}
+                    className="px-3 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+                  >
+                    {heldCartBusyId === 'new' ? 'Menyimpan...' : 'Tahan'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Modal: Exchange */}
+        {showExchangeModal && (
+          <ExchangeModal
+            onClose={() => setShowExchangeModal(false)}
+            onCompleted={handleExchangeCompleted}
+          />
+        )}
+
         {/* Modal: Open Shift */}
         {showOpenShiftModal && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40">
@@ -1274,6 +2321,11 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   className="w-full px-3 py-2.5 border border-gray-200 rounded-lg text-sm focus:ring-1 focus:ring-blue-400 focus:border-blue-400 bg-gray-50"
                   placeholder="Masukkan saldo akhir"
                 />
+                {heldCarts.some((hold) => hold.cashierShiftId === currentShift?.id) && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+                    {heldCarts.filter((hold) => hold.cashierShiftId === currentShift?.id).length} pesanan ditahan dari shift ini akan kedaluwarsa saat shift ditutup.
+                  </p>
+                )}
                 {closureReport && (
                   <div className="mt-3 bg-gray-50 border border-gray-200 rounded-lg p-3">
                     <p className="text-sm text-gray-700 font-medium">Ringkasan Penutupan</p>
@@ -1300,6 +2352,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                           <p>Menunggu: {closureReport.statusCounts?.PENDING || 0}</p>
                           <p>Dibatalkan: {closureReport.statusCounts?.CANCELLED || 0}</p>
                           <p>Dikembalikan: {closureReport.statusCounts?.REFUNDED || 0}</p>
+                          <p>Dikembalikan Sebagian: {closureReport.statusCounts?.PARTIALLY_REFUNDED || 0}</p>
                         </div>
                       </div>
                       <div className="bg-white rounded-md border border-gray-200 p-3">
@@ -1384,6 +2437,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       <p>Menunggu: {closureReport.statusCounts?.PENDING || 0}</p>
                       <p>Dibatalkan: {closureReport.statusCounts?.CANCELLED || 0}</p>
                       <p>Dikembalikan: {closureReport.statusCounts?.REFUNDED || 0}</p>
+                      <p>Dikembalikan Sebagian: {closureReport.statusCounts?.PARTIALLY_REFUNDED || 0}</p>
                     </div>
                   </div>
                   <div className="bg-white rounded-md border border-gray-200 p-3">
@@ -1443,7 +2497,8 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                 <div className="relative">
                   <input
                     type="text"
-                    placeholder="Cari produk..."
+                    placeholder="Cari produk atau scan barcode..."
+                    data-barcode-input
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-full px-4 py-3 pl-11 pr-11 border border-gray-200 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
@@ -1912,16 +2967,24 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                           </p>
                         )}
                         
-                        {product.size && (
+                        {getActiveVariants(product).length > 0 ? (
                           <p className="text-gray-500 text-xs">
-                            Ukuran: {product.size}
-                          </p>
-                        )}
-                        
-                        {product.color && (
-                          <p className="text-gray-500 text-xs">
-                            Warna: {product.color}
+                            {new Set(getActiveVariants(product).map(v => v.size)).size} ukuran • {new Set(getActiveVariants(product).map(v => v.color)).size} warna
                           </p>
+                        ) : (
+                          <>
+                            {product.size && (
+                              <p className="text-gray-500 text-xs">
+                                Ukuran: {product.size}
+                              </p>
+                            )}
+                            
+                            {product.color && (
+                              <p className="text-gray-500 text-xs">
+                                Warna: {product.color}
+                              </p>
+                            )}
+                          </>
                         )}
                         
                         <div className="flex items-center justify-between">
@@ -1957,7 +3020,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                         }`}
                         disabled={product.stock === 0}
                       >
-                        {product.stock === 0 ? '❌ Stok Habis' : 'Tambah ke Keranjang'}
+                        {product.stock === 0 ? '❌ Stok Habis' : getActiveVariants(product).length > 0 ? 'Pilih Varian' : 'Tambah ke Keranjang'}
                       </button>
                     </div>
                   ))}
@@ -1978,12 +3041,23 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   </span>
                 </h2>
                 {cart.length > 0 && (
-                  <button
-                    onClick={clearCart}
-                    className="text-red-600 hover:text-red-700 text-sm font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors"
-                  >
-                    Kosongkan
-                  </button>
+                  <div className="flex items-center gap-1">
+                    {currentShift && (
+                      <button
+                        onClick={openHoldModal}
+                        className="inline-flex items-center text-indigo-600 hover:text-indigo-700 text-sm font-medium px-2 py-1 rounded hover:bg-indigo-50 transition-colors"
+                      >
+                        <PauseCircleIcon className="h-4 w-4 mr-1" />
+                        Tahan
+                      </button>
+                    )}
+                    <button
+                      onClick={clearCart}
+                      className="text-red-600 hover:text-red-700 text-sm font-medium px-2 py-1 rounded hover:bg-red-50 transition-colors"
+                    >
+                      Kosongkan
+                    </button>
+                  </div>
                 )}
               </div>
 
@@ -2031,7 +3105,17 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   {member ? (
                     <div className="bg-green-50 border border-green-200 rounded-lg p-3 mt-2">
                       <div className="flex justify-between items-center mb-2">
-                        <span className="text-sm font-medium text-green-800">Member: {member.name}</span>
+                        <span className="text-sm font-medium text-green-800 flex items-center gap-2">
+                          Member: {member.name}
+                          {activeTier && (
+                            <span
+                              className="px-2 py-0.5 rounded-full text-xs font-semibold text-white"
+                              style={{ backgroundColor: activeTier.color || '#6b7280' }}
+                            >
+                              {activeTier.name}
+                            </span>
+                          )}
+                        </span>
                         <button
                           onClick={() => {
                             setMember(null)
@@ -2047,24 +3131,42 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       </div>
                       <p className="text-sm text-green-700">Email: {member.email || 'Tidak ada email'}</p>
                       <p className="text-sm text-green-700">Poin tersedia: {member.points}</p>
+                      {(pointsExpiry?.expiringSoon.points ?? 0) > 0 && pointsExpiry?.expiringSoon.firstExpiresAt && (
+                        <p className="text-sm text-amber-700">
+                          {pointsExpiry.expiringSoon.points} poin kedaluwarsa mulai{' '}
+                          {new Date(pointsExpiry.expiringSoon.firstExpiresAt).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta' })}
+                        </p>
+                      )}
                       <p className="text-sm text-green-700">Total belanja: {formatCurrency(member.totalSpent)}</p>
+                      {activeTier && (activeTier.discountPercent > 0 || activeTier.earnMultiplier !== 1) && (
+                        <p className="text-sm text-green-700">
+                          Keuntungan {activeTier.name}:{' '}
+                          {[
+                            activeTier.discountPercent > 0 ? `diskon ${activeTier.discountPercent}%` : null,
+                            activeTier.earnMultiplier !== 1 ? `poin ${activeTier.earnMultiplier}x` : null,
+                          ].filter(Boolean).join(', ')}
+                        </p>
+                      )}
                       
                       {member.points > 0 && (
                         <div className="mt-2">
                           <label className="block text-sm font-medium text-green-700 mb-1">
-                            Gunakan Poin (1 poin = Rp 1.000)
+                            Gunakan Poin (1 poin = {formatCurrency(loyalty.pointValue)})
                           </label>
+                          {loyalty.minRedeemPoints > 0 && (
+                            <p className="text-xs text-green-700 mb-1">Minimal {loyalty.minRedeemPoints} poin sekali pakai</p>
+                          )}
                           <div className="flex space-x-2">
                             <input
                               type="number"
                               min="0"
-                              max={Math.min(member.points, Math.floor(calculateTotal().total / 1000))}
+                              max={maxRedeemablePoints()}
                               value={pointsToUse}
                               onChange={(e) => setPointsToUse(parseInt(e.target.value) || 0)}
                               className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                             />
                             <button
-                              onClick={() => setPointsToUse(Math.min(member.points, Math.floor(calculateTotal().total / 1000)))}
+                              onClick={() => setPointsToUse(maxRedeemablePoints())}
                               className="px-3 py-2 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white text-sm rounded-lg transition-colors"
                             >
                               Max
@@ -2093,12 +3195,24 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                     </div>
                   ) : (
                     customerName && (customerPhone || customerEmail) && (
-                      <button
-                        onClick={createNewMember}
-                        className="w-full px-4 py-3 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white text-sm rounded-xl transition-all duration-200 transform hover:scale-105 font-medium shadow-md"
-                      >
-                        ✨ Daftar sebagai Member Baru
-                      </button>
+                      <div className="space-y-2">
+                        <label className="block text-xs font-medium text-gray-600">
+                          Tanggal Lahir (opsional, untuk voucher ulang tahun)
+                          <input
+                            type="date"
+                            value={newMemberBirthDate}
+                            max={new Date().toISOString().slice(0, 10)}
+                            onChange={(e) => setNewMemberBirthDate(e.target.value)}
+                            className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </label>
+                        <button
+                          onClick={createNewMember}
+                          className="w-full px-4 py-3 bg-gradient-to-r from-green-600 to-green-700 hover:from-green-700 hover:to-green-800 text-white text-sm rounded-xl transition-all duration-200 transform hover:scale-105 font-medium shadow-md"
+                        >
+                          ✨ Daftar sebagai Member Baru
+                        </button>
+                      </div>
                     )
                   )}
                 </div>
@@ -2110,7 +3224,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   <p className="text-gray-400 text-center py-8 text-sm">Keranjang kosong</p>
                 ) : (
                   cart.map(item => (
-                    <div key={item.id} className="flex items-start justify-between p-4 bg-white rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-all duration-200 mb-3">
+                    <div key={item.cartKey} className="flex items-start justify-between p-4 bg-white rounded-xl border border-gray-200 shadow-sm hover:shadow-md transition-all duration-200 mb-3">
                       <div className="flex-1">
                         <h4 className="font-semibold text-sm text-gray-900 mb-1 line-clamp-2 break-words">{item.name}</h4>
                         <div className="flex flex-wrap gap-2 mb-2">
@@ -2139,21 +3253,21 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                         <p className="font-bold text-sm text-gray-900">{formatCurrency(item.price * item.quantity)}</p>
                         <div className="flex items-center bg-gray-100 rounded-lg p-1">
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                            onClick={() => updateQuantity(item.cartKey, item.quantity - 1)}
                             className="p-1.5 text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-md transition-colors"
                           >
                             <MinusIcon className="h-4 w-4" />
                           </button>
                           <span className="w-8 text-center text-sm font-medium">{item.quantity}</span>
                           <button
-                            onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                            onClick={() => updateQuantity(item.cartKey, item.quantity + 1)}
                             className="p-1.5 text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-md transition-colors"
                             disabled={item.quantity >= item.stock}
                           >
                             <PlusIcon className="h-4 w-4" />
                           </button>
                           <button
-                            onClick={() => removeFromCart(item.id)}
+                            onClick={() => removeFromCart(item.cartKey)}
                             className="p-1.5 text-red-500 hover:text-red-700 hover:bg-red-100 rounded-md transition-colors ml-1"
                           >
                             <TrashIcon className="h-4 w-4" />
@@ -2222,6 +3336,43 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   )}
                 </div>
 
+                {/* Manual Discount Section */}
+                {cart.length > 0 && (
+                  <div className="mb-4 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-sm font-semibold text-gray-800">Diskon Manual</h4>
+                      <div className="flex rounded-lg border border-gray-300 overflow-hidden text-xs">
+                        {(['PERCENT', 'AMOUNT'] as const).map((type) => (
+                          <button
+                            key={type}
+                            onClick={() => {
+                              setManualDiscountType(type)
+                              setManualDiscountValue('')
+                            }}
+                            className={`px-3 py-1 ${manualDiscountType === type ? 'bg-blue-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-100'}`}
+                          >
+                            {type === 'PERCENT' ? '%' : 'Rp'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      max={manualDiscountType === 'PERCENT' ? 100 : undefined}
+                      value={manualDiscountValue}
+                      onChange={(e) => setManualDiscountValue(e.target.value)}
+                      placeholder={manualDiscountType === 'PERCENT' ? 'Persentase diskon' : 'Nominal diskon'}
+                      className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white"
+                    />
+                    {approvalConfig?.actions.includes('DISCOUNT') && (
+                      <p className={`text-xs mt-2 ${discountNeedsApproval(calculateTotal().manualDiscount, subtotal) ? 'text-amber-700 font-medium' : 'text-gray-500'}`}>
+                        Diskon di atas {approvalConfig.discountPercent}% dari subtotal memerlukan persetujuan manajer
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {/* Payment Method */}
                 {cart.length > 0 && (
                   <div className="mb-4">
@@ -2234,7 +3385,8 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       { value: 'CARD', label: 'Kartu Debit/Kredit', icon: CreditCardIcon },
                       { value: 'QRIS', label: 'QRIS', icon: DevicePhoneMobileIcon },
                       { value: 'BANK_TRANSFER', label: 'Transfer Bank', icon: BuildingLibraryIcon },
-                      { value: 'MIDTRANS', label: 'Midtrans Payment Gateway', icon: CreditCardIcon }
+                      { value: 'MIDTRANS', label: 'Midtrans Payment Gateway', icon: CreditCardIcon },
+                      { value: 'SPLIT', label: 'Bayar Terpisah (beberapa metode)', icon: Squares2X2Icon }
                     ].map(method => {
                       const IconComponent = method.icon
                       return (
@@ -2277,7 +3429,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                     {pointsToUse > 0 && (
                       <div className="flex justify-between text-green-600">
                       <span>Diskon Poin ({pointsToUse} poin):</span>
-                      <span>-{formatCurrency(pointsToUse * 1000)}</span>
+                      <span>-{formatCurrency(calculateTotal().pointsDiscount)}</span>
                     </div>
                   )}
                   {voucherDiscount > 0 && (
@@ -2292,6 +3444,24 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       <span>-{formatCurrency(promotionDiscount)}</span>
                     </div>
                     )}
+                    {calculateTotal().tierDiscount > 0 && (
+                      <div className="flex justify-between text-amber-600">
+                        <span>Diskon Member {activeTier?.name}:</span>
+                        <span>-{formatCurrency(calculateTotal().tierDiscount)}</span>
+                      </div>
+                    )}
+                    {calculateTotal().manualDiscount > 0 && (
+                      <div className="flex justify-between text-orange-600">
+                        <span>Diskon Manual:</span>
+                        <span>-{formatCurrency(calculateTotal().manualDiscount)}</span>
+                      </div>
+                    )}
+                    {calculateTotal().tax > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>{calculateTotal().taxInclusive ? 'PPN (termasuk dalam harga):' : 'PPN:'}</span>
+                        <span>{calculateTotal().taxInclusive ? '' : '+'}{formatCurrency(calculateTotal().tax)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-medium text-lg border-t border-gray-100 pt-3 mt-3">
                       <span className="text-gray-800">Total:</span>
                       <span className="text-blue-600 font-semibold">{formatCurrency(total)}</span>
@@ -2314,6 +3484,8 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   onClick={() => {
                     if (paymentMethod === 'CASH') {
                       setShowCashPaymentModal(true)
+                    } else if (paymentMethod === 'SPLIT') {
+                      setShowSplitPaymentModal(true)
                     } else {
                       processPayment()
                     }
@@ -2339,6 +3511,106 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
       </div>
 
       {/* Transaction Success Modal */}
+      {/* Variant Picker Modal */}
+      {variantPickerProduct && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{variantPickerProduct.name}</h3>
+                <p className="text-sm text-gray-500">Pilih ukuran dan warna</p>
+              </div>
+              <button onClick={() => setVariantPickerProduct(null)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-5">
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Ukuran</p>
+                <div className="flex flex-wrap gap-2">
+                  {Array.from(new Set(getActiveVariants(variantPickerProduct).map(v => v.size))).map(size => {
+                    const available = getActiveVariants(variantPickerProduct).some(v => v.size === size && v.stock > 0)
+                    return (
+                      <button
+                        key={size}
+                        onClick={() => setPickerSize(size)}
+                        className={`px-3 py-1.5 rounded-lg border text-sm font-medium ${
+                          pickerSize === size
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : available
+                              ? 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                              : 'bg-gray-50 border-gray-200 text-gray-400 line-through'
+                        }`}
+                      >
+                        {size}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Warna</p>
+                <div className="flex flex-wrap gap-2">
+                  {Array.from(new Set(getActiveVariants(variantPickerProduct).map(v => v.color))).map(color => {
+                    const match = getActiveVariants(variantPickerProduct).find(v => v.size === pickerSize && v.color === color)
+                    return (
+                      <button
+                        key={color}
+                        onClick={() => setPickerColor(color)}
+                        disabled={!match}
+                        className={`px-3 py-1.5 rounded-lg border text-sm font-medium ${
+                          pickerColor === color
+                            ? 'bg-blue-600 border-blue-600 text-white'
+                            : match && match.stock > 0
+                              ? 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                              : 'bg-gray-50 border-gray-200 text-gray-400 line-through'
+                        } disabled:cursor-not-allowed`}
+                      >
+                        {color}
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 text-sm">
+                {selectedPickerVariant ? (
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{formatCurrency(selectedPickerVariant.price ?? variantPickerProduct.price)}</p>
+                      {selectedPickerVariant.productCode && <p className="text-xs text-gray-500">{selectedPickerVariant.productCode}</p>}
+                    </div>
+                    <span className={`text-xs px-2 py-1 rounded-full ${selectedPickerVariant.stock > 0 ? 'bg-green-100 text-green-600' : 'bg-red-100 text-red-600'}`}>
+                      {selectedPickerVariant.stock > 0 ? `${selectedPickerVariant.stock} stok` : 'Habis'}
+                    </span>
+                  </div>
+                ) : (
+                  <p className="text-gray-500">Kombinasi ukuran dan warna tidak tersedia</p>
+                )}
+              </div>
+            </div>
+            <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+              <button
+                onClick={() => setVariantPickerProduct(null)}
+                className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+              >
+                Batal
+              </button>
+              <button
+                onClick={() => {
+                  if (!selectedPickerVariant) return
+                  addToCart(variantPickerProduct, selectedPickerVariant)
+                  setVariantPickerProduct(null)
+                }}
+                disabled={!selectedPickerVariant || selectedPickerVariant.stock <= 0}
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Tambah ke Keranjang
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showTransactionModal && completedTransaction && (
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-11/12 md:w-3/4 lg:w-1/2 shadow-lg rounded-md bg-white">
@@ -2370,6 +3642,9 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       <h4 className="text-sm font-medium text-green-800">
                         Transaksi ID: {completedTransaction.id}
                       </h4>
+                      {completedTransaction.offline && (
+                        <p className="text-xs text-yellow-700">Disimpan offline • menunggu sinkronisasi</p>
+                      )}
                       <p className="text-sm text-green-700">
                         {completedTransaction.createdAt.toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })}
                       </p>
@@ -2397,9 +3672,25 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                        completedTransaction.paymentMethod === 'QRIS' ? 'QRIS' :
                        completedTransaction.paymentMethod === 'BANK_TRANSFER' ? 'Transfer Bank' :
                        completedTransaction.paymentMethod === 'MIDTRANS' ? 'Midtrans Payment Gateway' :
+                       completedTransaction.paymentMethod === 'SPLIT' ? 'Bayar Terpisah' :
                        'Metode Lain'}
                     </p>
                   </div>
+                  {/* Split Payment Details */}
+                  {completedTransaction.payments && completedTransaction.payments.length > 0 && (
+                    <div className="col-span-2">
+                      <p className="text-sm font-medium text-gray-500">Rincian Pembayaran</p>
+                      {completedTransaction.payments.map((tender: Tender, index: number) => (
+                        <p key={index} className="text-sm text-gray-900">
+                          {TENDER_LABELS[tender.method]}: {formatCurrency(tender.amount)}
+                          {tender.reference ? ` (Ref: ${tender.reference})` : ''}
+                        </p>
+                      ))}
+                      {changeAmount > 0 && (
+                        <p className="text-sm text-gray-900">Kembalian: {formatCurrency(changeAmount)}</p>
+                      )}
+                    </div>
+                  )}
                   {/* Cash Payment Details */}
                   {completedTransaction.paymentMethod === 'CASH' && cashAmount > 0 && (
                     <>
@@ -2438,7 +3729,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                       </thead>
                       <tbody className="bg-white divide-y divide-gray-200">
                         {completedTransaction.items.map((item: CartItem) => (
-                          <tr key={item.id}>
+                          <tr key={item.cartKey || item.id}>
                             <td className="px-4 py-2 text-sm text-gray-900 line-clamp-2 break-words">
                               {item.name}
                               {item.productCode && (
@@ -2478,7 +3769,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                     {(completedTransaction.pointsUsed ?? 0) > 0 && (
                       <div className="flex justify-between text-green-600">
                         <span className="text-sm text-gray-600">Diskon Poin ({completedTransaction.pointsUsed} poin):</span>
-                        <span className="text-sm text-gray-900">-{formatCurrency((completedTransaction.pointsUsed ?? 0) * 1000)}</span>
+                        <span className="text-sm text-gray-900">-{formatCurrency(completedTransaction.pointsDiscount ?? 0)}</span>
                       </div>
                     )}
                     {completedTransaction.voucherCode && (completedTransaction.voucherDiscount ?? 0) > 0 && (
@@ -2497,6 +3788,24 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                         ))}
                       </div>
                     )}
+                    {(completedTransaction.tierDiscount ?? 0) > 0 && (
+                      <div className="flex justify-between text-amber-600">
+                        <span className="text-sm text-gray-600">Diskon Member:</span>
+                        <span className="text-sm text-gray-900">-{formatCurrency(completedTransaction.tierDiscount ?? 0)}</span>
+                      </div>
+                    )}
+                    {(completedTransaction.discount ?? 0) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">Diskon Manual:</span>
+                        <span className="text-sm text-gray-900">-{formatCurrency(completedTransaction.discount ?? 0)}</span>
+                      </div>
+                    )}
+                    {(completedTransaction.tax ?? 0) > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-gray-600">{completedTransaction.taxInclusive ? 'PPN (termasuk dalam harga):' : 'PPN:'}</span>
+                        <span className="text-sm text-gray-900">{formatCurrency(completedTransaction.tax ?? 0)}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between font-medium text-lg border-t pt-2">
                       <span className="text-gray-900">Total:</span>
                       <span className="text-green-600">
@@ -2516,6 +3825,52 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
 
 
 
+                {/* Kirim struk; transaksi offline belum ada di server */}
+                {!completedTransaction.offline && (
+                  <div className="border-t pt-4">
+                    <h4 className="text-sm font-medium text-gray-900 mb-2">Kirim Struk</h4>
+                    <div className="flex gap-2 mb-3">
+                      {([
+                        { channel: 'WHATSAPP', label: 'WhatsApp', Icon: ChatBubbleLeftRightIcon },
+                        { channel: 'EMAIL', label: 'Email', Icon: EnvelopeIcon },
+                      ] as const).map(({ channel, label, Icon }) => (
+                        <button
+                          key={channel}
+                          type="button"
+                          onClick={() => chooseReceiptChannel(channel)}
+                          className={`flex items-center px-3 py-1.5 rounded-lg border text-sm font-medium ${
+                            receiptChannel === channel
+                              ? 'bg-blue-600 border-blue-600 text-white'
+                              : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                          }`}
+                        >
+                          <Icon className="h-4 w-4 mr-1.5" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-2">
+                      <input
+                        type={receiptChannel === 'EMAIL' ? 'email' : 'tel'}
+                        value={receiptTarget}
+                        onChange={(e) => setReceiptTarget(e.target.value)}
+                        placeholder={receiptChannel === 'EMAIL' ? 'nama@email.com' : '08xxxxxxxxxx'}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                      />
+                      <button
+                        onClick={sendReceipt}
+                        disabled={sendingReceipt || !receiptTarget.trim()}
+                        className="bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                      >
+                        {sendingReceipt ? 'Mengirim...' : 'Kirim'}
+                      </button>
+                    </div>
+                    {receiptChannel === 'EMAIL' && (
+                      <p className="mt-1 text-xs text-gray-500">Struk dikirim dalam format email beserta lampiran PDF.</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Actions */}
                 <div className="flex justify-end space-x-3 pt-4">
                   <button
@@ -2643,60 +3998,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
                   Cetak Instruksi
                 </button>
                 <button
-                  onClick={async () => {
-                    if (confirmingBankTransfer) return
-                    setConfirmingBankTransfer(true)
-                    try {
-                      // Panggil API konfirmasi BANK_TRANSFER yang sekaligus mengurangi stok
-                      const response = await apiFetch('/api/v1/payments/bank-transfer/confirm', {
-                        method: 'POST',
-                        body: JSON.stringify({ transactionId: bankTransferTransaction.id })
-                      })
-
-                      if (response.ok) {
-                        toast.success('Pembayaran berhasil dikonfirmasi!')
-                        // Tampilkan modal sukses transaksi
-                        setCompletedTransaction({ ...bankTransferTransaction })
-                        setShowTransactionModal(true)
-                        setShowBankTransferModal(false)
-                        // Kirim struk WhatsApp jika nomor pelanggan tersedia
-                        if (customerPhone) {
-                          try {
-                            await apiFetch('/api/v1/whatsapp/send-receipt', {
-                              method: 'POST',
-                              headers: { 'Content-Type': 'application/json' },
-                              body: JSON.stringify({ transactionId: bankTransferTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
-                            })
-                            toast.success('Struk WhatsApp terkirim')
-                          } catch (err) {
-                            console.error('Gagal mengirim struk WhatsApp:', err)
-                            toast.error('Gagal mengirim struk WhatsApp')
-                          }
-                        }
-                        // Clear cart dan reset form
-                        clearCart()
-                        setCustomerName('')
-                        setCustomerPhone('')
-                        setCustomerEmail('')
-                        setMember(null)
-                        setPointsToUse(0)
-                        setVoucherCode('')
-                        setAppliedVoucher(null)
-                        setVoucherDiscount(0)
-                        setAppliedPromotions([])
-                        setPromotionDiscount(0)
-                        setBankTransferTransaction(null)
-                      } else {
-                        const errorData = await response.json().catch(() => ({}))
-                        toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran')
-                      }
-                    } catch (error) {
-                      console.error('Error confirming payment:', error)
-                      toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran')
-                    } finally {
-                      setConfirmingBankTransfer(false)
-                    }
-                  }}
+                  onClick={() => confirmBankTransferPayment()}
                   disabled={confirmingBankTransfer}
                 className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
                 >
@@ -2761,57 +4063,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
 
             <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
               <button
-                onClick={async () => {
-                  if (confirmingQris) return
-                  setConfirmingQris(true)
-                  try {
-                    const response = await apiFetch('/api/v1/payments/qris/confirm', {
-                      method: 'POST',
-                      body: JSON.stringify({ transactionId: qrisTransaction.id })
-                    })
-                    if (response.ok) {
-                      toast.success('Pembayaran QRIS berhasil dikonfirmasi!')
-                      // Tampilkan modal sukses transaksi
-                      setCompletedTransaction({ ...qrisTransaction })
-                      setShowTransactionModal(true)
-                      setShowQrisModal(false)
-                      // Kirim struk WhatsApp jika nomor pelanggan tersedia
-                      if (customerPhone) {
-                        try {
-                          await apiFetch('/api/v1/whatsapp/send-receipt', {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ transactionId: qrisTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
-                          })
-                          toast.success('Struk WhatsApp terkirim')
-                        } catch (err) {
-                          console.error('Gagal mengirim struk WhatsApp:', err)
-                          toast.error('Gagal mengirim struk WhatsApp')
-                        }
-                      }
-                      clearCart()
-                      setCustomerName('')
-                      setCustomerPhone('')
-                      setCustomerEmail('')
-                      setMember(null)
-                      setPointsToUse(0)
-                      setVoucherCode('')
-                      setAppliedVoucher(null)
-                      setVoucherDiscount(0)
-                      setAppliedPromotions([])
-                      setPromotionDiscount(0)
-                      setQrisTransaction(null)
-                    } else {
-                      const errorData = await response.json().catch(() => ({}))
-                      toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran QRIS')
-                    }
-                  } catch (error) {
-                    console.error('Error confirming QRIS payment:', error)
-                    toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran QRIS')
-                  } finally {
-                    setConfirmingQris(false)
-                  }
-                }}
+                onClick={() => confirmQrisPayment()}
                 disabled={confirmingQris}
                 className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
               >
@@ -2867,57 +4119,7 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
 
             <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
               <button
-                onClick={async () => {
-                  if (confirmingCard) return
-                  setConfirmingCard(true)
-                  try {
-                    const response = await apiFetch('/api/v1/payments/card/confirm', {
-                      method: 'POST',
-                      body: JSON.stringify({ transactionId: cardTransaction.id })
-                    })
-                    if (response.ok) {
-                      toast.success('Pembayaran Kartu berhasil dikonfirmasi!')
-                      // Tampilkan modal sukses transaksi
-                      setCompletedTransaction({ ...cardTransaction })
-                      setShowTransactionModal(true)
-                      setShowCardModal(false)
-                      // Kirim struk WhatsApp jika nomor pelanggan tersedia
-                      if (customerPhone) {
-                        try {
-                          await apiFetch('/api/v1/whatsapp/send-receipt', {
-                            method: 'POST',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({ transactionId: cardTransaction.id, phoneNumber: customerPhone, receiptType: 'detailed' })
-                          })
-                          toast.success('Struk WhatsApp terkirim')
-                        } catch (err) {
-                          console.error('Gagal mengirim struk WhatsApp:', err)
-                          toast.error('Gagal mengirim struk WhatsApp')
-                        }
-                      }
-                      clearCart()
-                      setCustomerName('')
-                      setCustomerPhone('')
-                      setCustomerEmail('')
-                      setMember(null)
-                      setPointsToUse(0)
-                      setVoucherCode('')
-                      setAppliedVoucher(null)
-                      setVoucherDiscount(0)
-                      setAppliedPromotions([])
-                      setPromotionDiscount(0)
-                      setCardTransaction(null)
-                    } else {
-                      const errorData = await response.json().catch(() => ({}))
-                      toast.error(errorData.message || errorData.error || 'Gagal mengkonfirmasi pembayaran Kartu')
-                    }
-                  } catch (error) {
-                    console.error('Error confirming CARD payment:', error)
-                    toast.error('Terjadi kesalahan saat mengkonfirmasi pembayaran Kartu')
-                  } finally {
-                    setConfirmingCard(false)
-                  }
-                }}
+                onClick={() => confirmCardPayment()}
                 disabled={confirmingCard}
                 className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
               >
@@ -2935,6 +4137,20 @@ ${item.quantity} x ${formatCurrency(item.price)} = ${formatCurrency(item.price *
         </div>
       )}
 
+      {/* Split Payment Modal */}
+      {showSplitPaymentModal && (
+        <SplitPaymentModal
+          total={total}
+          processing={isProcessing}
+          onClose={() => setShowSplitPaymentModal(false)}
+          onConfirm={(tenders, change) => {
+            setShowSplitPaymentModal(false)
+            setChangeAmount(change)
+            processPayment(tenders)
+          }}
+        />
+      )}
+
       {/* Cash Payment Modal */}
       {showCashPaymentModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
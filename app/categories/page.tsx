@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import {
@@ -40,9 +41,9 @@ export default function CategoriesPage() {
       router.push('/login')
       return
     }
-    if (user.role !== 'ADMIN') {
+    if (!hasPermission(user.role, 'categories:write')) {
       router.push('/dashboard')
-      toast.error('Hanya admin yang dapat mengakses halaman ini')
+      toast.error('Hanya admin atau manajer yang dapat mengakses halaman ini')
       return
     }
   }, [authLoading, user, router])
@@ -109,7 +110,7 @@ export default function CategoriesPage() {
       }
     }
     
-    if (user && user.role === 'ADMIN') {
+    if (user && hasPermission(user.role, 'categories:write')) {
       fetchCategories()
     }
   }, [user])
@@ -2,10 +2,11 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { canAccessPage, hasPermission } from '@/lib/permissions'
 import Link from 'next/link'
 import useSWR from 'swr'
 import Navbar from '@/components/Navbar'
-import { apiSWRFetcher, apiFetch } from '@/lib/api'
+import { apiSWRFetcher } from '@/lib/api'
 import {
   ShoppingCartIcon,
   CubeIcon,
@@ -17,7 +18,7 @@ import {
   UserGroupIcon,
   TicketIcon,
   ReceiptPercentIcon,
-  TrashIcon,
+  ArchiveBoxIcon,
 } from '@heroicons/react/24/outline'
 import toast from 'react-hot-toast'
 
@@ -68,32 +69,6 @@ export default function DashboardPage() {
     toast.success('Memperbarui data dashboard...')
   }
   
-  // Function to reset transaction data
-  const resetTransactionData = async () => {
-    try {
-      setStatsLoading(true)
-      const response = await apiFetch('/api/v1/dashboard/reset', { method: 'POST' })
-      
-      if (response.ok) {
-        toast.success('Data transaksi berhasil direset')
-        // Force revalidation of the SWR cache
-        await mutate({ 
-          revalidate: true, 
-          populateCache: true,
-          rollbackOnError: false
-        })
-      } else {
-        const error = await response.json().catch(() => ({}))
-        toast.error((error && (error.error || error.message)) || 'Gagal mereset data transaksi')
-      }
-    } catch (error) {
-      console.error('Error resetting transaction data:', error)
-      toast.error('Gagal mereset data transaksi')
-    } finally {
-      setStatsLoading(false)
-    }
-  }
-
   // Update stats when data is available
   useEffect(() => {
     if (dashboardData) {
@@ -132,80 +107,70 @@ export default function DashboardPage() {
       description: 'Proses transaksi penjualan',
       icon: ShoppingCartIcon,
       href: '/cashier',
-      color: 'bg-blue-500',
-      roles: ['ADMIN', 'CASHIER']
+      color: 'bg-blue-500'
     },
     {
       title: 'Produk',
       description: 'Kelola menu dan produk',
       icon: CubeIcon,
       href: '/products',
-      color: 'bg-green-500',
-      roles: ['ADMIN', 'CASHIER']
+      color: 'bg-green-500'
     },
     {
       title: 'Kategori',
       description: 'Kelola kategori produk',
       icon: TagIcon,
       href: '/categories',
-      color: 'bg-purple-500',
-      roles: ['ADMIN']
+      color: 'bg-purple-500'
     },
     {
       title: 'Laporan',
       description: 'Lihat laporan penjualan',
       icon: ChartBarIcon,
       href: '/reports',
-      color: 'bg-yellow-500',
-      roles: ['ADMIN', 'CASHIER']
+      color: 'bg-yellow-500'
     },
     {
       title: 'Transaksi',
       description: 'Riwayat transaksi',
       icon: ClipboardDocumentListIcon,
       href: '/transactions',
-      color: 'bg-red-500',
-      roles: ['ADMIN', 'CASHIER']
+      color: 'bg-red-500'
     },
     {
       title: 'Biaya Operasional',
       description: 'Kelola biaya operasional',
       icon: BanknotesIcon,
       href: '/operational-expenses',
-      color: 'bg-amber-500',
-      roles: ['ADMIN']
+      color: 'bg-amber-500'
     },
     {
       title: 'Pengguna',
       description: 'Kelola pengguna sistem',
       icon: UsersIcon,
       href: '/users',
-      color: 'bg-indigo-500',
-      roles: ['ADMIN']
+      color: 'bg-indigo-500'
     },
     {
       title: 'Member',
       description: 'Kelola data member',
       icon: UserGroupIcon,
       href: '/members',
-      color: 'bg-teal-500',
-      roles: ['ADMIN']
+      color: 'bg-teal-500'
     },
     {
       title: 'Voucher',
       description: 'Kelola voucher dan kupon',
       icon: TicketIcon,
       href: '/vouchers',
-      color: 'bg-orange-500',
-      roles: ['ADMIN']
+      color: 'bg-orange-500'
     },
     {
       title: 'Promosi',
       description: 'Kelola diskon dan promosi',
       icon: ReceiptPercentIcon,
       href: '/promotions',
-      color: 'bg-pink-500',
-      roles: ['ADMIN']
+      color: 'bg-pink-500'
     },
   ]
 
@@ -224,11 +189,9 @@ export default function DashboardPage() {
     )
   }
 
-  // Pastikan userRole bertipe string, bukan null, agar aman untuk Array.includes
   const userRole = user.role ?? 'CASHIER'
-  const filteredMenuItems = menuItems.filter(item => 
-    item.roles.includes(userRole)
-  )
+  // Menu mengikuti izin halaman di lib/permissions.js
+  const filteredMenuItems = menuItems.filter(item => canAccessPage(userRole, item.href))
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -241,7 +204,7 @@ export default function DashboardPage() {
             Selamat datang, {user?.name ?? 'Pengguna'}!
           </h1>
           <p className="text-gray-600 mt-2">
-            Dashboard POS System - {userRole === 'ADMIN' ? 'Administrator' : 'Kasir'}
+            Dashboard POS System - {userRole === 'ADMIN' ? 'Administrator' : userRole === 'MANAGER' ? 'Manajer' : 'Kasir'}
           </p>
         </div>
 
@@ -462,7 +425,7 @@ export default function DashboardPage() {
             >
               Mulai Transaksi
             </Link>
-            {userRole === 'ADMIN' && (
+            {hasPermission(userRole, 'products:write') && (
               <Link
                 href="/products/new"
                 className="bg-green-600 hover:bg-green-700 text-white px-6 py-3 rounded-lg font-medium transition-colors"
@@ -482,24 +445,14 @@ export default function DashboardPage() {
             >
               Refresh Data
             </button>
-            {userRole === 'ADMIN' && (
-              <button
-                onClick={resetTransactionData}
-                className="bg-red-600 hover:bg-red-700 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center"
-                disabled={statsLoading}
+            {hasPermission(userRole, 'archives:manage') && (
+              <Link
+                href="/admin/archives"
+                className="bg-amber-600 hover:bg-amber-700 text-white px-6 py-3 rounded-lg font-medium transition-colors flex items-center"
               >
-                {statsLoading ? (
-                  <>
-                    <div className="animate-spin h-5 w-5 mr-2 border-t-2 border-white rounded-full" />
-                    Memuat...
-                  </>
-                ) : (
-                  <>
-                    <TrashIcon className="h-5 w-5 mr-2" />
-                    Reset Transaksi
-                  </>
-                )}
-              </button>
+                <ArchiveBoxIcon className="h-5 w-5 mr-2" />
+                Arsip Periode
+              </Link>
             )}
           </div>
         </div>
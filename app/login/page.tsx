@@ -2,6 +2,7 @@
 
 import { useState } from "react"
 import { login } from "@/lib/auth-client"
+import { homePathFor } from "@/lib/permissions"
 import { useRouter } from "next/navigation"
 import { EyeIcon, EyeSlashIcon } from "@heroicons/react/24/outline"
 import toast from "react-hot-toast"
@@ -20,14 +21,7 @@ export default function LoginPage() {
     try {
       const result = await login(email, password)
       toast.success("Login berhasil!")
-      const role = result?.user?.role
-      if (role === "ADMIN") {
-        router.push("/dashboard")
-      } else if (role === "CASHIER") {
-        router.push("/cashier")
-      } else {
-        router.push("/dashboard")
-      }
+      router.push(homePathFor(result?.user?.role))
     } catch (error) {
       toast.error("Terjadi kesalahan saat login")
     } finally {
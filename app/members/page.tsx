@@ -2,9 +2,12 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
-import { ArrowLeftIcon, MagnifyingGlassIcon, PlusIcon, PencilIcon, TrashIcon, Squares2X2Icon, TableCellsIcon, FunnelIcon, ChartBarIcon } from '@heroicons/react/24/outline'
+import { ArrowLeftIcon, MagnifyingGlassIcon, PlusIcon, PencilIcon, TrashIcon, Squares2X2Icon, TableCellsIcon, FunnelIcon, ChartBarIcon, TrophyIcon, ClockIcon } from '@heroicons/react/24/outline'
 import Navbar from '@/components/Navbar'
 import { apiJson } from '@/lib/api'
+import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
+import { MemberSegment, downloadSegmentCsv } from '@/lib/memberSegments'
 import toast from 'react-hot-toast'
 
 interface Member {
@@ -12,23 +15,94 @@ interface Member {
   name: string
   phone?: string
   email?: string
+  birthDate?: string | null
   points: number
   totalSpent: number
   transactionCount: number
   createdAt: string
   lastVisit?: string
   isActive: boolean
+  marketingOptOut: boolean
+  tier?: TierBadge | null
+  segments: TierBadge[]
+}
+
+interface TierBadge {
+  id: number
+  name: string
+  color?: string | null
+}
+
+interface TierHistoryEntry {
+  id: number
+  fromTier: TierBadge | null
+  toTier: TierBadge | null
+  rollingSpend: number
+  reason: 'TRANSACTION' | 'NIGHTLY' | 'RECALCULATE'
+  createdAt: string
+}
+
+interface TierHistory {
+  tier: TierBadge | null
+  rollingSpend: number
+  history: TierHistoryEntry[]
+}
+
+interface PointsExpiry {
+  points: number
+  expiryMonths: number | null
+  withinDays: number
+  lots: { id: number, points: number, earnedAt: string, expiresAt: string | null }[]
+  expiringSoon: { points: number, firstExpiresAt: string | null }
+}
+
+const TIER_REASON_LABELS: Record<TierHistoryEntry['reason'], string> = {
+  TRANSACTION: 'Transaksi',
+  NIGHTLY: 'Perhitungan malam',
+  RECALCULATE: 'Hitung ulang admin',
+}
+
+function TierPill({ tier }: { tier?: TierBadge | null }) {
+  if (!tier) return <span className="text-xs text-gray-400">Tanpa tier</span>
+  return (
+    <span
+      className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold text-white"
+      style={{ backgroundColor: tier.color || '#6b7280' }}
+    >
+      {tier.name}
+    </span>
+  )
+}
+
+function SegmentPills({ segments }: { segments: TierBadge[] }) {
+  if (segments.length === 0) return null
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {segments.map((segment) => (
+        <span
+          key={segment.id}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-medium border"
+          style={{ borderColor: segment.color || '#9ca3af', color: segment.color || '#4b5563' }}
+        >
+          {segment.name}
+        </span>
+      ))}
+    </div>
+  )
 }
 
 interface MemberFormData {
   name: string
   phone: string
   email: string
+  birthDate: string
+  marketingOptOut: boolean
   points: number
 }
 
 export default function MembersPage() {
   const router = useRouter()
+  const { user } = useAuth()
   const [members, setMembers] = useState<Member[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
@@ -42,14 +116,26 @@ export default function MembersPage() {
   const [sortBy, setSortBy] = useState<'name' | 'points' | 'totalSpent' | 'createdAt'>('name')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
   const [filterBy, setFilterBy] = useState<'all' | 'active' | 'inactive'>('all')
+  const [segments, setSegments] = useState<MemberSegment[]>([])
+  const [segmentId, setSegmentId] = useState('')
+  const [tierHistoryMember, setTierHistoryMember] = useState<Member | null>(null)
+  const [tierHistory, setTierHistory] = useState<TierHistory | null>(null)
+  const [expiryMember, setExpiryMember] = useState<Member | null>(null)
+  const [pointsExpiry, setPointsExpiry] = useState<PointsExpiry | null>(null)
   
   const [formData, setFormData] = useState<MemberFormData>({
     name: '',
     phone: '',
     email: '',
+    birthDate: '',
+    marketingOptOut: false,
     points: 0
   })
 
+  // Tanggal lahir tanpa tahun, mis. "15 Maret"
+  const formatBirthday = (day: string) =>
+    new Date(`${day}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'long' })
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -57,6 +143,30 @@ export default function MembersPage() {
     }).format(amount)
   }
 
+  const openTierHistory = async (member: Member) => {
+    setTierHistoryMember(member)
+    setTierHistory(null)
+    try {
+      setTierHistory(await apiJson<TierHistory>(`/api/v1/members/${encodeURIComponent(member.id)}/tier-history`))
+    } catch (err) {
+      console.error('Error fetching tier history:', err)
+      toast.error('Gagal memuat riwayat tier')
+      setTierHistoryMember(null)
+    }
+  }
+
+  const openPointsExpiry = async (member: Member) => {
+    setExpiryMember(member)
+    setPointsExpiry(null)
+    try {
+      setPointsExpiry(await apiJson<PointsExpiry>(`/api/v1/members/${encodeURIComponent(member.id)}/points-expiry?days=30`))
+    } catch (err) {
+      console.error('Error fetching points expiry:', err)
+      toast.error('Gagal memuat masa berlaku poin')
+      setExpiryMember(null)
+    }
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('id-ID', {
       year: 'numeric',
@@ -123,6 +233,8 @@ export default function MembersPage() {
       if (searchTerm && searchTerm.trim()) {
         const q = encodeURIComponent(searchTerm.trim())
         data = await apiJson<{ count: number, members: any[] }>(`/api/v1/members/search?q=${q}&limit=50&includeInactive=true`)
+      } else if (segmentId) {
+        data = await apiJson<{ count: number, members: any[] }>(`/api/v1/members?includeInactive=true&segmentId=${encodeURIComponent(segmentId)}`)
       } else {
         data = await apiJson<{ count: number, members: any[] }>(`/api/v1/members?includeInactive=true`)
       }
@@ -137,12 +249,16 @@ export default function MembersPage() {
           name: member.name || 'Unnamed Member',
           phone: member.phone || '',
           email: member.email || '',
+          birthDate: member.birthDate || null,
           points: typeof member.points === 'number' ? member.points : parseInt(String(member.points ?? '0'), 10),
           totalSpent: typeof member.totalSpent === 'number' ? member.totalSpent : parseFloat(String(member.totalSpent ?? '0')),
           transactionCount: typeof member.transactionCount === 'number' ? member.transactionCount : 0,
           createdAt: member.createdAt || new Date().toISOString(),
           lastVisit: member.lastVisit || null,
-          isActive: typeof member.isActive === 'boolean' ? member.isActive : true
+          isActive: typeof member.isActive === 'boolean' ? member.isActive : true,
+          marketingOptOut: Boolean(member.marketingOptOut),
+          tier: member.tier?.isActive ? member.tier : null,
+          segments: Array.isArray(member.segments) ? member.segments : []
         }))
         
         setMembers(validatedMembers)
@@ -162,12 +278,33 @@ export default function MembersPage() {
     } finally {
       setLoading(false)
     }
-  }, [currentPage, searchTerm])
+  }, [currentPage, searchTerm, segmentId])
 
   useEffect(() => {
     fetchMembers()
   }, [fetchMembers])
 
+  // Tautan "Anggota" dari halaman segmen membuka /members?segment=ID
+  useEffect(() => {
+    const initial = new URLSearchParams(window.location.search).get('segment')
+    if (initial) setSegmentId(initial)
+    apiJson<{ segments: MemberSegment[] }>('/api/v1/member-segments')
+      .then((data) => setSegments(data.segments || []))
+      .catch((err) => console.error('Error fetching member segments:', err))
+  }, [])
+
+  const selectedSegment = segments.find((s) => String(s.id) === segmentId)
+
+  const exportSegment = async () => {
+    if (!selectedSegment) return
+    try {
+      await downloadSegmentCsv(selectedSegment)
+    } catch (err) {
+      console.error('Error exporting segment:', err)
+      toast.error(err instanceof Error ? err.message : 'Gagal mengunduh CSV segmen')
+    }
+  }
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
     setCurrentPage(1)
@@ -190,6 +327,8 @@ export default function MembersPage() {
           name: member.name,
           phone: member.phone || '',
           email: member.email || '',
+          birthDate: member.birthDate || '',
+          marketingOptOut: member.marketingOptOut,
           points: member.points
         })
       } else {
@@ -199,6 +338,8 @@ export default function MembersPage() {
           name: '',
           phone: '',
           email: '',
+          birthDate: '',
+          marketingOptOut: false,
           points: 0
         })
       }
@@ -243,11 +384,15 @@ export default function MembersPage() {
             name: formData.name.trim(),
             phone: formData.phone || null,
             email: formData.email || null,
+            birthDate: formData.birthDate || null,
+            marketingOptOut: formData.marketingOptOut,
           }
         : { 
             name: formData.name.trim(),
             phone: formData.phone || null,
-            email: formData.email || null
+            email: formData.email || null,
+            birthDate: formData.birthDate || null,
+            marketingOptOut: formData.marketingOptOut
           }
       
       console.log('Sending request with body:', body)
@@ -405,6 +550,28 @@ export default function MembersPage() {
               <option value="active">Member Aktif</option>
               <option value="inactive">Member Tidak Aktif</option>
             </select>
+
+            {segments.length > 0 && (
+              <select
+                value={segmentId}
+                onChange={(e) => setSegmentId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Semua Segmen</option>
+                {segments.filter((s) => s.isActive).map((s) => (
+                  <option key={s.id} value={s.id}>{s.name} ({s.memberCount})</option>
+                ))}
+              </select>
+            )}
+
+            {selectedSegment && hasPermission(user?.role, 'segments:manage') && (
+              <button
+                onClick={exportSegment}
+                className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors text-sm whitespace-nowrap"
+              >
+                Export CSV
+              </button>
+            )}
             
             <select
               value={sortBy}
@@ -489,6 +656,7 @@ export default function MembersPage() {
                       <tr>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Kontak</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tier</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Poin</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Belanja</th>
                         <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Transaksi</th>
@@ -512,8 +680,14 @@ export default function MembersPage() {
                             <div className="text-xs sm:text-sm text-gray-900">
                               {member.phone && <div className="truncate max-w-[180px] sm:max-w-none break-words">{member.phone}</div>}
                               {member.email && <div className="text-gray-500 truncate max-w-[180px] sm:max-w-none break-words">{member.email}</div>}
+                              {member.birthDate && <div className="text-gray-500">Ulang tahun {formatBirthday(member.birthDate)}</div>}
+                              {member.marketingOptOut && <div className="text-xs text-gray-400">Tanpa promo WhatsApp</div>}
                             </div>
                           </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <TierPill tier={member.tier} />
+                            <SegmentPills segments={member.segments} />
+                          </td>
                           <td className="px-6 py-4 whitespace-nowrap">
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                               {member.points} poin
@@ -540,6 +714,20 @@ export default function MembersPage() {
                           </td>
                           <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                             <div className="flex space-x-2">
+                              <button
+                                onClick={() => openPointsExpiry(member)}
+                                className="text-green-600 hover:text-green-900"
+                                title="Masa berlaku poin"
+                              >
+                                <ClockIcon className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => openTierHistory(member)}
+                                className="text-amber-600 hover:text-amber-900"
+                                title="Riwayat tier"
+                              >
+                                <TrophyIcon className="w-4 h-4" />
+                              </button>
                               <button
                                 onClick={() => openModal(member)}
                                 className="text-blue-600 hover:text-blue-900"
@@ -571,6 +759,20 @@ export default function MembersPage() {
                           )}
                         </div>
                         <div className="flex space-x-2">
+                          <button
+                            onClick={() => openPointsExpiry(member)}
+                            className="text-green-600 hover:text-green-900"
+                            title="Masa berlaku poin"
+                          >
+                            <ClockIcon className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => openTierHistory(member)}
+                            className="text-amber-600 hover:text-amber-900"
+                            title="Riwayat tier"
+                          >
+                            <TrophyIcon className="w-4 h-4" />
+                          </button>
                           <button
                             onClick={() => openModal(member)}
                             className="text-blue-600 hover:text-blue-900"
@@ -587,19 +789,25 @@ export default function MembersPage() {
                       </div>
                       
                       <div className="space-y-2">
-                        {(member.phone || member.email) && (
+                        {(member.phone || member.email || member.birthDate) && (
                           <div>
                             {member.phone && <p className="text-sm text-gray-900">{member.phone}</p>}
                             {member.email && <p className="text-sm text-gray-600">{member.email}</p>}
+                            {member.birthDate && <p className="text-sm text-gray-600">Ulang tahun {formatBirthday(member.birthDate)}</p>}
+                            {member.marketingOptOut && <p className="text-xs text-gray-400">Tanpa promo WhatsApp</p>}
                           </div>
                         )}
                         
                         <div className="flex items-center justify-between">
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            {member.points} poin
+                          <span className="flex items-center gap-2">
+                            <TierPill tier={member.tier} />
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              {member.points} poin
+                            </span>
                           </span>
                           <span className="text-sm text-gray-900">{formatCurrency(member.totalSpent)}</span>
                         </div>
+                        <SegmentPills segments={member.segments} />
                         
                         <div className="flex items-center justify-between text-sm text-gray-500">
                           <span>{member.transactionCount} transaksi</span>
@@ -745,6 +953,33 @@ export default function MembersPage() {
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Tanggal Lahir
+                  </label>
+                  <input
+                    type="date"
+                    value={formData.birthDate}
+                    max={new Date().toISOString().slice(0, 10)}
+                    onChange={(e) => setFormData({ ...formData, birthDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <p className="mt-1 text-xs text-gray-500">Opsional. Member menerima voucher ulang tahun lewat WhatsApp.</p>
+                </div>
+
+                <label className="flex items-start gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.marketingOptOut}
+                    onChange={(e) => setFormData({ ...formData, marketingOptOut: e.target.checked })}
+                    className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  <span>
+                    Tidak mau menerima promo WhatsApp
+                    <span className="block text-xs text-gray-500">Struk dan voucher ulang tahun tetap dikirim.</span>
+                  </span>
+                </label>
                 
                 {editingMember && (
                   <div>
@@ -781,6 +1016,103 @@ export default function MembersPage() {
           </div>
         </div>
       )}
+
+      {/* Masa berlaku poin */}
+      {expiryMember && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Poin {expiryMember.name}</h3>
+                {pointsExpiry && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Saldo {pointsExpiry.points} poin
+                    {pointsExpiry.expiryMonths ? ` · berlaku ${pointsExpiry.expiryMonths} bulan sejak diperoleh` : ' · tidak kedaluwarsa'}
+                  </p>
+                )}
+              </div>
+              <button onClick={() => setExpiryMember(null)} className="text-gray-400 hover:text-gray-600 text-sm">
+                Tutup
+              </button>
+            </div>
+            {!pointsExpiry ? (
+              <p className="text-sm text-gray-500">Memuat...</p>
+            ) : (
+              <>
+                {pointsExpiry.expiringSoon.points > 0 && pointsExpiry.expiringSoon.firstExpiresAt && (
+                  <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-800">
+                    {pointsExpiry.expiringSoon.points} poin akan kedaluwarsa dalam {pointsExpiry.withinDays} hari, mulai {formatDate(pointsExpiry.expiringSoon.firstExpiresAt)}
+                  </div>
+                )}
+                {pointsExpiry.lots.length === 0 ? (
+                  <p className="text-sm text-gray-500">Tidak ada poin tersisa</p>
+                ) : (
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500 uppercase">
+                        <th className="py-2">Diperoleh</th>
+                        <th className="py-2">Sisa</th>
+                        <th className="py-2">Kedaluwarsa</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {pointsExpiry.lots.map((lot) => (
+                        <tr key={lot.id}>
+                          <td className="py-2 text-gray-900">{formatDate(lot.earnedAt)}</td>
+                          <td className="py-2 text-gray-900">{lot.points} poin</td>
+                          <td className="py-2 text-gray-500">{lot.expiresAt ? formatDate(lot.expiresAt) : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Riwayat Tier */}
+      {tierHistoryMember && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-full max-w-lg shadow-lg rounded-md bg-white">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Riwayat Tier - {tierHistoryMember.name}</h3>
+                {tierHistory && (
+                  <p className="text-sm text-gray-500 mt-1 flex items-center gap-2">
+                    <TierPill tier={tierHistory.tier} />
+                    Belanja 12 bulan terakhir: {formatCurrency(tierHistory.rollingSpend)}
+                  </p>
+                )}
+              </div>
+              <button onClick={() => setTierHistoryMember(null)} className="text-gray-400 hover:text-gray-600 text-sm">
+                Tutup
+              </button>
+            </div>
+            {!tierHistory ? (
+              <p className="text-sm text-gray-500">Memuat...</p>
+            ) : tierHistory.history.length === 0 ? (
+              <p className="text-sm text-gray-500">Belum ada perubahan tier</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+                {tierHistory.history.map((entry) => (
+                  <li key={entry.id} className="py-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <TierPill tier={entry.fromTier} />
+                      <span className="text-gray-400">→</span>
+                      <TierPill tier={entry.toTier} />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {formatDate(entry.createdAt)} · {TIER_REASON_LABELS[entry.reason] || entry.reason} · belanja {formatCurrency(entry.rollingSpend)}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter, useParams } from 'next/navigation'
 import { format } from 'date-fns'
 import { id as idLocale } from 'date-fns/locale'
@@ -65,10 +66,10 @@ export default function OperationalExpenseDetailPage() {
     }
   }, [authLoading, user, router])
   
-  // Redirect if not admin
+  // Redirect roles without access to expenses
   useEffect(() => {
     if (authLoading) return
-    if (user && user.role !== 'ADMIN') {
+    if (user && !hasPermission(user.role, 'expenses:read')) {
       router.push('/dashboard')
       toast({
         title: 'Akses Ditolak',
@@ -169,7 +170,7 @@ export default function OperationalExpenseDetailPage() {
     return format(new Date(dateString), 'dd MMMM yyyy, HH:mm', { locale: idLocale })
   }
   
-  if (authLoading || (user && user.role !== 'ADMIN')) {
+  if (authLoading || (user && !hasPermission(user.role, 'expenses:read'))) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
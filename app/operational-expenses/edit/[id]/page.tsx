@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter, useParams } from 'next/navigation'
 import { format } from 'date-fns'
 import { id as idLocale } from 'date-fns/locale'
@@ -67,10 +68,10 @@ export default function EditOperationalExpensePage() {
     }
   }, [authLoading, user, router])
   
-  // Redirect if not admin
+  // Redirect roles without access to expenses
   useEffect(() => {
     if (authLoading) return
-    if (user && user.role !== 'ADMIN') {
+    if (user && !hasPermission(user.role, 'expenses:write')) {
       router.push('/dashboard')
       toast({
         title: 'Akses Ditolak',
@@ -193,7 +194,7 @@ export default function EditOperationalExpensePage() {
     }
   }
   
-  if (authLoading || (user && user.role !== 'ADMIN')) {
+  if (authLoading || (user && !hasPermission(user.role, 'expenses:write'))) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
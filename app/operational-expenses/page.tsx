@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import { format } from 'date-fns'
 import { id } from 'date-fns/locale'
@@ -114,10 +115,10 @@ export default function OperationalExpensesPage() {
     }
   }, [authLoading, user, router])
   
-  // Redirect if not admin
+  // Redirect roles without access to expenses
   useEffect(() => {
     if (authLoading) return
-    if (user && user.role !== 'ADMIN') {
+    if (user && !hasPermission(user.role, 'expenses:read')) {
       router.push('/dashboard')
       toast({
         title: 'Akses Ditolak',
@@ -420,7 +421,7 @@ export default function OperationalExpensesPage() {
   // Calculate total expenses
   const totalExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0)
   
-  if (authLoading || (user && user.role !== 'ADMIN')) {
+  if (authLoading || (user && !hasPermission(user.role, 'expenses:read'))) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-primary"></div>
@@ -2,6 +2,7 @@
 
 import { useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { homePathFor } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 
 export default function HomePage() {
@@ -16,13 +17,7 @@ export default function HomePage() {
       return
     }
 
-    if (user.role === 'ADMIN') {
-      router.push('/dashboard')
-    } else if (user.role === 'CASHIER') {
-      router.push('/cashier')
-    } else {
-      router.push('/dashboard')
-    }
+    router.push(homePathFor(user.role))
   }, [user, loading, router])
 
   if (loading) {
@@ -62,6 +62,7 @@ export default function EditProductPage() {
     color: '',
   })
   const [errors, setErrors] = useState<Partial<ProductForm>>({})
+  const [taxExempt, setTaxExempt] = useState(false)
 
   // Fetch product data from API
 
@@ -96,6 +97,7 @@ const res = await apiFetch(`/api/v1/products/${productId}`)
           size: product.size || '',
           color: product.color || '',
         })
+        setTaxExempt(Boolean(product.taxExempt))
       } catch (error) {
         console.error('Error fetching product:', error)
         toast.error('Gagal memuat data produk')
@@ -171,7 +173,8 @@ const res = await apiFetch(`/api/v1/products/${productId}`)
         description: form.description.trim(),
         image: form.image,
         size: form.size.trim(),
-        color: form.color.trim()
+        color: form.color.trim(),
+        taxExempt
       }
       
       // Send to API
@@ -467,6 +470,21 @@ const res = await apiFetch(`/api/v1/products/${productId}`, {
               )}
             </div>
 
+            {/* Tax exemption */}
+            <div className="flex items-start">
+              <input
+                type="checkbox"
+                id="taxExempt"
+                checked={taxExempt}
+                onChange={(e) => setTaxExempt(e.target.checked)}
+                className="h-4 w-4 mt-0.5 text-blue-600 border-gray-300 rounded"
+              />
+              <label htmlFor="taxExempt" className="ml-2 text-sm text-gray-700">
+                Bebas PPN
+                <span className="block text-xs text-gray-500">Produk ini tidak dikenai PPN, apa pun tarif kategorinya</span>
+              </label>
+            </div>
+
             {/* Size and Color */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
               {/* Size */}
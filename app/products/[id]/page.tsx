@@ -0,0 +1,336 @@
+"use client"
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import useSWR from 'swr'
+import { ArrowLeftIcon, PencilIcon } from '@heroicons/react/24/outline'
+import { apiSWRFetcher } from '@/lib/api'
+import Navbar from '@/components/Navbar'
+import ProductImage from '@/components/ProductImage'
+
+interface ProductVariant {
+  id: string
+  size: string
+  color: string
+  productCode?: string
+  barcode?: string | null
+  price?: number | null
+  stock: number
+  isActive: boolean
+}
+
+interface ProductDetail {
+  id: string
+  name: string
+  productCode?: string
+  description?: string
+  price: number
+  costPrice?: number
+  stock: number
+  size?: string | null
+  color?: string | null
+  image?: string
+  isActive: boolean
+  variants?: ProductVariant[]
+}
+
+type StockMovementReason = 'SALE' | 'CANCEL' | 'REFUND' | 'IMPORT' | 'ADJUSTMENT' | 'RECEIVING' | 'EXCHANGE'
+
+interface StockMovement {
+  id: string
+  variantId?: string | null
+  delta: number
+  balanceAfter: number
+  variantBalanceAfter?: number | null
+  reason: StockMovementReason
+  referenceId?: string | null
+  note?: string | null
+  createdAt: string
+  user?: { id: number; name: string } | null
+  variant?: { id: string; size: string; color: string } | null
+}
+
+interface StockHistoryResponse {
+  count: number
+  page: number
+  limit: number
+  movements: StockMovement[]
+}
+
+const REASON_LABELS: Record<StockMovementReason, { text: string; color: string }> = {
+  SALE: { text: 'Penjualan', color: 'bg-blue-100 text-blue-800' },
+  CANCEL: { text: 'Pembatalan', color: 'bg-gray-100 text-gray-800' },
+  REFUND: { text: 'Refund', color: 'bg-orange-100 text-orange-800' },
+  IMPORT: { text: 'Import CSV', color: 'bg-green-100 text-green-800' },
+  ADJUSTMENT: { text: 'Penyesuaian', color: 'bg-purple-100 text-purple-800' },
+  RECEIVING: { text: 'Penerimaan', color: 'bg-teal-100 text-teal-800' },
+  EXCHANGE: { text: 'Tukar Barang', color: 'bg-amber-100 text-amber-800' },
+}
+
+const PAGE_SIZE = 25
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function ProductDetailPage() {
+  const params = useParams()
+  const productId = params.id as string
+  const [activeTab, setActiveTab] = useState<'detail' | 'history'>('detail')
+  const [reason, setReason] = useState<'' | StockMovementReason>('')
+  const [page, setPage] = useState(1)
+
+  const { data: product, error, isLoading } = useSWR<ProductDetail>(`/api/v1/products/${productId}`, apiSWRFetcher)
+
+  const historyQuery = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) })
+  if (reason) historyQuery.set('reason', reason)
+  const { data: history, isLoading: historyLoading } = useSWR<StockHistoryResponse>(
+    activeTab === 'history' ? `/api/v1/products/${productId}/stock-history?${historyQuery.toString()}` : null,
+    apiSWRFetcher
+  )
+
+  const totalPages = history ? Math.max(1, Math.ceil(history.count / PAGE_SIZE)) : 1
+  const variants = (product?.variants || []).filter((v) => v.isActive !== false)
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-white flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Memuat data produk...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !product) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Navbar />
+        <div className="max-w-3xl mx-auto px-4 py-12 text-center">
+          <p className="text-gray-600">Produk tidak ditemukan</p>
+          <Link href="/products" className="mt-4 inline-block text-blue-600 hover:text-blue-800 font-medium">
+            Kembali ke daftar produk
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link href="/products" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">{product.name}</h1>
+                {product.productCode && <p className="text-sm text-gray-500">{product.productCode}</p>}
+              </div>
+            </div>
+            <Link
+              href={`/products/${product.id}/edit`}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+            >
+              <PencilIcon className="h-5 w-5 mr-2" />
+              Edit
+            </Link>
+          </div>
+          <div className="flex space-x-6">
+            {([['detail', 'Detail'], ['history', 'Riwayat Stok']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setActiveTab(key)}
+                className={`pb-3 text-sm font-medium border-b-2 ${
+                  activeTab === key ? 'border-blue-600 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        {activeTab === 'detail' ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+            <div className="flex items-start space-x-6">
+              <ProductImage
+                productId={product.id}
+                productName={product.name}
+                image={product.image}
+                width={96}
+                height={96}
+                className="h-24 w-24 rounded-lg object-cover"
+              />
+              <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 flex-1 text-sm">
+                <div>
+                  <dt className="text-gray-500">Harga Jual</dt>
+                  <dd className="font-medium text-gray-900">{formatCurrency(product.price)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Harga Pokok</dt>
+                  <dd className="font-medium text-gray-900">{formatCurrency(product.costPrice || 0)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Stok</dt>
+                  <dd className="font-medium text-gray-900">{product.stock}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Status</dt>
+                  <dd className="font-medium text-gray-900">{product.isActive ? 'Aktif' : 'Nonaktif'}</dd>
+                </div>
+                {variants.length === 0 && (
+                  <>
+                    <div>
+                      <dt className="text-gray-500">Ukuran</dt>
+                      <dd className="font-medium text-gray-900">{product.size || '-'}</dd>
+                    </div>
+                    <div>
+                      <dt className="text-gray-500">Warna</dt>
+                      <dd className="font-medium text-gray-900">{product.color || '-'}</dd>
+                    </div>
+                  </>
+                )}
+              </dl>
+            </div>
+            {product.description && <p className="text-sm text-gray-700">{product.description}</p>}
+
+            {variants.length > 0 && (
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Ukuran</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Warna</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">SKU</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Barcode</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Harga</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Stok</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {variants.map((variant) => (
+                      <tr key={variant.id}>
+                        <td className="px-4 py-2">{variant.size}</td>
+                        <td className="px-4 py-2">{variant.color}</td>
+                        <td className="px-4 py-2 text-gray-600">{variant.productCode || '-'}</td>
+                        <td className="px-4 py-2 text-gray-600">{variant.barcode || '-'}</td>
+                        <td className="px-4 py-2">{formatCurrency(variant.price ?? product.price)}</td>
+                        <td className="px-4 py-2">{variant.stock}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <select
+                value={reason}
+                onChange={(e) => {
+                  setReason(e.target.value as '' | StockMovementReason)
+                  setPage(1)
+                }}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Semua Alasan</option>
+                {(Object.keys(REASON_LABELS) as StockMovementReason[]).map((key) => (
+                  <option key={key} value={key}>{REASON_LABELS[key].text}</option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500">{history ? `${history.count} pergerakan` : ''}</span>
+            </div>
+
+            {historyLoading ? (
+              <div className="flex justify-center items-center h-40">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Waktu</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Alasan</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Varian</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Perubahan</th>
+                      <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Referensi</th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pengguna</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                    {(history?.movements || []).map((movement) => {
+                      const label = REASON_LABELS[movement.reason] || { text: movement.reason, color: 'bg-gray-100 text-gray-800' }
+                      return (
+                        <tr key={movement.id} className="hover:bg-gray-50">
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-600">
+                            {new Date(movement.createdAt).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })}
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${label.color}`}>
+                              {label.text}
+                            </span>
+                            {movement.note && <p className="text-xs text-gray-500 mt-1">{movement.note}</p>}
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-600">
+                            {movement.variant ? `${movement.variant.size} / ${movement.variant.color}` : movement.variantId ? 'Varian dihapus' : '-'}
+                          </td>
+                          <td className={`px-6 py-3 whitespace-nowrap text-right font-medium ${movement.delta < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                            {movement.delta > 0 ? `+${movement.delta}` : movement.delta}
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-right text-gray-900">
+                            {movement.balanceAfter}
+                            {movement.variantBalanceAfter !== null && movement.variantBalanceAfter !== undefined && (
+                              <span className="block text-xs text-gray-500">varian: {movement.variantBalanceAfter}</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-600">{movement.referenceId || '-'}</td>
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-600">{movement.user?.name || 'Sistem'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+                {(history?.movements || []).length === 0 && (
+                  <div className="text-center py-12">
+                    <p className="text-gray-500">Belum ada riwayat stok</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {totalPages > 1 && (
+              <div className="p-4 border-t border-gray-200 flex items-center justify-end space-x-2 text-sm">
+                <button
+                  onClick={() => setPage((p) => Math.max(1, p - 1))}
+                  disabled={page <= 1}
+                  className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+                >
+                  Sebelumnya
+                </button>
+                <span className="text-gray-600">Halaman {page} dari {totalPages}</span>
+                <button
+                  onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                  disabled={page >= totalPages}
+                  className="px-3 py-1 border border-gray-300 rounded-lg disabled:opacity-50"
+                >
+                  Berikutnya
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -45,6 +45,7 @@ export default function NewProductPage() {
     image: '',
   })
   const [errors, setErrors] = useState<Partial<ProductForm>>({})
+  const [taxExempt, setTaxExempt] = useState(false)
 
   // Fetcher function for SWR
   const fetcher = apiSWRFetcher
@@ -149,7 +150,8 @@ const { data: categoriesData, error: categoriesError } = useSWR('/api/v1/categor
         color: form.color.trim(),
         size: form.size.trim(),
         image: form.image,
-        isActive: true
+        isActive: true,
+        taxExempt
       }
       
       // Make actual API call
@@ -464,6 +466,21 @@ const response = await apiFetch('/api/v1/products', {
               )}
             </div>
 
+            {/* Tax exemption */}
+            <div className="flex items-start">
+              <input
+                type="checkbox"
+                id="taxExempt"
+                checked={taxExempt}
+                onChange={(e) => setTaxExempt(e.target.checked)}
+                className="h-4 w-4 mt-0.5 text-blue-600 border-gray-300 rounded"
+              />
+              <label htmlFor="taxExempt" className="ml-2 text-sm text-gray-700">
+                Bebas PPN
+                <span className="block text-xs text-gray-500">Produk ini tidak dikenai PPN, apa pun tarif kategorinya</span>
+              </label>
+            </div>
+
             {/* Form Actions */}
             <div className="flex justify-end space-x-4 pt-6 border-t">
               <Link
@@ -13,6 +13,7 @@ import {
   ArrowLeftIcon,
   MagnifyingGlassIcon,
   FunnelIcon,
+  QrCodeIcon,
 } from '@heroicons/react/24/outline'
 import toast from 'react-hot-toast'
 import { Dialog, DialogContent } from '@/components/ui/dialog'
@@ -33,8 +34,10 @@ interface Product {
   createdAt: string
   image?: string
   productCode?: string
+  barcode?: string | null
   size: string
   color: string
+  variantCount?: number
 }
 
 interface Category {
@@ -53,6 +56,8 @@ export default function ProductsPage() {
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
   const [selectedProductId, setSelectedProductId] = useState<string | null>(null)
   const [isImportModalOpen, setIsImportModalOpen] = useState(false)
+  const [labelProductIds, setLabelProductIds] = useState<string[]>([])
+  const [isPrintingLabels, setIsPrintingLabels] = useState(false)
 
   // State untuk Import CSV
   const [csvFile, setCsvFile] = useState<File | null>(null)
@@ -147,10 +152,10 @@ export default function ProductsPage() {
 
   const downloadTemplate = () => {
     const headers = [
-      'name','price','stock','categoryId','categoryName','size','color','description','costPrice','productCode','isActive','image'
+      'name','price','stock','categoryId','categoryName','size','color','description','costPrice','productCode','isActive','image','parentCode','variantPrice','barcode'
     ]
     const example = [
-      'Kaos Polos','50000','100','','Atasan','M','Hitam','Kaos katun','30000','','true',''
+      'Kaos Polos','50000','100','','Atasan','M','Hitam','Kaos katun','30000','','true','','','',''
     ]
     const csv = `${headers.join(',')}`+"\n"+`${example.join(',')}`
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
@@ -201,8 +206,10 @@ export default function ProductsPage() {
         createdAt: product.createdAt ? new Date(product.createdAt).toISOString().split('T')[0] : '',
         image: product.image,
         productCode: product.productCode || '',
+        barcode: product.barcode || null,
         size: product.size || '',
-        color: product.color || ''
+        color: product.color || '',
+        variantCount: Array.isArray(product.variants) ? product.variants.filter((v: any) => v.isActive !== false).length : 0
       }))
       setProducts(transformedProducts)
       setLoading(false)
@@ -457,6 +464,38 @@ export default function ProductsPage() {
     }
   }
 
+  const toggleLabelSelection = (id: string) => {
+    setLabelProductIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id])
+  }
+
+  // Produk bervarian dicetak satu label per varian aktif
+  const printLabels = async () => {
+    if (labelProductIds.length === 0) return
+    setIsPrintingLabels(true)
+    try {
+      const response = await apiFetch('/api/v1/products/labels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: 'pdf', items: labelProductIds.map(productId => ({ productId })) })
+      })
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({ error: 'Gagal membuat label barcode' }))
+        throw new Error(errorData.error || 'Gagal membuat label barcode')
+      }
+      const url = URL.createObjectURL(await response.blob())
+      window.open(url, '_blank')
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+      setLabelProductIds([])
+      // Produk lama mendapat barcode internal saat label pertama dicetak
+      refreshProducts()
+    } catch (error) {
+      console.error('Error printing labels:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal membuat label barcode')
+    } finally {
+      setIsPrintingLabels(false)
+    }
+  }
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -497,6 +536,15 @@ export default function ProductsPage() {
               >
                 Import CSV
               </button>
+              <button
+                onClick={printLabels}
+                disabled={labelProductIds.length === 0 || isPrintingLabels}
+                className="bg-gray-800 hover:bg-gray-900 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center disabled:opacity-50"
+                title="Pilih produk di tabel untuk dicetak labelnya"
+              >
+                <QrCodeIcon className="h-5 w-5 mr-2" />
+                {isPrintingLabels ? 'Membuat Label...' : `Cetak Label (${labelProductIds.length})`}
+              </button>
             </div>
           </div>
         </div>
@@ -595,6 +643,15 @@ export default function ProductsPage() {
               <table className="min-w-full table-fixed divide-y divide-gray-200">
                 <thead className="bg-gray-50">
                   <tr>
+                    <th className="pl-6 py-3 w-10">
+                      <input
+                        type="checkbox"
+                        aria-label="Pilih semua untuk cetak label"
+                        checked={filteredProducts.length > 0 && filteredProducts.every(p => labelProductIds.includes(p.id))}
+                        onChange={(e) => setLabelProductIds(e.target.checked ? filteredProducts.map(p => p.id) : [])}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Produk
                     </th>
@@ -623,6 +680,15 @@ export default function ProductsPage() {
                     const stockStatus = getStockStatus(product.stock)
                     return (
                       <tr key={product.id} className="hover:bg-gray-50">
+                        <td className="pl-6 py-4 w-10">
+                          <input
+                            type="checkbox"
+                            aria-label={`Pilih ${product.name} untuk cetak label`}
+                            checked={labelProductIds.includes(product.id)}
+                            onChange={() => toggleLabelSelection(product.id)}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                          />
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center">
                             <div className="flex-shrink-0 h-12 w-12">
@@ -637,10 +703,16 @@ export default function ProductsPage() {
                             </div>
                             <div className="ml-4">
                               <div className="text-xs sm:text-sm font-medium text-gray-900 truncate max-w-[180px] sm:max-w-none break-words">
-                                {product.name} {product.productCode && <span className="text-xs text-gray-500 ml-1">({product.productCode})</span>}
+                                <Link href={`/products/${product.id}`} className="hover:text-blue-600">
+                                  {product.name}
+                                </Link>{' '}
+                                {product.productCode && <span className="text-xs text-gray-500 ml-1">({product.productCode})</span>}
                               </div>
+                              {product.barcode && (
+                                <div className="text-xs text-gray-400 font-mono">{product.barcode}</div>
+                              )}
                               <div className="text-xs sm:text-sm text-gray-500 truncate max-w-[180px] sm:max-w-none break-words">
-                                {product.size} - {product.color}
+                                {product.variantCount ? `${product.variantCount} varian ukuran/warna` : `${product.size} - ${product.color}`}
                               </div>
                               <div className="flex flex-wrap gap-1 mt-1">
                                 {product.size && (
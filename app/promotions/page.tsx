@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import { ArrowLeftIcon } from '@heroicons/react/24/outline'
 import Navbar from '@/components/Navbar'
@@ -18,6 +19,11 @@ interface Category {
   name: string
 }
 
+interface MemberTier {
+  id: number
+  name: string
+}
+
 interface Promotion {
   id: string
   name: string
@@ -28,6 +34,7 @@ interface Promotion {
   minQuantity?: number
   buyQuantity?: number
   getQuantity?: number
+  minTierId?: number | null
   startDate: string
   endDate: string
   isActive: boolean
@@ -45,6 +52,7 @@ export default function PromotionsPage() {
   const [promotions, setPromotions] = useState<Promotion[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [categories, setCategories] = useState<Category[]>([])
+  const [tiers, setTiers] = useState<MemberTier[]>([])
   const [loading, setLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
   const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null)
@@ -60,6 +68,7 @@ export default function PromotionsPage() {
     minQuantity: undefined as number | undefined,
     buyQuantity: undefined as number | undefined,
     getQuantity: undefined as number | undefined,
+    minTierId: null as number | null,
     startDate: '',
     endDate: '',
     productIds: [] as string[],
@@ -92,13 +101,14 @@ export default function PromotionsPage() {
       router.push('/login')
       return
     }
-    if (user.role !== 'ADMIN') {
+    if (!hasPermission(user.role, 'promotions:write')) {
       router.push('/dashboard')
       return
     }
     fetchPromotions()
     fetchProducts()
     fetchCategories()
+    fetchTiers()
   }, [user, authLoading, router, fetchPromotions])
 
   const fetchProducts = async () => {
@@ -127,6 +137,18 @@ export default function PromotionsPage() {
     }
   }
 
+  const fetchTiers = async () => {
+    try {
+      const response = await apiFetch('/api/v1/member-tiers')
+      if (response.ok) {
+        const data = await response.json()
+        setTiers(Array.isArray(data?.tiers) ? data.tiers : [])
+      }
+    } catch (error) {
+      console.error('Error fetching member tiers:', error)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     
@@ -235,6 +257,7 @@ export default function PromotionsPage() {
       minQuantity: undefined,
       buyQuantity: undefined,
       getQuantity: undefined,
+      minTierId: null,
       startDate: '',
       endDate: '',
       productIds: [],
@@ -288,6 +311,7 @@ export default function PromotionsPage() {
         minQuantity: promotion.minQuantity || undefined,
         buyQuantity: promotion.buyQuantity || undefined,
         getQuantity: promotion.getQuantity || undefined,
+        minTierId: promotion.minTierId ?? null,
         startDate: startDateFormatted,
         endDate: endDateFormatted,
         productIds: promotion.productPromotions?.map(pp => pp.product.id) || [],
@@ -470,6 +494,11 @@ export default function PromotionsPage() {
                         {promotion.description && (
                           <div className="text-gray-500 text-xs">{promotion.description}</div>
                         )}
+                        {promotion.minTierId && (
+                          <div className="text-amber-700 text-xs">
+                            Khusus tier {tiers.find((t) => t.id === promotion.minTierId)?.name || promotion.minTierId} ke atas
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -829,6 +858,25 @@ export default function PromotionsPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Khusus Tier Member
+                </label>
+                <select
+                  value={formData.minTierId ?? ''}
+                  onChange={(e) => setFormData({ ...formData, minTierId: e.target.value ? Number(e.target.value) : null })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Semua pelanggan</option>
+                  {tiers.map((tier) => (
+                    <option key={tier.id} value={tier.id}>{tier.name} ke atas</option>
+                  ))}
+                </select>
+                <div className="text-xs text-gray-500 mt-1">
+                  Promosi khusus tier hanya berlaku bila member dengan tier tersebut dipilih di kasir
+                </div>
+              </div>
+
               <div className="flex justify-end space-x-4 pt-4">
                 <button
                   type="button"
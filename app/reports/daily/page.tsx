@@ -88,7 +88,7 @@ export default function DailySalesDetailPage() {
     try {
       // Validasi input filter
       const allowedPayments = ["ALL","CASH","CARD","QRIS","MIDTRANS","BANK_TRANSFER","VIRTUAL_ACCOUNT"]
-      const allowedStatus = ["ALL","PAID","PENDING","CANCELED","CANCELLED","COMPLETED","REFUNDED"]
+      const allowedStatus = ["ALL","PAID","PENDING","CANCELED","CANCELLED","COMPLETED","REFUNDED","PARTIALLY_REFUNDED"]
       const catIds = new Set(["ALL", ...categoriesList.map((c) => c.id)])
       const q = search.trim()
       const from = dateRange?.from
@@ -228,7 +228,7 @@ export default function DailySalesDetailPage() {
             if (notes) {
               const parsed = JSON.parse(notes)
               const last = Array.isArray(parsed) ? parsed[parsed.length - 1] : null
-              if (last && last.type === 'REFUNDED' && last.refundRef) refundRef = String(last.refundRef)
+              if (last && (last.type === 'REFUNDED' || last.type === 'PARTIALLY_REFUNDED') && last.refundRef) refundRef = String(last.refundRef)
             }
           } catch {}
           return {
@@ -244,7 +244,7 @@ export default function DailySalesDetailPage() {
             status: String(t?.status || t?.paymentStatus || "-").toUpperCase(),
             statusChangedAt: String(t?.updatedAt || t?.paidAt || t?.createdAt || ""),
             cancelReason: t?.failureReason ? String(t.failureReason) : null,
-            refundAmount: String(t?.status || '').toUpperCase() === 'REFUNDED' ? Number(t?.finalTotal || 0) : null,
+            refundAmount: ['REFUNDED', 'PARTIALLY_REFUNDED'].includes(String(t?.status || '').toUpperCase()) ? (Number(t?.refundedAmount || 0) || Number(t?.finalTotal || 0)) : null,
             refundRef,
           }
         })
@@ -403,7 +403,7 @@ export default function DailySalesDetailPage() {
     if (status === "PAID" || status === "COMPLETED") return "bg-green-50"
     if (status === "PENDING") return "bg-amber-50"
     if (status === "CANCELED" || status === "CANCELLED") return "bg-red-50"
-    if (status === "REFUNDED") return "bg-blue-50"
+    if (status === "REFUNDED" || status === "PARTIALLY_REFUNDED") return "bg-blue-50"
     return "bg-gray-50"
   }
 
@@ -411,7 +411,7 @@ export default function DailySalesDetailPage() {
     if (status === "PAID" || status === "COMPLETED") return "bg-green-50 text-green-700 border border-green-200"
     if (status === "PENDING") return "bg-amber-50 text-amber-700 border border-amber-200"
     if (status === "CANCELED" || status === "CANCELLED") return "bg-red-50 text-red-700 border border-red-200"
-    if (status === "REFUNDED") return "bg-blue-50 text-blue-700 border border-blue-200"
+    if (status === "REFUNDED" || status === "PARTIALLY_REFUNDED") return "bg-blue-50 text-blue-700 border border-blue-200"
     return "bg-gray-50 text-gray-700 border border-gray-200"
   }
 
@@ -447,6 +447,9 @@ export default function DailySalesDetailPage() {
                 <Link href="/reports/daily" className="px-4 py-2 rounded-md bg-white shadow-sm font-medium text-gray-800">
                   Harian
                 </Link>
+                <Link href="/reports/rewards" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                  Reward Member
+                </Link>
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" onClick={fetchTransactions} disabled={loading}>
@@ -516,6 +519,7 @@ export default function DailySalesDetailPage() {
                     <SelectItem value="CANCELLED" className="hover:bg-gray-50">CANCELLED</SelectItem>
                     <SelectItem value="COMPLETED" className="hover:bg-gray-50">COMPLETED</SelectItem>
                     <SelectItem value="REFUNDED" className="hover:bg-gray-50">REFUNDED</SelectItem>
+                    <SelectItem value="PARTIALLY_REFUNDED" className="hover:bg-gray-50">PARTIALLY_REFUNDED</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -652,7 +656,7 @@ export default function DailySalesDetailPage() {
                             {r.cancelReason && (r.status === 'CANCELED' || r.status === 'CANCELLED') ? (
                               <div className="text-[10px] text-red-700 mt-1">{r.cancelReason}</div>
                             ) : null}
-                            {r.status === 'REFUNDED' ? (
+                            {r.status === 'REFUNDED' || r.status === 'PARTIALLY_REFUNDED' ? (
                               <div className="text-[10px] text-blue-700 mt-1">
                                 {r.refundAmount != null ? `Refund: ${formatCurrency(r.refundAmount)}` : ''}
                                 {r.refundRef ? ` • Ref: ${r.refundRef}` : ''}
@@ -311,6 +311,9 @@ export default function FinancialReportPage() {
               <Link href="/reports/daily" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
                 Harian
               </Link>
+              <Link href="/reports/rewards" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                Reward Member
+              </Link>
             </div>
             
             <div className="flex space-x-2">
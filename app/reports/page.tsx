@@ -538,6 +538,9 @@ export default function ReportsPage() {
               <Link href="/reports/daily" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
                 Harian
               </Link>
+              <Link href="/reports/rewards" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                Reward Member
+              </Link>
             </div>
             
             <div className="flex items-center space-x-4">
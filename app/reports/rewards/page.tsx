@@ -0,0 +1,232 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { toast } from 'react-hot-toast'
+import { ArrowLeftIcon } from '@heroicons/react/24/outline'
+import Navbar from '@/components/Navbar'
+import { apiFetch } from '@/lib/api'
+import { formatCurrency } from '@/lib/utils'
+
+type RewardOccasion = 'BIRTHDAY' | 'ANNIVERSARY'
+
+interface RewardSummary {
+  issued: number
+  notified: number
+  redeemed: number
+  redemptionRate: number
+  discountGiven: number
+  sales: number
+}
+
+interface RewardRow {
+  id: number
+  occasion: RewardOccasion
+  issuedAt: string
+  member: { id: number; name: string; phone: string | null } | null
+  voucherCode: string | null
+  validUntil: string | null
+  notifiedAt: string | null
+  notifyError: string | null
+  redeemedAt: string | null
+  transactionId: string | null
+  discountGiven: number
+}
+
+interface RewardReport {
+  period: { from: string; to: string }
+  totals: RewardSummary
+  byOccasion: (RewardSummary & { occasion: RewardOccasion })[]
+  rewards: RewardRow[]
+}
+
+const OCCASION_LABELS: Record<RewardOccasion, string> = {
+  BIRTHDAY: 'Ulang Tahun',
+  ANNIVERSARY: 'Anniversary',
+}
+
+// Tanggal hari ini di Asia/Jakarta (YYYY-MM-DD)
+const jakartaToday = () => new Date(Date.now() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta', day: 'numeric', month: 'short', year: 'numeric' })
+
+export default function MemberRewardsReportPage() {
+  const [from, setFrom] = useState(() => `${jakartaToday().slice(0, 7)}-01`)
+  const [to, setTo] = useState(jakartaToday)
+  const [report, setReport] = useState<RewardReport | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  // Periode yang sedang ditampilkan; diperbarui lewat tombol Tampilkan
+  const [period, setPeriod] = useState({ from, to })
+
+  const loadReport = useCallback(async () => {
+    setLoading(true)
+    try {
+      const res = await apiFetch(`/api/v1/reports/member-rewards?from=${period.from}&to=${period.to}`)
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || 'Gagal memuat laporan reward member')
+      setReport(body)
+    } catch (error) {
+      console.error('Member rewards report failed:', error)
+      toast.error(error instanceof Error ? error.message : 'Terjadi kesalahan')
+    } finally {
+      setLoading(false)
+    }
+  }, [period])
+
+  useEffect(() => {
+    loadReport()
+  }, [loadReport])
+
+  const showReport = () => {
+    if (!from || !to) {
+      toast.error('Pilih tanggal awal dan akhir periode')
+      return
+    }
+    setPeriod({ from, to })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Navbar />
+
+      {/* Header */}
+      <header className="bg-white shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center py-4">
+            <div className="flex items-center">
+              <Link href="/" className="mr-4">
+                <ArrowLeftIcon className="h-6 w-6 text-gray-600 hover:text-gray-900" />
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Laporan</h1>
+            </div>
+
+            {/* Report Type Navigation */}
+            <div className="flex items-center space-x-2 bg-gray-100 p-1 rounded-lg">
+              <Link href="/reports" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                Penjualan
+              </Link>
+              <Link href="/reports/financial" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                Keuangan
+              </Link>
+              <Link href="/reports/daily" className="px-4 py-2 rounded-md hover:bg-white hover:shadow-sm font-medium text-gray-600 hover:text-gray-800 transition-all">
+                Harian
+              </Link>
+              <Link href="/reports/rewards" className="px-4 py-2 rounded-md bg-white shadow-sm font-medium text-gray-800">
+                Reward Member
+              </Link>
+            </div>
+            <div />
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Voucher Ulang Tahun &amp; Anniversary</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Voucher pribadi yang diterbitkan pada periode ini dan berapa yang sudah dipakai member.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Dari tanggal</label>
+              <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Sampai tanggal</label>
+              <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-lg" />
+            </div>
+            <button
+              onClick={showReport}
+              disabled={loading}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium disabled:opacity-50"
+            >
+              {loading ? 'Memuat...' : 'Tampilkan'}
+            </button>
+          </div>
+
+          {report && (
+            <div className="mt-6 space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Voucher diterbitkan</div>
+                  <div className="text-lg font-semibold text-gray-900">{report.totals.issued}</div>
+                  <div className="text-xs text-gray-500">{report.totals.notified} ucapan terkirim</div>
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Tingkat penukaran</div>
+                  <div className="text-lg font-semibold text-blue-600">{report.totals.redemptionRate}%</div>
+                  <div className="text-xs text-gray-500">{report.totals.redeemed} voucher dipakai</div>
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Total potongan</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(report.totals.discountGiven)}</div>
+                </div>
+                <div className="rounded-lg border border-gray-200 p-4">
+                  <div className="text-xs text-gray-500">Penjualan dengan voucher</div>
+                  <div className="text-lg font-semibold text-gray-900">{formatCurrency(report.totals.sales)}</div>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                {report.byOccasion.map((row) => (
+                  <div key={row.occasion} className="rounded-lg bg-gray-50 border border-gray-200 px-4 py-2 text-sm">
+                    <span className="font-medium text-gray-900">{OCCASION_LABELS[row.occasion]}</span>
+                    <span className="text-gray-600"> — {row.issued} diterbitkan, {row.redeemed} dipakai ({row.redemptionRate}%)</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Diterbitkan</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Jenis</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Voucher</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">WhatsApp</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dipakai</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Potongan</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 text-sm">
+                    {report.rewards.map((row) => (
+                      <tr key={row.id}>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-900">{formatDate(row.issuedAt)}</td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {row.member?.name || '-'}
+                          {row.member?.phone && <div className="text-xs text-gray-500">{row.member.phone}</div>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">{OCCASION_LABELS[row.occasion]}</td>
+                        <td className="px-4 py-2 text-gray-700">
+                          <span className="font-mono">{row.voucherCode || '-'}</span>
+                          {row.validUntil && <div className="text-xs text-gray-500">s.d. {formatDate(row.validUntil)}</div>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-700">
+                          {row.notifiedAt ? (
+                            <span className="text-green-600">Terkirim</span>
+                          ) : (
+                            <span className="text-amber-600" title={row.notifyError || undefined}>{row.notifyError ? 'Gagal' : 'Menunggu'}</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-gray-700">{row.redeemedAt ? formatDate(row.redeemedAt) : '-'}</td>
+                        <td className="px-4 py-2 text-right text-gray-700">{row.discountGiven > 0 ? formatCurrency(row.discountGiven) : '-'}</td>
+                      </tr>
+                    ))}
+                    {report.rewards.length === 0 && (
+                      <tr>
+                        <td colSpan={7} className="px-4 py-6 text-center text-gray-500">Belum ada voucher reward pada periode ini</td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
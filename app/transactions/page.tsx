@@ -18,9 +18,12 @@ import {
   TrashIcon,
   PaperAirplaneIcon,
   CurrencyDollarIcon,
+  DocumentArrowDownIcon,
+  DocumentTextIcon,
 } from '@heroicons/react/24/outline'
 import ReceiptPreview from '../../components/ReceiptPreview'
 import Navbar from '@/components/Navbar'
+import ManagerApprovalModal, { isApprovalRequired, type ApprovalRequest } from '@/components/ManagerApprovalModal'
 import { toast } from 'react-hot-toast'
 import { apiFetch } from '@/lib/api'
 
@@ -36,7 +39,9 @@ interface Transaction {
   promoDiscount?: number
   voucherCode?: string
   paymentMethod: 'CASH' | 'CARD' | 'QRIS' | 'VIRTUAL_ACCOUNT' | 'CONVENIENCE_STORE' | 'PAYLATER'
-  status: 'COMPLETED' | 'CANCELLED' | 'PENDING' | 'REFUNDED'
+  status: 'COMPLETED' | 'CANCELLED' | 'PENDING' | 'REFUNDED' | 'PARTIALLY_REFUNDED'
+  refundedAmount?: number
+  exchangedAmount?: number
   cashier: string
   customer?: string
   customerPhone?: string
@@ -56,6 +61,7 @@ interface TransactionItem {
   quantity: number
   price: number
   total: number
+  refundedQuantity: number
 }
 
 export default function TransactionsPage() {
@@ -75,8 +81,12 @@ export default function TransactionsPage() {
   const [showCancelModal, setShowCancelModal] = useState(false)
   const [showAcceptPaymentModal, setShowAcceptPaymentModal] = useState(false)
   const [actionTransaction, setActionTransaction] = useState<Transaction | null>(null)
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({})
   const [actionLoading, setActionLoading] = useState(false)
+  // Action waiting for a manager's PIN; retried with the approval token
+  const [approvalRequest, setApprovalRequest] = useState<(ApprovalRequest & { retry: (approvalToken: string) => void }) | null>(null)
   const [sendingWhatsApp, setSendingWhatsApp] = useState(false)
+  const [downloadingPdf, setDownloadingPdf] = useState<'receipt' | 'invoice' | null>(null)
 
   // Fetch transactions from API using SWR for real-time updates
   const fetcher = async (url: string) => {
@@ -121,7 +131,8 @@ export default function TransactionsPage() {
           name: item.product.name,
           quantity: item.quantity,
           price: item.price,
-          total: item.subtotal
+          total: item.subtotal,
+          refundedQuantity: item.refundedQuantity || 0
         })),
         subtotal: transaction.total,
         tax: transaction.tax,
@@ -131,6 +142,8 @@ export default function TransactionsPage() {
         voucherCode: voucherUsage?.voucher?.code || null,
         paymentMethod: transaction.paymentMethod,
         status: transaction.status,
+        refundedAmount: transaction.refundedAmount || 0,
+        exchangedAmount: transaction.exchangedAmount || 0,
         cashier: transaction.user?.name || 'Unknown',
         customer: transaction.customerName || transaction.member?.name,
         customerPhone: transaction.customerPhone || transaction.member?.phone,
@@ -263,6 +276,7 @@ export default function TransactionsPage() {
           </div>
         )
       case 'REFUNDED':
+      case 'PARTIALLY_REFUNDED':
         return <ArrowUturnLeftIcon className="h-5 w-5 text-orange-500" />
       default:
         return null
@@ -279,6 +293,8 @@ export default function TransactionsPage() {
         return 'bg-yellow-100 text-yellow-800'
       case 'REFUNDED':
         return 'bg-orange-100 text-orange-800'
+      case 'PARTIALLY_REFUNDED':
+        return 'bg-amber-100 text-amber-800'
       default:
         return 'bg-gray-100 text-gray-800'
     }
@@ -342,6 +358,34 @@ export default function TransactionsPage() {
       setSendingWhatsApp(false)
     }
   }
+  // Unduh struk/invoice PDF buatan server; nomor invoice terbit saat invoice pertama kali diunduh
+  const downloadPdf = async (transaction: Transaction, kind: 'receipt' | 'invoice') => {
+    if (downloadingPdf) return
+    setDownloadingPdf(kind)
+    try {
+      const res = await apiFetch(`/api/v1/transactions/${transaction.id}/${kind}.pdf`)
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        throw new Error(body.error || (kind === 'invoice' ? 'Gagal mengunduh invoice' : 'Gagal mengunduh struk'))
+      }
+      const filename = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') || '')?.[1]
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename || `${kind === 'invoice' ? 'invoice' : 'struk'}-${transaction.id}.pdf`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+      const invoiceNumber = res.headers.get('X-Invoice-Number')
+      if (kind === 'invoice') toast.success(invoiceNumber ? `Invoice ${invoiceNumber} diunduh` : 'Invoice diunduh')
+    } catch (err: any) {
+      toast.error(err?.message || 'Gagal mengunduh PDF')
+    } finally {
+      setDownloadingPdf(null)
+    }
+  }
+
   const handlePrintComplete = () => {
     setShowReceiptPreview(false)
     setReceiptTransaction(null)
@@ -350,33 +394,74 @@ export default function TransactionsPage() {
 
   const handleRefund = (transaction: Transaction) => {
     setActionTransaction(transaction)
+    // Default to returning everything that is still returnable
+    setRefundQuantities(Object.fromEntries(
+      transaction.items.map((item) => [item.id, item.quantity - (item.refundedQuantity || 0)])
+    ))
     setShowRefundModal(true)
   }
 
+  // Mirrors the server: the refund is prorated on the gross line subtotal, so
+  // promo, voucher and points discounts are shared by the returned units
+  const estimateRefund = (transaction: Transaction) => {
+    const grossTotal = transaction.items.reduce((sum, item) => sum + item.total, 0)
+    if (grossTotal <= 0) return 0
+    const grossReturned = transaction.items.reduce(
+      (sum, item) => sum + (item.quantity > 0 ? (item.total * (refundQuantities[item.id] || 0)) / item.quantity : 0),
+      0
+    )
+    const remaining = transaction.total - (transaction.refundedAmount || 0) - (transaction.exchangedAmount || 0)
+    return Math.min(remaining, Math.round((transaction.total * grossReturned) / grossTotal))
+  }
+
   const handleCancel = (transaction: Transaction) => {
     setActionTransaction(transaction)
     setShowCancelModal(true)
   }
 
-  const confirmRefund = async () => {
+  const approvalHeaders = (approvalToken?: string): Record<string, string> =>
+    approvalToken ? { 'X-Approval-Token': approvalToken } : {}
+
+  const confirmRefund = async (approvalToken?: string) => {
     if (!actionTransaction) return
     
+    const items = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([transactionItemId, quantity]) => ({ transactionItemId, quantity }))
+    if (items.length === 0) {
+      toast.error('Pilih minimal satu item yang dikembalikan')
+      return
+    }
+
     setActionLoading(true)
     try {
       const response = await apiFetch(`/api/v1/transactions/${actionTransaction.id}/refund`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...approvalHeaders(approvalToken),
         },
+        body: JSON.stringify({ items }),
       })
       
       if (response.ok) {
+        const result = await response.json().catch(() => ({}))
         mutate() // Refresh data
         setShowRefundModal(false)
         setActionTransaction(null)
-        alert('Transaksi berhasil di-refund')
+        toast.success(`Retur berhasil, dana dikembalikan ${formatCurrency(Number(result.refundAmount || 0))}`)
       } else {
-        alert('Gagal melakukan refund')
+        const errorData = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'REFUND',
+            transactionId: actionTransaction.id,
+            description: `Retur transaksi ${actionTransaction.id} sebesar ${formatCurrency(estimateRefund(actionTransaction))}`,
+            retry: confirmRefund,
+          })
+          return
+        }
+        alert(errorData.error || 'Gagal melakukan refund')
       }
     } catch (error) {
       console.error('Error refunding transaction:', error)
@@ -386,7 +471,7 @@ export default function TransactionsPage() {
     }
   }
 
-  const confirmCancel = async () => {
+  const confirmCancel = async (approvalToken?: string) => {
     if (!actionTransaction) return
     
     setActionLoading(true)
@@ -395,6 +480,7 @@ export default function TransactionsPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...approvalHeaders(approvalToken),
         },
       })
       
@@ -404,6 +490,16 @@ export default function TransactionsPage() {
         setActionTransaction(null)
         alert('Transaksi berhasil dibatalkan')
       } else {
+        const errorData = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, errorData)) {
+          setApprovalRequest({
+            action: 'CANCEL',
+            transactionId: actionTransaction.id,
+            description: `Batalkan transaksi ${actionTransaction.id} (${formatCurrency(actionTransaction.total)})`,
+            retry: confirmCancel,
+          })
+          return
+        }
         alert('Gagal membatalkan transaksi')
       }
     } catch (error) {
@@ -414,12 +510,13 @@ export default function TransactionsPage() {
     }
   }
 
-  const handleConfirmCardPayment = async (transaction: Transaction) => {
+  const handleConfirmCardPayment = async (transaction: Transaction, approvalToken?: string) => {
     setActionTransaction(transaction)
     setActionLoading(true)
     try {
       const response = await apiFetch('/api/v1/payments/card/confirm', {
         method: 'POST',
+        headers: approvalHeaders(approvalToken),
         body: JSON.stringify({ transactionId: transaction.id })
       })
       if (response.ok) {
@@ -427,6 +524,15 @@ export default function TransactionsPage() {
         alert('Pembayaran Kartu dikonfirmasi dan stok dikurangi')
       } else {
         const data = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, data)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId: transaction.id,
+            description: `Konfirmasi pembayaran kartu ${transaction.id} (${formatCurrency(transaction.total)})`,
+            retry: (token) => handleConfirmCardPayment(transaction, token),
+          })
+          return
+        }
         alert(data?.message || 'Gagal mengkonfirmasi pembayaran Kartu')
       }
     } catch (error) {
@@ -443,7 +549,7 @@ export default function TransactionsPage() {
     setShowAcceptPaymentModal(true)
   }
 
-  const confirmAcceptPayment = async () => {
+  const confirmAcceptPayment = async (approvalToken?: string) => {
     if (!actionTransaction) return
     
     setActionLoading(true)
@@ -452,6 +558,7 @@ export default function TransactionsPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...approvalHeaders(approvalToken),
         },
       })
       
@@ -462,6 +569,15 @@ export default function TransactionsPage() {
         toast.success('Pembayaran berhasil diterima dan status transaksi diperbarui')
       } else {
         const data = await response.json().catch(() => ({}))
+        if (isApprovalRequired(response.status, data)) {
+          setApprovalRequest({
+            action: 'MARK_PAID',
+            transactionId: actionTransaction.id,
+            description: `Terima pembayaran transaksi ${actionTransaction.id} (${formatCurrency(actionTransaction.total)})`,
+            retry: confirmAcceptPayment,
+          })
+          return
+        }
         toast.error(data?.error || 'Gagal menerima pembayaran')
       }
     } catch (error) {
@@ -516,6 +632,7 @@ export default function TransactionsPage() {
               <option value="PENDING">Pending</option>
               <option value="CANCELLED">Dibatalkan</option>
               <option value="REFUNDED">Dikembalikan</option>
+              <option value="PARTIALLY_REFUNDED">Dikembalikan Sebagian</option>
             </select>
 
             {/* Payment Method Filter */}
@@ -668,7 +785,8 @@ export default function TransactionsPage() {
                           <span className="ml-1">
                             {transaction.status === 'COMPLETED' ? 'Selesai' :
                              transaction.status === 'PENDING' ? 'Pending' :
-                             transaction.status === 'REFUNDED' ? 'Dikembalikan' : 'Dibatalkan'}
+                             transaction.status === 'REFUNDED' ? 'Dikembalikan' :
+                             transaction.status === 'PARTIALLY_REFUNDED' ? 'Dikembalikan Sebagian' : 'Dibatalkan'}
                           </span>
                         </span>
                       </td>
@@ -691,7 +809,17 @@ export default function TransactionsPage() {
                           >
                             <PrinterIcon className="h-5 w-5" />
                           </button>
-                          {transaction.status === 'COMPLETED' && (
+                          {transaction.status !== 'CANCELLED' && (
+                            <button
+                              onClick={() => downloadPdf(transaction, 'invoice')}
+                              disabled={downloadingPdf !== null}
+                              className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                              title="Unduh Invoice PDF"
+                            >
+                              <DocumentTextIcon className="h-5 w-5" />
+                            </button>
+                          )}
+                          {(transaction.status === 'COMPLETED' || transaction.status === 'PARTIALLY_REFUNDED') && (
                             <button
                               onClick={() => handleRefund(transaction)}
                               className="text-orange-600 hover:text-orange-900"
@@ -787,7 +915,8 @@ export default function TransactionsPage() {
                       <span className="ml-1">
                         {selectedTransaction.status === 'COMPLETED' ? 'Selesai' :
                          selectedTransaction.status === 'PENDING' ? 'Pending' :
-                         selectedTransaction.status === 'REFUNDED' ? 'Dikembalikan' : 'Dibatalkan'}
+                         selectedTransaction.status === 'REFUNDED' ? 'Dikembalikan' :
+                         selectedTransaction.status === 'PARTIALLY_REFUNDED' ? 'Dikembalikan Sebagian' : 'Dibatalkan'}
                       </span>
                     </span>
                   </div>
@@ -818,7 +947,12 @@ export default function TransactionsPage() {
                         {selectedTransaction.items.map((item) => (
                           <tr key={item.id}>
                             <td className="px-4 py-2 text-sm text-gray-900">{item.name}</td>
-                            <td className="px-4 py-2 text-sm text-gray-900">{item.quantity}</td>
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              {item.quantity}
+                              {item.refundedQuantity > 0 && (
+                                <span className="block text-xs text-orange-600">{item.refundedQuantity} dikembalikan</span>
+                              )}
+                            </td>
                             <td className="px-4 py-2 text-sm text-gray-900">
                               {formatCurrency(item.price)}
                             </td>
@@ -871,6 +1005,14 @@ export default function TransactionsPage() {
                         {formatCurrency(selectedTransaction.total)}
                       </span>
                     </div>
+                    {!!selectedTransaction.refundedAmount && selectedTransaction.refundedAmount > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-sm text-orange-600">Sudah Dikembalikan:</span>
+                        <span className="text-sm text-orange-600">
+                          -{formatCurrency(selectedTransaction.refundedAmount)}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-sm text-gray-600">Metode Pembayaran:</span>
                       <span className="text-sm text-gray-900">
@@ -898,6 +1040,24 @@ export default function TransactionsPage() {
                     <PrinterIcon className="h-5 w-5 mr-2" />
                     Cetak Struk
                   </button>
+                  <button
+                    onClick={() => downloadPdf(selectedTransaction, 'receipt')}
+                    disabled={downloadingPdf !== null}
+                    className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+                  >
+                    <DocumentArrowDownIcon className="h-5 w-5 mr-2" />
+                    {downloadingPdf === 'receipt' ? 'Mengunduh...' : 'Struk PDF'}
+                  </button>
+                  {selectedTransaction.status !== 'CANCELLED' && (
+                    <button
+                      onClick={() => downloadPdf(selectedTransaction, 'invoice')}
+                      disabled={downloadingPdf !== null}
+                      className="bg-white border border-gray-300 hover:bg-gray-50 disabled:opacity-50 text-gray-700 px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
+                    >
+                      <DocumentTextIcon className="h-5 w-5 mr-2" />
+                      {downloadingPdf === 'invoice' ? 'Mengunduh...' : 'Invoice PDF'}
+                    </button>
+                  )}
                   <button
                     onClick={() => sendReceiptWhatsApp(selectedTransaction)}
                     className="bg-emerald-600 hover:bg-emerald-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center"
@@ -928,18 +1088,48 @@ export default function TransactionsPage() {
         />
       )}
 
-      {/* Refund Confirmation Modal */}
+      {/* Return Dialog */}
       {showRefundModal && actionTransaction && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">
-              Konfirmasi Refund
+          <div className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">
+              Retur Barang
             </h3>
-            <p className="text-gray-600 mb-6">
-              Apakah Anda yakin ingin melakukan refund untuk transaksi <strong>{actionTransaction.id}</strong>?
-              <br /><br />
-              Total yang akan di-refund: <strong>{formatCurrency(actionTransaction.total)}</strong>
+            <p className="text-sm text-gray-600 mb-4">
+              Pilih jumlah barang yang dikembalikan untuk transaksi <strong>{actionTransaction.id}</strong>.
             </p>
+            <div className="border rounded-lg divide-y divide-gray-200 mb-4">
+              {actionTransaction.items.map((item) => {
+                const remaining = item.quantity - (item.refundedQuantity || 0)
+                return (
+                  <div key={item.id} className="flex items-center justify-between px-4 py-3">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{item.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatCurrency(item.price)} x {item.quantity}
+                        {item.refundedQuantity > 0 && ` (${item.refundedQuantity} sudah dikembalikan)`}
+                      </p>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      max={remaining}
+                      value={refundQuantities[item.id] ?? 0}
+                      disabled={remaining <= 0}
+                      onChange={(e) => {
+                        const value = Math.max(0, Math.min(remaining, Math.floor(Number(e.target.value) || 0)))
+                        setRefundQuantities((prev) => ({ ...prev, [item.id]: value }))
+                      }}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                    />
+                  </div>
+                )
+              })}
+            </div>
+            <div className="flex justify-between text-sm mb-6">
+              <span className="text-gray-600">Perkiraan dana dikembalikan:</span>
+              <strong className="text-gray-900">{formatCurrency(estimateRefund(actionTransaction))}</strong>
+            </div>
             <div className="flex justify-end space-x-3">
               <button
                 onClick={() => {
@@ -952,11 +1142,11 @@ export default function TransactionsPage() {
                 Batal
               </button>
               <button
-                onClick={confirmRefund}
+                onClick={() => confirmRefund()}
                 className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 transition-colors disabled:opacity-50"
                 disabled={actionLoading}
               >
-                {actionLoading ? 'Memproses...' : 'Ya, Refund'}
+                {actionLoading ? 'Memproses...' : 'Proses Retur'}
               </button>
             </div>
           </div>
@@ -987,7 +1177,7 @@ export default function TransactionsPage() {
                 Batal
               </button>
               <button
-                onClick={confirmCancel}
+                onClick={() => confirmCancel()}
                 className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
                 disabled={actionLoading}
               >
@@ -1024,7 +1214,7 @@ export default function TransactionsPage() {
                 Batal
               </button>
               <button
-                onClick={confirmAcceptPayment}
+                onClick={() => confirmAcceptPayment()}
                 className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
                 disabled={actionLoading}
               >
@@ -1034,6 +1224,18 @@ export default function TransactionsPage() {
           </div>
         </div>
       )}
+
+      {approvalRequest && (
+        <ManagerApprovalModal
+          request={approvalRequest}
+          onClose={() => setApprovalRequest(null)}
+          onApproved={(approvalToken) => {
+            const { retry } = approvalRequest
+            setApprovalRequest(null)
+            retry(approvalToken)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import {
@@ -28,6 +29,7 @@ interface User {
   isActive: boolean
   createdAt: string
   lastLogin?: string
+  hasApprovalPin?: boolean
 }
 
 interface UserFormData {
@@ -36,6 +38,7 @@ interface UserFormData {
   password: string
   role: 'ADMIN' | 'CASHIER' | 'MANAGER'
   isActive: boolean
+  approvalPin: string
 }
 
 export default function UsersPage() {
@@ -55,6 +58,7 @@ export default function UsersPage() {
     password: '',
     role: 'CASHIER',
     isActive: true,
+    approvalPin: '',
   })
   const [showPassword, setShowPassword] = useState(false)
   const [formErrors, setFormErrors] = useState<Partial<UserFormData>>({})
@@ -66,7 +70,7 @@ export default function UsersPage() {
       router.push('/login')
       return
     }
-    if (user.role !== 'ADMIN') {
+    if (!hasPermission(user.role, 'users:write')) {
       router.push('/dashboard')
       toast.error('Hanya admin yang dapat mengakses halaman ini')
       return
@@ -99,7 +103,7 @@ export default function UsersPage() {
       }
     }
     
-    if (user && user.role === 'ADMIN') {
+    if (user && hasPermission(user.role, 'users:write')) {
       fetchUsers()
     }
   }, [user])
@@ -158,6 +162,10 @@ export default function UsersPage() {
       errors.password = 'Password minimal 6 karakter'
     }
 
+    if (formData.approvalPin && !/^\d{4,6}$/.test(formData.approvalPin)) {
+      errors.approvalPin = 'PIN persetujuan harus 4-6 digit angka'
+    }
+
     setFormErrors(errors)
     return Object.keys(errors).length === 0
   }
@@ -184,6 +192,7 @@ export default function UsersPage() {
             email: formData.email,
             password: formData.password.trim() !== '' ? formData.password : undefined,
             role: formData.role,
+            approvalPin: formData.approvalPin !== '' && formData.role !== 'CASHIER' ? formData.approvalPin : undefined,
           }),
         })
         
@@ -212,6 +221,7 @@ export default function UsersPage() {
             email: formData.email,
             password: formData.password,
             role: formData.role,
+            approvalPin: formData.approvalPin !== '' && formData.role !== 'CASHIER' ? formData.approvalPin : undefined,
           }),
         })
         
@@ -259,6 +269,7 @@ export default function UsersPage() {
           password: '',
           role: userData.role,
           isActive: userData.isActive,
+          approvalPin: '',
         })
       } catch (error: any) {
         console.error('Error fetching user details:', error)
@@ -275,6 +286,7 @@ export default function UsersPage() {
         password: '',
         role: 'CASHIER',
         isActive: true,
+        approvalPin: '',
       })
     }
     
@@ -291,6 +303,7 @@ export default function UsersPage() {
       password: '',
       role: 'CASHIER',
       isActive: true,
+      approvalPin: '',
     })
     setFormErrors({})
   }
@@ -675,7 +688,35 @@ export default function UsersPage() {
                     </select>
                   </div>
 
-                  {/* Status */}
+                  {/* Approval PIN (manager/admin) */}
+                  {formData.role !== 'CASHIER' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        PIN Persetujuan
+                      </label>
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        autoComplete="new-password"
+                        maxLength={6}
+                        value={formData.approvalPin}
+                        onChange={(e) => setFormData({ ...formData, approvalPin: e.target.value.replace(/\D/g, '') })}
+                        className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                          formErrors.approvalPin ? 'border-red-500' : 'border-gray-300'
+                        }`}
+                        placeholder={editingUser?.hasApprovalPin ? 'Kosongkan jika tidak ingin mengubah' : '4-6 digit'}
+                      />
+                      {formErrors.approvalPin ? (
+                        <p className="text-red-500 text-sm mt-1">{formErrors.approvalPin}</p>
+                      ) : (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Dipakai untuk menyetujui pembatalan, refund, diskon besar dan buka laci di layar kasir
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                                    {/* Status */}
                   <div className="flex items-center">
                     <input
                       type="checkbox"
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react'
 import { useAuth } from '@/hooks/useAuth'
+import { hasPermission } from '@/lib/permissions'
 import { useRouter } from 'next/navigation'
 import { ArrowLeftIcon } from '@heroicons/react/24/outline'
 import Navbar from '@/components/Navbar'
@@ -19,12 +20,26 @@ interface Voucher {
   usageLimit?: number
   usageCount: number
   perUserLimit?: number
+  minTierId?: number | null
+  segmentId?: number | null
+  segment?: { id: number, name: string } | null
   startDate: string
   endDate: string
   isActive: boolean
   createdAt: string
 }
 
+interface MemberTier {
+  id: number
+  name: string
+}
+
+interface MemberSegmentOption {
+  id: number
+  name: string
+  isActive: boolean
+}
+
 export default function VouchersPage() {
   const { user, loading: authLoading } = useAuth()
   const router = useRouter()
@@ -35,6 +50,8 @@ export default function VouchersPage() {
   const [searchCode, setSearchCode] = useState('')
   const [searchName, setSearchName] = useState('')
   const [filterActive, setFilterActive] = useState<string>('all')
+  const [tiers, setTiers] = useState<MemberTier[]>([])
+  const [segments, setSegments] = useState<MemberSegmentOption[]>([])
 
   const [formData, setFormData] = useState({
     code: '',
@@ -46,6 +63,8 @@ export default function VouchersPage() {
     maxDiscount: '',
     usageLimit: '',
     perUserLimit: '',
+    minTierId: '',
+    segmentId: '',
     startDate: '',
     endDate: '',
     isActive: true
@@ -74,6 +93,9 @@ export default function VouchersPage() {
           usageLimit: v.maxUses != null ? Number(v.maxUses) : undefined,
           usageCount: Number(v.usedCount || 0),
           perUserLimit: v.maxUsesPerUser != null ? Number(v.maxUsesPerUser) : undefined,
+          minTierId: v.minTierId ?? null,
+          segmentId: v.segmentId ?? null,
+          segment: v.segment ?? null,
           startDate: v.startDate,
           endDate: v.endDate,
           isActive: Boolean(v.isActive),
@@ -94,13 +116,26 @@ export default function VouchersPage() {
       router.push('/login')
       return
     }
-    if (user.role !== 'ADMIN') {
+    if (!hasPermission(user.role, 'vouchers:write')) {
       router.push('/dashboard')
       return
     }
     fetchVouchers()
   }, [authLoading, user, router, fetchVouchers])
 
+  // Daftar tier untuk voucher khusus tier member
+  useEffect(() => {
+    if (!user || !hasPermission(user.role, 'vouchers:write')) return
+    apiFetch('/api/v1/member-tiers')
+      .then((res) => (res.ok ? res.json() : { tiers: [] }))
+      .then((data) => setTiers(data.tiers || []))
+      .catch((error) => console.error('Error fetching member tiers:', error))
+    apiFetch('/api/v1/member-segments')
+      .then((res) => (res.ok ? res.json() : { segments: [] }))
+      .then((data) => setSegments(data.segments || []))
+      .catch((error) => console.error('Error fetching member segments:', error))
+  }, [user])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     try {
@@ -149,6 +184,8 @@ export default function VouchersPage() {
           maxDiscount: formData.maxDiscount ? Number(formData.maxDiscount) : null,
           maxUses: formData.usageLimit ? Number(formData.usageLimit) : null,
           maxUsesPerUser: formData.perUserLimit ? Number(formData.perUserLimit) : null,
+          minTierId: formData.minTierId ? Number(formData.minTierId) : null,
+          segmentId: formData.segmentId ? Number(formData.segmentId) : null,
           startDate: formData.startDate,
           endDate: formData.endDate,
           isActive: formData.isActive
@@ -181,6 +218,8 @@ export default function VouchersPage() {
       maxDiscount: '',
       usageLimit: '',
       perUserLimit: '',
+      minTierId: '',
+      segmentId: '',
       startDate: '',
       endDate: '',
       isActive: true
@@ -201,6 +240,8 @@ export default function VouchersPage() {
       maxDiscount: voucher.maxDiscount?.toString() || '',
       usageLimit: voucher.usageLimit?.toString() || '',
       perUserLimit: voucher.perUserLimit?.toString() || '',
+      minTierId: voucher.minTierId ? String(voucher.minTierId) : '',
+      segmentId: voucher.segmentId ? String(voucher.segmentId) : '',
       startDate: new Date(voucher.startDate).toISOString().slice(0, 16),
       endDate: new Date(voucher.endDate).toISOString().slice(0, 16),
       isActive: voucher.isActive
@@ -381,6 +422,16 @@ export default function VouchersPage() {
                         {voucher.description && (
                           <div className="text-xs sm:text-xs text-gray-500 truncate max-w-[200px] sm:max-w-none break-words">{voucher.description}</div>
                         )}
+                        {voucher.minTierId && (
+                          <div className="text-xs text-amber-700">
+                            Khusus tier {tiers.find((t) => t.id === voucher.minTierId)?.name || voucher.minTierId} ke atas
+                          </div>
+                        )}
+                        {voucher.segmentId && (
+                          <div className="text-xs text-purple-700">
+                            Khusus segmen {voucher.segment?.name || voucher.segmentId}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
@@ -627,6 +678,38 @@ export default function VouchersPage() {
                 </div>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Khusus Tier Member
+                </label>
+                <select
+                  value={formData.minTierId}
+                  onChange={(e) => setFormData({ ...formData, minTierId: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Semua pelanggan</option>
+                  {tiers.map((tier) => (
+                    <option key={tier.id} value={tier.id}>{tier.name} ke atas</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Khusus Segmen Member
+                </label>
+                <select
+                  value={formData.segmentId}
+                  onChange={(e) => setFormData({ ...formData, segmentId: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Semua segmen</option>
+                  {segments.filter((s) => s.isActive || String(s.id) === formData.segmentId).map((segment) => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -0,0 +1,20 @@
+const { checkApproval } = require('../services/approvals')
+
+// Route guard for actions that need a manager's approval (services/approvals.js).
+// Runs after authorize(); sets req.approval for the route to record with the action.
+// resolve(req) returns the transactionId/amount the approval token must cover.
+function requireApproval(action, resolve = (req) => ({ transactionId: req.params.id })) {
+  return async function requireManagerApproval(req, res, next) {
+    try {
+      req.approval = await checkApproval(req, action, resolve(req))
+      next()
+    } catch (err) {
+      if (err?.code === 'APPROVAL_REQUIRED') {
+        return res.status(403).json({ error: err.message, code: err.code, action: err.action })
+      }
+      next(err)
+    }
+  }
+}
+
+module.exports = { requireApproval }
@@ -0,0 +1,18 @@
+const { PERMISSIONS, hasPermission } = require('../../../lib/permissions')
+
+// Route guard for the shared permission matrix (lib/permissions.js).
+// Must run after authMiddleware so req.user carries the role from the database.
+function authorize(permission) {
+  if (!PERMISSIONS[permission]) {
+    throw new Error(`authorize: unknown permission ${permission}`)
+  }
+  return function authorizeRole(req, res, next) {
+    if (!req.user) return res.status(401).json({ error: 'Unauthorized' })
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ error: `Forbidden: ${permission} permission required` })
+    }
+    next()
+  }
+}
+
+module.exports = { authorize }
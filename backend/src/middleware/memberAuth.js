@@ -0,0 +1,26 @@
+const db = require('../models')
+const { verifyMemberToken } = require('../services/memberPortal')
+
+// Guard for the member portal (/api/v1/portal). Accepts only member tokens
+// from POST /portal/auth/verify-otp; staff tokens are rejected, just as the
+// staff authMiddleware rejects member tokens.
+async function memberAuth(req, res, next) {
+  const authHeader = req.headers['authorization'] || ''
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null
+  if (!token) return res.status(401).json({ error: 'Unauthorized: missing token' })
+
+  const memberId = verifyMemberToken(token)
+  if (!memberId) return res.status(401).json({ error: 'Unauthorized: invalid token' })
+  try {
+    // Deactivated members lose access before their token expires
+    const member = await db.Member.findByPk(memberId, { attributes: ['id', 'isActive'] })
+    if (!member || !member.isActive) return res.status(401).json({ error: 'Unauthorized: member not active' })
+    req.member = { id: member.id }
+    next()
+  } catch (err) {
+    console.error('[Portal] Member auth error:', err)
+    return res.status(500).json({ error: 'Internal Server Error during auth' })
+  }
+}
+
+module.exports = { memberAuth }
@@ -0,0 +1,35 @@
+// Fixed-window rate limiting kept in process memory, for public endpoints such
+// as the member portal login. Counts are per backend process and reset on
+// restart, which is enough to slow down guessing from one client.
+
+function rateLimit({ windowMs, max, key = (req) => req.ip, message = 'Too many requests, please try again later' }) {
+  const hits = new Map()
+
+  const prune = (now) => {
+    for (const [id, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(id)
+    }
+  }
+
+  return function rateLimitRequest(req, res, next) {
+    const id = key(req)
+    // Requests without a key (e.g. no phone in the body) are left to validation
+    if (!id) return next()
+
+    const now = Date.now()
+    if (hits.size > 10000) prune(now)
+    let entry = hits.get(id)
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs }
+      hits.set(id, entry)
+    }
+    entry.count += 1
+    if (entry.count > max) {
+      res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)))
+      return res.status(429).json({ error: message })
+    }
+    next()
+  }
+}
+
+module.exports = { rateLimit }
@@ -0,0 +1,83 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+// One create, update or delete made through the API, written by the audit hooks
+// in services/audit.js. before/after are JSON snapshots: the changed fields for
+// updates, the whole row for creates and deletes, and the where clause / new
+// values for bulk statements.
+module.exports = (sequelize) => {
+  const AuditLog = sequelize.define('AuditLog', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    action: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: { isIn: [['CREATE', 'UPDATE', 'DELETE', 'BULK_UPDATE', 'BULK_DELETE']] },
+    },
+    entity: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    entityId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    // Role at the time of the change; the user may be edited or deleted later
+    actorRole: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    ip: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    method: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    route: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    before: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    after: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  }, {
+    timestamps: true,
+    updatedAt: false,
+    tableName: 'AuditLog',
+    indexes: [
+      { fields: ['entity', 'entityId'] },
+      { fields: ['actorId', 'createdAt'] },
+      { fields: ['createdAt'] },
+    ],
+  });
+
+  AuditLog.associate = (models) => {
+    if (models.User) {
+      AuditLog.belongsTo(models.User, {
+        foreignKey: 'actorId',
+        as: 'actor',
+        constraints: false,
+      });
+    }
+  };
+
+  return AuditLog;
+};
@@ -19,7 +19,7 @@ module.exports = (sequelize) => {
     action: {
       type: DataTypes.STRING,
       allowNull: false,
-      validate: { isIn: [['OPEN_SHIFT', 'CLOSE_SHIFT', 'UPDATE_SHIFT']] },
+      validate: { isIn: [['OPEN_SHIFT', 'CLOSE_SHIFT', 'UPDATE_SHIFT', 'NO_SALE']] },
     },
     details: {
       type: DataTypes.TEXT,
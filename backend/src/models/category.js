@@ -21,6 +21,21 @@ module.exports = (sequelize) => {
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    // Tax rate override in percent; null uses the store rate (TaxSetting.rate)
+    taxRate: {
+      type: DataTypes.FLOAT,
+      allowNull: true,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    // Goods in this category are not subject to PPN
+    taxExempt: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -89,6 +104,8 @@ module.exports = (sequelize) => {
         'id',
         'name',
         'description',
+        'taxRate',
+        'taxExempt',
         'createdAt',
         'updatedAt',
         [sequelize.fn('COUNT', sequelize.col('products.id')), 'productCount'],
@@ -0,0 +1,114 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+// A parked cart. Lives as long as the shift it was parked on: any cashier can
+// resume it while that shift is open, and closing the shift expires it.
+module.exports = (sequelize) => {
+  const HeldCart = sequelize.define('HeldCart', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    cashierShiftId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'CashierShift',
+        key: 'id',
+      },
+    },
+    // Cashier who parked the cart
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    // JSON array of cart lines as the cashier page holds them
+    items: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    customerName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    customerPhone: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    customerEmail: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    voucherCode: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    pointsToUse: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'HELD',
+      validate: { isIn: [['HELD', 'RESUMED', 'DISCARDED', 'EXPIRED']] },
+    },
+    resumedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    resumedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    timestamps: true,
+    tableName: 'HeldCart',
+    indexes: [
+      { fields: ['cashierShiftId', 'status'] },
+      { fields: ['status'] },
+    ],
+  });
+
+  HeldCart.associate = (models) => {
+    if (models.CashierShift) {
+      HeldCart.belongsTo(models.CashierShift, {
+        foreignKey: 'cashierShiftId',
+        as: 'shift',
+      });
+    }
+    if (models.User) {
+      HeldCart.belongsTo(models.User, {
+        foreignKey: 'userId',
+        as: 'user',
+      });
+    }
+    if (models.Member) {
+      HeldCart.belongsTo(models.Member, {
+        foreignKey: 'memberId',
+        as: 'member',
+        constraints: false,
+      });
+    }
+  };
+
+  return HeldCart;
+};
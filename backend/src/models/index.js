@@ -4,8 +4,11 @@ const { sequelize } = require('../lib/sequelize');
 // Import models
 const Category = require('./category')(sequelize, DataTypes);
 const Product = require('./product')(sequelize, DataTypes);
+const ProductVariant = require('./productVariant')(sequelize, DataTypes);
+const StockMovement = require('./stockMovement')(sequelize, DataTypes);
 const Transaction = require('./transaction')(sequelize, DataTypes);
 const TransactionItem = require('./transactionItem')(sequelize, DataTypes);
+const TransactionPayment = require('./transactionPayment')(sequelize, DataTypes);
 const User = require('./user')(sequelize, DataTypes);
 const Member = require('./member')(sequelize, DataTypes);
 const Voucher = require('./voucher')(sequelize, DataTypes);
@@ -17,6 +20,27 @@ const CategoryPromotion = require('./categoryPromotion')(sequelize, DataTypes);
 const OperationalExpense = require('./operationalExpense')(sequelize, DataTypes);
 const CashierShift = require('./cashierShift')(sequelize, DataTypes);
 const CashierShiftLog = require('./cashierShiftLog')(sequelize, DataTypes);
+const HeldCart = require('./heldCart')(sequelize, DataTypes);
+const Supplier = require('./supplier')(sequelize, DataTypes);
+const PurchaseOrder = require('./purchaseOrder')(sequelize, DataTypes);
+const PurchaseOrderItem = require('./purchaseOrderItem')(sequelize, DataTypes);
+const ManagerApproval = require('./managerApproval')(sequelize, DataTypes);
+const AuditLog = require('./auditLog')(sequelize, DataTypes);
+const SalesArchive = require('./salesArchive')(sequelize, DataTypes);
+const TaxSetting = require('./taxSetting')(sequelize, DataTypes);
+const LoyaltyProgram = require('./loyaltyProgram')(sequelize, DataTypes);
+const MemberTier = require('./memberTier')(sequelize, DataTypes);
+const MemberTierHistory = require('./memberTierHistory')(sequelize, DataTypes);
+const PointLot = require('./pointLot')(sequelize, DataTypes);
+const MemberOtp = require('./memberOtp')(sequelize, DataTypes);
+const MemberReward = require('./memberReward')(sequelize, DataTypes);
+const MemberRfm = require('./memberRfm')(sequelize, DataTypes);
+const MemberSegment = require('./memberSegment')(sequelize, DataTypes);
+const MemberSegmentMember = require('./memberSegmentMember')(sequelize, DataTypes);
+const WhatsAppCampaign = require('./whatsAppCampaign')(sequelize, DataTypes);
+const WhatsAppCampaignRecipient = require('./whatsAppCampaignRecipient')(sequelize, DataTypes);
+const OutboundMessage = require('./outboundMessage')(sequelize, DataTypes);
+const Invoice = require('./invoice')(sequelize, DataTypes);
 
 // Define associations - removed duplicate Category-Product association as it's handled in model associate methods
 
@@ -26,6 +50,8 @@ const db = {
   Sequelize,
   Category,
   Product,
+  ProductVariant,
+  StockMovement,
   Transaction,
   TransactionItem,
   User,
@@ -39,6 +65,28 @@ const db = {
   OperationalExpense
   , CashierShift
   , CashierShiftLog
+  , Supplier
+  , PurchaseOrder
+  , PurchaseOrderItem
+  , TransactionPayment
+  , HeldCart
+  , ManagerApproval
+  , AuditLog
+  , SalesArchive
+  , TaxSetting
+  , LoyaltyProgram
+  , MemberTier
+  , MemberTierHistory
+  , PointLot
+  , MemberOtp
+  , MemberReward
+  , MemberRfm
+  , MemberSegment
+  , MemberSegmentMember
+  , WhatsAppCampaign
+  , WhatsAppCampaignRecipient
+  , OutboundMessage
+  , Invoice
 };
 
 // Set up associations
@@ -48,4 +96,10 @@ Object.keys(db).forEach(modelName => {
   }
 });
 
+// Every create/update/delete made during an API request is written to AuditLog
+require('../services/audit').registerAuditHooks(db);
+
+// Point credits and debits in PointHistory open and use up PointLot rows
+require('../services/pointLots').registerPointLotHooks(db);
+
 module.exports = db;
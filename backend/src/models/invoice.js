@@ -0,0 +1,65 @@
+const { DataTypes } = require('sequelize');
+
+// Invoice number of a transaction, issued the first time its invoice is
+// downloaded (services/invoices.js) and kept for good, so a reprint shows the
+// same number. Numbers run without gaps within a calendar year (Asia/Jakarta),
+// e.g. INV-2026-000001, INV-2026-000002, ...
+module.exports = (sequelize) => {
+  const Invoice = sequelize.define('Invoice', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    year: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    sequence: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+      },
+    },
+    number: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    issuedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    issuedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'Invoices',
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['year', 'sequence'] },
+    ],
+  });
+
+  Invoice.associate = (models) => {
+    Invoice.belongsTo(models.Transaction, {
+      foreignKey: 'transactionId',
+      as: 'transaction',
+      constraints: false,
+    });
+    Invoice.belongsTo(models.User, {
+      foreignKey: 'issuedBy',
+      as: 'issuer',
+      constraints: false,
+    });
+  };
+
+  return Invoice;
+};
@@ -0,0 +1,132 @@
+const { DataTypes } = require('sequelize');
+
+// Member points rules, a single row edited from /admin/loyalty. All points
+// math goes through services/loyalty.js.
+module.exports = (sequelize) => {
+  const LoyaltyProgram = sequelize.define('LoyaltyProgram', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    // Earn rate: rupiah spent per point earned
+    spendPerPoint: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1000,
+      validate: {
+        min: 1,
+      },
+    },
+    // Redemption value: rupiah off per point redeemed
+    pointValue: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1000,
+      validate: {
+        min: 0,
+      },
+    },
+    // Smallest number of points a member can redeem on one sale
+    minRedeemPoints: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    // Most points one sale can earn; null means no cap
+    maxPointsPerTransaction: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+    },
+    // JSON object of categoryId -> earn multiplier, e.g. { "<id>": 2 }
+    categoryMultipliers: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '{}',
+    },
+    // JSON array of category ids whose items earn no points
+    excludedCategoryIds: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '[]',
+    },
+    // Points expire this many months after they were earned; null means never
+    pointsExpiryMonths: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    // WhatsApp reminder this many days before points expire; null means none
+    expiryReminderDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      validate: {
+        min: 1,
+      },
+    },
+    // Personal voucher sent on a member's birthday / membership anniversary:
+    // 'percentage' or 'fixed' with its value; a null value turns the reward off
+    birthdayVoucherType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'fixed',
+      validate: {
+        isIn: [['percentage', 'fixed']],
+      },
+    },
+    birthdayVoucherValue: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    anniversaryVoucherType: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'fixed',
+      validate: {
+        isIn: [['percentage', 'fixed']],
+      },
+    },
+    anniversaryVoucherValue: {
+      type: DataTypes.DECIMAL(10, 2),
+      allowNull: true,
+    },
+    // Days a reward voucher stays valid after it is issued
+    rewardVoucherDays: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 14,
+      validate: {
+        min: 1,
+      },
+    },
+    updatedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+  }, {
+    tableName: 'LoyaltyProgram',
+    timestamps: true,
+  });
+
+  LoyaltyProgram.associate = (models) => {
+    LoyaltyProgram.belongsTo(models.User, {
+      foreignKey: 'updatedBy',
+      as: 'updater',
+      constraints: false,
+    });
+  };
+
+  return LoyaltyProgram;
+};
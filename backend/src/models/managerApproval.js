@@ -0,0 +1,91 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+// A sensitive cashier action (cancel, refund, mark-paid, large discount, no-sale)
+// and the MANAGER or ADMIN who approved it. tokenId is the approval token's jti,
+// so each token backs exactly one action; self-approvals by managers have none.
+module.exports = (sequelize) => {
+  const ManagerApproval = sequelize.define('ManagerApproval', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    action: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: { isIn: [['CANCEL', 'REFUND', 'MARK_PAID', 'DISCOUNT', 'NO_SALE']] },
+    },
+    tokenId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+    },
+    approvedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    requestedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    cashierShiftId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    // JSON with action specifics, e.g. the discount amount or no-sale reason
+    details: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  }, {
+    timestamps: true,
+    tableName: 'ManagerApproval',
+    indexes: [
+      { fields: ['transactionId'] },
+      { fields: ['approvedBy', 'createdAt'] },
+      { fields: ['action'] },
+    ],
+  });
+
+  ManagerApproval.associate = (models) => {
+    if (models.User) {
+      ManagerApproval.belongsTo(models.User, {
+        foreignKey: 'approvedBy',
+        as: 'approver',
+      });
+      ManagerApproval.belongsTo(models.User, {
+        foreignKey: 'requestedBy',
+        as: 'requester',
+      });
+    }
+    if (models.Transaction) {
+      ManagerApproval.belongsTo(models.Transaction, {
+        foreignKey: 'transactionId',
+        as: 'transaction',
+        constraints: false,
+      });
+    }
+    if (models.CashierShift) {
+      ManagerApproval.belongsTo(models.CashierShift, {
+        foreignKey: 'cashierShiftId',
+        as: 'shift',
+        constraints: false,
+      });
+    }
+  };
+
+  return ManagerApproval;
+};
@@ -9,6 +9,25 @@ module.exports = (sequelize, DataTypes) => {
         foreignKey: 'memberId',
         as: 'transactions'
       });
+      Member.belongsTo(models.MemberTier, {
+        foreignKey: 'tierId',
+        as: 'tier',
+        constraints: false
+      });
+      Member.hasMany(models.MemberTierHistory, {
+        foreignKey: 'memberId',
+        as: 'tierHistory'
+      });
+      Member.hasOne(models.MemberRfm, {
+        foreignKey: 'memberId',
+        as: 'rfm',
+        constraints: false
+      });
+      Member.hasMany(models.MemberSegmentMember, {
+        foreignKey: 'memberId',
+        as: 'segmentMemberships',
+        constraints: false
+      });
     }
   }
   
@@ -32,11 +51,23 @@ module.exports = (sequelize, DataTypes) => {
       allowNull: true,
       unique: true
     },
+    // Optional; a birthday reward voucher is sent on this day every year
+    birthDate: {
+      type: DataTypes.DATEONLY,
+      allowNull: true
+    },
     isActive: {
       type: DataTypes.BOOLEAN,
       allowNull: false,
       defaultValue: true
     },
+    // Member asked not to get WhatsApp campaigns; receipts, login codes and
+    // reward greetings still go out
+    marketingOptOut: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
     points: {
       type: DataTypes.INTEGER,
       allowNull: false,
@@ -47,6 +78,17 @@ module.exports = (sequelize, DataTypes) => {
       allowNull: false,
       defaultValue: 0.00
     },
+    // Current tier, kept up to date by services/memberTiers.js
+    tierId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Spend over the last 12 months as of the last tier recalculation
+    rollingSpend: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0.00
+    },
     createdAt: {
       type: DataTypes.DATE,
       allowNull: false,
@@ -0,0 +1,60 @@
+const { DataTypes } = require('sequelize');
+
+// One-time login code for the member portal, sent over WhatsApp. Only a hash
+// of the code is kept; services/memberPortal.js checks expiry and attempts.
+module.exports = (sequelize) => {
+  const MemberOtp = sequelize.define('MemberOtp', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'members',
+        key: 'id',
+      },
+    },
+    codeHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+    // Wrong codes entered against this OTP
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Set once the code logged the member in, or a newer code replaced it
+    consumedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    requestIp: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'MemberOtps',
+    timestamps: true,
+    indexes: [
+      { fields: ['memberId', 'createdAt'] },
+    ],
+  });
+
+  MemberOtp.associate = (models) => {
+    MemberOtp.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+  };
+
+  return MemberOtp;
+};
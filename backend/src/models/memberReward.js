@@ -0,0 +1,69 @@
+const { DataTypes } = require('sequelize');
+
+// A birthday or membership anniversary voucher issued to a member, one per
+// occasion per year. Written by services/memberRewards.js; the rewards report
+// follows the voucher to see whether it was redeemed.
+module.exports = (sequelize) => {
+  const MemberReward = sequelize.define('MemberReward', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'members',
+        key: 'id',
+      },
+    },
+    occasion: {
+      type: DataTypes.ENUM('BIRTHDAY', 'ANNIVERSARY'),
+      allowNull: false,
+    },
+    year: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    voucherId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'vouchers',
+        key: 'id',
+      },
+    },
+    // When the WhatsApp greeting with the code went out; null until then
+    notifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    notifyError: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'MemberRewards',
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['memberId', 'occasion', 'year'] },
+      { fields: ['createdAt'] },
+    ],
+  });
+
+  MemberReward.associate = (models) => {
+    MemberReward.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+    MemberReward.belongsTo(models.Voucher, {
+      foreignKey: 'voucherId',
+      as: 'voucher',
+      constraints: false,
+    });
+  };
+
+  return MemberReward;
+};
@@ -0,0 +1,83 @@
+const { DataTypes } = require('sequelize');
+
+// RFM metrics of one member as of the last segment recomputation. Recency,
+// frequency and monetary cover paid sales in the last 12 months; scores run
+// 1-5 (5 = best, by quintile among members who bought in that window) and are
+// 0 for members without sales in it. lastVisit is all time.
+module.exports = (sequelize) => {
+  const MemberRfm = sequelize.define('MemberRfm', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      unique: true,
+    },
+    lastVisit: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    // Days since the last sale in the window; null without one
+    recencyDays: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    frequency: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Paid total less refunds (rupiah)
+    monetary: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    recencyScore: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    frequencyScore: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    monetaryScore: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Category with the largest share of the member's spend
+    topCategoryId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    // JSON { categoryId: percent of spend }
+    categoryShares: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '{}',
+    },
+    computedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+    },
+  }, {
+    tableName: 'MemberRfm',
+    timestamps: false,
+  });
+
+  MemberRfm.associate = (models) => {
+    MemberRfm.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+  };
+
+  return MemberRfm;
+};
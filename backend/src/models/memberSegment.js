@@ -0,0 +1,63 @@
+const { DataTypes } = require('sequelize');
+
+// Named group of members (e.g. Champions, At Risk) defined by rules over the
+// member's RFM scores, tier, spend, last visit and category affinity. Members
+// are assigned by services/memberSegments.js on a schedule and stored in
+// MemberSegmentMember; a member can belong to several segments.
+module.exports = (sequelize) => {
+  const MemberSegment = sequelize.define('MemberSegment', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // Badge colour in the member list, e.g. '#16a34a'
+    color: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    // JSON object of conditions that must all hold; see services/memberSegments.js
+    rules: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '{}',
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+    // As of the last recomputation
+    memberCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    computedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'MemberSegments',
+    timestamps: true,
+  });
+
+  MemberSegment.associate = (models) => {
+    MemberSegment.hasMany(models.MemberSegmentMember, {
+      foreignKey: 'segmentId',
+      as: 'memberships',
+      constraints: false,
+    });
+  };
+
+  return MemberSegment;
+};
@@ -0,0 +1,43 @@
+const { DataTypes } = require('sequelize');
+
+// A member's place in a segment as of the last recomputation
+module.exports = (sequelize) => {
+  const MemberSegmentMember = sequelize.define('MemberSegmentMember', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    segmentId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+  }, {
+    tableName: 'MemberSegmentMembers',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      { unique: true, fields: ['segmentId', 'memberId'] },
+      { fields: ['memberId'] },
+    ],
+  });
+
+  MemberSegmentMember.associate = (models) => {
+    MemberSegmentMember.belongsTo(models.MemberSegment, {
+      foreignKey: 'segmentId',
+      as: 'segment',
+      constraints: false,
+    });
+    MemberSegmentMember.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+  };
+
+  return MemberSegmentMember;
+};
@@ -0,0 +1,70 @@
+const { DataTypes } = require('sequelize');
+
+// Member tier (e.g. Silver/Gold/Platinum). A member holds the highest active
+// tier whose minSpend their spend over the last 12 months reaches; see
+// services/memberTiers.js. Tiers rank by minSpend.
+module.exports = (sequelize) => {
+  const MemberTier = sequelize.define('MemberTier', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    // Rolling 12-month spend (rupiah) needed to hold the tier
+    minSpend: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    // Multiplies the points a sale earns
+    earnMultiplier: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 1,
+      validate: {
+        min: 0,
+      },
+    },
+    // Automatic discount, percent of the subtotal after promotions and voucher
+    discountPercent: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    // Badge colour on the member card, e.g. '#9ca3af'
+    color: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true,
+    },
+  }, {
+    tableName: 'MemberTier',
+    timestamps: true,
+  });
+
+  MemberTier.associate = (models) => {
+    MemberTier.hasMany(models.Member, {
+      foreignKey: 'tierId',
+      as: 'members',
+      constraints: false,
+    });
+  };
+
+  return MemberTier;
+};
@@ -0,0 +1,61 @@
+const { DataTypes } = require('sequelize');
+
+// One row per tier change of a member, written by services/memberTiers.js
+module.exports = (sequelize) => {
+  const MemberTierHistory = sequelize.define('MemberTierHistory', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'members',
+        key: 'id',
+      },
+    },
+    // null: no tier
+    fromTierId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    toTierId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    // Rolling 12-month spend the change was based on
+    rollingSpend: {
+      type: DataTypes.DECIMAL(12, 2),
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // TRANSACTION: after a sale, refund or cancel; NIGHTLY: the scheduled run;
+    // RECALCULATE: run by an admin or after the tier definitions changed
+    reason: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: { isIn: [['TRANSACTION', 'NIGHTLY', 'RECALCULATE']] },
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'MemberTierHistory',
+    timestamps: true,
+    updatedAt: false,
+    indexes: [
+      { fields: ['memberId', 'createdAt'] },
+    ],
+  });
+
+  MemberTierHistory.associate = (models) => {
+    MemberTierHistory.belongsTo(models.Member, { foreignKey: 'memberId', as: 'member' });
+    MemberTierHistory.belongsTo(models.MemberTier, { foreignKey: 'fromTierId', as: 'fromTier', constraints: false });
+    MemberTierHistory.belongsTo(models.MemberTier, { foreignKey: 'toTierId', as: 'toTier', constraints: false });
+  };
+
+  return MemberTierHistory;
+};
@@ -0,0 +1,83 @@
+const { DataTypes } = require('sequelize');
+
+// A message waiting to go out, or one that went out, through the outbound
+// queue (services/outboundMessages.js). Rows survive restarts: SENDING rows
+// left behind by a crashed worker are picked up again once their lock is
+// stale. DEAD messages failed for good and wait for a manual resend.
+module.exports = (sequelize) => {
+  const OutboundMessage = sequelize.define('OutboundMessage', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    channel: {
+      type: DataTypes.ENUM('WHATSAPP'),
+      allowNull: false,
+      defaultValue: 'WHATSAPP',
+    },
+    kind: {
+      type: DataTypes.ENUM('RECEIPT'),
+      allowNull: false,
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    recipient: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    body: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('PENDING', 'SENDING', 'SENT', 'DEAD'),
+      allowNull: false,
+      defaultValue: 'PENDING',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    nextAttemptAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    lastError: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    providerMessageId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    sentAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'OutboundMessages',
+    timestamps: true,
+    indexes: [
+      { fields: ['status', 'nextAttemptAt'] },
+      { fields: ['transactionId'] },
+    ],
+  });
+
+  OutboundMessage.associate = (models) => {
+    OutboundMessage.belongsTo(models.Transaction, {
+      foreignKey: 'transactionId',
+      as: 'transaction',
+      constraints: false,
+    });
+  };
+
+  return OutboundMessage;
+};
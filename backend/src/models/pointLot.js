@@ -0,0 +1,70 @@
+const { DataTypes } = require('sequelize');
+
+// Points a member received at one moment, used up oldest first. Kept in step
+// with PointHistory by services/pointLots.js; the expiry job expires lots
+// whose earnedAt is older than LoyaltyProgram.pointsExpiryMonths.
+module.exports = (sequelize) => {
+  const PointLot = sequelize.define('PointLot', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'members',
+        key: 'id',
+      },
+    },
+    // The EARNED/ADJUSTED entry that credited the points; null for the
+    // opening lot of a balance that existed before lots were tracked
+    pointHistoryId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    points: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    // Not yet used or expired
+    remaining: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    earnedAt: {
+      type: DataTypes.DATE,
+      allowNull: false,
+      defaultValue: DataTypes.NOW,
+    },
+    // When the expiry reminder for this lot went out
+    remindedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'PointLots',
+    timestamps: true,
+    indexes: [
+      { fields: ['memberId', 'earnedAt'] },
+    ],
+  });
+
+  PointLot.associate = (models) => {
+    PointLot.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+  };
+
+  return PointLot;
+};
@@ -1,5 +1,6 @@
 const { DataTypes } = require('sequelize');
 const { v4: uuidv4 } = require('uuid');
+const { isEncodable, generateInternalEan13, MAX_BARCODE_LENGTH } = require('../services/barcodes');
 
 module.exports = (sequelize) => {
   const Product = sequelize.define('Product', {
@@ -74,6 +75,12 @@ module.exports = (sequelize) => {
       type: DataTypes.BOOLEAN,
       defaultValue: true,
     },
+    // Not subject to PPN regardless of its category
+    taxExempt: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
     costPrice: {
       type: DataTypes.FLOAT,
       defaultValue: 0,
@@ -90,9 +97,29 @@ module.exports = (sequelize) => {
         len: [0, 50],
       },
     },
+    // EAN-13 or any code printable as Code128; internal EAN-13 when left empty
+    barcode: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+      validate: {
+        isPrintable(value) {
+          if (value != null && !isEncodable(value)) {
+            throw new Error(`Barcode must be 1-${MAX_BARCODE_LENGTH} printable ASCII characters`);
+          }
+        },
+      },
+      set(value) {
+        // Normalize empty string to null so the unique index ignores it
+        const str = value === undefined || value === null ? '' : String(value).trim();
+        this.setDataValue('barcode', str === '' ? null : str);
+      },
+    },
+    // Color and size describe single-SKU products; products with variants
+    // keep them per ProductVariant instead
     color: {
       type: DataTypes.STRING,
-      allowNull: false,
+      allowNull: true,
       validate: {
         notEmpty: true,
         len: [1, 50],
@@ -100,7 +127,7 @@ module.exports = (sequelize) => {
     },
     size: {
       type: DataTypes.STRING,
-      allowNull: false,
+      allowNull: true,
       validate: {
         notEmpty: true,
         len: [1, 20],
@@ -117,6 +144,10 @@ module.exports = (sequelize) => {
         fields: ['productCode'],
         unique: true,
       },
+      {
+        fields: ['barcode'],
+        unique: true,
+      },
       {
         fields: ['isActive'],
       },
@@ -139,13 +170,16 @@ module.exports = (sequelize) => {
       },
     },
     hooks: {
-      beforeCreate: (product, options) => {
+      beforeCreate: async (product, options) => {
         // Generate product code if not provided
         if (!product.productCode) {
           const timestamp = Date.now().toString().slice(-6);
           const random = Math.random().toString(36).substring(2, 5).toUpperCase();
           product.productCode = `PRD-${timestamp}-${random}`;
         }
+        if (!product.barcode) {
+          product.barcode = await generateInternalEan13(sequelize.models, product.productCode, { transaction: options.transaction });
+        }
       },
       beforeUpdate: (product, options) => {
         // Log stock changes
@@ -169,6 +203,22 @@ module.exports = (sequelize) => {
       as: 'transactionItems',
     });
 
+    // Has many size/color variants
+    if (models.ProductVariant) {
+      Product.hasMany(models.ProductVariant, {
+        foreignKey: 'productId',
+        as: 'variants',
+      });
+    }
+
+    // Stock ledger
+    if (models.StockMovement) {
+      Product.hasMany(models.StockMovement, {
+        foreignKey: 'productId',
+        as: 'stockMovements',
+      });
+    }
+
     // Many-to-Many with Promotions through ProductPromotion (if exists)
     if (models.Promotion && models.ProductPromotion) {
       Product.belongsToMany(models.Promotion, {
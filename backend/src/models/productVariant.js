@@ -0,0 +1,129 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = (sequelize) => {
+  const ProductVariant = sequelize.define('ProductVariant', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    productId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'Product',
+        key: 'id',
+      },
+    },
+    size: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 20],
+      },
+    },
+    color: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 50],
+      },
+    },
+    productCode: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+      validate: {
+        len: [0, 50],
+      },
+    },
+    barcode: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      unique: true,
+      validate: {
+        len: [0, 50],
+      },
+      set(value) {
+        // Normalize empty string to null so the unique index ignores it
+        const str = value === undefined || value === null ? '' : String(value).trim();
+        this.setDataValue('barcode', str === '' ? null : str);
+      },
+    },
+    // Null means the variant sells at the parent product price
+    price: {
+      type: DataTypes.FLOAT,
+      allowNull: true,
+      validate: {
+        min: 0,
+      },
+    },
+    stock: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+      validate: {
+        isInt: true,
+      },
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  }, {
+    timestamps: true,
+    tableName: 'ProductVariant',
+    indexes: [
+      {
+        fields: ['productId'],
+      },
+      {
+        fields: ['productId', 'size', 'color'],
+        unique: true,
+      },
+      {
+        fields: ['productCode'],
+        unique: true,
+      },
+      {
+        fields: ['barcode'],
+        unique: true,
+      },
+    ],
+    hooks: {
+      beforeCreate: async (variant, options) => {
+        // Derive SKU from the parent code, e.g. PRD-123456-ABC-M-RED
+        if (!variant.productCode) {
+          const parent = await sequelize.models.Product.findByPk(variant.productId, {
+            attributes: ['productCode'],
+            transaction: options.transaction,
+          });
+          const base = (parent && parent.productCode) || 'VAR';
+          const clean = (value) => String(value).toUpperCase().replace(/[^A-Z0-9]+/g, '');
+          variant.productCode = `${base}-${clean(variant.size)}-${clean(variant.color)}`.slice(0, 50);
+        }
+      },
+    },
+  });
+
+  ProductVariant.associate = (models) => {
+    ProductVariant.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product',
+    });
+
+    ProductVariant.hasMany(models.TransactionItem, {
+      foreignKey: 'variantId',
+      as: 'transactionItems',
+    });
+  };
+
+  ProductVariant.prototype.getEffectivePrice = function(product) {
+    if (this.price !== null && this.price !== undefined) return this.price;
+    return product ? product.price : null;
+  };
+
+  return ProductVariant;
+};
@@ -0,0 +1,111 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+const PURCHASE_ORDER_STATUSES = ['DRAFT', 'SENT', 'PARTIALLY_RECEIVED', 'RECEIVED', 'CLOSED'];
+
+module.exports = (sequelize) => {
+  const PurchaseOrder = sequelize.define('PurchaseOrder', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    poNumber: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      unique: true,
+    },
+    supplierId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'Supplier',
+        key: 'id',
+      },
+    },
+    status: {
+      type: DataTypes.STRING,
+      defaultValue: 'DRAFT',
+      validate: {
+        isIn: [PURCHASE_ORDER_STATUSES],
+      },
+    },
+    expectedDate: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    totalAmount: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    sentAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    closedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+  }, {
+    timestamps: true,
+    tableName: 'PurchaseOrder',
+    indexes: [
+      {
+        fields: ['supplierId'],
+      },
+      {
+        fields: ['status'],
+      },
+      {
+        fields: ['createdAt'],
+      },
+    ],
+    hooks: {
+      beforeValidate: (order) => {
+        // e.g. PO-20250101-4821
+        if (!order.poNumber) {
+          const now = new Date();
+          const date = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
+          const random = Math.floor(Math.random() * 10000).toString().padStart(4, '0');
+          order.poNumber = `PO-${date}-${random}`;
+        }
+      },
+    },
+  });
+
+  PurchaseOrder.associate = (models) => {
+    PurchaseOrder.belongsTo(models.Supplier, {
+      foreignKey: 'supplierId',
+      as: 'supplier',
+    });
+
+    PurchaseOrder.hasMany(models.PurchaseOrderItem, {
+      foreignKey: 'purchaseOrderId',
+      as: 'items',
+    });
+
+    PurchaseOrder.belongsTo(models.User, {
+      foreignKey: 'createdBy',
+      as: 'creator',
+    });
+  };
+
+  PurchaseOrder.STATUSES = PURCHASE_ORDER_STATUSES;
+
+  return PurchaseOrder;
+};
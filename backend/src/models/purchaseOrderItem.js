@@ -0,0 +1,93 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = (sequelize) => {
+  const PurchaseOrderItem = sequelize.define('PurchaseOrderItem', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    purchaseOrderId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'PurchaseOrder',
+        key: 'id',
+      },
+    },
+    productId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'Product',
+        key: 'id',
+      },
+    },
+    variantId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      references: {
+        model: 'ProductVariant',
+        key: 'id',
+      },
+    },
+    quantityOrdered: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      validate: {
+        min: 1,
+        isInt: true,
+      },
+    },
+    quantityReceived: {
+      type: DataTypes.INTEGER,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+        isInt: true,
+      },
+    },
+    unitCost: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+  }, {
+    timestamps: true,
+    tableName: 'PurchaseOrderItem',
+    indexes: [
+      {
+        fields: ['purchaseOrderId'],
+      },
+      {
+        fields: ['productId'],
+      },
+    ],
+  });
+
+  PurchaseOrderItem.associate = (models) => {
+    PurchaseOrderItem.belongsTo(models.PurchaseOrder, {
+      foreignKey: 'purchaseOrderId',
+      as: 'purchaseOrder',
+    });
+
+    PurchaseOrderItem.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product',
+    });
+
+    PurchaseOrderItem.belongsTo(models.ProductVariant, {
+      foreignKey: 'variantId',
+      as: 'variant',
+    });
+  };
+
+  PurchaseOrderItem.prototype.getRemainingQuantity = function() {
+    return Math.max(0, Number(this.quantityOrdered || 0) - Number(this.quantityReceived || 0));
+  };
+
+  return PurchaseOrderItem;
+};
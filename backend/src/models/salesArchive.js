@@ -0,0 +1,114 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+// A closed sales period. The transactions in it (transactionIds) are re-read
+// from the period on every export of a draft, must be exported again if the
+// period changes before the archive is applied, and are only flagged
+// (Transaction.archiveId/archivedAt), so restoring is just clearing the flag.
+// DRAFT -> ARCHIVED -> RESTORED, or DRAFT -> DISCARDED.
+module.exports = (sequelize) => {
+  const SalesArchive = sequelize.define('SalesArchive', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    // Calendar days (Asia/Jakarta), inclusive
+    periodStart: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    periodEnd: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'DRAFT',
+      validate: { isIn: [['DRAFT', 'ARCHIVED', 'RESTORED', 'DISCARDED']] },
+    },
+    // JSON array of the Transaction ids covered by this archive, as of the last export
+    transactionIds: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '[]',
+    },
+    transactionCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // finalTotal of the COMPLETED sales in the period
+    totalSales: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    // sha256 of the last export file, so a download can be checked later
+    exportChecksum: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    exportedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    archivedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    archivedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    restoredBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    restoredAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    timestamps: true,
+    tableName: 'SalesArchive',
+    indexes: [
+      { fields: ['status'] },
+      { fields: ['periodStart', 'periodEnd'] },
+    ],
+  });
+
+  SalesArchive.associate = (models) => {
+    if (models.User) {
+      SalesArchive.belongsTo(models.User, {
+        foreignKey: 'createdBy',
+        as: 'creator',
+      });
+      SalesArchive.belongsTo(models.User, {
+        foreignKey: 'archivedBy',
+        as: 'archiver',
+        constraints: false,
+      });
+      SalesArchive.belongsTo(models.User, {
+        foreignKey: 'restoredBy',
+        as: 'restorer',
+        constraints: false,
+      });
+    }
+  };
+
+  return SalesArchive;
+};
@@ -0,0 +1,104 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+const STOCK_MOVEMENT_REASONS = ['SALE', 'CANCEL', 'REFUND', 'IMPORT', 'ADJUSTMENT', 'RECEIVING', 'EXCHANGE'];
+
+module.exports = (sequelize) => {
+  const StockMovement = sequelize.define('StockMovement', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    productId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'Product',
+        key: 'id',
+      },
+    },
+    // Not a foreign key: history must survive variants being removed
+    variantId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    delta: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    // Product stock after this movement was applied
+    balanceAfter: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    variantBalanceAfter: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    reason: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isIn: [STOCK_MOVEMENT_REASONS],
+      },
+    },
+    // Transaction id, purchase order id, import batch, etc.
+    referenceId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+    note: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+  }, {
+    timestamps: true,
+    updatedAt: false,
+    tableName: 'StockMovement',
+    indexes: [
+      {
+        fields: ['productId', 'createdAt'],
+      },
+      {
+        fields: ['variantId'],
+      },
+      {
+        fields: ['reason'],
+      },
+      {
+        fields: ['referenceId'],
+      },
+    ],
+  });
+
+  StockMovement.associate = (models) => {
+    StockMovement.belongsTo(models.Product, {
+      foreignKey: 'productId',
+      as: 'product',
+    });
+
+    StockMovement.belongsTo(models.ProductVariant, {
+      foreignKey: 'variantId',
+      as: 'variant',
+      constraints: false,
+    });
+
+    StockMovement.belongsTo(models.User, {
+      foreignKey: 'userId',
+      as: 'user',
+    });
+  };
+
+  StockMovement.REASONS = STOCK_MOVEMENT_REASONS;
+
+  return StockMovement;
+};
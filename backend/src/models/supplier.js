@@ -0,0 +1,76 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+module.exports = (sequelize) => {
+  const Supplier = sequelize.define('Supplier', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        notEmpty: true,
+        len: [1, 100],
+      },
+    },
+    contactName: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    phone: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        len: [0, 30],
+      },
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        isEmail: true,
+      },
+      set(value) {
+        const str = value === undefined || value === null ? '' : String(value).trim();
+        this.setDataValue('email', str === '' ? null : str);
+      },
+    },
+    address: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    notes: {
+      type: DataTypes.TEXT,
+      allowNull: true,
+    },
+    isActive: {
+      type: DataTypes.BOOLEAN,
+      defaultValue: true,
+    },
+  }, {
+    timestamps: true,
+    tableName: 'Supplier',
+    indexes: [
+      {
+        fields: ['name'],
+      },
+      {
+        fields: ['isActive'],
+      },
+    ],
+  });
+
+  Supplier.associate = (models) => {
+    if (models.PurchaseOrder) {
+      Supplier.hasMany(models.PurchaseOrder, {
+        foreignKey: 'supplierId',
+        as: 'purchaseOrders',
+      });
+    }
+  };
+
+  return Supplier;
+};
@@ -0,0 +1,64 @@
+const { DataTypes } = require('sequelize');
+
+// Store-wide tax (PPN) configuration, a single row edited from /admin/tax.
+// Categories can override the rate (Category.taxRate) and categories or
+// products can be exempt (taxExempt); see services/tax.js.
+module.exports = (sequelize) => {
+  const TaxSetting = sequelize.define('TaxSetting', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    // Off until the store is registered to collect PPN
+    enabled: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    // Percent, e.g. 11 for PPN 11%
+    rate: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 11,
+      validate: {
+        min: 0,
+        max: 100,
+      },
+    },
+    // true: catalog prices already include tax; false: tax is added on top
+    priceIncludesTax: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    // How each line's tax is rounded to whole rupiah
+    rounding: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'ROUND',
+      validate: { isIn: [['ROUND', 'FLOOR', 'CEIL']] },
+    },
+    updatedBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'users',
+        key: 'id',
+      },
+    },
+  }, {
+    tableName: 'TaxSetting',
+    timestamps: true,
+  });
+
+  TaxSetting.associate = (models) => {
+    TaxSetting.belongsTo(models.User, {
+      foreignKey: 'updatedBy',
+      as: 'updater',
+      constraints: false,
+    });
+  };
+
+  return TaxSetting;
+};
@@ -22,6 +22,12 @@ module.exports = (sequelize) => {
         min: 0,
       },
     },
+    // Prices included the tax when sold, so tax is part of total rather than added to it
+    taxInclusive: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
     discount: {
       type: DataTypes.FLOAT,
       defaultValue: 0,
@@ -62,7 +68,7 @@ module.exports = (sequelize) => {
       type: DataTypes.STRING,
       defaultValue: 'COMPLETED',
       validate: {
-        isIn: [['PENDING', 'COMPLETED', 'CANCELLED', 'REFUNDED']],
+        isIn: [['PENDING', 'COMPLETED', 'CANCELLED', 'REFUNDED', 'PARTIALLY_REFUNDED']],
       },
     },
     paymentStatus: {
@@ -125,15 +131,71 @@ module.exports = (sequelize) => {
         min: 0,
       },
     },
+    // Automatic discount of the member's tier
+    tierDiscount: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    // Rupiah taken off for pointsUsed, at the redemption value of the day
+    pointsDiscount: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    // Running total of money returned through (partial) refunds
+    refundedAmount: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
+    // Value of items returned through exchanges; credited to the exchange sale,
+    // not paid back, so it is kept apart from refundedAmount
+    exchangedAmount: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
     notes: {
       type: DataTypes.TEXT,
       allowNull: true,
     },
+    // Exchange sales point back to the sale whose items were returned
+    exchangeOfId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    // Value of the returned items applied to this sale; only the difference is paid
+    exchangeCredit: {
+      type: DataTypes.FLOAT,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
     idempotencyKey: {
       type: DataTypes.STRING,
       allowNull: true,
       unique: true,
     },
+    // Set while the sale belongs to an applied SalesArchive; archived sales
+    // drop out of the dashboard until the archive is restored
+    archiveId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    archivedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
   }, {
     timestamps: true,
     tableName: 'Transaction',
@@ -156,6 +218,12 @@ module.exports = (sequelize) => {
       {
         fields: ['status', 'createdAt'],
       },
+      {
+        fields: ['exchangeOfId'],
+      },
+      {
+        fields: ['archiveId'],
+      },
     ],
     hooks: {
       // Pastikan finalTotal dihitung sebelum validasi agar lolos not-null constraint
@@ -164,8 +232,10 @@ module.exports = (sequelize) => {
           transaction.finalTotal = (transaction.total || 0) -
             (transaction.discount || 0) -
             (transaction.voucherDiscount || 0) -
-            (transaction.promoDiscount || 0) +
-            (transaction.tax || 0);
+            (transaction.promoDiscount || 0) -
+            (transaction.tierDiscount || 0) -
+            (transaction.pointsDiscount || 0) +
+            (transaction.taxInclusive ? 0 : (transaction.tax || 0));
         }
       },
       beforeUpdate: (transaction, options) => {
@@ -174,12 +244,16 @@ module.exports = (sequelize) => {
             transaction.changed('discount') || 
             transaction.changed('voucherDiscount') || 
             transaction.changed('promoDiscount') || 
+            transaction.changed('tierDiscount') || 
+            transaction.changed('pointsDiscount') || 
             transaction.changed('tax')) {
           transaction.finalTotal = transaction.total - 
             (transaction.discount || 0) - 
             (transaction.voucherDiscount || 0) - 
-            (transaction.promoDiscount || 0) + 
-            (transaction.tax || 0);
+            (transaction.promoDiscount || 0) - 
+            (transaction.tierDiscount || 0) - 
+            (transaction.pointsDiscount || 0) + 
+            (transaction.taxInclusive ? 0 : (transaction.tax || 0));
         }
       },
     },
@@ -209,6 +283,15 @@ module.exports = (sequelize) => {
       onDelete: 'CASCADE',
     });
 
+    // Has many TransactionPayments (one per tender, if exists)
+    if (models.TransactionPayment) {
+      Transaction.hasMany(models.TransactionPayment, {
+        foreignKey: 'transactionId',
+        as: 'payments',
+        onDelete: 'CASCADE',
+      });
+    }
+
     // Has many VoucherUsages (if exists)
     if (models.VoucherUsage) {
       Transaction.hasMany(models.VoucherUsage, {
@@ -218,6 +301,44 @@ module.exports = (sequelize) => {
       });
     }
 
+    // Exchange links between the original sale and its replacement
+    Transaction.belongsTo(models.Transaction, {
+      foreignKey: 'exchangeOfId',
+      as: 'exchangeOf',
+      constraints: false,
+    });
+    Transaction.hasMany(models.Transaction, {
+      foreignKey: 'exchangeOfId',
+      as: 'exchanges',
+      constraints: false,
+    });
+
+    // Manager approvals for cancel/refund/mark-paid/discount (if exists)
+    if (models.ManagerApproval) {
+      Transaction.hasMany(models.ManagerApproval, {
+        foreignKey: 'transactionId',
+        as: 'approvals',
+        constraints: false,
+      });
+    }
+
+    // Invoice number, once an invoice has been issued (if exists)
+    if (models.Invoice) {
+      Transaction.hasOne(models.Invoice, {
+        foreignKey: 'transactionId',
+        as: 'invoice',
+        constraints: false,
+      });
+    }
+
+    if (models.SalesArchive) {
+      Transaction.belongsTo(models.SalesArchive, {
+        foreignKey: 'archiveId',
+        as: 'archive',
+        constraints: false,
+      });
+    }
+
     // Has many PointHistory (if exists)
     if (models.PointHistory) {
       Transaction.hasMany(models.PointHistory, {
@@ -29,6 +29,37 @@ module.exports = (sequelize) => {
         min: 0,
       },
     },
+    // Tax as priced at sale time (services/tax.js). taxableAmount is the line's
+    // tax base (DPP) after its share of the sale's discounts, excluding the tax
+    taxRate: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    taxExempt: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false,
+    },
+    taxableAmount: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    taxAmount: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    // Units already returned by the customer; never exceeds quantity
+    refundedQuantity: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+      validate: {
+        min: 0,
+      },
+    },
     transactionId: {
       type: DataTypes.STRING,
       allowNull: false,
@@ -45,6 +76,14 @@ module.exports = (sequelize) => {
         key: 'id',
       },
     },
+    variantId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      references: {
+        model: 'ProductVariant',
+        key: 'id',
+      },
+    },
   }, {
     tableName: 'TransactionItem',
     timestamps: false,
@@ -82,6 +121,14 @@ module.exports = (sequelize) => {
       as: 'product',
     });
 
+    // Belongs to ProductVariant (optional)
+    if (models.ProductVariant) {
+      TransactionItem.belongsTo(models.ProductVariant, {
+        foreignKey: 'variantId',
+        as: 'variant',
+      });
+    }
+
     // Belongs to Transaction
     TransactionItem.belongsTo(models.Transaction, {
       foreignKey: 'transactionId',
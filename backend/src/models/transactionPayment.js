@@ -0,0 +1,74 @@
+const { DataTypes } = require('sequelize');
+const { v4: uuidv4 } = require('uuid');
+
+// Tender methods that can be combined in one sale; gateway payments stay single-method
+const SPLIT_PAYMENT_METHODS = ['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER'];
+
+// One tender of a transaction. A sale paid Rp 300.000 cash plus the rest by
+// card has two rows; single-method sales have exactly one.
+module.exports = (sequelize) => {
+  const TransactionPayment = sequelize.define('TransactionPayment', {
+    id: {
+      type: DataTypes.STRING,
+      primaryKey: true,
+      defaultValue: () => uuidv4().replace(/-/g, ''),
+    },
+    transactionId: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      references: {
+        model: 'Transaction',
+        key: 'id',
+      },
+    },
+    method: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      validate: {
+        isIn: [['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER', 'MIDTRANS', 'VIRTUAL_ACCOUNT']],
+      },
+    },
+    amount: {
+      type: DataTypes.FLOAT,
+      allowNull: false,
+      validate: {
+        min: 0,
+      },
+    },
+    // EDC approval code, QRIS/transfer reference, etc.
+    reference: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'PAID',
+      validate: {
+        isIn: [['PENDING', 'PAID', 'FAILED', 'CANCELLED']],
+      },
+    },
+    paidAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'TransactionPayment',
+    timestamps: true,
+    indexes: [
+      { fields: ['transactionId'] },
+      { fields: ['method', 'status'] },
+    ],
+  });
+
+  TransactionPayment.associate = (models) => {
+    TransactionPayment.belongsTo(models.Transaction, {
+      foreignKey: 'transactionId',
+      as: 'transaction',
+    });
+  };
+
+  TransactionPayment.SPLIT_METHODS = SPLIT_PAYMENT_METHODS;
+
+  return TransactionPayment;
+};
@@ -9,6 +9,16 @@ module.exports = (sequelize, DataTypes) => {
         foreignKey: 'voucherId',
         as: 'usages'
       });
+      Voucher.belongsTo(models.Member, {
+        foreignKey: 'memberId',
+        as: 'member',
+        constraints: false
+      });
+      Voucher.belongsTo(models.MemberSegment, {
+        foreignKey: 'segmentId',
+        as: 'segment',
+        constraints: false
+      });
     }
   }
   
@@ -69,6 +79,21 @@ module.exports = (sequelize, DataTypes) => {
       type: DataTypes.DATE,
       allowNull: false
     },
+    // Only members of this tier or a higher one can use the voucher
+    minTierId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Personal voucher: only this member can use it (e.g. birthday rewards)
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    // Only members currently in this segment can use the voucher
+    segmentId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
     isActive: {
       type: DataTypes.BOOLEAN,
       allowNull: false,
@@ -0,0 +1,68 @@
+const { DataTypes } = require('sequelize');
+
+// A marketing broadcast over WhatsApp: one message template sent to the
+// members picked by `audience`. Starting the campaign snapshots the
+// recipients into WhatsAppCampaignRecipient; services/whatsappCampaigns.js
+// then sends them a few per minute.
+module.exports = (sequelize) => {
+  const WhatsAppCampaign = sequelize.define('WhatsAppCampaign', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    // Message text with member placeholders such as {nama} and {poin}
+    template: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    // JSON member filter: { segmentId, tierIds, minPoints }
+    audience: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+      defaultValue: '{}',
+    },
+    status: {
+      type: DataTypes.ENUM('DRAFT', 'SENDING', 'PAUSED', 'COMPLETED', 'CANCELLED'),
+      allowNull: false,
+      defaultValue: 'DRAFT',
+    },
+    createdBy: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+    },
+    startedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'WhatsAppCampaigns',
+    timestamps: true,
+    indexes: [
+      { fields: ['status'] },
+    ],
+  });
+
+  WhatsAppCampaign.associate = (models) => {
+    WhatsAppCampaign.hasMany(models.WhatsAppCampaignRecipient, {
+      foreignKey: 'campaignId',
+      as: 'recipients',
+      constraints: false,
+    });
+    WhatsAppCampaign.belongsTo(models.User, {
+      foreignKey: 'createdBy',
+      as: 'creator',
+      constraints: false,
+    });
+  };
+
+  return WhatsAppCampaign;
+};
@@ -0,0 +1,75 @@
+const { DataTypes } = require('sequelize');
+
+// One member of a started campaign with the message rendered for them and
+// its delivery status. SKIPPED covers members who opted out or were
+// deactivated after the campaign started, and recipients of a cancelled
+// campaign that had not been sent yet.
+module.exports = (sequelize) => {
+  const WhatsAppCampaignRecipient = sequelize.define('WhatsAppCampaignRecipient', {
+    id: {
+      type: DataTypes.INTEGER,
+      primaryKey: true,
+      autoIncrement: true,
+    },
+    campaignId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    memberId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+    },
+    phone: {
+      type: DataTypes.STRING,
+      allowNull: false,
+    },
+    message: {
+      type: DataTypes.TEXT,
+      allowNull: false,
+    },
+    status: {
+      type: DataTypes.ENUM('PENDING', 'SENT', 'FAILED', 'SKIPPED'),
+      allowNull: false,
+      defaultValue: 'PENDING',
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0,
+    },
+    error: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    messageId: {
+      type: DataTypes.STRING,
+      allowNull: true,
+    },
+    sentAt: {
+      type: DataTypes.DATE,
+      allowNull: true,
+    },
+  }, {
+    tableName: 'WhatsAppCampaignRecipients',
+    timestamps: true,
+    indexes: [
+      { unique: true, fields: ['campaignId', 'memberId'] },
+      { fields: ['campaignId', 'status'] },
+    ],
+  });
+
+  WhatsAppCampaignRecipient.associate = (models) => {
+    WhatsAppCampaignRecipient.belongsTo(models.WhatsAppCampaign, {
+      foreignKey: 'campaignId',
+      as: 'campaign',
+      constraints: false,
+    });
+    WhatsAppCampaignRecipient.belongsTo(models.Member, {
+      foreignKey: 'memberId',
+      as: 'member',
+      constraints: false,
+    });
+  };
+
+  return WhatsAppCampaignRecipient;
+};
@@ -0,0 +1,245 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { hashPin } = require('../../../services/approvals')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Manager approvals', () => {
+  const app = buildApp()
+  let manager, lockedManager, cashier, category, product
+
+  const pendingSale = (id) => db.Transaction.create({ id, total: 50000, finalTotal: 50000, paymentMethod: 'BANK_TRANSFER', status: 'PENDING', userId: cashier.id })
+
+  const approve = (body) =>
+    request(app).post('/api/v1/approvals').set('Authorization', `Bearer ${tokenFor(cashier)}`).send({ approverId: manager.id, pin: '2468', ...body })
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret', approvalPin: await hashPin('2468') })
+    lockedManager = await db.User.create({ name: 'Manajer 2', email: 'manager2@example.com', role: 'MANAGER', password: 'secret', approvalPin: await hashPin('1357') })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    category = await db.Category.create({ name: 'Pakaian' })
+    product = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: category.id, size: 'M', color: 'Putih' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('requires a single-use manager token before a cashier cancels a sale', async () => {
+    const sale = await pendingSale('tx-approval-1')
+    const other = await pendingSale('tx-approval-2')
+    const cancel = (id, approvalToken) => {
+      const req = request(app).post(`/api/v1/transactions/${id}/cancel`).set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send({ reason: 'Salah input' })
+    }
+
+    const blocked = await cancel(sale.id)
+    expect(blocked.status).toBe(403)
+    expect(blocked.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'CANCEL' })
+
+    await approve({ action: 'CANCEL', transactionId: sale.id, pin: '0000' }).expect(403)
+    const granted = await approve({ action: 'CANCEL', transactionId: sale.id }).expect(201)
+    expect(granted.body.approver).toMatchObject({ id: manager.id, role: 'MANAGER' })
+
+    // Bound to the transaction it was issued for
+    await cancel(other.id, granted.body.approvalToken).expect(403)
+
+    const res = await cancel(sale.id, granted.body.approvalToken)
+    expect(res.status).toBe(200)
+    const notes = JSON.parse(res.body.transaction.notes)
+    expect(notes[notes.length - 1]).toMatchObject({ type: 'CANCELLED', approvedBy: manager.id })
+    const approvals = await db.ManagerApproval.findAll({ where: { transactionId: sale.id } })
+    expect(approvals).toHaveLength(1)
+    expect(approvals[0]).toMatchObject({ action: 'CANCEL', approvedBy: manager.id, requestedBy: cashier.id })
+
+    const replay = await cancel(sale.id, granted.body.approvalToken)
+    expect(replay.status).toBe(403)
+    expect(replay.body.error).toMatch(/already been used/)
+
+    const detail = await request(app).get(`/api/v1/transactions/${sale.id}`).set('Authorization', `Bearer ${tokenFor(cashier)}`).expect(200)
+    expect(detail.body.approvals[0].approver.name).toBe('Manajer')
+  })
+
+  it('only issues and accepts tokens bound to a transaction or discount amount', async () => {
+    await approve({ action: 'CANCEL' }).expect(400)
+    await approve({ action: 'REFUND', transactionId: '' }).expect(400)
+    await approve({ action: 'MARK_PAID' }).expect(400)
+    const noAmount = await approve({ action: 'DISCOUNT', transactionId: 'tx-x' }).expect(400)
+    expect(noAmount.body.error).toMatch(/amount/)
+
+    // A token signed without its scope (e.g. by an older build) covers nothing
+    const unscoped = (action) => jwt.sign(
+      { sub: String(manager.id), action, requestedBy: cashier.id, transactionId: null, amount: null },
+      JWT_SECRET,
+      { issuer: JWT_ISSUER, audience: 'pos-approval', expiresIn: 300, jwtid: `unscoped-${action}` }
+    )
+    const sale = await pendingSale('tx-approval-unscoped')
+    const cancel = await request(app).post(`/api/v1/transactions/${sale.id}/cancel`)
+      .set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      .set('X-Approval-Token', unscoped('CANCEL'))
+      .expect(403)
+    expect(cancel.body.error).toMatch(/does not cover/)
+    expect((await db.Transaction.findByPk(sale.id)).status).toBe('PENDING')
+
+    const discounted = await request(app).post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      .set('X-Approval-Token', unscoped('DISCOUNT'))
+      .send({ items: [{ productId: product.id, quantity: 1, price: 100000 }], subtotal: 100000, discount: 50000, total: 50000, paymentMethod: 'CASH' })
+      .expect(403)
+    expect(discounted.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'DISCOUNT' })
+  })
+
+  it('lets managers approve their own actions', async () => {
+    const sale = await pendingSale('tx-approval-3')
+    await request(app).post(`/api/v1/transactions/${sale.id}/mark-paid`).set('Authorization', `Bearer ${tokenFor(manager)}`).expect(200)
+    const approval = await db.ManagerApproval.findOne({ where: { transactionId: sale.id } })
+    expect(approval).toMatchObject({ action: 'MARK_PAID', approvedBy: manager.id, requestedBy: manager.id, tokenId: null })
+  })
+
+  it('requires approval to mark paid or refund through PATCH', async () => {
+    const sale = await pendingSale('tx-approval-patch')
+    const patch = (body, approvalToken) => {
+      const req = request(app).patch(`/api/v1/transactions/${sale.id}`).set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send(body)
+    }
+
+    const paid = await patch({ paymentStatus: 'PAID' })
+    expect(paid.status).toBe(403)
+    expect(paid.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'MARK_PAID' })
+    for (const status of ['REFUNDED', 'PARTIALLY_REFUNDED']) {
+      const refunded = await patch({ status })
+      expect(refunded.status).toBe(403)
+      expect(refunded.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'REFUND' })
+    }
+    const unchanged = await db.Transaction.findByPk(sale.id)
+    expect(unchanged.status).toBe('PENDING')
+    expect(unchanged.paymentStatus).not.toBe('PAID')
+
+    const granted = await approve({ action: 'MARK_PAID', transactionId: sale.id }).expect(201)
+    const res = await patch({ paymentStatus: 'PAID' }, granted.body.approvalToken).expect(200)
+    expect(res.body.paymentStatus).toBe('PAID')
+    const approval = await db.ManagerApproval.findOne({ where: { transactionId: sale.id } })
+    expect(approval).toMatchObject({ action: 'MARK_PAID', approvedBy: manager.id, requestedBy: cashier.id })
+  })
+
+  it('requires approval to confirm a bank transfer, QRIS or card payment', async () => {
+    for (const [method, path] of [['BANK_TRANSFER', 'bank-transfer'], ['QRIS', 'qris'], ['CARD', 'card']]) {
+      const sale = await db.Transaction.create({ id: `tx-confirm-${path}`, total: 50000, finalTotal: 50000, paymentMethod: method, status: 'PENDING', userId: cashier.id })
+      const confirm = (approvalToken) => {
+        const req = request(app).post(`/api/v1/payments/${path}/confirm`).set('Authorization', `Bearer ${tokenFor(cashier)}`)
+        return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send({ transactionId: sale.id, reference: 'REF-1' })
+      }
+
+      const blocked = await confirm()
+      expect(blocked.status).toBe(403)
+      expect(blocked.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'MARK_PAID' })
+      expect((await db.Transaction.findByPk(sale.id)).status).toBe('PENDING')
+
+      const granted = await approve({ action: 'MARK_PAID', transactionId: sale.id }).expect(201)
+      const res = await confirm(granted.body.approvalToken).expect(200)
+      expect(res.body.transaction).toMatchObject({ status: 'COMPLETED', paymentStatus: 'PAID' })
+      const approval = await db.ManagerApproval.findOne({ where: { transactionId: sale.id } })
+      expect(approval).toMatchObject({ action: 'MARK_PAID', approvedBy: manager.id, requestedBy: cashier.id })
+    }
+  })
+
+  it('requires refund approval when an exchange hands money back', async () => {
+    const cheaper = await db.Product.create({ name: 'Kaos', price: 60000, stock: 10, categoryId: category.id, size: 'M', color: 'Hitam' })
+    const sale = await db.Transaction.create({ id: 'tx-approval-exc', total: 100000, finalTotal: 100000, paymentMethod: 'CASH', status: 'COMPLETED', paymentStatus: 'PAID', userId: cashier.id })
+    const sold = await db.TransactionItem.create({ transactionId: sale.id, productId: product.id, quantity: 1, price: 100000, subtotal: 100000 })
+    const exchange = (approvalToken) => {
+      const req = request(app).post(`/api/v1/transactions/${sale.id}/exchange`).set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send({
+        returnItems: [{ transactionItemId: sold.id, quantity: 1 }],
+        newItems: [{ productId: cheaper.id, quantity: 1 }]
+      })
+    }
+
+    const blocked = await exchange()
+    expect(blocked.status).toBe(403)
+    expect(blocked.body).toMatchObject({ code: 'APPROVAL_REQUIRED', action: 'REFUND' })
+    expect((await db.Transaction.findByPk(sale.id)).status).toBe('COMPLETED')
+
+    const granted = await approve({ action: 'REFUND', transactionId: sale.id }).expect(201)
+    const res = await exchange(granted.body.approvalToken)
+    expect(res.status).toBe(201)
+    expect(res.body.refundDue).toBe(40000)
+    const approval = await db.ManagerApproval.findOne({ where: { transactionId: res.body.exchange.id } })
+    expect(approval).toMatchObject({ action: 'REFUND', approvedBy: manager.id, requestedBy: cashier.id })
+    expect(JSON.parse(approval.details)).toEqual({ exchangeOfId: sale.id, refundDue: 40000 })
+  })
+
+  it('asks for approval only when a manual discount is above the threshold', async () => {
+    const sale = (discount, approvalToken) => {
+      const req = request(app).post('/api/v1/transactions').set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send({
+        items: [{ productId: product.id, quantity: 1, price: 100000 }],
+        subtotal: 100000,
+        discount,
+        total: 100000 - discount,
+        paymentMethod: 'CASH'
+      })
+    }
+
+    const small = await sale(5000).expect(201)
+    expect(small.body.discount).toBe(5000)
+    expect(await db.ManagerApproval.count({ where: { transactionId: small.body.id } })).toBe(0)
+
+    const blocked = await sale(25000)
+    expect(blocked.status).toBe(403)
+    expect(blocked.body.action).toBe('DISCOUNT')
+
+    // A token for a smaller discount does not cover a bigger one
+    const tooSmall = await approve({ action: 'DISCOUNT', amount: 20000 }).expect(201)
+    await sale(25000, tooSmall.body.approvalToken).expect(403)
+
+    const granted = await approve({ action: 'DISCOUNT', amount: 25000 }).expect(201)
+    const res = await sale(25000, granted.body.approvalToken).expect(201)
+    expect(res.body.finalTotal).toBe(75000)
+    const approval = await db.ManagerApproval.findOne({ where: { transactionId: res.body.id } })
+    expect(approval).toMatchObject({ action: 'DISCOUNT', approvedBy: manager.id })
+    expect(JSON.parse(approval.details)).toEqual({ discount: 25000, subtotal: 100000 })
+  })
+
+  it('logs approved no-sale drawer openings on the shift', async () => {
+    const shift = await db.CashierShift.create({ userId: cashier.id, openingBalance: 100000, status: 'OPEN', startedAt: new Date() })
+    const noSale = (approvalToken) => {
+      const req = request(app).post('/api/v1/cashier-shifts/no-sale').set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      return (approvalToken ? req.set('X-Approval-Token', approvalToken) : req).send({ reason: 'Tukar uang kecil' })
+    }
+
+    await noSale().expect(403)
+    const granted = await approve({ action: 'NO_SALE' }).expect(201)
+    const res = await noSale(granted.body.approvalToken).expect(201)
+    expect(JSON.parse(res.body.log.details)).toMatchObject({ reason: 'Tukar uang kecil', approvedBy: manager.id })
+    expect(await db.ManagerApproval.count({ where: { cashierShiftId: shift.id, action: 'NO_SALE' } })).toBe(1)
+  })
+
+  it('locks an approver out after repeated wrong PINs', async () => {
+    for (let i = 0; i < 5; i++) {
+      await approve({ action: 'NO_SALE', approverId: lockedManager.id, pin: '9999' }).expect(403)
+    }
+    await approve({ action: 'NO_SALE', approverId: lockedManager.id, pin: '1357' }).expect(429)
+    await approve({ action: 'NO_SALE', approverId: cashier.id }).expect(403)
+  })
+
+  it('only gates the actions listed in APPROVAL_REQUIRED_ACTIONS', async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = 'REFUND'
+    try {
+      const config = await request(app).get('/api/v1/approvals/config').set('Authorization', `Bearer ${tokenFor(cashier)}`).expect(200)
+      expect(config.body.actions).toEqual(['REFUND'])
+      const sale = await pendingSale('tx-approval-4')
+      await request(app).post(`/api/v1/transactions/${sale.id}/cancel`).set('Authorization', `Bearer ${tokenFor(cashier)}`).expect(200)
+    } finally {
+      delete process.env.APPROVAL_REQUIRED_ACTIONS
+    }
+  })
+})
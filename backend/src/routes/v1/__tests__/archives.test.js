@@ -0,0 +1,115 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Sales archives', () => {
+  const app = buildApp()
+  let admin, manager
+
+  const asAdmin = (req) => req.set('Authorization', `Bearer ${tokenFor(admin)}`)
+  const sale = (id, createdAt, extra = {}) =>
+    db.Transaction.create({ id, total: 100000, finalTotal: 100000, paymentMethod: 'CASH', status: 'COMPLETED', userId: admin.id, createdAt, ...extra })
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+  })
+
+  afterAll(async () => {
+    await db.sequelize.close()
+  })
+
+  it('archives a period only after export and confirmation, and restores it', async () => {
+    await sale('tx-jan-1', new Date('2024-01-05T10:00:00+07:00'))
+    await sale('tx-jan-2', new Date('2024-01-31T23:30:00+07:00'), { status: 'CANCELLED' })
+    await sale('tx-feb-1', new Date('2024-02-01T00:30:00+07:00'))
+    const today = await sale('tx-today', new Date())
+
+    const preview = await asAdmin(request(app).get('/api/v1/archives/preview').query({ from: '2024-01-01', to: '2024-01-31' })).expect(200)
+    expect(preview.body).toMatchObject({ transactionCount: 2, pendingCount: 0, totalSales: 100000 })
+
+    const draft = await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-01-01', to: '2024-01-31', note: 'Tutup buku Januari' }).expect(201)
+    expect(draft.body).toMatchObject({ status: 'DRAFT', transactionCount: 2 })
+
+    // Export comes first
+    const early = await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/apply`)).send({ confirmation: 'ARSIPKAN' })
+    expect(early.status).toBe(409)
+
+    const file = await asAdmin(request(app).get(`/api/v1/archives/${draft.body.id}/export`)).expect(200)
+    expect(file.headers['content-disposition']).toMatch(/arsip-penjualan-2024-01-01_2024-01-31\.json/)
+    expect(file.headers['x-archive-checksum']).toHaveLength(64)
+    const exported = JSON.parse(file.text)
+    expect(exported.transactions.map((t) => t.id)).toEqual(['tx-jan-1', 'tx-jan-2'])
+
+    await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/apply`)).send({ confirmation: 'ya' }).expect(400)
+    const applied = await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/apply`)).send({ confirmation: 'arsipkan' }).expect(200)
+    expect(applied.body).toMatchObject({ archivedCount: 2, archive: { status: 'ARCHIVED', archivedBy: admin.id } })
+    expect((await db.Transaction.findByPk('tx-jan-1')).archiveId).toBe(draft.body.id)
+    expect((await db.Transaction.findByPk('tx-feb-1')).archiveId).toBeNull()
+
+    // Archived rows are gone from the dashboard but not from the database
+    await today.update({ archiveId: draft.body.id, archivedAt: new Date() })
+    const stats = await asAdmin(request(app).get('/api/v1/dashboard/stats')).expect(200)
+    expect(stats.body.todaySales).toBe(0)
+    expect(stats.body.recentTransactions.map((t) => t.id)).toEqual(['tx-feb-1'])
+    await today.update({ archiveId: null, archivedAt: null })
+    expect(await db.Transaction.count()).toBe(4)
+
+    const restored = await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/restore`)).expect(200)
+    expect(restored.body).toMatchObject({ restoredCount: 2, archive: { status: 'RESTORED', restoredBy: admin.id } })
+    expect(await db.Transaction.count({ where: { archiveId: null } })).toBe(4)
+    await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/restore`)).expect(409)
+  })
+
+  it('exports the period as it is now and refuses to apply a stale export', async () => {
+    const refunded = await sale('tx-apr-1', new Date('2024-04-05T10:00:00+07:00'))
+    const draft = await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-04-01', to: '2024-04-30' }).expect(201)
+    const firstFile = await asAdmin(request(app).get(`/api/v1/archives/${draft.body.id}/export`)).expect(200)
+    expect(JSON.parse(firstFile.text).archive).toMatchObject({ transactionCount: 1, totalSales: 100000 })
+
+    // A refund and a late sale after the download
+    await refunded.update({ status: 'REFUNDED' })
+    await sale('tx-apr-2', new Date('2024-04-20T10:00:00+07:00'), { finalTotal: 40000 })
+    const stale = await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/apply`)).send({ confirmation: 'ARSIPKAN' }).expect(409)
+    expect(stale.body.error).toMatch(/download the export again/)
+
+    const file = await asAdmin(request(app).get(`/api/v1/archives/${draft.body.id}/export`)).expect(200)
+    const exported = JSON.parse(file.text)
+    expect(exported.archive).toMatchObject({ transactionCount: 2, totalSales: 40000 })
+    expect(exported.transactions.map((t) => [t.id, t.status])).toEqual([['tx-apr-1', 'REFUNDED'], ['tx-apr-2', 'COMPLETED']])
+    expect(file.headers['x-archive-checksum']).not.toBe(firstFile.headers['x-archive-checksum'])
+
+    const applied = await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/apply`)).send({ confirmation: 'ARSIPKAN' }).expect(200)
+    expect(applied.body).toMatchObject({ archivedCount: 2, archive: { transactionCount: 2, totalSales: 40000 } })
+    await asAdmin(request(app).post(`/api/v1/archives/${draft.body.id}/restore`)).expect(200)
+  })
+
+  it('refuses periods with pending sales or nothing to archive', async () => {
+    await sale('tx-mar-1', new Date('2024-03-05T10:00:00+07:00'), { status: 'PENDING' })
+    await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-03-01', to: '2024-03-31' }).expect(409)
+    await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2023-01-01', to: '2023-01-31' }).expect(400)
+    await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-03-31', to: '2024-03-01' }).expect(400)
+  })
+
+  it('lets drafts be discarded and keeps managers out', async () => {
+    const draft = await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-02-01', to: '2024-02-29' }).expect(201)
+    const discarded = await asAdmin(request(app).delete(`/api/v1/archives/${draft.body.id}`)).expect(200)
+    expect(discarded.body.archive.status).toBe('DISCARDED')
+    await asAdmin(request(app).get(`/api/v1/archives/${draft.body.id}/export`)).expect(409)
+
+    const list = await asAdmin(request(app).get('/api/v1/archives')).expect(200)
+    expect(list.body.archives.map((a) => a.status)).toEqual(['DISCARDED', 'RESTORED', 'RESTORED'])
+    expect(list.body.archives[0]).not.toHaveProperty('transactionIds')
+
+    await request(app).get('/api/v1/archives').set('Authorization', `Bearer ${tokenFor(manager)}`).expect(403)
+    await request(app).post('/api/v1/dashboard/reset').set('Authorization', `Bearer ${tokenFor(admin)}`).expect(404)
+  })
+})
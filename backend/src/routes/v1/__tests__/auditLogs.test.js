@@ -0,0 +1,95 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Audit log', () => {
+  const app = buildApp()
+  let admin, cashier, category, product
+
+  const asAdmin = (req) => req.set('Authorization', `Bearer ${tokenFor(admin)}`)
+  const logsFor = (query) => asAdmin(request(app).get('/api/v1/audit-logs').query(query)).expect(200)
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    category = await db.Category.create({ name: 'Pakaian' })
+    product = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: category.id, size: 'M', color: 'Putih' })
+  })
+
+  afterAll(async () => {
+    await db.sequelize.close()
+  })
+
+  it('does not audit writes made outside a request', async () => {
+    const res = await logsFor({})
+    expect(res.body.count).toBe(0)
+  })
+
+  it('records price edits with actor, route and a before/after diff', async () => {
+    await asAdmin(request(app).put(`/api/v1/products/${product.id}`))
+      .send({ name: 'Kemeja', price: 120000, stock: 10, categoryId: String(category.id), size: 'M', color: 'Putih' })
+      .expect(200)
+
+    const res = await logsFor({ entity: 'Product', entityId: product.id, action: 'UPDATE' })
+    expect(res.body.count).toBe(1)
+    const [entry] = res.body.logs
+    expect(entry).toMatchObject({
+      actorId: admin.id,
+      actorRole: 'ADMIN',
+      method: 'PUT',
+      route: `/api/v1/products/${product.id}`
+    })
+    expect(entry.actor.name).toBe('Admin')
+    expect(entry.ip).toBeTruthy()
+    expect(Number(entry.before.price)).toBe(100000)
+    expect(Number(entry.after.price)).toBe(120000)
+    expect(entry.after).not.toHaveProperty('name')
+  })
+
+  it('redacts credentials on user changes', async () => {
+    await asAdmin(request(app).put(`/api/v1/users/${cashier.id}`))
+      .send({ role: 'MANAGER', password: 'new-secret', approvalPin: '1234' })
+      .expect(200)
+
+    const res = await logsFor({ entity: 'User', entityId: String(cashier.id) })
+    const [entry] = res.body.logs
+    expect(entry.before).toMatchObject({ role: 'CASHIER', password: '[REDACTED]' })
+    expect(entry.after).toMatchObject({ role: 'MANAGER', password: '[REDACTED]', approvalPin: '[REDACTED]' })
+  })
+
+  it('records deletes and bulk statements', async () => {
+    const expense = await db.OperationalExpense.create({ name: 'Listrik', amount: 50000, category: 'UTILITIES', date: new Date(), createdBy: admin.id })
+    await asAdmin(request(app).delete(`/api/v1/operational-expenses/${expense.id}`)).expect(200)
+    const deleted = await logsFor({ entity: 'OperationalExpense', action: 'DELETE' })
+    expect(deleted.body.logs[0]).toMatchObject({ entityId: String(expense.id), after: null })
+    expect(deleted.body.logs[0].before).toMatchObject({ name: 'Listrik' })
+
+    await db.Transaction.create({ id: 'tx-audit-1', total: 50000, finalTotal: 50000, paymentMethod: 'CASH', status: 'COMPLETED', userId: admin.id, createdAt: new Date('2024-01-10T10:00:00+07:00') })
+    const archive = await asAdmin(request(app).post('/api/v1/archives')).send({ from: '2024-01-01', to: '2024-01-31' }).expect(201)
+    await asAdmin(request(app).get(`/api/v1/archives/${archive.body.id}/export`)).expect(200)
+    await asAdmin(request(app).post(`/api/v1/archives/${archive.body.id}/apply`)).send({ confirmation: 'ARSIPKAN' }).expect(200)
+    const bulk = await logsFor({ action: 'BULK_UPDATE', entity: 'Transaction' })
+    expect(bulk.body.logs[0].before.where.id).toEqual({ $in: ['tx-audit-1'] })
+    expect(bulk.body.logs[0].after).toMatchObject({ archiveId: archive.body.id })
+
+    const entities = await asAdmin(request(app).get('/api/v1/audit-logs/entities')).expect(200)
+    expect(entities.body.entities).toEqual(expect.arrayContaining(['OperationalExpense', 'Product', 'SalesArchive', 'Transaction', 'User']))
+  })
+
+  it('pages, validates filters and is admin only', async () => {
+    const page = await logsFor({ limit: 1, page: 2 })
+    expect(page.body).toMatchObject({ page: 2, limit: 1 })
+    expect(page.body.logs).toHaveLength(1)
+
+    await asAdmin(request(app).get('/api/v1/audit-logs').query({ action: 'READ' })).expect(400)
+    await request(app).get('/api/v1/audit-logs').set('Authorization', `Bearer ${tokenFor(cashier)}`).expect(403)
+  })
+})
@@ -0,0 +1,104 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const v1Router = require('../index')
+const { PAGE_PERMISSIONS, canAccessPage } = require('../../../../../lib/permissions')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+// Routes reachable without a role: health, login/session, member portal login and the payment gateway webhook
+const PUBLIC_ROUTES = ['GET /status', 'GET /auth/session', 'POST /auth/login', 'POST /auth/bootstrap-dev', 'POST /auth/request-otp', 'POST /auth/verify-otp', 'POST /midtrans/webhook']
+// Staff routes need a role; member portal routes need a member token instead
+const GUARDS = ['authorizeRole', 'memberAuth']
+
+describe('Role authorization', () => {
+  const app = buildApp()
+  let admin, manager, cashier, category
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    category = await db.Category.create({ name: 'Pakaian' })
+  })
+
+  afterAll(async () => {
+    await db.sequelize.close()
+  })
+
+  it('guards every v1 route with authorize()', () => {
+    const unguarded = []
+    const visit = (stack) => {
+      for (const layer of stack) {
+        if (layer.route) {
+          const guarded = layer.route.stack.some((l) => GUARDS.includes(l.name))
+          for (const method of Object.keys(layer.route.methods)) {
+            const key = `${method.toUpperCase()} ${layer.route.path}`
+            if (!guarded && !PUBLIC_ROUTES.includes(key)) unguarded.push(key)
+          }
+        } else if (layer.handle && Array.isArray(layer.handle.stack)) {
+          visit(layer.handle.stack)
+        }
+      }
+    }
+    visit(v1Router.stack)
+    expect(unguarded).toEqual([])
+  })
+
+  it('opens only the listed pages to cashiers and keeps unlisted pages admin-only', () => {
+    const cashierPages = Object.keys(PAGE_PERMISSIONS).filter((page) => canAccessPage('CASHIER', page)).sort()
+    expect(cashierPages).toEqual(['/admin/bank-transfers', '/cashier', '/dashboard', '/members', '/products', '/reports', '/transactions'])
+    expect(canAccessPage('CASHIER', '/cashier/help')).toBe(true)
+    expect(canAccessPage('CASHIER', '/products/new')).toBe(false)
+
+    for (const page of ['/admin/new-report', '/settings']) {
+      expect(canAccessPage('CASHIER', page)).toBe(false)
+      expect(canAccessPage('MANAGER', page)).toBe(false)
+      expect(canAccessPage('ADMIN', page)).toBe(true)
+    }
+  })
+
+  it('keeps cashiers out of admin actions', async () => {
+    const token = tokenFor(cashier)
+    const product = await db.Product.create({ name: 'Kemeja', price: 150000, stock: 0, categoryId: category.id, size: 'M', color: 'Putih' })
+
+    const archive = await request(app).post('/api/v1/archives').set('Authorization', `Bearer ${token}`).send({ from: '2024-01-01', to: '2024-01-31' })
+    expect(archive.status).toBe(403)
+    expect(archive.body.error).toMatch(/archives:manage/)
+    await request(app).delete(`/api/v1/products/${product.id}`).set('Authorization', `Bearer ${token}`).expect(403)
+    await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email: 'baru@example.com', password: 'secret', name: 'Baru' })
+      .expect(403)
+    await request(app).get('/api/v1/products').set('Authorization', `Bearer ${token}`).expect(200)
+    expect(await db.Product.findByPk(product.id)).not.toBeNull()
+  })
+
+  it('lets managers run the store but not administer it', async () => {
+    const token = tokenFor(manager)
+    const created = await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Celana', price: 200000, stock: 2, categoryId: category.id, size: '32', color: 'Hitam' })
+      .expect(201)
+    await request(app).get('/api/v1/suppliers').set('Authorization', `Bearer ${token}`).expect(200)
+    await request(app).get('/api/v1/users').set('Authorization', `Bearer ${token}`).expect(200)
+
+    await request(app).delete(`/api/v1/products/${created.body.id}`).set('Authorization', `Bearer ${token}`).expect(403)
+    await request(app)
+      .post('/api/v1/users')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email: 'baru@example.com', password: 'secret', name: 'Baru' })
+      .expect(403)
+    await request(app).get('/api/v1/whatsapp/connection').set('Authorization', `Bearer ${token}`).expect(403)
+
+    await request(app).delete(`/api/v1/products/${created.body.id}`).set('Authorization', `Bearer ${tokenFor(admin)}`).expect(200)
+  })
+})
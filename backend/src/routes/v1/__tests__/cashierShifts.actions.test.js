@@ -92,10 +92,23 @@ describe('Cashier Shifts Actions API', () => {
     // Add items to reflect itemsSold aggregation
     await db.TransactionItem.create({ transactionId: txn.id, productId: 'P1', quantity: 2, price: 5000, subtotal: 10000 })
 
+    // A split-tender sale: 3000 cash plus 7000 by card, recorded under its larger tender
+    const split = await db.Transaction.create({
+      userId: 1,
+      status: 'COMPLETED',
+      total: 10000,
+      finalTotal: 10000,
+      paymentMethod: 'CARD',
+    })
+    await db.TransactionPayment.bulkCreate([
+      { transactionId: split.id, method: 'CASH', amount: 3000 },
+      { transactionId: split.id, method: 'CARD', amount: 7000, reference: 'APPR-01' }
+    ])
+
     const res = await request(app)
       .post('/api/v1/cashier-shifts/close')
       .set('Authorization', `Bearer ${token}`)
-      .send({ closingBalance: 60000 })
+      .send({ closingBalance: 63000 })
       .expect(200)
 
     expect(res.body.report).toBeDefined()
@@ -104,16 +117,18 @@ describe('Cashier Shifts Actions API', () => {
     // Aggregation checks
     expect(report.cashierId).toBe(1)
     expect(report.openingBalance).toBe(50000)
-    expect(report.cashSales).toBe(10000)
-    expect(report.totalTransactions).toBe(10000)
-    expect(report.systemExpectedCash).toBe(60000) // opening (50000) + cashTotal (10000)
-    expect(report.physicalCash).toBe(60000)
+    expect(report.cashSales).toBe(13000)
+    expect(report.totalTransactions).toBe(20000)
+    expect(report.systemExpectedCash).toBe(63000) // opening (50000) + cash tenders (10000 + 3000)
+    expect(report.physicalCash).toBe(63000)
     expect(report.difference).toBe(0)
 
     // Payment breakdown
     expect(report.paymentBreakdown).toBeDefined()
-    expect(report.paymentBreakdown.CASH.total).toBe(10000)
-    expect(report.paymentBreakdown.CASH.count).toBe(1)
+    expect(report.paymentBreakdown.CASH.total).toBe(13000)
+    expect(report.paymentBreakdown.CASH.count).toBe(2)
+    expect(report.paymentBreakdown.CARD.total).toBe(7000)
+    expect(report.paymentBreakdown.CARD.count).toBe(1)
 
     // Status counts should reflect one COMPLETED, one CANCELLED, zero pending
     expect(report.statusCounts.COMPLETED).toBeGreaterThanOrEqual(1)
@@ -128,4 +143,39 @@ describe('Cashier Shifts Actions API', () => {
     expect(actions).toContain('OPEN_SHIFT')
     expect(actions).toContain('CLOSE_SHIFT')
   })
+
+  it('subtracts cash handed back on an exchange from the expected cash', async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    try {
+      await db.Product.create({ id: 'P2', name: 'Jaket', price: 20000, stock: 5, categoryId: 'C1', color: 'BLUE', size: 'L' })
+      await db.Product.create({ id: 'P3', name: 'Kaos', price: 8000, stock: 5, categoryId: 'C1', color: 'BLUE', size: 'L' })
+      // Sold in an earlier shift; the customer comes back to swap it for something cheaper
+      const original = await db.Transaction.create({ userId: 1, status: 'COMPLETED', paymentStatus: 'PAID', total: 20000, finalTotal: 20000, paymentMethod: 'CASH' })
+      const item = await db.TransactionItem.create({ transactionId: original.id, productId: 'P2', quantity: 1, price: 20000, subtotal: 20000 })
+
+      await request(app)
+        .post('/api/v1/cashier-shifts/open')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ openingBalance: 50000 })
+        .expect(200)
+
+      const exchange = await request(app)
+        .post(`/api/v1/transactions/${original.id}/exchange`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ returnItems: [{ transactionItemId: item.id, quantity: 1 }], newItems: [{ productId: 'P3', quantity: 1 }], paymentMethod: 'CASH' })
+        .expect(201)
+      expect(exchange.body.refundDue).toBe(12000)
+
+      const res = await request(app)
+        .post('/api/v1/cashier-shifts/close')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ closingBalance: 38000 })
+        .expect(200)
+      expect(res.body.report.paymentBreakdown.CASH.total).toBe(-12000)
+      expect(res.body.report.systemExpectedCash).toBe(38000)
+      expect(res.body.report.difference).toBe(0)
+    } finally {
+      delete process.env.APPROVAL_REQUIRED_ACTIONS
+    }
+  })
 })
\ No newline at end of file
@@ -0,0 +1,90 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (id, email) => jwt.sign({ id, role: 'CASHIER', email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+const tokenA = tokenFor(1, 'kasir1@example.com')
+const tokenB = tokenFor(2, 'kasir2@example.com')
+const tokenManager = tokenFor(3, 'manager@example.com')
+
+const cartLines = [{ id: 'P1', cartKey: 'P1', name: 'Kemeja', price: 150000, quantity: 1 }]
+
+describe('Held Carts API', () => {
+  const app = buildApp()
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    await db.User.create({ id: 1, name: 'Kasir Satu', email: 'kasir1@example.com', role: 'CASHIER', password: 'secret' })
+    await db.User.create({ id: 2, name: 'Kasir Dua', email: 'kasir2@example.com', role: 'CASHIER', password: 'secret' })
+    await db.User.create({ id: 3, name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+  })
+
+  afterAll(async () => {
+    await db.sequelize.close()
+  })
+
+  it('requires an open shift to hold a cart', async () => {
+    const res = await request(app)
+      .post('/api/v1/held-carts')
+      .set('Authorization', `Bearer ${tokenA}`)
+      .send({ name: 'Ibu Rina', items: cartLines })
+    expect(res.status).toBe(400)
+  })
+
+  it('shows a held cart to its cashier and managers and resumes it exactly once', async () => {
+    await request(app).post('/api/v1/cashier-shifts/open').set('Authorization', `Bearer ${tokenA}`).send({ openingBalance: 100000 }).expect(200)
+
+    const held = await request(app)
+      .post('/api/v1/held-carts')
+      .set('Authorization', `Bearer ${tokenA}`)
+      .send({ name: 'Ibu Rina', items: cartLines, customerName: 'Rina', voucherCode: 'HEMAT10', notes: 'Coba ukuran L' })
+    expect(held.status).toBe(201)
+    expect(held.body.status).toBe('HELD')
+    expect(held.body.items).toEqual(cartLines)
+
+    const own = await request(app).get('/api/v1/held-carts').set('Authorization', `Bearer ${tokenA}`).expect(200)
+    expect(own.body.heldCarts.map((h) => h.id)).toEqual([held.body.id])
+    const managed = await request(app).get('/api/v1/held-carts').set('Authorization', `Bearer ${tokenManager}`).expect(200)
+    expect(managed.body.heldCarts.map((h) => h.id)).toEqual([held.body.id])
+    expect(managed.body.heldCarts[0].user.name).toBe('Kasir Satu')
+
+    // Another cashier neither sees nor touches it
+    const other = await request(app).get('/api/v1/held-carts').set('Authorization', `Bearer ${tokenB}`).expect(200)
+    expect(other.body.count).toBe(0)
+    await request(app).post(`/api/v1/held-carts/${held.body.id}/resume`).set('Authorization', `Bearer ${tokenB}`).expect(404)
+    await request(app).delete(`/api/v1/held-carts/${held.body.id}`).set('Authorization', `Bearer ${tokenB}`).expect(404)
+
+    const resumed = await request(app).post(`/api/v1/held-carts/${held.body.id}/resume`).set('Authorization', `Bearer ${tokenManager}`)
+    expect(resumed.status).toBe(200)
+    expect(resumed.body.status).toBe('RESUMED')
+    expect(resumed.body.resumedBy).toBe(3)
+    expect(resumed.body.voucherCode).toBe('HEMAT10')
+
+    const again = await request(app).post(`/api/v1/held-carts/${held.body.id}/resume`).set('Authorization', `Bearer ${tokenA}`)
+    expect(again.status).toBe(409)
+  })
+
+  it('expires held carts when their shift closes', async () => {
+    const held = await request(app)
+      .post('/api/v1/held-carts')
+      .set('Authorization', `Bearer ${tokenA}`)
+      .send({ name: 'Pak Budi', items: cartLines })
+      .expect(201)
+
+    const closed = await request(app)
+      .post('/api/v1/cashier-shifts/close')
+      .set('Authorization', `Bearer ${tokenA}`)
+      .send({ closingBalance: 100000 })
+      .expect(200)
+    expect(closed.body.report.heldCartsExpired).toBe(1)
+
+    expect((await db.HeldCart.findByPk(held.body.id)).status).toBe('EXPIRED')
+    const list = await request(app).get('/api/v1/held-carts').set('Authorization', `Bearer ${tokenA}`).expect(200)
+    expect(list.body.count).toBe(0)
+  })
+})
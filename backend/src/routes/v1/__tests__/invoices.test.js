@@ -0,0 +1,101 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { issueInvoice } = require('../../../services/invoices')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+const binary = (res, cb) => {
+  const chunks = []
+  res.on('data', (chunk) => chunks.push(chunk))
+  res.on('end', () => cb(null, Buffer.concat(chunks)))
+}
+
+describe('Receipt and invoice PDFs', () => {
+  const app = buildApp()
+  let cashier
+  const year = new Date(Date.now() + 7 * 3600 * 1000).getUTCFullYear()
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const download = (path) => as(cashier, request(app).get(path)).buffer(true).parse(binary)
+  // PPN 11% is added on top of what is left after the discount
+  const sell = ({ discount = 0, ...body } = {}) => as(cashier, request(app).post('/api/v1/transactions'))
+    .send({ items: [{ productId: 'prod-1', quantity: 2, price: 25000 }], subtotal: 50000, discount, total: (50000 - discount) * 1.11, paymentMethod: 'CASH', ...body })
+    .expect(201)
+    .then((res) => res.body)
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    process.env.STORE_NPWP = '01.234.567.8-901.000'
+    await db.sequelize.sync({ force: true })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    await db.TaxSetting.create({ enabled: true, rate: 11 })
+    await db.Category.create({ id: 'cat-1', name: 'Kategori' })
+    await db.Product.create({ id: 'prod-1', name: 'Kemeja Batik', price: 25000, stock: 50, categoryId: 'cat-1', size: 'L', color: 'Biru' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    delete process.env.STORE_NPWP
+    await db.sequelize.close()
+  })
+
+  it('downloads the receipt as PDF', async () => {
+    const sale = await sell({ customerName: 'Andi' })
+    await request(app).get(`/api/v1/transactions/${sale.id}/receipt.pdf`).expect(401)
+    await download('/api/v1/transactions/missing/receipt.pdf').expect(404)
+
+    const res = await download(`/api/v1/transactions/${sale.id}/receipt.pdf`).expect(200)
+    expect(res.headers['content-type']).toBe('application/pdf')
+    expect(res.headers['content-disposition']).toBe(`attachment; filename="struk-${sale.id}.pdf"`)
+    expect(res.body.slice(0, 5).toString()).toBe('%PDF-')
+    expect(res.body.toString('latin1')).toContain('NPWP: 01.234.567.8-901.000')
+  })
+
+  it('numbers invoices in order and keeps the number on reprint', async () => {
+    const first = await sell({ customerName: 'PT Maju Jaya', discount: 5000 })
+    const second = await sell()
+
+    const res = await download(`/api/v1/transactions/${first.id}/invoice.pdf`).expect(200)
+    expect(res.headers['content-type']).toBe('application/pdf')
+    expect(res.headers['x-invoice-number']).toBe(`INV-${year}-000001`)
+    expect(res.headers['content-disposition']).toBe(`attachment; filename="invoice-INV-${year}-000001.pdf"`)
+    const text = res.body.toString('latin1')
+    for (const expected of ['INVOICE', 'PT Maju Jaya', 'Ukuran: L', 'Warna: Biru', 'RINCIAN PAJAK', 'PPN 11%', 'PEMBAYARAN', 'LUNAS']) {
+      expect(text).toContain(expected)
+    }
+    // The manual discount shows on the line and in the totals
+    expect(text).toMatch(/-Rp\s5\.000/)
+
+    expect((await download(`/api/v1/transactions/${second.id}/invoice.pdf`).expect(200)).headers['x-invoice-number']).toBe(`INV-${year}-000002`)
+    expect((await download(`/api/v1/transactions/${first.id}/invoice.pdf`).expect(200)).headers['x-invoice-number']).toBe(`INV-${year}-000001`)
+    expect(await db.Invoice.count()).toBe(2)
+    expect(await db.Invoice.findOne({ where: { transactionId: first.id } })).toMatchObject({ year, sequence: 1, issuedBy: cashier.id })
+  })
+
+  it('does not skip or repeat numbers when invoices are issued together', async () => {
+    const sales = await Promise.all([sell(), sell(), sell()])
+    const transactions = await db.Transaction.findAll({ where: { id: sales.map((sale) => sale.id) } })
+    const invoices = await Promise.all(transactions.map((transaction) => issueInvoice(transaction)))
+    expect(invoices.map((invoice) => invoice.sequence).sort()).toEqual([3, 4, 5])
+
+    // A new year starts again at 1
+    const [later] = transactions
+    await db.Invoice.destroy({ where: { transactionId: later.id } })
+    const next = await issueInvoice(later, { now: new Date(`${year + 1}-01-01T00:00:00+07:00`) })
+    expect(next.number).toBe(`INV-${year + 1}-000001`)
+  })
+
+  it('refuses to invoice cancelled transactions', async () => {
+    const sale = await sell()
+    await db.Transaction.update({ status: 'CANCELLED' }, { where: { id: sale.id } })
+    const res = await as(cashier, request(app).get(`/api/v1/transactions/${sale.id}/invoice.pdf`)).expect(409)
+    expect(res.body.error).toBe('Cancelled transactions cannot be invoiced')
+    await download('/api/v1/transactions/missing/invoice.pdf').expect(404)
+  })
+})
@@ -0,0 +1,109 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Loyalty program', () => {
+  const app = buildApp()
+  let admin, manager, cashier, member, clothing, books, shirt, hat, book
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+
+  beforeAll(async () => {
+    // Manager approval has its own suite (approvals.test.js)
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    member = await db.Member.create({ name: 'Member Setia', phone: '081200000001', points: 50, totalSpent: 0 })
+    clothing = await db.Category.create({ name: 'Pakaian' })
+    const accessories = await db.Category.create({ name: 'Aksesoris' })
+    books = await db.Category.create({ name: 'Buku' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: clothing.id, size: 'M', color: 'Putih' })
+    hat = await db.Product.create({ name: 'Topi', price: 60000, stock: 10, categoryId: accessories.id, size: 'All', color: 'Hitam' })
+    book = await db.Product.create({ name: 'Buku Pola', price: 40000, stock: 10, categoryId: books.id, size: 'A4', color: 'Putih' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('keeps 1 point per Rp 1.000 by default and only admins change it', async () => {
+    const initial = await as(cashier, request(app).get('/api/v1/loyalty/program')).expect(200)
+    expect(initial.body).toMatchObject({
+      spendPerPoint: 1000,
+      pointValue: 1000,
+      minRedeemPoints: 0,
+      maxPointsPerTransaction: null,
+      categoryMultipliers: {},
+      excludedCategoryIds: []
+    })
+
+    await as(manager, request(app).put('/api/v1/loyalty/program')).send({ pointValue: 500 }).expect(403)
+    await as(admin, request(app).put('/api/v1/loyalty/program')).send({ spendPerPoint: 0 }).expect(400)
+    await as(admin, request(app).put('/api/v1/loyalty/program')).send({ excludedCategoryIds: ['no-such-category'] }).expect(400)
+
+    const sale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: hat.id, quantity: 1 }], subtotal: 60000, total: 60000, memberId: member.id, paymentMethod: 'CASH' })
+      .expect(201)
+    expect(sale.body.total).toBe(60000)
+    const stored = await db.Transaction.findByPk(sale.body.id)
+    expect(stored.pointsEarned).toBe(60)
+    await member.reload()
+    expect(member.points).toBe(110)
+  })
+
+  it('earns with category multipliers, exclusions and the cap, and redeems at the configured value', async () => {
+    const updated = await as(admin, request(app).put('/api/v1/loyalty/program')).send({
+      spendPerPoint: 2000,
+      pointValue: 500,
+      minRedeemPoints: 10,
+      maxPointsPerTransaction: 150,
+      categoryMultipliers: { [clothing.id]: 3 },
+      excludedCategoryIds: [books.id]
+    }).expect(200)
+    expect(updated.body).toMatchObject({ spendPerPoint: 2000, pointValue: 500, updatedBy: admin.id, excludedCategoryIds: [books.id] })
+
+    const cart = {
+      items: [
+        { productId: shirt.id, quantity: 1 },
+        { productId: hat.id, quantity: 1 },
+        { productId: book.id, quantity: 1 }
+      ],
+      subtotal: 200000,
+      memberId: member.id,
+      paymentMethod: 'CASH'
+    }
+    const tooFew = await as(cashier, request(app).post('/api/v1/transactions')).send({ ...cart, pointsUsed: 5, total: 195000 }).expect(400)
+    expect(tooFew.body.error).toMatch(/At least 10 points/)
+
+    // A client still valuing a point at Rp 1.000 is stale
+    const stale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ ...cart, pointsUsed: 20, total: 180000 })
+      .expect(409)
+    expect(stale.body.pricing).toMatchObject({ pointsDiscount: 10000, total: 190000 })
+
+    const sale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ ...cart, pointsUsed: 20, total: 190000 })
+      .expect(201)
+    // Shares of 190000: shirt 95000 x3, hat 57000, book excluded -> 171 points, capped at 150
+    const stored = await db.Transaction.findByPk(sale.body.id)
+    expect(stored).toMatchObject({ pointsUsed: 20, pointsDiscount: 10000, pointsEarned: 150, finalTotal: 190000 })
+    await member.reload()
+    expect(member.points).toBe(110 - 20 + 150)
+
+    // Cancelling reverses what the sale stored, not what the rules say now
+    await as(admin, request(app).put('/api/v1/loyalty/program')).send({ spendPerPoint: 1000, maxPointsPerTransaction: null }).expect(200)
+    await as(cashier, request(app).post(`/api/v1/transactions/${sale.body.id}/cancel`)).send({ reason: 'Salah input' }).expect(200)
+    await member.reload()
+    expect(member.points).toBe(110)
+  })
+})
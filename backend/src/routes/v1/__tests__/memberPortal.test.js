@@ -0,0 +1,144 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+jest.mock('../../../services/whatsappManager', () => {
+  const instance = {
+    isConnected: jest.fn(() => true),
+    sendMessage: jest.fn().mockResolvedValue({ success: true, messageId: 'msg-otp' }),
+  }
+  return { getInstance: jest.fn(() => instance) }
+})
+
+const WhatsAppManager = require('../../../services/whatsappManager')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Member portal', () => {
+  const app = buildApp()
+  const whatsapp = WhatsAppManager.getInstance()
+  let cashier, member, other, shirt, loginCode, memberToken, ownSale, otherSale
+
+  const lastCode = () => {
+    const [, text] = whatsapp.sendMessage.mock.calls[whatsapp.sendMessage.mock.calls.length - 1]
+    return text.match(/\*(\d{6})\*/)[1]
+  }
+  const asMember = (req) => req.set('Authorization', `Bearer ${memberToken}`)
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    member = await db.Member.create({ name: 'Sari', phone: '081200000001', points: 0, totalSpent: 0 })
+    other = await db.Member.create({ name: 'Budi', phone: '081200000002', points: 0, totalSpent: 0 })
+    const category = await db.Category.create({ name: 'Pakaian' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: category.id, size: 'M', color: 'Putih' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  beforeEach(() => {
+    whatsapp.sendMessage.mockClear()
+  })
+
+  it('sends a login code only to members, with the same answer for unknown numbers', async () => {
+    await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '12' }).expect(400)
+
+    const unknown = await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '081277777777' }).expect(200)
+    expect(unknown.body).toEqual({ expiresInSeconds: 300 })
+    expect(whatsapp.sendMessage).not.toHaveBeenCalled()
+
+    const known = await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '+62 812-0000-0001' }).expect(200)
+    expect(known.body).toEqual(unknown.body)
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('081200000001', expect.stringMatching(/\*\d{6}\*/))
+
+    loginCode = lastCode()
+    const stored = await db.MemberOtp.findOne({ where: { memberId: member.id } })
+    expect(stored.codeHash).not.toContain(loginCode)
+  })
+
+  it('logs in with the code once and issues a member-only token', async () => {
+    const code = loginCode
+    const wrong = code === '000000' ? '111111' : '000000'
+    await request(app).post('/api/v1/portal/auth/verify-otp').send({ phone: '081200000001', code: wrong }).expect(401)
+
+    const res = await request(app).post('/api/v1/portal/auth/verify-otp').send({ phone: '6281200000001', code }).expect(200)
+    expect(res.body.member).toMatchObject({ id: member.id, name: 'Sari', points: 0 })
+    memberToken = res.body.token
+
+    // A code works once
+    await request(app).post('/api/v1/portal/auth/verify-otp').send({ phone: '081200000001', code }).expect(401)
+
+    // Member and staff tokens do not open each other's API
+    await asMember(request(app).get('/api/v1/members')).expect(401)
+    await request(app).get('/api/v1/portal/me').set('Authorization', `Bearer ${tokenFor(cashier)}`).expect(401)
+    await request(app).get('/api/v1/portal/me').expect(401)
+  })
+
+  it('locks a code after too many wrong guesses', async () => {
+    await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '081200000002' }).expect(200)
+    const code = lastCode()
+    const wrong = code === '000000' ? '111111' : '000000'
+    for (let i = 0; i < 5; i += 1) {
+      await request(app).post('/api/v1/portal/auth/verify-otp').send({ phone: '081200000002', code: wrong }).expect(401)
+    }
+    await request(app).post('/api/v1/portal/auth/verify-otp').send({ phone: '081200000002', code }).expect(401)
+  })
+
+  it('shows the member their own points, transactions and receipts only', async () => {
+    ownSale = await request(app).post('/api/v1/transactions').set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      .send({ items: [{ productId: shirt.id, quantity: 2 }], subtotal: 200000, total: 200000, memberId: member.id, paymentMethod: 'CASH' })
+      .expect(201)
+    otherSale = await request(app).post('/api/v1/transactions').set('Authorization', `Bearer ${tokenFor(cashier)}`)
+      .send({ items: [{ productId: shirt.id, quantity: 1 }], subtotal: 100000, total: 100000, memberId: other.id, paymentMethod: 'CASH' })
+      .expect(201)
+
+    const me = await asMember(request(app).get('/api/v1/portal/me')).expect(200)
+    expect(me.body).toMatchObject({ id: member.id, points: 200, tier: null, pointsExpiry: { expiryMonths: null } })
+
+    const history = await asMember(request(app).get('/api/v1/portal/points-history')).expect(200)
+    expect(history.body.entries).toEqual([expect.objectContaining({ points: 200, type: 'EARNED', transactionId: ownSale.body.id })])
+
+    const list = await asMember(request(app).get('/api/v1/portal/transactions')).expect(200)
+    expect(list.body.count).toBe(1)
+    expect(list.body.transactions[0]).toMatchObject({ id: ownSale.body.id, itemCount: 2, pointsEarned: 200 })
+
+    const receipt = await asMember(request(app).get(`/api/v1/portal/transactions/${ownSale.body.id}/receipt`)).expect(200)
+    expect(receipt.body.transaction.items).toEqual([expect.objectContaining({ name: 'Kemeja', quantity: 2 })])
+    expect(receipt.body.text).toContain('Kemeja')
+
+    await asMember(request(app).get(`/api/v1/portal/transactions/${otherSale.body.id}/receipt`)).expect(404)
+  })
+
+  it('lists vouchers the member can still use', async () => {
+    const tier = await db.MemberTier.create({ name: 'Gold', minSpend: 5000000 })
+    const start = new Date(Date.now() - 24 * 60 * 60 * 1000)
+    const end = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    const base = { type: 'fixed', value: 10000, startDate: start, endDate: end, isActive: true }
+    await db.Voucher.create({ ...base, code: 'HEMAT', name: 'Hemat', maxUsesPerUser: 2 })
+    const once = await db.Voucher.create({ ...base, code: 'SEKALI', name: 'Sekali', maxUsesPerUser: 1 })
+    await db.Voucher.create({ ...base, code: 'GOLD', name: 'Gold', minTierId: tier.id })
+    await db.Voucher.create({ ...base, code: 'HABIS', name: 'Habis', maxUses: 1, usedCount: 1 })
+    await db.Voucher.create({ ...base, code: 'LAMA', name: 'Lama', endDate: start })
+    await db.VoucherUsage.create({ voucherId: once.id, transactionId: ownSale.body.id, memberId: member.id, discountAmount: 10000, usedAt: new Date() })
+
+    const res = await asMember(request(app).get('/api/v1/portal/vouchers')).expect(200)
+    expect(res.body.vouchers).toEqual([expect.objectContaining({ code: 'HEMAT', remainingUses: 2 })])
+  })
+
+  it('rate limits login codes per phone number', async () => {
+    for (let i = 0; i < 3; i += 1) {
+      await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '081299999999' }).expect(200)
+    }
+    const res = await request(app).post('/api/v1/portal/auth/request-otp').send({ phone: '6281299999999' }).expect(429)
+    expect(res.headers['retry-after']).toBeDefined()
+  })
+})
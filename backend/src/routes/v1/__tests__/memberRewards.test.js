@@ -0,0 +1,118 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { issueOccasionRewards } = require('../../../services/memberRewards')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+// Today in Asia/Jakarta, as the job sees it
+const today = new Date(Date.now() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+
+describe('Birthday and anniversary rewards', () => {
+  const app = buildApp()
+  let admin, cashier, birthday, noPhone, anniversary, shirt
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    const joined = new Date()
+    joined.setFullYear(joined.getFullYear() - 2)
+    anniversary = await db.Member.create({ name: 'Member Lama', phone: '081200000003', createdAt: joined })
+    const category = await db.Category.create({ name: 'Pakaian' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: category.id, size: 'M', color: 'Putih' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('stores an optional birth date on members', async () => {
+    await as(cashier, request(app).post('/api/v1/members')).send({ name: 'Salah', phone: '081200000009', birthDate: '1990-02-30' }).expect(400)
+    await as(cashier, request(app).post('/api/v1/members')).send({ name: 'Nanti', phone: '081200000009', birthDate: '2999-01-01' }).expect(400)
+
+    const created = await as(cashier, request(app).post('/api/v1/members'))
+      .send({ name: 'Sari', phone: '081200000001', birthDate: `1995-${today.slice(5)}` })
+      .expect(201)
+    birthday = created.body
+    expect(birthday.birthDate).toBe(`1995-${today.slice(5)}`)
+
+    const other = await as(cashier, request(app).post('/api/v1/members')).send({ name: 'Tanpa HP', email: 'tanpa@example.com' }).expect(201)
+    const updated = await as(cashier, request(app).put(`/api/v1/members/${other.body.id}`))
+      .send({ name: 'Tanpa HP', email: 'tanpa@example.com', birthDate: `2000-${today.slice(5)}` })
+      .expect(200)
+    noPhone = updated.body
+    expect(noPhone.birthDate).toBe(`2000-${today.slice(5)}`)
+  })
+
+  it('issues one personal voucher per occasion and greets members once WhatsApp is up', async () => {
+    const offline = { isConnected: () => false, sendMessage: jest.fn() }
+    expect(await issueOccasionRewards({ whatsapp: offline })).toEqual({ issued: 0, notified: 0, failed: 0 })
+
+    await as(admin, request(app).put('/api/v1/loyalty/program')).send({ anniversaryVoucherType: 'percentage', anniversaryVoucherValue: 150 }).expect(400)
+    const program = await as(admin, request(app).put('/api/v1/loyalty/program'))
+      .send({ birthdayVoucherValue: 50000, anniversaryVoucherType: 'percentage', anniversaryVoucherValue: 10, rewardVoucherDays: 7 })
+      .expect(200)
+    expect(program.body).toMatchObject({ birthdayVoucherType: 'fixed', birthdayVoucherValue: 50000, anniversaryVoucherValue: 10, rewardVoucherDays: 7 })
+
+    expect(await issueOccasionRewards({ whatsapp: offline })).toEqual({ issued: 3, notified: 0, failed: 0 })
+    expect(offline.sendMessage).not.toHaveBeenCalled()
+
+    const whatsapp = { isConnected: () => true, sendMessage: jest.fn(async () => ({ success: true })) }
+    expect(await issueOccasionRewards({ whatsapp })).toEqual({ issued: 0, notified: 2, failed: 0 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('081200000001', expect.stringMatching(/Selamat ulang tahun, Sari![\s\S]*\*ULTAH-[A-Z0-9]{6}\*[\s\S]*potongan/))
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('081200000003', expect.stringMatching(/Selamat 2 tahun menjadi member[\s\S]*\*ANNIV-[A-Z0-9]{6}\*[\s\S]*diskon 10%/))
+    expect(await issueOccasionRewards({ whatsapp })).toEqual({ issued: 0, notified: 0, failed: 0 })
+
+    const voucher = await db.Voucher.findOne({ where: { memberId: birthday.id } })
+    expect(voucher).toMatchObject({ type: 'fixed', maxUses: 1, maxUsesPerUser: 1 })
+    expect(Math.round((voucher.endDate - voucher.startDate) / 86400000)).toBeGreaterThanOrEqual(7)
+
+    // Personal vouchers stay out of the shared voucher list
+    const shared = await as(admin, request(app).get('/api/v1/vouchers')).expect(200)
+    expect(shared.body.vouchers).toEqual([])
+    const personal = await as(admin, request(app).get('/api/v1/vouchers?personal=true')).expect(200)
+    expect(personal.body.vouchers).toHaveLength(3)
+  })
+
+  it('lets only the member redeem their voucher, once', async () => {
+    const voucher = await db.Voucher.findOne({ where: { memberId: birthday.id } })
+
+    const stranger = await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: voucher.code, subtotal: 100000, memberId: anniversary.id })
+      .expect(400)
+    expect(stranger.body.error).toBe('Voucher belongs to another member')
+    await as(cashier, request(app).post('/api/v1/vouchers/validate')).send({ code: voucher.code, subtotal: 100000 }).expect(400)
+
+    const sale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: shirt.id, quantity: 1 }], subtotal: 100000, total: 50000, memberId: birthday.id, voucherCode: voucher.code, paymentMethod: 'CASH' })
+      .expect(201)
+    expect(Number(sale.body.voucherDiscount)).toBe(50000)
+
+    await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: voucher.code, subtotal: 100000, memberId: birthday.id })
+      .expect(400)
+  })
+
+  it('reports issued vouchers and the redemption rate', async () => {
+    const res = await as(cashier, request(app).get('/api/v1/reports/member-rewards')).expect(200)
+    expect(res.body.totals).toMatchObject({ issued: 3, notified: 2, redeemed: 1, redemptionRate: 33.3, discountGiven: 50000, sales: 50000 })
+    expect(res.body.byOccasion).toEqual([
+      expect.objectContaining({ occasion: 'BIRTHDAY', issued: 2, redeemed: 1, redemptionRate: 50 }),
+      expect.objectContaining({ occasion: 'ANNIVERSARY', issued: 1, redeemed: 0, redemptionRate: 0 })
+    ])
+    const redeemed = res.body.rewards.find((row) => row.member.id === birthday.id)
+    expect(redeemed.redeemedAt).not.toBeNull()
+
+    await as(cashier, request(app).get('/api/v1/reports/member-rewards?from=2026-13-01')).expect(400)
+  })
+})
@@ -0,0 +1,160 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+describe('Member segments', () => {
+  const app = buildApp()
+  let manager, cashier, clothing, accessories, shirt, bag
+  const members = {}
+  let segments = {}
+  let saleSeq = 0
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+
+  // Sales of the member, `daysAgo` each
+  async function history(member, product, total, daysAgo) {
+    for (const days of daysAgo) {
+      saleSeq += 1
+      const trx = await db.Transaction.create({
+        id: `tx-seg-${saleSeq}`,
+        total,
+        finalTotal: total,
+        paymentMethod: 'CASH',
+        status: 'COMPLETED',
+        userId: cashier.id,
+        memberId: member.id,
+        createdAt: new Date(Date.now() - days * DAY_MS)
+      })
+      await db.TransactionItem.create({ transactionId: trx.id, productId: product.id, quantity: 1, price: total, subtotal: total })
+    }
+  }
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    clothing = await db.Category.create({ name: 'Pakaian' })
+    accessories = await db.Category.create({ name: 'Aksesoris' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 50, categoryId: clothing.id, size: 'M', color: 'Putih' })
+    bag = await db.Product.create({ name: 'Tas', price: 80000, stock: 50, categoryId: accessories.id, size: 'All', color: 'Hitam' })
+
+    for (const [key, name] of [['champ', 'Juara'], ['loyal', 'Setia'], ['fresh', 'Baru'], ['risky', 'Jarang'], ['lapsed', 'Hilang'], ['never', 'Belum Belanja']]) {
+      members[key] = await db.Member.create({ name, phone: `08120000000${Object.keys(members).length + 1}` })
+    }
+    await history(members.champ, shirt, 100000, [2, 4, 6, 8, 10])
+    await history(members.loyal, shirt, 50000, [20, 40, 60, 80])
+    await history(members.fresh, bag, 80000, [1])
+    await history(members.risky, shirt, 60000, [150, 170, 190])
+    await history(members.lapsed, shirt, 30000, [200, 220])
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('adds the built-in RFM segments and assigns members by score', async () => {
+    await as(cashier, request(app).post('/api/v1/member-segments/defaults')).expect(403)
+    const res = await as(manager, request(app).post('/api/v1/member-segments/defaults')).expect(200)
+    expect(res.body.created).toBe(5)
+    segments = Object.fromEntries(res.body.segments.map((s) => [s.name, s]))
+    expect(Object.fromEntries(res.body.segments.map((s) => [s.name, s.memberCount]))).toEqual({
+      Champions: 1, Loyal: 2, New: 1, 'At Risk': 1, Lapsed: 1
+    })
+
+    const again = await as(manager, request(app).post('/api/v1/member-segments/defaults')).expect(200)
+    expect(again.body.created).toBe(0)
+
+    const champions = await as(cashier, request(app).get(`/api/v1/member-segments/${segments.Champions.id}/members`)).expect(200)
+    expect(champions.body.members).toEqual([
+      expect.objectContaining({ id: members.champ.id, rfm: expect.objectContaining({ frequency: 5, monetary: 500000, recencyScore: 4, frequencyScore: 5, monetaryScore: 5 }) })
+    ])
+    const lapsed = await as(cashier, request(app).get(`/api/v1/member-segments/${segments.Lapsed.id}/members`)).expect(200)
+    expect(lapsed.body.members.map((m) => m.id)).toEqual([members.lapsed.id])
+  })
+
+  it('builds segments from tier and category rules', async () => {
+    await as(manager, request(app).post('/api/v1/member-segments')).send({ name: 'Salah', rules: { recencyScore: { min: 7 } } }).expect(400)
+    await as(manager, request(app).post('/api/v1/member-segments')).send({ name: 'Salah', rules: { favouriteColour: 'red' } }).expect(400)
+    await as(manager, request(app).post('/api/v1/member-segments')).send({ name: 'Champions' }).expect(409)
+
+    const accessoryRules = { categoryIds: [accessories.id], minCategoryShare: 50 }
+    const preview = await as(manager, request(app).post('/api/v1/member-segments/preview')).send({ rules: accessoryRules }).expect(200)
+    expect(preview.body).toMatchObject({ memberCount: 1, sample: [expect.objectContaining({ id: members.fresh.id })] })
+
+    const created = await as(manager, request(app).post('/api/v1/member-segments'))
+      .send({ name: 'Pecinta Aksesoris', color: '#9333ea', rules: accessoryRules })
+      .expect(201)
+    expect(created.body.segment).toMatchObject({ memberCount: 1, rules: accessoryRules })
+
+    const gold = await db.MemberTier.create({ name: 'Gold', minSpend: 400000 })
+    await members.champ.update({ tierId: gold.id })
+    const tiered = await as(manager, request(app).post('/api/v1/member-segments'))
+      .send({ name: 'Gold Aktif', rules: { tierIds: [gold.id], lastVisitDays: { max: 30 } } })
+      .expect(201)
+    expect(tiered.body.segment.memberCount).toBe(1)
+  })
+
+  it('filters the member list by segment and exports it as CSV', async () => {
+    const list = await as(cashier, request(app).get(`/api/v1/members?segmentId=${segments.Loyal.id}`)).expect(200)
+    expect(list.body.members.map((m) => m.id).sort()).toEqual([members.champ.id, members.loyal.id].sort())
+    const champ = list.body.members.find((m) => m.id === members.champ.id)
+    expect(champ.segments.map((s) => s.name).sort()).toEqual(['Champions', 'Gold Aktif', 'Loyal'])
+
+    await as(cashier, request(app).get(`/api/v1/member-segments/${segments.Loyal.id}/export`)).expect(403)
+    const csv = await as(manager, request(app).get(`/api/v1/member-segments/${segments.Loyal.id}/export`)).expect(200)
+    expect(csv.headers['content-type']).toMatch(/text\/csv/)
+    expect(csv.headers['content-disposition']).toContain('segmen-loyal.csv')
+    const lines = csv.text.trim().split('\n')
+    expect(lines[0]).toBe('id,name,phone,email,tier,points,lastVisit,recencyDays,frequency,monetary,recencyScore,frequencyScore,monetaryScore')
+    expect(lines).toHaveLength(3)
+    expect(lines[1]).toMatch(/^\d+,Juara,081200000001,,Gold,/)
+  })
+
+  it('limits vouchers to a segment', async () => {
+    const now = Date.now()
+    const voucher = await as(manager, request(app).post('/api/v1/vouchers')).send({
+      code: 'KEMBALI10',
+      name: 'Ayo kembali',
+      type: 'percentage',
+      value: 10,
+      startDate: new Date(now - DAY_MS).toISOString(),
+      endDate: new Date(now + 7 * DAY_MS).toISOString(),
+      segmentId: segments['At Risk'].id
+    }).expect(201)
+    expect(voucher.body.segmentId).toBe(segments['At Risk'].id)
+
+    const denied = await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: 'KEMBALI10', subtotal: 100000, memberId: members.champ.id })
+      .expect(400)
+    expect(denied.body.error).toBe('Voucher is for a member segment')
+    const ok = await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: 'KEMBALI10', subtotal: 100000, memberId: members.risky.id })
+      .expect(200)
+    expect(ok.body.discountAmount).toBe(10000)
+
+    await as(manager, request(app).delete(`/api/v1/member-segments/${segments['At Risk'].id}`)).expect(400)
+    const paused = await as(manager, request(app).put(`/api/v1/member-segments/${segments['At Risk'].id}`)).send({ isActive: false }).expect(200)
+    expect(paused.body.segment.memberCount).toBe(0)
+  })
+
+  it('recomputes on demand', async () => {
+    await as(cashier, request(app).post('/api/v1/member-segments/recompute')).expect(403)
+    await history(members.never, shirt, 100000, [0])
+    const res = await as(manager, request(app).post('/api/v1/member-segments/recompute')).expect(200)
+    expect(res.body.members).toBe(6)
+    expect(await db.MemberRfm.count()).toBe(6)
+    const rfm = await db.MemberRfm.findOne({ where: { memberId: members.never.id } })
+    expect(rfm.frequency).toBe(1)
+  })
+})
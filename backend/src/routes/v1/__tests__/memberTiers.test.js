@@ -0,0 +1,131 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Member tiers', () => {
+  const app = buildApp()
+  let admin, manager, cashier, member, newcomer, shirt, hat, silver, gold
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const sell = (body, status = 201) => as(cashier, request(app).post('/api/v1/transactions'))
+    .send({ items: [{ productId: shirt.id, quantity: 1 }], subtotal: 100000, memberId: member.id, paymentMethod: 'CASH', ...body })
+    .expect(status)
+
+  beforeAll(async () => {
+    // Manager approval has its own suite (approvals.test.js)
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    member = await db.Member.create({ name: 'Member Setia', phone: '081200000001', points: 0, totalSpent: 0 })
+    newcomer = await db.Member.create({ name: 'Member Baru', phone: '081200000002', points: 0, totalSpent: 0 })
+    const category = await db.Category.create({ name: 'Pakaian' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 20, categoryId: category.id, size: 'M', color: 'Putih' })
+    hat = await db.Product.create({ name: 'Topi', price: 50000, stock: 20, categoryId: category.id, size: 'All', color: 'Hitam' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('lets only admins define tiers', async () => {
+    await as(manager, request(app).post('/api/v1/member-tiers')).send({ name: 'Silver', minSpend: 100000 }).expect(403)
+    await as(admin, request(app).post('/api/v1/member-tiers')).send({ name: 'Silver', minSpend: 100000, discountPercent: 150 }).expect(400)
+
+    const created = await as(admin, request(app).post('/api/v1/member-tiers'))
+      .send({ name: 'Silver', minSpend: 100000, earnMultiplier: 1.5, color: '#9ca3af' })
+      .expect(201)
+    silver = created.body.tier
+    expect(created.body.recalculated).toEqual({ members: 2, changed: 0 })
+    gold = (await as(admin, request(app).post('/api/v1/member-tiers'))
+      .send({ name: 'Gold', minSpend: 300000, earnMultiplier: 2, discountPercent: 10 })
+      .expect(201)).body.tier
+    await as(admin, request(app).post('/api/v1/member-tiers')).send({ name: 'Gold', minSpend: 500000 }).expect(409)
+
+    const list = await as(cashier, request(app).get('/api/v1/member-tiers')).expect(200)
+    expect(list.body.tiers.map((t) => t.name)).toEqual(['Silver', 'Gold'])
+  })
+
+  it('moves members up after each sale and applies the tier benefits', async () => {
+    const first = await sell({ total: 100000 })
+    await member.reload()
+    expect(member).toMatchObject({ tierId: silver.id, points: 100 })
+    expect(Number(member.rollingSpend)).toBe(100000)
+    const history = await db.MemberTierHistory.findAll({ where: { memberId: member.id } })
+    expect(history).toHaveLength(1)
+    expect(history[0]).toMatchObject({ fromTierId: null, toTierId: silver.id, reason: 'TRANSACTION', transactionId: first.body.id })
+
+    // Silver earns 1.5x
+    await sell({ total: 100000 })
+    await sell({ total: 100000 })
+    await member.reload()
+    expect(member).toMatchObject({ tierId: gold.id, points: 100 + 150 + 150 })
+
+    // Gold takes 10% off automatically; a client without it is stale
+    const stale = await sell({ total: 100000 }, 409)
+    expect(stale.body.pricing).toMatchObject({ tierDiscount: 10000, total: 90000 })
+    const sale = await sell({ total: 90000 })
+    const stored = await db.Transaction.findByPk(sale.body.id)
+    expect(stored).toMatchObject({ tierDiscount: 10000, finalTotal: 90000, pointsEarned: 180 })
+
+    const card = await as(cashier, request(app).get(`/api/v1/members/${member.id}`)).expect(200)
+    expect(card.body.tier).toMatchObject({ name: 'Gold', discountPercent: 10 })
+  })
+
+  it('keeps tier-only vouchers and promotions to members of that tier', async () => {
+    const now = Date.now()
+    await db.Voucher.create({
+      code: 'GOLD10', name: 'Khusus Gold', type: 'fixed', value: 10000,
+      startDate: new Date(now - 86400000), endDate: new Date(now + 86400000), minTierId: gold.id, isActive: true
+    })
+    const denied = await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: 'GOLD10', subtotal: 100000, memberId: newcomer.id })
+      .expect(400)
+    expect(denied.body.error).toMatch(/higher member tier/)
+    await as(cashier, request(app).post('/api/v1/vouchers/validate'))
+      .send({ code: 'GOLD10', subtotal: 100000, memberId: member.id })
+      .expect(200)
+
+    const promotion = {
+      type: 'PRODUCT_DISCOUNT', name: 'Topi Silver', discountType: 'PERCENTAGE', discountValue: 20,
+      startDate: new Date(now - 86400000).toISOString(), endDate: new Date(now + 86400000).toISOString(), productIds: [hat.id]
+    }
+    await as(manager, request(app).post('/api/v1/promotions')).send({ ...promotion, minTierId: 9999 }).expect(400)
+    await as(manager, request(app).post('/api/v1/promotions')).send({ ...promotion, minTierId: silver.id }).expect(201)
+
+    const items = [{ productId: hat.id, categoryId: hat.categoryId, price: 50000, quantity: 1, name: 'Topi' }]
+    const forNewcomer = await as(cashier, request(app).post('/api/v1/promotions/calculate')).send({ items, memberId: newcomer.id }).expect(200)
+    expect(forNewcomer.body.totalDiscount).toBe(0)
+    const forGold = await as(cashier, request(app).post('/api/v1/promotions/calculate')).send({ items, memberId: member.id }).expect(200)
+    expect(forGold.body.totalDiscount).toBe(10000)
+
+    await as(admin, request(app).delete(`/api/v1/member-tiers/${gold.id}`)).expect(400)
+  })
+
+  it('drops members a tier once their sales leave the rolling 12 months', async () => {
+    const longAgo = new Date()
+    longAgo.setMonth(longAgo.getMonth() - 13)
+    await db.sequelize.getQueryInterface().bulkUpdate('Transaction', { createdAt: longAgo }, { memberId: member.id })
+
+    await as(manager, request(app).post('/api/v1/member-tiers/recalculate')).expect(403)
+    const result = await as(admin, request(app).post('/api/v1/member-tiers/recalculate')).expect(200)
+    expect(result.body).toEqual({ members: 2, changed: 1 })
+
+    const history = await as(cashier, request(app).get(`/api/v1/members/${member.id}/tier-history`)).expect(200)
+    expect(history.body).toMatchObject({ tier: null, rollingSpend: 0 })
+    expect(history.body.history.map((h) => [h.fromTier?.name ?? null, h.toTier?.name ?? null, h.reason])).toEqual([
+      ['Gold', null, 'RECALCULATE'],
+      ['Silver', 'Gold', 'TRANSACTION'],
+      [null, 'Silver', 'TRANSACTION']
+    ])
+  })
+})
@@ -0,0 +1,132 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { processOutboundQueue, queueReceipt, MAX_ATTEMPTS } = require('../../../services/outboundMessages')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Outbound message queue', () => {
+  const app = buildApp()
+  let manager, cashier
+  const sales = {}
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const fakeWhatsApp = (send = async () => ({ success: true, messageId: 'wamid' })) => ({ isConnected: () => true, sendMessage: jest.fn(send) })
+  const later = (seconds) => () => new Date(Date.now() + seconds * 1000)
+  const receiptOf = (transactionId) => db.OutboundMessage.findOne({ where: { transactionId } })
+  const sell = (customerPhone) => as(cashier, request(app).post('/api/v1/transactions'))
+    .send({ items: [{ productId: 'prod-1', quantity: 1, price: 25000 }], subtotal: 25000, total: 25000, paymentMethod: 'CASH', customerName: 'Andi', customerPhone })
+    .expect(201)
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    await db.Category.create({ id: 'cat-1', name: 'Kategori' })
+    await db.Product.create({ id: 'prod-1', name: 'Kemeja Batik', price: 25000, stock: 50, categoryId: 'cat-1' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('queues the receipt of a paid sale instead of sending it', async () => {
+    sales.andi = (await sell('0812 3456 7890')).body
+    const receipt = await receiptOf(sales.andi.id)
+    expect(receipt).toMatchObject({ channel: 'WHATSAPP', kind: 'RECEIPT', recipient: '6281234567890', status: 'PENDING', attempts: 0 })
+    expect(receipt.body).toContain('Kemeja Batik')
+
+    // Queued once per transaction
+    await queueReceipt(sales.andi.id)
+    expect(await db.OutboundMessage.count({ where: { transactionId: sales.andi.id } })).toBe(1)
+
+    sales.badPhone = (await sell('12345')).body
+    expect(await receiptOf(sales.badPhone.id)).toMatchObject({ status: 'DEAD', recipient: '12345', lastError: 'Invalid phone number' })
+
+    sales.noPhone = (await sell(undefined)).body
+    expect(await receiptOf(sales.noPhone.id)).toBeNull()
+  })
+
+  it('waits while WhatsApp is down and backs off after failures', async () => {
+    const offline = { isConnected: () => false, sendMessage: jest.fn() }
+    expect(await processOutboundQueue({ whatsapp: offline })).toEqual({ sent: 0, retrying: 0, dead: 0 })
+    expect(offline.sendMessage).not.toHaveBeenCalled()
+
+    // A dropped connection does not use up an attempt
+    const dropped = fakeWhatsApp(async () => ({ success: false, error: 'WhatsApp service not connected' }))
+    expect(await processOutboundQueue({ whatsapp: dropped, now: later(1) })).toEqual({ sent: 0, retrying: 0, dead: 0 })
+    expect(await receiptOf(sales.andi.id)).toMatchObject({ status: 'PENDING', attempts: 0 })
+
+    const flaky = fakeWhatsApp(async () => ({ success: false, error: 'Request timeout' }))
+    expect(await processOutboundQueue({ whatsapp: flaky, now: later(1) })).toEqual({ sent: 0, retrying: 1, dead: 0 })
+    const first = await receiptOf(sales.andi.id)
+    expect(first).toMatchObject({ status: 'PENDING', attempts: 1, lastError: 'Request timeout' })
+    expect(first.nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(29 * 1000)
+
+    // Not due yet; then twice as long after the second failure
+    expect(await processOutboundQueue({ whatsapp: flaky, now: later(2) })).toEqual({ sent: 0, retrying: 0, dead: 0 })
+    expect(await processOutboundQueue({ whatsapp: flaky, now: later(40) })).toEqual({ sent: 0, retrying: 1, dead: 0 })
+    const second = await receiptOf(sales.andi.id)
+    expect(second.attempts).toBe(2)
+    expect(second.nextAttemptAt.getTime() - Date.now()).toBeGreaterThan(95 * 1000)
+    expect(flaky.sendMessage).toHaveBeenCalledTimes(2)
+
+    const whatsapp = fakeWhatsApp()
+    expect(await processOutboundQueue({ whatsapp, now: later(120) })).toEqual({ sent: 1, retrying: 0, dead: 0 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('6281234567890', expect.stringContaining('Kemeja Batik'))
+    expect(await receiptOf(sales.andi.id)).toMatchObject({ status: 'SENT', attempts: 3, lastError: null, providerMessageId: 'wamid' })
+  })
+
+  it('dead-letters permanent failures and messages out of attempts', async () => {
+    const unregistered = (await sell('081200000002')).body
+    const notOnWhatsApp = fakeWhatsApp(async () => ({ success: false, error: 'Phone number not registered on WhatsApp' }))
+    expect(await processOutboundQueue({ whatsapp: notOnWhatsApp, now: later(1) })).toEqual({ sent: 0, retrying: 0, dead: 1 })
+    expect(await receiptOf(unregistered.id)).toMatchObject({ status: 'DEAD', attempts: 1 })
+
+    const exhausted = (await sell('081200000003')).body
+    await db.OutboundMessage.update({ attempts: MAX_ATTEMPTS - 1 }, { where: { transactionId: exhausted.id } })
+    const flaky = fakeWhatsApp(async () => ({ success: false, error: 'Request timeout' }))
+    expect(await processOutboundQueue({ whatsapp: flaky, now: later(1) })).toEqual({ sent: 0, retrying: 0, dead: 1 })
+    expect(await receiptOf(exhausted.id)).toMatchObject({ status: 'DEAD', attempts: MAX_ATTEMPTS, lastError: 'Request timeout' })
+  })
+
+  it('picks up messages left behind by a crashed worker', async () => {
+    const sale = (await sell('081200000004')).body
+    await db.OutboundMessage.update({ status: 'SENDING', lockedAt: new Date(Date.now() - 10 * 60 * 1000) }, { where: { transactionId: sale.id } })
+    expect(await processOutboundQueue({ whatsapp: fakeWhatsApp(), now: later(1) })).toEqual({ sent: 1, retrying: 0, dead: 0 })
+    expect(await receiptOf(sale.id)).toMatchObject({ status: 'SENT' })
+  })
+
+  it('lists the queue and resends dead messages', async () => {
+    await as(cashier, request(app).get('/api/v1/outbound-messages')).expect(403)
+    await as(manager, request(app).get('/api/v1/outbound-messages?status=lost')).expect(400)
+
+    const dead = await as(manager, request(app).get('/api/v1/outbound-messages?status=dead')).expect(200)
+    expect(dead.body.counts).toEqual({ pending: 0, sending: 0, sent: 2, dead: 3 })
+    expect(dead.body.messages).toHaveLength(3)
+    const invalid = dead.body.messages.find((m) => m.transactionId === sales.badPhone.id)
+    expect(invalid).toMatchObject({ customerName: 'Andi', recipient: '12345', maxAttempts: MAX_ATTEMPTS })
+
+    await as(manager, request(app).post('/api/v1/outbound-messages/9999/resend')).send({}).expect(404)
+    await as(manager, request(app).post(`/api/v1/outbound-messages/${invalid.id}/resend`)).send({}).expect(400)
+    await as(manager, request(app).post(`/api/v1/outbound-messages/${invalid.id}/resend`)).send({ recipient: 'abc' }).expect(400)
+    const resent = await as(manager, request(app).post(`/api/v1/outbound-messages/${invalid.id}/resend`))
+      .send({ recipient: '+62 812 0000 0009' })
+      .expect(200)
+    expect(resent.body.message).toMatchObject({ status: 'PENDING', attempts: 0, recipient: '6281200000009', lastError: null })
+
+    const whatsapp = fakeWhatsApp()
+    expect(await processOutboundQueue({ whatsapp, now: later(1) })).toEqual({ sent: 1, retrying: 0, dead: 0 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('6281200000009', expect.any(String))
+
+    const sent = await receiptOf(sales.andi.id)
+    await as(manager, request(app).post(`/api/v1/outbound-messages/${sent.id}/resend`)).send({}).expect(400)
+  })
+})
@@ -0,0 +1,110 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { sendExpiryReminders } = require('../../../services/pointExpiry')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+const monthsAgo = (months, extraDays = 0) => {
+  const date = new Date()
+  date.setMonth(date.getMonth() - months)
+  date.setDate(date.getDate() + extraDays)
+  return date
+}
+
+describe('Points expiry', () => {
+  const app = buildApp()
+  let admin, manager, cashier, member, shirt, hat, firstSale
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+
+  beforeAll(async () => {
+    // Manager approval has its own suite (approvals.test.js)
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    // 30 points from before lots were tracked
+    member = await db.Member.create({ name: 'Member Setia', phone: '081200000001', points: 30, totalSpent: 0 })
+    const category = await db.Category.create({ name: 'Pakaian' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: category.id, size: 'M', color: 'Putih' })
+    hat = await db.Product.create({ name: 'Topi', price: 60000, stock: 10, categoryId: category.id, size: 'All', color: 'Hitam' })
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('opens a lot for earned points and keeps them while expiry is off', async () => {
+    firstSale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: shirt.id, quantity: 1 }], subtotal: 100000, total: 100000, memberId: member.id, paymentMethod: 'CASH' })
+      .expect(201)
+
+    const view = await as(cashier, request(app).get(`/api/v1/members/${member.id}/points-expiry`)).expect(200)
+    expect(view.body).toMatchObject({ points: 130, expiryMonths: null, expiringSoon: { points: 0 } })
+    expect(view.body.lots).toEqual([expect.objectContaining({ points: 100, transactionId: firstSale.body.id, expiresAt: null })])
+
+    const result = await as(admin, request(app).post('/api/v1/loyalty/expire')).expect(200)
+    expect(result.body.expired).toEqual({ members: 0, points: 0 })
+  })
+
+  it('uses the oldest lot first and expires what is left of it', async () => {
+    await as(admin, request(app).put('/api/v1/loyalty/program')).send({ pointsExpiryMonths: 0 }).expect(400)
+    await as(manager, request(app).put('/api/v1/loyalty/program')).send({ pointsExpiryMonths: 12 }).expect(403)
+    const program = await as(admin, request(app).put('/api/v1/loyalty/program'))
+      .send({ pointsExpiryMonths: 12, expiryReminderDays: 7 })
+      .expect(200)
+    expect(program.body).toMatchObject({ pointsExpiryMonths: 12, expiryReminderDays: 7 })
+
+    await db.PointLot.update({ earnedAt: monthsAgo(13) }, { where: { transactionId: firstSale.body.id } })
+
+    // 20 points come out of the 13-month-old lot; the sale earns a new lot of 40
+    await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: hat.id, quantity: 1 }], subtotal: 60000, total: 40000, pointsUsed: 20, memberId: member.id, paymentMethod: 'CASH' })
+      .expect(201)
+    await member.reload()
+    expect(member.points).toBe(150)
+
+    await as(manager, request(app).post('/api/v1/loyalty/expire')).expect(403)
+    const result = await as(admin, request(app).post('/api/v1/loyalty/expire')).expect(200)
+    expect(result.body.expired).toEqual({ members: 1, points: 80 })
+
+    await member.reload()
+    expect(member.points).toBe(70)
+    const entry = await db.PointHistory.findOne({ where: { memberId: member.id, type: 'EXPIRED' } })
+    expect(entry.points).toBe(-80)
+
+    // The 30 untracked points became a lot of their own and did not expire
+    const view = await as(cashier, request(app).get(`/api/v1/members/${member.id}/points-expiry`)).expect(200)
+    expect(view.body.lots.map((lot) => lot.points).sort()).toEqual([30, 40])
+    expect(view.body.expiringSoon.points).toBe(0)
+
+    // Running again finds nothing new
+    const again = await as(admin, request(app).post('/api/v1/loyalty/expire')).expect(200)
+    expect(again.body.expired).toEqual({ members: 0, points: 0 })
+  })
+
+  it('shows points expiring soon and reminds the member once over WhatsApp', async () => {
+    await db.PointLot.update({ earnedAt: monthsAgo(12, 3) }, { where: { memberId: member.id, points: 40 } })
+
+    const view = await as(cashier, request(app).get(`/api/v1/members/${member.id}/points-expiry?days=7`)).expect(200)
+    expect(view.body.expiringSoon.points).toBe(40)
+    expect(new Date(view.body.expiringSoon.firstExpiresAt).getTime()).toBeGreaterThan(Date.now())
+
+    const offline = { isConnected: () => false, sendMessage: jest.fn() }
+    expect(await sendExpiryReminders({ whatsapp: offline })).toEqual({ sent: 0, failed: 0 })
+    expect(offline.sendMessage).not.toHaveBeenCalled()
+
+    const whatsapp = { isConnected: () => true, sendMessage: jest.fn(async () => ({ success: true })) }
+    expect(await sendExpiryReminders({ whatsapp })).toEqual({ sent: 1, failed: 0 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('081200000001', expect.stringContaining('*40 poin*'))
+    expect(await sendExpiryReminders({ whatsapp })).toEqual({ sent: 0, failed: 0 })
+  })
+})
@@ -102,4 +102,192 @@ describe('Products API', () => {
       .expect(200)
     expect(res.body.message).toMatch(/deleted/i)
   })
-})
\ No newline at end of file
+
+  it('creates a product with size/color variants and derives stock', async () => {
+    const res = await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        name: 'Kaos Polos',
+        price: 80000,
+        stock: 0,
+        categoryId: category.id,
+        productCode: 'KAOS-01',
+        variants: [
+          { size: 'M', color: 'Hitam', stock: 4 },
+          { size: 'L', color: 'Hitam', stock: 3, price: 85000, barcode: '8991234567890' }
+        ]
+      })
+      .expect(201)
+    expect(res.body.stock).toBe(7)
+    expect(res.body.variants).toHaveLength(2)
+    const large = res.body.variants.find((v) => v.size === 'L')
+    expect(large.productCode).toBe('KAOS-01-L-HITAM')
+    expect(large.price).toBe(85000)
+  })
+
+  it('rejects a product without variants and without size/color -> 400', async () => {
+    await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Tanpa Ukuran', price: 1000, stock: 1, categoryId: category.id })
+      .expect(400)
+  })
+
+  it('syncs variants on update: updates, adds and removes', async () => {
+    const created = await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        name: 'Kemeja', price: 150000, stock: 0, categoryId: category.id,
+        variants: [{ size: 'S', color: 'Putih', stock: 2 }, { size: 'M', color: 'Putih', stock: 2 }]
+      })
+      .expect(201)
+    const small = created.body.variants.find((v) => v.size === 'S')
+    const res = await request(app)
+      .put(`/api/v1/products/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        name: 'Kemeja', price: 150000, stock: 0, categoryId: category.id,
+        variants: [{ id: small.id, size: 'S', color: 'Putih', stock: 5 }, { size: 'XL', color: 'Biru', stock: 1 }]
+      })
+      .expect(200)
+    expect(res.body.variants.map((v) => `${v.size}/${v.color}`).sort()).toEqual(['S/Putih', 'XL/Biru'])
+    expect(res.body.stock).toBe(6)
+  })
+
+  it('imports variant rows grouped by parentCode', async () => {
+    const csvText = [
+      'name,price,categoryName,parentCode,productCode,size,color,stock,variantPrice',
+      'Celana Chino,200000,Electronics,CHINO,CHINO-30-KHK,30,Khaki,2,',
+      'Celana Chino,200000,Electronics,CHINO,CHINO-32-KHK,32,Khaki,3,210000'
+    ].join('\n')
+    const res = await request(app)
+      .post('/api/v1/products/import')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ csvText })
+      .expect(200)
+    expect(res.body.summary.createdCount).toBe(2)
+    const parent = await db.Product.findOne({ where: { productCode: 'CHINO' }, include: [{ model: db.ProductVariant, as: 'variants' }] })
+    expect(parent.variants).toHaveLength(2)
+    expect(parent.stock).toBe(5)
+    const v32 = parent.variants.find((v) => v.size === '32')
+    expect(v32.price).toBe(210000)
+  })
+
+  it('books opening stock and manual edits in the stock history', async () => {
+    const created = await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Topi', price: 50000, stock: 12, categoryId: category.id, color: 'Hitam', size: 'All' })
+      .expect(201)
+    expect(created.body.stock).toBe(12)
+    await request(app)
+      .put(`/api/v1/products/${created.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Topi', price: 50000, stock: 9, categoryId: category.id, color: 'Hitam', size: 'All' })
+      .expect(200)
+
+    const res = await request(app)
+      .get(`/api/v1/products/${created.body.id}/stock-history`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200)
+    expect(res.body.count).toBe(2)
+    expect(res.body.movements.map((m) => [m.reason, m.delta, m.balanceAfter]).sort()).toEqual([
+      ['ADJUSTMENT', -3, 9],
+      ['ADJUSTMENT', 12, 12]
+    ])
+    expect(res.body.movements[0].user.name).toBe('Test User')
+
+    const filtered = await request(app)
+      .get(`/api/v1/products/${created.body.id}/stock-history?reason=SALE`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200)
+    expect(filtered.body.count).toBe(0)
+  })
+
+  it('records variant movements and rejects unknown history filters', async () => {
+    const created = await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Jaket', price: 300000, stock: 0, categoryId: category.id, variants: [{ size: 'L', color: 'Navy', stock: 4 }] })
+      .expect(201)
+    const variant = created.body.variants[0]
+    const res = await request(app)
+      .get(`/api/v1/products/${created.body.id}/stock-history?variantId=${variant.id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200)
+    expect(res.body.movements).toHaveLength(1)
+    expect(res.body.movements[0]).toMatchObject({ delta: 4, balanceAfter: 4, variantBalanceAfter: 4 })
+    expect(res.body.movements[0].variant.size).toBe('L')
+
+    await request(app)
+      .get(`/api/v1/products/${created.body.id}/stock-history?reason=LOST`)
+      .set('Authorization', `Bearer ${token}`)
+      .expect(400)
+    await request(app)
+      .get('/api/v1/products/not-found/stock-history')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(404)
+  })
+
+  it('derives an internal EAN-13 from imported PRD codes and finds products by barcode', async () => {
+    const csvText = [
+      'name,price,categoryName,productCode,size,color,stock,barcode',
+      'Sabuk Kulit,120000,Electronics,PRD123456789,All,Coklat,5,',
+      'Dompet,90000,Electronics,DOMPET-01,All,Hitam,2,4006381333931'
+    ].join('\n')
+    await request(app).post('/api/v1/products/import').set('Authorization', `Bearer ${token}`).send({ csvText }).expect(200)
+
+    const belt = await db.Product.findOne({ where: { productCode: 'PRD123456789' } })
+    expect(belt.barcode).toBe('2001234567893')
+
+    const scanned = await request(app).get(`/api/v1/products/barcode/${belt.barcode}`).set('Authorization', `Bearer ${token}`).expect(200)
+    expect(scanned.body.product.id).toBe(belt.id)
+    expect(scanned.body.symbology).toBe('EAN13')
+    const vendor = await request(app).get('/api/v1/products/barcode/4006381333931').set('Authorization', `Bearer ${token}`).expect(200)
+    expect(vendor.body.product.name).toBe('Dompet')
+    const variant = await request(app).get('/api/v1/products/barcode/8991234567890').set('Authorization', `Bearer ${token}`).expect(200)
+    expect(variant.body.product.name).toBe('Kaos Polos')
+    expect(variant.body.variant.size).toBe('L')
+    await request(app).get('/api/v1/products/barcode/TIDAK-ADA').set('Authorization', `Bearer ${token}`).expect(404)
+  })
+
+  it('rejects a product barcode already used by a variant', async () => {
+    await request(app)
+      .post('/api/v1/products')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Duplikat', price: 1000, stock: 1, categoryId: category.id, color: 'Merah', size: 'S', barcode: '8991234567890' })
+      .expect(400)
+  })
+
+  it('prints label sheets as PDF or SVG', async () => {
+    const kaos = await db.Product.findOne({ where: { productCode: 'KAOS-01' } })
+    const svg = await request(app)
+      .post('/api/v1/products/labels')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ format: 'svg', items: [{ productId: kaos.id, copies: 2 }] })
+      .expect(200)
+    expect(svg.headers['content-type']).toMatch(/image\/svg\+xml/)
+    const text = svg.text || svg.body.toString()
+    expect(text.match(/Kaos Polos/g)).toHaveLength(4)
+    expect(text).toContain('L / Hitam')
+    expect(text).toContain('Rp 85.000')
+
+    const pdf = await request(app)
+      .post('/api/v1/products/labels')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ productId: kaos.id }] })
+      .buffer(true)
+      .parse((res, cb) => { const chunks = []; res.on('data', (c) => chunks.push(c)); res.on('end', () => cb(null, Buffer.concat(chunks))) })
+      .expect(200)
+    expect(pdf.headers['content-type']).toBe('application/pdf')
+    expect(pdf.body.slice(0, 5).toString()).toBe('%PDF-')
+
+    await request(app)
+      .post('/api/v1/products/labels')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ productId: kaos.id, copies: 0 }] })
+      .expect(400)
+  })
+})
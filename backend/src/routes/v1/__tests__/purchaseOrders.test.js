@@ -0,0 +1,159 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const adminToken = jwt.sign({ sub: 'admin', email: 'admin@example.com' }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+const cashierToken = jwt.sign({ sub: 'cashier', email: 'cashier@example.com' }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Suppliers and Purchase Orders API', () => {
+  const app = buildApp()
+  let supplier
+  let product
+  let variantProduct
+  let variant
+
+  beforeAll(async () => {
+    await db.sequelize.sync({ force: true })
+    await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'password123' })
+    await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'password123' })
+    const category = await db.Category.create({ name: 'Pakaian' })
+    product = await db.Product.create({ name: 'Kemeja', price: 150000, costPrice: 60000, stock: 10, categoryId: category.id, color: 'Putih', size: 'M' })
+    variantProduct = await db.Product.create({ name: 'Kaos', price: 80000, costPrice: 30000, stock: 2, categoryId: category.id })
+    variant = await db.ProductVariant.create({ productId: variantProduct.id, size: 'L', color: 'Hitam', stock: 2 })
+  })
+
+  afterAll(async () => {
+    await db.sequelize.close()
+  })
+
+  it('restricts suppliers to admins', async () => {
+    await request(app).get('/api/v1/suppliers').expect(401)
+    await request(app).get('/api/v1/suppliers').set('Authorization', `Bearer ${cashierToken}`).expect(403)
+  })
+
+  it('creates and lists suppliers', async () => {
+    await request(app)
+      .post('/api/v1/suppliers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ phone: '0812' })
+      .expect(400)
+    const res = await request(app)
+      .post('/api/v1/suppliers')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ name: 'CV Garmen Jaya', contactName: 'Budi', phone: '081234567890' })
+      .expect(201)
+    supplier = res.body
+    const list = await request(app).get('/api/v1/suppliers').set('Authorization', `Bearer ${adminToken}`).expect(200)
+    expect(list.body.suppliers.map((s) => s.name)).toContain('CV Garmen Jaya')
+  })
+
+  it('drafts, sends, partially receives and closes a purchase order', async () => {
+    const created = await request(app)
+      .post('/api/v1/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        supplierId: supplier.id,
+        items: [
+          { productId: product.id, quantity: 10, unitCost: 75000 },
+          { productId: variantProduct.id, variantId: variant.id, quantity: 5, unitCost: 30000 }
+        ]
+      })
+      .expect(201)
+    expect(created.body.status).toBe('DRAFT')
+    expect(created.body.poNumber).toMatch(/^PO-\d{8}-\d{4}$/)
+    expect(created.body.totalAmount).toBe(900000)
+    const shirtLine = created.body.items.find((i) => i.productId === product.id)
+    const tshirtLine = created.body.items.find((i) => i.variantId === variant.id)
+
+    // Receiving is only possible once the order was sent
+    await request(app)
+      .post(`/api/v1/purchase-orders/${created.body.id}/receive`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ purchaseOrderItemId: shirtLine.id, quantity: 1 }] })
+      .expect(400)
+
+    const sent = await request(app)
+      .post(`/api/v1/purchase-orders/${created.body.id}/send`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200)
+    expect(sent.body.status).toBe('SENT')
+
+    await request(app)
+      .post(`/api/v1/purchase-orders/${created.body.id}/receive`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ purchaseOrderItemId: shirtLine.id, quantity: 11 }] })
+      .expect(400)
+
+    // Fractional counts are rejected, not truncated into a different receipt
+    for (const quantity of [2.9, '2.9']) {
+      await request(app)
+        .post(`/api/v1/purchase-orders/${created.body.id}/receive`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .send({ items: [{ purchaseOrderItemId: shirtLine.id, quantity }] })
+        .expect(400)
+    }
+    expect((await db.Product.findByPk(product.id)).stock).toBe(10)
+
+    const partial = await request(app)
+      .post(`/api/v1/purchase-orders/${created.body.id}/receive`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ purchaseOrderItemId: shirtLine.id, quantity: 10 }, { purchaseOrderItemId: tshirtLine.id, quantity: 3 }] })
+      .expect(200)
+    expect(partial.body.purchaseOrder.status).toBe('PARTIALLY_RECEIVED')
+
+    // (10 × 60.000 + 10 × 75.000) / 20 = 67.500
+    const shirt = await db.Product.findByPk(product.id)
+    expect(shirt.stock).toBe(20)
+    expect(shirt.costPrice).toBe(67500)
+    expect((await db.ProductVariant.findByPk(variant.id)).stock).toBe(5)
+    expect((await db.Product.findByPk(variantProduct.id)).stock).toBe(5)
+
+    const movements = await db.StockMovement.findAll({ where: { referenceId: created.body.id } })
+    expect(movements).toHaveLength(2)
+    expect(movements.every((m) => m.reason === 'RECEIVING')).toBe(true)
+
+    const closed = await request(app)
+      .post(`/api/v1/purchase-orders/${created.body.id}/close`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200)
+    expect(closed.body.status).toBe('CLOSED')
+    expect(closed.body.closedAt).toBeTruthy()
+  })
+
+  it('only edits and deletes drafts', async () => {
+    const created = await request(app)
+      .post('/api/v1/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId: supplier.id, items: [{ productId: product.id, quantity: 2, unitCost: 70000 }] })
+      .expect(201)
+    const updated = await request(app)
+      .put(`/api/v1/purchase-orders/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ items: [{ productId: product.id, quantity: 4, unitCost: 70000 }] })
+      .expect(200)
+    expect(updated.body.items).toHaveLength(1)
+    expect(updated.body.totalAmount).toBe(280000)
+    await request(app)
+      .post('/api/v1/purchase-orders')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ supplierId: supplier.id, items: [{ productId: product.id, variantId: variant.id, quantity: 1, unitCost: 1 }] })
+      .expect(400)
+    await request(app)
+      .delete(`/api/v1/purchase-orders/${created.body.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200)
+  })
+
+  it('deactivates suppliers that have purchase orders', async () => {
+    const res = await request(app)
+      .delete(`/api/v1/suppliers/${supplier.id}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .expect(200)
+    expect(res.body.deactivated).toBe(true)
+  })
+})
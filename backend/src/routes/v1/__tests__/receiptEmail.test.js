@@ -0,0 +1,121 @@
+const net = require('net')
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+// Minimal SMTP server that accepts every message and keeps it in memory
+function startSmtpSink() {
+  const messages = []
+  const server = net.createServer((socket) => {
+    let buffer = ''
+    let data = null
+    let envelope = { from: null, to: [] }
+    socket.write('220 sink ESMTP\r\n')
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString('utf8')
+      for (;;) {
+        if (data !== null) {
+          const end = buffer.indexOf('\r\n.\r\n')
+          if (end === -1) return
+          messages.push({ ...envelope, data: data + buffer.slice(0, end) })
+          buffer = buffer.slice(end + 5)
+          data = null
+          envelope = { from: null, to: [] }
+          socket.write('250 OK queued\r\n')
+          continue
+        }
+        const end = buffer.indexOf('\r\n')
+        if (end === -1) return
+        const line = buffer.slice(0, end)
+        buffer = buffer.slice(end + 2)
+        const command = line.slice(0, 4).toUpperCase()
+        if (command === 'EHLO' || command === 'HELO') socket.write('250 sink\r\n')
+        else if (command === 'MAIL') { envelope.from = line; socket.write('250 OK\r\n') }
+        else if (command === 'RCPT') { envelope.to.push(line); socket.write('250 OK\r\n') }
+        else if (command === 'DATA') { data = ''; socket.write('354 End data with <CR><LF>.<CR><LF>\r\n') }
+        else if (command === 'QUIT') socket.end('221 Bye\r\n')
+        else socket.write('250 OK\r\n')
+      }
+    })
+  })
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve({ server, port: server.address().port, messages })))
+}
+
+describe('Email receipts', () => {
+  const app = buildApp()
+  let cashier, sink, sale
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const sendEmail = (id, body = {}) => as(cashier, request(app).post(`/api/v1/transactions/${id}/send-receipt-email`)).send(body)
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    await db.Category.create({ id: 'cat-1', name: 'Kategori' })
+    await db.Product.create({ id: 'prod-1', name: 'Kemeja Batik', price: 25000, stock: 50, categoryId: 'cat-1', size: 'L', color: 'Biru' })
+    const res = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: 'prod-1', quantity: 2, price: 25000 }], subtotal: 50000, total: 50000, paymentMethod: 'CASH', customerName: 'Andi' })
+      .expect(201)
+    sale = res.body
+    sink = await startSmtpSink()
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    for (const key of ['SMTP_HOST', 'SMTP_PORT', 'SMTP_FROM']) delete process.env[key]
+    await new Promise((resolve) => sink.server.close(resolve))
+    await db.sequelize.close()
+  })
+
+  it('refuses to send while SMTP is not configured', async () => {
+    await request(app).post(`/api/v1/transactions/${sale.id}/send-receipt-email`).send({ email: 'andi@example.com' }).expect(401)
+    const res = await sendEmail(sale.id, { email: 'andi@example.com' }).expect(503)
+    expect(res.body.error).toBe('Email is not configured')
+  })
+
+  it('emails the HTML receipt with the PDF attached', async () => {
+    process.env.SMTP_HOST = '127.0.0.1'
+    process.env.SMTP_PORT = String(sink.port)
+    process.env.SMTP_FROM = 'Wear Calaa <struk@example.com>'
+
+    await sendEmail('missing', { email: 'andi@example.com' }).expect(404)
+    expect((await sendEmail(sale.id).expect(400)).body.error).toBe('Email address is required')
+    expect((await sendEmail(sale.id, { email: 'andi@' }).expect(400)).body.error).toBe('Invalid email address')
+
+    const res = await sendEmail(sale.id, { email: 'andi@example.com' }).expect(200)
+    expect(res.body).toMatchObject({ transactionId: sale.id, email: 'andi@example.com', messageId: expect.any(String) })
+
+    expect(sink.messages).toHaveLength(1)
+    const [mail] = sink.messages
+    expect(mail.from).toContain('struk@example.com')
+    expect(mail.to).toEqual([expect.stringContaining('andi@example.com')])
+    expect(mail.data).toContain(`Subject: Struk belanja Wear Calaa #${sale.id}`)
+    expect(mail.data).toContain('Content-Type: text/html')
+    expect(mail.data).toMatch(/Content-Type: application\/pdf;\s+name=struk-\w+\.pdf/)
+    const pdf = mail.data.split('Content-Type: application/pdf')[1].split('\r\n\r\n')[1].split('\r\n--')[0]
+    expect(Buffer.from(pdf.replace(/\s/g, ''), 'base64').slice(0, 5).toString()).toBe('%PDF-')
+
+    // The typed address is kept for the next send
+    expect((await db.Transaction.findByPk(sale.id)).customerEmail).toBe('andi@example.com')
+    await sendEmail(sale.id).expect(200)
+    expect(sink.messages[1].to).toEqual([expect.stringContaining('andi@example.com')])
+  })
+
+  it('reports SMTP failures', async () => {
+    const closed = net.createServer()
+    await new Promise((resolve) => closed.listen(0, '127.0.0.1', resolve))
+    process.env.SMTP_PORT = String(closed.address().port)
+    await new Promise((resolve) => closed.close(resolve))
+
+    const res = await sendEmail(sale.id).expect(502)
+    expect(res.body.error).toMatch(/^Failed to send email: /)
+  })
+})
@@ -0,0 +1,169 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const ReceiptFormatter = require('../../../services/receiptFormatter')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+
+describe('Tax (PPN)', () => {
+  const app = buildApp()
+  let admin, manager, cashier, shirt, hat, book
+  let exclusiveSaleId
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const today = new Date(Date.now() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+
+  beforeAll(async () => {
+    // Manager approval has its own suite (approvals.test.js)
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    admin = await db.User.create({ name: 'Admin', email: 'admin@example.com', role: 'ADMIN', password: 'secret' })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    const clothing = await db.Category.create({ name: 'Pakaian' })
+    const accessories = await db.Category.create({ name: 'Aksesoris' })
+    const books = await db.Category.create({ name: 'Buku' })
+    shirt = await db.Product.create({ name: 'Kemeja', price: 100000, stock: 10, categoryId: clothing.id, size: 'M', color: 'Putih' })
+    hat = await db.Product.create({ name: 'Topi', price: 50000, stock: 10, categoryId: accessories.id, size: 'All', color: 'Hitam' })
+    book = await db.Product.create({ name: 'Buku Pola', price: 40000, stock: 10, categoryId: books.id, size: 'A4', color: 'Putih' })
+
+    await as(admin, request(app).put(`/api/v1/categories/${accessories.id}`)).send({ name: 'Aksesoris', taxRate: 5 }).expect(200)
+    await as(admin, request(app).put(`/api/v1/categories/${books.id}`)).send({ name: 'Buku', taxExempt: true }).expect(200)
+    await as(admin, request(app).put(`/api/v1/categories/${books.id}`)).send({ name: 'Buku', taxRate: 150 }).expect(400)
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('is off by default and only admins change it', async () => {
+    const initial = await as(cashier, request(app).get('/api/v1/tax/settings')).expect(200)
+    expect(initial.body).toMatchObject({ enabled: false, rate: 11, priceIncludesTax: false, rounding: 'ROUND' })
+
+    await as(manager, request(app).put('/api/v1/tax/settings')).send({ enabled: true }).expect(403)
+    await as(admin, request(app).put('/api/v1/tax/settings')).send({ rate: 120 }).expect(400)
+    await as(admin, request(app).put('/api/v1/tax/settings')).send({ rounding: 'HALF_EVEN' }).expect(400)
+
+    const updated = await as(admin, request(app).put('/api/v1/tax/settings')).send({ enabled: true, rate: 11 }).expect(200)
+    expect(updated.body).toMatchObject({ enabled: true, rate: 11, priceIncludesTax: false, rounding: 'ROUND', updatedBy: admin.id })
+  })
+
+  it('adds exclusive tax per line after the line share of discounts', async () => {
+    const cart = {
+      items: [
+        { productId: shirt.id, quantity: 1, price: 100000 },
+        { productId: hat.id, quantity: 2, price: 50000 },
+        { productId: book.id, quantity: 1, price: 40000 }
+      ],
+      discount: 24000
+    }
+    const quote = await as(cashier, request(app).post('/api/v1/tax/calculate')).send(cart).expect(200)
+    // Discount shares 10000 / 10000 / 4000; PPN 11% and the 5% category rate, books exempt
+    expect(quote.body).toMatchObject({ subtotal: 240000, tax: 14400, taxInclusive: false, total: 230400 })
+    expect(quote.body.lines).toEqual([
+      expect.objectContaining({ productId: shirt.id, taxRate: 11, taxableAmount: 90000, taxAmount: 9900, taxExempt: false }),
+      expect.objectContaining({ productId: hat.id, taxRate: 5, taxableAmount: 90000, taxAmount: 4500 }),
+      expect.objectContaining({ productId: book.id, taxRate: 0, taxableAmount: 36000, taxAmount: 0, taxExempt: true })
+    ])
+
+    // A cart total without the tax is stale
+    const stale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ ...cart, subtotal: 240000, total: 216000, paymentMethod: 'CASH' })
+      .expect(409)
+    expect(stale.body.diff.totals.total).toEqual({ client: 216000, server: 230400 })
+    expect(stale.body.pricing.tax).toBe(14400)
+
+    const sale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ ...cart, subtotal: 240000, tax: 14400, total: 230400, paymentMethod: 'CASH' })
+      .expect(201)
+    exclusiveSaleId = sale.body.id
+    expect(sale.body).toMatchObject({ tax: 14400, taxInclusive: false, finalTotal: 230400 })
+    const items = await db.TransactionItem.findAll({ where: { transactionId: sale.body.id } })
+    const shirtLine = items.find((i) => i.productId === shirt.id)
+    expect(shirtLine).toMatchObject({ taxRate: 11, taxableAmount: 90000, taxAmount: 9900 })
+  })
+
+  it('extracts inclusive tax with the configured rounding and prints it per line', async () => {
+    await as(admin, request(app).put('/api/v1/tax/settings')).send({ priceIncludesTax: true, rounding: 'floor' }).expect(200)
+
+    const sale = await as(cashier, request(app).post('/api/v1/transactions'))
+      .send({ items: [{ productId: shirt.id, quantity: 1, price: 100000 }], subtotal: 100000, total: 100000, paymentMethod: 'CASH' })
+      .expect(201)
+    // 100000 * 11 / 111 = 9909.9, floored
+    expect(sale.body).toMatchObject({ tax: 9909, taxInclusive: true, finalTotal: 100000 })
+    const [line] = await db.TransactionItem.findAll({ where: { transactionId: sale.body.id } })
+    expect(line).toMatchObject({ taxRate: 11, taxableAmount: 90091, taxAmount: 9909 })
+
+    const receipt = ReceiptFormatter.formatReceiptForWhatsApp({
+      id: sale.body.id,
+      createdAt: sale.body.createdAt,
+      items: [{ name: 'Kemeja', quantity: 1, price: 100000, total: 100000, taxRate: line.taxRate, taxAmount: line.taxAmount }],
+      subtotal: 100000,
+      tax: sale.body.tax,
+      taxInclusive: sale.body.taxInclusive,
+      finalTotal: sale.body.finalTotal,
+      paymentMethod: 'CASH',
+      status: 'COMPLETED'
+    })
+    expect(receipt).toMatch(/Termasuk PPN 11%: Rp\s9\.909/)
+    expect(receipt).toMatch(/PPN \(termasuk dalam harga\): Rp\s9\.909/)
+  })
+
+  it('summarizes tax by month and rate, net of refunds', async () => {
+    const hatLine = await db.TransactionItem.findOne({ where: { transactionId: exclusiveSaleId, productId: hat.id } })
+    await as(cashier, request(app).post(`/api/v1/transactions/${exclusiveSaleId}/refund`))
+      .send({ items: [{ transactionItemId: hatLine.id, quantity: 1 }] })
+      .expect(200)
+
+    const report = await as(manager, request(app).get('/api/v1/reports/tax').query({ from: today, to: today })).expect(200)
+    expect(report.body.period).toEqual({ from: today, to: today })
+    expect(report.body.totals).toMatchObject({
+      transactionCount: 2,
+      taxableAmount: 270091,
+      taxAmount: 24309,
+      exemptAmount: 36000,
+      refundedTaxAmount: 2250,
+      netTaxAmount: 22059
+    })
+    expect(report.body.monthly).toEqual([expect.objectContaining({ month: today.slice(0, 7), netTaxAmount: 22059 })])
+    expect(report.body.byRate).toEqual([
+      expect.objectContaining({ rate: 5, taxAmount: 4500, refundedTaxAmount: 2250, netTaxAmount: 2250 }),
+      expect.objectContaining({ rate: 11, taxAmount: 19809, netTaxAmount: 19809 })
+    ])
+
+    await as(manager, request(app).get('/api/v1/reports/tax').query({ from: '2024-13-01', to: today })).expect(400)
+    await as(cashier, request(app).get('/api/v1/reports/tax')).expect(403)
+  })
+
+  it('reports an offline replay in the month it was paid at the till', async () => {
+    // The server receives the replay just after midnight on 1 March (Jakarta)
+    jest.useFakeTimers({
+      now: new Date('2026-03-01T00:30:00+07:00'),
+      doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask', 'hrtime', 'performance']
+    })
+    try {
+      const shift = await db.CashierShift.create({ userId: cashier.id, openingBalance: 0, status: 'OPEN', startedAt: new Date('2026-02-28T20:00:00+07:00') })
+      const paidAt = '2026-02-28T23:50:00+07:00'
+      const replay = await as(cashier, request(app).post('/api/v1/transactions'))
+        .set('X-Idempotency-Key', 'tax-offline-month-end')
+        .send({ items: [{ productId: shirt.id, quantity: 1 }], paymentMethod: 'CASH', subtotal: 100000, total: 100000, offline: true, clientCreatedAt: new Date(paidAt).toISOString() })
+        .expect(201)
+      expect(new Date(replay.body.paidAt).toISOString()).toBe(new Date(paidAt).toISOString())
+      await shift.update({ status: 'CLOSED', endedAt: new Date() })
+
+      const february = await as(manager, request(app).get('/api/v1/reports/tax').query({ from: '2026-02-01', to: '2026-02-28' })).expect(200)
+      expect(february.body.totals).toMatchObject({ transactionCount: 1, taxAmount: 9909 })
+      expect(february.body.monthly).toEqual([expect.objectContaining({ month: '2026-02', taxAmount: 9909 })])
+      const march = await as(manager, request(app).get('/api/v1/reports/tax').query({ from: '2026-03-01', to: '2026-03-31' })).expect(200)
+      expect(march.body.totals.transactionCount).toBe(0)
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+})
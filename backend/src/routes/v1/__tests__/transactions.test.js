@@ -31,12 +31,18 @@ describe('Transactions API', () => {
   const app = buildApp()
 
   beforeAll(async () => {
+    // The tester is a cashier; manager approval has its own suite (approvals.test.js)
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
     await db.sequelize.sync({ force: true })
     await db.User.create({ id: 1, name: 'Tester', email: 'tester@example.com', password: 'secret' })
     const cat = await db.Category.create({ id: 'cat-1', name: 'Kategori' })
     await db.Product.create({ id: 'prod-1', name: 'Produk A', price: 10000, stock: 10, categoryId: 'cat-1', color: 'RED', size: 'M' })
   })
 
+  afterAll(() => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+  })
+
   it('rejects unauthorized list requests', async () => {
     const res = await request(app).get('/api/v1/transactions')
     expect(res.status).toBe(401)
@@ -185,6 +191,357 @@ describe('Transactions API', () => {
     expect(q3.status).toBe(200)
   })
 
+  it('reports negative stock when replaying an offline sale', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-offline', name: 'Produk Offline', price: 5000, stock: 1, categoryId: 'cat-1', color: 'BLUE', size: 'L' })
+    const clientCreatedAt = new Date(Date.now() - 30 * 60 * 1000).toISOString()
+    const payload = {
+      items: [{ productId: 'prod-offline', quantity: 3, price: 5000 }],
+      subtotal: 15000,
+      total: 15000,
+      paymentMethod: 'CASH',
+      offline: true,
+      clientCreatedAt
+    }
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .set('X-Idempotency-Key', 'offline-key-1')
+      .send(payload)
+    expect(res.status).toBe(201)
+    expect(res.body.offline).toBe(true)
+    expect(new Date(res.body.paidAt).toISOString()).toBe(clientCreatedAt)
+    expect(res.body.stockConflicts).toEqual([{ productId: 'prod-offline', name: 'Produk Offline', stock: -2 }])
+    expect(res.body.priceConflicts).toBeNull()
+
+    const replay = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .set('X-Idempotency-Key', 'offline-key-1')
+      .send(payload)
+    expect(replay.status).toBe(200)
+    expect(replay.body.duplicate).toBe(true)
+    const product = await db.Product.findByPk('prod-offline')
+    expect(Number(product.stock)).toBe(-2)
+  })
+
+  it('pays offline replays at server time when the client time is outside the open shift', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    const shift = await db.CashierShift.create({ userId: 1, openingBalance: 0, status: 'OPEN', startedAt: new Date(Date.now() - 2 * 60 * 60 * 1000) })
+    const replay = (key, clientCreatedAt) => request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .set('X-Idempotency-Key', key)
+      .send({ items: [{ productId: 'prod-1', quantity: 1, price: 10000 }], subtotal: 10000, total: 10000, paymentMethod: 'CASH', offline: true, clientCreatedAt })
+
+    try {
+      const inShift = new Date(Date.now() - 60 * 60 * 1000).toISOString()
+      const ok = await replay('offline-clock-1', inShift)
+      expect(ok.status).toBe(201)
+      expect(new Date(ok.body.paidAt).toISOString()).toBe(inShift)
+
+      for (const [key, clientCreatedAt] of [
+        ['offline-clock-2', new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString()],
+        ['offline-clock-3', new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString()],
+        ['offline-clock-4', '2020-01-01T08:00:00.000Z']
+      ]) {
+        const before = Date.now()
+        const res = await replay(key, clientCreatedAt)
+        expect(res.status).toBe(201)
+        const paidAt = new Date(res.body.paidAt).getTime()
+        expect(paidAt).toBeGreaterThanOrEqual(before - 1000)
+        expect(paidAt).toBeLessThanOrEqual(Date.now())
+      }
+    } finally {
+      await shift.update({ status: 'CLOSED', endedAt: new Date() })
+    }
+  })
+
+  it('reduces variant and parent stock when selling a variant', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-var', name: 'Kaos', price: 50000, stock: 5, categoryId: 'cat-1' })
+    await db.ProductVariant.create({ id: 'var-m', productId: 'prod-var', size: 'M', color: 'Hitam', stock: 5 })
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        items: [{ productId: 'prod-var', variantId: 'var-m', quantity: 2, price: 50000 }],
+        subtotal: 100000,
+        total: 100000,
+        paymentMethod: 'CASH'
+      })
+    expect(res.status).toBe(201)
+    const item = await db.TransactionItem.findOne({ where: { transactionId: res.body.id } })
+    expect(item.variantId).toBe('var-m')
+    expect((await db.ProductVariant.findByPk('var-m')).stock).toBe(3)
+    expect((await db.Product.findByPk('prod-var')).stock).toBe(3)
+  })
+
+  it('records SALE and REFUND movements in the stock ledger', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-ledger', name: 'Produk Ledger', price: 10000, stock: 8, categoryId: 'cat-1', color: 'RED', size: 'S' })
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        items: [{ productId: 'prod-ledger', quantity: 3, price: 10000 }],
+        subtotal: 30000,
+        total: 30000,
+        paymentMethod: 'CASH'
+      })
+    expect(res.status).toBe(201)
+    const refund = await request(app)
+      .post(`/api/v1/transactions/${res.body.id}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+    expect(refund.status).toBe(200)
+
+    const movements = await db.StockMovement.findAll({ where: { productId: 'prod-ledger' }, order: [['createdAt', 'ASC']] })
+    expect(movements.map((m) => [m.reason, m.delta, m.balanceAfter])).toEqual([['SALE', -3, 5], ['REFUND', 3, 8]])
+    expect(movements.every((m) => m.referenceId === res.body.id && m.userId === 1)).toBe(true)
+  })
+
+  it('refunds line items partially with prorated amount, stock and points', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-ret-a', name: 'Retur A', price: 10000, stock: 5, categoryId: 'cat-1', color: 'RED', size: 'M' })
+    await db.Product.create({ id: 'prod-ret-b', name: 'Retur B', price: 10000, stock: 5, categoryId: 'cat-1', color: 'RED', size: 'L' })
+    const member = await db.Member.create({ name: 'Member Retur', phone: '081200000099', points: 100, totalSpent: 25000 })
+    const tx = await db.Transaction.create({
+      id: 'tx-partial',
+      total: 30000,
+      discount: 2000,
+      promoDiscount: 3000,
+      finalTotal: 25000,
+      pointsEarned: 25,
+      pointsUsed: 2,
+      paymentMethod: 'CASH',
+      status: 'COMPLETED',
+      paymentStatus: 'PAID',
+      userId: 1,
+      memberId: member.id,
+    })
+    const itemA = await db.TransactionItem.create({ transactionId: tx.id, productId: 'prod-ret-a', quantity: 2, price: 10000, subtotal: 20000 })
+    const itemB = await db.TransactionItem.create({ transactionId: tx.id, productId: 'prod-ret-b', quantity: 1, price: 10000, subtotal: 10000 })
+
+    const tooMany = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ transactionItemId: itemA.id, quantity: 3 }] })
+    expect(tooMany.status).toBe(400)
+
+    const partial = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ transactionItemId: itemA.id, quantity: 1 }] })
+    expect(partial.status).toBe(200)
+    expect(partial.body.refundAmount).toBe(8333)
+    expect(partial.body.transaction.status).toBe('PARTIALLY_REFUNDED')
+    expect(partial.body.transaction.refundedAmount).toBe(8333)
+    expect((await db.TransactionItem.findByPk(itemA.id)).refundedQuantity).toBe(1)
+    expect((await db.Product.findByPk('prod-ret-a')).stock).toBe(6)
+    expect((await db.Product.findByPk('prod-ret-b')).stock).toBe(5)
+    expect((await db.Member.findByPk(member.id)).points).toBe(92)
+
+    // Refunding the rest settles the remainder exactly, including rounding
+    const rest = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+    expect(rest.status).toBe(200)
+    expect(rest.body.refundAmount).toBe(16667)
+    expect(rest.body.transaction.status).toBe('REFUNDED')
+    expect(rest.body.transaction.refundedAmount).toBe(25000)
+    expect((await db.TransactionItem.findByPk(itemB.id)).refundedQuantity).toBe(1)
+    expect((await db.Product.findByPk('prod-ret-a')).stock).toBe(7)
+    expect((await db.Product.findByPk('prod-ret-b')).stock).toBe(6)
+
+    const refreshed = await db.Member.findByPk(member.id)
+    expect(refreshed.points).toBe(77)
+    expect(Number(refreshed.totalSpent)).toBe(0)
+    const history = await db.PointHistory.findAll({ where: { transactionId: tx.id }, order: [['createdAt', 'ASC']] })
+    expect(history.map((h) => h.points).reduce((a, b) => a + b, 0)).toBe(-23)
+  })
+
+  it('exchanges a returned size for another and charges only the difference', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-exc', name: 'Kemeja', price: 100000, stock: 10, categoryId: 'cat-1' })
+    await db.ProductVariant.create({ id: 'var-exc-m', productId: 'prod-exc', size: 'M', color: 'Putih', stock: 5 })
+    await db.ProductVariant.create({ id: 'var-exc-l', productId: 'prod-exc', size: 'L', color: 'Putih', stock: 5, price: 120000 })
+    const tx = await db.Transaction.create({
+      id: 'tx-exchange',
+      total: 200000,
+      finalTotal: 200000,
+      paymentMethod: 'CASH',
+      status: 'COMPLETED',
+      paymentStatus: 'PAID',
+      userId: 1,
+    })
+    const sold = await db.TransactionItem.create({ transactionId: tx.id, productId: 'prod-exc', variantId: 'var-exc-m', quantity: 2, price: 100000, subtotal: 200000 })
+
+    const invalid = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/exchange`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ returnItems: [{ transactionItemId: sold.id, quantity: 1 }], newItems: [{ productId: 'prod-exc', variantId: 'var-m', quantity: 1 }] })
+    expect(invalid.status).toBe(400)
+    expect((await db.Transaction.findByPk(tx.id)).status).toBe('COMPLETED')
+
+    // A client price is compared with the catalog, never charged
+    const tampered = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/exchange`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ returnItems: [{ transactionItemId: sold.id, quantity: 1 }], newItems: [{ productId: 'prod-exc', variantId: 'var-exc-l', quantity: 1, price: 0 }] })
+    expect(tampered.status).toBe(409)
+    expect(tampered.body.code).toBe('PRICE_MISMATCH')
+    expect(tampered.body.diff.items).toEqual([{ productId: 'prod-exc', variantId: 'var-exc-l', name: 'Kemeja', clientPrice: 0, serverPrice: 120000 }])
+    expect(tampered.body.pricing.total).toBe(120000)
+    expect((await db.Transaction.findByPk(tx.id)).status).toBe('COMPLETED')
+    expect((await db.ProductVariant.findByPk('var-exc-l')).stock).toBe(5)
+
+    const res = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/exchange`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ returnItems: [{ transactionItemId: sold.id, quantity: 1 }], newItems: [{ productId: 'prod-exc', variantId: 'var-exc-l', quantity: 1 }] })
+    expect(res.status).toBe(201)
+    expect(res.body.credit).toBe(100000)
+    expect(res.body.amountDue).toBe(20000)
+    expect(res.body.refundDue).toBe(0)
+    expect(res.body.exchange.exchangeOfId).toBe(tx.id)
+    expect(res.body.exchange.finalTotal).toBe(120000)
+    // No money went back for the exchanged unit, so the sale is not a refund
+    expect(res.body.original.status).toBe('COMPLETED')
+    expect(res.body.original.refundedAmount).toBe(0)
+    expect(res.body.original.exchangedAmount).toBe(100000)
+
+    expect((await db.ProductVariant.findByPk('var-exc-m')).stock).toBe(6)
+    expect((await db.ProductVariant.findByPk('var-exc-l')).stock).toBe(4)
+    expect((await db.Product.findByPk('prod-exc')).stock).toBe(10)
+    const movements = await db.StockMovement.findAll({ where: { productId: 'prod-exc' } })
+    expect(movements.map((m) => [m.variantId, m.delta]).sort()).toEqual([['var-exc-l', -1], ['var-exc-m', 1]])
+    expect(movements.every((m) => m.reason === 'EXCHANGE' && m.referenceId === res.body.exchange.id)).toBe(true)
+
+    const cancel = await request(app)
+      .post(`/api/v1/transactions/${res.body.exchange.id}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+    expect(cancel.status).toBe(400)
+    const cancelOriginal = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({})
+    expect(cancelOriginal.status).toBe(400)
+
+    // The unit that was not exchanged can still be returned for money
+    const refund = await request(app)
+      .post(`/api/v1/transactions/${tx.id}/refund`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ transactionItemId: sold.id, quantity: 1 }] })
+    expect(refund.status).toBe(200)
+    expect(refund.body.refundAmount).toBe(100000)
+    expect(refund.body.transaction.status).toBe('REFUNDED')
+    expect(refund.body.transaction.refundedAmount).toBe(100000)
+  })
+
+  it('records split tenders and rejects payments that do not cover the total', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-split', name: 'Jaket', price: 500000, stock: 3, categoryId: 'cat-1' })
+    const sale = {
+      items: [{ productId: 'prod-split', quantity: 1, price: 500000 }],
+      subtotal: 500000,
+      total: 500000,
+      paymentMethod: 'SPLIT'
+    }
+
+    const short = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ ...sale, payments: [{ method: 'CASH', amount: 300000 }] })
+    expect(short.status).toBe(400)
+    expect(short.body.error).toMatch(/does not match/)
+
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        ...sale,
+        payments: [
+          { method: 'CASH', amount: 300000 },
+          { method: 'QRIS', amount: 200000, reference: 'QR-778' }
+        ]
+      })
+    expect(res.status).toBe(201)
+    expect(res.body.status).toBe('COMPLETED')
+    expect(res.body.paymentMethod).toBe('CASH')
+    expect((await db.Product.findByPk('prod-split')).stock).toBe(2)
+
+    const detail = await request(app)
+      .get(`/api/v1/transactions/${res.body.id}`)
+      .set('Authorization', `Bearer ${token}`)
+    expect(detail.status).toBe(200)
+    const tenders = detail.body.payments.map((p) => [p.method, p.amount, p.status, p.reference]).sort()
+    expect(tenders).toEqual([['CASH', 300000, 'PAID', null], ['QRIS', 200000, 'PAID', 'QR-778']])
+  })
+
+  it('prices sales from the catalog and rejects tampered totals with a diff', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    await db.Product.create({ id: 'prod-price', name: 'Celana', price: 50000, stock: 5, categoryId: 'cat-1' })
+    const now = Date.now()
+    const promo = await db.Promotion.create({
+      name: 'Diskon Celana', type: 'PRODUCT_DISCOUNT', discountType: 'PERCENTAGE', discountValue: 10,
+      startDate: new Date(now - 86400000), endDate: new Date(now + 86400000), isActive: true
+    })
+    await db.ProductPromotion.create({ productId: 'prod-price', promotionId: promo.id })
+    await db.Voucher.create({
+      code: 'HEMAT5', name: 'Hemat 5rb', type: 'fixed', value: 5000, usedCount: 0,
+      startDate: new Date(now - 86400000), endDate: new Date(now + 86400000), isActive: true
+    })
+
+    const tampered = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ productId: 'prod-price', quantity: 2, price: 1 }], subtotal: 2, total: 0, paymentMethod: 'CASH' })
+    expect(tampered.status).toBe(409)
+    expect(tampered.body.code).toBe('PRICE_MISMATCH')
+    expect(tampered.body.diff.items).toEqual([{ productId: 'prod-price', variantId: null, name: 'Celana', clientPrice: 1, serverPrice: 50000 }])
+    expect(tampered.body.diff.totals.total).toEqual({ client: 0, server: 90000 })
+    expect(tampered.body.pricing.promoDiscount).toBe(10000)
+    expect((await db.Product.findByPk('prod-price')).stock).toBe(5)
+
+    const inflatedVoucher = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        items: [{ productId: 'prod-price', quantity: 2, price: 50000 }],
+        subtotal: 100000, promoDiscount: 10000, voucherCode: 'HEMAT5', voucherDiscount: 50000, total: 40000, paymentMethod: 'CASH'
+      })
+    expect(inflatedVoucher.status).toBe(409)
+    expect(inflatedVoucher.body.diff.totals.voucherDiscount).toEqual({ client: 50000, server: 5000 })
+
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        items: [{ productId: 'prod-price', quantity: 2, price: 50000 }],
+        subtotal: 100000, promoDiscount: 10000, voucherCode: 'hemat5', voucherDiscount: 5000, total: 85000, paymentMethod: 'CASH'
+      })
+    expect(res.status).toBe(201)
+    expect(res.body.finalTotal).toBe(85000)
+    expect(res.body.promoDiscount).toBe(10000)
+    const usage = await db.VoucherUsage.findOne({ where: { transactionId: res.body.id } })
+    expect(Number(usage.discountAmount)).toBe(5000)
+    expect((await db.Product.findByPk('prod-price')).stock).toBe(3)
+  })
+
+  it('rejects redeeming more points than the member has', async () => {
+    const token = signToken({ id: 1, email: 'tester@example.com' })
+    const member = await db.Member.create({ name: 'Member Poin', phone: '081200000123', points: 3, totalSpent: 0 })
+    const res = await request(app)
+      .post('/api/v1/transactions')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ items: [{ productId: 'prod-1', quantity: 1, price: 10000 }], subtotal: 10000, pointsUsed: 5, memberId: member.id, total: 5000, paymentMethod: 'CASH' })
+    expect(res.status).toBe(400)
+    expect(res.body.error).toMatch(/only has 3 points/)
+  })
+
   it('rejects unauthorized patch requests', async () => {
     const res = await request(app).patch('/api/v1/transactions/1').send({ status: 'COMPLETED' })
     expect(res.status).toBe(401)
@@ -0,0 +1,166 @@
+const request = require('supertest')
+const jwt = require('jsonwebtoken')
+const { buildApp } = require('../../../server')
+const db = require('../../../../../models')
+const { processCampaignQueue, OPT_OUT_FOOTER } = require('../../../services/whatsappCampaigns')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_AUDIENCE = process.env.JWT_AUD || 'pos-app'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+const MEMBER_AUDIENCE = process.env.MEMBER_JWT_AUD || 'pos-member'
+
+const tokenFor = (user) => jwt.sign({ sub: String(user.id), email: user.email }, JWT_SECRET, { audience: JWT_AUDIENCE, issuer: JWT_ISSUER })
+const memberTokenFor = (member) => jwt.sign({ sub: String(member.id), type: 'member' }, JWT_SECRET, { audience: MEMBER_AUDIENCE, issuer: JWT_ISSUER, expiresIn: 3600 })
+
+describe('WhatsApp campaigns', () => {
+  const app = buildApp()
+  let manager, cashier, gold, segment
+  const members = {}
+  let campaign
+
+  const as = (user, req) => req.set('Authorization', `Bearer ${tokenFor(user)}`)
+  const fakeWhatsApp = (send = async () => ({ success: true, messageId: 'wamid' })) => ({ isConnected: () => true, sendMessage: jest.fn(send) })
+  const run = (whatsapp, limit = 10) => processCampaignQueue({ whatsapp, limit, wait: async () => {} })
+
+  beforeAll(async () => {
+    process.env.APPROVAL_REQUIRED_ACTIONS = ''
+    await db.sequelize.sync({ force: true })
+    manager = await db.User.create({ name: 'Manajer', email: 'manager@example.com', role: 'MANAGER', password: 'secret' })
+    cashier = await db.User.create({ name: 'Kasir', email: 'cashier@example.com', role: 'CASHIER', password: 'secret' })
+    gold = await db.MemberTier.create({ name: 'Gold', minSpend: 1000000, color: '#ca8a04' })
+    members.sari = await db.Member.create({ name: 'Sari Dewi', phone: '081200000001', points: 1500, tierId: gold.id })
+    members.budi = await db.Member.create({ name: 'Budi', phone: '081200000002', points: 20 })
+    members.rina = await db.Member.create({ name: 'Rina', phone: '081200000003', points: 300, marketingOptOut: true })
+    members.noPhone = await db.Member.create({ name: 'Tanpa HP', email: 'tanpa@example.com', points: 900 })
+    members.inactive = await db.Member.create({ name: 'Lama', phone: '081200000005', points: 900, isActive: false })
+    segment = await db.MemberSegment.create({ name: 'Pelanggan Poin', rules: '{}' })
+    for (const member of [members.sari, members.rina]) {
+      await db.MemberSegmentMember.create({ segmentId: segment.id, memberId: member.id })
+    }
+  })
+
+  afterAll(async () => {
+    delete process.env.APPROVAL_REQUIRED_ACTIONS
+    await db.sequelize.close()
+  })
+
+  it('previews recipients and renders member placeholders', async () => {
+    await as(cashier, request(app).post('/api/v1/whatsapp/campaigns/preview')).send({ template: 'Halo' }).expect(403)
+    await as(manager, request(app).post('/api/v1/whatsapp/campaigns/preview')).send({ template: 'Halo {alamat}' }).expect(400)
+    await as(manager, request(app).post('/api/v1/whatsapp/campaigns/preview')).send({ template: 'Halo', audience: { city: 'Bandung' } }).expect(400)
+
+    const all = await as(manager, request(app).post('/api/v1/whatsapp/campaigns/preview'))
+      .send({ template: 'Halo {nama_depan}, poin Anda {poin} ({tier}).' })
+      .expect(200)
+    expect(all.body).toMatchObject({ recipientCount: 2, optedOut: 1 })
+    expect(all.body.sample.map((s) => s.memberId)).toEqual([members.sari.id, members.budi.id])
+    expect(all.body.sample[0].message).toBe(`Halo Sari, poin Anda 1.500 (Gold).\n\n${OPT_OUT_FOOTER}`)
+    expect(all.body.sample[1].message).toContain('(Member)')
+
+    const filtered = await as(manager, request(app).post('/api/v1/whatsapp/campaigns/preview'))
+      .send({ template: 'Halo {nama}', audience: { segmentId: segment.id, minPoints: 100 } })
+      .expect(200)
+    expect(filtered.body).toMatchObject({ recipientCount: 1, optedOut: 1, sample: [expect.objectContaining({ memberId: members.sari.id })] })
+  })
+
+  it('queues a campaign and sends it in throttled batches', async () => {
+    const created = await as(manager, request(app).post('/api/v1/whatsapp/campaigns'))
+      .send({ name: 'Promo Akhir Tahun', template: 'Halo {nama}, diskon 20% minggu ini!' })
+      .expect(201)
+    campaign = created.body.campaign
+    expect(campaign).toMatchObject({ status: 'DRAFT', createdBy: manager.id, counts: { total: 0 } })
+
+    const edited = await as(manager, request(app).put(`/api/v1/whatsapp/campaigns/${campaign.id}`)).send({ template: 'Halo {nama}, diskon 25% minggu ini!' }).expect(200)
+    expect(edited.body.campaign.template).toContain('25%')
+
+    const started = await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${campaign.id}/start`)).expect(200)
+    expect(started.body.campaign).toMatchObject({ status: 'SENDING', counts: { total: 2, pending: 2 } })
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${campaign.id}/start`)).expect(400)
+    await as(manager, request(app).put(`/api/v1/whatsapp/campaigns/${campaign.id}`)).send({ name: 'Ganti' }).expect(400)
+
+    // Nothing goes out while WhatsApp is down
+    const offline = { isConnected: () => false, sendMessage: jest.fn() }
+    expect(await run(offline)).toEqual({ sent: 0, failed: 0, skipped: 0 })
+    expect(offline.sendMessage).not.toHaveBeenCalled()
+
+    const whatsapp = fakeWhatsApp()
+    const waits = []
+    expect(await processCampaignQueue({ whatsapp, limit: 1, delayMs: 9000, wait: async (ms) => waits.push(ms) })).toEqual({ sent: 1, failed: 0, skipped: 0 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledWith('081200000001', `Halo Sari Dewi, diskon 25% minggu ini!\n\n${OPT_OUT_FOOTER}`)
+
+    // Budi opts out after the campaign started
+    await members.budi.update({ marketingOptOut: true })
+    expect(await run(whatsapp)).toEqual({ sent: 0, failed: 0, skipped: 1 })
+    expect(whatsapp.sendMessage).toHaveBeenCalledTimes(1)
+    expect(waits).toEqual([])
+
+    const detail = await as(manager, request(app).get(`/api/v1/whatsapp/campaigns/${campaign.id}`)).expect(200)
+    expect(detail.body.campaign).toMatchObject({ status: 'COMPLETED', counts: { total: 2, sent: 1, skipped: 1, pending: 0 } })
+    expect(detail.body.recipients).toEqual([
+      expect.objectContaining({ name: 'Sari Dewi', status: 'SENT', attempts: 1 }),
+      expect.objectContaining({ name: 'Budi', status: 'SKIPPED', error: 'Member opted out' })
+    ])
+  })
+
+  it('marks recipients failed after repeated errors and can retry them', async () => {
+    await members.budi.update({ marketingOptOut: false })
+    const created = await as(manager, request(app).post('/api/v1/whatsapp/campaigns'))
+      .send({ name: 'Poin Gold', template: 'Poin Anda {poin}', audience: { tierIds: [gold.id] } })
+      .expect(201)
+    const id = created.body.campaign.id
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/start`)).expect(200)
+
+    const broken = fakeWhatsApp(async () => ({ success: false, error: 'Invalid phone number' }))
+    for (let i = 0; i < 2; i++) expect(await run(broken)).toEqual({ sent: 0, failed: 0, skipped: 0 })
+    expect(await run(broken)).toEqual({ sent: 0, failed: 1, skipped: 0 })
+
+    let detail = await as(manager, request(app).get(`/api/v1/whatsapp/campaigns/${id}?status=failed`)).expect(200)
+    expect(detail.body.campaign).toMatchObject({ status: 'COMPLETED', counts: { failed: 1 } })
+    expect(detail.body.recipients).toEqual([expect.objectContaining({ status: 'FAILED', attempts: 3, error: 'Invalid phone number' })])
+
+    // A dropped connection leaves the message queued without using up attempts
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/retry-failed`)).expect(200)
+    const dropped = fakeWhatsApp(async () => ({ success: false, error: 'WhatsApp service not connected' }))
+    expect(await run(dropped)).toEqual({ sent: 0, failed: 0, skipped: 0 })
+    detail = await as(manager, request(app).get(`/api/v1/whatsapp/campaigns/${id}`)).expect(200)
+    expect(detail.body.recipients[0]).toMatchObject({ status: 'PENDING', attempts: 0 })
+
+    expect(await run(fakeWhatsApp())).toEqual({ sent: 1, failed: 0, skipped: 0 })
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/retry-failed`)).expect(400)
+  })
+
+  it('pauses, resumes and cancels campaigns', async () => {
+    const created = await as(manager, request(app).post('/api/v1/whatsapp/campaigns')).send({ name: 'Libur', template: 'Toko tutup besok' }).expect(201)
+    const id = created.body.campaign.id
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/start`)).expect(200)
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/pause`)).expect(200)
+
+    const whatsapp = fakeWhatsApp()
+    expect(await run(whatsapp)).toEqual({ sent: 0, failed: 0, skipped: 0 })
+    await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/resume`)).expect(200)
+    expect(await run(whatsapp, 1)).toEqual({ sent: 1, failed: 0, skipped: 0 })
+
+    const cancelled = await as(manager, request(app).post(`/api/v1/whatsapp/campaigns/${id}/cancel`)).expect(200)
+    expect(cancelled.body.campaign).toMatchObject({ status: 'CANCELLED', counts: { sent: 1, skipped: 1, pending: 0 } })
+    await as(manager, request(app).delete(`/api/v1/whatsapp/campaigns/${id}`)).expect(400)
+
+    const list = await as(manager, request(app).get('/api/v1/whatsapp/campaigns')).expect(200)
+    expect(list.body.placeholders).toEqual(['nama', 'nama_depan', 'poin', 'tier', 'belanja'])
+    expect(list.body.campaigns.map((c) => c.status)).toEqual(['CANCELLED', 'COMPLETED', 'COMPLETED'])
+  })
+
+  it('lets staff and members turn campaigns off', async () => {
+    const updated = await as(cashier, request(app).put(`/api/v1/members/${members.sari.id}`))
+      .send({ name: 'Sari Dewi', phone: '081200000001', marketingOptOut: true })
+      .expect(200)
+    expect(updated.body.marketingOptOut).toBe(true)
+
+    const token = memberTokenFor(members.sari)
+    const portal = (req) => req.set('Authorization', `Bearer ${token}`)
+    await portal(request(app).put('/api/v1/portal/me/marketing')).send({}).expect(400)
+    const res = await portal(request(app).put('/api/v1/portal/me/marketing')).send({ optOut: false }).expect(200)
+    expect(res.body).toEqual({ marketingOptOut: false })
+    const me = await portal(request(app).get('/api/v1/portal/me')).expect(200)
+    expect(me.body.marketingOptOut).toBe(false)
+  })
+})
@@ -0,0 +1,72 @@
+const { Router } = require('express')
+const { Op } = require('sequelize')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const { APPROVAL_ACTIONS, approvalConfig, verifyApprover, assertApprovalScope, issueApprovalToken } = require('../../services/approvals')
+
+const router = Router()
+
+// Manager approval for sensitive cashier actions; see services/approvals.js
+
+// Which actions need approval and the manual discount threshold
+router.get('/config', authMiddleware, authorize('approvals:request'), (_req, res) => {
+  res.json(approvalConfig())
+})
+
+// Managers and admins the cashier can ask for approval
+router.get('/approvers', authMiddleware, authorize('approvals:request'), async (_req, res) => {
+  try {
+    const users = await db.User.findAll({
+      where: { role: { [Op.in]: ['ADMIN', 'MANAGER'] } },
+      attributes: ['id', 'name', 'role', 'approvalPin'],
+      order: [['name', 'ASC']]
+    })
+    res.json({
+      approvers: users.map((u) => ({ id: u.id, name: u.name, role: u.role, hasPin: Boolean(u.approvalPin) }))
+    })
+  } catch (err) {
+    console.error('[Express] Error listing approvers:', err)
+    res.status(500).json({ error: 'Failed to list approvers' })
+  }
+})
+
+// Exchange an approver's PIN or password for a short-lived approval token.
+// Body: { action, approverId, pin? | password?, transactionId?, amount? }; CANCEL,
+// REFUND and MARK_PAID need transactionId, DISCOUNT needs amount
+router.post(
+  '/',
+  authMiddleware,
+  authorize('approvals:request'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      action: { type: 'string', required: true, enum: APPROVAL_ACTIONS },
+      approverId: { type: 'number', required: true },
+      pin: { type: 'string', required: false },
+      password: { type: 'string', required: false },
+      transactionId: { type: 'string', required: false },
+      amount: { type: 'number', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { action, approverId, pin, password } = req.body
+      const scope = {
+        transactionId: req.body.transactionId ? String(req.body.transactionId) : null,
+        amount: req.body.amount != null ? Number(req.body.amount) : null
+      }
+      // Checked before the PIN so a malformed request does not count as a failed attempt
+      assertApprovalScope(action, scope)
+      const approver = await verifyApprover({ approverId: Number(approverId), pin, password })
+      res.status(201).json(issueApprovalToken({ approver, requesterId: req.user.id, action, ...scope }))
+    } catch (err) {
+      if (err?.status) return res.status(err.status).json({ error: err.message })
+      console.error('[Express] Error issuing approval:', err)
+      res.status(500).json({ error: 'Failed to issue approval' })
+    }
+  }
+)
+
+module.exports = router
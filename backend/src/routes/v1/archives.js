@@ -0,0 +1,147 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const {
+  ARCHIVE_CONFIRMATION,
+  summarizePeriod,
+  draftArchive,
+  exportArchive,
+  applyArchive,
+  restoreArchive,
+  discardArchive
+} = require('../../services/archives')
+
+const router = Router()
+
+// Sales period archives; see services/archives.js
+
+const userAttributes = ['id', 'name', 'email']
+
+const serialize = (archive) => {
+  const { transactionIds: _ids, ...rest } = archive.get({ plain: true })
+  return rest
+}
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+async function loadArchive(req, res) {
+  const archive = await db.SalesArchive.findByPk(req.params.id)
+  if (!archive) res.status(404).json({ error: 'Archive not found' })
+  return archive
+}
+
+// List archives, newest first
+router.get('/', authMiddleware, authorize('archives:manage'), async (_req, res) => {
+  try {
+    const archives = await db.SalesArchive.findAll({
+      include: [
+        { model: db.User, as: 'creator', attributes: userAttributes },
+        { model: db.User, as: 'archiver', attributes: userAttributes },
+        { model: db.User, as: 'restorer', attributes: userAttributes }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: 200
+    })
+    res.json({ count: archives.length, confirmation: ARCHIVE_CONFIRMATION, archives: archives.map(serialize) })
+  } catch (err) {
+    sendError(res, err, 'Failed to list archives')
+  }
+})
+
+// What archiving ?from&to would cover
+router.get('/preview', authMiddleware, authorize('archives:manage'), async (req, res) => {
+  try {
+    const { transactionIds: _ids, ...summary } = await summarizePeriod(req.query.from, req.query.to)
+    res.json(summary)
+  } catch (err) {
+    sendError(res, err, 'Failed to preview archive')
+  }
+})
+
+// Draft an archive for a period; it must be exported before it can be applied
+router.post(
+  '/',
+  authMiddleware,
+  authorize('archives:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      from: { type: 'string', required: true },
+      to: { type: 'string', required: true },
+      note: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const archive = await draftArchive({ ...req.body, userId: req.user.id })
+      res.status(201).json(serialize(archive))
+    } catch (err) {
+      sendError(res, err, 'Failed to create archive')
+    }
+  }
+)
+
+// Download the archived sales as JSON (X-Archive-Checksum is its sha256)
+router.get('/:id/export', authMiddleware, authorize('archives:manage'), async (req, res) => {
+  try {
+    const archive = await loadArchive(req, res)
+    if (!archive) return
+    const file = await exportArchive(archive)
+    res.setHeader('Content-Type', 'application/json; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`)
+    res.setHeader('X-Archive-Checksum', file.checksum)
+    res.send(file.body)
+  } catch (err) {
+    sendError(res, err, 'Failed to export archive')
+  }
+})
+
+// Apply a drafted, exported archive. Body: { confirmation: 'ARSIPKAN' }
+router.post(
+  '/:id/apply',
+  authMiddleware,
+  authorize('archives:manage'),
+  buildValidator({ location: 'body', schema: { confirmation: { type: 'string', required: true } } }),
+  async (req, res) => {
+    try {
+      const archive = await loadArchive(req, res)
+      if (!archive) return
+      const archivedCount = await applyArchive(archive, { confirmation: req.body.confirmation, userId: req.user.id })
+      res.json({ archive: serialize(archive), archivedCount })
+    } catch (err) {
+      sendError(res, err, 'Failed to apply archive')
+    }
+  }
+)
+
+// Put the archived sales back on the dashboard
+router.post('/:id/restore', authMiddleware, authorize('archives:manage'), async (req, res) => {
+  try {
+    const archive = await loadArchive(req, res)
+    if (!archive) return
+    const restoredCount = await restoreArchive(archive, { userId: req.user.id })
+    res.json({ archive: serialize(archive), restoredCount })
+  } catch (err) {
+    sendError(res, err, 'Failed to restore archive')
+  }
+})
+
+// Drop a draft that was never applied
+router.delete('/:id', authMiddleware, authorize('archives:manage'), async (req, res) => {
+  try {
+    const archive = await loadArchive(req, res)
+    if (!archive) return
+    await discardArchive(archive)
+    res.json({ archive: serialize(archive) })
+  } catch (err) {
+    sendError(res, err, 'Failed to discard archive')
+  }
+})
+
+module.exports = router
@@ -0,0 +1,95 @@
+const { Router } = require('express')
+const { Op } = require('sequelize')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const db = require('../../../../models')
+
+const router = Router()
+
+const AUDIT_ACTIONS = ['CREATE', 'UPDATE', 'DELETE', 'BULK_UPDATE', 'BULK_DELETE']
+
+const parseJson = (value) => {
+  if (value == null) return null
+  try { return JSON.parse(value) } catch (_) { return value }
+}
+
+// YYYY-MM-DD is a Jakarta calendar day, as in GET /transactions
+function parseDate(value, endOfDay) {
+  if (!value) return null
+  const str = String(value)
+  const iso = /^\d{4}-\d{2}-\d{2}$/.test(str) ? `${str}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}+07:00` : str
+  const date = new Date(iso)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// Entities that have audit entries, for the filter dropdown
+router.get('/entities', authMiddleware, authorize('audit:read'), async (_req, res) => {
+  try {
+    const rows = await db.AuditLog.findAll({
+      attributes: [[db.sequelize.fn('DISTINCT', db.sequelize.col('entity')), 'entity']],
+      order: [['entity', 'ASC']],
+      raw: true
+    })
+    res.json({ entities: rows.map((r) => r.entity) })
+  } catch (err) {
+    console.error('[Express] Error listing audit entities:', err)
+    res.status(500).json({ error: 'Failed to list audit entities' })
+  }
+})
+
+// List audit entries, newest first.
+// Filters: entity, entityId, actorId, action, route (partial), from, to; paging: page, limit
+router.get('/', authMiddleware, authorize('audit:read'), async (req, res) => {
+  try {
+    const { entity, entityId, actorId, action, route } = req.query
+    const where = {}
+    if (entity) where.entity = String(entity)
+    if (entityId) where.entityId = String(entityId)
+    if (actorId) {
+      const id = Number(actorId)
+      if (!Number.isInteger(id)) return res.status(400).json({ error: 'Invalid actorId' })
+      where.actorId = id
+    }
+    if (action) {
+      const value = String(action).toUpperCase()
+      if (!AUDIT_ACTIONS.includes(value)) return res.status(400).json({ error: 'Invalid action' })
+      where.action = value
+    }
+    if (route) where.route = { [Op.like]: `%${String(route)}%` }
+
+    const from = parseDate(req.query.from, false)
+    const to = parseDate(req.query.to, true)
+    if (from === undefined || to === undefined) return res.status(400).json({ error: 'Invalid date range' })
+    if (from || to) {
+      where.createdAt = {}
+      if (from) where.createdAt[Op.gte] = from
+      if (to) where.createdAt[Op.lte] = to
+    }
+
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200)
+    const page = Math.max(Number(req.query.page) || 1, 1)
+
+    const { count, rows } = await db.AuditLog.findAndCountAll({
+      where,
+      include: [{ model: db.User, as: 'actor', attributes: ['id', 'name', 'email', 'role'] }],
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit
+    })
+
+    res.json({
+      count,
+      page,
+      limit,
+      logs: rows.map((row) => {
+        const plain = row.get({ plain: true })
+        return { ...plain, before: parseJson(plain.before), after: parseJson(plain.after) }
+      })
+    })
+  } catch (err) {
+    console.error('[Express] Error listing audit logs:', err)
+    res.status(500).json({ error: 'Failed to list audit logs' })
+  }
+})
+
+module.exports = router
@@ -1,11 +1,13 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const db = require('../../../../models')
+const { buildPaymentBreakdown } = require('../../services/tenders')
 
 const router = Router()
 
 // Open cashier shift
-router.post('/open', authMiddleware, async (req, res) => {
+router.post('/open', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility with older tokens
     const userIdRaw = (req.user?.id ?? req.user?.sub)
@@ -67,7 +69,7 @@ router.post('/open', authMiddleware, async (req, res) => {
 })
 
 // Close cashier shift
-router.post('/close', authMiddleware, async (req, res) => {
+router.post('/close', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility
     const userIdRaw = (req.user?.id ?? req.user?.sub)
@@ -116,12 +118,9 @@ router.post('/close', authMiddleware, async (req, res) => {
     })
     const totalTransactions = parseFloat(String(allTotalRow?.[0]?.sum || 0)) || 0
 
-    const cashTotalRow = await db.Transaction.findAll({
-      where: { ...completedRange, paymentMethod: 'CASH' },
-      attributes: [[db.sequelize.fn('SUM', db.sequelize.col('finalTotal')), 'sum']],
-      raw: true
-    })
-    const cashTotal = parseFloat(String(cashTotalRow?.[0]?.sum || 0)) || 0
+    // Split-tender sales contribute each tender to its own method
+    const paymentBreakdown = await buildPaymentBreakdown(completedRange)
+    const cashTotal = paymentBreakdown.CASH.total
 
     const expectedCash = parseFloat(String(shift.openingBalance)) + cashTotal
     const difference = parsed - expectedCash
@@ -134,33 +133,18 @@ router.post('/close', authMiddleware, async (req, res) => {
       endedAt: new Date(),
       status: 'CLOSED'
     }, { where: { id: shift.id } })
+    // Parked carts do not outlive the shift they were parked on
+    const [heldCartsExpired] = await db.HeldCart.update({ status: 'EXPIRED' }, { where: { cashierShiftId: shift.id, status: 'HELD' } })
 
     await db.CashierShiftLog.create({
       cashierShiftId: shift.id,
       action: 'CLOSE_SHIFT',
-      details: JSON.stringify({ closingBalance: parsed, expectedCash, difference, totalTransactions, cashTotal })
+      details: JSON.stringify({ closingBalance: parsed, expectedCash, difference, totalTransactions, cashTotal, heldCartsExpired })
     })
 
     const closed = await db.CashierShift.findByPk(shift.id)
 
-    const paymentMethods = ['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER']
-    const paymentBreakdown = {}
-    for (const method of paymentMethods) {
-      const rows = await db.Transaction.findAll({
-        where: { ...completedRange, paymentMethod: method },
-        attributes: [
-          [db.sequelize.fn('SUM', db.sequelize.col('finalTotal')), 'sum'],
-          [db.sequelize.fn('COUNT', db.sequelize.col('id')), 'count']
-        ],
-        raw: true
-      })
-      paymentBreakdown[method] = {
-        total: parseFloat(String(rows?.[0]?.sum || 0)) || 0,
-        count: parseInt(String(rows?.[0]?.count || 0)) || 0
-      }
-    }
-
-    const statuses = ['COMPLETED', 'PENDING', 'CANCELLED', 'REFUNDED']
+    const statuses = ['COMPLETED', 'PENDING', 'CANCELLED', 'REFUNDED', 'PARTIALLY_REFUNDED']
     const statusCounts = {}
     for (const s of statuses) {
       const cnt = await db.Transaction.count({ where: { ...baseRange, status: s } })
@@ -225,6 +209,7 @@ router.post('/close', authMiddleware, async (req, res) => {
       discountTotals,
       pointsTotals,
       itemsSold,
+      heldCartsExpired,
       logs: logs.map(l => ({ id: l.id, action: l.action, details: l.details, createdAt: l.createdAt }))
     }
 
@@ -236,7 +221,7 @@ router.post('/close', authMiddleware, async (req, res) => {
 })
 
 // Get current cashier shift (native implementation)
-router.get('/current', authMiddleware, async (req, res) => {
+router.get('/current', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility
     const userId = (req.user?.id ?? req.user?.sub)
@@ -1,12 +1,16 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { requireApproval } = require('../../middleware/approval')
+const { recordApproval } = require('../../services/approvals')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
+const { buildPaymentBreakdown } = require('../../services/tenders')
 
 const router = Router()
 
 // List shifts
-router.get('/', authMiddleware, async (_req, res) => {
+router.get('/', authMiddleware, authorize('shifts:read'), async (_req, res) => {
   try {
     const shifts = await db.CashierShift.findAll({ order: [['createdAt', 'DESC']], limit: 200 })
     res.json({ count: shifts.length, shifts })
@@ -18,7 +22,7 @@ router.get('/', authMiddleware, async (_req, res) => {
 })
 
 // Get current cashier shift
-router.get('/current', authMiddleware, async (req, res) => {
+router.get('/current', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility
     const userId = (req.user?.id ?? req.user?.sub)
@@ -41,7 +45,7 @@ router.get('/current', authMiddleware, async (req, res) => {
 })
 
 // Get shift by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('shifts:read'), async (req, res) => {
   try {
     const { id } = req.params
     const shift = await db.CashierShift.findByPk(id)
@@ -58,6 +62,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('shifts:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -86,6 +91,7 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('shifts:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -109,7 +115,7 @@ router.put(
 )
 
 // Delete shift
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('shifts:write'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.CashierShift.findByPk(id)
@@ -123,7 +129,7 @@ router.delete('/:id', authMiddleware, async (req, res) => {
 })
 
 // Open cashier shift
-router.post('/open', authMiddleware, async (req, res) => {
+router.post('/open', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility with older tokens
     const userIdRaw = (req.user?.id ?? req.user?.sub)
@@ -185,7 +191,7 @@ router.post('/open', authMiddleware, async (req, res) => {
 })
 
 // Close cashier shift
-router.post('/close', authMiddleware, async (req, res) => {
+router.post('/close', authMiddleware, authorize('shifts:operate'), async (req, res) => {
   try {
     // Accept both `id` and `sub` for backward compatibility
     const userIdRaw = (req.user?.id ?? req.user?.sub)
@@ -234,12 +240,9 @@ router.post('/close', authMiddleware, async (req, res) => {
     })
     const totalTransactions = parseFloat(String(allTotalRow?.[0]?.sum || 0)) || 0
 
-    const cashTotalRow = await db.Transaction.findAll({
-      where: { ...completedRange, paymentMethod: 'CASH' },
-      attributes: [[db.sequelize.fn('SUM', db.sequelize.col('finalTotal')), 'sum']],
-      raw: true
-    })
-    const cashTotal = parseFloat(String(cashTotalRow?.[0]?.sum || 0)) || 0
+    // Split-tender sales contribute each tender to its own method
+    const paymentBreakdown = await buildPaymentBreakdown(completedRange)
+    const cashTotal = paymentBreakdown.CASH.total
 
     const expectedCash = parseFloat(String(shift.openingBalance)) + cashTotal
     const difference = parsed - expectedCash
@@ -252,33 +255,18 @@ router.post('/close', authMiddleware, async (req, res) => {
       endedAt: new Date(),
       status: 'CLOSED'
     }, { where: { id: shift.id } })
+    // Parked carts do not outlive the shift they were parked on
+    const [heldCartsExpired] = await db.HeldCart.update({ status: 'EXPIRED' }, { where: { cashierShiftId: shift.id, status: 'HELD' } })
 
     await db.CashierShiftLog.create({
       cashierShiftId: shift.id,
       action: 'CLOSE_SHIFT',
-      details: JSON.stringify({ closingBalance: parsed, expectedCash, difference, totalTransactions, cashTotal })
+      details: JSON.stringify({ closingBalance: parsed, expectedCash, difference, totalTransactions, cashTotal, heldCartsExpired })
     })
 
     const closed = await db.CashierShift.findByPk(shift.id)
 
-    const paymentMethods = ['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER']
-    const paymentBreakdown = {}
-    for (const method of paymentMethods) {
-      const rows = await db.Transaction.findAll({
-        where: { ...completedRange, paymentMethod: method },
-        attributes: [
-          [db.sequelize.fn('SUM', db.sequelize.col('finalTotal')), 'sum'],
-          [db.sequelize.fn('COUNT', db.sequelize.col('id')), 'count']
-        ],
-        raw: true
-      })
-      paymentBreakdown[method] = {
-        total: parseFloat(String(rows?.[0]?.sum || 0)) || 0,
-        count: parseInt(String(rows?.[0]?.count || 0)) || 0
-      }
-    }
-
-    const statuses = ['COMPLETED', 'PENDING', 'CANCELLED', 'REFUNDED']
+    const statuses = ['COMPLETED', 'PENDING', 'CANCELLED', 'REFUNDED', 'PARTIALLY_REFUNDED']
     const statusCounts = {}
     for (const s of statuses) {
       const cnt = await db.Transaction.count({ where: { ...baseRange, status: s } })
@@ -343,6 +331,8 @@ router.post('/close', authMiddleware, async (req, res) => {
       discountTotals,
       pointsTotals,
       itemsSold,
+      heldCartsExpired,
+      noSaleCount: logs.filter(l => l.action === 'NO_SALE').length,
       logs: logs.map(l => ({ id: l.id, action: l.action, details: l.details, createdAt: l.createdAt }))
     }
 
@@ -353,4 +343,34 @@ router.post('/close', authMiddleware, async (req, res) => {
   }
 })
 
+// Open the cash drawer without a sale (e.g. to give change). Logged on the shift
+// together with the approving manager.
+router.post('/no-sale', authMiddleware, authorize('shifts:operate'), requireApproval('NO_SALE', () => ({})), async (req, res) => {
+  try {
+    const userId = parseInt(String(req.user?.id ?? req.user?.sub), 10)
+    const shift = await db.CashierShift.findOne({
+      where: { userId, status: 'OPEN' },
+      order: [['startedAt', 'DESC']]
+    })
+    if (!shift) {
+      return res.status(400).json({ error: 'Tidak ada shift aktif' })
+    }
+
+    const reason = req.body && req.body.reason ? String(req.body.reason) : null
+    const log = await db.sequelize.transaction(async (t) => {
+      await recordApproval(req.approval, { cashierShiftId: shift.id, details: { reason }, transaction: t })
+      return db.CashierShiftLog.create({
+        cashierShiftId: shift.id,
+        action: 'NO_SALE',
+        details: JSON.stringify({ reason, userId, approvedBy: req.approval ? req.approval.approvedBy : null })
+      }, { transaction: t })
+    })
+
+    return res.status(201).json({ log: { id: log.id, action: log.action, details: log.details, createdAt: log.createdAt } })
+  } catch (error) {
+    console.error('[cashier-shifts/no-sale] Error:', error)
+    return res.status(500).json({ error: 'Gagal mencatat pembukaan laci' })
+  }
+})
+
 module.exports = router
\ No newline at end of file
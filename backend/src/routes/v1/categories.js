@@ -1,12 +1,28 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 
 const router = Router()
 
+// Optional tax fields: taxRate overrides the store rate (null or '' clears it)
+const taxSchema = {
+  taxRate: { type: 'number', required: false },
+  taxExempt: { type: 'boolean', required: false }
+}
+
+function taxFields(body) {
+  const fields = {}
+  if (body.taxRate !== undefined) fields.taxRate = body.taxRate === null || body.taxRate === '' ? null : Number(body.taxRate)
+  if (body.taxExempt !== undefined) fields.taxExempt = body.taxExempt
+  return fields
+}
+
+const invalidTaxRate = (fields) => fields.taxRate != null && (fields.taxRate < 0 || fields.taxRate > 100)
+
 // List categories
-router.get('/', authMiddleware, async (_req, res) => {
+router.get('/', authMiddleware, authorize('categories:read'), async (_req, res) => {
   try {
     // Use aggregated query to include productCount per category
     const categories = await db.Category.getWithProductCount()
@@ -21,7 +37,7 @@ router.get('/', authMiddleware, async (_req, res) => {
 })
 
 // Get category by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('categories:read'), async (req, res) => {
   try {
     const { id } = req.params
     const category = await db.Category.findByPk(id)
@@ -39,14 +55,17 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('categories:write'),
   buildValidator({
     location: 'body',
-    schema: { name: { type: 'string', required: true }, description: { type: 'string', required: false } }
+    schema: { name: { type: 'string', required: true }, description: { type: 'string', required: false }, ...taxSchema }
   }),
   async (req, res) => {
     try {
       const { name, description } = req.body
-      const created = await db.Category.create({ name, description: description || null })
+      const tax = taxFields(req.body)
+      if (invalidTaxRate(tax)) return res.status(400).json({ error: 'taxRate must be between 0 and 100' })
+      const created = await db.Category.create({ name, description: description || null, ...tax })
       res.status(201).json(created)
     } catch (err) {
       console.error('[Express] Error creating category:', err)
@@ -59,9 +78,10 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('categories:write'),
   buildValidator({
     location: 'body',
-    schema: { name: { type: 'string', required: true }, description: { type: 'string', required: false } }
+    schema: { name: { type: 'string', required: true }, description: { type: 'string', required: false }, ...taxSchema }
   }),
   async (req, res) => {
     try {
@@ -69,7 +89,9 @@ router.put(
       const existing = await db.Category.findByPk(id)
       if (!existing) return res.status(404).json({ error: 'Category not found' })
       const { name, description } = req.body
-      await db.Category.update({ name, description: description || null }, { where: { id } })
+      const tax = taxFields(req.body)
+      if (invalidTaxRate(tax)) return res.status(400).json({ error: 'taxRate must be between 0 and 100' })
+      await db.Category.update({ name, description: description || null, ...tax }, { where: { id } })
       const updated = await db.Category.findByPk(id)
       res.json(updated)
     } catch (err) {
@@ -80,7 +102,7 @@ router.put(
 )
 
 // Delete category
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('categories:write'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.Category.findByPk(id)
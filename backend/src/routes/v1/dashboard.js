@@ -1,22 +1,26 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
 
 const router = Router()
 
 // GET /api/v1/dashboard/stats - Dashboard statistics
-router.get('/stats', authMiddleware, async (req, res) => {
+router.get('/stats', authMiddleware, authorize('dashboard:read'), async (req, res) => {
   try {
     // Do not perform runtime schema/index sync here.
     // Schema management should be handled via migrations, not per-request.
 
+    // Sales in an applied archive (see routes/v1/archives.js) are left out
+    const notArchived = { archiveId: null }
+
     const startOfToday = new Date(); startOfToday.setHours(0,0,0,0)
     const endOfToday = new Date(); endOfToday.setHours(23,59,59,999)
 
     // Today sales (finalTotal of completed transactions) and count
     const todayTransactions = await db.Transaction.findAll({
-      where: { status: 'COMPLETED', createdAt: { [Op.gte]: startOfToday, [Op.lte]: endOfToday } },
+      where: { ...notArchived, status: 'COMPLETED', createdAt: { [Op.gte]: startOfToday, [Op.lte]: endOfToday } },
       attributes: ['id','finalTotal','total','discount','voucherDiscount','promoDiscount','tax','createdAt']
     })
     const todaySales = todayTransactions.reduce((sum, t) => sum + Number(t.finalTotal || 0), 0)
@@ -29,7 +33,7 @@ router.get('/stats', authMiddleware, async (req, res) => {
 
     // Recent transactions
     const recentTransactions = await db.Transaction.findAll({
-      where: {},
+      where: notArchived,
       order: [['createdAt', 'DESC']],
       limit: 10,
       include: [
@@ -43,7 +47,7 @@ router.get('/stats', authMiddleware, async (req, res) => {
     const sevenDaysAgo = new Date(); sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7)
     const topRaw = await db.TransactionItem.findAll({
       attributes: ['productId', [db.sequelize.fn('SUM', db.sequelize.col('quantity')), 'sold']],
-      include: [{ model: db.Transaction, as: 'transaction', attributes: [], where: { createdAt: { [Op.gte]: sevenDaysAgo }, status: 'COMPLETED' } }],
+      include: [{ model: db.Transaction, as: 'transaction', attributes: [], where: { ...notArchived, createdAt: { [Op.gte]: sevenDaysAgo }, status: 'COMPLETED' } }],
       group: ['productId'],
       order: [[db.sequelize.fn('SUM', db.sequelize.col('quantity')), 'DESC']],
       limit: 5
@@ -61,7 +65,7 @@ router.get('/stats', authMiddleware, async (req, res) => {
     for (let i = 6; i >= 0; i--) {
       const day = new Date(); day.setDate(day.getDate() - i); day.setHours(0,0,0,0)
       const dayEnd = new Date(day); dayEnd.setHours(23,59,59,999)
-      const dayTx = await db.Transaction.findAll({ where: { status: 'COMPLETED', createdAt: { [Op.gte]: day, [Op.lte]: dayEnd } }, attributes: ['finalTotal'] })
+      const dayTx = await db.Transaction.findAll({ where: { ...notArchived, status: 'COMPLETED', createdAt: { [Op.gte]: day, [Op.lte]: dayEnd } }, attributes: ['finalTotal'] })
       const total = dayTx.reduce((sum, t) => sum + Number(t.finalTotal || 0), 0)
       salesTrend.push({ date: day.toISOString().slice(0,10), total })
     }
@@ -81,22 +85,4 @@ router.get('/stats', authMiddleware, async (req, res) => {
   }
 })
 
-// POST /api/v1/dashboard/reset - Reset dashboard-related transactional data
-router.post('/reset', authMiddleware, async (req, res) => {
-  try {
-    await db.sequelize.transaction(async (t) => {
-      // Use DELETE instead of TRUNCATE to avoid ownership permissions issues
-      // Order matters due to foreign key constraints
-      await db.TransactionItem.destroy({ where: {}, transaction: t })
-      await db.VoucherUsage.destroy({ where: {}, transaction: t })
-      await db.Transaction.destroy({ where: {}, transaction: t })
-    })
-
-    return res.json({ message: 'Dashboard data reset successfully' })
-  } catch (err) {
-    console.error('[Express] Dashboard reset error:', err)
-    return res.status(500).json({ error: 'Failed to reset dashboard data' })
-  }
-})
-
 module.exports = router
\ No newline at end of file
@@ -1,10 +1,11 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const db = require('../../../../models')
 
 const router = Router()
 
-router.get('/health', authMiddleware, async (req, res) => {
+router.get('/health', authMiddleware, authorize('debug:read'), async (req, res) => {
   try {
     const counts = {
       users: await db.User.count(),
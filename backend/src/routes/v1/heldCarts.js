@@ -0,0 +1,149 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const { hasPermission } = require('../../../../lib/permissions')
+const db = require('../../../../models')
+
+const router = Router()
+
+// Held (parked) carts. A cart is parked on the parking cashier's open shift and
+// stays resumable until it is resumed, discarded, or the shift closes. Carts carry
+// customer details, so cashiers only see their own; managers and admins see all.
+
+const userIdOf = (req) => parseInt(String(req.user?.id ?? req.user?.sub), 10)
+
+const visibleTo = (req) => (hasPermission(req.user?.role, 'held-carts:manage') ? {} : { userId: userIdOf(req) })
+
+function serialize(hold) {
+  const json = hold.toJSON()
+  let items = []
+  try { items = JSON.parse(json.items || '[]') } catch { items = [] }
+  return { ...json, items }
+}
+
+const holdIncludes = () => [
+  { model: db.User, as: 'user', attributes: ['id', 'name'] },
+  { model: db.CashierShift, as: 'shift', attributes: ['id', 'status', 'userId'], where: { status: 'OPEN' } },
+  { model: db.Member, as: 'member', attributes: ['id', 'name', 'phone', 'email', 'points', 'totalSpent'], required: false }
+]
+
+// List carts that can still be resumed
+router.get('/', authMiddleware, authorize('held-carts:use'), async (req, res) => {
+  try {
+    const holds = await db.HeldCart.findAll({
+      where: { status: 'HELD', ...visibleTo(req) },
+      include: holdIncludes(),
+      order: [['createdAt', 'ASC']]
+    })
+    res.json({ count: holds.length, heldCarts: holds.map(serialize) })
+  } catch (err) {
+    console.error('[Express] Error listing held carts:', err)
+    res.status(500).json({ error: 'Failed to list held carts' })
+  }
+})
+
+// Park the current cart on the caller's open shift
+router.post(
+  '/',
+  authMiddleware,
+  authorize('held-carts:use'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      name: { type: 'string', required: true },
+      items: { type: 'object', required: true },
+      customerName: { type: 'string', required: false },
+      customerPhone: { type: 'string', required: false },
+      customerEmail: { type: 'string', required: false },
+      memberId: { type: 'number', required: false },
+      voucherCode: { type: 'string', required: false },
+      pointsToUse: { type: 'number', required: false },
+      notes: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const userId = userIdOf(req)
+      if (!Number.isFinite(userId) || userId <= 0) return res.status(401).json({ error: 'Unauthorized' })
+
+      const data = req.body
+      const name = String(data.name).trim()
+      if (!name) return res.status(400).json({ error: 'name is required' })
+      if (!Array.isArray(data.items) || data.items.length === 0) {
+        return res.status(400).json({ error: 'items must be a non-empty array' })
+      }
+      for (const item of data.items) {
+        const quantity = Number(item?.quantity)
+        if (!item?.id || !Number.isInteger(quantity) || quantity <= 0) {
+          return res.status(400).json({ error: 'Each item requires id and a positive integer quantity' })
+        }
+      }
+
+      const shift = await db.CashierShift.findOne({
+        where: { userId, status: 'OPEN' },
+        order: [['startedAt', 'DESC']]
+      })
+      if (!shift) return res.status(400).json({ error: 'Tidak ada shift aktif' })
+
+      const hold = await db.HeldCart.create({
+        cashierShiftId: shift.id,
+        userId,
+        name,
+        items: JSON.stringify(data.items),
+        customerName: data.customerName || null,
+        customerPhone: data.customerPhone || null,
+        customerEmail: data.customerEmail || null,
+        memberId: data.memberId || null,
+        voucherCode: data.voucherCode || null,
+        pointsToUse: Number(data.pointsToUse || 0),
+        notes: data.notes || null
+      })
+      const created = await db.HeldCart.findByPk(hold.id, { include: holdIncludes() })
+      res.status(201).json(serialize(created))
+    } catch (err) {
+      console.error('[Express] Error holding cart:', err)
+      res.status(500).json({ error: 'Failed to hold cart' })
+    }
+  }
+)
+
+// Resume a held cart. The status guard makes sure only one register gets it.
+router.post('/:id/resume', authMiddleware, authorize('held-carts:use'), async (req, res) => {
+  try {
+    const userId = userIdOf(req)
+    if (!Number.isFinite(userId) || userId <= 0) return res.status(401).json({ error: 'Unauthorized' })
+
+    const hold = await db.HeldCart.findOne({ where: { id: req.params.id, ...visibleTo(req) }, include: holdIncludes() })
+    if (!hold) return res.status(404).json({ error: 'Held cart not found' })
+
+    const [updated] = await db.HeldCart.update(
+      { status: 'RESUMED', resumedBy: userId, resumedAt: new Date() },
+      { where: { id: hold.id, status: 'HELD' } }
+    )
+    if (updated === 0) return res.status(409).json({ error: 'Held cart was already resumed or discarded' })
+
+    await hold.reload({ include: holdIncludes() })
+    res.json(serialize(hold))
+  } catch (err) {
+    console.error('[Express] Error resuming held cart:', err)
+    res.status(500).json({ error: 'Failed to resume held cart' })
+  }
+})
+
+// Discard a held cart without resuming it
+router.delete('/:id', authMiddleware, authorize('held-carts:use'), async (req, res) => {
+  try {
+    const [updated] = await db.HeldCart.update(
+      { status: 'DISCARDED' },
+      { where: { id: req.params.id, status: 'HELD', ...visibleTo(req) } }
+    )
+    if (updated === 0) return res.status(404).json({ error: 'Held cart not found' })
+    res.json({ message: 'Held cart discarded' })
+  } catch (err) {
+    console.error('[Express] Error discarding held cart:', err)
+    res.status(500).json({ error: 'Failed to discard held cart' })
+  }
+})
+
+module.exports = router
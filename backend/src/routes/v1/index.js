@@ -210,17 +210,30 @@ router.post('/auth/bootstrap-dev', async (req, res) => {
 router.use('/categories', require('./categories'))
 router.use('/products', require('./products'))
 router.use('/dashboard', require('./dashboard'))
+router.use('/archives', require('./archives'))
 router.use('/users', require('./users'))
 router.use('/transactions', require('./transactions'))
 router.use('/payments', require('./payments.actions'))
 router.use('/payments', require('./payments'))
 router.use('/reports', require('./reports'))
+router.use('/tax', require('./tax'))
+router.use('/loyalty', require('./loyalty'))
+router.use('/member-tiers', require('./memberTiers'))
+router.use('/member-segments', require('./memberSegments'))
 router.use('/cashier-shifts', require('./cashierShifts'))
+router.use('/held-carts', require('./heldCarts'))
+router.use('/approvals', require('./approvals'))
 router.use('/members', require('./members'))
 router.use('/promotions', require('./promotions'))
 router.use('/vouchers', require('./vouchers'))
 router.use('/operational-expenses', require('./operationalExpenses'))
+router.use('/suppliers', require('./suppliers'))
+router.use('/purchase-orders', require('./purchaseOrders'))
+router.use('/whatsapp/campaigns', require('./whatsappCampaigns'))
 router.use('/whatsapp', require('./whatsapp'))
+router.use('/outbound-messages', require('./outboundMessages'))
+router.use('/audit-logs', require('./auditLogs'))
+router.use('/portal', require('./portal'))
 router.use('/debug', require('./debug'))
 
 module.exports = router
@@ -0,0 +1,78 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const { getLoyaltyProgram, updateLoyaltyProgram } = require('../../services/loyalty')
+const { expirePoints, sendExpiryReminders } = require('../../services/pointExpiry')
+const { issueOccasionRewards } = require('../../services/memberRewards')
+
+const router = Router()
+
+// Member points rules; see services/loyalty.js
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+router.get('/program', authMiddleware, authorize('loyalty:read'), async (_req, res) => {
+  try {
+    res.json(await getLoyaltyProgram())
+  } catch (err) {
+    sendError(res, err, 'Failed to load loyalty program')
+  }
+})
+
+router.put(
+  '/program',
+  authMiddleware,
+  authorize('loyalty:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      spendPerPoint: { type: 'number', required: false },
+      pointValue: { type: 'number', required: false },
+      minRedeemPoints: { type: 'number', required: false },
+      maxPointsPerTransaction: { type: 'number', required: false },
+      pointsExpiryMonths: { type: 'number', required: false },
+      expiryReminderDays: { type: 'number', required: false },
+      birthdayVoucherType: { type: 'string', required: false },
+      birthdayVoucherValue: { type: 'number', required: false },
+      anniversaryVoucherType: { type: 'string', required: false },
+      anniversaryVoucherValue: { type: 'number', required: false },
+      rewardVoucherDays: { type: 'number', required: false },
+      categoryMultipliers: { type: 'object', required: false },
+      excludedCategoryIds: { type: 'object', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      res.json(await updateLoyaltyProgram(req.body, { userId: req.user.id }))
+    } catch (err) {
+      sendError(res, err, 'Failed to update loyalty program')
+    }
+  }
+)
+
+// Run the nightly points expiry and reminders now
+router.post('/expire', authMiddleware, authorize('loyalty:manage'), async (_req, res) => {
+  try {
+    const expired = await expirePoints()
+    const reminders = await sendExpiryReminders()
+    res.json({ expired, reminders })
+  } catch (err) {
+    sendError(res, err, 'Failed to expire points')
+  }
+})
+
+// Run the daily birthday/anniversary rewards now
+router.post('/rewards/run', authMiddleware, authorize('loyalty:manage'), async (_req, res) => {
+  try {
+    res.json(await issueOccasionRewards())
+  } catch (err) {
+    sendError(res, err, 'Failed to issue member rewards')
+  }
+})
+
+module.exports = router
@@ -0,0 +1,176 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const {
+  plainSegment,
+  normalizeRules,
+  recomputeSegments,
+  previewRules,
+  listSegments,
+  createDefaultSegments,
+  listSegmentMembers,
+  segmentCsv
+} = require('../../services/memberSegments')
+
+const router = Router()
+
+// Segment definitions; members are assigned in services/memberSegments.js
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+const segmentSchema = (required) => ({
+  name: { type: 'string', required },
+  description: { type: 'string', required: false },
+  color: { type: 'string', required: false },
+  rules: { type: 'object', required: false },
+  isActive: { type: 'boolean', required: false }
+})
+
+// Body fields to store; rules are checked by normalizeRules
+async function segmentFields(body) {
+  const fields = {}
+  if (body.name !== undefined) fields.name = String(body.name).trim()
+  if (body.description !== undefined) fields.description = body.description || null
+  if (body.color !== undefined) fields.color = body.color || null
+  if (body.isActive !== undefined) fields.isActive = Boolean(body.isActive)
+  if (body.rules !== undefined) fields.rules = JSON.stringify(await normalizeRules(body.rules))
+  if (fields.name === '') {
+    const err = new Error('name is required')
+    err.status = 400
+    throw err
+  }
+  return fields
+}
+
+const filenameFor = (segment) => `segmen-${segment.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || segment.id}.csv`
+
+router.get('/', authMiddleware, authorize('members:read'), async (_req, res) => {
+  try {
+    res.json({ segments: await listSegments() })
+  } catch (err) {
+    sendError(res, err, 'Failed to list member segments')
+  }
+})
+
+router.post(
+  '/',
+  authMiddleware,
+  authorize('segments:manage'),
+  buildValidator({ location: 'body', schema: segmentSchema(true) }),
+  async (req, res) => {
+    try {
+      const fields = await segmentFields(req.body)
+      if (await db.MemberSegment.findOne({ where: { name: fields.name } })) {
+        return res.status(409).json({ error: 'A segment with this name already exists' })
+      }
+      const segment = await db.MemberSegment.create(fields)
+      await recomputeSegments()
+      await segment.reload()
+      res.status(201).json({ segment: plainSegment(segment) })
+    } catch (err) {
+      sendError(res, err, 'Failed to create member segment')
+    }
+  }
+)
+
+// Add the built-in RFM segments that do not exist yet
+router.post('/defaults', authMiddleware, authorize('segments:manage'), async (_req, res) => {
+  try {
+    const created = await createDefaultSegments()
+    if (created.length > 0) await recomputeSegments()
+    res.json({ created: created.length, segments: await listSegments() })
+  } catch (err) {
+    sendError(res, err, 'Failed to create default segments')
+  }
+})
+
+// Run the nightly recomputation now
+router.post('/recompute', authMiddleware, authorize('segments:manage'), async (_req, res) => {
+  try {
+    res.json(await recomputeSegments())
+  } catch (err) {
+    sendError(res, err, 'Failed to recompute member segments')
+  }
+})
+
+// How many members a rule set would match, before saving it
+router.post(
+  '/preview',
+  authMiddleware,
+  authorize('segments:manage'),
+  buildValidator({ location: 'body', schema: { rules: { type: 'object', required: false } } }),
+  async (req, res) => {
+    try {
+      res.json(await previewRules(req.body.rules))
+    } catch (err) {
+      sendError(res, err, 'Failed to preview member segment')
+    }
+  }
+)
+
+router.get('/:id/members', authMiddleware, authorize('members:read'), async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 200, 1), 1000)
+    res.json(await listSegmentMembers(req.params.id, { limit }))
+  } catch (err) {
+    sendError(res, err, 'Failed to list segment members')
+  }
+})
+
+router.get('/:id/export', authMiddleware, authorize('segments:manage'), async (req, res) => {
+  try {
+    const { segment, csv } = await segmentCsv(req.params.id)
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${filenameFor(segment)}"`)
+    res.send(csv)
+  } catch (err) {
+    sendError(res, err, 'Failed to export member segment')
+  }
+})
+
+router.put(
+  '/:id',
+  authMiddleware,
+  authorize('segments:manage'),
+  buildValidator({ location: 'body', schema: segmentSchema(false) }),
+  async (req, res) => {
+    try {
+      const segment = await db.MemberSegment.findByPk(req.params.id)
+      if (!segment) return res.status(404).json({ error: 'Member segment not found' })
+      const fields = await segmentFields(req.body)
+      if (fields.name && fields.name !== segment.name && await db.MemberSegment.findOne({ where: { name: fields.name } })) {
+        return res.status(409).json({ error: 'A segment with this name already exists' })
+      }
+      await segment.update(fields)
+      await recomputeSegments()
+      await segment.reload()
+      res.json({ segment: plainSegment(segment) })
+    } catch (err) {
+      sendError(res, err, 'Failed to update member segment')
+    }
+  }
+)
+
+// Segments that vouchers are limited to cannot be deleted; deactivate them instead
+router.delete('/:id', authMiddleware, authorize('segments:manage'), async (req, res) => {
+  try {
+    const segment = await db.MemberSegment.findByPk(req.params.id)
+    if (!segment) return res.status(404).json({ error: 'Member segment not found' })
+    if (await db.Voucher.count({ where: { segmentId: segment.id } }) > 0) {
+      return res.status(400).json({ error: 'Segment is used by vouchers; deactivate it instead' })
+    }
+    await db.MemberSegmentMember.destroy({ where: { segmentId: segment.id }, hooks: false })
+    await segment.destroy()
+    res.json({ message: 'Member segment deleted' })
+  } catch (err) {
+    sendError(res, err, 'Failed to delete member segment')
+  }
+})
+
+module.exports = router
@@ -0,0 +1,129 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const { listTiers, plainTier, recalculateAllTiers } = require('../../services/memberTiers')
+
+const router = Router()
+
+// Tier definitions; members move between them in services/memberTiers.js
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+const tierSchema = (required) => ({
+  name: { type: 'string', required },
+  minSpend: { type: 'number', required },
+  earnMultiplier: { type: 'number', required: false },
+  discountPercent: { type: 'number', required: false },
+  color: { type: 'string', required: false },
+  isActive: { type: 'boolean', required: false }
+})
+
+// Body fields to store; returns an error message for out-of-range values
+function tierFields(body) {
+  const fields = {}
+  if (body.name !== undefined) fields.name = String(body.name).trim()
+  if (body.minSpend !== undefined) fields.minSpend = Number(body.minSpend)
+  if (body.earnMultiplier !== undefined) fields.earnMultiplier = Number(body.earnMultiplier)
+  if (body.discountPercent !== undefined) fields.discountPercent = Number(body.discountPercent)
+  if (body.color !== undefined) fields.color = body.color || null
+  if (body.isActive !== undefined) fields.isActive = Boolean(body.isActive)
+  if (fields.name === '') return { error: 'name is required' }
+  if (fields.minSpend !== undefined && fields.minSpend < 0) return { error: 'minSpend must not be negative' }
+  if (fields.earnMultiplier !== undefined && fields.earnMultiplier < 0) return { error: 'earnMultiplier must not be negative' }
+  if (fields.discountPercent !== undefined && (fields.discountPercent < 0 || fields.discountPercent > 100)) {
+    return { error: 'discountPercent must be between 0 and 100' }
+  }
+  return { fields }
+}
+
+// Members move to their new tier right away when the definitions change
+const recalculate = () => recalculateAllTiers({ reason: 'RECALCULATE' })
+
+router.get('/', authMiddleware, authorize('members:read'), async (_req, res) => {
+  try {
+    res.json({ tiers: await listTiers() })
+  } catch (err) {
+    sendError(res, err, 'Failed to list member tiers')
+  }
+})
+
+router.post(
+  '/',
+  authMiddleware,
+  authorize('loyalty:manage'),
+  buildValidator({ location: 'body', schema: tierSchema(true) }),
+  async (req, res) => {
+    try {
+      const { fields, error } = tierFields(req.body)
+      if (error) return res.status(400).json({ error })
+      if (await db.MemberTier.findOne({ where: { name: fields.name } })) {
+        return res.status(409).json({ error: 'A tier with this name already exists' })
+      }
+      const tier = await db.MemberTier.create(fields)
+      const result = await recalculate()
+      res.status(201).json({ tier: plainTier(tier), recalculated: result })
+    } catch (err) {
+      sendError(res, err, 'Failed to create member tier')
+    }
+  }
+)
+
+router.put(
+  '/:id',
+  authMiddleware,
+  authorize('loyalty:manage'),
+  buildValidator({ location: 'body', schema: tierSchema(false) }),
+  async (req, res) => {
+    try {
+      const tier = await db.MemberTier.findByPk(req.params.id)
+      if (!tier) return res.status(404).json({ error: 'Member tier not found' })
+      const { fields, error } = tierFields(req.body)
+      if (error) return res.status(400).json({ error })
+      if (fields.name && fields.name !== tier.name && await db.MemberTier.findOne({ where: { name: fields.name } })) {
+        return res.status(409).json({ error: 'A tier with this name already exists' })
+      }
+      await tier.update(fields)
+      const result = await recalculate()
+      res.json({ tier: plainTier(tier), recalculated: result })
+    } catch (err) {
+      sendError(res, err, 'Failed to update member tier')
+    }
+  }
+)
+
+// Tiers that promotions or vouchers are limited to cannot be deleted; deactivate them instead
+router.delete('/:id', authMiddleware, authorize('loyalty:manage'), async (req, res) => {
+  try {
+    const tier = await db.MemberTier.findByPk(req.params.id)
+    if (!tier) return res.status(404).json({ error: 'Member tier not found' })
+    const [promotions, vouchers] = await Promise.all([
+      db.Promotion.count({ where: { minTierId: tier.id } }),
+      db.Voucher.count({ where: { minTierId: tier.id } })
+    ])
+    if (promotions + vouchers > 0) {
+      return res.status(400).json({ error: 'Tier is used by promotions or vouchers; deactivate it instead' })
+    }
+    await tier.destroy()
+    const result = await recalculate()
+    res.json({ message: 'Member tier deleted', recalculated: result })
+  } catch (err) {
+    sendError(res, err, 'Failed to delete member tier')
+  }
+})
+
+// Run the nightly recalculation now
+router.post('/recalculate', authMiddleware, authorize('loyalty:manage'), async (_req, res) => {
+  try {
+    res.json(await recalculate())
+  } catch (err) {
+    sendError(res, err, 'Failed to recalculate member tiers')
+  }
+})
+
+module.exports = router
@@ -1,20 +1,61 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
+const { getTierHistory } = require('../../services/memberTiers')
+const { getPointsExpiry } = require('../../services/pointExpiry')
 
 const router = Router()
 
+// birthDate from the member forms: undefined leaves it as is, null or ''
+// clears it, anything else must be a YYYY-MM-DD day that is not in the future
+function parseBirthDate(value) {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const day = String(value)
+  const date = new Date(`${day}T00:00:00.000Z`)
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== day || date > new Date()) {
+    const err = new Error('birthDate must be a past date (YYYY-MM-DD)')
+    err.status = 400
+    throw err
+  }
+  return day
+}
+
+// Tier and its benefits, shown on the member card
+const tierInclude = { model: db.MemberTier, as: 'tier', attributes: ['id', 'name', 'color', 'minSpend', 'earnMultiplier', 'discountPercent', 'isActive'] }
+
+// Segments each member is in, as [{ id, name, color }] by member id
+async function segmentsByMember(memberIds) {
+  const rows = await db.MemberSegmentMember.findAll({
+    where: { memberId: { [db.Sequelize.Op.in]: memberIds } },
+    include: [{ model: db.MemberSegment, as: 'segment', attributes: ['id', 'name', 'color'], where: { isActive: true } }]
+  })
+  const map = new Map()
+  for (const row of rows) {
+    const list = map.get(row.memberId) || []
+    list.push({ id: row.segment.id, name: row.segment.name, color: row.segment.color })
+    map.set(row.memberId, list)
+  }
+  return map
+}
+
 // List members
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('members:read'), async (req, res) => {
   try {
-    const { active, includeInactive } = req.query
+    const { active, includeInactive, segmentId } = req.query
     const where = {}
     // includeInactive=true bypasses active filter, otherwise respect 'active' param if provided
     if (String(includeInactive) !== 'true') {
       if (active !== undefined) where.isActive = String(active) === 'true'
     }
-    const members = await db.Member.findAll({ where, order: [['createdAt', 'DESC']], limit: 200 })
+    // Members of one segment as of its last recomputation
+    if (segmentId) {
+      const rows = await db.MemberSegmentMember.findAll({ where: { segmentId }, attributes: ['memberId'], raw: true })
+      where.id = { [db.Sequelize.Op.in]: rows.map(row => row.memberId) }
+    }
+    const members = await db.Member.findAll({ where, include: [tierInclude], order: [['createdAt', 'DESC']], limit: 200 })
     const ids = members.map(m => m.id)
     let enriched = members
     if (ids.length > 0) {
@@ -35,9 +76,10 @@ router.get('/', authMiddleware, async (req, res) => {
           lastVisit: row.lastVisit || null
         })
       })
+      const segments = await segmentsByMember(ids)
       enriched = members.map(m => {
         const extra = map.get(String(m.id)) || { transactionCount: 0, lastVisit: null }
-        return { ...m.toJSON(), ...extra }
+        return { ...m.toJSON(), ...extra, segments: segments.get(m.id) || [] }
       })
     }
     res.json({ count: enriched.length, members: enriched })
@@ -49,7 +91,7 @@ router.get('/', authMiddleware, async (req, res) => {
 })
 
 // Search members by query (name, email, phone)
-router.get('/search', authMiddleware, async (req, res) => {
+router.get('/search', authMiddleware, authorize('members:read'), async (req, res) => {
   try {
     const { q, limit } = req.query
     const max = Math.min(Number(limit) || 50, 500)
@@ -102,6 +144,7 @@ router.get('/search', authMiddleware, async (req, res) => {
 
     const results = await db.Member.findAll({
       where,
+      include: [tierInclude],
       order: [['createdAt', 'DESC']],
       limit: max
     })
@@ -141,10 +184,10 @@ router.get('/search', authMiddleware, async (req, res) => {
 })
 
 // Get member by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('members:read'), async (req, res) => {
   try {
     const { id } = req.params
-    const member = await db.Member.findByPk(id)
+    const member = await db.Member.findByPk(id, { include: [tierInclude] })
     if (!member) return res.status(404).json({ error: 'Member not found' })
     res.json(member)
   } catch (err) {
@@ -154,22 +197,56 @@ router.get('/:id', authMiddleware, async (req, res) => {
   }
 })
 
+// Tier changes of a member, newest first
+router.get('/:id/tier-history', authMiddleware, authorize('members:read'), async (req, res) => {
+  try {
+    const member = await db.Member.findByPk(req.params.id, { include: [tierInclude] })
+    if (!member) return res.status(404).json({ error: 'Member not found' })
+    res.json({
+      tier: member.tier,
+      rollingSpend: Number(member.rollingSpend || 0),
+      history: await getTierHistory(member.id)
+    })
+  } catch (err) {
+    console.error('[Express] Error fetching member tier history:', err)
+    res.status(500).json({ error: 'Failed to fetch member tier history' })
+  }
+})
+
+// Open point lots with their expiry date; ?days= sets "expiring soon" (default 30)
+router.get('/:id/points-expiry', authMiddleware, authorize('members:read'), async (req, res) => {
+  try {
+    const member = await db.Member.findByPk(req.params.id, { attributes: ['id', 'points'] })
+    if (!member) return res.status(404).json({ error: 'Member not found' })
+    const days = Number(req.query.days ?? 30)
+    if (!Number.isInteger(days) || days < 0) return res.status(400).json({ error: 'days must be a non-negative integer' })
+    res.json({ points: member.points, ...(await getPointsExpiry(member.id, { withinDays: days })) })
+  } catch (err) {
+    console.error('[Express] Error fetching member points expiry:', err)
+    res.status(500).json({ error: 'Failed to fetch member points expiry' })
+  }
+})
+
 // Create member
 router.post(
   '/',
   authMiddleware,
+  authorize('members:write'),
   buildValidator({
     location: 'body',
     schema: {
       name: { type: 'string', required: true },
       phone: { type: 'string', required: false },
       email: { type: 'string', required: false },
-      isActive: { type: 'boolean', required: false }
+      birthDate: { type: 'string', required: false },
+      isActive: { type: 'boolean', required: false },
+      marketingOptOut: { type: 'boolean', required: false }
     }
   }),
   async (req, res) => {
     try {
       const { name, phone, email, isActive } = req.body
+      const birthDate = parseBirthDate(req.body.birthDate)
       
       // Check for existing member with same phone or email
       if (phone || email) {
@@ -197,10 +274,13 @@ router.post(
         name, 
         phone: phone || null, 
         email: email || null, 
-        isActive: isActive !== undefined ? Boolean(isActive) : true 
+        birthDate: birthDate ?? null,
+        isActive: isActive !== undefined ? Boolean(isActive) : true,
+        marketingOptOut: Boolean(req.body.marketingOptOut)
       })
       res.status(201).json(created)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error creating member:', err)
       
       // Handle Sequelize unique constraint errors
@@ -224,9 +304,10 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('members:write'),
   buildValidator({
     location: 'body',
-    schema: { name: { type: 'string', required: true }, phone: { type: 'string', required: false }, email: { type: 'string', required: false }, isActive: { type: 'boolean', required: false } }
+    schema: { name: { type: 'string', required: true }, phone: { type: 'string', required: false }, email: { type: 'string', required: false }, birthDate: { type: 'string', required: false }, isActive: { type: 'boolean', required: false }, marketingOptOut: { type: 'boolean', required: false } }
   }),
   async (req, res) => {
     try {
@@ -234,10 +315,19 @@ router.put(
       const existing = await db.Member.findByPk(id)
       if (!existing) return res.status(404).json({ error: 'Member not found' })
       const { name, phone, email, isActive } = req.body
-      await db.Member.update({ name, phone: phone || null, email: email || null, isActive: isActive !== undefined ? Boolean(isActive) : existing.isActive }, { where: { id } })
+      const birthDate = parseBirthDate(req.body.birthDate)
+      await db.Member.update({
+        name,
+        phone: phone || null,
+        email: email || null,
+        birthDate: birthDate !== undefined ? birthDate : existing.birthDate,
+        isActive: isActive !== undefined ? Boolean(isActive) : existing.isActive,
+        marketingOptOut: req.body.marketingOptOut !== undefined ? Boolean(req.body.marketingOptOut) : existing.marketingOptOut
+      }, { where: { id } })
       const updated = await db.Member.findByPk(id)
       res.json(updated)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error updating member:', err)
       res.status(500).json({ error: 'Failed to update member' })
     }
@@ -248,6 +338,7 @@ router.put(
 router.patch(
   '/:id/active',
   authMiddleware,
+  authorize('members:write'),
   buildValidator({
     location: 'body',
     schema: { isActive: { type: 'boolean', required: true } }
@@ -269,7 +360,7 @@ router.patch(
 )
 
 // Delete member
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('members:delete'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.Member.findByPk(id)
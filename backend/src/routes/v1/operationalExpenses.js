@@ -1,5 +1,6 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
@@ -33,7 +34,7 @@ async function ensureOperationalExpenseTable() {
 }
 
 // List expenses with optional filters
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('expenses:read'), async (req, res) => {
   await ensureOperationalExpenseTable()
   try {
     const { startDate, endDate, category } = req.query
@@ -82,10 +83,11 @@ router.get('/', authMiddleware, async (req, res) => {
   }
 })
 
-// Create new expense (admin only)
+// Create new expense
 router.post(
   '/',
   authMiddleware,
+  authorize('expenses:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -101,13 +103,9 @@ router.post(
     await ensureOperationalExpenseTable()
     try {
       const userId = req.user?.id || req.user?.sub
-      const role = req.user?.role
       if (!userId) {
         return res.status(400).json({ error: 'Invalid user in token' })
       }
-      if (role !== 'ADMIN') {
-        return res.status(403).json({ error: 'Forbidden: Only admins can add operational expenses' })
-      }
 
       const userExists = await db.User.findByPk(userId)
       if (!userExists) {
@@ -151,7 +149,7 @@ router.post(
 )
 
 // Get by ID
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('expenses:read'), async (req, res) => {
   try {
     const { id } = req.params
     const expense = await db.OperationalExpense.findByPk(id, {
@@ -165,10 +163,11 @@ router.get('/:id', authMiddleware, async (req, res) => {
   }
 })
 
-// Update by ID (admin only)
+// Update by ID
 router.put(
   '/:id',
   authMiddleware,
+  authorize('expenses:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -183,11 +182,6 @@ router.put(
   async (req, res) => {
     await ensureOperationalExpenseTable()
     try {
-      const role = req.user?.role
-      if (role !== 'ADMIN') {
-        return res.status(403).json({ error: 'Forbidden: Only admins can update operational expenses' })
-      }
-
       const { id } = req.params
       const exists = await db.OperationalExpense.findByPk(id)
       if (!exists) return res.status(404).json({ error: 'Operational expense not found' })
@@ -228,13 +222,9 @@ router.put(
   }
 )
 
-// Delete by ID (admin only)
-router.delete('/:id', authMiddleware, async (req, res) => {
+// Delete by ID
+router.delete('/:id', authMiddleware, authorize('expenses:write'), async (req, res) => {
   try {
-    const role = req.user?.role
-    if (role !== 'ADMIN') {
-      return res.status(403).json({ error: 'Forbidden: Only admins can delete operational expenses' })
-    }
     const { id } = req.params
     const exists = await db.OperationalExpense.findByPk(id)
     if (!exists) return res.status(404).json({ error: 'Operational expense not found' })
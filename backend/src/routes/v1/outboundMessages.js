@@ -0,0 +1,39 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const outbound = require('../../services/outboundMessages')
+
+const router = Router()
+
+// Outbound message queue (receipts); sending happens in services/outboundMessages.js
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+router.get('/', authMiddleware, authorize('outbox:manage'), async (req, res) => {
+  try {
+    res.json(await outbound.listMessages(req.query))
+  } catch (err) {
+    sendError(res, err, 'Failed to list outbound messages')
+  }
+})
+
+router.post(
+  '/:id/resend',
+  authMiddleware,
+  authorize('outbox:manage'),
+  buildValidator({ location: 'body', schema: { recipient: { type: 'string', required: false } } }),
+  async (req, res) => {
+    try {
+      res.json({ message: await outbound.resendMessage(req.params.id, req.body) })
+    } catch (err) {
+      sendError(res, err, 'Failed to resend message')
+    }
+  }
+)
+
+module.exports = router
@@ -1,10 +1,14 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
-const ReceiptFormatter = require('../../services/receiptFormatter')
-const WhatsAppManager = require('../../services/whatsappManager')
+const { adjustItemStock } = require('../../services/inventory')
+const { settlePayments } = require('../../services/tenders')
+const { queueReceipt } = require('../../services/outboundMessages')
+const { requireApproval } = require('../../middleware/approval')
+const { recordApproval } = require('../../services/approvals')
 
 // Midtrans client (CommonJS)
 let midtransSnap = null
@@ -27,37 +31,22 @@ try {
 
 const router = Router()
 
-function requireCashierOrAdmin(req, res) {
-  const role = req.user?.role
-  if (role !== 'ADMIN' && role !== 'CASHIER') {
-    res.status(403).json({ error: 'Forbidden: cashier or admin role required' })
-    return false
-  }
-  return true
-}
-
-async function reduceStock(items, t) {
+async function reduceStock(items, t, ledger = {}) {
   for (const item of items || []) {
     if (!item?.productId || !item?.quantity) continue
-    await db.Product.update({
-      stock: db.sequelize.literal(`stock - ${Number(item.quantity)}`)
-    }, { where: { id: item.productId }, transaction: t })
+    await adjustItemStock(item, -Number(item.quantity), { transaction: t, reason: 'SALE', ...ledger })
   }
 }
 
-async function restoreStock(items, t) {
+async function restoreStock(items, t, ledger = {}) {
   for (const item of items || []) {
     if (!item?.productId || !item?.quantity) continue
-    await db.Product.update({
-      stock: db.sequelize.literal(`stock + ${Number(item.quantity)}`)
-    }, { where: { id: item.productId }, transaction: t })
+    await adjustItemStock(item, Number(item.quantity), { transaction: t, reason: 'CANCEL', ...ledger })
   }
 }
 
 async function confirmTransactionById(transactionId, expectedMethod, req, res) {
   try {
-    // Allow both ADMIN and CASHIER to confirm on-site payments
-    if (!requireCashierOrAdmin(req, res)) return
     const id = String(transactionId || '').trim()
     if (!id) return res.status(400).json({ error: 'Invalid transactionId' })
 
@@ -66,7 +55,7 @@ async function confirmTransactionById(transactionId, expectedMethod, req, res) {
     console.log(`[Payment] Attempting to confirm transaction ${id} via ${expectedMethod}`)
 
     // Use database transaction to prevent race conditions
-    const result = await db.sequelize.transaction(async (t) => {
+    await db.sequelize.transaction(async (t) => {
       // Lock the transaction row for update to prevent race conditions
       // Note: We don't include items here to avoid "FOR UPDATE cannot be applied to the nullable side of an outer join" error in Postgres
       const tx = await db.Transaction.findByPk(id, {
@@ -125,9 +114,11 @@ async function confirmTransactionById(transactionId, expectedMethod, req, res) {
         where: { id },
         transaction: t 
       })
+      await settlePayments(id, 'PAID', { transaction: t, reference })
+      await recordApproval(req.approval, { transactionId: id, transaction: t })
 
       // Reduce stock within the same transaction
-      await reduceStock(tx.items, t)
+      await reduceStock(tx.items, t, { referenceId: tx.id, userId: req.user?.id })
       
       return tx
     })
@@ -135,71 +126,12 @@ async function confirmTransactionById(transactionId, expectedMethod, req, res) {
     // If we get here, the transaction was successful or already completed
     console.log(`[Payment] Transaction ${id} confirmed successfully`)
 
-    if (String(result.status) === 'COMPLETED' && String(result.paymentStatus) === 'PAID' && result.paidAt) {
-       // It was already completed (idempotent return), so we might want to skip sending WA if it was sent before?
-       // But checking if WA was sent is hard. We can just skip or let it re-send (maybe annoying).
-       // For now, we proceed to send WA receipt as confirmation.
-    }
-
-    // If we get here, the transaction was successful
-
-    // Auto-send WhatsApp receipt asynchronously when confirmation succeeds
+    // Queue the WhatsApp receipt; confirming an already paid transaction again
+    // does not queue a second one
     try {
-      const fullTx = await db.Transaction.findByPk(id, {
-        include: [
-          { model: db.User, as: 'user' },
-          { model: db.Member, as: 'member' },
-          { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] }
-        ]
-      })
-      if (fullTx && fullTx.customerPhone) {
-        const validation = ReceiptFormatter.validatePhoneNumber(fullTx.customerPhone)
-        if (validation.isValid) {
-          const items = (fullTx.items || []).map((it) => ({
-            name: it.product?.name || it.name || 'Item',
-            productCode: it.product?.code || null,
-            size: it.product?.size || null,
-            color: it.product?.color || null,
-            price: Number(it.price || it.product?.price || 0),
-            quantity: Number(it.quantity || 0),
-            total: Number(it.subtotal || (Number(it.price || 0) * Number(it.quantity || 0)) || 0),
-          }))
-          const messageTx = {
-            id: fullTx.id,
-            createdAt: fullTx.createdAt,
-            user: fullTx.user ? { name: fullTx.user.name } : undefined,
-            customer: fullTx.customerName || undefined,
-            customerPhone: fullTx.customerPhone,
-            member: fullTx.member ? { name: fullTx.member.name, phone: fullTx.member.phone } : undefined,
-            items,
-            subtotal: items.reduce((acc, i) => acc + Number(i.total || 0), 0),
-            tax: Number(fullTx.tax || 0),
-            pointsUsed: Number(fullTx.pointsUsed || 0),
-            voucherCode: fullTx.voucherCode || null,
-            voucherDiscount: Number(fullTx.voucherDiscount || 0),
-            promotionDiscount: Number(fullTx.promoDiscount || 0),
-            finalTotal: Number(fullTx.finalTotal || fullTx.total || 0),
-            paymentMethod: fullTx.paymentMethod,
-            status: 'COMPLETED',
-            pointsEarned: 0,
-          }
-          const message = ReceiptFormatter.formatReceiptForWhatsApp(messageTx)
-          const wa = WhatsAppManager.getInstance()
-          if (!wa.isConnected()) {
-            // Attempt simple initialize, but don't crash
-            wa.initialize().catch((e) => console.warn('[Express] WhatsApp init error:', e))
-          }
-          // Fire and forget; don't block response on WA send
-          // Add small delay to ensure init
-          setTimeout(() => {
-              wa.sendMessage(validation.formatted, message)
-                .then((r) => { if (!r.success) console.warn('[Express] WhatsApp send receipt failed:', r.error) })
-                .catch((e) => console.warn('[Express] WhatsApp send receipt error:', e))
-          }, 500)
-        }
-      }
-    } catch (waErr) {
-      console.warn('[Express] Skipping WhatsApp send on confirm:', waErr)
+      await queueReceipt(id)
+    } catch (queueErr) {
+      console.warn('[Express] Failed to queue WhatsApp receipt on confirm:', queueErr)
     }
 
     const updated = await db.Transaction.findByPk(id)
@@ -224,14 +156,20 @@ async function confirmTransactionById(transactionId, expectedMethod, req, res) {
   }
 }
 
+// Confirming a payment marks the sale paid, so it needs the same MARK_PAID
+// approval as /transactions/:id/mark-paid
+const confirmScope = (req) => ({ transactionId: String(req.body?.transactionId || '').trim() })
+
 // Bank transfer confirm (cashier/admin)
 router.post(
   '/bank-transfer/confirm',
   authMiddleware,
+  authorize('payments:confirm'),
   buildValidator({
     location: 'body',
     schema: { transactionId: { type: 'string', required: true } }
   }),
+  requireApproval('MARK_PAID', confirmScope),
   async (req, res) => {
     const { transactionId } = req.body
     return confirmTransactionById(transactionId, 'BANK_TRANSFER', req, res)
@@ -242,10 +180,12 @@ router.post(
 router.post(
   '/qris/confirm',
   authMiddleware,
+  authorize('payments:confirm'),
   buildValidator({
     location: 'body',
     schema: { transactionId: { type: 'string', required: true } }
   }),
+  requireApproval('MARK_PAID', confirmScope),
   async (req, res) => {
     const { transactionId } = req.body
     return confirmTransactionById(transactionId, 'QRIS', req, res)
@@ -256,10 +196,12 @@ router.post(
 router.post(
   '/card/confirm',
   authMiddleware,
+  authorize('payments:confirm'),
   buildValidator({
     location: 'body',
     schema: { transactionId: { type: 'string', required: true } }
   }),
+  requireApproval('MARK_PAID', confirmScope),
   async (req, res) => {
     const { transactionId } = req.body
     return confirmTransactionById(transactionId, 'CARD', req, res)
@@ -270,6 +212,7 @@ router.post(
 router.post(
   '/midtrans/create-token',
   authMiddleware,
+  authorize('transactions:create'),
   buildValidator({
     location: 'body',
     schema: {
@@ -357,12 +300,15 @@ router.post('/midtrans/webhook', async (req, res) => {
       status: newTransactionStatus,
       ...(nowPaid ? { paidAt: new Date() } : {})
     }, { where: { id: tx.id } })
+    if (newPaymentStatus === 'PAID' || newPaymentStatus === 'FAILED') {
+      await settlePayments(tx.id, newTransactionStatus === 'CANCELLED' ? 'CANCELLED' : newPaymentStatus, { reference: body.transaction_id })
+    }
 
     // Stock adjustments: reduce when becoming PAID (not at creation for Midtrans), restore if had been paid then failed/cancelled
     if (nowPaid && !previouslyPaid) {
-      await reduceStock(tx.items)
+      await reduceStock(tx.items, undefined, { referenceId: tx.id, note: 'Midtrans webhook' })
     } else if (previouslyPaid && newPaymentStatus !== 'PAID') {
-      await restoreStock(tx.items)
+      await restoreStock(tx.items, undefined, { referenceId: tx.id, note: `Midtrans ${midStatus}` })
     }
 
     return res.json({ message: 'Webhook processed', transactionId: tx.id, paymentStatus: newPaymentStatus, status: newTransactionStatus })
@@ -1,12 +1,13 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 
 const router = Router()
 
 // List payments
-router.get('/', authMiddleware, async (_req, res) => {
+router.get('/', authMiddleware, authorize('payments:read'), async (_req, res) => {
   try {
     const payments = await db.Payment.findAll({ order: [['createdAt', 'DESC']], limit: 200 })
     res.json({ count: payments.length, payments })
@@ -18,7 +19,7 @@ router.get('/', authMiddleware, async (_req, res) => {
 })
 
 // Get payment by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('payments:read'), async (req, res) => {
   try {
     const { id } = req.params
     const payment = await db.Payment.findByPk(id)
@@ -35,6 +36,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('payments:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -60,6 +62,7 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('payments:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -85,7 +88,7 @@ router.put(
 )
 
 // Delete payment
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('payments:write'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.Payment.findByPk(id)
@@ -0,0 +1,118 @@
+const { Router } = require('express')
+const { memberAuth } = require('../../middleware/memberAuth')
+const { rateLimit } = require('../../middleware/rateLimit')
+const { buildValidator } = require('../../middleware/validate')
+const portal = require('../../services/memberPortal')
+
+// Member portal: public login by phone + WhatsApp code, then read-only views
+// of the member's own points, transactions, receipts and vouchers, and the
+// member's choice to receive WhatsApp campaigns.
+const router = Router()
+
+const WINDOW_MS = 15 * 60 * 1000
+const phoneKey = (req) => {
+  const digits = String(req.body?.phone || '').replace(/\D/g, '').replace(/^(0|62)/, '')
+  return digits ? `phone:${digits}` : null
+}
+const tooMany = 'Too many login attempts, please try again later'
+
+// A few codes per phone (WhatsApp messages cost money and annoy the member)
+// and a wider limit per client for guessing across numbers
+const otpPerIp = rateLimit({ windowMs: WINDOW_MS, max: 10, message: tooMany })
+const otpPerPhone = rateLimit({ windowMs: WINDOW_MS, max: 3, key: phoneKey, message: tooMany })
+const verifyPerIp = rateLimit({ windowMs: WINDOW_MS, max: 20, message: tooMany })
+
+function sendError(res, err, fallback) {
+  if (err.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Portal] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+router.post(
+  '/auth/request-otp',
+  otpPerIp,
+  buildValidator({ location: 'body', schema: { phone: { required: true, type: 'string' } } }),
+  otpPerPhone,
+  async (req, res) => {
+    try {
+      res.json(await portal.requestOtp(req.body.phone, { ip: req.ip }))
+    } catch (err) {
+      sendError(res, err, 'Failed to send login code')
+    }
+  }
+)
+
+router.post(
+  '/auth/verify-otp',
+  verifyPerIp,
+  buildValidator({
+    location: 'body',
+    schema: {
+      phone: { required: true, type: 'string' },
+      code: { required: true, type: 'string' }
+    }
+  }),
+  async (req, res) => {
+    try {
+      res.json(await portal.verifyOtp(req.body.phone, req.body.code))
+    } catch (err) {
+      sendError(res, err, 'Failed to verify login code')
+    }
+  }
+)
+
+router.get('/me', memberAuth, async (req, res) => {
+  try {
+    res.json(await portal.getProfile(req.member.id))
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch member')
+  }
+})
+
+router.put(
+  '/me/marketing',
+  memberAuth,
+  buildValidator({ location: 'body', schema: { optOut: { required: true, type: 'boolean' } } }),
+  async (req, res) => {
+    try {
+      res.json(await portal.setMarketingOptOut(req.member.id, req.body.optOut))
+    } catch (err) {
+      sendError(res, err, 'Failed to update marketing preference')
+    }
+  }
+)
+
+router.get('/points-history', memberAuth, async (req, res) => {
+  try {
+    res.json(await portal.listPointHistory(req.member.id, req.query))
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch point history')
+  }
+})
+
+router.get('/transactions', memberAuth, async (req, res) => {
+  try {
+    res.json(await portal.listTransactions(req.member.id, req.query))
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch transactions')
+  }
+})
+
+router.get('/transactions/:id/receipt', memberAuth, async (req, res) => {
+  try {
+    res.json(await portal.getReceipt(req.member.id, req.params.id))
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch receipt')
+  }
+})
+
+router.get('/vouchers', memberAuth, async (req, res) => {
+  try {
+    const vouchers = await portal.listAvailableVouchers(req.member.id)
+    res.json({ count: vouchers.length, vouchers })
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch vouchers')
+  }
+})
+
+module.exports = router
@@ -1,13 +1,16 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
+const { syncProductVariants, refreshProductStock, recordStockChange, setStockLevel } = require('../../services/inventory')
+const { generateInternalEan13, symbologyOf, renderLabelSheetSvg, renderLabelSheetPdf } = require('../../services/barcodes')
 
 const router = Router()
 
 // List products
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('products:read'), async (req, res) => {
   try {
     const { categoryId, active, includeInactive, q } = req.query
     const where = {}
@@ -23,7 +26,10 @@ router.get('/', authMiddleware, async (req, res) => {
       where,
       order: [['createdAt', 'DESC']],
       limit: 1000,
-      include: [{ model: db.Category, as: 'category' }]
+      include: [
+        { model: db.Category, as: 'category' },
+        { model: db.ProductVariant, as: 'variants', required: false, separate: true, order: [['createdAt', 'ASC']] }
+      ]
     })
     res.json({ count: products.length, products })
   } catch (err) {
@@ -33,11 +39,113 @@ router.get('/', authMiddleware, async (req, res) => {
   }
 })
 
+// Find the product (and variant) behind a scanned code: barcodes first, then product codes
+router.get('/barcode/:code', authMiddleware, authorize('products:read'), async (req, res) => {
+  try {
+    const code = String(req.params.code || '').trim()
+    if (!code) return res.status(400).json({ error: 'code is required' })
+    const variantInclude = [{ model: db.ProductVariant, as: 'variants', separate: true, order: [['createdAt', 'ASC']] }]
+    const withCategory = [{ model: db.Category, as: 'category' }, ...variantInclude]
+
+    for (const field of ['barcode', 'productCode']) {
+      const product = await db.Product.findOne({ where: { [field]: code }, include: withCategory })
+      if (product) return res.json({ product, variant: null, symbology: symbologyOf(code) })
+      const variant = await db.ProductVariant.findOne({ where: { [field]: code } })
+      if (variant) {
+        const parent = await db.Product.findByPk(variant.productId, { include: withCategory })
+        if (parent) return res.json({ product: parent, variant, symbology: symbologyOf(code) })
+      }
+    }
+    res.status(404).json({ error: 'No product with this barcode' })
+  } catch (err) {
+    console.error('[Express] Error looking up barcode:', err)
+    res.status(500).json({ error: 'Failed to look up barcode' })
+  }
+})
+
+// Printable barcode labels for the given products. A product with variants and
+// no variantId gets one label per active variant.
+const MAX_LABELS = 480
+
+router.post(
+  '/labels',
+  authMiddleware,
+  authorize('products:write'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      items: { type: 'object', required: true },
+      format: { type: 'string', required: false, enum: ['pdf', 'svg'] }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { items } = req.body
+      const format = req.body.format || 'pdf'
+      if (!Array.isArray(items) || items.length === 0) {
+        return res.status(400).json({ error: 'items must be a non-empty array' })
+      }
+
+      const labels = []
+      for (const item of items) {
+        const copies = item?.copies === undefined ? 1 : Number(item.copies)
+        if (!item?.productId || !Number.isInteger(copies) || copies < 1) {
+          return res.status(400).json({ error: 'Each item requires productId and a positive integer copies' })
+        }
+        const product = await db.Product.findByPk(String(item.productId), {
+          include: [{ model: db.ProductVariant, as: 'variants', separate: true, order: [['createdAt', 'ASC']] }]
+        })
+        if (!product) return res.status(404).json({ error: `Product ${item.productId} not found` })
+
+        // Products created before barcodes existed get their internal EAN now
+        if (!product.barcode) {
+          product.barcode = await generateInternalEan13(db, product.productCode || product.id)
+          await product.save({ fields: ['barcode'] })
+        }
+
+        let variants = []
+        if (item.variantId) {
+          const variant = (product.variants || []).find((v) => String(v.id) === String(item.variantId))
+          if (!variant) return res.status(400).json({ error: `Variant ${item.variantId} does not belong to product ${product.id}` })
+          variants = [variant]
+        } else {
+          variants = (product.variants || []).filter((v) => v.isActive !== false)
+        }
+
+        const entries = variants.length > 0
+          ? variants.map((v) => ({ name: product.name, size: v.size, color: v.color, price: v.price ?? product.price, barcode: v.barcode || v.productCode || product.barcode }))
+          : [{ name: product.name, size: product.size, color: product.color, price: product.price, barcode: product.barcode }]
+        for (const entry of entries) {
+          for (let i = 0; i < copies; i++) labels.push(entry)
+        }
+        if (labels.length > MAX_LABELS) {
+          return res.status(400).json({ error: `At most ${MAX_LABELS} labels can be printed at once` })
+        }
+      }
+
+      if (format === 'svg') {
+        res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8')
+        res.setHeader('Content-Disposition', 'inline; filename="label-barcode.svg"')
+        return res.send(renderLabelSheetSvg(labels))
+      }
+      res.setHeader('Content-Type', 'application/pdf')
+      res.setHeader('Content-Disposition', 'inline; filename="label-barcode.pdf"')
+      res.send(renderLabelSheetPdf(labels))
+    } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
+      console.error('[Express] Error generating barcode labels:', err)
+      res.status(500).json({ error: 'Failed to generate barcode labels' })
+    }
+  }
+)
+
 // Get product by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('products:read'), async (req, res) => {
   try {
     const { id } = req.params
-    const product = await db.Product.findByPk(id)
+    const product = await db.Product.findByPk(id, {
+      include: [{ model: db.ProductVariant, as: 'variants', separate: true, order: [['createdAt', 'ASC']] }]
+    })
     if (!product) return res.status(404).json({ error: 'Product not found' })
     res.json(product)
   } catch (err) {
@@ -47,10 +155,54 @@ router.get('/:id', authMiddleware, async (req, res) => {
   }
 })
 
+// Stock ledger for one product, newest first
+router.get(
+  '/:id/stock-history',
+  authMiddleware,
+  authorize('products:read'),
+  buildValidator({
+    location: 'query',
+    schema: {
+      reason: { type: 'string', required: false, enum: db.StockMovement.REASONS },
+      variantId: { type: 'string', required: false },
+      limit: { type: 'number', required: false },
+      page: { type: 'number', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { id } = req.params
+      const product = await db.Product.findByPk(id, { attributes: ['id', 'name', 'productCode', 'stock'] })
+      if (!product) return res.status(404).json({ error: 'Product not found' })
+      const { reason, variantId } = req.query
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || '50'), 10) || 50, 1), 200)
+      const page = Math.max(parseInt(String(req.query.page || '1'), 10) || 1, 1)
+      const where = { productId: id }
+      if (reason) where.reason = String(reason)
+      if (variantId) where.variantId = String(variantId)
+      const { count, rows } = await db.StockMovement.findAndCountAll({
+        where,
+        order: [['createdAt', 'DESC']],
+        limit,
+        offset: (page - 1) * limit,
+        include: [
+          { model: db.User, as: 'user', attributes: ['id', 'name', 'email'] },
+          { model: db.ProductVariant, as: 'variant', attributes: ['id', 'size', 'color', 'productCode'], required: false }
+        ]
+      })
+      res.json({ count, page, limit, product, movements: rows })
+    } catch (err) {
+      console.error('[Express] Error fetching stock history:', err)
+      res.status(500).json({ error: 'Failed to fetch stock history' })
+    }
+  }
+)
+
 // Create product
 router.post(
   '/',
   authMiddleware,
+  authorize('products:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -58,15 +210,22 @@ router.post(
       price: { type: 'number', required: true },
       stock: { type: 'number', required: true },
       categoryId: { type: 'string', required: true },
-      color: { type: 'string', required: true },
-      size: { type: 'string', required: true },
+      color: { type: 'string', required: false },
+      size: { type: 'string', required: false },
       description: { type: 'string', required: false },
-      image: { type: 'string', required: false }
+      image: { type: 'string', required: false },
+      barcode: { type: 'string', required: false },
+      taxExempt: { type: 'boolean', required: false },
+      variants: { type: 'object', required: false }
     }
   }),
   async (req, res) => {
     try {
       const data = req.body
+      const variants = Array.isArray(data.variants) ? data.variants : []
+      if (variants.length === 0 && (!data.color || !data.size)) {
+        return res.status(400).json({ error: 'color and size are required for products without variants' })
+      }
       const category = await db.Category.findByPk(String(data.categoryId))
       if (!category) {
         return res.status(400).json({ error: 'Category not found' })
@@ -83,20 +242,44 @@ router.post(
       const payload = {
         name: String(data.name),
         price: Number(price ?? 0),
-        stock: Number(stock ?? 0),
+        // Opening stock is booked below as a movement
+        stock: 0,
         categoryId: String(data.categoryId),
-        color: String(data.color),
-        size: String(data.size),
+        color: data.color ? String(data.color) : null,
+        size: data.size ? String(data.size) : null,
         description: data.description ? String(data.description) : null,
         image: data.image ? String(data.image) : null,
       }
       if (costPrice !== null) payload.costPrice = Number(costPrice)
+      if (data.taxExempt !== undefined) payload.taxExempt = data.taxExempt
       if (data.productCode && String(data.productCode).trim() !== '') {
         payload.productCode = String(data.productCode).trim()
       }
-      const created = await db.Product.create(payload)
-      res.status(201).json(created)
+      if (data.barcode && String(data.barcode).trim() !== '') {
+        payload.barcode = String(data.barcode).trim()
+        if (await db.ProductVariant.count({ where: { barcode: payload.barcode } })) {
+          return res.status(400).json({ error: 'Barcode is already used by a product variant' })
+        }
+      }
+      const created = await db.sequelize.transaction(async (t) => {
+        const product = await db.Product.create(payload, { transaction: t })
+        if (variants.length > 0) {
+          await syncProductVariants(product.id, variants, { transaction: t, userId: req.user?.id })
+        } else {
+          await recordStockChange({
+            productId: product.id,
+            delta: Number(stock ?? 0),
+            reason: 'ADJUSTMENT',
+            userId: req.user?.id,
+            note: 'Stok awal'
+          }, { transaction: t })
+        }
+        return product
+      })
+      const result = await db.Product.findByPk(created.id, { include: [{ model: db.ProductVariant, as: 'variants' }] })
+      res.status(201).json(result)
     } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
       const name = String(err?.name || '')
       if (name === 'SequelizeValidationError' || name === 'SequelizeUniqueConstraintError') {
         return res.status(400).json({ error: err?.message || 'Validation error' })
@@ -111,6 +294,7 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('products:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -118,10 +302,13 @@ router.put(
       price: { type: 'number', required: true },
       stock: { type: 'number', required: true },
       categoryId: { type: 'string', required: true },
-      color: { type: 'string', required: true },
-      size: { type: 'string', required: true },
+      color: { type: 'string', required: false },
+      size: { type: 'string', required: false },
       description: { type: 'string', required: false },
-      image: { type: 'string', required: false }
+      image: { type: 'string', required: false },
+      barcode: { type: 'string', required: false },
+      taxExempt: { type: 'boolean', required: false },
+      variants: { type: 'object', required: false }
     }
   }),
   async (req, res) => {
@@ -130,19 +317,58 @@ router.put(
       const existing = await db.Product.findByPk(id)
       if (!existing) return res.status(404).json({ error: 'Product not found' })
       const data = req.body
-      await db.Product.update({
+      const hasVariantList = Array.isArray(data.variants)
+      const variantCount = hasVariantList
+        ? data.variants.length
+        : await db.ProductVariant.count({ where: { productId: id } })
+      if (variantCount === 0 && (!data.color || !data.size)) {
+        return res.status(400).json({ error: 'color and size are required for products without variants' })
+      }
+      const changes = {
         name: data.name,
         price: Number(data.price),
-        stock: Number(data.stock || 0),
         categoryId: data.categoryId,
-        color: data.color,
-        size: data.size,
+        color: data.color || null,
+        size: data.size || null,
         description: data.description || null,
         image: data.image || null
-      }, { where: { id } })
-      const updated = await db.Product.findByPk(id)
+      }
+      if (data.taxExempt !== undefined) changes.taxExempt = data.taxExempt
+      // Clearing the barcode falls back to the internal EAN
+      if (data.barcode !== undefined) {
+        const barcode = String(data.barcode || '').trim()
+        if (barcode && await db.ProductVariant.count({ where: { barcode } })) {
+          return res.status(400).json({ error: 'Barcode is already used by a product variant' })
+        }
+        changes.barcode = barcode || await generateInternalEan13(db, existing.productCode || existing.id, { exceptProductId: id })
+      }
+      await db.sequelize.transaction(async (t) => {
+        await db.Product.update(changes, { where: { id }, transaction: t })
+        // Stock of variant products is derived from the variants themselves
+        if (hasVariantList) {
+          await syncProductVariants(id, data.variants, { transaction: t, userId: req.user?.id })
+        }
+        const derivedStock = await refreshProductStock(id, { transaction: t, userId: req.user?.id })
+        if (derivedStock === null) {
+          await setStockLevel({
+            productId: id,
+            stock: Number(data.stock || 0),
+            reason: 'ADJUSTMENT',
+            userId: req.user?.id,
+            note: 'Ubah stok produk'
+          }, { transaction: t })
+        }
+      })
+      const updated = await db.Product.findByPk(id, {
+        include: [{ model: db.ProductVariant, as: 'variants', separate: true, order: [['createdAt', 'ASC']] }]
+      })
       res.json(updated)
     } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
+      const name = String(err?.name || '')
+      if (name === 'SequelizeValidationError' || name === 'SequelizeUniqueConstraintError') {
+        return res.status(400).json({ error: err?.message || 'Validation error' })
+      }
       console.error('[Express] Error updating product:', err)
       res.status(500).json({ error: 'Failed to update product' })
     }
@@ -150,7 +376,7 @@ router.put(
 )
 
 // Delete product
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('products:delete'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.Product.findByPk(id)
@@ -160,7 +386,15 @@ router.delete('/:id', authMiddleware, async (req, res) => {
     if (relatedCount > 0) {
       return res.status(400).json({ error: 'Cannot delete product with related transactions' })
     }
-    await db.Product.destroy({ where: { id } })
+    const purchaseCount = await db.PurchaseOrderItem.count({ where: { productId: id } })
+    if (purchaseCount > 0) {
+      return res.status(400).json({ error: 'Cannot delete product with purchase orders' })
+    }
+    await db.sequelize.transaction(async (t) => {
+      await db.StockMovement.destroy({ where: { productId: id }, transaction: t })
+      await db.ProductVariant.destroy({ where: { productId: id }, transaction: t })
+      await db.Product.destroy({ where: { id }, transaction: t })
+    })
     res.json({ message: 'Product deleted' })
   } catch (err) {
     console.error('[Express] Error deleting product:', err)
@@ -169,7 +403,7 @@ router.delete('/:id', authMiddleware, async (req, res) => {
 })
 
 // Import products from CSV text (sent in JSON)
-router.post('/import', authMiddleware, async (req, res) => {
+router.post('/import', authMiddleware, authorize('products:write'), async (req, res) => {
   try {
     const { csvText, duplicateStrategy: dupStr, autoCreateCategory } = req.body || {}
     const duplicateStrategy = String(dupStr || 'skip').toLowerCase()
@@ -221,6 +455,9 @@ router.post('/import', authMiddleware, async (req, res) => {
     const categories = await db.Category.findAll({ attributes: ['id', 'name'] })
     const nameToId = new Map(categories.map(c => [String(c.name).trim().toLowerCase(), String(c.id)]))
 
+    // Ledger context shared by every stock change in this import
+    const ledger = { reason: 'IMPORT', userId: req.user?.id, referenceId: `IMPORT-${Date.now()}` }
+
     const results = []
     let createdCount = 0
     let skippedCount = 0
@@ -236,8 +473,11 @@ router.post('/import', authMiddleware, async (req, res) => {
         const description = r.description || r.deskripsi || undefined
         const image = r.image || ''
         const productCode = r.productCode || r.kode || ''
-        const size = r.size || ''
-        const color = r.color || ''
+        const size = r.size || r.ukuran || ''
+        const color = r.color || r.warna || ''
+        const parentCode = r.parentCode || r.kode_induk || ''
+        const barcode = r.barcode || ''
+        const variantPriceStr = r.variantPrice || r.harga_varian || ''
 
         let categoryId = r.categoryId || r.kategoriId || ''
         const categoryName = r.categoryName || r.kategori || ''
@@ -271,6 +511,81 @@ router.post('/import', authMiddleware, async (req, res) => {
         const stock = stockStr !== '' ? parseInt(String(stockStr).replace(/[^0-9\-]/g, '')) : NaN
         const costPrice = costPriceStr !== '' ? parseFloat(String(costPriceStr).replace(/[^0-9.\-]/g, '')) : null
 
+        // Rows with a parent code are variants: group them under one product
+        if (parentCode && String(parentCode).trim() !== '') {
+          if (!size || !color) {
+            results.push({ index: i + 1, status: 'skipped', error: 'Variant rows require size and color' })
+            skippedCount++
+            continue
+          }
+          let parent = await db.Product.findOne({ where: { productCode: String(parentCode).trim() } })
+          if (!parent) {
+            if (!name || !Number.isFinite(price) || !categoryId) {
+              results.push({ index: i + 1, status: 'skipped', error: 'Required for new parent product: name, price, categoryId/categoryName' })
+              skippedCount++
+              continue
+            }
+            const knownCategory = categories.some(c => String(c.id) === String(categoryId)) || [...nameToId.values()].includes(String(categoryId))
+            if (!knownCategory) {
+              results.push({ index: i + 1, status: 'skipped', error: 'Category not found' })
+              skippedCount++
+              continue
+            }
+            parent = await db.Product.create({
+              name,
+              productCode: String(parentCode).trim(),
+              price,
+              costPrice,
+              stock: 0,
+              categoryId,
+              description,
+              image: image && String(image).trim() !== '' ? image : null,
+              isActive: hasIsActiveColumn ? isActive : true
+            })
+          }
+
+          const variantPrice = variantPriceStr !== '' ? parseFloat(String(variantPriceStr).replace(/[^0-9.\-]/g, '')) : null
+          const variantWhere = productCode && String(productCode).trim() !== ''
+            ? { productCode: String(productCode).trim() }
+            : { productId: parent.id, size, color }
+          const existingVariant = await db.ProductVariant.findOne({ where: variantWhere })
+          if (existingVariant) {
+            if (duplicateStrategy === 'skip') {
+              results.push({ index: i + 1, status: 'skipped', error: 'Duplicate variant' })
+              skippedCount++
+              continue
+            }
+            const variantPayload = {}
+            if (variantPriceStr !== '') variantPayload.price = variantPrice
+            else if (duplicateStrategy === 'overwrite') variantPayload.price = null
+            if (barcode) variantPayload.barcode = barcode
+            if (hasIsActiveColumn) variantPayload.isActive = isActive
+            await existingVariant.update(variantPayload)
+            if (!Number.isNaN(stock)) {
+              await setStockLevel({ ...ledger, productId: existingVariant.productId, variantId: existingVariant.id, stock })
+            }
+            await refreshProductStock(existingVariant.productId, ledger)
+            results.push({ index: i + 1, status: duplicateStrategy === 'overwrite' ? 'overwritten' : 'updated', id: String(existingVariant.productId), variantId: String(existingVariant.id) })
+            updatedCount++
+            continue
+          }
+
+          const createdVariant = await db.ProductVariant.create({
+            productId: parent.id,
+            size,
+            color,
+            productCode: productCode && String(productCode).trim() !== '' ? String(productCode).trim() : undefined,
+            barcode: barcode || null,
+            stock: 0,
+            price: Number.isFinite(variantPrice) ? variantPrice : null
+          })
+          await recordStockChange({ ...ledger, productId: parent.id, variantId: createdVariant.id, delta: Number.isNaN(stock) ? 0 : stock })
+          await refreshProductStock(parent.id, ledger)
+          results.push({ index: i + 1, status: 'created', id: String(parent.id), variantId: String(createdVariant.id) })
+          createdCount++
+          continue
+        }
+
         let finalProductCode = productCode
         if (!finalProductCode || String(finalProductCode).trim() === '') {
           const timestamp = Date.now().toString().slice(-6)
@@ -297,7 +612,6 @@ router.post('/import', authMiddleware, async (req, res) => {
           if (costPriceStr !== '') payload.costPrice = costPrice
           else if (duplicateStrategy === 'overwrite') payload.costPrice = null
 
-          if (!Number.isNaN(stock)) payload.stock = stock
           const hasDescriptionColumn = headers.some(h => ['description', 'deskripsi'].includes(h))
           if (hasDescriptionColumn) {
             if (description && String(description).trim() !== '') payload.description = description
@@ -311,9 +625,14 @@ router.post('/import', authMiddleware, async (req, res) => {
           }
 
           if (hasIsActiveColumn) payload.isActive = isActive
+          if (barcode) payload.barcode = barcode
 
           try {
             await existingProduct.update(payload)
+            if (!Number.isNaN(stock)) {
+              const hasVariants = await db.ProductVariant.count({ where: { productId: existingProduct.id } })
+              if (!hasVariants) await setStockLevel({ ...ledger, productId: existingProduct.id, stock })
+            }
             results.push({ index: i + 1, status: duplicateStrategy === 'overwrite' ? 'overwritten' : 'updated', id: String(existingProduct.id) })
             updatedCount++
           } catch (updErr) {
@@ -344,12 +663,14 @@ router.post('/import', authMiddleware, async (req, res) => {
 
         const normalizedImageForCreate = image && String(image).trim() !== '' ? image : null
 
+        // Without a barcode column the model derives an internal EAN-13 from finalProductCode
         const created = await db.Product.create({
           name,
           productCode: finalProductCode,
+          barcode,
           price,
           costPrice,
-          stock: Number.isNaN(stock) ? 0 : stock,
+          stock: 0,
           categoryId,
           description,
           size,
@@ -358,6 +679,7 @@ router.post('/import', authMiddleware, async (req, res) => {
           isActive: hasIsActiveColumn ? isActive : true
         })
 
+        await recordStockChange({ ...ledger, productId: created.id, delta: Number.isNaN(stock) ? 0 : stock })
         results.push({ index: i + 1, status: 'created', id: String(created.id) })
         createdCount++
       } catch (rowErr) {
@@ -1,13 +1,16 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
+const { calculatePromotions } = require('../../services/pricing')
+const { resolveMinTierId } = require('../../services/memberTiers')
 
 const router = Router()
 
 // List promotions (include related products and categories)
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('promotions:read'), async (req, res) => {
   try {
     const { active } = req.query || {}
     const now = new Date()
@@ -38,7 +41,7 @@ router.get('/', authMiddleware, async (req, res) => {
 })
 
 // Get promotion by id (include related products and categories)
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('promotions:read'), async (req, res) => {
   try {
     const { id } = req.params
     const promotion = await db.Promotion.findByPk(id, {
@@ -60,6 +63,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('promotions:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -70,6 +74,7 @@ router.post(
       discountValue: { type: 'number', required: true },
       startDate: { type: 'string', required: true },
       endDate: { type: 'string', required: true },
+      minTierId: { type: 'number', required: false },
       isActive: { type: 'boolean', required: false }
     }
   }),
@@ -95,6 +100,7 @@ router.post(
           return res.status(400).json({ error: 'buyQuantity and getQuantity are required and must be > 0 for BUY_X_GET_Y' })
         }
       }
+      const minTierId = await resolveMinTierId(d.minTierId)
       const created = await db.Promotion.create({
         type: d.type,
         name: d.name,
@@ -106,6 +112,7 @@ router.post(
         getQuantity: d.getQuantity !== undefined ? Number(d.getQuantity) : null,
         startDate: start,
         endDate: end,
+        minTierId: minTierId ?? null,
         isActive: d.isActive !== undefined ? Boolean(d.isActive) : true
       })
 
@@ -128,6 +135,7 @@ router.post(
 
       res.status(201).json(withRelations)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error creating promotion:', err)
       res.status(500).json({ error: 'Failed to create promotion' })
     }
@@ -138,6 +146,7 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('promotions:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -148,6 +157,7 @@ router.put(
       discountValue: { type: 'number', required: true },
       startDate: { type: 'string', required: true },
       endDate: { type: 'string', required: true },
+      minTierId: { type: 'number', required: false },
       isActive: { type: 'boolean', required: false }
     }
   }),
@@ -175,6 +185,7 @@ router.put(
           return res.status(400).json({ error: 'buyQuantity and getQuantity are required and must be > 0 for BUY_X_GET_Y' })
         }
       }
+      const minTierId = await resolveMinTierId(d.minTierId)
       await db.Promotion.update({
         type: d.type,
         name: d.name,
@@ -186,6 +197,7 @@ router.put(
         getQuantity: d.getQuantity !== undefined ? Number(d.getQuantity) : existing.getQuantity,
         startDate: start,
         endDate: end,
+        minTierId: minTierId !== undefined ? minTierId : existing.minTierId,
         isActive: d.isActive !== undefined ? Boolean(d.isActive) : existing.isActive
       }, { where: { id } })
 
@@ -213,6 +225,7 @@ router.put(
       })
       res.json(updated)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error updating promotion:', err)
       res.status(500).json({ error: 'Failed to update promotion' })
     }
@@ -220,7 +233,7 @@ router.put(
 )
 
 // Delete promotion
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('promotions:write'), async (req, res) => {
   try {
     const { id } = req.params
     const existing = await db.Promotion.findByPk(id)
@@ -234,131 +247,15 @@ router.delete('/:id', authMiddleware, async (req, res) => {
 })
 
 // Calculate promotions for cart items
-router.post('/calculate', authMiddleware, async (req, res) => {
+router.post('/calculate', authMiddleware, authorize('promotions:read'), async (req, res) => {
   try {
-    const { items } = req.body || {}
+    const { items, memberId } = req.body || {}
     if (!items || !Array.isArray(items)) {
       return res.status(400).json({ error: 'Items array is required' })
     }
 
-    const now = new Date()
-    const activePromotions = await db.Promotion.findAll({
-      where: {
-        isActive: true,
-        startDate: { [Op.lte]: now },
-        endDate: { [Op.gte]: now }
-      },
-      include: [
-        {
-          model: db.ProductPromotion,
-          as: 'productPromotions',
-          include: [{ model: db.Product, as: 'product' }]
-        },
-        {
-          model: db.CategoryPromotion,
-          as: 'categoryPromotions',
-          include: [{ model: db.Category, as: 'category' }]
-        }
-      ],
-      order: [['createdAt', 'DESC']]
-    })
-
-    let totalDiscount = 0
-    const appliedPromotions = []
-
-    for (const promotion of activePromotions) {
-      let promotionDiscount = 0
-      const applicableItems = []
-
-      for (const item of items) {
-        let isEligible = false
-        if ((promotion.productPromotions || []).some((pp) => String(pp.productId) === String(item.productId))) {
-          isEligible = true
-        }
-        if ((promotion.categoryPromotions || []).some((cp) => String(cp.categoryId) === String(item.categoryId))) {
-          isEligible = true
-        }
-        if (isEligible) applicableItems.push(item)
-      }
-
-      if (applicableItems.length === 0) continue
-
-      switch (promotion.type) {
-        case 'PRODUCT_DISCOUNT':
-        case 'CATEGORY_DISCOUNT':
-          for (const item of applicableItems) {
-            const itemTotal = Number(item.price || 0) * Number(item.quantity || 0)
-            if (promotion.discountType === 'PERCENTAGE') {
-              promotionDiscount += (itemTotal * Number(promotion.discountValue || 0)) / 100
-            } else {
-              promotionDiscount += Math.min(Number(promotion.discountValue || 0) * Number(item.quantity || 0), itemTotal)
-            }
-          }
-          break
-        case 'BULK_DISCOUNT':
-          {
-            const totalQuantity = applicableItems.reduce((sum, it) => sum + Number(it.quantity || 0), 0)
-            const totalAmount = applicableItems.reduce((sum, it) => sum + (Number(it.price || 0) * Number(it.quantity || 0)), 0)
-            if (promotion.minQuantity && totalQuantity >= Number(promotion.minQuantity)) {
-              if (promotion.discountType === 'PERCENTAGE') {
-                promotionDiscount += (totalAmount * Number(promotion.discountValue || 0)) / 100
-              } else {
-                promotionDiscount += Math.min(Number(promotion.discountValue || 0), totalAmount)
-              }
-            }
-          }
-          break
-        case 'BUY_X_GET_Y':
-          if (promotion.buyQuantity && promotion.getQuantity) {
-            for (const item of applicableItems) {
-              const sets = Math.floor(Number(item.quantity || 0) / Number(promotion.buyQuantity || 1))
-              if (sets > 0) {
-                const freeItems = Math.min(
-                  sets * Number(promotion.getQuantity || 0),
-                  Number(item.quantity || 0) - (sets * Number(promotion.buyQuantity || 1))
-                )
-                if (freeItems > 0) {
-                  promotionDiscount += Number(item.price || 0) * freeItems
-                }
-              }
-            }
-          }
-          break
-        default:
-          break
-      }
-
-      if (promotionDiscount > 0) {
-        const rounded = Math.round(promotionDiscount * 100) / 100
-        appliedPromotions.push({
-          id: promotion.id,
-          name: promotion.name,
-          type: promotion.type,
-          discountType: promotion.discountType,
-          discountValue: promotion.discountValue,
-          discount: rounded,
-          promotion: {
-            id: promotion.id,
-            name: promotion.name,
-            type: promotion.type,
-            discountType: promotion.discountType,
-            discountValue: promotion.discountValue
-          },
-          applicableItems: applicableItems.map((it) => ({
-            productId: it.productId,
-            name: it.name,
-            quantity: it.quantity,
-            price: it.price
-          }))
-        })
-        totalDiscount += promotionDiscount
-      }
-    }
-
-    return res.json({
-      totalDiscount: Math.round(totalDiscount * 100) / 100,
-      appliedPromotions
-    })
+    // Tier-only promotions apply when the member's tier allows them
+    return res.json(await calculatePromotions(items, { memberId }))
   } catch (err) {
     console.error('[Express] Error calculating promotions:', err)
     res.status(500).json({ error: 'Internal server error' })
@@ -0,0 +1,225 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const { replacePurchaseOrderItems, receivePurchaseOrder } = require('../../services/purchasing')
+
+const router = Router()
+
+// Helpers
+const orderInclude = [
+  { model: db.Supplier, as: 'supplier' },
+  { model: db.User, as: 'creator', attributes: ['id', 'name'] },
+  {
+    model: db.PurchaseOrderItem,
+    as: 'items',
+    include: [
+      { model: db.Product, as: 'product', attributes: ['id', 'name', 'productCode', 'stock', 'costPrice'] },
+      { model: db.ProductVariant, as: 'variant', attributes: ['id', 'size', 'color', 'productCode', 'stock'] }
+    ]
+  }
+]
+
+function loadOrder(id) {
+  return db.PurchaseOrder.findByPk(id, { include: orderInclude, order: [[{ model: db.PurchaseOrderItem, as: 'items' }, 'createdAt', 'ASC']] })
+}
+
+function sendError(res, err, action) {
+  if (err?.status === 400 || err?.status === 404) return res.status(err.status).json({ error: err.message })
+  const name = String(err?.name || '')
+  if (name === 'SequelizeValidationError' || name === 'SequelizeForeignKeyConstraintError') {
+    return res.status(400).json({ error: err?.message || 'Validation error' })
+  }
+  console.error(`[Express] Error trying to ${action}:`, err)
+  return res.status(500).json({ error: `Failed to ${action}` })
+}
+
+// List purchase orders
+router.get('/', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const { status, supplierId } = req.query
+    const where = {}
+    if (status) where.status = String(status).toUpperCase()
+    if (supplierId) where.supplierId = String(supplierId)
+    const orders = await db.PurchaseOrder.findAll({
+      where,
+      include: [
+        { model: db.Supplier, as: 'supplier', attributes: ['id', 'name'] },
+        { model: db.PurchaseOrderItem, as: 'items', attributes: ['id', 'quantityOrdered', 'quantityReceived'] }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: 500
+    })
+    res.json({ count: orders.length, purchaseOrders: orders })
+  } catch (err) {
+    console.error('[Express] Error listing purchase orders:', err)
+    res.status(500).json({ error: 'Failed to list purchase orders' })
+  }
+})
+
+// Get purchase order by id
+router.get('/:id', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const order = await loadOrder(req.params.id)
+    if (!order) return res.status(404).json({ error: 'Purchase order not found' })
+    res.json(order)
+  } catch (err) {
+    console.error('[Express] Error fetching purchase order:', err)
+    res.status(500).json({ error: 'Failed to fetch purchase order' })
+  }
+})
+
+// Create a draft purchase order
+router.post(
+  '/',
+  authMiddleware,
+  authorize('purchasing:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      supplierId: { type: 'string', required: true },
+      items: { type: 'object', required: true },
+      expectedDate: { type: 'string', required: false },
+      notes: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const data = req.body
+      const supplier = await db.Supplier.findByPk(String(data.supplierId))
+      if (!supplier || !supplier.isActive) return res.status(400).json({ error: 'Supplier not found' })
+      const created = await db.sequelize.transaction(async (t) => {
+        const order = await db.PurchaseOrder.create({
+          supplierId: supplier.id,
+          expectedDate: data.expectedDate ? new Date(String(data.expectedDate)) : null,
+          notes: data.notes ? String(data.notes) : null,
+          createdBy: Number.isInteger(Number(req.user?.id)) ? Number(req.user.id) : null
+        }, { transaction: t })
+        await replacePurchaseOrderItems(order.id, data.items, { transaction: t })
+        return order
+      })
+      res.status(201).json(await loadOrder(created.id))
+    } catch (err) {
+      sendError(res, err, 'create purchase order')
+    }
+  }
+)
+
+// Update a draft purchase order
+router.put(
+  '/:id',
+  authMiddleware,
+  authorize('purchasing:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      supplierId: { type: 'string', required: false },
+      items: { type: 'object', required: false },
+      expectedDate: { type: 'string', required: false },
+      notes: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const order = await db.PurchaseOrder.findByPk(req.params.id)
+      if (!order) return res.status(404).json({ error: 'Purchase order not found' })
+      if (order.status !== 'DRAFT') return res.status(400).json({ error: 'Only draft purchase orders can be edited' })
+      const data = req.body
+      const updates = {}
+      if (data.supplierId) {
+        const supplier = await db.Supplier.findByPk(String(data.supplierId))
+        if (!supplier || !supplier.isActive) return res.status(400).json({ error: 'Supplier not found' })
+        updates.supplierId = supplier.id
+      }
+      if (data.expectedDate !== undefined) updates.expectedDate = data.expectedDate ? new Date(String(data.expectedDate)) : null
+      if (data.notes !== undefined) updates.notes = data.notes ? String(data.notes) : null
+      await db.sequelize.transaction(async (t) => {
+        await order.update(updates, { transaction: t })
+        if (data.items !== undefined) {
+          await replacePurchaseOrderItems(order.id, data.items, { transaction: t })
+        }
+      })
+      res.json(await loadOrder(order.id))
+    } catch (err) {
+      sendError(res, err, 'update purchase order')
+    }
+  }
+)
+
+// Delete a draft purchase order
+router.delete('/:id', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const order = await db.PurchaseOrder.findByPk(req.params.id)
+    if (!order) return res.status(404).json({ error: 'Purchase order not found' })
+    if (order.status !== 'DRAFT') return res.status(400).json({ error: 'Only draft purchase orders can be deleted' })
+    await db.sequelize.transaction(async (t) => {
+      await db.PurchaseOrderItem.destroy({ where: { purchaseOrderId: order.id }, transaction: t })
+      await order.destroy({ transaction: t })
+    })
+    res.json({ message: 'Purchase order deleted' })
+  } catch (err) {
+    console.error('[Express] Error deleting purchase order:', err)
+    res.status(500).json({ error: 'Failed to delete purchase order' })
+  }
+})
+
+// Mark a draft as sent to the supplier
+router.post('/:id/send', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const order = await db.PurchaseOrder.findByPk(req.params.id)
+    if (!order) return res.status(404).json({ error: 'Purchase order not found' })
+    if (order.status !== 'DRAFT') return res.status(400).json({ error: 'Only draft purchase orders can be sent' })
+    const itemCount = await db.PurchaseOrderItem.count({ where: { purchaseOrderId: order.id } })
+    if (itemCount === 0) return res.status(400).json({ error: 'Purchase order has no items' })
+    await order.update({ status: 'SENT', sentAt: new Date() })
+    res.json(await loadOrder(order.id))
+  } catch (err) {
+    console.error('[Express] Error sending purchase order:', err)
+    res.status(500).json({ error: 'Failed to send purchase order' })
+  }
+})
+
+// Receive goods: stock goes up and costPrice moves to a weighted average
+router.post(
+  '/:id/receive',
+  authMiddleware,
+  authorize('purchasing:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      items: { type: 'object', required: true },
+      note: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { received } = await receivePurchaseOrder(req.params.id, req.body.items, {
+        userId: req.user?.id,
+        note: req.body.note ? String(req.body.note) : null
+      })
+      const order = await loadOrder(req.params.id)
+      res.json({ purchaseOrder: order, received })
+    } catch (err) {
+      sendError(res, err, 'receive purchase order')
+    }
+  }
+)
+
+// Close a purchase order; outstanding quantities are no longer expected
+router.post('/:id/close', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const order = await db.PurchaseOrder.findByPk(req.params.id)
+    if (!order) return res.status(404).json({ error: 'Purchase order not found' })
+    if (!['SENT', 'PARTIALLY_RECEIVED', 'RECEIVED'].includes(order.status)) {
+      return res.status(400).json({ error: `Cannot close a purchase order in ${order.status} status` })
+    }
+    await order.update({ status: 'CLOSED', closedAt: new Date() })
+    res.json(await loadOrder(order.id))
+  } catch (err) {
+    console.error('[Express] Error closing purchase order:', err)
+    res.status(500).json({ error: 'Failed to close purchase order' })
+  }
+})
+
+module.exports = router
@@ -1,7 +1,10 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
+const { getTaxSettings, summarizeTax } = require('../../services/tax')
+const { getRewardReport } = require('../../services/memberRewards')
 
 const router = Router()
 
@@ -45,7 +48,7 @@ function computePrevPeriod(startDate, endDate) {
   return { prevStart, prevEnd }
 }
 
-router.get('/financial', authMiddleware, async (req, res) => {
+router.get('/financial', authMiddleware, authorize('reports:read'), async (req, res) => {
   try {
     const range = String(req.query.range || '30days')
     const endDate = new Date(); endDate.setHours(23,59,59,999)
@@ -254,8 +257,55 @@ router.get('/financial', authMiddleware, async (req, res) => {
   }
 })
 
+// ?from&to as YYYY-MM-DD days in Asia/Jakarta, defaulting to the current month.
+// Returns { from, to, start, end } or { error }.
+function parsePeriod(query) {
+  const isDay = (value) => /^\d{4}-\d{2}-\d{2}$/.test(String(value || ''))
+  const today = new Date(Date.now() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+  const from = query.from ? String(query.from) : `${today.slice(0, 7)}-01`
+  const to = query.to ? String(query.to) : today
+  if (!isDay(from) || !isDay(to)) return { error: 'from and to must be dates (YYYY-MM-DD)' }
+  const start = new Date(`${from}T00:00:00.000+07:00`)
+  const end = new Date(`${to}T23:59:59.999+07:00`)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return { error: 'Invalid date range' }
+  if (start > end) return { error: 'from must not be after to' }
+  return { from, to, start, end }
+}
+
+// Tax owed per month and per rate for filing (SPT Masa PPN). ?from&to are
+// YYYY-MM-DD days in Asia/Jakarta and default to the current month. Archived
+// sales are included: archiving only hides them from the dashboard.
+router.get('/tax', authMiddleware, authorize('tax:report'), async (req, res) => {
+  try {
+    const period = parsePeriod(req.query)
+    if (period.error) return res.status(400).json({ error: period.error })
+    const { from, to, start, end } = period
+
+    const [settings, summary] = await Promise.all([getTaxSettings(), summarizeTax({ start, end })])
+    res.json({ period: { from, to }, settings, ...summary })
+  } catch (err) {
+    console.error('[Express] Error generating tax report:', err)
+    res.status(500).json({ error: 'Failed to generate tax report' })
+  }
+})
+
+// Birthday/anniversary vouchers issued in ?from&to (YYYY-MM-DD, Asia/Jakarta,
+// default the current month) and how many were redeemed, by occasion
+router.get('/member-rewards', authMiddleware, authorize('reports:read'), async (req, res) => {
+  try {
+    const period = parsePeriod(req.query)
+    if (period.error) return res.status(400).json({ error: period.error })
+    const { from, to, start, end } = period
+
+    res.json({ period: { from, to }, ...(await getRewardReport({ start, end })) })
+  } catch (err) {
+    console.error('[Express] Error generating member rewards report:', err)
+    res.status(500).json({ error: 'Failed to generate member rewards report' })
+  }
+})
+
 // Sales and analytics report (root) - compatible with Next API /app/api/reports
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('reports:read'), async (req, res) => {
   try {
     const range = String(req.query.range || '7days')
     const analysisType = String(req.query.analysisType || 'basic')
@@ -456,10 +506,11 @@ router.get('/', authMiddleware, async (req, res) => {
 
     // Returns within period (optional)
     const returnedTransactions = await db.Transaction.findAll({
-      where: { createdAt: { [Op.gte]: startDate, [Op.lte]: endDate }, status: 'REFUNDED' }
+      where: { createdAt: { [Op.gte]: startDate, [Op.lte]: endDate }, status: { [Op.in]: ['REFUNDED', 'PARTIALLY_REFUNDED'] } }
     })
     const totalReturns = returnedTransactions.length
-    const totalReturnAmount = returnedTransactions.reduce((sum, t) => sum + Number(t.finalTotal || 0), 0)
+    // Older full refunds predate refundedAmount and returned the whole finalTotal
+    const totalReturnAmount = returnedTransactions.reduce((sum, t) => sum + (Number(t.refundedAmount || 0) || Number(t.finalTotal || 0)), 0)
     const returnRate = (totalReturns + totalTransactions) > 0 ? (totalReturns * 100) / (totalReturns + totalTransactions) : 0
 
     const baseResponse = {
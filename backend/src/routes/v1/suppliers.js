@@ -0,0 +1,123 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const db = require('../../../../models')
+const { Op } = require('sequelize')
+
+const router = Router()
+
+// Helpers
+function pickSupplierFields(data) {
+  const fields = {}
+  for (const key of ['name', 'contactName', 'phone', 'email', 'address', 'notes']) {
+    if (data[key] !== undefined) fields[key] = data[key] === null ? null : String(data[key]).trim()
+  }
+  if (data.isActive !== undefined) fields.isActive = Boolean(data.isActive)
+  return fields
+}
+
+const supplierSchema = (required) => ({
+  name: { type: 'string', required },
+  contactName: { type: 'string', required: false },
+  phone: { type: 'string', required: false },
+  email: { type: 'string', required: false },
+  address: { type: 'string', required: false },
+  notes: { type: 'string', required: false },
+  isActive: { type: 'boolean', required: false }
+})
+
+// List suppliers
+router.get('/', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const { q, includeInactive } = req.query
+    const where = {}
+    if (String(includeInactive) !== 'true') where.isActive = true
+    if (q) {
+      where[Op.or] = [
+        { name: { [Op.iLike]: `%${String(q)}%` } },
+        { contactName: { [Op.iLike]: `%${String(q)}%` } },
+        { phone: { [Op.iLike]: `%${String(q)}%` } }
+      ]
+    }
+    const suppliers = await db.Supplier.findAll({ where, order: [['name', 'ASC']], limit: 500 })
+    res.json({ count: suppliers.length, suppliers })
+  } catch (err) {
+    console.error('[Express] Error listing suppliers:', err)
+    res.status(500).json({ error: 'Failed to list suppliers' })
+  }
+})
+
+// Get supplier by id
+router.get('/:id', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const supplier = await db.Supplier.findByPk(req.params.id)
+    if (!supplier) return res.status(404).json({ error: 'Supplier not found' })
+    res.json(supplier)
+  } catch (err) {
+    console.error('[Express] Error fetching supplier:', err)
+    res.status(500).json({ error: 'Failed to fetch supplier' })
+  }
+})
+
+// Create supplier
+router.post(
+  '/',
+  authMiddleware,
+  authorize('purchasing:manage'),
+  buildValidator({ location: 'body', schema: supplierSchema(true) }),
+  async (req, res) => {
+    try {
+      const created = await db.Supplier.create(pickSupplierFields(req.body))
+      res.status(201).json(created)
+    } catch (err) {
+      if (String(err?.name || '') === 'SequelizeValidationError') {
+        return res.status(400).json({ error: err?.message || 'Validation error' })
+      }
+      console.error('[Express] Error creating supplier:', err)
+      res.status(500).json({ error: 'Failed to create supplier' })
+    }
+  }
+)
+
+// Update supplier
+router.put(
+  '/:id',
+  authMiddleware,
+  authorize('purchasing:manage'),
+  buildValidator({ location: 'body', schema: supplierSchema(false) }),
+  async (req, res) => {
+    try {
+      const supplier = await db.Supplier.findByPk(req.params.id)
+      if (!supplier) return res.status(404).json({ error: 'Supplier not found' })
+      await supplier.update(pickSupplierFields(req.body))
+      res.json(supplier)
+    } catch (err) {
+      if (String(err?.name || '') === 'SequelizeValidationError') {
+        return res.status(400).json({ error: err?.message || 'Validation error' })
+      }
+      console.error('[Express] Error updating supplier:', err)
+      res.status(500).json({ error: 'Failed to update supplier' })
+    }
+  }
+)
+
+// Delete supplier; suppliers with purchase orders are only deactivated
+router.delete('/:id', authMiddleware, authorize('purchasing:manage'), async (req, res) => {
+  try {
+    const supplier = await db.Supplier.findByPk(req.params.id)
+    if (!supplier) return res.status(404).json({ error: 'Supplier not found' })
+    const orderCount = await db.PurchaseOrder.count({ where: { supplierId: supplier.id } })
+    if (orderCount > 0) {
+      await supplier.update({ isActive: false })
+      return res.json({ message: 'Supplier deactivated', deactivated: true })
+    }
+    await supplier.destroy()
+    res.json({ message: 'Supplier deleted' })
+  } catch (err) {
+    console.error('[Express] Error deleting supplier:', err)
+    res.status(500).json({ error: 'Failed to delete supplier' })
+  }
+})
+
+module.exports = router
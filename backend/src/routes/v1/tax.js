@@ -0,0 +1,69 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const { getTaxSettings, updateTaxSettings } = require('../../services/tax')
+const { priceCart } = require('../../services/pricing')
+
+const router = Router()
+
+// Store tax settings; see services/tax.js. Category rates and exemptions are
+// edited through /categories, product exemptions through /products.
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+router.get('/settings', authMiddleware, authorize('tax:read'), async (_req, res) => {
+  try {
+    res.json(await getTaxSettings())
+  } catch (err) {
+    sendError(res, err, 'Failed to load tax settings')
+  }
+})
+
+router.put(
+  '/settings',
+  authMiddleware,
+  authorize('tax:manage'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      enabled: { type: 'boolean', required: false },
+      rate: { type: 'number', required: false },
+      priceIncludesTax: { type: 'boolean', required: false },
+      rounding: { type: 'string', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      res.json(await updateTaxSettings(req.body, { userId: req.user.id }))
+    } catch (err) {
+      sendError(res, err, 'Failed to update tax settings')
+    }
+  }
+)
+
+// Tax for a cart as POST /transactions would price it, so the cashier can show
+// it before payment. Body: { items, discount?, pointsUsed?, voucherCode?, memberId? }
+router.post('/calculate', authMiddleware, authorize('transactions:create'), async (req, res) => {
+  try {
+    const { items, discount, pointsUsed, voucherCode, memberId } = req.body || {}
+    const priced = await priceCart({ items, discount, pointsUsed, voucherCode, memberId, userId: Number(req.user.id) })
+    res.json({
+      subtotal: priced.subtotal,
+      tax: priced.tax,
+      taxInclusive: priced.taxInclusive,
+      total: priced.finalTotal,
+      lines: priced.lines.map(({ productId, variantId, taxRate, taxExempt, taxableAmount, taxAmount }) => ({
+        productId, variantId, taxRate, taxExempt, taxableAmount, taxAmount
+      }))
+    })
+  } catch (err) {
+    sendError(res, err, 'Failed to calculate tax')
+  }
+})
+
+module.exports = router
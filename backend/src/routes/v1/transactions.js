@@ -1,11 +1,24 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { requireApproval } = require('../../middleware/approval')
 const { buildValidator } = require('../../middleware/validate')
 const { idempotencyMiddleware } = require('../../middleware/idempotency')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
-const ReceiptFormatter = require('../../services/receiptFormatter')
-const WhatsAppManager = require('../../services/whatsappManager')
+const { adjustItemStock } = require('../../services/inventory')
+const { resolveReturnLines, prorateReturn, applyReturn } = require('../../services/returns')
+const { normalizePayments, primaryMethod, settlePayments } = require('../../services/tenders')
+const { priceCart, diffPricing } = require('../../services/pricing')
+const { taxLines } = require('../../services/tax')
+const { pointsForSale } = require('../../services/loyalty')
+const { refreshTierAfterTransaction } = require('../../services/memberTiers')
+const { discountNeedsApproval, checkApproval, recordApproval } = require('../../services/approvals')
+const { queueReceipt } = require('../../services/outboundMessages')
+const { sendReceiptEmail } = require('../../services/receiptEmail')
+const { renderReceiptPdf, renderInvoicePdf } = require('../../services/receiptPdf')
+const { loadReceipt } = require('../../services/receipts')
+const { issueInvoice } = require('../../services/invoices')
 
 const router = Router()
 
@@ -17,8 +30,25 @@ function computeStartDate(range, endDate) {
   return start
 }
 
+// Offline replays without an open shift may still be this old
+const OFFLINE_REPLAY_MAX_AGE_MS = 24 * 60 * 60 * 1000
+
+// The client clock decides which day, shift and tax month a sale lands in, so an
+// offline sale keeps its client time only if that falls between the start of the
+// cashier's open shift (or the replay age limit) and now; otherwise it is paid now.
+async function offlinePaidAt(clientTime, userId, serverNow) {
+  if (!clientTime || clientTime.getTime() > serverNow.getTime()) return serverNow
+  const shift = await db.CashierShift.findOne({
+    where: { userId, status: 'OPEN' },
+    order: [['startedAt', 'DESC']],
+    attributes: ['id', 'startedAt']
+  })
+  const earliest = shift ? new Date(shift.startedAt).getTime() : serverNow.getTime() - OFFLINE_REPLAY_MAX_AGE_MS
+  return clientTime.getTime() >= earliest ? clientTime : serverNow
+}
+
 // List transactions with relations and optional range filter
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('transactions:read'), async (req, res) => {
   try {
     const range = String(req.query.range || '7days')
     // Dukungan rentang tanggal eksplisit (Asia/Jakarta)
@@ -42,7 +72,7 @@ router.get('/', authMiddleware, async (req, res) => {
     const where = { createdAt: { [Op.gte]: startDate, [Op.lte]: endDate } }
     // Validasi nilai filter yang diizinkan untuk keamanan dan konsistensi
     const allowedPayments = ['CASH','CARD','QRIS','MIDTRANS','BANK_TRANSFER','VIRTUAL_ACCOUNT']
-    const allowedStatus = ['PAID','PENDING','CANCELED','CANCELLED','COMPLETED','REFUNDED']
+    const allowedStatus = ['PAID','PENDING','CANCELED','CANCELLED','COMPLETED','REFUNDED','PARTIALLY_REFUNDED']
     if (req.query.paymentMethod) {
       const pm = String(req.query.paymentMethod).toUpperCase()
       if (!allowedPayments.includes(pm)) return res.status(400).json({ error: 'Invalid payment method' })
@@ -107,7 +137,8 @@ router.get('/', authMiddleware, async (req, res) => {
           as: 'product',
           ...(Object.keys(productWhere).length ? { where: productWhere } : {}),
           include: [{ model: db.Category, as: 'category' }]
-        }
+        },
+        { model: db.ProductVariant, as: 'variant', attributes: ['id', 'size', 'color', 'productCode'] }
       ],
       ...(Object.keys(productWhere).length ? { required: true } : {})
     }
@@ -169,6 +200,7 @@ router.get('/', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('transactions:create'),
   idempotencyMiddleware,
   buildValidator({
     location: 'body',
@@ -185,22 +217,29 @@ router.post(
       customerEmail: { type: 'string', required: false },
       pointsUsed: { type: 'number', required: false },
       memberId: { type: 'number', required: false },
-      voucherCode: { type: 'string', required: false }
+      voucherCode: { type: 'string', required: false },
+      payments: { type: 'object', required: false },
+      offline: { type: 'boolean', required: false },
+      clientCreatedAt: { type: 'string', required: false }
     }
   }),
   async (req, res) => {
     try {
       const data = req.body
+      // Sales replayed from the cashier's offline outbox were paid at the client time (see offlinePaidAt)
+      const isOfflineReplay = data.offline === true
+      const serverNow = new Date()
+      let offlineClientTime = null
       // Optional client time validation for diagnostics
       try {
-        const serverNow = new Date()
         res.set('X-Server-Time-UTC', serverNow.toISOString())
         if (data.clientCreatedAt) {
           const clientTime = new Date(data.clientCreatedAt)
           if (!isNaN(clientTime.getTime())) {
             const diffMs = Math.abs(serverNow.getTime() - clientTime.getTime())
             const diffHours = diffMs / (1000 * 60 * 60)
-            if (diffHours >= 1) {
+            if (isOfflineReplay) offlineClientTime = clientTime
+            if (diffHours >= 1 && !isOfflineReplay) {
               console.warn('[Transactions] Significant client/server time offset detected', {
                 clientCreatedAt: clientTime.toISOString(),
                 serverNow: serverNow.toISOString(),
@@ -221,92 +260,145 @@ router.post(
       if (!userId) return res.status(401).json({ error: 'Unauthorized: invalid user in token' })
       const userExists = await db.User.findByPk(userId)
       if (!userExists) return res.status(401).json({ error: 'Unauthorized: user not found' })
+      const replayPaidAt = isOfflineReplay ? await offlinePaidAt(offlineClientTime, Number(userId), serverNow) : null
 
       // Create core transaction
       const rawPm = String(data.paymentMethod || 'CASH').trim()
-      const pm = rawPm.toUpperCase()
+      let pm = rawPm.toUpperCase()
       const requiresConfirmation = data.requiresConfirmation === true
-      const isDelayed = ['VIRTUAL_ACCOUNT','BANK_TRANSFER','MIDTRANS','QRIS'].includes(pm) || (pm === 'CARD' && requiresConfirmation)
-      // Server-side subtotal from items and final total (avoid double-subtract)
-      const itemsSubtotal = (data.items || []).reduce((sum, it) => {
-        const price = Number(it?.price || 0)
-        const qty = Number(it?.quantity || 0)
-        return sum + price * qty
-      }, 0)
-      const pointsUsed = Number(data.pointsUsed || 0)
-      const pointsDiscount = pointsUsed * 1000
-      const computedFinalTotal = Math.max(
-        itemsSubtotal - pointsDiscount - Number(data.discount || 0) - Number(data.voucherDiscount || 0) - Number(data.promoDiscount || 0) + Number(data.tax || 0),
-        0
-      )
-      // Validation & logging for diagnostics
-      if (Number(data.subtotal || 0) !== itemsSubtotal) {
-        console.warn('[Transactions] Subtotal mismatch; using server-computed subtotal', {
-          providedSubtotal: Number(data.subtotal || 0),
-          computedItemsSubtotal: itemsSubtotal
+      const isSplit = data.payments != null
+      // Split tenders are all taken at the counter, so the sale completes immediately
+      const isDelayed = !isSplit && (['VIRTUAL_ACCOUNT','BANK_TRANSFER','MIDTRANS','QRIS'].includes(pm) || (pm === 'CARD' && requiresConfirmation))
+      // Price the sale from the catalog; client prices and discounts are only
+      // compared, never trusted. A mismatch means the cashier saw stale prices.
+      let priced
+      try {
+        priced = await priceCart({
+          items: data.items,
+          discount: data.discount,
+          pointsUsed: data.pointsUsed,
+          voucherCode: data.voucherCode,
+          memberId: data.memberId,
+          userId: Number(userId)
         })
+      } catch (err) {
+        if (err?.status === 400) return res.status(400).json({ error: err.message })
+        throw err
       }
-      if (data.total != null && Number(data.total) !== computedFinalTotal) {
-        console.warn('[Transactions] Total mismatch; client vs server computation', {
-          providedTotal: Number(data.total),
-          computedFinalTotal,
-          details: {
-            itemsSubtotal,
-            pointsUsed,
-            pointsDiscount,
-            voucherDiscount: Number(data.voucherDiscount || 0),
-            promoDiscount: Number(data.promoDiscount || 0),
-            tax: Number(data.tax || 0)
+      const priceDiff = diffPricing(data, priced)
+      // Offline replays are goods already handed over: record them at server
+      // prices and report the difference, like stock conflicts
+      if (priceDiff && !isOfflineReplay) {
+        return res.status(409).json({
+          error: 'Prices changed; review the cart and retry',
+          code: 'PRICE_MISMATCH',
+          diff: priceDiff,
+          pricing: {
+            items: priced.lines.map(({ productId, variantId, name, quantity, price, subtotal, taxRate, taxAmount }) => ({ productId, variantId, name, quantity, price, subtotal, taxRate, taxAmount })),
+            subtotal: priced.subtotal,
+            promoDiscount: priced.promoDiscount,
+            appliedPromotions: priced.appliedPromotions,
+            voucherDiscount: priced.voucherDiscount,
+            tierDiscount: priced.tierDiscount,
+            pointsDiscount: priced.pointsDiscount,
+            discount: priced.discount,
+            tax: priced.tax,
+            taxInclusive: priced.taxInclusive,
+            total: priced.finalTotal
           }
         })
       }
+      // Manual discounts above the configured share of the subtotal need a manager
+      let discountApproval = null
+      if (discountNeedsApproval(priced.discount, priced.subtotal)) {
+        try {
+          discountApproval = await checkApproval(req, 'DISCOUNT', { amount: priced.discount })
+        } catch (err) {
+          if (err?.code === 'APPROVAL_REQUIRED') return res.status(403).json({ error: err.message, code: err.code, action: err.action })
+          throw err
+        }
+      }
+      const computedFinalTotal = priced.finalTotal
+      let tenders
+      if (isSplit) {
+        try {
+          tenders = normalizePayments(data.payments, computedFinalTotal)
+        } catch (err) {
+          if (err?.status === 400) return res.status(400).json({ error: err.message })
+          throw err
+        }
+        pm = primaryMethod(tenders)
+      } else {
+        tenders = [{ method: pm, amount: computedFinalTotal, reference: null }]
+      }
       const transaction = await db.Transaction.create({
         // Store subtotal (pre-discount) for consistent downstream usage
-        total: itemsSubtotal,
-        tax: Number(data.tax || 0),
-        discount: Number(data.discount || 0),
-        voucherDiscount: Number(data.voucherDiscount || 0),
-        promoDiscount: Number(data.promoDiscount || 0),
+        total: priced.subtotal,
+        tax: priced.tax,
+        taxInclusive: priced.taxInclusive,
+        discount: priced.discount,
+        voucherDiscount: priced.voucherDiscount,
+        promoDiscount: priced.promoDiscount,
+        tierDiscount: priced.tierDiscount,
         finalTotal: computedFinalTotal,
         paymentMethod: pm,
         status: isDelayed ? 'PENDING' : 'COMPLETED',
         paymentStatus: isDelayed ? 'PENDING' : 'PAID',
-        paidAt: isDelayed ? null : new Date(),
+        paidAt: isDelayed ? null : (replayPaidAt || new Date()),
         userId: Number(userId),
         customerName: data.customerName || null,
         customerPhone: data.customerPhone || null,
         customerEmail: data.customerEmail || null,
         memberId: data.memberId || null,
-        pointsUsed: Number(data.pointsUsed || 0),
+        pointsUsed: priced.pointsUsed,
+        pointsDiscount: priced.pointsDiscount,
+        pointsEarned: priced.pointsEarned,
         notes: data.notes || null,
         idempotencyKey: req.idempotencyKey || null
       })
 
+      for (const tender of tenders) {
+        await db.TransactionPayment.create({
+          transactionId: transaction.id,
+          method: tender.method,
+          amount: tender.amount,
+          reference: tender.reference,
+          status: isDelayed ? 'PENDING' : 'PAID',
+          paidAt: isDelayed ? null : transaction.paidAt
+        })
+      }
+
+      await recordApproval(discountApproval, {
+        transactionId: transaction.id,
+        details: { discount: priced.discount, subtotal: priced.subtotal }
+      })
+
       // Create items
-      for (const item of data.items) {
-        if (!item || !item.productId || !item.quantity || !item.price) continue
+      for (const line of priced.lines) {
         await db.TransactionItem.create({
           transactionId: transaction.id,
-          productId: item.productId,
-          quantity: Number(item.quantity),
-          price: Number(item.price),
-          subtotal: Number(item.price) * Number(item.quantity)
+          productId: line.productId,
+          variantId: line.variantId,
+          quantity: line.quantity,
+          price: line.price,
+          subtotal: line.subtotal,
+          taxRate: line.taxRate,
+          taxExempt: line.taxExempt,
+          taxableAmount: line.taxableAmount,
+          taxAmount: line.taxAmount
         })
       }
 
-      // Record voucher usage if present
-      if (data.voucherCode) {
+      // Record voucher usage if the voucher passed validation
+      if (priced.voucher) {
         try {
-          const voucher = await db.Voucher.findOne({ where: { code: data.voucherCode } })
-          if (voucher && voucher.id) {
-            await db.VoucherUsage.create({
-              voucherId: voucher.id,
-              transactionId: transaction.id,
-              userId: Number(userId),
-              memberId: data.memberId || null,
-              discountAmount: Number(data.voucherDiscount || 0)
-            })
-          }
+          await db.VoucherUsage.create({
+            voucherId: priced.voucher.id,
+            transactionId: transaction.id,
+            userId: Number(userId),
+            memberId: data.memberId || null,
+            discountAmount: priced.voucherDiscount
+          })
         } catch (e) {
           console.warn('[Express] Failed to record voucher usage:', e)
         }
@@ -315,14 +407,12 @@ router.post(
       // Update member points and total spent
       if (data.memberId) {
         try {
-          const pointsEarned = Math.floor(Number(transaction.finalTotal || 0) / 1000)
-          const pointsUsed = Number(data.pointsUsed || 0)
+          const pointsEarned = priced.pointsEarned
+          const pointsUsed = priced.pointsUsed
           await db.Member.increment(
             { points: pointsEarned - pointsUsed, totalSpent: Number(transaction.finalTotal || 0) },
             { where: { id: data.memberId } }
           )
-          // Persist pointsEarned to the transaction so API reflects actual value
-          await db.Transaction.update({ pointsEarned }, { where: { id: transaction.id } })
           if (pointsEarned > 0) {
             await db.PointHistory.create({
               memberId: data.memberId,
@@ -344,102 +434,53 @@ router.post(
         } catch (e) {
           console.warn('[Express] Failed to update member points:', e)
         }
+        await refreshTierAfterTransaction(data.memberId, transaction.id)
       }
 
       // Update product stock for completed transactions (skip certain payment methods)
-      const pm2 = String(data.paymentMethod || '')
-      const skipStockUpdate = ['VIRTUAL_ACCOUNT','BANK_TRANSFER','MIDTRANS','QRIS'].includes(pm2) || (pm2 === 'CARD' && data.requiresConfirmation === true)
-      if (!skipStockUpdate) {
+      if (!isDelayed) {
         try {
-          for (const item of data.items) {
-            if (!item || !item.productId || !item.quantity) continue
-            await db.Product.update({
-              stock: db.sequelize.literal(`stock - ${Number(item.quantity)}`)
-            }, { where: { id: item.productId } })
+          for (const line of priced.lines) {
+            await adjustItemStock(line, -line.quantity, { reason: 'SALE', referenceId: transaction.id, userId: req.user?.id })
           }
         } catch (e) {
           console.warn('[Express] Failed to update product stock:', e)
         }
       }
 
-      // Auto-send WhatsApp receipt for immediate payments if customer phone exists
-      try {
-        const shouldAutoSend = transaction && transaction.customerPhone && transaction.status === 'COMPLETED' && transaction.paymentStatus === 'PAID'
-        if (shouldAutoSend) {
-          // Run asynchronously to avoid blocking the response
-          setTimeout(async () => {
-            try {
-              const fullTransaction = await db.Transaction.findByPk(transaction.id, {
-                include: [
-                  { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
-                  { model: db.Member, as: 'member' },
-                  { model: db.User, as: 'user' },
-                ]
-              })
-              if (!fullTransaction) return
-
-              const receiptData = {
-                id: fullTransaction.id,
-                createdAt: fullTransaction.createdAt,
-                items: (fullTransaction.items || []).map((item) => ({
-                  id: item.id,
-                  name: (item.product && item.product.name) || 'Unknown Product',
-                  quantity: item.quantity,
-                  price: item.price,
-                  total: item.subtotal,
-                  productCode: item.product ? item.product.code : undefined,
-                  size: item.product ? item.product.size : undefined,
-                  color: item.product ? item.product.color : undefined,
-                })),
-                subtotal: (fullTransaction.items || []).reduce((sum, it) => sum + Number(it.subtotal || 0), 0),
-                tax: fullTransaction.tax,
-                finalTotal: fullTransaction.finalTotal,
-                paymentMethod: fullTransaction.paymentMethod,
-                status: fullTransaction.status,
-                cashier: undefined,
-                customer: fullTransaction.customerName || undefined,
-                customerPhone: fullTransaction.customerPhone || undefined,
-                customerEmail: fullTransaction.customerEmail || undefined,
-                pointsUsed: fullTransaction.pointsUsed,
-                pointsEarned: fullTransaction.pointsEarned,
-                voucherCode: undefined,
-                voucherDiscount: fullTransaction.voucherDiscount,
-                promotionDiscount: fullTransaction.promoDiscount,
-                member: fullTransaction.member ? {
-                  name: fullTransaction.member.name,
-                  phone: fullTransaction.member.phone || '',
-                  email: fullTransaction.member.email || undefined,
-                  points: fullTransaction.member.points
-                } : undefined,
-                user: fullTransaction.user ? { name: fullTransaction.user.name } : undefined,
-              }
-
-              const phoneValidation = ReceiptFormatter.validatePhoneNumber(fullTransaction.customerPhone || '')
-              const receiptMessage = ReceiptFormatter.formatReceiptForWhatsApp(receiptData)
-              if (phoneValidation.isValid) {
-                const wa = WhatsAppManager.getInstance()
-                if (!wa.isConnected()) {
-                  await wa.initialize()
-                  await new Promise((res) => setTimeout(res, 1000))
-                }
-                const result = await wa.sendMessage(phoneValidation.formatted || fullTransaction.customerPhone, receiptMessage)
-                if (result.success) {
-                  console.log(`[Transactions] WhatsApp receipt sent for transaction ${transaction.id}`)
-                } else {
-                  console.warn(`[Transactions] Failed to send WhatsApp receipt for transaction ${transaction.id}: ${result.error}`)
-                }
-              } else {
-                console.warn(`[Transactions] Invalid phone number for WhatsApp receipt: ${fullTransaction.customerPhone}`)
-              }
-            } catch (waErr) {
-              console.warn(`[Transactions] WhatsApp auto-send error for transaction ${transaction.id}:`, waErr)
-            }
-          }, 0)
+      // Offline sales were made against a stale catalog; report any product the
+      // replay pushed below zero so the cashier can reconcile stock
+      let stockConflicts = []
+      if (isOfflineReplay && !isDelayed) {
+        try {
+          const productIds = priced.lines.map((line) => line.productId)
+          const products = await db.Product.findAll({
+            where: { id: productIds, stock: { [Op.lt]: 0 } },
+            attributes: ['id', 'name', 'stock']
+          })
+          stockConflicts = products.map((p) => ({ productId: p.id, name: p.name, stock: Number(p.stock) }))
+          if (stockConflicts.length > 0) {
+            console.warn(`[Transactions] Offline replay ${transaction.id} left negative stock:`, stockConflicts)
+          }
+        } catch (e) {
+          console.warn('[Express] Failed to check stock conflicts:', e)
+        }
+      }
+
+      // Queue the WhatsApp receipt for immediate payments; the outbound
+      // queue sends it and retries while WhatsApp is unavailable
+      if (transaction && transaction.customerPhone && transaction.status === 'COMPLETED' && transaction.paymentStatus === 'PAID') {
+        try {
+          await queueReceipt(transaction.id)
+        } catch (queueErr) {
+          console.warn(`[Transactions] Failed to queue WhatsApp receipt for transaction ${transaction.id}:`, queueErr)
         }
-      } catch (waWrapperErr) {
-        console.warn('[Express] WhatsApp auto-send wrapper error:', waWrapperErr)
       }
 
+      if (isOfflineReplay) {
+        if (priceDiff) console.warn(`[Transactions] Offline replay ${transaction.id} was repriced:`, priceDiff)
+        return res.status(201).json({ ...transaction.toJSON(), offline: true, stockConflicts, priceConflicts: priceDiff })
+      }
       res.status(201).json(transaction)
     } catch (err) {
       console.error('[Express] Error creating transaction:', err)
@@ -452,15 +493,19 @@ router.post(
 )
 
 // Get transaction by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('transactions:read'), async (req, res) => {
   try {
     const { id } = req.params
     const tx = await db.Transaction.findByPk(id, {
       include: [
-        { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
+        { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }, { model: db.ProductVariant, as: 'variant' }] },
         { model: db.User, as: 'user', attributes: ['name','email'] },
         { model: db.Member, as: 'member', attributes: ['id','name','phone','email','points'] },
-        { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher', attributes: ['code','name'] }] }
+        { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher', attributes: ['code','name'] }] },
+        { model: db.Transaction, as: 'exchangeOf', attributes: ['id','finalTotal','createdAt'] },
+        { model: db.Transaction, as: 'exchanges', attributes: ['id','finalTotal','exchangeCredit','createdAt'] },
+        { model: db.TransactionPayment, as: 'payments', attributes: ['id','method','amount','reference','status','paidAt'] },
+        { model: db.ManagerApproval, as: 'approvals', attributes: ['id','action','createdAt'], include: [{ model: db.User, as: 'approver', attributes: ['id','name','role'] }] }
       ]
     })
     if (!tx) return res.status(404).json({ error: 'Transaction not found' })
@@ -471,10 +516,60 @@ router.get('/:id', authMiddleware, async (req, res) => {
   }
 })
 
+// Email the receipt (HTML with the PDF attached); body email is optional when
+// the transaction or its member already has an address
+router.post(
+  '/:id/send-receipt-email',
+  authMiddleware,
+  authorize('transactions:read'),
+  buildValidator({ location: 'body', schema: { email: { type: 'string', required: false } } }),
+  async (req, res) => {
+    try {
+      res.json(await sendReceiptEmail(req.params.id, req.body))
+    } catch (err) {
+      if (err?.status) return res.status(err.status).json({ error: err.message })
+      console.error('[Express] Error sending receipt email:', err)
+      res.status(500).json({ error: 'Failed to send receipt email' })
+    }
+  }
+)
+
+// Receipt and invoice as PDF downloads. The invoice number is issued on the
+// first invoice download and reused afterwards.
+router.get('/:id/receipt.pdf', authMiddleware, authorize('transactions:read'), async (req, res) => {
+  try {
+    const loaded = await loadReceipt(req.params.id)
+    if (!loaded) return res.status(404).json({ error: 'Transaction not found' })
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="struk-${loaded.transaction.id}.pdf"`)
+    res.send(renderReceiptPdf(loaded.receipt))
+  } catch (err) {
+    console.error('[Express] Error generating receipt PDF:', err)
+    res.status(500).json({ error: 'Failed to generate receipt PDF' })
+  }
+})
+
+router.get('/:id/invoice.pdf', authMiddleware, authorize('transactions:read'), async (req, res) => {
+  try {
+    const loaded = await loadReceipt(req.params.id)
+    if (!loaded) return res.status(404).json({ error: 'Transaction not found' })
+    const invoice = await issueInvoice(loaded.transaction, { userId: req.user?.id })
+    res.setHeader('Content-Type', 'application/pdf')
+    res.setHeader('Content-Disposition', `attachment; filename="invoice-${invoice.number}.pdf"`)
+    res.setHeader('X-Invoice-Number', invoice.number)
+    res.send(renderInvoicePdf(loaded.receipt, invoice))
+  } catch (err) {
+    if (err?.status) return res.status(err.status).json({ error: err.message })
+    console.error('[Express] Error generating invoice PDF:', err)
+    res.status(500).json({ error: 'Failed to generate invoice PDF' })
+  }
+})
+
 // Update transaction status/payment
 router.patch(
   '/:id',
   authMiddleware,
+  authorize('transactions:update'),
   buildValidator({
     location: 'body',
     schema: {
@@ -491,18 +586,36 @@ router.patch(
       if (!existing) return res.status(404).json({ error: 'Transaction not found' })
 
       const { status, paymentStatus } = req.body
+      // Cancelling, refunding or marking paid here skips the dedicated routes, not their approval
+      const approvalAction = status === 'CANCELLED' ? 'CANCEL'
+        : status === 'REFUNDED' || status === 'PARTIALLY_REFUNDED' ? 'REFUND'
+          : status === 'COMPLETED' || paymentStatus === 'PAID' ? 'MARK_PAID'
+            : null
+      let approval = null
+      if (approvalAction) {
+        try {
+          approval = await checkApproval(req, approvalAction, { transactionId: id })
+        } catch (err) {
+          if (err?.code === 'APPROVAL_REQUIRED') return res.status(403).json({ error: err.message, code: err.code, action: err.action })
+          throw err
+        }
+      }
       await db.Transaction.update({
         ...(status ? { status } : {}),
         ...(paymentStatus ? { paymentStatus } : {}),
         ...(status === 'COMPLETED' ? { paidAt: new Date() } : {})
       }, { where: { id } })
+      if (status === 'COMPLETED') await settlePayments(id, 'PAID')
+      if (status === 'FAILED' || status === 'CANCELLED') await settlePayments(id, status)
+      await recordApproval(approval, { transactionId: id })
 
       const updated = await db.Transaction.findByPk(id)
 
       // On completion, update member points
       if (updated.status === 'COMPLETED' && updated.memberId) {
         try {
-          const pointsEarned = Math.floor(Number(updated.finalTotal || 0) / 1000)
+          const items = await db.TransactionItem.findAll({ where: { transactionId: updated.id }, attributes: ['productId', 'subtotal'] })
+          const pointsEarned = await pointsForSale(items, updated.finalTotal, { memberId: updated.memberId })
           // Persist pointsEarned on completion
           await db.Transaction.update({ pointsEarned }, { where: { id: updated.id } })
           if (pointsEarned > 0) {
@@ -527,6 +640,7 @@ router.patch(
         } catch (e) {
           console.warn('[Express] Failed to update member data on completion:', e)
         }
+        await refreshTierAfterTransaction(updated.memberId, updated.id)
       }
 
       res.json(updated)
@@ -538,7 +652,7 @@ router.patch(
 )
 
 // Cancel transaction (revert stock and voucher usage if needed)
-router.post('/:id/cancel', authMiddleware, async (req, res) => {
+router.post('/:id/cancel', authMiddleware, authorize('transactions:cancel'), requireApproval('CANCEL'), async (req, res) => {
   try {
     const { id } = req.params
     const transaction = await db.Transaction.findByPk(id, {
@@ -558,6 +672,15 @@ router.post('/:id/cancel', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Only completed or pending transactions can be cancelled' })
     }
 
+    // Cancelling would leave the original sale's returned items unaccounted for
+    if (transaction.exchangeOfId) {
+      return res.status(400).json({ error: 'Exchange transactions cannot be cancelled; refund them instead' })
+    }
+    // Likewise a sale whose items were already exchanged; those units are back in stock
+    if (Number(transaction.exchangedAmount || 0) > 0) {
+      return res.status(400).json({ error: 'Transactions with exchanged items cannot be cancelled; refund them instead' })
+    }
+
     const reason = req.body && req.body.reason ? String(req.body.reason) : null
     const now = new Date()
     await db.sequelize.transaction(async (t) => {
@@ -565,15 +688,15 @@ router.post('/:id/cancel', authMiddleware, async (req, res) => {
       const notesArr = (() => {
         try { return Array.isArray(transaction.notes) ? transaction.notes : JSON.parse(transaction.notes || '[]') } catch { return [] }
       })()
-      notesArr.push({ type: 'CANCELLED', changedAt: now.toISOString(), reason })
+      notesArr.push({ type: 'CANCELLED', changedAt: now.toISOString(), reason, ...(req.approval ? { approvedBy: req.approval.approvedBy } : {}) })
       await db.Transaction.update({ status: 'CANCELLED', failureReason: reason, notes: JSON.stringify(notesArr), updatedAt: now }, { where: { id }, transaction: t })
+      await recordApproval(req.approval, { transactionId: id, details: { reason }, transaction: t })
+      await settlePayments(id, 'CANCELLED', { transaction: t })
 
       // Restore product stock only if transaction was completed
       if (transaction.status === 'COMPLETED') {
         for (const item of transaction.items || []) {
-          await db.Product.update({
-            stock: db.sequelize.literal(`stock + ${Number(item.quantity)}`)
-          }, { where: { id: item.productId }, transaction: t })
+          await adjustItemStock(item, Number(item.quantity), { transaction: t, reason: 'CANCEL', referenceId: id, userId: req.user?.id })
         }
       }
 
@@ -587,7 +710,8 @@ router.post('/:id/cancel', authMiddleware, async (req, res) => {
 
       // Adjust member points if applicable
       if (transaction.memberId) {
-        const pointsEarned = Math.floor(Number(transaction.finalTotal || 0) / 1000)
+        // What the sale actually credited, whatever the rules are now
+        const pointsEarned = Number(transaction.pointsEarned || 0)
         const pointsUsed = Number(transaction.pointsUsed || 0)
         // Deduct earned points, restore used points, and revert totalSpent
         await db.Member.increment({
@@ -615,6 +739,7 @@ router.post('/:id/cancel', authMiddleware, async (req, res) => {
       }
     })
 
+    await refreshTierAfterTransaction(transaction.memberId, transaction.id)
     const updated = await db.Transaction.findByPk(id)
     res.json({ message: 'Transaction cancelled successfully', transaction: updated })
   } catch (err) {
@@ -623,86 +748,227 @@ router.post('/:id/cancel', authMiddleware, async (req, res) => {
   }
 })
 
-// Refund transaction (only for completed; revert stock and voucher usage)
-router.post('/:id/refund', authMiddleware, async (req, res) => {
-  try {
-    const { id } = req.params
-    const transaction = await db.Transaction.findByPk(id, {
-      include: [
-        { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
-        { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher' }] }
-      ]
-    })
+// Refund transaction, fully or per line item.
+// Body: { refundRef?, items?: [{ transactionItemId, quantity }] }. Without items every
+// remaining unit is returned; see services/returns.js for how amounts are prorated.
+router.post(
+  '/:id/refund',
+  authMiddleware,
+  authorize('transactions:refund'),
+  requireApproval('REFUND'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      refundRef: { type: 'string', required: false },
+      items: { type: 'object', required: false }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { id } = req.params
+      const transaction = await db.Transaction.findByPk(id, {
+        include: [
+          { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
+          { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher' }] }
+        ]
+      })
 
-    if (!transaction) return res.status(404).json({ error: 'Transaction not found' })
+      if (!transaction) return res.status(404).json({ error: 'Transaction not found' })
+
+      if (!['COMPLETED', 'PARTIALLY_REFUNDED'].includes(String(transaction.status))) {
+        return res.status(400).json({ error: 'Only completed transactions can be refunded' })
+      }
 
-    if (transaction.status !== 'COMPLETED') {
-      return res.status(400).json({ error: 'Only completed transactions can be refunded' })
+      const items = transaction.items || []
+      const returns = resolveReturnLines(items, req.body?.items)
+      const share = prorateReturn(transaction, items, returns)
+      const refundRef = req.body && req.body.refundRef ? String(req.body.refundRef) : `RF-${id}`
+      await db.sequelize.transaction(async (t) => {
+        const note = req.approval ? { refundRef, approvedBy: req.approval.approvedBy } : { refundRef }
+        await applyReturn(transaction, returns, share, { transaction: t, userId: req.user?.id, note })
+        await recordApproval(req.approval, { transactionId: id, details: { refundRef, refundAmount: share.amount }, transaction: t })
+      })
+
+      await refreshTierAfterTransaction(transaction.memberId, transaction.id)
+      const updated = await db.Transaction.findByPk(id, { include: [{ model: db.TransactionItem, as: 'items' }] })
+      res.json({ message: 'Transaction refunded successfully', transaction: updated, refundAmount: share.amount })
+    } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
+      console.error('[Express] Error refunding transaction:', err)
+      res.status(500).json({ error: 'Internal server error' })
     }
+  }
+)
 
-    const refundRef = req.body && req.body.refundRef ? String(req.body.refundRef) : `RF-${id}`
-    const now2 = new Date()
-    await db.sequelize.transaction(async (t) => {
-      const notesArr = (() => {
-        try { return Array.isArray(transaction.notes) ? transaction.notes : JSON.parse(transaction.notes || '[]') } catch { return [] }
-      })()
-      notesArr.push({ type: 'REFUNDED', refundAt: now2.toISOString(), refundAmount: Number(transaction.finalTotal || 0), refundRef })
-      await db.Transaction.update({ status: 'REFUNDED', notes: JSON.stringify(notesArr), updatedAt: now2 }, { where: { id }, transaction: t })
+// Exchange: return items from a sale and sell replacements in one go.
+// Body: { returnItems: [{ transactionItemId, quantity }], newItems: [{ productId, variantId?, quantity, price? }],
+// paymentMethod? }. Replacements are sold at catalog prices; a client price is only compared
+// (409 PRICE_MISMATCH, as for sales). The returned items are credited at their prorated value (as a refund would)
+// and the customer only pays, or gets back, the difference. The new sale links to the original
+// via exchangeOfId and both stock movements are booked as EXCHANGE in one database transaction.
+router.post(
+  '/:id/exchange',
+  authMiddleware,
+  authorize('transactions:exchange'),
+  buildValidator({
+    location: 'body',
+    schema: {
+      returnItems: { type: 'object', required: true },
+      newItems: { type: 'object', required: true },
+      paymentMethod: { type: 'string', required: false, enum: ['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER'] }
+    }
+  }),
+  async (req, res) => {
+    try {
+      const { id } = req.params
+      const original = await db.Transaction.findByPk(id, {
+        include: [
+          { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
+          { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher' }] }
+        ]
+      })
+      if (!original) return res.status(404).json({ error: 'Transaction not found' })
+      if (!['COMPLETED', 'PARTIALLY_REFUNDED'].includes(String(original.status))) {
+        return res.status(400).json({ error: 'Only completed transactions can be exchanged' })
+      }
+      if (!Array.isArray(req.body.returnItems) || req.body.returnItems.length === 0) {
+        return res.status(400).json({ error: 'returnItems must be a non-empty array' })
+      }
+      if (!Array.isArray(req.body.newItems) || req.body.newItems.length === 0) {
+        return res.status(400).json({ error: 'newItems must be a non-empty array' })
+      }
 
-      // Restore product stock
-      for (const item of transaction.items || []) {
-        await db.Product.update({
-          stock: db.sequelize.literal(`stock + ${Number(item.quantity)}`)
-        }, { where: { id: item.productId }, transaction: t })
+      const userId = Number(req.user?.id)
+      const items = original.items || []
+      const returns = resolveReturnLines(items, req.body.returnItems)
+      const share = prorateReturn(original, items, returns)
+
+      // Price replacement lines from the catalog
+      const lines = []
+      for (const raw of req.body.newItems) {
+        const productId = raw && raw.productId ? String(raw.productId) : ''
+        const variantId = raw && raw.variantId ? String(raw.variantId) : null
+        const quantity = Number(raw?.quantity)
+        if (!productId) return res.status(400).json({ error: 'Each new item requires productId' })
+        if (!Number.isInteger(quantity) || quantity <= 0) return res.status(400).json({ error: 'New item quantity must be a positive integer' })
+        const product = await db.Product.findByPk(productId, { attributes: ['id', 'name', 'price'] })
+        if (!product) return res.status(400).json({ error: `Product ${productId} not found` })
+        let variant = null
+        if (variantId) {
+          variant = await db.ProductVariant.findOne({ where: { id: variantId, productId }, attributes: ['id', 'price'] })
+          if (!variant) return res.status(400).json({ error: `Variant ${variantId} does not belong to product ${productId}` })
+        }
+        const price = Number(variant?.price ?? product.price)
+        lines.push({ productId, variantId, name: product.name, quantity, price, subtotal: price * quantity })
       }
 
-      // Restore voucher usage if any
-      for (const usage of transaction.voucherUsages || []) {
-        await db.VoucherUsage.destroy({ where: { id: usage.id }, transaction: t })
-        await db.Voucher.update({
-          usedCount: db.sequelize.literal('usedCount - 1')
-        }, { where: { id: usage.voucherId }, transaction: t })
+      // Replacement goods are taxed like a sale without discounts
+      const taxed = await taxLines(lines)
+      const newSubtotal = lines.reduce((sum, l) => sum + l.subtotal, 0)
+      const newTotal = newSubtotal + (taxed.taxInclusive ? 0 : taxed.tax)
+      const priceDiff = diffPricing({ items: req.body.newItems }, { lines })
+      if (priceDiff) {
+        return res.status(409).json({
+          error: 'Prices changed; review the cart and retry',
+          code: 'PRICE_MISMATCH',
+          diff: priceDiff,
+          pricing: {
+            items: lines.map(({ productId, variantId, name, quantity, price, subtotal }) => ({ productId, variantId, name, quantity, price, subtotal })),
+            subtotal: newSubtotal,
+            tax: taxed.tax,
+            taxInclusive: taxed.taxInclusive,
+            total: newTotal
+          }
+        })
+      }
+      const credit = share.amount
+      const amountDue = Math.max(0, newTotal - credit)
+      const refundDue = Math.max(0, credit - newTotal)
+      // Handing back the difference is a refund and needs the same approval
+      let approval = null
+      if (refundDue > 0) {
+        try {
+          approval = await checkApproval(req, 'REFUND', { transactionId: id })
+        } catch (err) {
+          if (err?.code === 'APPROVAL_REQUIRED') return res.status(403).json({ error: err.message, code: err.code, action: err.action })
+          throw err
+        }
       }
+      const now = new Date()
 
-      // Adjust member points if applicable
-      if (transaction.memberId) {
-        const pointsEarned = Math.floor(Number(transaction.finalTotal || 0) / 1000)
-        const pointsUsed = Number(transaction.pointsUsed || 0)
-        await db.Member.increment({
-          points: -pointsEarned + (pointsUsed > 0 ? pointsUsed : 0),
-          totalSpent: -Number(transaction.finalTotal || 0)
-        }, { where: { id: transaction.memberId }, transaction: t })
-        if (pointsEarned > 0) {
-          await db.PointHistory.create({
-            memberId: transaction.memberId,
-            points: -pointsEarned,
-            type: 'ADJUSTED',
-            description: `Poin dikurangi karena pengembalian transaksi #${transaction.id}`,
-            transactionId: transaction.id
-          }, { transaction: t })
+      const exchange = await db.sequelize.transaction(async (t) => {
+        const sale = await db.Transaction.create({
+          total: newSubtotal,
+          tax: taxed.tax,
+          taxInclusive: taxed.taxInclusive,
+          finalTotal: newTotal,
+          exchangeCredit: credit,
+          exchangeOfId: original.id,
+          paymentMethod: String(req.body.paymentMethod || 'CASH'),
+          status: 'COMPLETED',
+          paymentStatus: 'PAID',
+          paidAt: now,
+          userId,
+          customerName: original.customerName,
+          customerPhone: original.customerPhone,
+          customerEmail: original.customerEmail,
+          memberId: original.memberId,
+          notes: JSON.stringify([{ type: 'EXCHANGE', changedAt: now.toISOString(), exchangeOfId: original.id, credit, amountDue, refundDue, ...(approval ? { approvedBy: approval.approvedBy } : {}) }])
+        }, { transaction: t })
+        await recordApproval(approval, { transactionId: sale.id, details: { exchangeOfId: original.id, refundDue }, transaction: t })
+        // Only the top-up is a tender; the credit was paid on the original sale
+        if (amountDue > 0) {
+          await db.TransactionPayment.create({ transactionId: sale.id, method: sale.paymentMethod, amount: amountDue, paidAt: now }, { transaction: t })
         }
-        if (pointsUsed > 0) {
-          await db.PointHistory.create({
-            memberId: transaction.memberId,
-            points: pointsUsed,
-            type: 'ADJUSTED',
-            description: `Poin dikembalikan karena pengembalian transaksi #${transaction.id}`,
-            transactionId: transaction.id
-          }, { transaction: t })
+
+        for (const line of taxed.lines) {
+          await db.TransactionItem.create({ transactionId: sale.id, ...line }, { transaction: t })
+          await adjustItemStock(line, -line.quantity, { transaction: t, reason: 'EXCHANGE', referenceId: sale.id, userId })
         }
-      }
-    })
 
-    const updated = await db.Transaction.findByPk(id)
-    res.json({ message: 'Transaction refunded successfully', transaction: updated })
-  } catch (err) {
-    console.error('[Express] Error refunding transaction:', err)
-    res.status(500).json({ error: 'Internal server error' })
+        await applyReturn(original, returns, share, {
+          transaction: t,
+          userId,
+          reason: 'EXCHANGE',
+          referenceId: sale.id,
+          label: 'penukaran',
+          note: { exchangeTransactionId: sale.id }
+        })
+
+        // The replacement goods earn points like any sale; the returned ones were reversed above
+        if (original.memberId) {
+          const pointsEarned = await pointsForSale(lines, newTotal, { memberId: original.memberId })
+          await db.Member.increment({ points: pointsEarned, totalSpent: newTotal }, { where: { id: original.memberId }, transaction: t })
+          await sale.update({ pointsEarned }, { transaction: t })
+          if (pointsEarned > 0) {
+            await db.PointHistory.create({
+              memberId: original.memberId,
+              points: pointsEarned,
+              type: 'EARNED',
+              description: `Poin dari transaksi #${sale.id}`,
+              transactionId: sale.id
+            }, { transaction: t })
+          }
+        }
+        return sale
+      })
+      await refreshTierAfterTransaction(original.memberId, exchange.id)
+
+      const [created, updatedOriginal] = await Promise.all([
+        db.Transaction.findByPk(exchange.id, { include: [{ model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] }] }),
+        db.Transaction.findByPk(original.id, { include: [{ model: db.TransactionItem, as: 'items' }] })
+      ])
+      res.status(201).json({ exchange: created, original: updatedOriginal, credit, amountDue, refundDue })
+    } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
+      console.error('[Express] Error exchanging transaction:', err)
+      res.status(500).json({ error: 'Internal server error' })
+    }
   }
-})
+)
 
 // Mark pending transaction as paid
-router.post('/:id/mark-paid', authMiddleware, async (req, res) => {
+router.post('/:id/mark-paid', authMiddleware, authorize('transactions:mark-paid'), requireApproval('MARK_PAID'), async (req, res) => {
   try {
     const { id } = req.params
     
@@ -738,7 +1004,8 @@ router.post('/:id/mark-paid', authMiddleware, async (req, res) => {
         changedAt: now.toISOString(), 
         from: 'PENDING', 
         to: 'COMPLETED',
-        reason: 'Manual payment acceptance'
+        reason: 'Manual payment acceptance',
+        ...(req.approval ? { approvedBy: req.approval.approvedBy } : {})
       })
       
       await db.Transaction.update({ 
@@ -749,18 +1016,20 @@ router.post('/:id/mark-paid', authMiddleware, async (req, res) => {
         where: { id }, 
         transaction: t 
       })
+      await settlePayments(id, 'PAID', { transaction: t })
+      await recordApproval(req.approval, { transactionId: id, transaction: t })
 
       // Reduce product stock for completed transaction
       for (const item of transaction.items || []) {
-        await db.Product.update({
-          stock: db.sequelize.literal(`stock - ${Number(item.quantity)}`)
-        }, { where: { id: item.productId }, transaction: t })
+        await adjustItemStock(item, -Number(item.quantity), { transaction: t, reason: 'SALE', referenceId: id, userId: req.user?.id })
       }
 
       // Handle member points if applicable
       if (transaction.memberId) {
-        const pointsEarned = Math.floor(Number(transaction.finalTotal || 0) / 1000)
+        const pointsEarned = await pointsForSale(transaction.items || [], transaction.finalTotal, { memberId: transaction.memberId })
         const pointsUsed = Number(transaction.pointsUsed || 0)
+        // Refunds and cancels reverse what was stored here
+        await db.Transaction.update({ pointsEarned }, { where: { id }, transaction: t })
         
         if (pointsEarned > 0 || pointsUsed > 0) {
           await db.Member.increment({
@@ -791,6 +1060,8 @@ router.post('/:id/mark-paid', authMiddleware, async (req, res) => {
       }
     })
 
+    await refreshTierAfterTransaction(transaction.memberId, transaction.id)
+
     const updated = await db.Transaction.findByPk(id, {
       include: [
         { model: db.User, as: 'user', attributes: ['id', 'name'] },
@@ -1,23 +1,35 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
 const { Op } = require('sequelize')
+const { isValidPin, hashPin } = require('../../services/approvals')
 
 const router = Router()
 
 // Helpers
-function requireAdmin(req, res) {
-  const role = req.user?.role
-  if (role !== 'ADMIN') {
-    res.status(403).json({ error: 'Forbidden: admin role required' })
-    return false
+// Plain user without secrets; the approval PIN is only reported as set or not
+function sanitize(user) {
+  const plain = user.get({ plain: true })
+  const { password: _password, approvalPin, ...rest } = plain
+  return { ...rest, hasApprovalPin: Boolean(approvalPin) }
+}
+
+// Approval PIN from a create/update body: undefined to leave as is, null to clear
+async function approvalPinUpdate(body) {
+  if (!Object.prototype.hasOwnProperty.call(body, 'approvalPin')) return undefined
+  if (body.approvalPin === null || body.approvalPin === '') return null
+  if (!isValidPin(body.approvalPin)) {
+    const err = new Error('Approval PIN must be 4-6 digits')
+    err.status = 400
+    throw err
   }
-  return true
+  return hashPin(body.approvalPin)
 }
 
 // List users (exclude password)
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('users:read'), async (req, res) => {
   try {
     const { q, role } = req.query
     const where = {}
@@ -31,7 +43,7 @@ router.get('/', authMiddleware, async (req, res) => {
 
     const users = await db.User.findAll({
       where,
-      attributes: { exclude: ['password'] },
+      attributes: { exclude: ['password', 'approvalPin'] },
       order: [['createdAt', 'DESC']],
       limit: 500
     })
@@ -43,13 +55,13 @@ router.get('/', authMiddleware, async (req, res) => {
   }
 })
 
-// Get user by id (exclude password)
-router.get('/:id', authMiddleware, async (req, res) => {
+// Get user by id (exclude password and approval PIN)
+router.get('/:id', authMiddleware, authorize('users:read'), async (req, res) => {
   try {
     const { id } = req.params
     const user = await db.User.findByPk(id, { attributes: { exclude: ['password'] } })
     if (!user) return res.status(404).json({ error: 'User not found' })
-    res.json(user)
+    res.json(sanitize(user))
   } catch (err) {
     console.error('[Express] Error fetching user:', err)
     if (process.env.NODE_ENV === 'test') return res.status(404).json({ error: 'User not found' })
@@ -61,18 +73,19 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('users:write'),
   buildValidator({
     location: 'body',
     schema: {
       email: { type: 'string', required: true },
       password: { type: 'string', required: true },
       name: { type: 'string', required: true },
-      role: { type: 'string', required: false }
+      role: { type: 'string', required: false },
+      approvalPin: { type: 'string', required: false }
     }
   }),
   async (req, res) => {
     try {
-      if (!requireAdmin(req, res)) return
       const { email, password, name } = req.body
       const role = String(req.body.role || 'CASHIER').toUpperCase()
 
@@ -84,11 +97,11 @@ router.post(
       const existing = await db.User.findOne({ where: { email } })
       if (existing) return res.status(409).json({ error: 'Email already in use' })
 
-      const created = await db.User.create({ email, password, name, role })
-      const sanitized = created.get({ plain: true })
-      delete sanitized.password
-      res.status(201).json(sanitized)
+      const approvalPin = await approvalPinUpdate(req.body)
+      const created = await db.User.create({ email, password, name, role, approvalPin: approvalPin || null })
+      res.status(201).json(sanitize(created))
     } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
       console.error('[Express] Error creating user:', err)
       res.status(500).json({ error: 'Failed to create user' })
     }
@@ -99,18 +112,19 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('users:write'),
   buildValidator({
     location: 'body',
     schema: {
       email: { type: 'string', required: false },
       password: { type: 'string', required: false },
       name: { type: 'string', required: false },
-      role: { type: 'string', required: false }
+      role: { type: 'string', required: false },
+      approvalPin: { type: 'string', required: false }
     }
   }),
   async (req, res) => {
     try {
-      if (!requireAdmin(req, res)) return
       const { id } = req.params
       const existing = await db.User.findByPk(id)
       if (!existing) return res.status(404).json({ error: 'User not found' })
@@ -127,11 +141,14 @@ router.put(
         }
         updates.role = role
       }
+      const approvalPin = await approvalPinUpdate(data)
+      if (approvalPin !== undefined) updates.approvalPin = approvalPin
 
       await db.User.update(updates, { where: { id } })
       const updated = await db.User.findByPk(id, { attributes: { exclude: ['password'] } })
-      res.json(updated)
+      res.json(sanitize(updated))
     } catch (err) {
+      if (err?.status === 400) return res.status(400).json({ error: err.message })
       console.error('[Express] Error updating user:', err)
       res.status(500).json({ error: 'Failed to update user' })
     }
@@ -139,9 +156,8 @@ router.put(
 )
 
 // Delete user (admin only)
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('users:write'), async (req, res) => {
   try {
-    if (!requireAdmin(req, res)) return
     const { id } = req.params
     const existing = await db.User.findByPk(id)
     if (!existing) return res.status(404).json({ error: 'User not found' })
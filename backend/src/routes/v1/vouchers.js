@@ -1,8 +1,11 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const { buildValidator } = require('../../middleware/validate')
 const db = require('../../../../models')
-const { Op } = require('sequelize')
+const { checkVoucher } = require('../../services/pricing')
+const { resolveMinTierId } = require('../../services/memberTiers')
+const { resolveSegmentId } = require('../../services/memberSegments')
 
 const router = Router()
 
@@ -25,6 +28,27 @@ async function ensureVoucherColumns() {
         console.warn('[Express] vouchers: sync(alter) failed:', syncErr?.message || syncErr)
       }
     }
+    if (!table.minTierId) {
+      await qi.addColumn('vouchers', 'minTierId', {
+        type: db.Sequelize.INTEGER,
+        allowNull: true
+      })
+      console.log('[Express] vouchers: added column minTierId')
+    }
+    if (!table.memberId) {
+      await qi.addColumn('vouchers', 'memberId', {
+        type: db.Sequelize.INTEGER,
+        allowNull: true
+      })
+      console.log('[Express] vouchers: added column memberId')
+    }
+    if (!table.segmentId) {
+      await qi.addColumn('vouchers', 'segmentId', {
+        type: db.Sequelize.INTEGER,
+        allowNull: true
+      })
+      console.log('[Express] vouchers: added column segmentId')
+    }
   } catch (err) {
     console.warn('[Express] Failed to ensure vouchers schema:', err?.message || err)
     // Last-resort: attempt to align schema even if describeTable fails
@@ -43,7 +67,7 @@ async function getVoucherSafeAttributes() {
     const table = await db.sequelize.getQueryInterface().describeTable('vouchers')
     const cols = Object.keys(table || {})
     const base = [
-      'id','code','name','description','type','value','minPurchase','maxDiscount','maxUses','usedCount','startDate','endDate','isActive','createdAt','updatedAt'
+      'id','code','name','description','type','value','minPurchase','maxDiscount','maxUses','usedCount','startDate','endDate','minTierId','memberId','segmentId','isActive','createdAt','updatedAt'
     ]
     const hasMaxUsesPerUser = cols.includes('maxUsesPerUser')
     if (hasMaxUsesPerUser) base.push('maxUsesPerUser')
@@ -52,7 +76,7 @@ async function getVoucherSafeAttributes() {
     // If describeTable fails, fall back to a safe base without the new column
     return {
       attributes: [
-        'id','code','name','description','type','value','minPurchase','maxDiscount','maxUses','usedCount','startDate','endDate','isActive','createdAt','updatedAt'
+        'id','code','name','description','type','value','minPurchase','maxDiscount','maxUses','usedCount','startDate','endDate','minTierId','memberId','segmentId','isActive','createdAt','updatedAt'
       ],
       hasMaxUsesPerUser: false
     }
@@ -60,15 +84,26 @@ async function getVoucherSafeAttributes() {
 }
 
 // List vouchers (filter by active and date range)
-router.get('/', authMiddleware, async (req, res) => {
+router.get('/', authMiddleware, authorize('vouchers:read'), async (req, res) => {
   try {
     await ensureVoucherColumns()
-    const { active } = req.query
+    const { active, personal } = req.query
     const where = {}
     if (active !== undefined) where.isActive = String(active) === 'true'
+    // Personal vouchers (birthday/anniversary rewards) only with ?personal=true
+    where.memberId = String(personal) === 'true' ? { [db.Sequelize.Op.ne]: null } : null
     // Use safe attributes helper to include maxUsesPerUser only if it exists
     const { attributes } = await getVoucherSafeAttributes()
-    const vouchers = await db.Voucher.findAll({ where, attributes, order: [['createdAt', 'DESC']], limit: 200 })
+    const vouchers = await db.Voucher.findAll({
+      where,
+      attributes,
+      include: [
+        { model: db.Member, as: 'member', attributes: ['id', 'name', 'phone'] },
+        { model: db.MemberSegment, as: 'segment', attributes: ['id', 'name', 'color'] }
+      ],
+      order: [['createdAt', 'DESC']],
+      limit: 200
+    })
     res.json({ count: vouchers.length, vouchers })
   } catch (err) {
     console.error('[Express] Error listing vouchers:', err)
@@ -78,7 +113,7 @@ router.get('/', authMiddleware, async (req, res) => {
 })
 
 // Validate voucher
-router.post('/validate', authMiddleware, async (req, res) => {
+router.post('/validate', authMiddleware, authorize('vouchers:read'), async (req, res) => {
   try {
     await ensureVoucherColumns()
     const { code, subtotal, userId, memberId } = req.body || {}
@@ -86,72 +121,16 @@ router.post('/validate', authMiddleware, async (req, res) => {
       return res.status(400).json({ error: 'Voucher code and subtotal are required', valid: false })
     }
 
-    // Find voucher by code (case-insensitive)
-    const voucher = await db.Voucher.findOne({
-      where: (db.sequelize).where(
-        (db.sequelize).fn('LOWER', (db.sequelize).col('code')),
-        String(code).toLowerCase()
-      ),
-      attributes: [
-        'id','code','name','type','value','minPurchase','maxDiscount','maxUses','usedCount','startDate','endDate','isActive'
-      ],
-      include: [
-        {
-          model: db.VoucherUsage,
-          as: 'usages',
-          where: (userId || memberId) ? { [Op.or]: [ { userId: userId || null }, { memberId: memberId || null } ] } : undefined,
-          required: false
-        }
-      ]
-    })
-
-    if (!voucher) {
-      return res.status(404).json({ error: 'Voucher not found', valid: false })
-    }
-
-    if (!voucher.isActive) {
-      return res.status(400).json({ error: 'Voucher is not active', valid: false })
-    }
-
-    const now = new Date()
-    if (now < voucher.startDate || now > voucher.endDate) {
-      return res.status(400).json({ error: 'Voucher is expired or not yet valid', valid: false })
-    }
-
-    const subtotalNum = Number(subtotal)
-    if (voucher.minPurchase && subtotalNum < voucher.minPurchase) {
-      return res.status(400).json({ error: `Minimum purchase of ${voucher.minPurchase} required`, valid: false, minPurchase: voucher.minPurchase })
-    }
-
-    if (voucher.maxUses && Number(voucher.usedCount || 0) >= voucher.maxUses) {
-      return res.status(400).json({ error: 'Voucher usage limit exceeded', valid: false })
-    }
-
-    // Simple per-user/member usage limit: one-time usage
-    if (Array.isArray((voucher).usages) && (userId || memberId)) {
-      const userUsageCount = (voucher).usages.length
-      const perUserLimit = Number(voucher.maxUsesPerUser || 0)
-      if (perUserLimit > 0 && userUsageCount >= perUserLimit) {
-        return res.status(400).json({ error: 'Personal usage limit exceeded', valid: false, perUserLimit })
-      }
-    }
-
-    // Calculate discount (normalized lowercase types)
-    let discountAmount = 0
-    const t = String(voucher.type || '').toLowerCase()
-    if (t === 'percentage') {
-      discountAmount = (subtotalNum * Number(voucher.value)) / 100
-      if (voucher.maxDiscount && discountAmount > voucher.maxDiscount) {
-        discountAmount = voucher.maxDiscount
+    let checked
+    try {
+      checked = await checkVoucher({ code, subtotal, userId, memberId })
+    } catch (err) {
+      if (err?.status === 400 || err?.status === 404) {
+        return res.status(err.status).json({ error: err.message, valid: false, ...err.details })
       }
-    } else if (t === 'fixed') {
-      discountAmount = Math.min(Number(voucher.value), subtotalNum)
-    } else if (t === 'free_shipping') {
-      discountAmount = Number(voucher.value)
+      throw err
     }
-
-    // IDR uses 0 fraction digits; round to nearest integer rupiah
-    const rounded = Math.round(discountAmount)
+    const { voucher, discountAmount } = checked
     return res.json({
       valid: true,
       voucher: {
@@ -163,9 +142,12 @@ router.post('/validate', authMiddleware, async (req, res) => {
         maxDiscount: voucher.maxDiscount,
         maxUses: voucher.maxUses,
         usedCount: voucher.usedCount,
-        maxUsesPerUser: voucher.maxUsesPerUser
+        maxUsesPerUser: voucher.maxUsesPerUser,
+        minTierId: voucher.minTierId,
+        memberId: voucher.memberId,
+        segmentId: voucher.segmentId
       },
-      discountAmount: rounded
+      discountAmount
     })
   } catch (err) {
     console.error('[Express] Error validating voucher:', err)
@@ -174,7 +156,7 @@ router.post('/validate', authMiddleware, async (req, res) => {
 })
 
 // Get voucher by id
-router.get('/:id', authMiddleware, async (req, res) => {
+router.get('/:id', authMiddleware, authorize('vouchers:read'), async (req, res) => {
   try {
     const { id } = req.params
     // Ensure schema and select only safe attributes
@@ -194,6 +176,7 @@ router.get('/:id', authMiddleware, async (req, res) => {
 router.post(
   '/',
   authMiddleware,
+  authorize('vouchers:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -206,7 +189,9 @@ router.post(
       minPurchase: { type: 'number', required: false },
       maxDiscount: { type: 'number', required: false },
       maxUses: { type: 'number', required: false },
-      maxUsesPerUser: { type: 'number', required: false }
+      maxUsesPerUser: { type: 'number', required: false },
+      minTierId: { type: 'number', required: false },
+      segmentId: { type: 'number', required: false }
     }
   }),
   async (req, res) => {
@@ -225,6 +210,8 @@ router.post(
       if (data.maxUsesPerUser !== undefined && Number(data.maxUsesPerUser) < 1) {
         return res.status(400).json({ error: 'maxUsesPerUser must be >= 1' })
       }
+      const minTierId = await resolveMinTierId(data.minTierId)
+      const segmentId = await resolveSegmentId(data.segmentId)
       const payload = {
         code: data.code,
         name: data.name,
@@ -235,6 +222,8 @@ router.post(
         minPurchase: data.minPurchase ? Number(data.minPurchase) : null,
         maxDiscount: data.maxDiscount ? Number(data.maxDiscount) : null,
         maxUses: data.maxUses ? Number(data.maxUses) : null,
+        minTierId: minTierId ?? null,
+        segmentId: segmentId ?? null,
         isActive: true
       }
       if (hasMaxUsesPerUser) {
@@ -255,6 +244,7 @@ router.post(
       console.log('[Express] Voucher created:', { id: created?.id, code: created?.code, maxUsesPerUser: created?.maxUsesPerUser })
       res.status(201).json(created)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error creating voucher:', err)
       res.status(500).json({ error: 'Failed to create voucher' })
     }
@@ -265,6 +255,7 @@ router.post(
 router.put(
   '/:id',
   authMiddleware,
+  authorize('vouchers:write'),
   buildValidator({
     location: 'body',
     schema: {
@@ -278,6 +269,8 @@ router.put(
       maxDiscount: { type: 'number', required: false },
       maxUses: { type: 'number', required: false },
       maxUsesPerUser: { type: 'number', required: false },
+      minTierId: { type: 'number', required: false },
+      segmentId: { type: 'number', required: false },
       description: { type: 'string', required: false }
     }
   }),
@@ -300,6 +293,8 @@ router.put(
       if (data.maxUsesPerUser !== undefined && Number(data.maxUsesPerUser) < 1) {
         return res.status(400).json({ error: 'maxUsesPerUser must be >= 1' })
       }
+      const minTierId = await resolveMinTierId(data.minTierId)
+      const segmentId = await resolveSegmentId(data.segmentId)
       const updatePayload = {
         name: data.name,
         type: data.type,
@@ -310,6 +305,8 @@ router.put(
         minPurchase: data.minPurchase !== undefined ? (data.minPurchase === null ? null : Number(data.minPurchase)) : existing.minPurchase,
         maxDiscount: data.maxDiscount !== undefined ? (data.maxDiscount === null ? null : Number(data.maxDiscount)) : existing.maxDiscount,
         maxUses: data.maxUses !== undefined ? (data.maxUses === null ? null : Number(data.maxUses)) : existing.maxUses,
+        minTierId: minTierId !== undefined ? minTierId : existing.minTierId,
+        segmentId: segmentId !== undefined ? segmentId : existing.segmentId,
         description: data.description !== undefined ? data.description : existing.description
       }
       if (hasMaxUsesPerUser) {
@@ -322,6 +319,7 @@ router.put(
       console.log('[Express] Voucher updated:', { id: updated.id, code: updated.code, maxUsesPerUser: updated.maxUsesPerUser })
       res.json(updated)
     } catch (err) {
+      if (err.status) return res.status(err.status).json({ error: err.message })
       console.error('[Express] Error updating voucher:', err)
       res.status(500).json({ error: 'Failed to update voucher' })
     }
@@ -329,7 +327,7 @@ router.put(
 )
 
 // Delete voucher
-router.delete('/:id', authMiddleware, async (req, res) => {
+router.delete('/:id', authMiddleware, authorize('vouchers:write'), async (req, res) => {
   try {
     const { id } = req.params
     await ensureVoucherColumns()
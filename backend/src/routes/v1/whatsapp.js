@@ -1,21 +1,14 @@
 const { Router } = require('express')
 const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
 const WhatsAppManager = require('../../services/whatsappManager')
 const ReceiptFormatter = require('../../services/receiptFormatter')
 const db = require('../../../../models')
 
 const router = Router()
 
-function requireAdmin(req, res) {
-  if (!req.user) return res.status(401).json({ error: 'Unauthorized' })
-  if (req.user.role !== 'ADMIN') return res.status(403).json({ error: 'Forbidden - Admin access required' })
-  return null
-}
-
 // Connection status (GET), initialize connection (POST), disconnect (DELETE)
-router.get('/connection', authMiddleware, async (req, res) => {
-  const denied = requireAdmin(req, res)
-  if (denied) return
+router.get('/connection', authMiddleware, authorize('whatsapp:manage'), async (req, res) => {
   try {
     const manager = WhatsAppManager.getInstance()
     const status = manager.getConnectionStatus()
@@ -26,9 +19,7 @@ router.get('/connection', authMiddleware, async (req, res) => {
   }
 })
 
-router.post('/connection', authMiddleware, async (req, res) => {
-  const denied = requireAdmin(req, res)
-  if (denied) return
+router.post('/connection', authMiddleware, authorize('whatsapp:manage'), async (req, res) => {
   try {
     const manager = WhatsAppManager.getInstance()
     await manager.initialize()
@@ -40,9 +31,7 @@ router.post('/connection', authMiddleware, async (req, res) => {
   }
 })
 
-router.delete('/connection', authMiddleware, async (req, res) => {
-  const denied = requireAdmin(req, res)
-  if (denied) return
+router.delete('/connection', authMiddleware, authorize('whatsapp:manage'), async (req, res) => {
   try {
     const manager = WhatsAppManager.getInstance()
     await manager.disconnect()
@@ -54,9 +43,7 @@ router.delete('/connection', authMiddleware, async (req, res) => {
 })
 
 // Logout (disconnect and remove session files)
-router.post('/logout', authMiddleware, async (req, res) => {
-  const denied = requireAdmin(req, res)
-  if (denied) return
+router.post('/logout', authMiddleware, authorize('whatsapp:manage'), async (req, res) => {
   try {
     const manager = WhatsAppManager.getInstance()
     await manager.logout()
@@ -68,7 +55,7 @@ router.post('/logout', authMiddleware, async (req, res) => {
 })
 
 // Send transaction receipt via WhatsApp
-router.post('/send-receipt', authMiddleware, async (req, res) => {
+router.post('/send-receipt', authMiddleware, authorize('whatsapp:send'), async (req, res) => {
   try {
     const { transactionId, phoneNumber, receiptType = 'detailed' } = req.body || {}
     if (!transactionId || !phoneNumber) {
@@ -82,7 +69,7 @@ router.post('/send-receipt', authMiddleware, async (req, res) => {
 
     const transaction = await db.Transaction.findByPk(transactionId, {
       include: [
-        { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }] },
+        { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }, { model: db.ProductVariant, as: 'variant' }] },
         { model: db.Member, as: 'member' },
         { model: db.User, as: 'user' },
         { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher' }] },
@@ -128,12 +115,15 @@ router.post('/send-receipt', authMiddleware, async (req, res) => {
         quantity: item.quantity,
         price: item.price,
         total: item.subtotal,
-        productCode: item.product ? item.product.code : undefined,
-        size: item.product ? item.product.size : undefined,
-        color: item.product ? item.product.color : undefined,
+        taxRate: item.taxRate,
+        taxAmount: item.taxAmount,
+        productCode: item.variant ? item.variant.productCode : (item.product ? item.product.code : undefined),
+        size: item.variant ? item.variant.size : (item.product ? item.product.size : undefined),
+        color: item.variant ? item.variant.color : (item.product ? item.product.color : undefined),
       })),
       subtotal: (transaction.items || []).reduce((sum, it) => sum + Number(it.subtotal || 0), 0),
       tax: transaction.tax,
+      taxInclusive: transaction.taxInclusive,
       finalTotal: transaction.finalTotal,
       paymentMethod: transaction.paymentMethod,
       status: transaction.status,
@@ -142,10 +132,12 @@ router.post('/send-receipt', authMiddleware, async (req, res) => {
       customerPhone: transaction.customerPhone || undefined,
       customerEmail: transaction.customerEmail || undefined,
       pointsUsed: transaction.pointsUsed,
+      pointsDiscount: transaction.pointsDiscount,
       pointsEarned: transaction.pointsEarned,
       voucherCode: voucherCode,
       voucherDiscount: transaction.voucherDiscount,
       promotionDiscount: transaction.promoDiscount,
+      tierDiscount: transaction.tierDiscount,
       member: transaction.member ? { name: transaction.member.name, phone: transaction.member.phone || '', email: transaction.member.email || undefined, points: transaction.member.points } : undefined,
       user: transaction.user ? { name: transaction.user.name } : undefined,
     }
@@ -201,7 +193,7 @@ router.post('/send-receipt', authMiddleware, async (req, res) => {
 })
 
 // Send cashier shift closure summary via WhatsApp
-router.post('/send-closure-summary', authMiddleware, async (req, res) => {
+router.post('/send-closure-summary', authMiddleware, authorize('whatsapp:send'), async (req, res) => {
   try {
     const { phoneNumber, report } = req.body || {}
     if (!phoneNumber || !report) {
@@ -244,6 +236,7 @@ router.post('/send-closure-summary', authMiddleware, async (req, res) => {
       lines.push(`- Menunggu: ${sc?.PENDING || 0}`)
       lines.push(`- Dibatalkan: ${sc?.CANCELLED || 0}`)
       lines.push(`- Dikembalikan: ${sc?.REFUNDED || 0}`)
+      lines.push(`- Dikembalikan Sebagian: ${sc?.PARTIALLY_REFUNDED || 0}`)
       lines.push('')
       lines.push('*Diskon & Pajak*')
       const dt = rpt?.discountTotals || {}
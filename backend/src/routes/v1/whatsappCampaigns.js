@@ -0,0 +1,109 @@
+const { Router } = require('express')
+const { authMiddleware } = require('../../middleware/auth')
+const { authorize } = require('../../middleware/authorize')
+const { buildValidator } = require('../../middleware/validate')
+const campaigns = require('../../services/whatsappCampaigns')
+
+const router = Router()
+
+// WhatsApp broadcast campaigns; sending happens in services/whatsappCampaigns.js
+
+const sendError = (res, err, fallback) => {
+  if (err?.status) return res.status(err.status).json({ error: err.message })
+  console.error(`[Express] ${fallback}:`, err)
+  return res.status(500).json({ error: fallback })
+}
+
+const campaignSchema = (required) => ({
+  name: { type: 'string', required },
+  template: { type: 'string', required },
+  audience: { type: 'object', required: false }
+})
+
+router.get('/', authMiddleware, authorize('campaigns:manage'), async (_req, res) => {
+  try {
+    res.json({ placeholders: Object.keys(campaigns.PLACEHOLDERS), campaigns: await campaigns.listCampaigns() })
+  } catch (err) {
+    sendError(res, err, 'Failed to list campaigns')
+  }
+})
+
+router.post(
+  '/',
+  authMiddleware,
+  authorize('campaigns:manage'),
+  buildValidator({ location: 'body', schema: campaignSchema(true) }),
+  async (req, res) => {
+    try {
+      res.status(201).json({ campaign: await campaigns.createCampaign(req.body, { userId: req.user?.id }) })
+    } catch (err) {
+      sendError(res, err, 'Failed to create campaign')
+    }
+  }
+)
+
+// Recipients and rendered sample messages, without saving
+router.post(
+  '/preview',
+  authMiddleware,
+  authorize('campaigns:manage'),
+  buildValidator({ location: 'body', schema: { template: { type: 'string', required: true }, audience: { type: 'object', required: false } } }),
+  async (req, res) => {
+    try {
+      res.json(await campaigns.previewCampaign(req.body))
+    } catch (err) {
+      sendError(res, err, 'Failed to preview campaign')
+    }
+  }
+)
+
+router.get('/:id', authMiddleware, authorize('campaigns:manage'), async (req, res) => {
+  try {
+    res.json(await campaigns.getCampaign(req.params.id, req.query))
+  } catch (err) {
+    sendError(res, err, 'Failed to fetch campaign')
+  }
+})
+
+router.put(
+  '/:id',
+  authMiddleware,
+  authorize('campaigns:manage'),
+  buildValidator({ location: 'body', schema: campaignSchema(false) }),
+  async (req, res) => {
+    try {
+      res.json({ campaign: await campaigns.updateCampaign(req.params.id, req.body) })
+    } catch (err) {
+      sendError(res, err, 'Failed to update campaign')
+    }
+  }
+)
+
+router.delete('/:id', authMiddleware, authorize('campaigns:manage'), async (req, res) => {
+  try {
+    await campaigns.deleteCampaign(req.params.id)
+    res.json({ message: 'Campaign deleted' })
+  } catch (err) {
+    sendError(res, err, 'Failed to delete campaign')
+  }
+})
+
+const ACTIONS = {
+  start: campaigns.startCampaign,
+  pause: campaigns.pauseCampaign,
+  resume: campaigns.resumeCampaign,
+  cancel: campaigns.cancelCampaign,
+  'retry-failed': campaigns.retryFailed
+}
+
+for (const [action, run] of Object.entries(ACTIONS)) {
+  router.post(`/:id/${action}`, authMiddleware, authorize('campaigns:manage'), async (req, res) => {
+    try {
+      res.json({ campaign: await run(req.params.id) })
+    } catch (err) {
+      sendError(res, err, `Failed to ${action.replace('-', ' ')} campaign`)
+    }
+  })
+}
+
+module.exports = router
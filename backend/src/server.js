@@ -12,6 +12,7 @@ const fetch = IS_TEST ? null : nativeFetch
 const { authMiddleware } = require('./middleware/auth')
 const { errorHandler, notFoundHandler } = require('./middleware/error')
 const { requestLogger } = require('./middleware/logger')
+const { auditContext } = require('./services/audit')
 
 const v1Routes = require('./routes/v1')
 
@@ -57,6 +58,8 @@ function buildApp () {
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+    // Lets the frontend name downloaded files (e.g. invoice-INV-2026-000001.pdf)
+    exposedHeaders: ['Content-Disposition', 'X-Invoice-Number'],
     // Do not hardcode allowed headers; let the cors middleware reflect
     // the browser's Access-Control-Request-Headers to avoid preflight
     // failures when clients send additional headers like Cache-Control
@@ -66,6 +69,7 @@ function buildApp () {
   app.use(express.json({ limit: '6mb' }))
   app.use(express.urlencoded({ extended: true, limit: '6mb' }))
   app.use(requestLogger)
+  app.use(auditContext)
   if (morgan) app.use(morgan('tiny'))
 
   // Disable ETag and caching in development to avoid 304 Not Modified for API responses
@@ -122,6 +126,7 @@ function buildApp () {
         console.log(`[Express] Backend listening on port ${PORT} at ${API_PREFIX}/${API_VERSION}`)
         console.log(`[Express] Fallback proxy: DISABLED`)
       })
+      require('./services/scheduler').startScheduledJobs()
     }
     start()
   }
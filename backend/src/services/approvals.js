@@ -0,0 +1,200 @@
+// Manager approval for sensitive cashier actions. A MANAGER or ADMIN enters
+// their PIN (or password) on the cashier's screen, POST /approvals exchanges it
+// for a short-lived token bound to the action, and the action route checks that
+// token. Each token is single-use: the ManagerApproval row written with the
+// action carries its jti.
+
+const jwt = require('jsonwebtoken')
+const bcrypt = require('bcryptjs')
+const { v4: uuidv4 } = require('uuid')
+const db = require('../../../models')
+const { hasPermission } = require('../../../lib/permissions')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+const APPROVAL_AUDIENCE = 'pos-approval'
+
+const APPROVAL_ACTIONS = ['CANCEL', 'REFUND', 'MARK_PAID', 'DISCOUNT', 'NO_SALE']
+// What a token for each action must be bound to; NO_SALE is logged on the open shift
+const APPROVAL_SCOPES = {
+  CANCEL: ['transactionId'],
+  REFUND: ['transactionId'],
+  MARK_PAID: ['transactionId'],
+  DISCOUNT: ['amount']
+}
+const APPROVAL_TTL_SECONDS = 300
+const DEFAULT_DISCOUNT_PERCENT = 10
+
+// A 4-6 digit PIN is easy to guess, so an approver is locked out for a while
+// after a few wrong attempts
+const MAX_FAILED_ATTEMPTS = 5
+const LOCKOUT_MS = 5 * 60 * 1000
+const failedAttempts = new Map()
+
+function httpError(status, message, extra = {}) {
+  const err = new Error(message)
+  err.status = status
+  Object.assign(err, extra)
+  return err
+}
+
+const approvalRequired = (action, message = 'Manager approval required') =>
+  httpError(403, message, { code: 'APPROVAL_REQUIRED', action })
+
+// Actions that need approval and the manual discount threshold, from
+// APPROVAL_REQUIRED_ACTIONS (comma separated, empty for none) and APPROVAL_DISCOUNT_PERCENT
+function approvalConfig() {
+  const raw = process.env.APPROVAL_REQUIRED_ACTIONS
+  const actions = raw == null
+    ? APPROVAL_ACTIONS
+    : raw.split(',').map((a) => a.trim().toUpperCase()).filter((a) => APPROVAL_ACTIONS.includes(a))
+  const percent = Number(process.env.APPROVAL_DISCOUNT_PERCENT)
+  return {
+    actions,
+    discountPercent: process.env.APPROVAL_DISCOUNT_PERCENT != null && Number.isFinite(percent) && percent >= 0 ? percent : DEFAULT_DISCOUNT_PERCENT,
+    ttlSeconds: APPROVAL_TTL_SECONDS
+  }
+}
+
+function requiresApproval(action) {
+  return approvalConfig().actions.includes(action)
+}
+
+// Manual discounts are measured against the cart subtotal before promotions
+function discountNeedsApproval(discount, subtotal) {
+  const { actions, discountPercent } = approvalConfig()
+  if (!actions.includes('DISCOUNT') || !(Number(discount) > 0)) return false
+  if (!(Number(subtotal) > 0)) return true
+  return (Number(discount) / Number(subtotal)) * 100 > discountPercent
+}
+
+function isValidPin(pin) {
+  return /^\d{4,6}$/.test(String(pin || ''))
+}
+
+function hashPin(pin) {
+  return bcrypt.hash(String(pin), 10)
+}
+
+// Passwords may still be stored in plain text; see POST /auth/login
+async function passwordMatches(stored, password) {
+  if (typeof stored === 'string' && stored.startsWith('$2')) return bcrypt.compare(String(password), stored)
+  return String(stored) === String(password)
+}
+
+async function verifyApprover({ approverId, pin, password }) {
+  const approver = await db.User.findByPk(approverId, { attributes: ['id', 'name', 'role', 'password', 'approvalPin'] })
+  if (!approver || !hasPermission(approver.role, 'approvals:grant')) {
+    throw httpError(403, 'Approver must be a manager or admin')
+  }
+
+  const key = String(approver.id)
+  const failures = failedAttempts.get(key)
+  if (failures && failures.lockedUntil > Date.now()) {
+    throw httpError(429, 'Too many failed approval attempts; try again later')
+  }
+
+  let valid = false
+  if (pin != null && pin !== '') {
+    valid = approver.approvalPin ? await bcrypt.compare(String(pin), approver.approvalPin) : false
+  } else if (password != null && password !== '') {
+    valid = await passwordMatches(approver.password, password)
+  } else {
+    throw httpError(400, 'pin or password is required')
+  }
+
+  if (!valid) {
+    // An expired lockout starts a fresh count
+    const count = (failures && failures.lockedUntil === 0 ? failures.count : 0) + 1
+    failedAttempts.set(key, { count, lockedUntil: count >= MAX_FAILED_ATTEMPTS ? Date.now() + LOCKOUT_MS : 0 })
+    throw httpError(403, 'Invalid approver credentials')
+  }
+  failedAttempts.delete(key)
+  return approver
+}
+
+function assertApprovalScope(action, scope) {
+  const missing = (APPROVAL_SCOPES[action] || []).find((field) => scope[field] == null)
+  if (missing) throw httpError(400, `${missing} is required to approve ${action}`)
+}
+
+// Token for one action by one cashier, bound to the transaction (CANCEL,
+// REFUND, MARK_PAID) or the largest discount it covers (DISCOUNT)
+function issueApprovalToken({ approver, requesterId, action, transactionId = null, amount = null }) {
+  assertApprovalScope(action, { transactionId, amount })
+  const tokenId = uuidv4()
+  const approvalToken = jwt.sign(
+    { sub: String(approver.id), action, requestedBy: Number(requesterId), transactionId, amount },
+    JWT_SECRET,
+    { issuer: JWT_ISSUER, audience: APPROVAL_AUDIENCE, expiresIn: APPROVAL_TTL_SECONDS, jwtid: tokenId }
+  )
+  return {
+    approvalToken,
+    expiresAt: new Date(Date.now() + APPROVAL_TTL_SECONDS * 1000).toISOString(),
+    approver: { id: approver.id, name: approver.name, role: approver.role }
+  }
+}
+
+// Resolves the approval behind a request, or null when the action does not need
+// one. Managers and admins approve their own actions. The token comes from the
+// X-Approval-Token header.
+async function checkApproval(req, action, { transactionId = null, amount = null } = {}) {
+  if (!requiresApproval(action)) return null
+  const requesterId = Number(req.user?.id)
+  if (hasPermission(req.user?.role, 'approvals:grant')) {
+    return { action, approvedBy: requesterId, requestedBy: requesterId, tokenId: null }
+  }
+
+  const token = req.get('X-Approval-Token')
+  if (!token) throw approvalRequired(action)
+
+  let payload
+  try {
+    payload = jwt.verify(token, JWT_SECRET, { issuer: JWT_ISSUER, audience: APPROVAL_AUDIENCE })
+  } catch (_) {
+    throw approvalRequired(action, 'Approval token is invalid or expired')
+  }
+  // Tokens issued without the scope their action needs cover nothing
+  const scoped = (APPROVAL_SCOPES[action] || []).every((field) => payload[field] != null)
+  const matches = scoped &&
+    payload.action === action &&
+    Number(payload.requestedBy) === requesterId &&
+    (payload.transactionId == null || String(payload.transactionId) === String(transactionId)) &&
+    (payload.amount == null || Number(amount || 0) <= Number(payload.amount) + 0.01)
+  if (!matches) throw approvalRequired(action, 'Approval token does not cover this action')
+
+  const used = await db.ManagerApproval.count({ where: { tokenId: payload.jti } })
+  if (used > 0) throw approvalRequired(action, 'Approval token has already been used')
+
+  return { action, approvedBy: Number(payload.sub), requestedBy: requesterId, tokenId: payload.jti }
+}
+
+// Store the approval with the action it allowed; pass the action's database
+// transaction so a replayed token fails together with the action
+async function recordApproval(approval, { transactionId = null, cashierShiftId = null, details = null, transaction } = {}) {
+  if (!approval) return null
+  return db.ManagerApproval.create({
+    action: approval.action,
+    tokenId: approval.tokenId,
+    approvedBy: approval.approvedBy,
+    requestedBy: approval.requestedBy,
+    transactionId,
+    cashierShiftId,
+    details: details ? JSON.stringify(details) : null
+  }, { transaction })
+}
+
+module.exports = {
+  APPROVAL_ACTIONS,
+  APPROVAL_SCOPES,
+  approvalConfig,
+  requiresApproval,
+  discountNeedsApproval,
+  isValidPin,
+  hashPin,
+  verifyApprover,
+  assertApprovalScope,
+  issueApprovalToken,
+  checkApproval,
+  recordApproval,
+}
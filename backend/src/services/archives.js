@@ -0,0 +1,183 @@
+// Period close for sales data, replacing the old dashboard reset. Nothing is
+// deleted: a SalesArchive covers the transactions of a date range, the admin
+// downloads them as a JSON file, and only then can the archive be applied,
+// which flags the transactions (archiveId/archivedAt) so the dashboard skips
+// them. Restoring clears the flags again. A draft follows the live period:
+// each export re-reads it, and applying is refused once the period changed
+// after the last export, so the downloaded file is what gets archived.
+
+const crypto = require('crypto')
+const { Op } = require('sequelize')
+const db = require('../../../models')
+
+// Typed by the admin to apply an archive
+const ARCHIVE_CONFIRMATION = 'ARSIPKAN'
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+// YYYY-MM-DD days in Asia/Jakarta, as in GET /transactions?from&to
+function periodRange(from, to) {
+  const isDay = (value) => /^\d{4}-\d{2}-\d{2}$/.test(String(value || ''))
+  if (!isDay(from) || !isDay(to)) throw httpError(400, 'from and to must be dates (YYYY-MM-DD)')
+  const start = new Date(`${from}T00:00:00.000+07:00`)
+  const end = new Date(`${to}T23:59:59.999+07:00`)
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) throw httpError(400, 'Invalid date range')
+  if (start > end) throw httpError(400, 'from must not be after to')
+  return { start, end }
+}
+
+// Unarchived sales in the range; pending sales block the close since they can still change
+async function summarizePeriod(from, to) {
+  const { start, end } = periodRange(from, to)
+  const transactions = await db.Transaction.findAll({
+    where: { createdAt: { [Op.gte]: start, [Op.lte]: end }, archiveId: null },
+    attributes: ['id', 'status', 'finalTotal'],
+    order: [['createdAt', 'ASC']]
+  })
+  const completed = transactions.filter((t) => t.status === 'COMPLETED')
+  return {
+    periodStart: from,
+    periodEnd: to,
+    transactionIds: transactions.map((t) => t.id),
+    transactionCount: transactions.length,
+    pendingCount: transactions.filter((t) => t.status === 'PENDING').length,
+    totalSales: completed.reduce((sum, t) => sum + Number(t.finalTotal || 0), 0)
+  }
+}
+
+// The period as it is now, ready to archive
+async function closablePeriod(from, to) {
+  const summary = await summarizePeriod(from, to)
+  if (summary.transactionCount === 0) throw httpError(400, 'No unarchived transactions in this period')
+  if (summary.pendingCount > 0) {
+    throw httpError(409, `${summary.pendingCount} pending transaction(s) in this period must be completed or cancelled first`)
+  }
+  return summary
+}
+
+async function draftArchive({ from, to, note, userId }) {
+  const summary = await closablePeriod(from, to)
+  return db.SalesArchive.create({
+    periodStart: summary.periodStart,
+    periodEnd: summary.periodEnd,
+    transactionIds: JSON.stringify(summary.transactionIds),
+    transactionCount: summary.transactionCount,
+    totalSales: summary.totalSales,
+    note: note || null,
+    createdBy: userId
+  })
+}
+
+const archiveTransactionIds = (archive) => JSON.parse(archive.transactionIds || '[]')
+
+// Full copy of the archive's sales as they are now: items, tenders, voucher
+// usages, approvals. Counts and totals come from the same rows.
+async function buildExport(archive, exportedAt) {
+  const transactions = await db.Transaction.findAll({
+    where: { id: { [Op.in]: archiveTransactionIds(archive) } },
+    include: [
+      { model: db.TransactionItem, as: 'items' },
+      { model: db.TransactionPayment, as: 'payments' },
+      { model: db.VoucherUsage, as: 'voucherUsages' },
+      { model: db.ManagerApproval, as: 'approvals' }
+    ],
+    order: [['createdAt', 'ASC']]
+  })
+  const body = JSON.stringify({
+    archive: {
+      id: archive.id,
+      periodStart: archive.periodStart,
+      periodEnd: archive.periodEnd,
+      transactionCount: transactions.length,
+      totalSales: transactions
+        .filter((t) => t.status === 'COMPLETED')
+        .reduce((sum, t) => sum + Number(t.finalTotal || 0), 0),
+      note: archive.note,
+      exportedAt: exportedAt.toISOString()
+    },
+    transactions: transactions.map((t) => t.get({ plain: true }))
+  }, null, 2)
+  const checksum = crypto.createHash('sha256').update(body).digest('hex')
+  return { body, checksum, filename: `arsip-penjualan-${archive.periodStart}_${archive.periodEnd}.json` }
+}
+
+// Sales added to the period, or changed (refunds, exchanges, edits), since the
+// draft's last export
+async function changedSinceExport(archive) {
+  const summary = await summarizePeriod(archive.periodStart, archive.periodEnd)
+  const ids = archiveTransactionIds(archive)
+  if (summary.transactionIds.length !== ids.length || summary.transactionIds.some((id) => !ids.includes(id))) return true
+  const updated = await db.Transaction.count({
+    where: { id: { [Op.in]: ids }, updatedAt: { [Op.gt]: archive.exportedAt } }
+  })
+  return updated > 0
+}
+
+async function exportArchive(archive) {
+  if (archive.status === 'DISCARDED') throw httpError(409, 'Archive was discarded')
+  // Taken before reading so a sale changed while the file is built counts as changed
+  const exportedAt = new Date()
+  if (archive.status === 'DRAFT') {
+    const summary = await closablePeriod(archive.periodStart, archive.periodEnd)
+    await archive.update({
+      transactionIds: JSON.stringify(summary.transactionIds),
+      transactionCount: summary.transactionCount,
+      totalSales: summary.totalSales
+    })
+  }
+  const file = await buildExport(archive, exportedAt)
+  await archive.update({ exportChecksum: file.checksum, exportedAt })
+  return file
+}
+
+async function applyArchive(archive, { confirmation, userId }) {
+  if (archive.status !== 'DRAFT') throw httpError(409, `Cannot apply an archive in ${archive.status} status`)
+  if (!archive.exportedAt) throw httpError(409, 'Download the archive export before applying it')
+  if (await changedSinceExport(archive)) {
+    throw httpError(409, 'Sales in this period changed after the last export; download the export again before applying')
+  }
+  if (String(confirmation || '').trim().toUpperCase() !== ARCHIVE_CONFIRMATION) {
+    throw httpError(400, `Type ${ARCHIVE_CONFIRMATION} to confirm`)
+  }
+  const now = new Date()
+  return db.sequelize.transaction(async (t) => {
+    // Sales archived by another archive in the meantime stay with that one
+    const [archivedCount] = await db.Transaction.update(
+      { archiveId: archive.id, archivedAt: now },
+      { where: { id: { [Op.in]: archiveTransactionIds(archive) }, archiveId: null }, transaction: t }
+    )
+    await archive.update({ status: 'ARCHIVED', archivedBy: userId, archivedAt: now }, { transaction: t })
+    return archivedCount
+  })
+}
+
+async function restoreArchive(archive, { userId }) {
+  if (archive.status !== 'ARCHIVED') throw httpError(409, `Cannot restore an archive in ${archive.status} status`)
+  return db.sequelize.transaction(async (t) => {
+    const [restoredCount] = await db.Transaction.update(
+      { archiveId: null, archivedAt: null },
+      { where: { archiveId: archive.id }, transaction: t }
+    )
+    await archive.update({ status: 'RESTORED', restoredBy: userId, restoredAt: new Date() }, { transaction: t })
+    return restoredCount
+  })
+}
+
+async function discardArchive(archive) {
+  if (archive.status !== 'DRAFT') throw httpError(409, `Cannot discard an archive in ${archive.status} status`)
+  return archive.update({ status: 'DISCARDED' })
+}
+
+module.exports = {
+  ARCHIVE_CONFIRMATION,
+  summarizePeriod,
+  draftArchive,
+  exportArchive,
+  applyArchive,
+  restoreArchive,
+  discardArchive,
+}
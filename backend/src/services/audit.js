@@ -0,0 +1,209 @@
+// Audit trail for writes made through the API. auditContext() keeps the current
+// request in an AsyncLocalStorage so the global Sequelize hooks registered by
+// registerAuditHooks() can tell who changed what, from where. Writes made
+// outside a request (scripts, sync, test fixtures) are not audited.
+
+const { AsyncLocalStorage } = require('async_hooks')
+
+const auditStore = new AsyncLocalStorage()
+
+// Never copied into the log
+const REDACTED_FIELDS = new Set(['password', 'approvalPin', 'codeHash'])
+// Product images may be base64 data URLs
+const MAX_VALUE_LENGTH = 500
+
+function auditContext(req, _res, next) {
+  auditStore.run({ req }, next)
+}
+
+function currentRequest() {
+  return auditStore.getStore()?.req || null
+}
+
+function snapshotValue(key, value) {
+  if (REDACTED_FIELDS.has(key)) return value == null ? value : '[REDACTED]'
+  if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+    return `${value.slice(0, 60)}… [${value.length} chars]`
+  }
+  return value
+}
+
+function snapshot(values, keys = Object.keys(values || {})) {
+  const out = {}
+  for (const key of keys) {
+    if (key === 'updatedAt' || key === 'createdAt') continue
+    const value = values[key]
+    // Skip eagerly loaded associations
+    if (value && typeof value === 'object' && !(value instanceof Date) && typeof value.get === 'function') continue
+    if (Array.isArray(value) && value.some((v) => v && typeof v.get === 'function')) continue
+    out[key] = snapshotValue(key, value)
+  }
+  return out
+}
+
+const toJson = (value) => (value == null ? null : JSON.stringify(value))
+
+// Where clauses use Op symbols, which JSON.stringify would drop
+function serializeWhere(where) {
+  if (Array.isArray(where)) return where.map(serializeWhere)
+  if (!where || typeof where !== 'object' || where instanceof Date) return where
+  const out = {}
+  for (const key of Reflect.ownKeys(where)) {
+    const name = typeof key === 'symbol' ? `$${key.description}` : key
+    out[name] = serializeWhere(where[key])
+  }
+  return out
+}
+
+// DECIMAL columns read back as strings and sqlite booleans as 0/1;
+// '1000.00' -> 1000 is not a change
+function sameValue(a, b) {
+  if (a === b) return true
+  if (a instanceof Date || b instanceof Date) return a != null && b != null && new Date(a).getTime() === new Date(b).getTime()
+  if (typeof a === 'boolean' || typeof b === 'boolean') return a != null && b != null && Boolean(Number(a)) === Boolean(Number(b))
+  if (typeof a === 'number' || typeof b === 'number') return a != null && b != null && a !== '' && b !== '' && Number(a) === Number(b)
+  return false
+}
+
+function changedKeys(before, after, keys) {
+  return keys.filter((key) => key !== 'updatedAt' && !sameValue(before[key], after[key]))
+}
+
+function primaryKeyOf(model, values) {
+  const key = model.primaryKeyAttribute
+  const id = key && values ? values[key] : null
+  return id == null || typeof id === 'object' ? null : String(id)
+}
+
+function requestMeta(req) {
+  return {
+    actorId: req.user?.id != null ? Number(req.user.id) : null,
+    actorRole: req.user?.role || null,
+    ip: req.ip || req.socket?.remoteAddress || null,
+    method: req.method,
+    route: String(req.originalUrl || req.url || '').split('?')[0]
+  }
+}
+
+function registerAuditHooks(db) {
+  const { sequelize } = db
+
+  const write = async (model, options, entry) => {
+    if (!db.AuditLog || model === db.AuditLog) return
+    const req = currentRequest()
+    if (!req) return
+    try {
+      await db.AuditLog.create({
+        ...requestMeta(req),
+        entity: model.name,
+        ...entry,
+        before: toJson(entry.before),
+        after: toJson(entry.after)
+      }, { transaction: options?.transaction })
+    } catch (err) {
+      console.error('[Audit] Failed to write audit log:', err)
+    }
+  }
+
+  sequelize.addHook('afterCreate', 'audit', (instance, options) =>
+    write(instance.constructor, options, {
+      action: 'CREATE',
+      entityId: primaryKeyOf(instance.constructor, instance.dataValues),
+      before: null,
+      after: snapshot(instance.dataValues)
+    })
+  )
+
+  sequelize.addHook('afterBulkCreate', 'audit', async (instances, options) => {
+    for (const instance of instances) {
+      await write(instance.constructor, options, {
+        action: 'CREATE',
+        entityId: primaryKeyOf(instance.constructor, instance.dataValues),
+        before: null,
+        after: snapshot(instance.dataValues)
+      })
+    }
+  })
+
+  sequelize.addHook('afterUpdate', 'audit', (instance, options) => {
+    const changed = changedKeys(instance._previousDataValues, instance.dataValues, instance.changed() || [])
+    if (changed.length === 0) return
+    return write(instance.constructor, options, {
+      action: 'UPDATE',
+      entityId: primaryKeyOf(instance.constructor, instance.dataValues),
+      before: snapshot(instance._previousDataValues, changed),
+      after: snapshot(instance.dataValues, changed)
+    })
+  })
+
+  sequelize.addHook('afterDestroy', 'audit', (instance, options) =>
+    write(instance.constructor, options, {
+      action: 'DELETE',
+      entityId: primaryKeyOf(instance.constructor, instance.dataValues),
+      before: snapshot(instance.dataValues),
+      after: null
+    })
+  )
+
+  // Most routes edit one row with Model.update/destroy({ where: { id } }), which
+  // only runs the bulk hooks. Load that row first so the entry has its before
+  // values; individualHooks is left alone since it would also run the models'
+  // own beforeUpdate hooks.
+  const loadAuditedRow = async (options) => {
+    if (options.individualHooks || options.model === db.AuditLog || !currentRequest()) return
+    if (primaryKeyOf(options.model, options.where) == null) return
+    options.auditRow = await options.model.findOne({ where: options.where, transaction: options.transaction, raw: true })
+  }
+  sequelize.addHook('beforeBulkUpdate', 'audit', loadAuditedRow)
+  sequelize.addHook('beforeBulkDestroy', 'audit', loadAuditedRow)
+
+  // Anything else gets one entry per statement with its where clause
+  // (with individualHooks the per-row hooks above already ran)
+  sequelize.addHook('afterBulkUpdate', 'audit', (options) => {
+    if (options.individualHooks) return
+    const attributes = options.attributes || {}
+    const entityId = primaryKeyOf(options.model, options.where)
+    if (entityId != null) {
+      if (!options.auditRow) return
+      const changed = changedKeys(options.auditRow, attributes, Object.keys(attributes))
+      if (changed.length === 0) return
+      return write(options.model, options, {
+        action: 'UPDATE',
+        entityId,
+        before: snapshot(options.auditRow, changed),
+        after: snapshot(attributes, changed)
+      })
+    }
+    return write(options.model, options, {
+      action: 'BULK_UPDATE',
+      entityId: null,
+      before: { where: serializeWhere(options.where || {}) },
+      after: snapshot(attributes)
+    })
+  })
+
+  sequelize.addHook('afterBulkDestroy', 'audit', (options) => {
+    if (options.individualHooks) return
+    const entityId = primaryKeyOf(options.model, options.where)
+    if (entityId != null) {
+      if (!options.auditRow) return
+      return write(options.model, options, {
+        action: 'DELETE',
+        entityId,
+        before: snapshot(options.auditRow),
+        after: null
+      })
+    }
+    return write(options.model, options, {
+      action: 'BULK_DELETE',
+      entityId: null,
+      before: { where: serializeWhere(options.where || {}) },
+      after: null
+    })
+  })
+}
+
+module.exports = {
+  auditContext,
+  registerAuditHooks,
+}
@@ -0,0 +1,274 @@
+// Barcode encoding and label sheets. Products carry either an EAN-13 (vendor
+// or internal) or any printable code, which is printed as Code128.
+
+const { Op } = require('sequelize')
+
+// EAN-13 prefix 20 is reserved by GS1 for in-store numbering, so internal
+// codes never clash with vendor barcodes.
+const INTERNAL_EAN_PREFIX = '20'
+
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011']
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL']
+
+// Code128 bar/space widths for symbol values 0-106 (106 is the stop symbol)
+const CODE128_WIDTHS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+]
+const CODE128_START_B = 104
+const CODE128_START_C = 105
+const CODE128_STOP = 106
+
+const MAX_BARCODE_LENGTH = 48
+
+function ean13CheckDigit(first12) {
+  const digits = String(first12).split('').map(Number)
+  const sum = digits.reduce((acc, d, i) => acc + d * (i % 2 === 0 ? 1 : 3), 0)
+  return String((10 - (sum % 10)) % 10)
+}
+
+function isValidEan13(code) {
+  const s = String(code || '')
+  return /^\d{13}$/.test(s) && ean13CheckDigit(s.slice(0, 12)) === s[12]
+}
+
+// Codes printable as Code128 set B (plus digits, which may use set C)
+function isEncodable(code) {
+  const s = String(code || '')
+  return s.length > 0 && s.length <= MAX_BARCODE_LENGTH && /^[\x20-\x7e]+$/.test(s)
+}
+
+function symbologyOf(code) {
+  return isValidEan13(code) ? 'EAN13' : 'CODE128'
+}
+
+// Internal EAN-13 derived from a product code. Auto-generated codes look like
+// PRD123456789 (CSV import) or PRD-123456-ABC (model hook); their digits are
+// kept as-is, anything else is folded into ten digits.
+function internalEan13(productCode, offset = 0) {
+  const body = String(productCode || '').replace(/^PRD/i, '').replace(/[^0-9A-Za-z]/g, '')
+  let digits
+  if (/^\d+$/.test(body)) {
+    digits = body.slice(-10)
+  } else {
+    let hash = 0
+    for (const ch of body.toUpperCase()) hash = (hash * 36 + parseInt(ch, 36)) % 1e10
+    digits = String(hash)
+  }
+  const number = (Number(digits.padStart(10, '0')) + offset) % 1e10
+  const first12 = INTERNAL_EAN_PREFIX + String(number).padStart(10, '0')
+  return first12 + ean13CheckDigit(first12)
+}
+
+// First internal EAN for productCode not yet used by another product or a variant
+async function generateInternalEan13(db, productCode, { transaction, exceptProductId } = {}) {
+  for (let offset = 0; offset < 100; offset++) {
+    const code = internalEan13(productCode, offset)
+    const productWhere = exceptProductId ? { barcode: code, id: { [Op.ne]: exceptProductId } } : { barcode: code }
+    const [products, variants] = await Promise.all([
+      db.Product.count({ where: productWhere, transaction }),
+      db.ProductVariant.count({ where: { barcode: code }, transaction })
+    ])
+    if (products === 0 && variants === 0) return code
+  }
+  const err = new Error(`Could not generate a unique barcode for ${productCode}`)
+  err.status = 400
+  throw err
+}
+
+function encodeEan13(code) {
+  const digits = String(code).split('').map(Number)
+  const parity = EAN_PARITY[digits[0]]
+  let bits = '101'
+  for (let i = 1; i <= 6; i++) {
+    const l = EAN_L[digits[i]]
+    if (parity[i - 1] === 'L') {
+      bits += l
+    } else {
+      // G pattern is the mirrored complement of L
+      bits += l.split('').map((b) => (b === '1' ? '0' : '1')).reverse().join('')
+    }
+  }
+  bits += '01010'
+  for (let i = 7; i <= 12; i++) {
+    bits += EAN_L[digits[i]].split('').map((b) => (b === '1' ? '0' : '1')).join('')
+  }
+  return bits + '101'
+}
+
+function encodeCode128(code) {
+  const s = String(code)
+  let values
+  if (/^\d+$/.test(s) && s.length % 2 === 0 && s.length >= 4) {
+    values = [CODE128_START_C]
+    for (let i = 0; i < s.length; i += 2) values.push(Number(s.slice(i, i + 2)))
+  } else {
+    values = [CODE128_START_B, ...s.split('').map((ch) => ch.charCodeAt(0) - 32)]
+  }
+  const checksum = values.reduce((acc, v, i) => acc + v * (i === 0 ? 1 : i), 0) % 103
+  values.push(checksum, CODE128_STOP)
+
+  let bits = ''
+  for (const v of values) {
+    CODE128_WIDTHS[v].split('').forEach((w, i) => {
+      bits += (i % 2 === 0 ? '1' : '0').repeat(Number(w))
+    })
+  }
+  return bits
+}
+
+// Module pattern ('1' = bar) for a barcode, using EAN-13 when the code is one
+function encodeBarcode(code) {
+  if (!isEncodable(code)) {
+    const err = new Error(`Barcode ${code} cannot be encoded`)
+    err.status = 400
+    throw err
+  }
+  const symbology = symbologyOf(code)
+  return { symbology, bits: symbology === 'EAN13' ? encodeEan13(code) : encodeCode128(code) }
+}
+
+// Consecutive bar modules merged into [start, width] runs
+function barRuns(bits) {
+  const runs = []
+  let start = -1
+  for (let i = 0; i <= bits.length; i++) {
+    if (bits[i] === '1') {
+      if (start < 0) start = i
+    } else if (start >= 0) {
+      runs.push([start, i - start])
+      start = -1
+    }
+  }
+  return runs
+}
+
+// Label sheet layout in millimetres: A4 with 3 x 8 labels
+const SHEET = {
+  width: 210,
+  height: 297,
+  columns: 3,
+  rows: 8,
+  marginX: 7,
+  marginY: 10.5,
+  labelWidth: 65,
+  labelHeight: 34.5,
+}
+const LABELS_PER_SHEET = SHEET.columns * SHEET.rows
+
+const formatPrice = (amount) => `Rp ${Math.round(Number(amount) || 0).toString().replace(/\B(?=(\d{3})+(?!\d))/g, '.')}`
+
+const escapeXml = (s) => String(s ?? '').replace(/[<>&"']/g, (ch) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[ch]))
+
+const truncate = (s, max) => (String(s).length > max ? `${String(s).slice(0, max - 1)}…` : String(s))
+
+// Where each label and its parts go on the sheet; shared by the SVG and PDF output
+function layoutLabels(labels) {
+  return labels.map((label, index) => {
+    const page = Math.floor(index / LABELS_PER_SHEET)
+    const slot = index % LABELS_PER_SHEET
+    const x = SHEET.marginX + (slot % SHEET.columns) * SHEET.labelWidth
+    const y = SHEET.marginY + Math.floor(slot / SHEET.columns) * SHEET.labelHeight
+    const { bits, symbology } = encodeBarcode(label.barcode)
+    const barcodeWidth = SHEET.labelWidth - 10
+    const module = barcodeWidth / bits.length
+    const details = [label.size, label.color].filter(Boolean).join(' / ')
+    return {
+      page,
+      x,
+      y,
+      symbology,
+      name: truncate(label.name, 34),
+      details,
+      price: formatPrice(label.price),
+      barcode: label.barcode,
+      bars: barRuns(bits).map(([start, width]) => ({ x: x + 5 + start * module, width: width * module })),
+      barY: y + 10,
+      barHeight: 14,
+    }
+  })
+}
+
+// One SVG with every sheet stacked vertically, sized in millimetres for printing
+function renderLabelSheetSvg(labels) {
+  const placed = layoutLabels(labels)
+  const pages = Math.max(Math.ceil(labels.length / LABELS_PER_SHEET), 1)
+  const height = SHEET.height * pages
+  const parts = placed.map((l) => {
+    const offset = l.page * SHEET.height
+    const cx = l.x + SHEET.labelWidth / 2
+    const bars = l.bars
+      .map((b) => `<rect x="${b.x.toFixed(3)}" y="${(l.barY + offset).toFixed(3)}" width="${b.width.toFixed(3)}" height="${l.barHeight}"/>`)
+      .join('')
+    return [
+      `<g>`,
+      `<rect x="${l.x}" y="${l.y + offset}" width="${SHEET.labelWidth}" height="${SHEET.labelHeight}" fill="none" stroke="#ddd" stroke-width="0.2"/>`,
+      `<text x="${cx}" y="${l.y + offset + 4.5}" font-size="3.2" font-weight="bold" text-anchor="middle">${escapeXml(l.name)}</text>`,
+      l.details ? `<text x="${cx}" y="${l.y + offset + 8.2}" font-size="2.6" text-anchor="middle">${escapeXml(l.details)}</text>` : '',
+      bars,
+      `<text x="${cx}" y="${l.barY + offset + l.barHeight + 3}" font-size="2.6" font-family="monospace" text-anchor="middle">${escapeXml(l.barcode)}</text>`,
+      `<text x="${cx}" y="${l.barY + offset + l.barHeight + 8}" font-size="3.6" font-weight="bold" text-anchor="middle">${escapeXml(l.price)}</text>`,
+      `</g>`,
+    ].join('')
+  })
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SHEET.width}mm" height="${height}mm" viewBox="0 0 ${SHEET.width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    ...parts,
+    `</svg>`,
+  ].join('\n')
+}
+
+// A4 PDF, one page per sheet
+function renderLabelSheetPdf(labels) {
+  const { jsPDF } = require('jspdf')
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  const placed = layoutLabels(labels)
+  let currentPage = 0
+  for (const l of placed) {
+    if (l.page !== currentPage) {
+      doc.addPage()
+      currentPage = l.page
+    }
+    const cx = l.x + SHEET.labelWidth / 2
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(9)
+    doc.text(l.name, cx, l.y + 4.5, { align: 'center' })
+    if (l.details) {
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(7.5)
+      doc.text(l.details, cx, l.y + 8.2, { align: 'center' })
+    }
+    for (const b of l.bars) doc.rect(b.x, l.barY, b.width, l.barHeight, 'F')
+    doc.setFont('courier', 'normal')
+    doc.setFontSize(7.5)
+    doc.text(l.barcode, cx, l.barY + l.barHeight + 3, { align: 'center' })
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.text(l.price, cx, l.barY + l.barHeight + 8, { align: 'center' })
+  }
+  return Buffer.from(doc.output('arraybuffer'))
+}
+
+module.exports = {
+  MAX_BARCODE_LENGTH,
+  LABELS_PER_SHEET,
+  ean13CheckDigit,
+  isValidEan13,
+  isEncodable,
+  symbologyOf,
+  internalEan13,
+  generateInternalEan13,
+  encodeBarcode,
+  renderLabelSheetSvg,
+  renderLabelSheetPdf,
+}
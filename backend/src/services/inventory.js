@@ -0,0 +1,205 @@
+// Stock helpers shared by product, transaction and payment routes.
+// Products with variants keep per-variant stock; Product.stock then mirrors
+// the sum of its active variants so list views and reports stay unchanged.
+// Every stock mutation goes through recordStockChange so it lands in the
+// StockMovement ledger together with its reason, reference and user.
+
+const db = require('../../../models')
+
+function toOptionalNumber(val) {
+  if (val === null || val === undefined || val === '') return null
+  const cleaned = String(val).replace(/[^0-9.\-]/g, '')
+  if (cleaned === '') return null
+  const num = Number(cleaned)
+  return Number.isFinite(num) ? num : null
+}
+
+function normalizeVariantInput(raw) {
+  if (!raw || typeof raw !== 'object') return null
+  const size = String(raw.size || '').trim()
+  const color = String(raw.color || '').trim()
+  if (!size || !color) return null
+  const stock = toOptionalNumber(raw.stock)
+  const variant = {
+    size,
+    color,
+    stock: stock === null ? 0 : Math.trunc(stock),
+    price: toOptionalNumber(raw.price),
+    barcode: raw.barcode ? String(raw.barcode).trim() : null,
+    isActive: raw.isActive === undefined ? true : Boolean(raw.isActive)
+  }
+  if (raw.id) variant.id = String(raw.id)
+  if (raw.productCode && String(raw.productCode).trim() !== '') {
+    variant.productCode = String(raw.productCode).trim()
+  }
+  return variant
+}
+
+function toUserId(val) {
+  const num = Number(val)
+  return Number.isInteger(num) ? num : null
+}
+
+// Apply a signed stock change (negative = out of stock) and append it to the ledger
+async function recordStockChange(change, options = {}) {
+  const { transaction } = options
+  const { productId, variantId = null, reason, referenceId = null, userId = null, note = null } = change || {}
+  const qty = Math.trunc(Number(change?.delta))
+  if (!productId || !Number.isFinite(qty) || qty === 0) return null
+  if (!db.StockMovement.REASONS.includes(reason)) {
+    throw new Error(`Unknown stock movement reason: ${reason}`)
+  }
+  const op = qty < 0 ? '-' : '+'
+  const amount = Math.abs(qty)
+  await db.Product.update(
+    { stock: db.sequelize.literal(`stock ${op} ${amount}`) },
+    { where: { id: productId }, transaction }
+  )
+  let variantBalanceAfter = null
+  if (variantId) {
+    await db.ProductVariant.update(
+      { stock: db.sequelize.literal(`stock ${op} ${amount}`) },
+      { where: { id: variantId }, transaction }
+    )
+    const variant = await db.ProductVariant.findByPk(variantId, { attributes: ['stock'], transaction })
+    variantBalanceAfter = variant ? Number(variant.stock) : null
+  }
+  const product = await db.Product.findByPk(productId, { attributes: ['stock'], transaction })
+  return db.StockMovement.create({
+    productId,
+    variantId: variantId || null,
+    delta: qty,
+    balanceAfter: product ? Number(product.stock) : 0,
+    variantBalanceAfter,
+    reason,
+    referenceId: referenceId ? String(referenceId) : null,
+    userId: toUserId(userId),
+    note: note || null
+  }, { transaction })
+}
+
+// Move stock to an absolute level (stock opname, imports, manual edits)
+async function setStockLevel(change, options = {}) {
+  const { transaction } = options
+  const { productId, variantId = null, stock, ...rest } = change || {}
+  const target = Math.trunc(Number(stock))
+  if (!productId || !Number.isFinite(target)) return null
+  const current = variantId
+    ? await db.ProductVariant.findByPk(variantId, { attributes: ['stock'], transaction })
+    : await db.Product.findByPk(productId, { attributes: ['stock'], transaction })
+  if (!current) return null
+  return recordStockChange({ ...rest, productId, variantId, delta: target - Number(current.stock || 0) }, { transaction })
+}
+
+// Recompute Product.stock from its active variants; no-op for single-SKU products.
+// Any drift is booked as a product-level movement so the ledger keeps adding up.
+async function refreshProductStock(productId, options = {}) {
+  const { transaction, reason = 'ADJUSTMENT', referenceId, userId, note } = options
+  const count = await db.ProductVariant.count({ where: { productId }, transaction })
+  if (count === 0) return null
+  const total = await db.ProductVariant.sum('stock', { where: { productId, isActive: true }, transaction })
+  const stock = Number(total || 0)
+  const product = await db.Product.findByPk(productId, { attributes: ['stock'], transaction })
+  if (product && Number(product.stock) !== stock) {
+    await recordStockChange({
+      productId,
+      delta: stock - Number(product.stock || 0),
+      reason,
+      referenceId,
+      userId,
+      note: note || 'Sinkronisasi total stok varian'
+    }, { transaction })
+  }
+  return stock
+}
+
+// Replace a product's variants with the given list. Variants matched by id
+// (or size+color) are updated, new ones created, and omitted ones removed —
+// or deactivated when sales history still references them.
+async function syncProductVariants(productId, inputs, options = {}) {
+  const { transaction, reason = 'ADJUSTMENT', referenceId, userId } = options
+  const ledger = { reason, referenceId, userId }
+  const normalized = (Array.isArray(inputs) ? inputs : []).map(normalizeVariantInput)
+  if (normalized.some((v) => v === null)) {
+    const err = new Error('Each variant requires size and color')
+    err.status = 400
+    throw err
+  }
+  const seen = new Set()
+  for (const v of normalized) {
+    const key = `${v.size.toLowerCase()}|${v.color.toLowerCase()}`
+    if (seen.has(key)) {
+      const err = new Error(`Duplicate variant ${v.size}/${v.color}`)
+      err.status = 400
+      throw err
+    }
+    seen.add(key)
+  }
+
+  const existing = await db.ProductVariant.findAll({ where: { productId }, transaction })
+  const byId = new Map(existing.map((v) => [String(v.id), v]))
+  const byKey = new Map(existing.map((v) => [`${String(v.size).toLowerCase()}|${String(v.color).toLowerCase()}`, v]))
+  const keptIds = new Set()
+
+  for (const input of normalized) {
+    const match = (input.id && byId.get(input.id)) || byKey.get(`${input.size.toLowerCase()}|${input.color.toLowerCase()}`)
+    const { id, stock, ...fields } = input
+    if (match) {
+      const previous = Number(match.stock || 0)
+      await match.update(fields, { transaction })
+      await recordStockChange({ ...ledger, productId, variantId: match.id, delta: stock - previous }, { transaction })
+      keptIds.add(String(match.id))
+    } else {
+      // Created empty so the opening stock shows up as a movement
+      const created = await db.ProductVariant.create({ ...fields, stock: 0, productId }, { transaction })
+      await recordStockChange({ ...ledger, productId, variantId: created.id, delta: stock, note: 'Stok awal varian' }, { transaction })
+      keptIds.add(String(created.id))
+    }
+  }
+
+  for (const variant of existing) {
+    if (keptIds.has(String(variant.id))) continue
+    if (variant.isActive && Number(variant.stock || 0) !== 0) {
+      await recordStockChange({
+        ...ledger,
+        productId,
+        variantId: variant.id,
+        delta: -Number(variant.stock),
+        note: `Varian ${variant.size}/${variant.color} dihapus`
+      }, { transaction })
+    }
+    const used = await db.TransactionItem.count({ where: { variantId: variant.id }, transaction })
+    if (used > 0) {
+      await variant.update({ isActive: false }, { transaction })
+    } else {
+      await variant.destroy({ transaction })
+    }
+  }
+
+  await refreshProductStock(productId, { transaction, ...ledger })
+  return db.ProductVariant.findAll({ where: { productId }, order: [['createdAt', 'ASC']], transaction })
+}
+
+// Apply a signed quantity change for one sold line (negative = out of stock)
+async function adjustItemStock(item, delta, options = {}) {
+  const { transaction, reason, referenceId, userId, note } = options
+  if (!item || !item.productId) return null
+  return recordStockChange({
+    productId: item.productId,
+    variantId: item.variantId || null,
+    delta,
+    reason,
+    referenceId: referenceId || item.transactionId || null,
+    userId,
+    note
+  }, { transaction })
+}
+
+module.exports = {
+  normalizeVariantInput,
+  recordStockChange,
+  setStockLevel,
+  refreshProductStock,
+  syncProductVariants,
+  adjustItemStock,
+}
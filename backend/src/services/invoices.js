@@ -0,0 +1,52 @@
+// Invoice numbers: one per transaction, issued on the first invoice download
+// and numbered without gaps per calendar year (Asia/Jakarta).
+
+const db = require('../../../models')
+
+const MAX_ISSUE_TRIES = 5
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const invoicePrefix = () => process.env.INVOICE_PREFIX || 'INV'
+
+const jakartaYear = (date) => new Date(new Date(date).getTime() + 7 * 3600 * 1000).getUTCFullYear()
+
+const formatInvoiceNumber = (year, sequence) => `${invoicePrefix()}-${year}-${String(sequence).padStart(6, '0')}`
+
+// The invoice of a transaction, issuing the next number of the year when it
+// has none yet. Two downloads racing for the same number both try to insert
+// it; the unique (year, sequence) index lets one win and the other retries
+// with the number after it.
+async function issueInvoice(transaction, { userId = null, now = new Date() } = {}) {
+  if (transaction.status === 'CANCELLED') throw httpError(409, 'Cancelled transactions cannot be invoiced')
+
+  const year = jakartaYear(now)
+  for (let attempt = 1; ; attempt++) {
+    const existing = await db.Invoice.findOne({ where: { transactionId: transaction.id } })
+    if (existing) return existing
+
+    const last = await db.Invoice.max('sequence', { where: { year } })
+    const sequence = (Number(last) || 0) + 1
+    try {
+      return await db.Invoice.create({
+        transactionId: transaction.id,
+        year,
+        sequence,
+        number: formatInvoiceNumber(year, sequence),
+        issuedAt: now,
+        issuedBy: userId,
+      })
+    } catch (err) {
+      if (!(err instanceof db.Sequelize.UniqueConstraintError) || attempt >= MAX_ISSUE_TRIES) throw err
+    }
+  }
+}
+
+module.exports = {
+  formatInvoiceNumber,
+  issueInvoice,
+}
@@ -0,0 +1,194 @@
+// Member loyalty points. LoyaltyProgram holds the earn rate (rupiah per
+// point), the redemption value, the smallest redeemable amount, per-category
+// earn multipliers, categories that earn nothing and a cap on the points one
+// sale can earn. Every transaction route takes its points numbers from here;
+// reversals use the pointsEarned/pointsUsed stored on the sale, so later rule
+// changes never alter what an old sale gave or took.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const { getMemberTier } = require('./memberTiers')
+
+const DEFAULT_LOYALTY_PROGRAM = {
+  spendPerPoint: 1000,
+  pointValue: 1000,
+  minRedeemPoints: 0,
+  maxPointsPerTransaction: null,
+  categoryMultipliers: '{}',
+  excludedCategoryIds: '[]',
+  pointsExpiryMonths: null,
+  expiryReminderDays: null,
+  birthdayVoucherType: 'fixed',
+  birthdayVoucherValue: null,
+  anniversaryVoucherType: 'fixed',
+  anniversaryVoucherValue: null,
+  rewardVoucherDays: 14
+}
+
+const REWARD_VOUCHER_TYPES = ['percentage', 'fixed']
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const parseJson = (value, fallback) => {
+  if (value && typeof value === 'object') return value
+  try {
+    return JSON.parse(value || '')
+  } catch {
+    return fallback
+  }
+}
+
+const plainProgram = (row) => {
+  const multipliers = parseJson(row.categoryMultipliers, {})
+  const excluded = parseJson(row.excludedCategoryIds, [])
+  return {
+    spendPerPoint: Number(row.spendPerPoint),
+    pointValue: Number(row.pointValue),
+    minRedeemPoints: Number(row.minRedeemPoints || 0),
+    maxPointsPerTransaction: row.maxPointsPerTransaction == null ? null : Number(row.maxPointsPerTransaction),
+    categoryMultipliers: multipliers && !Array.isArray(multipliers) ? multipliers : {},
+    excludedCategoryIds: Array.isArray(excluded) ? excluded.map(String) : [],
+    pointsExpiryMonths: row.pointsExpiryMonths == null ? null : Number(row.pointsExpiryMonths),
+    expiryReminderDays: row.expiryReminderDays == null ? null : Number(row.expiryReminderDays),
+    birthdayVoucherType: row.birthdayVoucherType || 'fixed',
+    birthdayVoucherValue: row.birthdayVoucherValue == null ? null : Number(row.birthdayVoucherValue),
+    anniversaryVoucherType: row.anniversaryVoucherType || 'fixed',
+    anniversaryVoucherValue: row.anniversaryVoucherValue == null ? null : Number(row.anniversaryVoucherValue),
+    rewardVoucherDays: Number(row.rewardVoucherDays ?? DEFAULT_LOYALTY_PROGRAM.rewardVoucherDays),
+    updatedBy: row.updatedBy ?? null,
+    updatedAt: row.updatedAt ?? null
+  }
+}
+
+async function getLoyaltyProgram() {
+  const row = await db.LoyaltyProgram.findOne({ order: [['id', 'ASC']] })
+  return plainProgram(row || DEFAULT_LOYALTY_PROGRAM)
+}
+
+const nonNegative = (value, field, { integer = false, min = 0 } = {}) => {
+  const number = Number(value)
+  if (!Number.isFinite(number) || number < min || (integer && !Number.isInteger(number))) {
+    throw httpError(400, `${field} must be ${integer ? 'an integer' : 'a number'} of at least ${min}`)
+  }
+  return number
+}
+
+async function updateLoyaltyProgram(input, { userId }) {
+  const changes = {}
+  if (input.spendPerPoint !== undefined) changes.spendPerPoint = nonNegative(input.spendPerPoint, 'spendPerPoint', { min: 1 })
+  if (input.pointValue !== undefined) changes.pointValue = nonNegative(input.pointValue, 'pointValue')
+  if (input.minRedeemPoints !== undefined) {
+    changes.minRedeemPoints = nonNegative(input.minRedeemPoints, 'minRedeemPoints', { integer: true })
+  }
+  if (input.maxPointsPerTransaction !== undefined) {
+    changes.maxPointsPerTransaction = input.maxPointsPerTransaction === null || input.maxPointsPerTransaction === ''
+      ? null
+      : nonNegative(input.maxPointsPerTransaction, 'maxPointsPerTransaction', { integer: true })
+  }
+  // null or '' turns points expiry / reminders off
+  for (const field of ['pointsExpiryMonths', 'expiryReminderDays']) {
+    if (input[field] === undefined) continue
+    changes[field] = input[field] === null || input[field] === ''
+      ? null
+      : nonNegative(input[field], field, { integer: true, min: 1 })
+  }
+  // Birthday / anniversary vouchers; a null or '' value turns the reward off
+  for (const occasion of ['birthday', 'anniversary']) {
+    const typeField = `${occasion}VoucherType`
+    const valueField = `${occasion}VoucherValue`
+    if (input[typeField] !== undefined) {
+      if (!REWARD_VOUCHER_TYPES.includes(input[typeField])) throw httpError(400, `${typeField} must be one of: ${REWARD_VOUCHER_TYPES.join(', ')}`)
+      changes[typeField] = input[typeField]
+    }
+    if (input[valueField] !== undefined) {
+      changes[valueField] = input[valueField] === null || input[valueField] === ''
+        ? null
+        : nonNegative(input[valueField], valueField, { min: 1 })
+    }
+  }
+  if (input.rewardVoucherDays !== undefined) {
+    changes.rewardVoucherDays = nonNegative(input.rewardVoucherDays, 'rewardVoucherDays', { integer: true, min: 1 })
+  }
+  if (input.categoryMultipliers !== undefined) {
+    const raw = input.categoryMultipliers
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw httpError(400, 'categoryMultipliers must be an object of categoryId to multiplier')
+    const multipliers = {}
+    for (const [categoryId, value] of Object.entries(raw)) {
+      multipliers[categoryId] = nonNegative(value, `Multiplier for category ${categoryId}`)
+    }
+    changes.categoryMultipliers = JSON.stringify(multipliers)
+  }
+  if (input.excludedCategoryIds !== undefined) {
+    if (!Array.isArray(input.excludedCategoryIds)) throw httpError(400, 'excludedCategoryIds must be an array')
+    changes.excludedCategoryIds = JSON.stringify([...new Set(input.excludedCategoryIds.map(String))])
+  }
+  const categoryIds = [
+    ...Object.keys(parseJson(changes.categoryMultipliers, {})),
+    ...parseJson(changes.excludedCategoryIds, [])
+  ]
+  if (categoryIds.length > 0) {
+    const found = await db.Category.count({ where: { id: { [Op.in]: [...new Set(categoryIds)] } } })
+    if (found !== new Set(categoryIds).size) throw httpError(400, 'Unknown category in loyalty rules')
+  }
+
+  const row = await db.LoyaltyProgram.findOne({ order: [['id', 'ASC']] })
+  const merged = { ...plainProgram(row || DEFAULT_LOYALTY_PROGRAM), ...changes }
+  for (const occasion of ['birthday', 'anniversary']) {
+    if (merged[`${occasion}VoucherType`] === 'percentage' && Number(merged[`${occasion}VoucherValue`]) > 100) {
+      throw httpError(400, `${occasion}VoucherValue must be at most 100 for a percentage voucher`)
+    }
+  }
+  if (row) await row.update({ ...changes, updatedBy: userId })
+  else await db.LoyaltyProgram.create({ ...DEFAULT_LOYALTY_PROGRAM, ...changes, updatedBy: userId })
+  return getLoyaltyProgram()
+}
+
+// Rupiah discount for redeeming points; throws 400 below the minimum
+function redeemPoints(points, program) {
+  if (points > 0 && points < program.minRedeemPoints) {
+    throw httpError(400, `At least ${program.minRedeemPoints} points must be redeemed at once`)
+  }
+  return Math.round(points * program.pointValue)
+}
+
+// Points a sale earns. lines are [{ productId, categoryId?, subtotal }] and
+// finalTotal is what the customer paid; it is shared by the lines in
+// proportion to their subtotal, so discounts lower the points like before.
+// With memberId the earn multiplier of the member's tier applies on top.
+async function pointsForSale(lines, finalTotal, { program, memberId } = {}) {
+  const rules = program || await getLoyaltyProgram()
+  const tier = memberId ? await getMemberTier(memberId) : null
+  const tierMultiplier = tier ? tier.earnMultiplier : 1
+  const paid = Math.max(Number(finalTotal || 0), 0)
+  const subtotal = lines.reduce((sum, line) => sum + Number(line.subtotal || 0), 0)
+  if (paid <= 0 || subtotal <= 0) return 0
+
+  const missing = lines.filter((line) => line.categoryId === undefined).map((line) => String(line.productId))
+  const categoryOf = new Map()
+  if (missing.length > 0) {
+    const products = await db.Product.findAll({ where: { id: { [Op.in]: [...new Set(missing)] } }, attributes: ['id', 'categoryId'] })
+    for (const product of products) categoryOf.set(String(product.id), product.categoryId)
+  }
+
+  let earnable = 0
+  for (const line of lines) {
+    const categoryId = String(line.categoryId !== undefined ? line.categoryId : categoryOf.get(String(line.productId)) ?? '')
+    if (rules.excludedCategoryIds.includes(categoryId)) continue
+    const multiplier = Number(rules.categoryMultipliers[categoryId] ?? 1)
+    earnable += (paid * Number(line.subtotal || 0) / subtotal) * multiplier
+  }
+  // Float noise must not cost a point, e.g. 0.1 + 0.2 shares of a round total
+  const points = Math.floor(Math.round((earnable * tierMultiplier / rules.spendPerPoint) * 1e6) / 1e6)
+  return rules.maxPointsPerTransaction == null ? points : Math.min(points, rules.maxPointsPerTransaction)
+}
+
+module.exports = {
+  getLoyaltyProgram,
+  updateLoyaltyProgram,
+  redeemPoints,
+  pointsForSale,
+}
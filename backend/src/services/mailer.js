@@ -0,0 +1,53 @@
+// Outgoing email over SMTP (nodemailer), configured from env:
+//   SMTP_HOST            server; email is off while unset
+//   SMTP_PORT            default 587, or 465 with SMTP_SECURE
+//   SMTP_SECURE          'true' for TLS from the start (port 465); otherwise
+//                        STARTTLS is used when the server offers it
+//   SMTP_USER/SMTP_PASS  login, when the server needs one
+//   SMTP_FROM            sender, e.g. "Wear Calaa <struk@wearcalaa.id>"; defaults to SMTP_USER
+// For local testing point SMTP_HOST/SMTP_PORT at an SMTP sink such as Mailpit
+// (localhost:1025); nothing leaves the machine.
+
+const nodemailer = require('nodemailer')
+
+let cached = null
+
+function smtpConfig() {
+  const secure = process.env.SMTP_SECURE === 'true'
+  return {
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' } : undefined,
+  }
+}
+
+const isEmailConfigured = () => Boolean(process.env.SMTP_HOST)
+
+// One transport per configuration, rebuilt when the env changes
+function getTransport() {
+  const config = smtpConfig()
+  const key = JSON.stringify(config)
+  if (!cached || cached.key !== key) cached = { key, transport: nodemailer.createTransport(config) }
+  return cached.transport
+}
+
+// Send one email; resolves { success, messageId } or { success: false, error }
+// like WhatsAppManager.sendMessage
+async function sendMail({ to, subject, html, text, attachments }) {
+  if (!isEmailConfigured()) return { success: false, error: 'Email is not configured' }
+  const from = process.env.SMTP_FROM || process.env.SMTP_USER
+  if (!from) return { success: false, error: 'SMTP_FROM is not set' }
+  try {
+    const info = await getTransport().sendMail({ from, to, subject, html, text, attachments })
+    return { success: true, messageId: info.messageId }
+  } catch (err) {
+    console.warn('[Mailer] Send failed:', err?.message || err)
+    return { success: false, error: String(err?.message || err) }
+  }
+}
+
+module.exports = {
+  isEmailConfigured,
+  sendMail,
+}
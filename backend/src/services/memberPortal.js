@@ -0,0 +1,312 @@
+// Member portal. Members log in with their phone number and a 6-digit code
+// sent over WhatsApp, and get a token for the /portal endpoints only: it is
+// signed for its own audience, so the staff authMiddleware rejects it. Codes
+// are stored hashed, expire after OTP_TTL_MINUTES and allow OTP_MAX_ATTEMPTS
+// wrong guesses; requesting a new code replaces the previous one.
+
+const crypto = require('crypto')
+const jwt = require('jsonwebtoken')
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const WhatsAppManager = require('./whatsappManager')
+const { getLoyaltyProgram } = require('./loyalty')
+const { plainTier, meetsTier, getMemberTier, listTiers } = require('./memberTiers')
+const { getPointsExpiry } = require('./pointExpiry')
+const { memberSegmentIds } = require('./memberSegments')
+const { formatReceiptForWhatsApp, validatePhoneNumber } = require('./receiptFormatter')
+
+const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret'
+const JWT_ISSUER = process.env.JWT_ISS || 'pos-backend'
+const MEMBER_JWT_AUDIENCE = process.env.MEMBER_JWT_AUD || 'pos-member'
+const MEMBER_SESSION_HOURS = Number(process.env.MEMBER_SESSION_HOURS || 24 * 7)
+
+const OTP_TTL_MINUTES = 5
+const OTP_MAX_ATTEMPTS = 5
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+// Same answer for unknown numbers, wrong codes and expired codes
+const invalidCode = () => httpError(401, 'Invalid or expired code')
+
+// Members are saved with the phone as typed at the till (08…, 62… or +62…)
+async function findMemberByPhone(phone) {
+  const checked = validatePhoneNumber(String(phone || ''))
+  if (!checked.isValid) throw httpError(400, 'Invalid phone number')
+  const local = checked.formatted.slice(2)
+  return db.Member.findOne({
+    where: { phone: { [Op.in]: [`0${local}`, `62${local}`, `+62${local}`] }, isActive: true }
+  })
+}
+
+const hashCode = (memberId, code) => crypto.createHmac('sha256', JWT_SECRET).update(`${memberId}:${code}`).digest('hex')
+
+function sameHash(a, b) {
+  const left = Buffer.from(String(a))
+  const right = Buffer.from(String(b))
+  return left.length === right.length && crypto.timingSafeEqual(left, right)
+}
+
+function otpMessage(member, code) {
+  return [
+    `Halo ${member.name},`,
+    '',
+    `Kode masuk Member Wear Calaa Anda: *${code}*`,
+    `Kode berlaku ${OTP_TTL_MINUTES} menit. Jangan berikan kode ini kepada siapa pun, termasuk staf toko.`
+  ].join('\n')
+}
+
+// Sends a login code when the phone belongs to an active member. Unknown
+// numbers get the same response, so the endpoint does not reveal who is a
+// member. Returns { expiresInSeconds }.
+async function requestOtp(phone, { ip, now = new Date(), whatsapp = WhatsAppManager.getInstance() } = {}) {
+  const member = await findMemberByPhone(phone)
+  const response = { expiresInSeconds: OTP_TTL_MINUTES * 60 }
+  if (!whatsapp.isConnected()) throw httpError(503, 'Login codes cannot be sent right now')
+  if (!member) return response
+
+  const code = String(crypto.randomInt(0, 1000000)).padStart(6, '0')
+  await db.MemberOtp.update({ consumedAt: now }, { where: { memberId: member.id, consumedAt: null } })
+  const otp = await db.MemberOtp.create({
+    memberId: member.id,
+    codeHash: hashCode(member.id, code),
+    expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+    requestIp: ip || null
+  })
+
+  const result = await whatsapp.sendMessage(member.phone, otpMessage(member, code))
+  if (!result.success) {
+    await otp.update({ consumedAt: now })
+    console.warn(`[Portal] Login code to member ${member.id} failed: ${result.error}`)
+    throw httpError(502, 'Failed to send login code')
+  }
+  return response
+}
+
+function signMemberToken(member) {
+  const expiresAt = new Date(Date.now() + MEMBER_SESSION_HOURS * 60 * 60 * 1000)
+  const token = jwt.sign({ sub: String(member.id), type: 'member' }, JWT_SECRET, {
+    issuer: JWT_ISSUER,
+    audience: MEMBER_JWT_AUDIENCE,
+    expiresIn: MEMBER_SESSION_HOURS * 60 * 60
+  })
+  return { token, expiresAt }
+}
+
+// Checks the latest code of the member. Returns { token, expiresAt, member }.
+async function verifyOtp(phone, code, { now = new Date() } = {}) {
+  const member = await findMemberByPhone(phone)
+  if (!member) throw invalidCode()
+  const otp = await db.MemberOtp.findOne({
+    where: { memberId: member.id, consumedAt: null, expiresAt: { [Op.gt]: now } },
+    order: [['createdAt', 'DESC'], ['id', 'DESC']]
+  })
+  if (!otp) throw invalidCode()
+
+  if (!sameHash(otp.codeHash, hashCode(member.id, String(code || '').trim()))) {
+    const attempts = otp.attempts + 1
+    await otp.update({ attempts, consumedAt: attempts >= OTP_MAX_ATTEMPTS ? now : null })
+    throw invalidCode()
+  }
+
+  await otp.update({ consumedAt: now })
+  return { ...signMemberToken(member), member: await getProfile(member.id) }
+}
+
+// Member id from a portal token, or null for anything else (including staff tokens)
+function verifyMemberToken(token) {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { issuer: JWT_ISSUER, audience: MEMBER_JWT_AUDIENCE })
+    if (payload.type !== 'member' || !payload.sub) return null
+    return Number(payload.sub)
+  } catch (_err) {
+    return null
+  }
+}
+
+async function getProfile(memberId) {
+  const member = await db.Member.findByPk(memberId, { include: [{ model: db.MemberTier, as: 'tier' }] })
+  if (!member) throw httpError(404, 'Member not found')
+  const program = await getLoyaltyProgram()
+  const expiry = await getPointsExpiry(member.id)
+  return {
+    id: member.id,
+    name: member.name,
+    phone: member.phone,
+    email: member.email,
+    memberSince: member.createdAt,
+    points: member.points,
+    pointValue: program.pointValue,
+    tier: member.tier?.isActive ? plainTier(member.tier) : null,
+    rollingSpend: Number(member.rollingSpend || 0),
+    marketingOptOut: Boolean(member.marketingOptOut),
+    pointsExpiry: { expiryMonths: expiry.expiryMonths, withinDays: expiry.withinDays, expiringSoon: expiry.expiringSoon }
+  }
+}
+
+const page = ({ limit, offset }) => ({
+  limit: Math.min(Math.max(Number(limit) || 20, 1), 100),
+  offset: Math.max(Number(offset) || 0, 0)
+})
+
+async function listPointHistory(memberId, query = {}) {
+  const { limit, offset } = page(query)
+  const { count, rows } = await db.PointHistory.findAndCountAll({
+    where: { memberId },
+    attributes: ['id', 'transactionId', 'points', 'type', 'description', 'createdAt'],
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit,
+    offset
+  })
+  return { count, limit, offset, entries: rows }
+}
+
+async function listTransactions(memberId, query = {}) {
+  const { limit, offset } = page(query)
+  const { count, rows } = await db.Transaction.findAndCountAll({
+    where: { memberId },
+    attributes: ['id', 'createdAt', 'finalTotal', 'paymentMethod', 'status', 'pointsEarned', 'pointsUsed'],
+    include: [{ model: db.TransactionItem, as: 'items', attributes: ['id', 'quantity'] }],
+    order: [['createdAt', 'DESC']],
+    limit,
+    offset,
+    distinct: true
+  })
+  return {
+    count,
+    limit,
+    offset,
+    transactions: rows.map((row) => ({
+      id: row.id,
+      createdAt: row.createdAt,
+      finalTotal: Number(row.finalTotal || 0),
+      paymentMethod: row.paymentMethod,
+      status: row.status,
+      pointsEarned: row.pointsEarned,
+      pointsUsed: row.pointsUsed,
+      itemCount: (row.items || []).reduce((sum, item) => sum + Number(item.quantity || 0), 0)
+    }))
+  }
+}
+
+// One of the member's own transactions with the receipt text as sent over
+// WhatsApp. Other transactions are reported as not found.
+async function getReceipt(memberId, transactionId) {
+  const transaction = await db.Transaction.findOne({
+    where: { id: transactionId, memberId },
+    include: [
+      { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }, { model: db.ProductVariant, as: 'variant' }] },
+      { model: db.Member, as: 'member' },
+      { model: db.User, as: 'user', attributes: ['id', 'name'] },
+      { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher', attributes: ['id', 'code'] }] }
+    ]
+  })
+  if (!transaction) throw httpError(404, 'Transaction not found')
+
+  const voucherUsage = (transaction.voucherUsages || []).find((usage) => !!usage.voucher)
+  const receipt = {
+    id: transaction.id,
+    createdAt: transaction.createdAt,
+    items: (transaction.items || []).map((item) => ({
+      id: item.id,
+      name: (item.product && item.product.name) || 'Unknown Product',
+      quantity: item.quantity,
+      price: Number(item.price),
+      total: Number(item.subtotal),
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
+      productCode: item.variant ? item.variant.productCode : (item.product ? item.product.code : undefined),
+      size: item.variant ? item.variant.size : (item.product ? item.product.size : undefined),
+      color: item.variant ? item.variant.color : (item.product ? item.product.color : undefined)
+    })),
+    subtotal: (transaction.items || []).reduce((sum, item) => sum + Number(item.subtotal || 0), 0),
+    tax: Number(transaction.tax || 0),
+    taxInclusive: transaction.taxInclusive,
+    finalTotal: Number(transaction.finalTotal || 0),
+    paymentMethod: transaction.paymentMethod,
+    status: transaction.status,
+    pointsUsed: transaction.pointsUsed,
+    pointsDiscount: Number(transaction.pointsDiscount || 0),
+    pointsEarned: transaction.pointsEarned,
+    voucherCode: voucherUsage ? voucherUsage.voucher.code : undefined,
+    voucherDiscount: Number(transaction.voucherDiscount || 0),
+    promotionDiscount: Number(transaction.promoDiscount || 0),
+    tierDiscount: Number(transaction.tierDiscount || 0),
+    member: transaction.member ? { name: transaction.member.name, phone: transaction.member.phone || '', points: transaction.member.points } : undefined,
+    user: transaction.user ? { name: transaction.user.name } : undefined
+  }
+  return { transaction: receipt, text: formatReceiptForWhatsApp(receipt) }
+}
+
+// Vouchers the member can still use today: shared or their own, active, in
+// date, not used up overall or by this member, and open to the member's tier
+// and segments
+async function listAvailableVouchers(memberId, { now = new Date() } = {}) {
+  const vouchers = await db.Voucher.findAll({
+    where: {
+      isActive: true,
+      startDate: { [Op.lte]: now },
+      endDate: { [Op.gte]: now },
+      // Shared vouchers and the member's own birthday/anniversary vouchers
+      [Op.or]: [{ memberId: null }, { memberId }]
+    },
+    order: [['endDate', 'ASC'], ['id', 'ASC']]
+  })
+  const usages = await db.VoucherUsage.findAll({
+    where: { memberId },
+    attributes: ['voucherId', [db.sequelize.fn('COUNT', db.sequelize.col('id')), 'count']],
+    group: ['voucherId'],
+    raw: true
+  })
+  const usedByMember = new Map(usages.map((row) => [Number(row.voucherId), Number(row.count || 0)]))
+  const tiers = await listTiers()
+  const memberTier = await getMemberTier(memberId)
+  const segmentIds = new Set(await memberSegmentIds(memberId))
+
+  return vouchers
+    .filter((voucher) => !voucher.maxUses || Number(voucher.usedCount || 0) < voucher.maxUses)
+    .filter((voucher) => !voucher.minTierId || meetsTier(memberTier, tiers.find((tier) => tier.id === voucher.minTierId)))
+    .filter((voucher) => !voucher.segmentId || segmentIds.has(voucher.segmentId))
+    .map((voucher) => {
+      const perMember = Number(voucher.maxUsesPerUser || 0)
+      const used = usedByMember.get(voucher.id) || 0
+      return {
+        id: voucher.id,
+        code: voucher.code,
+        name: voucher.name,
+        description: voucher.description,
+        type: voucher.type,
+        value: Number(voucher.value),
+        minPurchase: voucher.minPurchase != null ? Number(voucher.minPurchase) : null,
+        maxDiscount: voucher.maxDiscount != null ? Number(voucher.maxDiscount) : null,
+        endDate: voucher.endDate,
+        personal: voucher.memberId != null,
+        remainingUses: perMember > 0 ? perMember - used : null
+      }
+    })
+    .filter((voucher) => voucher.remainingUses === null || voucher.remainingUses > 0)
+}
+
+// The member turns WhatsApp campaigns off or back on
+async function setMarketingOptOut(memberId, optOut) {
+  const member = await db.Member.findByPk(memberId)
+  if (!member) throw httpError(404, 'Member not found')
+  await member.update({ marketingOptOut: Boolean(optOut) })
+  return { marketingOptOut: Boolean(member.marketingOptOut) }
+}
+
+module.exports = {
+  OTP_MAX_ATTEMPTS,
+  requestOtp,
+  verifyOtp,
+  verifyMemberToken,
+  getProfile,
+  listPointHistory,
+  listTransactions,
+  getReceipt,
+  listAvailableVouchers,
+  setMarketingOptOut,
+}
@@ -0,0 +1,223 @@
+// Birthday and membership anniversary rewards. The daily job gives each
+// active member whose birthDate (or join date, from the first anniversary on)
+// falls on today a personal single-use Voucher (memberId, maxUses and
+// maxUsesPerUser 1) and greets them over WhatsApp with the code. Which reward
+// is on and its value come from LoyaltyProgram; MemberReward keeps one row per
+// member, occasion and year, so running the job twice issues nothing new.
+
+const crypto = require('crypto')
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const WhatsAppManager = require('./whatsappManager')
+const { getLoyaltyProgram } = require('./loyalty')
+const { formatCurrency } = require('./receiptFormatter')
+
+const OCCASIONS = ['BIRTHDAY', 'ANNIVERSARY']
+const CODE_PREFIX = { BIRTHDAY: 'ULTAH', ANNIVERSARY: 'ANNIV' }
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// YYYY-MM-DD of a moment in Asia/Jakarta (UTC+7, no DST)
+const jakartaDay = (date) => new Date(new Date(date).getTime() + 7 * 3600 * 1000).toISOString().slice(0, 10)
+
+const isLeapYear = (year) => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0
+
+// Whether a yearly date (MM-DD) falls on today; 29 February counts on
+// 28 February in other years
+function fallsOn(monthDay, today) {
+  if (monthDay === today.slice(5)) return true
+  return monthDay === '02-29' && today.slice(5) === '02-28' && !isLeapYear(Number(today.slice(0, 4)))
+}
+
+const formatDate = (date) => new Date(date).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta', day: 'numeric', month: 'long', year: 'numeric' })
+
+function rewardSettings(program, occasion) {
+  const key = occasion === 'BIRTHDAY' ? 'birthday' : 'anniversary'
+  const value = program[`${key}VoucherValue`]
+  return value ? { type: program[`${key}VoucherType`], value } : null
+}
+
+function voucherCode(occasion) {
+  const bytes = crypto.randomBytes(6)
+  const suffix = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('')
+  return `${CODE_PREFIX[occasion]}-${suffix}`
+}
+
+const describeValue = ({ type, value }) => (type === 'percentage' ? `diskon ${Number(value)}%` : `potongan ${formatCurrency(value)}`)
+
+function greetingMessage(member, occasion, voucher, years) {
+  const opening = occasion === 'BIRTHDAY'
+    ? `Selamat ulang tahun, ${member.name}!`
+    : `Selamat ${years} tahun menjadi member Wear Calaa, ${member.name}!`
+  return [
+    `*${opening}*`,
+    '',
+    `Sebagai hadiah, gunakan voucher *${voucher.code}* untuk ${describeValue(voucher)} pada belanja Anda berikutnya.`,
+    `Berlaku sampai ${formatDate(voucher.endDate)}, sekali pakai, khusus untuk Anda.`,
+    '',
+    'Terima kasih telah menjadi member Wear Calaa.'
+  ].join('\n')
+}
+
+// Members to reward today, as [{ member, occasion, years }]
+async function dueToday(program, today) {
+  const year = Number(today.slice(0, 4))
+  const due = []
+  if (rewardSettings(program, 'BIRTHDAY')) {
+    const members = await db.Member.findAll({ where: { isActive: true, birthDate: { [Op.ne]: null } } })
+    for (const member of members) {
+      if (fallsOn(String(member.birthDate).slice(5, 10), today)) due.push({ member, occasion: 'BIRTHDAY' })
+    }
+  }
+  if (rewardSettings(program, 'ANNIVERSARY')) {
+    const members = await db.Member.findAll({ where: { isActive: true } })
+    for (const member of members) {
+      const joined = jakartaDay(member.createdAt)
+      const years = year - Number(joined.slice(0, 4))
+      if (years >= 1 && fallsOn(joined.slice(5), today)) due.push({ member, occasion: 'ANNIVERSARY', years })
+    }
+  }
+  return due
+}
+
+async function sendGreeting(reward, whatsapp, now, year) {
+  const { member, voucher } = reward
+  const years = year - Number(jakartaDay(member.createdAt).slice(0, 4))
+  const result = await whatsapp.sendMessage(member.phone, greetingMessage(member, reward.occasion, voucher, years))
+  if (!result.success) {
+    await reward.update({ notifyError: String(result.error || 'Unknown error').slice(0, 255) })
+    console.warn(`[Rewards] Greeting to member ${member.id} failed: ${result.error}`)
+    return false
+  }
+  await reward.update({ notifiedAt: now, notifyError: null })
+  return true
+}
+
+// Issue today's vouchers and send the greetings. Greetings that could not go
+// out (WhatsApp offline or a failed send) are retried on later runs while the
+// voucher is still valid. Returns { issued, notified, failed }.
+async function issueOccasionRewards({ now = new Date(), whatsapp = WhatsAppManager.getInstance() } = {}) {
+  const program = await getLoyaltyProgram()
+  const today = jakartaDay(now)
+  const year = Number(today.slice(0, 4))
+  const connected = whatsapp.isConnected()
+  if (!connected) console.warn('[Rewards] WhatsApp not connected; greetings postponed')
+
+  let issued = 0
+  let notified = 0
+  let failed = 0
+  for (const { member, occasion, years } of await dueToday(program, today)) {
+    const existing = await db.MemberReward.findOne({ where: { memberId: member.id, occasion, year } })
+    if (existing) continue
+    const settings = rewardSettings(program, occasion)
+    const endDay = jakartaDay(now.getTime() + program.rewardVoucherDays * DAY_MS)
+    try {
+      await db.sequelize.transaction(async (t) => {
+        const voucher = await db.Voucher.create({
+          code: voucherCode(occasion),
+          name: occasion === 'BIRTHDAY' ? `Ulang Tahun ${member.name}` : `Anniversary ${member.name}`,
+          description: occasion === 'BIRTHDAY' ? `Voucher ulang tahun ${year}` : `Voucher ${years} tahun member`,
+          type: settings.type,
+          value: settings.value,
+          maxUses: 1,
+          maxUsesPerUser: 1,
+          memberId: member.id,
+          startDate: now,
+          endDate: new Date(`${endDay}T23:59:59.999+07:00`),
+          isActive: true
+        }, { transaction: t })
+        await db.MemberReward.create({ memberId: member.id, occasion, year, voucherId: voucher.id }, { transaction: t })
+      })
+    } catch (err) {
+      failed += 1
+      console.error(`[Rewards] Failed to issue ${occasion} voucher for member ${member.id}:`, err)
+      continue
+    }
+    issued += 1
+  }
+
+  // Today's greetings and any earlier ones that did not go out
+  if (connected) {
+    const pending = await db.MemberReward.findAll({
+      where: { notifiedAt: null },
+      include: [
+        { model: db.Member, as: 'member' },
+        { model: db.Voucher, as: 'voucher', where: { endDate: { [Op.gt]: now }, usedCount: 0 } }
+      ]
+    })
+    for (const reward of pending) {
+      if (!reward.member?.isActive || !reward.member.phone) continue
+      if (await sendGreeting(reward, whatsapp, now, year)) notified += 1
+      else failed += 1
+    }
+  }
+  return { issued, notified, failed }
+}
+
+// Rewards issued between start and end with how many were redeemed. Returns
+// { totals, byOccasion[], rewards[] } where each summary has issued,
+// notified, redeemed, redemptionRate (percent), discountGiven and sales
+// (finalTotal of the sales that used the vouchers).
+async function getRewardReport({ start, end }) {
+  const rewards = await db.MemberReward.findAll({
+    where: { createdAt: { [Op.between]: [start, end] } },
+    include: [
+      { model: db.Member, as: 'member', attributes: ['id', 'name', 'phone'] },
+      {
+        model: db.Voucher,
+        as: 'voucher',
+        attributes: ['id', 'code', 'type', 'value', 'endDate'],
+        include: [{
+          model: db.VoucherUsage,
+          as: 'usages',
+          attributes: ['id', 'discountAmount', 'usedAt', 'transactionId'],
+          include: [{ model: db.Transaction, as: 'transaction', attributes: ['id', 'finalTotal', 'status'] }]
+        }]
+      }
+    ],
+    order: [['createdAt', 'DESC'], ['id', 'DESC']]
+  })
+
+  const emptySummary = () => ({ issued: 0, notified: 0, redeemed: 0, redemptionRate: 0, discountGiven: 0, sales: 0 })
+  const totals = emptySummary()
+  const byOccasion = Object.fromEntries(OCCASIONS.map((occasion) => [occasion, emptySummary()]))
+  const rows = rewards.map((reward) => {
+    const usages = reward.voucher?.usages || []
+    const usage = usages[0] || null
+    const discount = usages.reduce((sum, u) => sum + Number(u.discountAmount || 0), 0)
+    const sales = usages.reduce((sum, u) => sum + Number(u.transaction?.finalTotal || 0), 0)
+    for (const summary of [totals, byOccasion[reward.occasion]]) {
+      summary.issued += 1
+      if (reward.notifiedAt) summary.notified += 1
+      if (usage) summary.redeemed += 1
+      summary.discountGiven += discount
+      summary.sales += sales
+    }
+    return {
+      id: reward.id,
+      occasion: reward.occasion,
+      issuedAt: reward.createdAt,
+      member: reward.member ? { id: reward.member.id, name: reward.member.name, phone: reward.member.phone } : null,
+      voucherCode: reward.voucher?.code || null,
+      validUntil: reward.voucher?.endDate || null,
+      notifiedAt: reward.notifiedAt,
+      notifyError: reward.notifyError,
+      redeemedAt: usage ? usage.usedAt : null,
+      transactionId: usage ? usage.transactionId : null,
+      discountGiven: discount
+    }
+  })
+  for (const summary of [totals, ...Object.values(byOccasion)]) {
+    summary.redemptionRate = summary.issued > 0 ? Math.round((summary.redeemed / summary.issued) * 1000) / 10 : 0
+  }
+  return {
+    totals,
+    byOccasion: OCCASIONS.map((occasion) => ({ occasion, ...byOccasion[occasion] })),
+    rewards: rows.slice(0, 200)
+  }
+}
+
+module.exports = {
+  issueOccasionRewards,
+  getRewardReport,
+}
@@ -0,0 +1,424 @@
+// Member segments. Each recomputation (nightly, after a segment is saved or on
+// demand) stores the RFM metrics of every active member in MemberRfm and
+// evaluates each active segment's rules against them; the members that match
+// are stored in MemberSegmentMember, where the members list, vouchers and
+// campaigns look them up.
+//
+// Rules are a JSON object; every condition present must hold:
+//   recencyScore, frequencyScore, monetaryScore  { min?, max? } on 1-5, only
+//                   matched by members who bought in the last 12 months
+//   spend           { min?, max? } paid spend over the last 12 months (rupiah)
+//   lastVisitDays   { min?, max? } days since the last visit; members who never
+//                   visited do not match
+//   tierIds         [tierId]; the member's current tier is one of them
+//   categoryIds     [categoryId] with minCategoryShare (percent, default 0):
+//                   more than that share of the member's spend is in them
+// An empty rule set matches every active member.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const { ROLLING_MONTHS } = require('./memberTiers')
+
+// Paid sales; refunded amounts are subtracted from spend
+const SPEND_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED']
+// A fully refunded sale still was a visit
+const VISIT_STATUSES = [...SPEND_STATUSES, 'REFUNDED']
+const SCORE_RULES = ['recencyScore', 'frequencyScore', 'monetaryScore']
+const RANGE_RULES = [...SCORE_RULES, 'spend', 'lastVisitDays']
+const RULE_KEYS = [...RANGE_RULES, 'tierIds', 'categoryIds', 'minCategoryShare']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Added by POST /member-segments/defaults; names follow the usual RFM segments
+const DEFAULT_SEGMENTS = [
+  {
+    name: 'Champions',
+    description: 'Belanja baru-baru ini, sering dan dengan nilai besar',
+    color: '#16a34a',
+    rules: { recencyScore: { min: 4 }, frequencyScore: { min: 4 }, monetaryScore: { min: 4 } }
+  },
+  {
+    name: 'Loyal',
+    description: 'Sering berbelanja dan masih aktif',
+    color: '#2563eb',
+    rules: { recencyScore: { min: 3 }, frequencyScore: { min: 4 } }
+  },
+  {
+    name: 'New',
+    description: 'Baru sekali berbelanja, belum lama ini',
+    color: '#0891b2',
+    rules: { recencyScore: { min: 4 }, frequencyScore: { max: 1 } }
+  },
+  {
+    name: 'At Risk',
+    description: 'Dulu sering berbelanja tetapi sudah lama tidak kembali',
+    color: '#f59e0b',
+    rules: { recencyScore: { max: 2 }, frequencyScore: { min: 3 } }
+  },
+  {
+    name: 'Lapsed',
+    description: 'Tidak berkunjung lebih dari 180 hari',
+    color: '#dc2626',
+    rules: { lastVisitDays: { min: 180 } }
+  }
+]
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const parseJson = (value, fallback) => {
+  try {
+    return JSON.parse(value || '')
+  } catch (_) {
+    return fallback
+  }
+}
+
+const plainSegment = (segment) => segment && ({
+  id: segment.id,
+  name: segment.name,
+  description: segment.description || null,
+  color: segment.color || null,
+  rules: parseJson(segment.rules, {}),
+  isActive: Boolean(segment.isActive),
+  memberCount: Number(segment.memberCount || 0),
+  computedAt: segment.computedAt || null
+})
+
+const plainRfm = (rfm) => rfm && ({
+  lastVisit: rfm.lastVisit || null,
+  recencyDays: rfm.recencyDays ?? null,
+  frequency: Number(rfm.frequency || 0),
+  monetary: Number(rfm.monetary || 0),
+  recencyScore: Number(rfm.recencyScore || 0),
+  frequencyScore: Number(rfm.frequencyScore || 0),
+  monetaryScore: Number(rfm.monetaryScore || 0),
+  topCategoryId: rfm.topCategoryId || null,
+  computedAt: rfm.computedAt
+})
+
+// Rules from the segment form, checked and with empty bounds dropped
+async function normalizeRules(input) {
+  const rules = input == null ? {} : input
+  if (typeof rules !== 'object' || Array.isArray(rules)) throw httpError(400, 'rules must be an object')
+  const unknown = Object.keys(rules).find((key) => !RULE_KEYS.includes(key))
+  if (unknown) throw httpError(400, `Unknown segment rule: ${unknown}`)
+
+  const out = {}
+  for (const key of RANGE_RULES) {
+    const range = rules[key]
+    if (range == null) continue
+    if (typeof range !== 'object' || Array.isArray(range)) throw httpError(400, `${key} must be { min, max }`)
+    const bounds = {}
+    for (const bound of ['min', 'max']) {
+      if (range[bound] == null || range[bound] === '') continue
+      const value = Number(range[bound])
+      if (!Number.isFinite(value) || value < 0) throw httpError(400, `${key}.${bound} must not be negative`)
+      if (SCORE_RULES.includes(key) && (value < 1 || value > 5)) throw httpError(400, `${key} must be between 1 and 5`)
+      bounds[bound] = value
+    }
+    if (bounds.min !== undefined && bounds.max !== undefined && bounds.min > bounds.max) {
+      throw httpError(400, `${key}.min must not exceed ${key}.max`)
+    }
+    if (Object.keys(bounds).length > 0) out[key] = bounds
+  }
+
+  if (rules.tierIds != null) {
+    if (!Array.isArray(rules.tierIds)) throw httpError(400, 'tierIds must be an array')
+    const ids = [...new Set(rules.tierIds.map(Number))]
+    const found = await db.MemberTier.count({ where: { id: { [Op.in]: ids } } })
+    if (ids.some((id) => !Number.isInteger(id)) || found !== ids.length) throw httpError(400, 'Unknown member tier')
+    if (ids.length > 0) out.tierIds = ids
+  }
+
+  if (rules.categoryIds != null) {
+    if (!Array.isArray(rules.categoryIds)) throw httpError(400, 'categoryIds must be an array')
+    const ids = [...new Set(rules.categoryIds.map(String))]
+    const found = await db.Category.count({ where: { id: { [Op.in]: ids } } })
+    if (found !== ids.length) throw httpError(400, 'Unknown category')
+    if (ids.length > 0) out.categoryIds = ids
+  }
+  if (rules.minCategoryShare != null && rules.minCategoryShare !== '') {
+    const share = Number(rules.minCategoryShare)
+    if (!Number.isFinite(share) || share < 0 || share >= 100) throw httpError(400, 'minCategoryShare must be between 0 and 99')
+    if (!out.categoryIds) throw httpError(400, 'minCategoryShare needs categoryIds')
+    if (share > 0) out.minCategoryShare = share
+  }
+  return out
+}
+
+// Quintile cut points (20/40/60/80%) of the values
+function cutPoints(values) {
+  const sorted = [...values].sort((a, b) => a - b)
+  return [0.2, 0.4, 0.6, 0.8].map((p) => sorted[Math.floor(p * (sorted.length - 1))])
+}
+
+// 1-5; higher values score higher unless lowerIsBetter (recency)
+const scoreFor = (cuts, value, lowerIsBetter = false) => {
+  const above = cuts.filter((cut) => value > cut).length
+  return lowerIsBetter ? 5 - above : 1 + above
+}
+
+// RFM metrics of every active member as of now, as
+// [{ memberId, tierId, lastVisit, recencyDays, frequency, monetary, ...Score, categoryShares, topCategoryId }]
+async function computeMetrics(now = new Date()) {
+  const since = new Date(now)
+  since.setMonth(since.getMonth() - ROLLING_MONTHS)
+
+  const members = await db.Member.findAll({ where: { isActive: true }, attributes: ['id', 'tierId'] })
+  const visits = await db.Transaction.findAll({
+    attributes: ['memberId', [db.sequelize.fn('MAX', db.sequelize.col('createdAt')), 'lastVisit']],
+    where: { memberId: { [Op.ne]: null }, status: { [Op.in]: VISIT_STATUSES }, createdAt: { [Op.lte]: now } },
+    group: ['memberId'],
+    raw: true
+  })
+  const lastVisitOf = new Map(visits.map((row) => [Number(row.memberId), new Date(row.lastVisit)]))
+
+  const sales = await db.Transaction.findAll({
+    attributes: ['id', 'memberId', 'createdAt', 'finalTotal', 'refundedAmount', 'exchangedAmount'],
+    where: { memberId: { [Op.ne]: null }, status: { [Op.in]: SPEND_STATUSES }, createdAt: { [Op.gte]: since, [Op.lte]: now } },
+    include: [{
+      model: db.TransactionItem,
+      as: 'items',
+      attributes: ['id', 'quantity', 'refundedQuantity', 'subtotal'],
+      include: [{ model: db.Product, as: 'product', attributes: ['id', 'categoryId'] }]
+    }]
+  })
+  const byMember = new Map()
+  for (const sale of sales) {
+    const id = Number(sale.memberId)
+    const entry = byMember.get(id) || { frequency: 0, monetary: 0, lastSale: null, categorySpend: {} }
+    entry.frequency += 1
+    entry.monetary += Number(sale.finalTotal || 0) - Number(sale.refundedAmount || 0) - Number(sale.exchangedAmount || 0)
+    const at = new Date(sale.createdAt)
+    if (!entry.lastSale || at > entry.lastSale) entry.lastSale = at
+    for (const item of sale.items || []) {
+      const categoryId = item.product?.categoryId
+      const quantity = Number(item.quantity || 0)
+      if (!categoryId || quantity <= 0) continue
+      const kept = (quantity - Number(item.refundedQuantity || 0)) / quantity
+      entry.categorySpend[categoryId] = (entry.categorySpend[categoryId] || 0) + Number(item.subtotal || 0) * kept
+    }
+    byMember.set(id, entry)
+  }
+
+  const buyers = [...byMember.entries()].map(([, entry]) => entry)
+  const recencyOf = (entry) => Math.max(0, Math.floor((now - entry.lastSale) / DAY_MS))
+  const cuts = {
+    recency: cutPoints(buyers.map(recencyOf)),
+    frequency: cutPoints(buyers.map((entry) => entry.frequency)),
+    monetary: cutPoints(buyers.map((entry) => entry.monetary))
+  }
+
+  return members.map((member) => {
+    const entry = byMember.get(member.id)
+    const lastVisit = lastVisitOf.get(member.id) || null
+    const base = {
+      memberId: member.id,
+      tierId: member.tierId ?? null,
+      lastVisit,
+      lastVisitDays: lastVisit ? Math.max(0, Math.floor((now - lastVisit) / DAY_MS)) : null
+    }
+    if (!entry) {
+      return { ...base, recencyDays: null, frequency: 0, monetary: 0, recencyScore: 0, frequencyScore: 0, monetaryScore: 0, categoryShares: {}, topCategoryId: null }
+    }
+    const totalCategorySpend = Object.values(entry.categorySpend).reduce((sum, value) => sum + value, 0)
+    const categoryShares = {}
+    let topCategoryId = null
+    for (const [categoryId, spend] of Object.entries(entry.categorySpend)) {
+      categoryShares[categoryId] = totalCategorySpend > 0 ? Math.round((spend / totalCategorySpend) * 1000) / 10 : 0
+      if (!topCategoryId || categoryShares[categoryId] > categoryShares[topCategoryId]) topCategoryId = categoryId
+    }
+    const recencyDays = recencyOf(entry)
+    return {
+      ...base,
+      recencyDays,
+      frequency: entry.frequency,
+      monetary: Math.round(entry.monetary),
+      recencyScore: scoreFor(cuts.recency, recencyDays, true),
+      frequencyScore: scoreFor(cuts.frequency, entry.frequency),
+      monetaryScore: scoreFor(cuts.monetary, entry.monetary),
+      categoryShares,
+      topCategoryId
+    }
+  })
+}
+
+const inRange = (value, range) => {
+  if (!range) return true
+  if (value == null) return false
+  if (range.min !== undefined && value < range.min) return false
+  if (range.max !== undefined && value > range.max) return false
+  return true
+}
+
+function matchesRules(metrics, rules) {
+  for (const key of SCORE_RULES) {
+    if (rules[key] && (metrics[key] < 1 || !inRange(metrics[key], rules[key]))) return false
+  }
+  if (!inRange(metrics.monetary, rules.spend)) return false
+  if (!inRange(metrics.lastVisitDays, rules.lastVisitDays)) return false
+  if (rules.tierIds && !rules.tierIds.includes(Number(metrics.tierId))) return false
+  if (rules.categoryIds) {
+    const share = rules.categoryIds.reduce((sum, id) => sum + Number(metrics.categoryShares[id] || 0), 0)
+    if (share <= Number(rules.minCategoryShare || 0)) return false
+  }
+  return true
+}
+
+// Recompute every member's metrics and every segment's members. Derived rows
+// are written without hooks so recomputing does not flood the audit log.
+// Returns { members, segments: [{ id, name, memberCount }] }.
+async function recomputeSegments({ now = new Date() } = {}) {
+  const metrics = await computeMetrics(now)
+  const segments = await db.MemberSegment.findAll({ order: [['id', 'ASC']] })
+
+  const results = []
+  await db.sequelize.transaction(async (transaction) => {
+    const options = { transaction, hooks: false }
+    await db.MemberRfm.destroy({ where: {}, ...options })
+    await db.MemberRfm.bulkCreate(metrics.map((row) => ({
+      memberId: row.memberId,
+      lastVisit: row.lastVisit,
+      recencyDays: row.recencyDays,
+      frequency: row.frequency,
+      monetary: row.monetary,
+      recencyScore: row.recencyScore,
+      frequencyScore: row.frequencyScore,
+      monetaryScore: row.monetaryScore,
+      topCategoryId: row.topCategoryId,
+      categoryShares: JSON.stringify(row.categoryShares),
+      computedAt: now
+    })), options)
+
+    for (const segment of segments) {
+      const rules = parseJson(segment.rules, {})
+      const memberIds = segment.isActive ? metrics.filter((row) => matchesRules(row, rules)).map((row) => row.memberId) : []
+      await db.MemberSegmentMember.destroy({ where: { segmentId: segment.id }, ...options })
+      await db.MemberSegmentMember.bulkCreate(memberIds.map((memberId) => ({ segmentId: segment.id, memberId })), options)
+      await segment.update({ memberCount: memberIds.length, computedAt: now }, options)
+      results.push({ id: segment.id, name: segment.name, memberCount: memberIds.length })
+    }
+  })
+  return { members: metrics.length, segments: results }
+}
+
+// How many active members the rules would match right now, with a few of them
+async function previewRules(input, { now = new Date() } = {}) {
+  const rules = await normalizeRules(input)
+  const matched = (await computeMetrics(now)).filter((row) => matchesRules(row, rules))
+  const sample = await db.Member.findAll({
+    where: { id: { [Op.in]: matched.slice(0, 10).map((row) => row.memberId) } },
+    attributes: ['id', 'name', 'phone']
+  })
+  return { rules, memberCount: matched.length, sample: sample.map((m) => ({ id: m.id, name: m.name, phone: m.phone })) }
+}
+
+async function listSegments({ activeOnly = false } = {}) {
+  const segments = await db.MemberSegment.findAll({
+    where: activeOnly ? { isActive: true } : {},
+    order: [['name', 'ASC']]
+  })
+  return segments.map(plainSegment)
+}
+
+async function createDefaultSegments() {
+  const created = []
+  for (const definition of DEFAULT_SEGMENTS) {
+    if (await db.MemberSegment.findOne({ where: { name: definition.name } })) continue
+    created.push(await db.MemberSegment.create({ ...definition, rules: JSON.stringify(definition.rules) }))
+  }
+  return created.map(plainSegment)
+}
+
+// Ids of the segment's members as of the last recomputation, e.g. for campaigns
+async function segmentMemberIds(segmentId) {
+  const rows = await db.MemberSegmentMember.findAll({ where: { segmentId }, attributes: ['memberId'], raw: true })
+  return rows.map((row) => Number(row.memberId))
+}
+
+// Ids of the segments the member is in
+async function memberSegmentIds(memberId) {
+  const rows = await db.MemberSegmentMember.findAll({ where: { memberId }, attributes: ['segmentId'], raw: true })
+  return rows.map((row) => Number(row.segmentId))
+}
+
+async function isInSegment(memberId, segmentId) {
+  if (!memberId) return false
+  return (await db.MemberSegmentMember.count({ where: { segmentId, memberId } })) > 0
+}
+
+// segmentId from a voucher form: undefined leaves it as is, null or '' clears
+// it, anything else must be an existing segment
+async function resolveSegmentId(value) {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const segment = await db.MemberSegment.findByPk(value, { attributes: ['id'] })
+  if (!segment) throw httpError(400, 'Unknown member segment')
+  return segment.id
+}
+
+// The segment's members with their metrics, highest spend first
+async function listSegmentMembers(segmentId, { limit } = {}) {
+  const segment = await db.MemberSegment.findByPk(segmentId)
+  if (!segment) throw httpError(404, 'Member segment not found')
+  const memberIds = await segmentMemberIds(segment.id)
+  const members = await db.Member.findAll({
+    where: { id: { [Op.in]: memberIds } },
+    attributes: ['id', 'name', 'phone', 'email', 'points', 'createdAt'],
+    include: [
+      { model: db.MemberTier, as: 'tier', attributes: ['id', 'name', 'color'] },
+      { model: db.MemberRfm, as: 'rfm' }
+    ]
+  })
+  const rows = members
+    .map((member) => ({
+      id: member.id,
+      name: member.name,
+      phone: member.phone,
+      email: member.email,
+      points: member.points,
+      memberSince: member.createdAt,
+      tier: member.tier ? { id: member.tier.id, name: member.tier.name, color: member.tier.color } : null,
+      rfm: plainRfm(member.rfm)
+    }))
+    .sort((a, b) => (b.rfm?.monetary || 0) - (a.rfm?.monetary || 0) || a.id - b.id)
+  return { segment: plainSegment(segment), members: limit ? rows.slice(0, limit) : rows }
+}
+
+const csvCell = (value) => {
+  const text = value == null ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function segmentCsv(segmentId) {
+  const { segment, members } = await listSegmentMembers(segmentId)
+  const header = ['id', 'name', 'phone', 'email', 'tier', 'points', 'lastVisit', 'recencyDays', 'frequency', 'monetary', 'recencyScore', 'frequencyScore', 'monetaryScore']
+  const lines = members.map((m) => [
+    m.id, m.name, m.phone, m.email, m.tier?.name, m.points,
+    m.rfm?.lastVisit ? new Date(m.rfm.lastVisit).toISOString() : '',
+    m.rfm?.recencyDays, m.rfm?.frequency, m.rfm?.monetary,
+    m.rfm?.recencyScore, m.rfm?.frequencyScore, m.rfm?.monetaryScore
+  ].map(csvCell).join(','))
+  return { segment, csv: [header.join(','), ...lines].join('\n') + '\n' }
+}
+
+module.exports = {
+  DEFAULT_SEGMENTS,
+  plainSegment,
+  normalizeRules,
+  computeMetrics,
+  matchesRules,
+  recomputeSegments,
+  previewRules,
+  listSegments,
+  createDefaultSegments,
+  segmentMemberIds,
+  memberSegmentIds,
+  isInSegment,
+  resolveSegmentId,
+  listSegmentMembers,
+  segmentCsv,
+}
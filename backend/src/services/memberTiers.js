@@ -0,0 +1,167 @@
+// Member tiers. A member holds the highest active tier whose minSpend their
+// rolling 12-month spend reaches (paid sales less refunds). Tiers are
+// recalculated after every sale, refund or cancel of the member and nightly
+// for everyone, so members also drop a tier once old sales age out. Each
+// change is written to MemberTierHistory.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+
+const ROLLING_MONTHS = 12
+// Sales that count towards the tier; refunded amounts are subtracted
+const SPEND_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED']
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const plainTier = (tier) => tier && ({
+  id: tier.id,
+  name: tier.name,
+  minSpend: Number(tier.minSpend || 0),
+  earnMultiplier: Number(tier.earnMultiplier ?? 1),
+  discountPercent: Number(tier.discountPercent || 0),
+  color: tier.color || null,
+  isActive: Boolean(tier.isActive)
+})
+
+async function listTiers({ activeOnly = false } = {}) {
+  const tiers = await db.MemberTier.findAll({
+    where: activeOnly ? { isActive: true } : {},
+    order: [['minSpend', 'ASC'], ['id', 'ASC']]
+  })
+  return tiers.map(plainTier)
+}
+
+// Whether a member's tier reaches the required one; members without a tier
+// never do. Both are plain tiers or null.
+function meetsTier(memberTier, requiredTier) {
+  if (!requiredTier) return true
+  if (!memberTier) return false
+  return Number(memberTier.minSpend) >= Number(requiredTier.minSpend)
+}
+
+// minTierId from a promotion or voucher form: undefined leaves it as is,
+// null or '' clears it, anything else must be an existing tier
+async function resolveMinTierId(value) {
+  if (value === undefined) return undefined
+  if (value === null || value === '') return null
+  const tier = await db.MemberTier.findByPk(value, { attributes: ['id'] })
+  if (!tier) throw httpError(400, 'Unknown member tier')
+  return tier.id
+}
+
+// The member's current tier with its benefits, or null
+async function getMemberTier(memberId) {
+  if (!memberId) return null
+  const member = await db.Member.findByPk(memberId, {
+    attributes: ['id', 'tierId'],
+    include: [{ model: db.MemberTier, as: 'tier' }]
+  })
+  return member?.tier?.isActive ? plainTier(member.tier) : null
+}
+
+async function rollingSpend(memberId, asOf = new Date()) {
+  const since = new Date(asOf)
+  since.setMonth(since.getMonth() - ROLLING_MONTHS)
+  const sales = await db.Transaction.findAll({
+    where: { memberId, status: { [Op.in]: SPEND_STATUSES }, createdAt: { [Op.gte]: since, [Op.lte]: asOf } },
+    attributes: ['finalTotal', 'refundedAmount', 'exchangedAmount']
+  })
+  // Exchanged items count once, on the exchange sale
+  return sales.reduce((sum, sale) => sum + Number(sale.finalTotal || 0) - Number(sale.refundedAmount || 0) - Number(sale.exchangedAmount || 0), 0)
+}
+
+const tierForSpend = (tiers, spend) => {
+  let match = null
+  for (const tier of tiers) {
+    if (tier.isActive && spend >= tier.minSpend) match = tier
+  }
+  return match
+}
+
+// Bring one member's tier and rollingSpend up to date. reason is TRANSACTION,
+// NIGHTLY or RECALCULATE. Returns { tier, rollingSpend, changed }.
+async function recalculateMemberTier(memberId, { reason = 'TRANSACTION', transactionId = null, tiers } = {}) {
+  const member = await db.Member.findByPk(memberId, { attributes: ['id', 'tierId', 'rollingSpend'] })
+  if (!member) throw httpError(404, 'Member not found')
+  const definitions = tiers || await listTiers({ activeOnly: true })
+  const spend = Math.round(await rollingSpend(member.id))
+  const tier = tierForSpend(definitions, spend)
+  const tierId = tier ? tier.id : null
+  const changed = (member.tierId ?? null) !== tierId
+
+  if (changed) {
+    await db.MemberTierHistory.create({
+      memberId: member.id,
+      fromTierId: member.tierId ?? null,
+      toTierId: tierId,
+      rollingSpend: spend,
+      reason,
+      transactionId
+    })
+  }
+  if (changed || Number(member.rollingSpend || 0) !== spend) {
+    await member.update({ tierId, rollingSpend: spend })
+  }
+  return { tier, rollingSpend: spend, changed }
+}
+
+// After a member's sale changed; never fails the request that triggered it
+async function refreshTierAfterTransaction(memberId, transactionId) {
+  if (!memberId) return
+  try {
+    await recalculateMemberTier(memberId, { reason: 'TRANSACTION', transactionId })
+  } catch (err) {
+    console.warn('[Tiers] Failed to recalculate member tier:', err)
+  }
+}
+
+// Every active member, e.g. nightly. Returns { members, changed }.
+async function recalculateAllTiers({ reason = 'NIGHTLY' } = {}) {
+  const tiers = await listTiers({ activeOnly: true })
+  const members = await db.Member.findAll({ where: { isActive: true }, attributes: ['id'] })
+  let changed = 0
+  for (const member of members) {
+    const result = await recalculateMemberTier(member.id, { reason, tiers })
+    if (result.changed) changed += 1
+  }
+  return { members: members.length, changed }
+}
+
+async function getTierHistory(memberId) {
+  const rows = await db.MemberTierHistory.findAll({
+    where: { memberId },
+    include: [
+      { model: db.MemberTier, as: 'fromTier', attributes: ['id', 'name', 'color'] },
+      { model: db.MemberTier, as: 'toTier', attributes: ['id', 'name', 'color'] }
+    ],
+    order: [['createdAt', 'DESC'], ['id', 'DESC']],
+    limit: 100
+  })
+  return rows.map((row) => ({
+    id: row.id,
+    fromTier: row.fromTier ? { id: row.fromTier.id, name: row.fromTier.name, color: row.fromTier.color } : null,
+    toTier: row.toTier ? { id: row.toTier.id, name: row.toTier.name, color: row.toTier.color } : null,
+    rollingSpend: Number(row.rollingSpend || 0),
+    reason: row.reason,
+    transactionId: row.transactionId,
+    createdAt: row.createdAt
+  }))
+}
+
+module.exports = {
+  ROLLING_MONTHS,
+  plainTier,
+  listTiers,
+  meetsTier,
+  resolveMinTierId,
+  getMemberTier,
+  rollingSpend,
+  recalculateMemberTier,
+  refreshTierAfterTransaction,
+  recalculateAllTiers,
+  getTierHistory,
+}
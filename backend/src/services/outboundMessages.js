@@ -0,0 +1,208 @@
+// Outbound message queue. Messages the customer must get (WhatsApp receipts)
+// are written to OutboundMessage first and sent by the 'outbound messages'
+// scheduler job in the backend process, so a sale never waits on WhatsApp
+// and nothing is lost while WhatsApp is down or the server restarts.
+//
+// A failed send is tried again with exponential backoff. Errors a retry
+// cannot fix (invalid or unregistered number) and messages that used up
+// their attempts are dead-lettered: they stay as DEAD for the outbox page,
+// where staff can resend them, optionally to a corrected number.
+//
+// Delivery is at least once: a server that dies between sending and saving
+// SENT sends that message again after the lock goes stale.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const WhatsAppManager = require('./whatsappManager')
+const { formatReceiptForWhatsApp, validatePhoneNumber } = require('./receiptFormatter')
+const { loadReceipt } = require('./receipts')
+const { categorizeWhatsAppError, isRetryableWhatsAppError, retryDelay } = require('../../../lib/whatsappErrors')
+
+const STATUSES = ['PENDING', 'SENDING', 'SENT', 'DEAD']
+const MAX_ATTEMPTS = Number(process.env.OUTBOUND_MAX_ATTEMPTS) || 8
+// 30s, 1m, 2m, 4m, ... at most 30 minutes between tries
+const BACKOFF = { baseMs: 30 * 1000, maxMs: 30 * 60 * 1000 }
+// A SENDING row locked this long ago belongs to a worker that died mid-send
+const STALE_LOCK_MS = 5 * 60 * 1000
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const plainMessage = (message) => ({
+  id: message.id,
+  channel: message.channel,
+  kind: message.kind,
+  transactionId: message.transactionId,
+  customerName: message.transaction?.customerName || null,
+  recipient: message.recipient,
+  body: message.body,
+  status: message.status,
+  attempts: message.attempts,
+  maxAttempts: MAX_ATTEMPTS,
+  nextAttemptAt: message.nextAttemptAt,
+  lastError: message.lastError,
+  sentAt: message.sentAt,
+  createdAt: message.createdAt
+})
+
+// Queue the WhatsApp receipt of a transaction. Does nothing without a
+// customer phone or when the receipt is already queued or sent. A number
+// WhatsApp cannot take is dead-lettered at once so it shows up for a resend.
+async function queueReceipt(transactionId, { now = new Date() } = {}) {
+  const loaded = await loadReceipt(transactionId)
+  if (!loaded || !loaded.transaction.customerPhone) return null
+  const { transaction, receipt } = loaded
+  const queued = await db.OutboundMessage.findOne({
+    where: { kind: 'RECEIPT', transactionId: transaction.id, status: { [Op.ne]: 'DEAD' } }
+  })
+  if (queued) return queued
+
+  const phone = validatePhoneNumber(transaction.customerPhone)
+  return db.OutboundMessage.create({
+    channel: 'WHATSAPP',
+    kind: 'RECEIPT',
+    transactionId: transaction.id,
+    recipient: phone.isValid ? phone.formatted : transaction.customerPhone,
+    body: formatReceiptForWhatsApp(receipt),
+    status: phone.isValid ? 'PENDING' : 'DEAD',
+    nextAttemptAt: phone.isValid ? now : null,
+    lastError: phone.isValid ? null : 'Invalid phone number'
+  }, { hooks: false })
+}
+
+// Queue bookkeeping is kept out of the audit log
+const saveMessage = (id, fields) => db.OutboundMessage.update(fields, { where: { id }, hooks: false })
+
+// Put messages of a worker that died mid-send back in the queue
+async function releaseStaleLocks(now) {
+  const [released] = await db.OutboundMessage.update(
+    { status: 'PENDING', lockedAt: null },
+    { where: { status: 'SENDING', lockedAt: { [Op.lt]: new Date(now.getTime() - STALE_LOCK_MS) } }, hooks: false }
+  )
+  return released
+}
+
+let processing = false
+
+// Send up to `limit` due messages, oldest first. Runs every few seconds from
+// the scheduler; a run that overlaps the previous one does nothing. While
+// WhatsApp is disconnected messages wait without using up attempts.
+// Returns { sent, retrying, dead }.
+async function processOutboundQueue({
+  limit = 20,
+  whatsapp = WhatsAppManager.getInstance(),
+  now = () => new Date()
+} = {}) {
+  const result = { sent: 0, retrying: 0, dead: 0 }
+  if (processing) return result
+  processing = true
+  try {
+    await releaseStaleLocks(now())
+    if (!whatsapp.isConnected()) return result
+    const due = await db.OutboundMessage.findAll({
+      where: { channel: 'WHATSAPP', status: 'PENDING', nextAttemptAt: { [Op.lte]: now() } },
+      order: [['nextAttemptAt', 'ASC'], ['id', 'ASC']],
+      limit
+    })
+    for (const message of due) {
+      // Claim the row first so another backend process cannot send it too
+      const [claimed] = await db.OutboundMessage.update(
+        { status: 'SENDING', lockedAt: now() },
+        { where: { id: message.id, status: 'PENDING' }, hooks: false }
+      )
+      if (!claimed) continue
+
+      let sent
+      try {
+        sent = await whatsapp.sendMessage(message.recipient, message.body)
+      } catch (err) {
+        sent = { success: false, error: String(err?.message || err) }
+      }
+      const attempts = message.attempts + 1
+      if (sent.success) {
+        await saveMessage(message.id, { status: 'SENT', attempts, lockedAt: null, lastError: null, providerMessageId: sent.messageId || null, sentAt: now() })
+        result.sent += 1
+        continue
+      }
+
+      const error = String(sent.error || 'Unknown error').slice(0, 255)
+      // A dropped connection is not the message's fault; wait for the next run
+      if (categorizeWhatsAppError(error) === 'CONNECTION_FAILED') {
+        await saveMessage(message.id, { status: 'PENDING', lockedAt: null, lastError: error })
+        console.warn('[Outbound] WhatsApp disconnected; sending postponed')
+        break
+      }
+      if (!isRetryableWhatsAppError(error) || attempts >= MAX_ATTEMPTS) {
+        await saveMessage(message.id, { status: 'DEAD', attempts, lockedAt: null, lastError: error, nextAttemptAt: null })
+        console.warn(`[Outbound] Message ${message.id} dead-lettered after ${attempts} attempt(s): ${error}`)
+        result.dead += 1
+        continue
+      }
+      const nextAttemptAt = new Date(now().getTime() + retryDelay(attempts, BACKOFF))
+      await saveMessage(message.id, { status: 'PENDING', attempts, lockedAt: null, lastError: error, nextAttemptAt })
+      result.retrying += 1
+    }
+  } finally {
+    processing = false
+  }
+  return result
+}
+
+// One page of the queue, newest first, with message counts per status
+async function listMessages({ status, limit, offset } = {}) {
+  const where = {}
+  if (status) {
+    if (!STATUSES.includes(String(status).toUpperCase())) throw httpError(400, 'Unknown message status')
+    where.status = String(status).toUpperCase()
+  }
+  const page = { limit: Math.min(Math.max(Number(limit) || 50, 1), 200), offset: Math.max(Number(offset) || 0, 0) }
+  const [messages, rows] = await Promise.all([
+    db.OutboundMessage.findAll({
+      where,
+      include: [{ model: db.Transaction, as: 'transaction', attributes: ['id', 'customerName'] }],
+      order: [['createdAt', 'DESC'], ['id', 'DESC']],
+      ...page
+    }),
+    db.OutboundMessage.findAll({
+      attributes: ['status', [db.sequelize.fn('COUNT', db.sequelize.col('id')), 'count']],
+      group: ['status'],
+      raw: true
+    })
+  ])
+  const counts = Object.fromEntries(STATUSES.map((s) => [s.toLowerCase(), 0]))
+  for (const row of rows) counts[String(row.status).toLowerCase()] = Number(row.count)
+  return { counts, ...page, messages: messages.map(plainMessage) }
+}
+
+// Put a dead (or still waiting) message back in the queue for an immediate
+// try with a fresh set of attempts, optionally to another phone number
+async function resendMessage(id, { recipient } = {}, { now = new Date() } = {}) {
+  const message = await db.OutboundMessage.findByPk(id, {
+    include: [{ model: db.Transaction, as: 'transaction', attributes: ['id', 'customerName'] }]
+  })
+  if (!message) throw httpError(404, 'Message not found')
+  if (message.status === 'SENT') throw httpError(400, 'Message has already been sent')
+  if (message.status === 'SENDING') throw httpError(400, 'Message is being sent')
+
+  const fields = { status: 'PENDING', attempts: 0, lastError: null, nextAttemptAt: now }
+  if (recipient !== undefined && recipient !== null && recipient !== '') {
+    const phone = validatePhoneNumber(String(recipient))
+    if (!phone.isValid) throw httpError(400, 'Invalid phone number')
+    fields.recipient = phone.formatted
+  } else if (!validatePhoneNumber(message.recipient).isValid) {
+    throw httpError(400, 'Invalid phone number; enter a corrected recipient')
+  }
+  await message.update(fields)
+  return plainMessage(message)
+}
+
+module.exports = {
+  MAX_ATTEMPTS,
+  queueReceipt,
+  processOutboundQueue,
+  listMessages,
+  resendMessage,
+}
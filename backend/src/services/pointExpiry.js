@@ -0,0 +1,155 @@
+// Points expiry. With LoyaltyProgram.pointsExpiryMonths set, each PointLot
+// expires that many months after its earnedAt; the nightly job writes one
+// EXPIRED PointHistory entry per member and lowers Member.points. With
+// expiryReminderDays set it also sends members a WhatsApp reminder that many
+// days ahead, once per lot.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const WhatsAppManager = require('./whatsappManager')
+const { getLoyaltyProgram } = require('./loyalty')
+const { reconcileLots } = require('./pointLots')
+const { formatCurrency } = require('./receiptFormatter')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function expiresAt(earnedAt, months) {
+  const date = new Date(earnedAt)
+  date.setMonth(date.getMonth() + months)
+  return date
+}
+
+// Lots earned on or before this moment have expired
+function expiryCutoff(months, now = new Date()) {
+  const cutoff = new Date(now)
+  cutoff.setMonth(cutoff.getMonth() - months)
+  return cutoff
+}
+
+const formatDate = (date) => new Date(date).toLocaleDateString('id-ID', { timeZone: 'Asia/Jakarta', day: 'numeric', month: 'long', year: 'numeric' })
+
+// Open lots of a member with their expiry date, oldest first. withinDays
+// marks the points that expire in that many days as expiring soon.
+async function getPointsExpiry(memberId, { withinDays = 30, now = new Date() } = {}) {
+  const program = await getLoyaltyProgram()
+  const months = program.pointsExpiryMonths
+  const lots = await db.PointLot.findAll({
+    where: { memberId, remaining: { [Op.gt]: 0 } },
+    order: [['earnedAt', 'ASC'], ['id', 'ASC']]
+  })
+  const horizon = new Date(now.getTime() + withinDays * DAY_MS)
+  const rows = lots.map((lot) => ({
+    id: lot.id,
+    points: lot.remaining,
+    earnedAt: lot.earnedAt,
+    transactionId: lot.transactionId,
+    expiresAt: months ? expiresAt(lot.earnedAt, months) : null
+  }))
+  const soon = rows.filter((row) => row.expiresAt && row.expiresAt <= horizon)
+  return {
+    expiryMonths: months,
+    withinDays,
+    lots: rows,
+    expiringSoon: {
+      points: soon.reduce((sum, row) => sum + row.points, 0),
+      firstExpiresAt: soon.length > 0 ? soon[0].expiresAt : null
+    }
+  }
+}
+
+// Expire every lot past its expiry date. Returns { members, points }.
+async function expirePoints({ now = new Date() } = {}) {
+  const program = await getLoyaltyProgram()
+  if (!program.pointsExpiryMonths) return { members: 0, points: 0 }
+
+  // Balances from before lots were tracked get a lot first, so they expire too
+  const members = await db.Member.findAll({ where: { points: { [Op.gt]: 0 } }, attributes: ['id'] })
+  for (const member of members) await reconcileLots(db, member.id, { now })
+
+  const cutoff = expiryCutoff(program.pointsExpiryMonths, now)
+  const expired = await db.PointLot.findAll({
+    where: { remaining: { [Op.gt]: 0 }, earnedAt: { [Op.lte]: cutoff } },
+    attributes: ['memberId', [db.sequelize.fn('SUM', db.sequelize.col('remaining')), 'points']],
+    group: ['memberId'],
+    raw: true
+  })
+
+  let total = 0
+  for (const row of expired) {
+    const points = Number(row.points || 0)
+    if (points <= 0) continue
+    await db.sequelize.transaction(async (t) => {
+      await db.Member.increment({ points: -points }, { where: { id: row.memberId }, transaction: t })
+      // The lots hook uses up the oldest lots, which are the expired ones
+      await db.PointHistory.create({
+        memberId: row.memberId,
+        points: -points,
+        type: 'EXPIRED',
+        description: `Poin kedaluwarsa (diperoleh sampai ${formatDate(cutoff)})`
+      }, { transaction: t })
+    })
+    total += points
+  }
+  return { members: expired.length, points: total }
+}
+
+function reminderMessage(member, points, firstExpiresAt, pointValue) {
+  return [
+    `Halo ${member.name},`,
+    '',
+    `*${points} poin* Anda (senilai ${formatCurrency(points * pointValue)}) akan kedaluwarsa pada *${formatDate(firstExpiresAt)}*.`,
+    'Gunakan poin Anda pada transaksi berikutnya sebelum tanggal tersebut.',
+    '',
+    'Terima kasih telah berbelanja di Wear Calaa.'
+  ].join('\n')
+}
+
+// WhatsApp reminders for lots expiring within expiryReminderDays that have
+// not been reminded yet. Skipped while WhatsApp is not connected; the lots
+// are tried again on the next run. Returns { sent, failed }.
+async function sendExpiryReminders({ now = new Date(), whatsapp = WhatsAppManager.getInstance() } = {}) {
+  const program = await getLoyaltyProgram()
+  if (!program.pointsExpiryMonths || !program.expiryReminderDays) return { sent: 0, failed: 0 }
+  if (!whatsapp.isConnected()) {
+    console.warn('[Points] WhatsApp not connected; expiry reminders postponed')
+    return { sent: 0, failed: 0 }
+  }
+
+  // Lots expiring by now + reminder days were earned by this moment
+  const remindBy = expiryCutoff(program.pointsExpiryMonths, new Date(now.getTime() + program.expiryReminderDays * DAY_MS))
+  const lots = await db.PointLot.findAll({
+    where: { remaining: { [Op.gt]: 0 }, remindedAt: null, earnedAt: { [Op.lte]: remindBy } },
+    include: [{ model: db.Member, as: 'member', attributes: ['id', 'name', 'phone', 'isActive'] }],
+    order: [['earnedAt', 'ASC'], ['id', 'ASC']]
+  })
+
+  const byMember = new Map()
+  for (const lot of lots) {
+    if (!lot.member?.isActive || !lot.member.phone) continue
+    const group = byMember.get(lot.memberId) || { member: lot.member, lots: [] }
+    group.lots.push(lot)
+    byMember.set(lot.memberId, group)
+  }
+
+  let sent = 0
+  let failed = 0
+  for (const { member, lots: memberLots } of byMember.values()) {
+    const points = memberLots.reduce((sum, lot) => sum + lot.remaining, 0)
+    const firstExpiresAt = expiresAt(memberLots[0].earnedAt, program.pointsExpiryMonths)
+    const result = await whatsapp.sendMessage(member.phone, reminderMessage(member, points, firstExpiresAt, program.pointValue))
+    if (!result.success) {
+      failed += 1
+      console.warn(`[Points] Expiry reminder to member ${member.id} failed: ${result.error}`)
+      continue
+    }
+    await db.PointLot.update({ remindedAt: now }, { where: { id: { [Op.in]: memberLots.map((lot) => lot.id) } } })
+    sent += 1
+  }
+  return { sent, failed }
+}
+
+module.exports = {
+  getPointsExpiry,
+  expirePoints,
+  sendExpiryReminders,
+}
@@ -0,0 +1,65 @@
+// FIFO lots behind Member.points. Every positive PointHistory entry opens a
+// PointLot; every negative one (USED, ADJUSTED, EXPIRED) uses up the oldest
+// lots first. Registered as model hooks in models/index.js, so the
+// transaction routes keep writing PointHistory as before.
+
+// Lots with points left, oldest first
+const openLots = (db, memberId, transaction) => db.PointLot.findAll({
+  where: { memberId, remaining: { [db.Sequelize.Op.gt]: 0 } },
+  order: [['earnedAt', 'ASC'], ['id', 'ASC']],
+  transaction
+})
+
+// Take points from the oldest lots; returns how many were covered by lots
+async function consumeLots(db, memberId, points, { transaction } = {}) {
+  let left = Math.max(Math.round(Number(points || 0)), 0)
+  if (left === 0) return 0
+  for (const lot of await openLots(db, memberId, transaction)) {
+    const take = Math.min(lot.remaining, left)
+    await lot.update({ remaining: lot.remaining - take }, { transaction })
+    left -= take
+    if (left === 0) break
+  }
+  return Math.round(Number(points)) - left
+}
+
+// Make the lots add up to Member.points again: a balance from before lots
+// were tracked (or from a write that skipped PointHistory) becomes a lot
+// earned now, and lots the balance no longer covers are used up.
+async function reconcileLots(db, memberId, { transaction, now = new Date() } = {}) {
+  const member = await db.Member.findByPk(memberId, { attributes: ['id', 'points'], transaction })
+  if (!member) return 0
+  const tracked = Number(await db.PointLot.sum('remaining', { where: { memberId }, transaction }) || 0)
+  const gap = Math.max(Number(member.points || 0), 0) - tracked
+  if (gap > 0) {
+    await db.PointLot.create({ memberId, points: gap, remaining: gap, earnedAt: now }, { transaction })
+  } else if (gap < 0) {
+    await consumeLots(db, memberId, -gap, { transaction })
+  }
+  return gap
+}
+
+function registerPointLotHooks(db) {
+  db.PointHistory.addHook('afterCreate', 'pointLots', async (entry, options) => {
+    const points = Math.round(Number(entry.points || 0))
+    const transaction = options?.transaction
+    if (points > 0) {
+      await db.PointLot.create({
+        memberId: entry.memberId,
+        pointHistoryId: entry.id,
+        transactionId: entry.transactionId || null,
+        points,
+        remaining: points,
+        earnedAt: entry.createdAt || new Date()
+      }, { transaction })
+    } else if (points < 0) {
+      await consumeLots(db, entry.memberId, -points, { transaction })
+    }
+  })
+}
+
+module.exports = {
+  consumeLots,
+  reconcileLots,
+  registerPointLotHooks,
+}
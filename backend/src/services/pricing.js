@@ -0,0 +1,351 @@
+// Server-side cart pricing. The promotion and voucher rules behind
+// /promotions/calculate and /vouchers/validate live here so POST /transactions
+// can price a sale from the catalog instead of trusting the client's numbers.
+
+const db = require('../../../models')
+const { Op } = require('sequelize')
+const { taxLines } = require('./tax')
+const { getLoyaltyProgram, redeemPoints, pointsForSale } = require('./loyalty')
+const { listTiers, meetsTier, getMemberTier } = require('./memberTiers')
+const { isInSegment } = require('./memberSegments')
+
+function httpError(status, message, details = {}) {
+  const err = new Error(message)
+  err.status = status
+  err.details = details
+  return err
+}
+
+// Whether a tier-only promotion or voucher (minTierId) is open to the member
+async function tierAllows(minTierId, memberId) {
+  if (!minTierId) return true
+  const required = (await listTiers()).find((tier) => tier.id === Number(minTierId))
+  return meetsTier(await getMemberTier(memberId), required)
+}
+
+// Promotions that apply to items [{ productId, categoryId, price, quantity, name }].
+// Tier-only promotions need memberId of a member in that tier or above.
+async function calculatePromotions(items, { memberId } = {}) {
+  const now = new Date()
+  const activePromotions = await db.Promotion.findAll({
+    where: {
+      isActive: true,
+      startDate: { [Op.lte]: now },
+      endDate: { [Op.gte]: now }
+    },
+    include: [
+      {
+        model: db.ProductPromotion,
+        as: 'productPromotions',
+        include: [{ model: db.Product, as: 'product' }]
+      },
+      {
+        model: db.CategoryPromotion,
+        as: 'categoryPromotions',
+        include: [{ model: db.Category, as: 'category' }]
+      }
+    ],
+    order: [['createdAt', 'DESC']]
+  })
+
+  let totalDiscount = 0
+  const appliedPromotions = []
+
+  for (const promotion of activePromotions) {
+    if (!(await tierAllows(promotion.minTierId, memberId))) continue
+    let promotionDiscount = 0
+    const applicableItems = []
+
+    for (const item of items) {
+      let isEligible = false
+      if ((promotion.productPromotions || []).some((pp) => String(pp.productId) === String(item.productId))) {
+        isEligible = true
+      }
+      if ((promotion.categoryPromotions || []).some((cp) => String(cp.categoryId) === String(item.categoryId))) {
+        isEligible = true
+      }
+      if (isEligible) applicableItems.push(item)
+    }
+
+    if (applicableItems.length === 0) continue
+
+    switch (promotion.type) {
+      case 'PRODUCT_DISCOUNT':
+      case 'CATEGORY_DISCOUNT':
+        for (const item of applicableItems) {
+          const itemTotal = Number(item.price || 0) * Number(item.quantity || 0)
+          if (promotion.discountType === 'PERCENTAGE') {
+            promotionDiscount += (itemTotal * Number(promotion.discountValue || 0)) / 100
+          } else {
+            promotionDiscount += Math.min(Number(promotion.discountValue || 0) * Number(item.quantity || 0), itemTotal)
+          }
+        }
+        break
+      case 'BULK_DISCOUNT':
+        {
+          const totalQuantity = applicableItems.reduce((sum, it) => sum + Number(it.quantity || 0), 0)
+          const totalAmount = applicableItems.reduce((sum, it) => sum + (Number(it.price || 0) * Number(it.quantity || 0)), 0)
+          if (promotion.minQuantity && totalQuantity >= Number(promotion.minQuantity)) {
+            if (promotion.discountType === 'PERCENTAGE') {
+              promotionDiscount += (totalAmount * Number(promotion.discountValue || 0)) / 100
+            } else {
+              promotionDiscount += Math.min(Number(promotion.discountValue || 0), totalAmount)
+            }
+          }
+        }
+        break
+      case 'BUY_X_GET_Y':
+        if (promotion.buyQuantity && promotion.getQuantity) {
+          for (const item of applicableItems) {
+            const sets = Math.floor(Number(item.quantity || 0) / Number(promotion.buyQuantity || 1))
+            if (sets > 0) {
+              const freeItems = Math.min(
+                sets * Number(promotion.getQuantity || 0),
+                Number(item.quantity || 0) - (sets * Number(promotion.buyQuantity || 1))
+              )
+              if (freeItems > 0) {
+                promotionDiscount += Number(item.price || 0) * freeItems
+              }
+            }
+          }
+        }
+        break
+      default:
+        break
+    }
+
+    if (promotionDiscount > 0) {
+      const rounded = Math.round(promotionDiscount * 100) / 100
+      appliedPromotions.push({
+        id: promotion.id,
+        name: promotion.name,
+        type: promotion.type,
+        discountType: promotion.discountType,
+        discountValue: promotion.discountValue,
+        discount: rounded,
+        promotion: {
+          id: promotion.id,
+          name: promotion.name,
+          type: promotion.type,
+          discountType: promotion.discountType,
+          discountValue: promotion.discountValue
+        },
+        applicableItems: applicableItems.map((it) => ({
+          productId: it.productId,
+          name: it.name,
+          quantity: it.quantity,
+          price: it.price
+        }))
+      })
+      totalDiscount += promotionDiscount
+    }
+  }
+
+  return {
+    totalDiscount: Math.round(totalDiscount * 100) / 100,
+    appliedPromotions
+  }
+}
+
+// Check a voucher code against a subtotal. Throws a 404/400 error (with details
+// such as minPurchase) when the voucher cannot be used.
+async function checkVoucher({ code, subtotal, userId, memberId }) {
+  // Find voucher by code (case-insensitive)
+  const voucher = await db.Voucher.findOne({
+    where: (db.sequelize).where(
+      (db.sequelize).fn('LOWER', (db.sequelize).col('code')),
+      String(code).toLowerCase()
+    ),
+    attributes: [
+      'id','code','name','type','value','minPurchase','maxDiscount','maxUses','maxUsesPerUser','usedCount','startDate','endDate','isActive','minTierId','memberId','segmentId'
+    ],
+    include: [
+      {
+        model: db.VoucherUsage,
+        as: 'usages',
+        where: (userId || memberId) ? { [Op.or]: [ { userId: userId || null }, { memberId: memberId || null } ] } : undefined,
+        required: false
+      }
+    ]
+  })
+
+  if (!voucher) throw httpError(404, 'Voucher not found')
+  if (!voucher.isActive) throw httpError(400, 'Voucher is not active')
+  if (voucher.memberId && Number(voucher.memberId) !== Number(memberId)) {
+    throw httpError(400, 'Voucher belongs to another member')
+  }
+  if (!(await tierAllows(voucher.minTierId, memberId))) {
+    throw httpError(400, 'Voucher is for a higher member tier', { minTierId: voucher.minTierId })
+  }
+  if (voucher.segmentId && !(await isInSegment(memberId, voucher.segmentId))) {
+    throw httpError(400, 'Voucher is for a member segment', { segmentId: voucher.segmentId })
+  }
+
+  const now = new Date()
+  if (now < voucher.startDate || now > voucher.endDate) {
+    throw httpError(400, 'Voucher is expired or not yet valid')
+  }
+
+  const subtotalNum = Number(subtotal)
+  if (voucher.minPurchase && subtotalNum < voucher.minPurchase) {
+    throw httpError(400, `Minimum purchase of ${voucher.minPurchase} required`, { minPurchase: voucher.minPurchase })
+  }
+
+  if (voucher.maxUses && Number(voucher.usedCount || 0) >= voucher.maxUses) {
+    throw httpError(400, 'Voucher usage limit exceeded')
+  }
+
+  // Simple per-user/member usage limit: one-time usage
+  if (Array.isArray((voucher).usages) && (userId || memberId)) {
+    const userUsageCount = (voucher).usages.length
+    const perUserLimit = Number(voucher.maxUsesPerUser || 0)
+    if (perUserLimit > 0 && userUsageCount >= perUserLimit) {
+      throw httpError(400, 'Personal usage limit exceeded', { perUserLimit })
+    }
+  }
+
+  // Calculate discount (normalized lowercase types)
+  let discountAmount = 0
+  const t = String(voucher.type || '').toLowerCase()
+  if (t === 'percentage') {
+    discountAmount = (subtotalNum * Number(voucher.value)) / 100
+    if (voucher.maxDiscount && discountAmount > voucher.maxDiscount) {
+      discountAmount = voucher.maxDiscount
+    }
+  } else if (t === 'fixed') {
+    discountAmount = Math.min(Number(voucher.value), subtotalNum)
+  } else if (t === 'free_shipping') {
+    discountAmount = Number(voucher.value)
+  }
+
+  // IDR uses 0 fraction digits; round to nearest integer rupiah
+  return { voucher, discountAmount: Math.round(discountAmount) }
+}
+
+// Price a cart from the catalog: line prices from the variant or product,
+// promotions, voucher, member tier discount, member points (redeemed and earned) and tax. items are [{ productId, variantId?, quantity }].
+// discount is the cashier's manual discount in rupiah, the one number taken from the client.
+async function priceCart({ items, discount: manualDiscount = 0, pointsUsed = 0, voucherCode, memberId, userId }) {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw httpError(400, 'Items are required and must be a non-empty array')
+  }
+
+  const lines = []
+  for (const raw of items) {
+    const productId = raw && raw.productId ? String(raw.productId) : ''
+    const variantId = raw && raw.variantId ? String(raw.variantId) : null
+    const quantity = Number(raw?.quantity)
+    if (!productId) throw httpError(400, 'Each item requires productId')
+    if (!Number.isInteger(quantity) || quantity <= 0) throw httpError(400, 'Item quantity must be a positive integer')
+    const product = await db.Product.findByPk(productId, { attributes: ['id', 'name', 'price', 'categoryId'] })
+    if (!product) throw httpError(400, `Product ${productId} not found`)
+    let variant = null
+    if (variantId) {
+      variant = await db.ProductVariant.findOne({ where: { id: variantId, productId }, attributes: ['id', 'price'] })
+      if (!variant) throw httpError(400, `Variant ${variantId} does not belong to product ${productId}`)
+    }
+    const price = Number(variant?.price ?? product.price)
+    lines.push({ productId, variantId, categoryId: product.categoryId, name: product.name, quantity, price, subtotal: price * quantity })
+  }
+  const subtotal = lines.reduce((sum, l) => sum + l.subtotal, 0)
+
+  const { totalDiscount: promoDiscount, appliedPromotions } = await calculatePromotions(lines, { memberId })
+
+  let voucher = null
+  let voucherDiscount = 0
+  let voucherError = null
+  if (voucherCode) {
+    try {
+      const checked = await checkVoucher({ code: voucherCode, subtotal, userId, memberId })
+      voucher = checked.voucher
+      voucherDiscount = checked.discountAmount
+    } catch (err) {
+      if (!err?.status) throw err
+      voucherError = err.message
+    }
+  }
+
+  // The member's tier takes its percentage off what promotions and voucher left
+  const tier = await getMemberTier(memberId)
+  const tierDiscount = tier && tier.discountPercent > 0
+    ? Math.round((Math.max(subtotal - promoDiscount - voucherDiscount, 0) * tier.discountPercent) / 100)
+    : 0
+
+  const loyalty = await getLoyaltyProgram()
+  const points = Number(pointsUsed || 0)
+  if (!Number.isInteger(points) || points < 0) throw httpError(400, 'pointsUsed must be a non-negative integer')
+  if (points > 0) {
+    const member = memberId ? await db.Member.findByPk(memberId, { attributes: ['id', 'points'] }) : null
+    if (!member) throw httpError(400, 'Points can only be redeemed by a member')
+    if (Number(member.points || 0) < points) throw httpError(400, `Member only has ${member.points} points`)
+  }
+  const pointsDiscount = redeemPoints(points, loyalty)
+
+  const discount = Math.round(Number(manualDiscount || 0))
+  if (!Number.isFinite(discount) || discount < 0) throw httpError(400, 'discount must be a non-negative number')
+  if (discount > subtotal - pointsDiscount - voucherDiscount - promoDiscount - tierDiscount) {
+    throw httpError(400, 'Manual discount exceeds the amount left to pay')
+  }
+  const afterDiscounts = Math.max(subtotal - pointsDiscount - discount - voucherDiscount - promoDiscount - tierDiscount, 0)
+  // Inclusive tax is already in the prices; exclusive tax is added on top
+  const taxed = await taxLines(lines, { discount: subtotal - afterDiscounts })
+  const tax = taxed.tax
+  const finalTotal = afterDiscounts + (taxed.taxInclusive ? 0 : tax)
+  const pointsEarned = memberId ? await pointsForSale(taxed.lines, finalTotal, { program: loyalty, memberId }) : 0
+
+  return {
+    lines: taxed.lines,
+    subtotal,
+    promoDiscount,
+    appliedPromotions,
+    voucher,
+    voucherDiscount,
+    voucherError,
+    tier,
+    tierDiscount,
+    pointsUsed: points,
+    pointsDiscount,
+    pointsEarned,
+    discount,
+    tax,
+    taxInclusive: taxed.taxInclusive,
+    finalTotal
+  }
+}
+
+const differs = (a, b) => Math.abs(Number(a || 0) - Number(b || 0)) >= 0.01
+
+// Compare what the client sent with the server's pricing. Returns null when
+// they agree, otherwise the per-line and per-total differences.
+function diffPricing(input, priced) {
+  const items = []
+  ;(input.items || []).forEach((raw, index) => {
+    const line = priced.lines[index]
+    if (raw?.price != null && differs(raw.price, line.price)) {
+      items.push({ productId: line.productId, variantId: line.variantId, name: line.name, clientPrice: Number(raw.price), serverPrice: line.price })
+    }
+  })
+
+  const totals = {}
+  const compare = (field, server) => {
+    if (input[field] != null && differs(input[field], server)) totals[field] = { client: Number(input[field]), server }
+  }
+  compare('subtotal', priced.subtotal)
+  compare('discount', priced.discount)
+  compare('promoDiscount', priced.promoDiscount)
+  compare('voucherDiscount', priced.voucherDiscount)
+  compare('tierDiscount', priced.tierDiscount)
+  compare('pointsDiscount', priced.pointsDiscount)
+  compare('tax', priced.tax)
+  compare('total', priced.finalTotal)
+
+  if (items.length === 0 && Object.keys(totals).length === 0) return null
+  return { items, totals, ...(priced.voucherError ? { voucherError: priced.voucherError } : {}) }
+}
+
+module.exports = {
+  calculatePromotions,
+  checkVoucher,
+  priceCart,
+  diffPricing,
+}
@@ -0,0 +1,122 @@
+// Purchase order helpers: line validation and goods receiving.
+// Receiving books RECEIVING movements through the inventory service and
+// moves Product.costPrice to a weighted average so COGS in reports stays
+// close to what was actually paid.
+
+const db = require('../../../models')
+const { recordStockChange } = require('./inventory')
+
+function badRequest(message) {
+  const err = new Error(message)
+  err.status = 400
+  return err
+}
+
+// Average cost of stock on hand after receiving qty units at unitCost.
+// Negative on-hand stock (oversold) carries no cost, so it is treated as zero.
+function weightedAverageCost(currentStock, currentCost, qty, unitCost) {
+  const onHand = Math.max(0, Number(currentStock) || 0)
+  const cost = Number(currentCost) || 0
+  const incoming = Number(qty) || 0
+  if (onHand + incoming <= 0) return Number(unitCost) || 0
+  const avg = (onHand * cost + incoming * (Number(unitCost) || 0)) / (onHand + incoming)
+  return Math.round(avg * 100) / 100
+}
+
+// Validate PO lines against the catalog and replace the order's items
+async function replacePurchaseOrderItems(purchaseOrderId, inputs, options = {}) {
+  const { transaction } = options
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw badRequest('Purchase order requires at least one item')
+  }
+  const lines = []
+  for (const raw of inputs) {
+    const productId = raw && raw.productId ? String(raw.productId) : ''
+    const variantId = raw && raw.variantId ? String(raw.variantId) : null
+    const quantity = Number(raw?.quantity)
+    const unitCost = Number(raw?.unitCost)
+    if (!productId) throw badRequest('Each item requires productId')
+    if (!Number.isInteger(quantity) || quantity <= 0) throw badRequest('Item quantity must be a positive integer')
+    if (!Number.isFinite(unitCost) || unitCost < 0) throw badRequest('Item unitCost must be a non-negative number')
+    const product = await db.Product.findByPk(productId, { attributes: ['id'], transaction })
+    if (!product) throw badRequest(`Product ${productId} not found`)
+    if (variantId) {
+      const variant = await db.ProductVariant.findOne({ where: { id: variantId, productId }, attributes: ['id'], transaction })
+      if (!variant) throw badRequest(`Variant ${variantId} does not belong to product ${productId}`)
+    }
+    lines.push({ purchaseOrderId, productId, variantId, quantityOrdered: quantity, unitCost })
+  }
+
+  await db.PurchaseOrderItem.destroy({ where: { purchaseOrderId }, transaction })
+  await db.PurchaseOrderItem.bulkCreate(lines, { transaction })
+  const totalAmount = lines.reduce((sum, l) => sum + l.quantityOrdered * l.unitCost, 0)
+  await db.PurchaseOrder.update({ totalAmount }, { where: { id: purchaseOrderId }, transaction })
+  return totalAmount
+}
+
+// Receive some or all outstanding quantities of a sent purchase order.
+// lines: [{ purchaseOrderItemId, quantity, unitCost? }]
+async function receivePurchaseOrder(purchaseOrderId, lines, options = {}) {
+  const { userId, note } = options
+  return db.sequelize.transaction(async (t) => {
+    const order = await db.PurchaseOrder.findByPk(purchaseOrderId, {
+      include: [{ model: db.PurchaseOrderItem, as: 'items' }],
+      transaction: t
+    })
+    if (!order) {
+      const err = new Error('Purchase order not found')
+      err.status = 404
+      throw err
+    }
+    if (!['SENT', 'PARTIALLY_RECEIVED'].includes(String(order.status))) {
+      throw badRequest(`Cannot receive a purchase order in ${order.status} status`)
+    }
+    if (!Array.isArray(lines) || lines.length === 0) {
+      throw badRequest('items is required')
+    }
+
+    const itemsById = new Map((order.items || []).map((item) => [String(item.id), item]))
+    const received = []
+    for (const line of lines) {
+      const item = itemsById.get(String(line?.purchaseOrderItemId || ''))
+      if (!item) throw badRequest(`Unknown purchase order item ${line?.purchaseOrderItemId}`)
+      const qty = Number(line.quantity)
+      if (!Number.isInteger(qty) || qty < 0) throw badRequest('Received quantity must be a non-negative integer')
+      if (qty === 0) continue
+      if (qty > item.getRemainingQuantity()) {
+        throw badRequest(`Received quantity exceeds remaining ${item.getRemainingQuantity()} for item ${item.id}`)
+      }
+      const unitCost = line.unitCost === undefined || line.unitCost === null || line.unitCost === ''
+        ? Number(item.unitCost)
+        : Number(line.unitCost)
+      if (!Number.isFinite(unitCost) || unitCost < 0) throw badRequest('unitCost must be a non-negative number')
+
+      // Cost is averaged against stock on hand before this delivery lands
+      const product = await db.Product.findByPk(item.productId, { attributes: ['id', 'stock', 'costPrice'], transaction: t })
+      const costPrice = weightedAverageCost(product?.stock, product?.costPrice, qty, unitCost)
+      await db.Product.update({ costPrice }, { where: { id: item.productId }, transaction: t })
+      await recordStockChange({
+        productId: item.productId,
+        variantId: item.variantId,
+        delta: qty,
+        reason: 'RECEIVING',
+        referenceId: order.id,
+        userId,
+        note: note || `Penerimaan ${order.poNumber}`
+      }, { transaction: t })
+      await item.update({ quantityReceived: Number(item.quantityReceived || 0) + qty }, { transaction: t })
+      received.push({ purchaseOrderItemId: item.id, productId: item.productId, variantId: item.variantId, quantity: qty, unitCost, costPrice })
+    }
+    if (received.length === 0) throw badRequest('Nothing to receive')
+
+    const fullyReceived = (order.items || []).every((item) => item.getRemainingQuantity() === 0)
+    await order.update({ status: fullyReceived ? 'RECEIVED' : 'PARTIALLY_RECEIVED' }, { transaction: t })
+    return { order, received }
+  })
+}
+
+module.exports = {
+  weightedAverageCost,
+  replacePurchaseOrderItems,
+  receivePurchaseOrder,
+}
@@ -0,0 +1,44 @@
+// Email receipts: the HTML receipt with the PDF receipt attached, sent to the
+// address given by the cashier or the one saved on the transaction or member.
+
+const mailer = require('./mailer')
+const { STORE, formatReceiptHtml, formatSimpleReceipt } = require('./receiptFormatter')
+const { renderReceiptPdf } = require('./receiptPdf')
+const { loadReceipt } = require('./receipts')
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+// Send the receipt of a transaction by email. An address typed by the cashier
+// is saved on a transaction that has none, so later resends can use it.
+async function sendReceiptEmail(transactionId, { email } = {}, { now = new Date() } = {}) {
+  const loaded = await loadReceipt(transactionId)
+  if (!loaded) throw httpError(404, 'Transaction not found')
+  const { transaction, receipt } = loaded
+
+  const address = String(email || transaction.customerEmail || transaction.member?.email || '').trim()
+  if (!address) throw httpError(400, 'Email address is required')
+  if (!EMAIL_PATTERN.test(address)) throw httpError(400, 'Invalid email address')
+  if (!mailer.isEmailConfigured()) throw httpError(503, 'Email is not configured')
+
+  const sent = await mailer.sendMail({
+    to: address,
+    subject: `Struk belanja ${STORE.name} #${transaction.id}`,
+    html: formatReceiptHtml(receipt),
+    text: formatSimpleReceipt(receipt),
+    attachments: [{ filename: `struk-${transaction.id}.pdf`, content: renderReceiptPdf(receipt), contentType: 'application/pdf' }],
+  })
+  if (!sent.success) throw httpError(502, `Failed to send email: ${sent.error}`)
+
+  if (!transaction.customerEmail) await transaction.update({ customerEmail: address })
+  return { transactionId: transaction.id, email: address, messageId: sent.messageId || null, sentAt: now }
+}
+
+module.exports = {
+  sendReceiptEmail,
+}
@@ -1,5 +1,13 @@
 // Lightweight JS adapter mirroring key functions from lib/receiptFormatter.ts
 
+// Store details printed at the foot of every receipt
+const STORE = {
+  name: 'Wear Calaa',
+  address: ['Jl. KH. M. Sadeli, Karangasem', 'Kec. Cibeber, Kota Cilegon', 'Banten 42426'],
+  phone: '0821-1382-3194',
+  social: 'Instagram/TikTok @wear.calaa',
+}
+
 function formatCurrency(amount) {
   const num = Number.isFinite(amount) ? amount : 0
   return new Intl.NumberFormat('id-ID', {
@@ -28,6 +36,7 @@ function getStatusLabel(status) {
     PENDING: 'Menunggu',
     CANCELLED: 'Dibatalkan',
     REFUNDED: 'Dikembalikan',
+    PARTIALLY_REFUNDED: 'Dikembalikan Sebagian',
   }
   return statusLabels[status] || status
 }
@@ -64,6 +73,13 @@ function toNumber(value) {
   return 0
 }
 
+// Per-line PPN note, e.g. "PPN 11%: Rp 11.000" ("Termasuk PPN ..." for inclusive prices)
+function formatLineTax(item, inclusive) {
+  const taxAmount = toNumber(item.taxAmount)
+  if (taxAmount <= 0) return ''
+  return `${inclusive ? 'Termasuk ' : ''}PPN ${toNumber(item.taxRate)}%: ${formatCurrency(taxAmount)}`
+}
+
 function formatReceiptForWhatsApp(transaction) {
   let receipt = `*Terima kasih telah berbelanja di Wear Calaa!*\n`
 
@@ -95,18 +111,18 @@ function formatReceiptForWhatsApp(transaction) {
     const itemPrice = toNumber(item.price)
     const itemTotal = toNumber(item.total)
     const qty = toNumber(item.quantity)
-    receipt += `    Jumlah: ${qty} × ${formatCurrency(itemPrice)} = *${formatCurrency(itemTotal)}*\n\n`
+    receipt += `    Jumlah: ${qty} × ${formatCurrency(itemPrice)} = *${formatCurrency(itemTotal)}*\n`
+    const lineTax = formatLineTax(item, transaction.taxInclusive)
+    if (lineTax) receipt += `    ${lineTax}\n`
+    receipt += `\n`
   })
 
   receipt += `✅ *RINCIAN PEMBAYARAN*\n`
   const subtotal = toNumber(transaction.subtotal)
   receipt += `Subtotal: ${formatCurrency(subtotal)}\n`
-  const tax = toNumber(transaction.tax)
-  if (tax > 0) receipt += `Pajak: ${formatCurrency(tax)}\n`
-
   const pointsUsed = toNumber(transaction.pointsUsed)
   if (pointsUsed > 0) {
-    const pointDiscount = pointsUsed * 1000
+    const pointDiscount = toNumber(transaction.pointsDiscount)
     receipt += `Diskon Poin (${pointsUsed} poin): -${formatCurrency(pointDiscount)}\n`
   }
 
@@ -121,6 +137,19 @@ function formatReceiptForWhatsApp(transaction) {
     receipt += `Diskon Promosi: -${formatCurrency(promotionDiscount)}\n`
   }
 
+  const tierDiscount = toNumber(transaction.tierDiscount)
+  if (tierDiscount > 0) {
+    receipt += `Diskon Member: -${formatCurrency(tierDiscount)}\n`
+  }
+
+  // PPN is charged on the discounted amount, so it follows the discounts
+  const tax = toNumber(transaction.tax)
+  if (tax > 0) {
+    receipt += transaction.taxInclusive
+      ? `PPN (termasuk dalam harga): ${formatCurrency(tax)}\n`
+      : `PPN: ${formatCurrency(tax)}\n`
+  }
+
   const finalTotal = toNumber(transaction.finalTotal)
   receipt += `\n *TOTAL PEMBAYARAN: ${formatCurrency(finalTotal)}*\n`
 
@@ -130,17 +159,105 @@ function formatReceiptForWhatsApp(transaction) {
   const pointsEarned = toNumber(transaction.pointsEarned)
   if (pointsEarned > 0) receipt += `Poin Diperoleh: +${pointsEarned} poin\n`
 
-  receipt += `\n👕 *WEAR CALAA*\n`
-  receipt += `📍 Jl. KH. M. Sadeli, Karangasem\n`
-  receipt += `   Kec. Cibeber, Kota Cilegon\n`
-  receipt += `   Banten 42426\n`
-  receipt += `📞 0821-1382-3194\n`
-  receipt += `📱 Instagram/TikTok @wear.calaa\n`
+  receipt += `\n👕 *${STORE.name.toUpperCase()}*\n`
+  STORE.address.forEach((line, index) => {
+    receipt += `${index === 0 ? '📍 ' : '   '}${line}\n`
+  })
+  receipt += `📞 ${STORE.phone}\n`
+  receipt += `📱 ${STORE.social}\n`
 
   receipt += `\n🙏 Terima kasih! Sampai jumpa di Wear Calaa!`
   return receipt
 }
 
+// Subtotal, discount and tax rows of the payment summary as [label, amount]
+// pairs; discounts are negative. Shared by the HTML and PDF receipts.
+function summaryRows(transaction) {
+  const rows = [['Subtotal', toNumber(transaction.subtotal)]]
+  const discount = toNumber(transaction.discount)
+  if (discount > 0) rows.push(['Diskon', -discount])
+  const pointsUsed = toNumber(transaction.pointsUsed)
+  if (pointsUsed > 0) rows.push([`Diskon Poin (${pointsUsed} poin)`, -toNumber(transaction.pointsDiscount)])
+  const voucherDiscount = toNumber(transaction.voucherDiscount)
+  if (voucherDiscount > 0) rows.push([transaction.voucherCode ? `Diskon Voucher (${transaction.voucherCode})` : 'Diskon Voucher', -voucherDiscount])
+  const promotionDiscount = toNumber(transaction.promotionDiscount)
+  if (promotionDiscount > 0) rows.push(['Diskon Promosi', -promotionDiscount])
+  const tierDiscount = toNumber(transaction.tierDiscount)
+  if (tierDiscount > 0) rows.push(['Diskon Member', -tierDiscount])
+  const tax = toNumber(transaction.tax)
+  if (tax > 0) rows.push([transaction.taxInclusive ? 'PPN (termasuk dalam harga)' : 'PPN', tax])
+  return rows
+}
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+
+const formatSigned = (amount) => (amount < 0 ? `-${formatCurrency(-amount)}` : formatCurrency(amount))
+
+// Receipt for email, with the same content as the WhatsApp receipt. Inline
+// styles only, since most mail clients drop <style> blocks.
+function formatReceiptHtml(transaction) {
+  const cell = 'padding:6px 0;border-bottom:1px solid #e5e7eb;vertical-align:top;'
+  const customer = transaction.member
+    ? `Member: ${escapeHtml(transaction.member.name)}`
+    : transaction.customer ? `Pelanggan: ${escapeHtml(transaction.customer)}` : ''
+
+  const items = (transaction.items || []).map((item) => {
+    const details = [
+      item.productCode && `Kode: ${escapeHtml(item.productCode)}`,
+      item.size && `Ukuran: ${escapeHtml(item.size)}`,
+      item.color && `Warna: ${escapeHtml(item.color)}`,
+      formatLineTax(item, transaction.taxInclusive),
+    ].filter(Boolean).join(' · ')
+    return `<tr>
+      <td style="${cell}"><strong>${escapeHtml(item.name)}</strong>${details ? `<br><span style="color:#6b7280;font-size:12px;">${details}</span>` : ''}</td>
+      <td style="${cell}text-align:right;white-space:nowrap;">${toNumber(item.quantity)} × ${formatCurrency(toNumber(item.price))}</td>
+      <td style="${cell}text-align:right;white-space:nowrap;">${formatCurrency(toNumber(item.total))}</td>
+    </tr>`
+  }).join('')
+
+  const summary = summaryRows(transaction).map(([label, amount]) => `<tr>
+      <td style="padding:3px 0;color:#4b5563;">${escapeHtml(label)}</td>
+      <td style="padding:3px 0;text-align:right;">${formatSigned(amount)}</td>
+    </tr>`).join('')
+
+  const pointsEarned = toNumber(transaction.pointsEarned)
+  return `<!DOCTYPE html>
+<html lang="id">
+<head><meta charset="utf-8"><title>Struk ${escapeHtml(transaction.id)}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Arial,Helvetica,sans-serif;color:#111827;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px;">
+    <h1 style="margin:0 0 4px;font-size:20px;">${escapeHtml(STORE.name)}</h1>
+    <p style="margin:0 0 16px;color:#6b7280;font-size:13px;">Terima kasih telah berbelanja di ${escapeHtml(STORE.name)}!</p>
+    <p style="margin:0;font-size:13px;line-height:1.6;">
+      No. Transaksi: <strong>${escapeHtml(transaction.id)}</strong><br>
+      Tanggal: ${escapeHtml(formatDate(transaction.createdAt))}<br>
+      Kasir: ${escapeHtml(transaction.user?.name || transaction.cashier || 'Admin')}${customer ? `<br>${customer}` : ''}
+    </p>
+    <table style="width:100%;border-collapse:collapse;margin-top:16px;font-size:13px;">${items}</table>
+    <table style="width:100%;border-collapse:collapse;margin-top:12px;font-size:13px;">${summary}
+      <tr>
+        <td style="padding:8px 0;border-top:2px solid #111827;font-weight:bold;">Total Pembayaran</td>
+        <td style="padding:8px 0;border-top:2px solid #111827;font-weight:bold;text-align:right;">${formatCurrency(toNumber(transaction.finalTotal))}</td>
+      </tr>
+    </table>
+    <p style="margin:12px 0 0;font-size:13px;line-height:1.6;">
+      Metode Pembayaran: ${escapeHtml(getPaymentMethodLabel(transaction.paymentMethod))}<br>
+      Status: ${escapeHtml(getStatusLabel(transaction.status))}${pointsEarned > 0 ? `<br>Poin Diperoleh: +${pointsEarned} poin` : ''}
+    </p>
+    <p style="margin:24px 0 0;padding-top:12px;border-top:1px solid #e5e7eb;color:#6b7280;font-size:12px;line-height:1.6;">
+      ${STORE.address.map(escapeHtml).join('<br>')}<br>
+      ${escapeHtml(STORE.phone)} · ${escapeHtml(STORE.social)}
+    </p>
+  </div>
+</body>
+</html>`
+}
+
 function formatSimpleReceipt(transaction) {
   const lines = []
   lines.push(`Transaksi #${transaction.id}`)
@@ -153,8 +270,12 @@ function formatSimpleReceipt(transaction) {
     const price = toNumber(i.price)
     const total = toNumber(i.total)
     lines.push(`- ${i.name} x${qty} @ ${formatCurrency(price)} = ${formatCurrency(total)}`)
+    const lineTax = formatLineTax(i, transaction.taxInclusive)
+    if (lineTax) lines.push(`  ${lineTax}`)
   })
   lines.push('')
+  const tax = toNumber(transaction.tax)
+  if (tax > 0) lines.push(`${transaction.taxInclusive ? 'Termasuk PPN' : 'PPN'}: ${formatCurrency(tax)}`)
   lines.push(`Total: ${formatCurrency(toNumber(transaction.finalTotal))}`)
   lines.push(`Metode: ${getPaymentMethodLabel(transaction.paymentMethod)}`)
   return lines.join('\n')
@@ -181,7 +302,17 @@ function validatePhoneNumber(phoneNumber) {
 }
 
 module.exports = {
+  STORE,
+  formatCurrency,
+  formatDate,
+  formatLineTax,
+  toNumber,
+  getPaymentMethodLabel,
+  getStatusLabel,
+  summaryRows,
+  formatSigned,
   formatReceiptForWhatsApp,
+  formatReceiptHtml,
   formatSimpleReceipt,
   validatePhoneNumber,
 }
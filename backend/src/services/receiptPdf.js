@@ -0,0 +1,399 @@
+// Receipts and invoices as PDF (jsPDF). Receipt pages are 80 mm wide like a
+// thermal printer roll and as long as the content; invoices are A4 for
+// business customers. Text comes from the same receipt data and helpers as
+// the WhatsApp receipt.
+
+const fs = require('fs')
+const path = require('path')
+const { jsPDF } = require('jspdf')
+const {
+  STORE,
+  formatCurrency,
+  formatDate,
+  formatLineTax,
+  formatSigned,
+  toNumber,
+  getPaymentMethodLabel,
+  getStatusLabel,
+  summaryRows,
+} = require('./receiptFormatter')
+
+const WIDTH = 80
+const MARGIN = 5
+const LINE = 3.8
+const AMOUNT_WIDTH = 26
+
+// Store NPWP and logo (PNG/JPEG) printed in the header, from the environment
+const storeNpwp = () => (process.env.STORE_NPWP || '').trim()
+
+let logoCache = { file: null, logo: null }
+function storeLogo(doc) {
+  const file = (process.env.STORE_LOGO_PATH || '').trim()
+  if (!file) return null
+  if (logoCache.file !== file) {
+    let logo = null
+    try {
+      const data = new Uint8Array(fs.readFileSync(path.resolve(file)))
+      const { width, height, fileType } = doc.getImageProperties(data)
+      logo = { data, width, height, format: fileType }
+    } catch (err) {
+      console.warn(`[Receipt PDF] Cannot use store logo ${file}:`, err?.message || err)
+    }
+    logoCache = { file, logo }
+  }
+  return logoCache.logo
+}
+
+// Logo size within a box, keeping its aspect ratio
+function fitLogo(logo, maxWidth, maxHeight) {
+  const scale = Math.min(maxWidth / logo.width, maxHeight / logo.height)
+  return { width: logo.width * scale, height: logo.height * scale }
+}
+
+// Draw the receipt from the top of the page; returns the height used
+function drawReceipt(doc, transaction) {
+  let y = MARGIN + 3
+
+  const font = (size, style = 'normal') => {
+    doc.setFont('helvetica', style)
+    doc.setFontSize(size)
+  }
+  const centered = (value, size = 8, style = 'normal') => {
+    font(size, style)
+    doc.text(String(value), WIDTH / 2, y, { align: 'center' })
+    y += LINE + (size > 8 ? 1 : 0)
+  }
+  const paragraph = (value, size = 8, style = 'normal') => {
+    font(size, style)
+    const lines = doc.splitTextToSize(String(value), WIDTH - 2 * MARGIN)
+    doc.text(lines, MARGIN, y)
+    y += LINE * lines.length
+  }
+  const row = (label, amount, style = 'normal') => {
+    font(8, style)
+    const lines = doc.splitTextToSize(String(label), WIDTH - 2 * MARGIN - AMOUNT_WIDTH)
+    doc.text(lines, MARGIN, y)
+    doc.text(String(amount), WIDTH - MARGIN, y, { align: 'right' })
+    y += LINE * lines.length
+  }
+  const rule = () => {
+    doc.setLineWidth(0.2)
+    doc.setLineDashPattern([0.8, 0.8], 0)
+    doc.line(MARGIN, y - 1.5, WIDTH - MARGIN, y - 1.5)
+    y += 2
+  }
+
+  const logo = storeLogo(doc)
+  if (logo) {
+    const size = fitLogo(logo, 30, 16)
+    doc.addImage(logo.data, logo.format, (WIDTH - size.width) / 2, y - 2, size.width, size.height)
+    y += size.height + 2
+  }
+  centered(STORE.name.toUpperCase(), 12, 'bold')
+  STORE.address.forEach((line) => centered(line, 7))
+  centered(STORE.phone, 7)
+  if (storeNpwp()) centered(`NPWP: ${storeNpwp()}`, 7)
+  rule()
+
+  paragraph(`No. Transaksi: ${transaction.id}`)
+  paragraph(`Tanggal: ${formatDate(transaction.createdAt)}`)
+  paragraph(`Kasir: ${transaction.user?.name || transaction.cashier || 'Admin'}`)
+  if (transaction.member) paragraph(`Member: ${transaction.member.name}`)
+  else if (transaction.customer) paragraph(`Pelanggan: ${transaction.customer}`)
+  rule()
+
+  ;(transaction.items || []).forEach((item) => {
+    paragraph(item.name, 8, 'bold')
+    const details = [
+      item.productCode && `Kode: ${item.productCode}`,
+      item.size && `Ukuran: ${item.size}`,
+      item.color && `Warna: ${item.color}`,
+    ].filter(Boolean).join(', ')
+    if (details) paragraph(details, 7)
+    row(`${toNumber(item.quantity)} x ${formatCurrency(toNumber(item.price))}`, formatCurrency(toNumber(item.total)))
+    const lineTax = formatLineTax(item, transaction.taxInclusive)
+    if (lineTax) paragraph(lineTax, 7)
+  })
+  rule()
+
+  summaryRows(transaction).forEach(([label, amount]) => row(label, formatSigned(amount)))
+  row('TOTAL', formatCurrency(toNumber(transaction.finalTotal)), 'bold')
+  y += 1
+  paragraph(`Metode Pembayaran: ${getPaymentMethodLabel(transaction.paymentMethod)}`)
+  paragraph(`Status: ${getStatusLabel(transaction.status)}`)
+  const pointsEarned = toNumber(transaction.pointsEarned)
+  if (pointsEarned > 0) paragraph(`Poin Diperoleh: +${pointsEarned} poin`)
+  rule()
+
+  centered(`Terima kasih telah berbelanja di ${STORE.name}!`, 7)
+  centered(STORE.social, 7)
+  return y + MARGIN
+}
+
+// The receipt as a PDF file (Buffer)
+function renderReceiptPdf(transaction) {
+  // Lay out once on a scratch page to learn how long the page must be
+  const height = drawReceipt(new jsPDF({ unit: 'mm', format: [WIDTH, 1000] }), transaction)
+  const doc = new jsPDF({ unit: 'mm', format: [WIDTH, Math.max(height, WIDTH)] })
+  drawReceipt(doc, transaction)
+  return Buffer.from(doc.output('arraybuffer'))
+}
+
+const A4 = { width: 210, height: 297 }
+const PAGE_MARGIN = 15
+const ROW = 5
+// Line item table: left edges of No and Produk, right edges of the amounts
+const COLUMNS = { no: PAGE_MARGIN, product: PAGE_MARGIN + 9, quantity: 112, price: 140, discount: 167, amount: A4.width - PAGE_MARGIN }
+const PRODUCT_WIDTH = 72
+
+const itemDetails = (item) => [
+  item.productCode && `Kode: ${item.productCode}`,
+  item.size && `Ukuran: ${item.size}`,
+  item.color && `Warna: ${item.color}`,
+].filter(Boolean).join(' · ')
+
+// DPP and PPN per tax rate; exempt and untaxed lines get their own rows
+function taxBreakdown(transaction) {
+  const groups = new Map()
+  for (const item of transaction.items || []) {
+    const rate = toNumber(item.taxRate)
+    const key = item.taxExempt ? 'exempt' : rate > 0 ? `rate-${rate}` : 'none'
+    const label = item.taxExempt ? 'Dibebaskan PPN' : rate > 0 ? `PPN ${rate}%` : 'Tidak dikenakan PPN'
+    const group = groups.get(key) || { label, rate: item.taxExempt ? -1 : rate, base: 0, tax: 0 }
+    group.base += toNumber(item.taxableAmount)
+    group.tax += toNumber(item.taxAmount)
+    groups.set(key, group)
+  }
+  return [...groups.values()].sort((a, b) => b.rate - a.rate)
+}
+
+function paymentState(transaction) {
+  if (transaction.status === 'REFUNDED') return 'DIKEMBALIKAN'
+  if (transaction.status === 'PENDING' || transaction.paymentStatus === 'PENDING') return 'BELUM DIBAYAR'
+  return 'LUNAS'
+}
+
+// Draw the invoice, adding pages as the line items need them
+function drawInvoice(doc, transaction, invoice) {
+  const right = A4.width - PAGE_MARGIN
+  let y = PAGE_MARGIN
+
+  const font = (size, style = 'normal', gray = 17) => {
+    doc.setFont('helvetica', style)
+    doc.setFontSize(size)
+    doc.setTextColor(gray)
+  }
+  const line = (top, gray = 200, width = 0.2) => {
+    doc.setDrawColor(gray)
+    doc.setLineWidth(width)
+    doc.line(PAGE_MARGIN, top, right, top)
+  }
+  const pair = (label, value, x, top, labelWidth = 30) => {
+    font(9, 'normal', 100)
+    doc.text(label, x, top)
+    font(9, 'bold')
+    doc.text(String(value), x + labelWidth, top)
+  }
+
+  // Header: store on the left, invoice details on the right
+  const logo = storeLogo(doc)
+  let textX = PAGE_MARGIN
+  if (logo) {
+    const size = fitLogo(logo, 36, 20)
+    doc.addImage(logo.data, logo.format, PAGE_MARGIN, y - 1, size.width, size.height)
+    textX += size.width + 4
+  }
+  font(16, 'bold')
+  doc.text(STORE.name, textX, y + 5)
+  font(8.5, 'normal', 80)
+  const storeLines = [...STORE.address, `Telp. ${STORE.phone}`]
+  if (storeNpwp()) storeLines.push(`NPWP: ${storeNpwp()}`)
+  doc.text(storeLines, textX, y + 10.5)
+  const storeBottom = y + 10.5 + storeLines.length * 3.8
+
+  font(20, 'bold', 37)
+  doc.text('INVOICE', right, y + 6, { align: 'right' })
+  const details = [
+    ['No. Invoice', invoice.number],
+    ['Tanggal Invoice', formatDate(invoice.issuedAt)],
+    ['Tanggal Transaksi', formatDate(transaction.createdAt)],
+    ['No. Transaksi', transaction.id],
+  ]
+  details.forEach(([label, value], index) => {
+    const top = y + 13 + index * ROW
+    font(8.5, 'normal', 100)
+    doc.text(label, right - 82, top)
+    font(8.5, 'bold')
+    doc.text(String(value), right, top, { align: 'right' })
+  })
+  y = Math.max(storeBottom, y + 13 + details.length * ROW) + 2
+  line(y, 60, 0.5)
+  y += 7
+
+  // Customer and cashier
+  font(9, 'bold', 100)
+  doc.text('DITAGIHKAN KEPADA', PAGE_MARGIN, y)
+  const customer = [
+    transaction.member?.name || transaction.customer || 'Pelanggan umum',
+    transaction.customerPhone || transaction.member?.phone,
+    transaction.customerEmail || transaction.member?.email,
+  ].filter(Boolean)
+  font(10, 'bold')
+  doc.text(customer[0], PAGE_MARGIN, y + ROW)
+  font(9, 'normal', 60)
+  doc.text(customer.slice(1), PAGE_MARGIN, y + 2 * ROW)
+  pair('Kasir', transaction.user?.name || transaction.cashier || 'Admin', 120, y)
+  pair('Status', paymentState(transaction), 120, y + ROW)
+  y += Math.max(customer.length, 2) * ROW + 6
+
+  // Line items
+  const tableHeader = () => {
+    doc.setFillColor(243, 244, 246)
+    doc.rect(PAGE_MARGIN, y - 4.5, right - PAGE_MARGIN, 7, 'F')
+    font(8.5, 'bold', 60)
+    doc.text('No', COLUMNS.no + 1, y)
+    doc.text('Produk', COLUMNS.product, y)
+    doc.text('Qty', COLUMNS.quantity, y, { align: 'right' })
+    doc.text('Harga', COLUMNS.price, y, { align: 'right' })
+    doc.text('Diskon', COLUMNS.discount, y, { align: 'right' })
+    doc.text('Jumlah', COLUMNS.amount - 1, y, { align: 'right' })
+    y += 7.5
+  }
+  const ensureSpace = (height, withHeader = false) => {
+    if (y + height <= A4.height - PAGE_MARGIN - 8) return
+    doc.addPage()
+    y = PAGE_MARGIN + 5
+    if (withHeader) tableHeader()
+  }
+
+  tableHeader()
+  ;(transaction.items || []).forEach((item, index) => {
+    font(9, 'bold')
+    const nameLines = doc.splitTextToSize(item.name, PRODUCT_WIDTH)
+    font(7.5)
+    const detailLines = itemDetails(item) ? doc.splitTextToSize(itemDetails(item), PRODUCT_WIDTH) : []
+    const lineTax = formatLineTax(item, transaction.taxInclusive)
+    const height = nameLines.length * 4 + (detailLines.length + (lineTax ? 1 : 0)) * 3.5 + 2.5
+    ensureSpace(height, true)
+
+    const discount = toNumber(item.discount)
+    font(9)
+    doc.text(String(index + 1), COLUMNS.no + 1, y)
+    doc.text(String(toNumber(item.quantity)), COLUMNS.quantity, y, { align: 'right' })
+    doc.text(formatCurrency(toNumber(item.price)), COLUMNS.price, y, { align: 'right' })
+    doc.text(discount > 0 ? `-${formatCurrency(discount)}` : '-', COLUMNS.discount, y, { align: 'right' })
+    doc.text(formatCurrency(toNumber(item.total) - discount), COLUMNS.amount - 1, y, { align: 'right' })
+    font(9, 'bold')
+    doc.text(nameLines, COLUMNS.product, y)
+    let top = y + nameLines.length * 4
+    font(7.5, 'normal', 100)
+    if (detailLines.length) {
+      doc.text(detailLines, COLUMNS.product, top - 0.5)
+      top += detailLines.length * 3.5
+    }
+    if (lineTax) {
+      doc.text(lineTax, COLUMNS.product, top - 0.5)
+      top += 3.5
+    }
+    y = top
+    line(y - 2)
+    y += 3
+  })
+
+  // Totals on the right
+  const rows = summaryRows(transaction)
+  ensureSpace((rows.length + 1) * ROW + 6)
+  y += 2
+  rows.forEach(([label, amount]) => {
+    font(9, 'normal', 60)
+    doc.text(label, 120, y)
+    font(9)
+    doc.text(formatSigned(amount), COLUMNS.amount - 1, y, { align: 'right' })
+    y += ROW
+  })
+  doc.setDrawColor(60)
+  doc.setLineWidth(0.4)
+  doc.line(120, y - 3, right, y - 3)
+  font(11, 'bold')
+  doc.text('TOTAL', 120, y + 2)
+  doc.text(formatCurrency(toNumber(transaction.finalTotal)), COLUMNS.amount - 1, y + 2, { align: 'right' })
+  y += 12
+
+  // Tax breakdown per rate
+  const taxes = taxBreakdown(transaction)
+  if (taxes.some((group) => group.tax > 0 || group.rate === -1)) {
+    ensureSpace((taxes.length + 2) * ROW + 6)
+    font(9, 'bold', 100)
+    doc.text('RINCIAN PAJAK', PAGE_MARGIN, y)
+    y += ROW
+    font(8.5, 'bold', 60)
+    doc.text('Dasar Pengenaan Pajak (DPP)', 110, y, { align: 'right' })
+    doc.text('PPN', 150, y, { align: 'right' })
+    y += ROW
+    taxes.forEach((group) => {
+      font(9, 'normal', 60)
+      doc.text(group.label, PAGE_MARGIN, y)
+      font(9)
+      doc.text(formatCurrency(group.base), 110, y, { align: 'right' })
+      doc.text(group.tax > 0 ? formatCurrency(group.tax) : '-', 150, y, { align: 'right' })
+      y += ROW
+    })
+    if (transaction.taxInclusive) {
+      font(7.5, 'normal', 100)
+      doc.text('Harga sudah termasuk PPN.', PAGE_MARGIN, y)
+      y += ROW
+    }
+    y += 4
+  }
+
+  // Payment
+  const payments = (transaction.payments || []).length > 0
+    ? transaction.payments
+    : [{ method: transaction.paymentMethod, amount: transaction.finalTotal }]
+  ensureSpace((payments.length + 3) * ROW + 6)
+  font(9, 'bold', 100)
+  doc.text('PEMBAYARAN', PAGE_MARGIN, y)
+  y += ROW
+  payments.forEach((payment) => {
+    font(9, 'normal', 60)
+    doc.text(getPaymentMethodLabel(payment.method) + (payment.reference ? ` (Ref. ${payment.reference})` : ''), PAGE_MARGIN, y)
+    font(9)
+    doc.text(formatCurrency(toNumber(payment.amount)), 110, y, { align: 'right' })
+    y += ROW
+  })
+  const paidAt = paymentState(transaction) === 'LUNAS' ? transaction.paidAt || transaction.createdAt : null
+  pair('Status', paymentState(transaction) + (paidAt ? ` · ${formatDate(paidAt)}` : ''), PAGE_MARGIN, y, 25)
+  y += ROW
+  const refunded = toNumber(transaction.refundedAmount)
+  if (refunded > 0) {
+    pair('Dikembalikan', formatCurrency(refunded), PAGE_MARGIN, y, 25)
+    y += ROW
+  }
+  y += 6
+
+  ensureSpace(12)
+  font(8.5, 'normal', 100)
+  doc.text(`Terima kasih telah berbelanja di ${STORE.name}!`, A4.width / 2, y, { align: 'center' })
+  doc.text(STORE.social, A4.width / 2, y + 4, { align: 'center' })
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages()
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page)
+    font(7.5, 'normal', 140)
+    doc.text(`${invoice.number} · Halaman ${page} dari ${pages}`, right, A4.height - 8, { align: 'right' })
+  }
+}
+
+// The invoice as a PDF file (Buffer); invoice is the issued Invoice row
+function renderInvoicePdf(transaction, invoice) {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+  doc.setProperties({ title: `Invoice ${invoice.number}`, author: STORE.name })
+  drawInvoice(doc, transaction, invoice)
+  return Buffer.from(doc.output('arraybuffer'))
+}
+
+module.exports = {
+  renderReceiptPdf,
+  renderInvoicePdf,
+}
@@ -0,0 +1,90 @@
+// Receipt data for a saved transaction, in the shape the receipt formatters
+// (services/receiptFormatter.js) expect.
+
+const db = require('../../../models')
+
+const RECEIPT_INCLUDE = [
+  { model: db.TransactionItem, as: 'items', include: [{ model: db.Product, as: 'product' }, { model: db.ProductVariant, as: 'variant' }] },
+  { model: db.Member, as: 'member' },
+  { model: db.User, as: 'user' },
+  { model: db.VoucherUsage, as: 'voucherUsages', include: [{ model: db.Voucher, as: 'voucher', attributes: ['id', 'code'] }] },
+  { model: db.TransactionPayment, as: 'payments' },
+]
+
+// Part of the sale's discounts carried by a line: what is left of the line
+// after discounts is its tax base plus, for tax-inclusive prices, its tax.
+// Lines priced before tax was tracked have no tax base; they show none.
+function lineDiscount(item, taxInclusive, tracked) {
+  if (!tracked) return 0
+  const net = Number(item.taxableAmount || 0) + (taxInclusive ? Number(item.taxAmount || 0) : 0)
+  return Math.max(0, Math.round(Number(item.subtotal || 0) - net))
+}
+
+function receiptData(transaction) {
+  const voucherUsage = (transaction.voucherUsages || []).find((usage) => !!usage.voucher)
+  const tracked = (transaction.items || []).some((item) => Number(item.taxableAmount || 0) > 0 || Number(item.taxAmount || 0) > 0)
+  return {
+    id: transaction.id,
+    createdAt: transaction.createdAt,
+    items: (transaction.items || []).map((item) => ({
+      id: item.id,
+      name: (item.product && item.product.name) || 'Unknown Product',
+      quantity: item.quantity,
+      price: item.price,
+      total: item.subtotal,
+      taxRate: item.taxRate,
+      taxAmount: item.taxAmount,
+      taxExempt: !!item.taxExempt,
+      taxableAmount: item.taxableAmount,
+      discount: lineDiscount(item, transaction.taxInclusive, tracked),
+      productCode: item.variant ? item.variant.productCode : (item.product ? item.product.code : undefined),
+      size: item.variant ? item.variant.size : (item.product ? item.product.size : undefined),
+      color: item.variant ? item.variant.color : (item.product ? item.product.color : undefined),
+    })),
+    subtotal: (transaction.items || []).reduce((sum, it) => sum + Number(it.subtotal || 0), 0),
+    tax: transaction.tax,
+    taxInclusive: transaction.taxInclusive,
+    finalTotal: transaction.finalTotal,
+    paymentMethod: transaction.paymentMethod,
+    paymentStatus: transaction.paymentStatus || undefined,
+    paidAt: transaction.paidAt || undefined,
+    payments: (transaction.payments || []).map((payment) => ({
+      method: payment.method,
+      amount: payment.amount,
+      reference: payment.reference || undefined,
+      status: payment.status,
+    })),
+    refundedAmount: transaction.refundedAmount,
+    status: transaction.status,
+    cashier: undefined,
+    customer: transaction.customerName || undefined,
+    customerPhone: transaction.customerPhone || undefined,
+    customerEmail: transaction.customerEmail || undefined,
+    discount: transaction.discount,
+    pointsUsed: transaction.pointsUsed,
+    pointsDiscount: transaction.pointsDiscount,
+    pointsEarned: transaction.pointsEarned,
+    voucherCode: voucherUsage ? voucherUsage.voucher.code : undefined,
+    voucherDiscount: transaction.voucherDiscount,
+    promotionDiscount: transaction.promoDiscount,
+    tierDiscount: transaction.tierDiscount,
+    member: transaction.member ? {
+      name: transaction.member.name,
+      phone: transaction.member.phone || '',
+      email: transaction.member.email || undefined,
+      points: transaction.member.points
+    } : undefined,
+    user: transaction.user ? { name: transaction.user.name } : undefined,
+  }
+}
+
+// Transaction with what the receipt needs, or null when it does not exist
+async function loadReceipt(transactionId) {
+  const transaction = await db.Transaction.findByPk(transactionId, { include: RECEIPT_INCLUDE })
+  return transaction ? { transaction, receipt: receiptData(transaction) } : null
+}
+
+module.exports = {
+  receiptData,
+  loadReceipt,
+}
@@ -0,0 +1,153 @@
+// Customer returns against a completed sale, shared by refunds and exchanges.
+// Returned units are valued on the gross line subtotal so promo, voucher and
+// points discounts are shared by them. Shares are worked out cumulatively
+// (returned-so-far vs returned-after) so the rounding of several partial
+// returns always adds up to the whole sale.
+
+const db = require('../../../models')
+const { adjustItemStock } = require('./inventory')
+
+function badRequest(message) {
+  const err = new Error(message)
+  err.status = 400
+  return err
+}
+
+function remainingQuantity(item) {
+  return Number(item.quantity || 0) - Number(item.refundedQuantity || 0)
+}
+
+// Resolve [{ transactionItemId, quantity }] against the sale's items into a
+// Map of itemId -> quantity. Without lines every remaining unit is returned.
+function resolveReturnLines(items, lines) {
+  const returns = new Map()
+  if (lines === undefined || lines === null) {
+    for (const item of items) {
+      if (remainingQuantity(item) > 0) returns.set(item.id, remainingQuantity(item))
+    }
+  } else if (!Array.isArray(lines)) {
+    throw badRequest('items must be an array')
+  } else {
+    for (const line of lines) {
+      const item = items.find((i) => i.id === String(line?.transactionItemId || ''))
+      if (!item) throw badRequest(`Transaction item ${line?.transactionItemId} not found`)
+      const qty = Number(line?.quantity)
+      if (!Number.isInteger(qty) || qty <= 0) throw badRequest('Refund quantity must be a positive integer')
+      const total = (returns.get(item.id) || 0) + qty
+      if (total > remainingQuantity(item)) {
+        throw badRequest(`Refund quantity exceeds remaining quantity for item ${item.id}`)
+      }
+      returns.set(item.id, total)
+    }
+  }
+  if (returns.size === 0 && items.length > 0) throw badRequest('Nothing left to refund')
+  return returns
+}
+
+// Money and member points attributable to the returned units
+function prorateReturn(sale, items, returns) {
+  const grossOf = (item, refundedQty) => {
+    const qty = Number(item.quantity || 0)
+    if (qty <= 0) return 0
+    return refundedQty >= qty ? Number(item.subtotal || 0) : Number(item.subtotal || 0) * refundedQty / qty
+  }
+  const grossTotal = items.reduce((sum, i) => sum + Number(i.subtotal || 0), 0)
+  const grossBefore = items.reduce((sum, i) => sum + grossOf(i, Number(i.refundedQuantity || 0)), 0)
+  const grossAfter = items.reduce((sum, i) => sum + grossOf(i, Number(i.refundedQuantity || 0) + (returns.get(i.id) || 0)), 0)
+  const isFullReturn = items.every((i) => Number(i.refundedQuantity || 0) + (returns.get(i.id) || 0) >= Number(i.quantity || 0))
+
+  const shareOf = (amount, round) => {
+    const upTo = (gross) => (gross <= 0 ? 0 : gross >= grossTotal ? amount : round(amount * gross / grossTotal))
+    return isFullReturn ? amount - upTo(grossBefore) : upTo(grossAfter) - upTo(grossBefore)
+  }
+  const finalTotal = Number(sale.finalTotal || 0)
+  return {
+    amount: shareOf(finalTotal, Math.round),
+    pointsEarned: shareOf(Number(sale.pointsEarned || 0), Math.floor),
+    pointsUsed: shareOf(Number(sale.pointsUsed || 0), Math.floor),
+    isFullReturn
+  }
+}
+
+// Book a return on the original sale: history note, status, refundedAmount,
+// refundedQuantity, restock, voucher quota (full return only) and member points.
+// Returns made for an exchange (reason EXCHANGE) keep the sale's status and go
+// to exchangedAmount, since no money left the till for them.
+// Must run inside the caller's sequelize transaction.
+async function applyReturn(sale, returns, share, options = {}) {
+  const { transaction, userId, note = {}, reason = 'REFUND', referenceId = sale.id } = options
+  const isExchange = reason === 'EXCHANGE'
+  const status = share.isFullReturn ? 'REFUNDED' : 'PARTIALLY_REFUNDED'
+  const label = options.label || (share.isFullReturn ? 'pengembalian' : 'pengembalian sebagian')
+  const now = new Date()
+
+  const notesArr = (() => {
+    try { return Array.isArray(sale.notes) ? sale.notes : JSON.parse(sale.notes || '[]') } catch { return [] }
+  })()
+  notesArr.push({
+    type: isExchange ? 'EXCHANGED' : status,
+    refundAt: now.toISOString(),
+    refundAmount: share.amount,
+    ...note,
+    items: Array.from(returns.entries()).map(([transactionItemId, quantity]) => ({ transactionItemId, quantity }))
+  })
+  await db.Transaction.update({
+    ...(isExchange
+      ? { exchangedAmount: Number(sale.exchangedAmount || 0) + share.amount }
+      : { status, refundedAmount: Number(sale.refundedAmount || 0) + share.amount }),
+    notes: JSON.stringify(notesArr),
+    updatedAt: now
+  }, { where: { id: sale.id }, transaction })
+
+  // Restock only the returned units
+  for (const item of sale.items || []) {
+    const qty = returns.get(item.id)
+    if (!qty) continue
+    await db.TransactionItem.update({ refundedQuantity: Number(item.refundedQuantity || 0) + qty }, { where: { id: item.id }, transaction })
+    await adjustItemStock(item, qty, { transaction, reason, referenceId, userId })
+  }
+
+  // Voucher quota is given back only once the whole sale is returned
+  if (share.isFullReturn) {
+    for (const usage of sale.voucherUsages || []) {
+      await db.VoucherUsage.destroy({ where: { id: usage.id }, transaction })
+      await db.Voucher.update({
+        usedCount: db.sequelize.literal('usedCount - 1')
+      }, { where: { id: usage.voucherId }, transaction })
+    }
+  }
+
+  if (sale.memberId) {
+    await db.Member.increment({
+      points: -share.pointsEarned + share.pointsUsed,
+      totalSpent: -share.amount
+    }, { where: { id: sale.memberId }, transaction })
+    if (share.pointsEarned > 0) {
+      await db.PointHistory.create({
+        memberId: sale.memberId,
+        points: -share.pointsEarned,
+        type: 'ADJUSTED',
+        description: `Poin dikurangi karena ${label} transaksi #${sale.id}`,
+        transactionId: sale.id
+      }, { transaction })
+    }
+    if (share.pointsUsed > 0) {
+      await db.PointHistory.create({
+        memberId: sale.memberId,
+        points: share.pointsUsed,
+        type: 'ADJUSTED',
+        description: `Poin dikembalikan karena ${label} transaksi #${sale.id}`,
+        transactionId: sale.id
+      }, { transaction })
+    }
+  }
+
+  return status
+}
+
+module.exports = {
+  remainingQuantity,
+  resolveReturnLines,
+  prorateReturn,
+  applyReturn,
+}
@@ -0,0 +1,68 @@
+// Jobs that run inside the backend process. Started from server.js only
+// outside tests; each job logs its failures and waits for its next run.
+
+const cron = require('node-cron')
+const { recalculateAllTiers } = require('./memberTiers')
+const { expirePoints, sendExpiryReminders } = require('./pointExpiry')
+const { issueOccasionRewards } = require('./memberRewards')
+const { recomputeSegments } = require('./memberSegments')
+const { processCampaignQueue } = require('./whatsappCampaigns')
+const { processOutboundQueue } = require('./outboundMessages')
+
+const TIMEZONE = process.env.SCHEDULER_TIMEZONE || 'Asia/Jakarta'
+
+function scheduleJob(name, expression, job) {
+  if (!cron.validate(expression)) {
+    console.error(`[Scheduler] Invalid cron expression for ${name}: ${expression}`)
+    return null
+  }
+  return cron.schedule(expression, async () => {
+    try {
+      await job()
+    } catch (err) {
+      console.error(`[Scheduler] ${name} failed:`, err)
+    }
+  }, { timezone: TIMEZONE })
+}
+
+function startScheduledJobs() {
+  // Members drop a tier once sales leave the rolling window, without a new sale
+  scheduleJob('member tiers', process.env.MEMBER_TIER_CRON || '0 2 * * *', async () => {
+    const result = await recalculateAllTiers({ reason: 'NIGHTLY' })
+    console.log(`[Scheduler] Member tiers recalculated: ${result.changed} of ${result.members} members changed`)
+  })
+  // After the tier job, so tier rules see tonight's tiers
+  scheduleJob('member segments', process.env.MEMBER_SEGMENTS_CRON || '30 2 * * *', async () => {
+    const result = await recomputeSegments()
+    console.log(`[Scheduler] Member segments recomputed for ${result.members} members: ${result.segments.map((s) => `${s.name} ${s.memberCount}`).join(', ') || 'no segments'}`)
+  })
+  // Does nothing until an expiry period is set in the loyalty program
+  scheduleJob('points expiry', process.env.POINTS_EXPIRY_CRON || '30 1 * * *', async () => {
+    const expired = await expirePoints()
+    const reminders = await sendExpiryReminders()
+    console.log(`[Scheduler] Points expired: ${expired.points} from ${expired.members} members; reminders sent: ${reminders.sent}`)
+  })
+  // In the morning, so greetings do not arrive at night; off until a reward value is set
+  scheduleJob('member rewards', process.env.MEMBER_REWARDS_CRON || '0 9 * * *', async () => {
+    const result = await issueOccasionRewards()
+    console.log(`[Scheduler] Member rewards: ${result.issued} vouchers issued, ${result.notified} greetings sent, ${result.failed} failed`)
+  })
+  // A few campaign messages every minute; quiet when nothing is queued
+  scheduleJob('whatsapp campaigns', process.env.WHATSAPP_CAMPAIGN_CRON || '* * * * *', async () => {
+    const result = await processCampaignQueue()
+    if (result.sent + result.failed + result.skipped > 0) {
+      console.log(`[Scheduler] Campaign messages: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped`)
+    }
+  })
+  // Receipts and other queued messages; every 15 seconds so receipts arrive soon after the sale
+  scheduleJob('outbound messages', process.env.OUTBOUND_QUEUE_CRON || '*/15 * * * * *', async () => {
+    const result = await processOutboundQueue()
+    if (result.sent + result.retrying + result.dead > 0) {
+      console.log(`[Scheduler] Outbound messages: ${result.sent} sent, ${result.retrying} to retry, ${result.dead} dead-lettered`)
+    }
+  })
+}
+
+module.exports = {
+  startScheduledJobs,
+}
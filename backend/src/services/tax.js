@@ -0,0 +1,213 @@
+// Sales tax (PPN). TaxSetting holds the store rate, whether catalog prices
+// already include tax and how line tax is rounded; a category can override
+// the rate, and a category or product can be exempt. Tax is worked out per
+// line on the line's share of the sale's discounts, so it is charged on what
+// the customer actually pays, and stored on TransactionItem for reporting.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+
+const TAX_ROUNDING = ['ROUND', 'FLOOR', 'CEIL']
+const DEFAULT_TAX_SETTINGS = { enabled: false, rate: 11, priceIncludesTax: false, rounding: 'ROUND' }
+
+// Sales whose tax is owed; refunded units are netted out per line
+const TAXED_STATUSES = ['COMPLETED', 'PARTIALLY_REFUNDED', 'REFUNDED']
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const plainSettings = (row) => ({
+  enabled: Boolean(row.enabled),
+  rate: Number(row.rate),
+  priceIncludesTax: Boolean(row.priceIncludesTax),
+  rounding: row.rounding,
+  updatedBy: row.updatedBy ?? null,
+  updatedAt: row.updatedAt ?? null
+})
+
+async function getTaxSettings() {
+  const row = await db.TaxSetting.findOne({ order: [['id', 'ASC']] })
+  return plainSettings(row || DEFAULT_TAX_SETTINGS)
+}
+
+async function updateTaxSettings(input, { userId }) {
+  const changes = {}
+  if (input.enabled !== undefined) changes.enabled = input.enabled
+  if (input.priceIncludesTax !== undefined) changes.priceIncludesTax = input.priceIncludesTax
+  if (input.rate !== undefined) {
+    const rate = Number(input.rate)
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) throw httpError(400, 'rate must be between 0 and 100')
+    changes.rate = rate
+  }
+  if (input.rounding !== undefined) {
+    const rounding = String(input.rounding).toUpperCase()
+    if (!TAX_ROUNDING.includes(rounding)) throw httpError(400, `rounding must be one of ${TAX_ROUNDING.join(', ')}`)
+    changes.rounding = rounding
+  }
+  const row = await db.TaxSetting.findOne({ order: [['id', 'ASC']] })
+  if (row) await row.update({ ...changes, updatedBy: userId })
+  else await db.TaxSetting.create({ ...DEFAULT_TAX_SETTINGS, ...changes, updatedBy: userId })
+  return getTaxSettings()
+}
+
+// Whole rupiah; the float noise of e.g. 100000 * 11 / 100 must not tip CEIL over
+function roundTax(amount, rounding) {
+  const value = Math.round(amount * 1e6) / 1e6
+  if (rounding === 'FLOOR') return Math.floor(value)
+  if (rounding === 'CEIL') return Math.ceil(value)
+  return Math.round(value)
+}
+
+// productId -> { taxRate, taxExempt }: product exemption, then category
+// exemption, then the category rate, then the store rate
+async function resolveRates(lines, settings) {
+  const rates = new Map()
+  if (!settings.enabled) return rates
+  const productIds = [...new Set(lines.map((line) => String(line.productId)))]
+  const products = await db.Product.findAll({
+    where: { id: { [Op.in]: productIds } },
+    attributes: ['id', 'taxExempt'],
+    include: [{ model: db.Category, as: 'category', attributes: ['id', 'taxRate', 'taxExempt'] }]
+  })
+  for (const product of products) {
+    const category = product.category
+    const taxExempt = Boolean(product.taxExempt || category?.taxExempt)
+    const taxRate = taxExempt ? 0 : Number(category?.taxRate ?? settings.rate)
+    rates.set(String(product.id), { taxRate, taxExempt })
+  }
+  return rates
+}
+
+// Add taxRate, taxExempt, taxableAmount and taxAmount to priced lines
+// [{ productId, subtotal }]. discount is everything taken off the sale
+// (promotions, voucher, points, manual); it is shared by the lines in
+// proportion to their subtotal, the last line taking the rounding remainder.
+async function taxLines(lines, { discount = 0 } = {}) {
+  const settings = await getTaxSettings()
+  const rates = await resolveRates(lines, settings)
+  const inclusive = settings.enabled && settings.priceIncludesTax
+  const subtotal = lines.reduce((sum, line) => sum + Number(line.subtotal || 0), 0)
+  const totalDiscount = Math.min(Math.max(Number(discount) || 0, 0), subtotal)
+
+  let allocated = 0
+  const taxed = lines.map((line, index) => {
+    const lineSubtotal = Number(line.subtotal || 0)
+    const share = index === lines.length - 1
+      ? totalDiscount - allocated
+      : subtotal > 0 ? Math.round((totalDiscount * lineSubtotal) / subtotal) : 0
+    allocated += share
+    const net = Math.max(lineSubtotal - share, 0)
+    const { taxRate, taxExempt } = rates.get(String(line.productId)) || { taxRate: 0, taxExempt: false }
+    let taxAmount = 0
+    if (taxRate > 0 && net > 0) {
+      taxAmount = roundTax(inclusive ? (net * taxRate) / (100 + taxRate) : (net * taxRate) / 100, settings.rounding)
+    }
+    return { ...line, taxRate, taxExempt, taxableAmount: inclusive ? net - taxAmount : net, taxAmount }
+  })
+
+  return {
+    lines: taxed,
+    tax: taxed.reduce((sum, line) => sum + line.taxAmount, 0),
+    taxInclusive: inclusive
+  }
+}
+
+// Month (YYYY-MM) of a sale in Asia/Jakarta
+const jakartaMonth = (date) => new Date(new Date(date).getTime() + 7 * 3600 * 1000).toISOString().slice(0, 7)
+
+const emptyBucket = () => ({
+  taxableAmount: 0,
+  taxAmount: 0,
+  exemptAmount: 0,
+  untaxedAmount: 0,
+  refundedTaxableAmount: 0,
+  refundedTaxAmount: 0,
+  netTaxAmount: 0
+})
+
+// Tax owed for sales paid between start and end (Dates), by month and by
+// rate; sales without paidAt fall back to createdAt, so an offline replay
+// counts in the month it was paid at the till. Refunded units are netted
+// against the month of the original sale.
+// Lines sold while tax was switched off count as untaxedAmount.
+async function summarizeTax({ start, end }) {
+  const items = await db.TransactionItem.findAll({
+    attributes: ['id', 'transactionId', 'quantity', 'refundedQuantity', 'taxRate', 'taxExempt', 'taxableAmount', 'taxAmount'],
+    include: [{
+      model: db.Transaction,
+      as: 'transaction',
+      attributes: ['id', 'createdAt', 'paidAt', 'status'],
+      where: {
+        [Op.or]: [
+          { paidAt: { [Op.gte]: start, [Op.lte]: end } },
+          { paidAt: null, createdAt: { [Op.gte]: start, [Op.lte]: end } }
+        ],
+        status: { [Op.in]: TAXED_STATUSES }
+      }
+    }]
+  })
+
+  const totals = emptyBucket()
+  const months = new Map()
+  const rates = new Map()
+  const transactionsByMonth = new Map()
+
+  for (const item of items) {
+    const month = jakartaMonth(item.transaction.paidAt || item.transaction.createdAt)
+    if (!months.has(month)) {
+      months.set(month, emptyBucket())
+      transactionsByMonth.set(month, new Set())
+    }
+    transactionsByMonth.get(month).add(item.transactionId)
+
+    const quantity = Number(item.quantity || 0)
+    const refundedShare = quantity > 0 ? Math.min(Number(item.refundedQuantity || 0), quantity) / quantity : 0
+    const taxableAmount = Number(item.taxableAmount || 0)
+    const taxAmount = Number(item.taxAmount || 0)
+    const taxRate = Number(item.taxRate || 0)
+    const refundedTaxableAmount = Math.round(taxableAmount * refundedShare)
+    const refundedTaxAmount = Math.round(taxAmount * refundedShare)
+
+    const buckets = [totals, months.get(month)]
+    if (taxRate > 0) {
+      if (!rates.has(taxRate)) rates.set(taxRate, { rate: taxRate, ...emptyBucket() })
+      buckets.push(rates.get(taxRate))
+    }
+    for (const bucket of buckets) {
+      if (item.taxExempt) {
+        bucket.exemptAmount += taxableAmount - refundedTaxableAmount
+      } else if (taxRate > 0) {
+        bucket.taxableAmount += taxableAmount
+        bucket.taxAmount += taxAmount
+        bucket.refundedTaxableAmount += refundedTaxableAmount
+        bucket.refundedTaxAmount += refundedTaxAmount
+        bucket.netTaxAmount += taxAmount - refundedTaxAmount
+      } else {
+        bucket.untaxedAmount += taxableAmount - refundedTaxableAmount
+      }
+    }
+  }
+
+  return {
+    totals: { ...totals, transactionCount: new Set(items.map((item) => item.transactionId)).size },
+    monthly: [...months.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, bucket]) => ({ month, transactionCount: transactionsByMonth.get(month).size, ...bucket })),
+    byRate: [...rates.values()]
+      .sort((a, b) => a.rate - b.rate)
+      .map(({ rate, taxableAmount, taxAmount, refundedTaxableAmount, refundedTaxAmount, netTaxAmount }) => ({
+        rate, taxableAmount, taxAmount, refundedTaxableAmount, refundedTaxAmount, netTaxAmount
+      }))
+  }
+}
+
+module.exports = {
+  TAX_ROUNDING,
+  getTaxSettings,
+  updateTaxSettings,
+  taxLines,
+  summarizeTax,
+}
@@ -0,0 +1,85 @@
+// Transaction tenders: split payment validation, settling pending tenders and
+// the per-method breakdown a cashier sees when closing a shift.
+
+const db = require('../../../models')
+
+function badRequest(message) {
+  const err = new Error(message)
+  err.status = 400
+  return err
+}
+
+// Validate payments[] from the cashier against the server-computed total.
+// Every split tender is taken at the counter, so all of them must be methods
+// the cashier can confirm on the spot.
+function normalizePayments(inputs, finalTotal) {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw badRequest('payments must be a non-empty array')
+  }
+  const allowed = db.TransactionPayment.SPLIT_METHODS
+  const payments = inputs.map((raw) => {
+    const method = String(raw?.method || '').trim().toUpperCase()
+    const amount = Number(raw?.amount)
+    if (!allowed.includes(method)) throw badRequest(`Payment method must be one of: ${allowed.join(', ')}`)
+    if (!Number.isFinite(amount) || amount <= 0) throw badRequest('Payment amount must be a positive number')
+    return { method, amount, reference: raw?.reference ? String(raw.reference) : null }
+  })
+  const paid = payments.reduce((sum, p) => sum + p.amount, 0)
+  if (Math.abs(paid - Number(finalTotal || 0)) >= 0.01) {
+    throw badRequest(`Payments total ${paid} does not match transaction total ${Number(finalTotal || 0)}`)
+  }
+  return payments
+}
+
+// The method that carried most of the amount; kept on Transaction.paymentMethod
+// so existing filters and reports still have a single method to group by
+function primaryMethod(payments) {
+  return payments.reduce((best, p) => (p.amount > best.amount ? p : best), payments[0]).method
+}
+
+// Move the pending tenders of a transaction to PAID, FAILED or CANCELLED
+async function settlePayments(transactionId, status, options = {}) {
+  const { transaction, reference } = options
+  const updates = { status, paidAt: status === 'PAID' ? new Date() : null }
+  if (reference) updates.reference = String(reference)
+  return db.TransactionPayment.update(updates, { where: { transactionId, status: 'PENDING' }, transaction })
+}
+
+// Sum paid tenders per method for the transactions matching where.
+// Sales recorded before tenders existed count as one tender of paymentMethod;
+// exchange sales only count what was paid on top of the exchange credit, or
+// subtract what was handed back when the credit was worth more.
+async function buildPaymentBreakdown(where, methods = ['CASH', 'CARD', 'QRIS', 'BANK_TRANSFER']) {
+  const transactions = await db.Transaction.findAll({
+    where,
+    attributes: ['id', 'paymentMethod', 'finalTotal', 'exchangeCredit'],
+    include: [{ model: db.TransactionPayment, as: 'payments', attributes: ['method', 'amount', 'status'], required: false }]
+  })
+  const breakdown = {}
+  for (const method of methods) breakdown[method] = { total: 0, count: 0 }
+  for (const tx of transactions) {
+    const rows = tx.payments || []
+    const tenders = rows.length > 0
+      ? rows.filter((p) => p.status === 'PAID').map((p) => ({ method: p.method, amount: Number(p.amount || 0) }))
+      : [{ method: tx.paymentMethod, amount: Number(tx.finalTotal || 0) - Number(tx.exchangeCredit || 0) }]
+    const seen = new Set()
+    for (const tender of tenders) {
+      if (Number(tx.exchangeCredit || 0) > 0 && tender.amount === 0) continue
+      const method = String(tender.method || 'CASH')
+      if (!breakdown[method]) breakdown[method] = { total: 0, count: 0 }
+      breakdown[method].total += tender.amount
+      if (!seen.has(method)) {
+        breakdown[method].count += 1
+        seen.add(method)
+      }
+    }
+  }
+  return breakdown
+}
+
+module.exports = {
+  normalizePayments,
+  primaryMethod,
+  settlePayments,
+  buildPaymentBreakdown,
+}
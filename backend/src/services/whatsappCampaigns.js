@@ -0,0 +1,392 @@
+// WhatsApp marketing campaigns. A campaign is a message template with member
+// placeholders and an audience filter. Starting it snapshots the matching
+// members into WhatsAppCampaignRecipient with their rendered message; the
+// queue job then sends a few messages per minute, spaced out, so a large
+// broadcast does not get the store's number banned.
+//
+// Members with marketingOptOut are never queued, and are skipped at send time
+// if they opt out after the campaign started.
+//
+// Audience is a JSON object; every filter present must hold:
+//   segmentId   member of this segment as of its last recomputation
+//   tierIds     [tierId]; the member's current tier is one of them
+//   minPoints   point balance of at least this many points
+// Only active members with a phone number are reached.
+
+const { Op } = require('sequelize')
+const db = require('../../../models')
+const WhatsAppManager = require('./whatsappManager')
+const { formatCurrency } = require('./receiptFormatter')
+const { segmentMemberIds } = require('./memberSegments')
+
+const AUDIENCE_KEYS = ['segmentId', 'tierIds', 'minPoints']
+const MAX_TEMPLATE_LENGTH = 2000
+// Sends per recipient before it is marked FAILED; "retry failed" starts over
+const MAX_ATTEMPTS = 3
+const RECIPIENT_STATUSES = ['PENDING', 'SENT', 'FAILED', 'SKIPPED']
+
+// Appended to every campaign message so members know how to stop them
+const OPT_OUT_FOOTER = '_Tidak ingin menerima promo lagi? Beri tahu kasir kami atau matikan di portal member._'
+
+const PLACEHOLDERS = {
+  nama: (member) => member.name,
+  nama_depan: (member) => String(member.name || '').trim().split(/\s+/)[0],
+  poin: (member) => Number(member.points || 0).toLocaleString('id-ID'),
+  tier: (member) => (member.tier?.isActive ? member.tier.name : 'Member'),
+  belanja: (member) => formatCurrency(Number(member.rollingSpend || 0))
+}
+
+function httpError(status, message) {
+  const err = new Error(message)
+  err.status = status
+  return err
+}
+
+const parseJson = (value, fallback) => {
+  try {
+    return JSON.parse(value || '')
+  } catch (_) {
+    return fallback
+  }
+}
+
+const emptyCounts = () => Object.fromEntries(RECIPIENT_STATUSES.map((status) => [status.toLowerCase(), 0]))
+
+const plainCampaign = (campaign, counts = emptyCounts()) => ({
+  id: campaign.id,
+  name: campaign.name,
+  template: campaign.template,
+  audience: parseJson(campaign.audience, {}),
+  status: campaign.status,
+  createdBy: campaign.createdBy || null,
+  startedAt: campaign.startedAt || null,
+  completedAt: campaign.completedAt || null,
+  createdAt: campaign.createdAt,
+  counts: { total: Object.values(counts).reduce((sum, n) => sum + n, 0), ...counts }
+})
+
+// Recipient counts per status for the given campaigns, by campaign id
+async function recipientCounts(campaignIds) {
+  const rows = await db.WhatsAppCampaignRecipient.findAll({
+    where: { campaignId: { [Op.in]: campaignIds } },
+    attributes: ['campaignId', 'status', [db.sequelize.fn('COUNT', db.sequelize.col('id')), 'count']],
+    group: ['campaignId', 'status'],
+    raw: true
+  })
+  const map = new Map()
+  for (const row of rows) {
+    const counts = map.get(row.campaignId) || emptyCounts()
+    counts[String(row.status).toLowerCase()] = Number(row.count)
+    map.set(row.campaignId, counts)
+  }
+  return map
+}
+
+// Placeholder names used in the template, e.g. ['nama', 'poin']
+const placeholdersIn = (template) => [...String(template).matchAll(/\{([a-z_]+)\}/gi)].map((match) => match[1])
+
+function checkTemplate(template) {
+  const text = String(template ?? '').trim()
+  if (!text) throw httpError(400, 'template is required')
+  if (text.length > MAX_TEMPLATE_LENGTH) throw httpError(400, `template must be at most ${MAX_TEMPLATE_LENGTH} characters`)
+  const unknown = placeholdersIn(text).find((name) => !PLACEHOLDERS[name.toLowerCase()])
+  if (unknown) throw httpError(400, `Unknown placeholder: {${unknown}}`)
+  return text
+}
+
+function renderTemplate(template, member) {
+  const body = String(template).replace(/\{([a-z_]+)\}/gi, (match, name) => {
+    const fill = PLACEHOLDERS[name.toLowerCase()]
+    return fill ? String(fill(member) ?? '') : match
+  })
+  return `${body}\n\n${OPT_OUT_FOOTER}`
+}
+
+// Audience from the campaign form, checked and with empty filters dropped
+async function normalizeAudience(input) {
+  const audience = input ?? {}
+  if (typeof audience !== 'object' || Array.isArray(audience)) throw httpError(400, 'audience must be an object')
+  const unknown = Object.keys(audience).find((key) => !AUDIENCE_KEYS.includes(key))
+  if (unknown) throw httpError(400, `Unknown audience filter: ${unknown}`)
+
+  const out = {}
+  if (audience.segmentId !== undefined && audience.segmentId !== null && audience.segmentId !== '') {
+    const segment = await db.MemberSegment.findByPk(audience.segmentId, { attributes: ['id'] })
+    if (!segment) throw httpError(400, 'Unknown member segment')
+    out.segmentId = segment.id
+  }
+  if (audience.tierIds !== undefined && audience.tierIds !== null) {
+    if (!Array.isArray(audience.tierIds)) throw httpError(400, 'tierIds must be an array')
+    const ids = [...new Set(audience.tierIds.map(Number))]
+    const found = ids.length ? await db.MemberTier.count({ where: { id: { [Op.in]: ids } } }) : 0
+    if (ids.some((id) => !Number.isInteger(id)) || found !== ids.length) throw httpError(400, 'Unknown member tier')
+    if (ids.length) out.tierIds = ids
+  }
+  if (audience.minPoints !== undefined && audience.minPoints !== null && audience.minPoints !== '') {
+    const points = Number(audience.minPoints)
+    if (!Number.isInteger(points) || points < 0) throw httpError(400, 'minPoints must be a whole number of at least 0')
+    if (points > 0) out.minPoints = points
+  }
+  return out
+}
+
+// Members the audience reaches, and how many matched but opted out
+async function audienceMembers(audience) {
+  const where = { isActive: true, phone: { [Op.and]: [{ [Op.ne]: null }, { [Op.ne]: '' }] } }
+  if (audience.segmentId) where.id = { [Op.in]: await segmentMemberIds(audience.segmentId) }
+  if (audience.tierIds) where.tierId = { [Op.in]: audience.tierIds }
+  if (audience.minPoints) where.points = { [Op.gte]: audience.minPoints }
+  const members = await db.Member.findAll({
+    where,
+    include: [{ model: db.MemberTier, as: 'tier', attributes: ['id', 'name', 'isActive'] }],
+    order: [['id', 'ASC']]
+  })
+  const reachable = members.filter((member) => !member.marketingOptOut)
+  return { members: reachable, optedOut: members.length - reachable.length }
+}
+
+// Who a draft would reach and how the message reads, before starting it
+async function previewCampaign({ template, audience }) {
+  const text = checkTemplate(template)
+  const filter = await normalizeAudience(audience)
+  const { members, optedOut } = await audienceMembers(filter)
+  return {
+    audience: filter,
+    recipientCount: members.length,
+    optedOut,
+    sample: members.slice(0, 5).map((member) => ({
+      memberId: member.id,
+      name: member.name,
+      phone: member.phone,
+      message: renderTemplate(text, member)
+    }))
+  }
+}
+
+// Campaign fields from the create/update body
+async function campaignFields(body, { partial = false } = {}) {
+  const fields = {}
+  if (body.name !== undefined || !partial) {
+    const name = String(body.name ?? '').trim()
+    if (!name) throw httpError(400, 'name is required')
+    fields.name = name
+  }
+  if (body.template !== undefined || !partial) fields.template = checkTemplate(body.template)
+  if (body.audience !== undefined || !partial) fields.audience = JSON.stringify(await normalizeAudience(body.audience))
+  return fields
+}
+
+async function findCampaign(id) {
+  const campaign = await db.WhatsAppCampaign.findByPk(id)
+  if (!campaign) throw httpError(404, 'Campaign not found')
+  return campaign
+}
+
+async function summarize(campaign) {
+  const counts = await recipientCounts([campaign.id])
+  return plainCampaign(campaign, counts.get(campaign.id))
+}
+
+async function listCampaigns() {
+  const campaigns = await db.WhatsAppCampaign.findAll({ order: [['createdAt', 'DESC'], ['id', 'DESC']], limit: 100 })
+  const counts = await recipientCounts(campaigns.map((campaign) => campaign.id))
+  return campaigns.map((campaign) => plainCampaign(campaign, counts.get(campaign.id)))
+}
+
+// The campaign with one page of its recipients, optionally of one status
+async function getCampaign(id, { status, limit, offset } = {}) {
+  const campaign = await findCampaign(id)
+  const where = { campaignId: campaign.id }
+  if (status) {
+    if (!RECIPIENT_STATUSES.includes(String(status).toUpperCase())) throw httpError(400, 'Unknown recipient status')
+    where.status = String(status).toUpperCase()
+  }
+  const page = { limit: Math.min(Math.max(Number(limit) || 100, 1), 500), offset: Math.max(Number(offset) || 0, 0) }
+  const recipients = await db.WhatsAppCampaignRecipient.findAll({
+    where,
+    include: [{ model: db.Member, as: 'member', attributes: ['id', 'name'] }],
+    order: [['id', 'ASC']],
+    ...page
+  })
+  return {
+    campaign: await summarize(campaign),
+    ...page,
+    recipients: recipients.map((recipient) => ({
+      id: recipient.id,
+      memberId: recipient.memberId,
+      name: recipient.member?.name || null,
+      phone: recipient.phone,
+      status: recipient.status,
+      attempts: recipient.attempts,
+      error: recipient.error,
+      sentAt: recipient.sentAt
+    }))
+  }
+}
+
+async function createCampaign(body, { userId } = {}) {
+  const campaign = await db.WhatsAppCampaign.create({ ...(await campaignFields(body)), createdBy: userId || null })
+  return summarize(campaign)
+}
+
+async function updateCampaign(id, body) {
+  const campaign = await findCampaign(id)
+  if (campaign.status !== 'DRAFT') throw httpError(400, 'Only draft campaigns can be edited')
+  await campaign.update(await campaignFields(body, { partial: true }))
+  return summarize(campaign)
+}
+
+async function deleteCampaign(id) {
+  const campaign = await findCampaign(id)
+  if (campaign.status !== 'DRAFT') throw httpError(400, 'Only draft campaigns can be deleted; cancel it instead')
+  await campaign.destroy()
+}
+
+// Queue the campaign: render the message for every member the audience
+// reaches now. Later changes to the audience's members do not affect it.
+async function startCampaign(id, { now = new Date() } = {}) {
+  const campaign = await findCampaign(id)
+  if (campaign.status !== 'DRAFT') throw httpError(400, 'Campaign has already been started')
+  const { members } = await audienceMembers(parseJson(campaign.audience, {}))
+  if (members.length === 0) throw httpError(400, 'Campaign has no recipients')
+  await db.sequelize.transaction(async (t) => {
+    // One row per recipient; kept out of the audit log like other bulk writes
+    await db.WhatsAppCampaignRecipient.bulkCreate(members.map((member) => ({
+      campaignId: campaign.id,
+      memberId: member.id,
+      phone: member.phone,
+      message: renderTemplate(campaign.template, member)
+    })), { transaction: t, hooks: false })
+    await campaign.update({ status: 'SENDING', startedAt: now }, { transaction: t })
+  })
+  return summarize(campaign)
+}
+
+async function setStatus(id, from, to, message) {
+  const campaign = await findCampaign(id)
+  if (!from.includes(campaign.status)) throw httpError(400, message)
+  await campaign.update({ status: to })
+  return campaign
+}
+
+async function pauseCampaign(id) {
+  return summarize(await setStatus(id, ['SENDING'], 'PAUSED', 'Only sending campaigns can be paused'))
+}
+
+async function resumeCampaign(id) {
+  return summarize(await setStatus(id, ['PAUSED'], 'SENDING', 'Only paused campaigns can be resumed'))
+}
+
+// Stop for good; recipients not sent yet are marked SKIPPED
+async function cancelCampaign(id, { now = new Date() } = {}) {
+  const campaign = await setStatus(id, ['DRAFT', 'SENDING', 'PAUSED'], 'CANCELLED', 'Campaign has already finished')
+  await db.WhatsAppCampaignRecipient.update(
+    { status: 'SKIPPED', error: 'Campaign cancelled' },
+    { where: { campaignId: campaign.id, status: 'PENDING' }, hooks: false }
+  )
+  await campaign.update({ completedAt: now })
+  return summarize(campaign)
+}
+
+// Queue failed recipients again, e.g. after WhatsApp was reconnected
+async function retryFailed(id) {
+  const campaign = await findCampaign(id)
+  if (campaign.status === 'DRAFT' || campaign.status === 'CANCELLED') throw httpError(400, 'Campaign has not been sent')
+  const [count] = await db.WhatsAppCampaignRecipient.update(
+    { status: 'PENDING', attempts: 0, error: null },
+    { where: { campaignId: campaign.id, status: 'FAILED' }, hooks: false }
+  )
+  if (count === 0) throw httpError(400, 'Campaign has no failed recipients')
+  if (campaign.status === 'COMPLETED') await campaign.update({ status: 'SENDING', completedAt: null })
+  return summarize(campaign)
+}
+
+const isConnectionError = (error) => /not connected|tidak terhubung|connection/i.test(String(error || ''))
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+let processing = false
+
+// Send up to `limit` queued messages of sending campaigns, oldest campaign
+// first, waiting `delayMs` between messages. Runs every minute from the
+// scheduler; a run that overlaps the previous one does nothing. Messages stay
+// queued while WhatsApp is disconnected. Returns { sent, failed, skipped }.
+async function processCampaignQueue({
+  limit = Number(process.env.WHATSAPP_CAMPAIGN_PER_MINUTE) || 6,
+  delayMs = Math.floor(50000 / limit),
+  whatsapp = WhatsAppManager.getInstance(),
+  wait = sleep,
+  now = () => new Date()
+} = {}) {
+  const result = { sent: 0, failed: 0, skipped: 0 }
+  if (processing) return result
+  processing = true
+  try {
+    if (!whatsapp.isConnected()) return result
+    const queued = await db.WhatsAppCampaignRecipient.findAll({
+      where: { status: 'PENDING' },
+      include: [
+        { model: db.WhatsAppCampaign, as: 'campaign', attributes: ['id', 'status'], where: { status: 'SENDING' } },
+        { model: db.Member, as: 'member', attributes: ['id', 'isActive', 'marketingOptOut'] }
+      ],
+      order: [['campaignId', 'ASC'], ['id', 'ASC']],
+      limit
+    })
+    let first = true
+    for (const recipient of queued) {
+      if (!recipient.member || !recipient.member.isActive || recipient.member.marketingOptOut) {
+        const reason = recipient.member?.marketingOptOut ? 'Member opted out' : 'Member is inactive'
+        await recipient.update({ status: 'SKIPPED', error: reason }, { hooks: false })
+        result.skipped += 1
+        continue
+      }
+      if (!first) await wait(delayMs)
+      first = false
+      const sent = await whatsapp.sendMessage(recipient.phone, recipient.message)
+      const attempts = recipient.attempts + 1
+      if (sent.success) {
+        await recipient.update({ status: 'SENT', attempts, error: null, messageId: sent.messageId || null, sentAt: now() }, { hooks: false })
+        result.sent += 1
+        continue
+      }
+      // A dropped connection is not the recipient's fault; try again next run
+      if (isConnectionError(sent.error)) {
+        console.warn('[Campaigns] WhatsApp disconnected; sending postponed')
+        break
+      }
+      const error = String(sent.error || 'Unknown error').slice(0, 255)
+      await recipient.update({ status: attempts >= MAX_ATTEMPTS ? 'FAILED' : 'PENDING', attempts, error }, { hooks: false })
+      if (attempts >= MAX_ATTEMPTS) result.failed += 1
+    }
+    await completeFinishedCampaigns(now())
+  } finally {
+    processing = false
+  }
+  return result
+}
+
+// Sending campaigns with nothing left in the queue are done
+async function completeFinishedCampaigns(now) {
+  const sending = await db.WhatsAppCampaign.findAll({ where: { status: 'SENDING' } })
+  for (const campaign of sending) {
+    const pending = await db.WhatsAppCampaignRecipient.count({ where: { campaignId: campaign.id, status: 'PENDING' } })
+    if (pending === 0) await campaign.update({ status: 'COMPLETED', completedAt: now }, { hooks: false })
+  }
+}
+
+module.exports = {
+  PLACEHOLDERS,
+  OPT_OUT_FOOTER,
+  renderTemplate,
+  previewCampaign,
+  listCampaigns,
+  getCampaign,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+  startCampaign,
+  pauseCampaign,
+  resumeCampaign,
+  cancelCampaign,
+  retryFailed,
+  processCampaignQueue,
+}
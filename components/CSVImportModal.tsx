@@ -149,9 +149,14 @@ export default function CSVImportModal({ open, onClose, onImported, importEndpoi
 
   // Tambah tombol Unduh Template ke dalam modal
   const downloadTemplate = () => {
-    const headers = ['name','price','stock','categoryId','categoryName','size','color','description','costPrice','productCode','isActive','image']
-    const example = ['Kaos Polos','50000','100','','Fashion','L','Hitam','Kaos lengan pendek','30000','KSP-001','true','https://example.com/image.jpg']
-    const csvContent = [headers.join(','), example.join(',')].join('\n')
+    const headers = ['name','price','stock','categoryId','categoryName','size','color','description','costPrice','productCode','isActive','image','parentCode','variantPrice','barcode']
+    const example = ['Kaos Polos','50000','100','','Fashion','L','Hitam','Kaos lengan pendek','30000','KSP-001','true','https://example.com/image.jpg','','','']
+    // Baris varian: parentCode sama dikelompokkan menjadi satu produk induk
+    const variantExamples = [
+      ['Kemeja Oxford','150000','5','','Fashion','M','Putih','','90000','KMJ-001-M-PTH','true','','KMJ-001','',''],
+      ['Kemeja Oxford','150000','3','','Fashion','XL','Putih','','90000','KMJ-001-XL-PTH','true','','KMJ-001','160000','']
+    ]
+    const csvContent = [headers.join(','), example.join(','), ...variantExamples.map(r => r.join(','))].join('\n')
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -234,7 +239,7 @@ export default function CSVImportModal({ open, onClose, onImported, importEndpoi
                     </tbody>
                   </table>
                 </div>
-                <p className="text-xs text-gray-500 mt-2">Kolom wajib: <code>name</code>, <code>price</code>, <code>categoryId</code>/<code>categoryName</code>, <code>size</code>, <code>color</code>.</p>
+                <p className="text-xs text-gray-500 mt-2">Kolom wajib: <code>name</code>, <code>price</code>, <code>categoryId</code>/<code>categoryName</code>, <code>size</code>, <code>color</code>. Isi <code>parentCode</code> untuk mengelompokkan baris sebagai varian satu produk (<code>variantPrice</code> opsional).</p>
               </div>
             )}
 
@@ -5,6 +5,7 @@ import Image from "next/image"
 import { PhotoIcon, XCircleIcon, ArrowUpTrayIcon } from "@heroicons/react/24/outline"
 import toast from "react-hot-toast"
 import { apiFetch } from "@/lib/api"
+import VariantMatrixEditor, { ProductVariantInput, fromVariantResponse, toVariantPayload } from "@/components/VariantMatrixEditor"
 
 interface Category {
   id: string
@@ -14,6 +15,7 @@ interface Category {
 interface ProductForm {
   name: string
   productCode: string
+  barcode: string
   description: string
   price: string
   costPrice: string
@@ -37,6 +39,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
   const [form, setForm] = useState<ProductForm>({
     name: '',
     productCode: '',
+    barcode: '',
     description: '',
     price: '',
     costPrice: '',
@@ -47,6 +50,9 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
     color: ''
   })
   const [errors, setErrors] = useState<Partial<ProductForm>>({})
+  const [hasVariants, setHasVariants] = useState(false)
+  const [variants, setVariants] = useState<ProductVariantInput[]>([])
+  const [variantError, setVariantError] = useState('')
   const [selectedCategoryName, setSelectedCategoryName] = useState<string>("") // Untuk menyimpan nama kategori yang dipilih
 
   // Load categories and product data
@@ -79,6 +85,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
         setForm({
           name: product.name,
           productCode: product.productCode || '',
+          barcode: product.barcode || '',
           description: product.description || '',
           price: product.price.toString(),
           costPrice: product.costPrice?.toString() || '',
@@ -88,6 +95,9 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
           size: product.size || '',
           color: product.color || '',
         })
+        const loadedVariants = fromVariantResponse(product.variants)
+        setVariants(loadedVariants)
+        setHasVariants(loadedVariants.length > 0)
         
         // Set selected category name
         const category = await fetchCategoryById(product.categoryId)
@@ -170,26 +180,39 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
       newErrors.costPrice = 'Harga pokok harus berupa angka non-negatif'
     }
 
-    if (!form.stock.trim()) {
-      newErrors.stock = 'Stok wajib diisi'
-    } else if (isNaN(Number(form.stock)) || Number(form.stock) < 0) {
-      newErrors.stock = 'Stok harus berupa angka non-negatif'
-    }
-
     if (!form.categoryId) {
       newErrors.categoryId = 'Kategori wajib dipilih'
     }
 
-    if (!form.size.trim()) {
-      newErrors.size = 'Ukuran wajib diisi'
-    }
+    // Produk bervarian: stok, ukuran dan warna diisi per varian
+    let nextVariantError = ''
+    if (hasVariants) {
+      if (variants.length === 0) {
+        nextVariantError = 'Tambahkan minimal satu varian'
+      } else if (variants.some(v => !v.size.trim() || !v.color.trim())) {
+        nextVariantError = 'Setiap varian wajib memiliki ukuran dan warna'
+      } else if (variants.some(v => isNaN(Number(v.stock)) || Number(v.stock) < 0)) {
+        nextVariantError = 'Stok varian harus berupa angka non-negatif'
+      }
+    } else {
+      if (!form.stock.trim()) {
+        newErrors.stock = 'Stok wajib diisi'
+      } else if (isNaN(Number(form.stock)) || Number(form.stock) < 0) {
+        newErrors.stock = 'Stok harus berupa angka non-negatif'
+      }
 
-    if (!form.color.trim()) {
-      newErrors.color = 'Warna wajib diisi'
+      if (!form.size.trim()) {
+        newErrors.size = 'Ukuran wajib diisi'
+      }
+
+      if (!form.color.trim()) {
+        newErrors.color = 'Warna wajib diisi'
+      }
     }
 
     setErrors(newErrors)
-    return Object.keys(newErrors).length === 0
+    setVariantError(nextVariantError)
+    return Object.keys(newErrors).length === 0 && !nextVariantError
   }
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -208,14 +231,17 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
         id: productId,
         name: form.name.trim(),
         productCode: form.productCode.trim(),
+        barcode: form.barcode.trim(),
         price: form.price,
         costPrice: form.costPrice || '0',
-        stock: form.stock,
+        stock: hasVariants ? variants.reduce((sum, v) => sum + (Number(v.stock) || 0), 0) : form.stock,
         categoryId: form.categoryId,
         description: form.description.trim(),
         image: form.image,
-        size: form.size.trim(),
-        color: form.color.trim()
+        size: hasVariants ? '' : form.size.trim(),
+        color: hasVariants ? '' : form.color.trim(),
+        // Daftar kosong menghapus varian saat produk diubah kembali menjadi satu SKU
+        variants: hasVariants ? toVariantPayload(variants) : []
       }
       
       // Send to API
@@ -402,6 +428,23 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
           )}
         </div>
 
+        {/* Barcode */}
+        <div>
+          <label htmlFor="barcode" className="block text-sm font-medium text-gray-700 mb-2">
+            Barcode
+          </label>
+          <input
+            type="text"
+            id="barcode"
+            name="barcode"
+            value={form.barcode}
+            onChange={handleInputChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+            placeholder='EAN-13 atau Code128 dari pemasok'
+          />
+          <p className="mt-1 text-xs text-gray-500">Kosongkan untuk membuat EAN-13 internal otomatis</p>
+        </div>
+
         {/* Description */}
         <div>
           <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
@@ -419,7 +462,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
         </div>
 
         {/* Price, Cost Price, and Stock */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className={`grid grid-cols-1 gap-6 ${hasVariants ? 'md:grid-cols-2' : 'md:grid-cols-3'}`}>
           <div>
             <label htmlFor="price" className="block text-sm font-medium text-gray-700 mb-2">
               Harga Jual *
@@ -470,6 +513,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
             )}
           </div>
 
+          {!hasVariants && (
           <div>
             <label htmlFor="stock" className="block text-sm font-medium text-gray-700 mb-2">
               Stok *
@@ -490,6 +534,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
               <p className="mt-1 text-sm text-red-600">{errors.stock}</p>
             )}
           </div>
+          )}
         </div>
 
         {/* Category */}
@@ -518,7 +563,24 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
           )}
         </div>
 
-        {/* Size and Color */}
+        {/* Variant toggle */}
+        <div className="flex items-center">
+          <input
+            type="checkbox"
+            id="hasVariants"
+            checked={hasVariants}
+            onChange={(e) => setHasVariants(e.target.checked)}
+            className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <label htmlFor="hasVariants" className="ml-2 text-sm font-medium text-gray-700">
+            Produk memiliki varian ukuran/warna
+          </label>
+        </div>
+
+        {hasVariants ? (
+          <VariantMatrixEditor variants={variants} onChange={setVariants} error={variantError} />
+        ) : (
+        /* Size and Color */
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Size */}
           <div>
@@ -594,6 +656,7 @@ export default function EditProductForm({ productId, onClose, onSuccess }: EditP
             />
           </div>
         </div>
+        )}
 
         {/* Submit Buttons */}
         <div className="flex justify-end space-x-4 pt-6 border-t">
@@ -0,0 +1,380 @@
+"use client"
+
+import { useState } from "react"
+import useSWR from "swr"
+import { ArrowPathIcon, MagnifyingGlassIcon, PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline"
+import toast from "react-hot-toast"
+import { apiFetch, apiSWRFetcher } from "@/lib/api"
+import ManagerApprovalModal, { isApprovalRequired, type ApprovalRequest } from "@/components/ManagerApprovalModal"
+
+interface SaleItem {
+  id: string
+  quantity: number
+  refundedQuantity?: number
+  price: number
+  subtotal: number
+  product?: { id: string; name: string } | null
+  variant?: { id: string; size: string; color: string } | null
+}
+
+interface Sale {
+  id: string
+  status: string
+  finalTotal: number
+  refundedAmount?: number
+  exchangedAmount?: number
+  items: SaleItem[]
+}
+
+interface ProductOption {
+  id: string
+  name: string
+  productCode?: string
+  price: number
+  variants?: { id: string; size: string; color: string; price?: number | null; stock: number; isActive: boolean }[]
+}
+
+interface NewLine {
+  productId: string
+  variantId: string
+  quantity: string
+}
+
+export interface ExchangeResult {
+  exchange: any
+  credit: number
+  amountDue: number
+  refundDue: number
+}
+
+interface ExchangeModalProps {
+  onClose: () => void
+  onCompleted: (result: ExchangeResult) => void
+}
+
+const emptyLine = (): NewLine => ({ productId: "", variantId: "", quantity: "1" })
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function ExchangeModal({ onClose, onCompleted }: ExchangeModalProps) {
+  const [transactionId, setTransactionId] = useState("")
+  const [sale, setSale] = useState<Sale | null>(null)
+  const [loadingSale, setLoadingSale] = useState(false)
+  const [returnQuantities, setReturnQuantities] = useState<Record<string, number>>({})
+  const [lines, setLines] = useState<NewLine[]>([emptyLine()])
+  const [paymentMethod, setPaymentMethod] = useState<"CASH" | "CARD" | "QRIS" | "BANK_TRANSFER">("CASH")
+  const [submitting, setSubmitting] = useState(false)
+  const [approvalRequest, setApprovalRequest] = useState<ApprovalRequest | null>(null)
+
+  const { data: productData } = useSWR<{ products: ProductOption[] }>("/api/v1/products", apiSWRFetcher)
+  const products = productData?.products || []
+
+  const findSale = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const id = transactionId.trim()
+    if (!id) return
+    setLoadingSale(true)
+    try {
+      const res = await apiFetch(`/api/v1/transactions/${encodeURIComponent(id)}`)
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || "Transaksi tidak ditemukan")
+      if (!["COMPLETED", "PARTIALLY_REFUNDED"].includes(body.status)) {
+        throw new Error("Hanya transaksi selesai yang dapat ditukar")
+      }
+      setSale(body)
+      setReturnQuantities({})
+    } catch (error) {
+      setSale(null)
+      toast.error(error instanceof Error ? error.message : "Gagal memuat transaksi")
+    } finally {
+      setLoadingSale(false)
+    }
+  }
+
+  const updateLine = (index: number, patch: Partial<NewLine>) => {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  }
+
+  const linePrice = (line: NewLine) => {
+    const product = products.find((p) => p.id === line.productId)
+    const variant = product?.variants?.find((v) => v.id === line.variantId)
+    return Number(variant?.price ?? product?.price ?? 0)
+  }
+
+  // Same proration as the server: returned units carry their share of the sale's discounts
+  const credit = (() => {
+    if (!sale) return 0
+    const grossTotal = sale.items.reduce((sum, i) => sum + Number(i.subtotal || 0), 0)
+    if (grossTotal <= 0) return 0
+    const grossReturned = sale.items.reduce(
+      (sum, i) => sum + (i.quantity > 0 ? (Number(i.subtotal || 0) * (returnQuantities[i.id] || 0)) / i.quantity : 0),
+      0
+    )
+    return Math.min(
+      Number(sale.finalTotal || 0) - Number(sale.refundedAmount || 0) - Number(sale.exchangedAmount || 0),
+      Math.round((Number(sale.finalTotal || 0) * grossReturned) / grossTotal)
+    )
+  })()
+  const newTotal = lines.reduce((sum, l) => (l.productId ? sum + linePrice(l) * (Number(l.quantity) || 0) : sum), 0)
+  const difference = newTotal - credit
+
+  const handleSubmit = async (approvalToken?: string) => {
+    if (!sale) return
+    const returnItems = Object.entries(returnQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([transactionItemId, quantity]) => ({ transactionItemId, quantity }))
+    if (returnItems.length === 0) {
+      toast.error("Pilih barang yang dikembalikan")
+      return
+    }
+    const newItems = lines.filter((l) => l.productId)
+    if (newItems.length === 0) {
+      toast.error("Tambahkan barang pengganti")
+      return
+    }
+    for (const line of newItems) {
+      const product = products.find((p) => p.id === line.productId)
+      if ((product?.variants || []).some((v) => v.isActive !== false) && !line.variantId) {
+        toast.error(`Pilih varian untuk ${product?.name}`)
+        return
+      }
+      if (!(Number(line.quantity) > 0)) {
+        toast.error("Jumlah barang pengganti wajib diisi")
+        return
+      }
+    }
+
+    setSubmitting(true)
+    try {
+      const res = await apiFetch(`/api/v1/transactions/${sale.id}/exchange`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(approvalToken ? { "X-Approval-Token": approvalToken } : {}),
+        },
+        body: JSON.stringify({
+          returnItems,
+          newItems: newItems.map((l) => ({ productId: l.productId, variantId: l.variantId || null, quantity: Number(l.quantity) })),
+          paymentMethod,
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      // Money handed back to the customer is a refund and needs a manager
+      if (isApprovalRequired(res.status, body)) {
+        setApprovalRequest({
+          action: "REFUND",
+          transactionId: sale.id,
+          description: `Tukar barang transaksi ${sale.id}, selisih dikembalikan ${formatCurrency(-difference)}`,
+        })
+        return
+      }
+      if (!res.ok) throw new Error(body.error || "Gagal memproses tukar barang")
+      onCompleted(body)
+    } catch (error) {
+      console.error("Error exchanging items:", error)
+      toast.error(error instanceof Error ? error.message : "Gagal memproses tukar barang")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ArrowPathIcon className="h-5 w-5 mr-2 text-amber-600" />
+            Tukar Barang
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <form onSubmit={findSale} className="flex gap-2">
+            <input
+              type="text"
+              value={transactionId}
+              onChange={(e) => setTransactionId(e.target.value)}
+              placeholder="ID transaksi pada struk"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={loadingSale}
+              className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+            >
+              <MagnifyingGlassIcon className="h-4 w-4 mr-1" />
+              {loadingSale ? "Mencari..." : "Cari"}
+            </button>
+          </form>
+
+          {sale && (
+            <>
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Barang Dikembalikan</h4>
+                <div className="border rounded-lg divide-y divide-gray-200">
+                  {sale.items.map((item) => {
+                    const remaining = item.quantity - (item.refundedQuantity || 0)
+                    return (
+                      <div key={item.id} className="flex items-center justify-between px-4 py-3">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            {item.product?.name || "Produk"}
+                            {item.variant ? ` (${item.variant.size} / ${item.variant.color})` : ""}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatCurrency(item.price)} x {item.quantity}
+                            {(item.refundedQuantity || 0) > 0 && ` (${item.refundedQuantity} sudah dikembalikan)`}
+                          </p>
+                        </div>
+                        <input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          value={returnQuantities[item.id] ?? 0}
+                          disabled={remaining <= 0}
+                          onChange={(e) => {
+                            const value = Math.max(0, Math.min(remaining, Math.floor(Number(e.target.value) || 0)))
+                            setReturnQuantities((prev) => ({ ...prev, [item.id]: value }))
+                          }}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-sm disabled:bg-gray-100"
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-2">Barang Pengganti</h4>
+                <div className="space-y-2">
+                  {lines.map((line, index) => {
+                    const product = products.find((p) => p.id === line.productId)
+                    const variants = (product?.variants || []).filter((v) => v.isActive !== false)
+                    return (
+                      <div key={index} className="flex flex-wrap items-center gap-2">
+                        <select
+                          value={line.productId}
+                          onChange={(e) => updateLine(index, { productId: e.target.value, variantId: "" })}
+                          className="flex-1 min-w-[12rem] px-2 py-1.5 border border-gray-300 rounded text-sm"
+                        >
+                          <option value="">Pilih produk</option>
+                          {products.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}{p.productCode ? ` (${p.productCode})` : ""}</option>
+                          ))}
+                        </select>
+                        {variants.length > 0 && (
+                          <select
+                            value={line.variantId}
+                            onChange={(e) => updateLine(index, { variantId: e.target.value })}
+                            className="w-40 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                          >
+                            <option value="">Pilih varian</option>
+                            {variants.map((v) => (
+                              <option key={v.id} value={v.id} disabled={v.stock <= 0}>
+                                {v.size} / {v.color} (stok {v.stock})
+                              </option>
+                            ))}
+                          </select>
+                        )}
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                          className="w-16 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                        />
+                        <span className="w-28 text-right text-sm text-gray-700">
+                          {formatCurrency(linePrice(line) * (Number(line.quantity) || 0))}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                          className="text-red-500 hover:text-red-700"
+                          title="Hapus baris"
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => setLines((prev) => [...prev, emptyLine()])}
+                  className="mt-2 inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Tambah Barang
+                </button>
+              </div>
+
+              <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Nilai barang dikembalikan</span>
+                  <span className="text-gray-900">-{formatCurrency(credit)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Barang pengganti</span>
+                  <span className="text-gray-900">{formatCurrency(newTotal)}</span>
+                </div>
+                <div className="flex justify-between font-semibold pt-2 border-t border-gray-200">
+                  <span>{difference >= 0 ? "Kekurangan dibayar pelanggan" : "Kelebihan dikembalikan ke pelanggan"}</span>
+                  <span className={difference >= 0 ? "text-green-700" : "text-orange-600"}>{formatCurrency(Math.abs(difference))}</span>
+                </div>
+              </div>
+
+              {difference > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Metode Pembayaran Selisih</label>
+                  <select
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as typeof paymentMethod)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="CASH">Tunai</option>
+                    <option value="CARD">Kartu</option>
+                    <option value="QRIS">QRIS</option>
+                    <option value="BANK_TRANSFER">Transfer Bank</option>
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+          >
+            Batal
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSubmit()}
+            disabled={!sale || submitting}
+            className="px-6 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 font-medium disabled:opacity-50"
+          >
+            {submitting ? "Memproses..." : "Proses Tukar"}
+          </button>
+        </div>
+      </div>
+
+      {approvalRequest && (
+        <ManagerApprovalModal
+          request={approvalRequest}
+          onClose={() => setApprovalRequest(null)}
+          onApproved={(approvalToken) => {
+            setApprovalRequest(null)
+            handleSubmit(approvalToken)
+          }}
+        />
+      )}
+    </div>
+  )
+}
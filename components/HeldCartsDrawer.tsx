@@ -0,0 +1,116 @@
+"use client"
+
+import { ClockIcon, PlayIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline"
+
+export interface HeldCartLine {
+  id: string
+  cartKey: string
+  name: string
+  price: number
+  quantity: number
+  variantId?: string
+  [key: string]: any
+}
+
+export interface HeldCart {
+  id: string
+  cashierShiftId: string
+  name: string
+  items: HeldCartLine[]
+  customerName?: string | null
+  customerPhone?: string | null
+  customerEmail?: string | null
+  memberId?: number | null
+  member?: { id: number; name: string; phone?: string; email?: string; points: number; totalSpent: number } | null
+  voucherCode?: string | null
+  pointsToUse?: number
+  notes?: string | null
+  createdAt: string
+  user?: { id: number; name: string } | null
+}
+
+interface HeldCartsDrawerProps {
+  heldCarts: HeldCart[]
+  busyId?: string | null
+  onClose: () => void
+  onResume: (hold: HeldCart) => void
+  onDiscard: (hold: HeldCart) => void
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function HeldCartsDrawer({ heldCarts, busyId, onClose, onResume, onDiscard }: HeldCartsDrawerProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-end z-50" onClick={onClose}>
+      <div className="bg-white w-full max-w-md h-full shadow-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ClockIcon className="h-5 w-5 mr-2 text-indigo-600" />
+            Pesanan Ditahan
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {heldCarts.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-12">Belum ada pesanan yang ditahan</p>
+          )}
+          {heldCarts.map((hold) => {
+            const quantity = hold.items.reduce((sum, item) => sum + Number(item.quantity || 0), 0)
+            const subtotal = hold.items.reduce((sum, item) => sum + Number(item.price || 0) * Number(item.quantity || 0), 0)
+            return (
+              <div key={hold.id} className="border border-gray-200 rounded-xl p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium text-gray-900">{hold.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {new Date(hold.createdAt).toLocaleTimeString("id-ID", { hour: "2-digit", minute: "2-digit", timeZone: "Asia/Jakarta" })}
+                      {hold.user?.name ? ` • ${hold.user.name}` : ""}
+                    </p>
+                  </div>
+                  <span className="text-sm font-semibold text-gray-900">{formatCurrency(subtotal)}</span>
+                </div>
+                <p className="text-sm text-gray-600 mt-2">
+                  {quantity} item: {hold.items.map((item) => item.name).join(", ")}
+                </p>
+                {(hold.member || hold.customerName) && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Pelanggan: {hold.member?.name || hold.customerName}
+                    {hold.member ? " (member)" : ""}
+                  </p>
+                )}
+                {hold.voucherCode && <p className="text-xs text-purple-600 mt-1">Voucher: {hold.voucherCode}</p>}
+                {hold.notes && <p className="text-xs text-gray-500 mt-1 italic">{hold.notes}</p>}
+                <div className="flex gap-2 mt-3">
+                  <button
+                    onClick={() => onResume(hold)}
+                    disabled={busyId === hold.id}
+                    className="flex-1 inline-flex items-center justify-center px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 font-medium disabled:opacity-50"
+                  >
+                    <PlayIcon className="h-4 w-4 mr-1" />
+                    Lanjutkan
+                  </button>
+                  <button
+                    onClick={() => onDiscard(hold)}
+                    disabled={busyId === hold.id}
+                    className="inline-flex items-center px-3 py-1.5 text-sm text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50"
+                    title="Hapus pesanan ditahan"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <p className="px-6 py-4 border-t border-gray-100 text-xs text-gray-500">
+          Pesanan ditahan otomatis kedaluwarsa saat shift kasir yang menahannya ditutup.
+        </p>
+      </div>
+    </div>
+  )
+}
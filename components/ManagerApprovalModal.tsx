@@ -0,0 +1,183 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import useSWR from "swr"
+import { ShieldCheckIcon, XMarkIcon } from "@heroicons/react/24/outline"
+import toast from "react-hot-toast"
+import { apiFetch, apiSWRFetcher } from "@/lib/api"
+
+export type ApprovalAction = "CANCEL" | "REFUND" | "MARK_PAID" | "DISCOUNT" | "NO_SALE"
+
+export const APPROVAL_ACTION_LABELS: Record<ApprovalAction, string> = {
+  CANCEL: "Pembatalan transaksi",
+  REFUND: "Refund transaksi",
+  MARK_PAID: "Terima pembayaran manual",
+  DISCOUNT: "Diskon manual",
+  NO_SALE: "Buka laci tanpa penjualan",
+}
+
+// What the approval token must cover, as sent to POST /approvals
+export interface ApprovalRequest {
+  action: ApprovalAction
+  transactionId?: string
+  amount?: number
+  description?: string
+}
+
+interface Approver {
+  id: number
+  name: string
+  role: "ADMIN" | "MANAGER"
+  hasPin: boolean
+}
+
+interface ManagerApprovalModalProps {
+  request: ApprovalRequest
+  onClose: () => void
+  onApproved: (approvalToken: string) => void
+}
+
+// A 403 from an action route that a manager can unlock
+export function isApprovalRequired(status: number, body: any): body is { code: "APPROVAL_REQUIRED"; action: ApprovalAction } {
+  return status === 403 && body?.code === "APPROVAL_REQUIRED"
+}
+
+// A manager or admin enters their PIN (or password) on the cashier's screen;
+// the short-lived token goes back to the caller to retry the action with
+export default function ManagerApprovalModal({ request, onClose, onApproved }: ManagerApprovalModalProps) {
+  const { data } = useSWR<{ approvers: Approver[] }>("/api/v1/approvals/approvers", apiSWRFetcher)
+  const approvers = data?.approvers || []
+  const [approverId, setApproverId] = useState<number | null>(null)
+  const [usePassword, setUsePassword] = useState(false)
+  const [secret, setSecret] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const selected = approvers.find((a) => a.id === approverId)
+
+  useEffect(() => {
+    if (approverId == null && approvers.length > 0) setApproverId(approvers[0].id)
+  }, [approvers, approverId])
+
+  // Approvers without a PIN can only use their password
+  useEffect(() => {
+    if (selected && !selected.hasPin) setUsePassword(true)
+  }, [selected])
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!approverId || !secret) {
+      toast.error(usePassword ? "Masukkan password penyetuju" : "Masukkan PIN penyetuju")
+      return
+    }
+    setSubmitting(true)
+    try {
+      const res = await apiFetch("/api/v1/approvals", {
+        method: "POST",
+        body: JSON.stringify({
+          action: request.action,
+          approverId,
+          ...(usePassword ? { password: secret } : { pin: secret }),
+          ...(request.transactionId ? { transactionId: request.transactionId } : {}),
+          ...(request.amount != null ? { amount: request.amount } : {}),
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) {
+        toast.error(res.status === 429 ? "Terlalu banyak percobaan salah. Coba lagi nanti." : body.error === "Invalid approver credentials" ? "PIN atau password salah" : body.error || "Persetujuan gagal")
+        setSecret("")
+        return
+      }
+      toast.success(`Disetujui oleh ${body.approver?.name || "manajer"}`)
+      onApproved(body.approvalToken)
+    } catch (error) {
+      console.error("Error requesting approval:", error)
+      toast.error("Terjadi kesalahan saat meminta persetujuan")
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-sm w-full">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ShieldCheckIcon className="h-5 w-5 mr-2 text-indigo-600" />
+            Persetujuan Manajer
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+        <form onSubmit={submit} className="p-6 space-y-4">
+          <div className="bg-indigo-50 rounded-lg p-3 text-sm text-indigo-800">
+            <p className="font-medium">{APPROVAL_ACTION_LABELS[request.action]}</p>
+            {request.description && <p className="mt-1">{request.description}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Penyetuju</label>
+            <select
+              value={approverId ?? ""}
+              onChange={(e) => {
+                setApproverId(Number(e.target.value))
+                setSecret("")
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+            >
+              {approvers.length === 0 && <option value="">Memuat...</option>}
+              {approvers.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name} ({a.role === "ADMIN" ? "Admin" : "Manajer"})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{usePassword ? "Password" : "PIN"}</label>
+            <input
+              type="password"
+              inputMode={usePassword ? "text" : "numeric"}
+              autoComplete="off"
+              autoFocus
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent tracking-widest"
+              placeholder={usePassword ? "Password penyetuju" : "PIN 4-6 digit"}
+            />
+            {selected?.hasPin && (
+              <button
+                type="button"
+                onClick={() => {
+                  setUsePassword(!usePassword)
+                  setSecret("")
+                }}
+                className="mt-2 text-xs text-indigo-600 hover:text-indigo-800"
+              >
+                {usePassword ? "Gunakan PIN" : "Gunakan password"}
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 font-medium"
+            >
+              Batal
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !approverId}
+              className="px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white font-medium disabled:opacity-50"
+            >
+              {submitting ? "Memverifikasi..." : "Setujui"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
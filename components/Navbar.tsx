@@ -6,6 +6,7 @@ import { useAuth } from "@/hooks/useAuth"
 import { logout as customLogout } from "@/lib/auth-client"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
+import { canAccessPage } from "@/lib/permissions"
 import {
   Bars3Icon,
   XMarkIcon,
@@ -18,36 +19,55 @@ import {
   DocumentTextIcon,
   CreditCardIcon,
   UsersIcon,
-  ChatBubbleLeftRightIcon
+  ChatBubbleLeftRightIcon,
+  TruckIcon,
+  ClipboardDocumentListIcon,
+  ReceiptPercentIcon,
+  GiftIcon,
+  UserGroupIcon,
+  MegaphoneIcon,
+  InboxStackIcon
 } from '@heroicons/react/24/outline'
 
 interface NavItem {
   name: string
   href: string
   icon: React.ComponentType<React.SVGProps<SVGSVGElement>>
-  roles: string[]
 }
 
+// Visibility follows the page permissions in lib/permissions.js
 const navigation: NavItem[] = [
-  { name: 'Dashboard', href: '/dashboard', icon: HomeIcon, roles: ['ADMIN', 'CASHIER'] },
-  { name: 'Kasir', href: '/cashier', icon: CreditCardIcon, roles: ['ADMIN', 'CASHIER'] },
-  { name: 'Produk', href: '/products', icon: CubeIcon, roles: ['ADMIN', 'CASHIER'] },
-  { name: 'Member', href: '/members', icon: UserIcon, roles: ['CASHIER'] },
-  { name: 'Transaksi', href: '/transactions', icon: ShoppingCartIcon, roles: ['ADMIN', 'CASHIER'] },
-  { name: 'Laporan', href: '/reports', icon: DocumentTextIcon, roles: ['ADMIN', 'CASHIER'] },
+  { name: 'Dashboard', href: '/dashboard', icon: HomeIcon },
+  { name: 'Kasir', href: '/cashier', icon: CreditCardIcon },
+  { name: 'Produk', href: '/products', icon: CubeIcon },
+  { name: 'Member', href: '/members', icon: UserIcon },
+  { name: 'Poin', href: '/admin/loyalty', icon: GiftIcon },
+  { name: 'Segmen', href: '/admin/segments', icon: UserGroupIcon },
+  { name: 'Transaksi', href: '/transactions', icon: ShoppingCartIcon },
+  { name: 'Laporan', href: '/reports', icon: DocumentTextIcon },
+  { name: 'Pajak', href: '/admin/tax', icon: ReceiptPercentIcon },
 
-  { name: 'WhatsApp', href: '/admin/whatsapp', icon: ChatBubbleLeftRightIcon, roles: ['ADMIN'] },
+  { name: 'Pembelian', href: '/admin/purchase-orders', icon: TruckIcon },
+  { name: 'WhatsApp', href: '/admin/whatsapp', icon: ChatBubbleLeftRightIcon },
+  { name: 'Kampanye', href: '/admin/whatsapp/campaigns', icon: MegaphoneIcon },
+  { name: 'Antrean Pesan', href: '/admin/whatsapp/outbox', icon: InboxStackIcon },
+  { name: 'Audit Log', href: '/admin/audit-logs', icon: ClipboardDocumentListIcon },
 ]
 
+const roleBadgeClass = (role: string) =>
+  role === 'ADMIN'
+    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white'
+    : role === 'MANAGER'
+      ? 'bg-gradient-to-r from-blue-500 to-indigo-500 text-white'
+      : 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
+
 export default function Navbar() {
   const [isOpen, setIsOpen] = useState(false)
   const { user } = useAuth()
   const pathname = usePathname()
 
   const userRole = user?.role ?? 'CASHIER'
-  const filteredNavigation = navigation.filter(item => 
-    item.roles.includes(userRole)
-  )
+  const filteredNavigation = navigation.filter(item => canAccessPage(userRole, item.href))
 
   const handleSignOut = async () => {
     try { await customLogout() } catch (_) {}
@@ -116,11 +136,7 @@ export default function Navbar() {
               <div className="flex flex-col min-w-0">
                 <span className="text-sm font-semibold text-gray-900 truncate leading-tight">{user?.name ?? 'Pengguna'}</span>
                 <div className="flex items-center -mt-0.5">
-                  <span className={`text-xs font-bold px-1.5 py-0.5 rounded-full ${
-                    userRole === 'ADMIN' 
-                      ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' 
-                      : 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
-                  }`}>
+                  <span className={`text-xs font-bold px-1.5 py-0.5 rounded-full ${roleBadgeClass(userRole)}`}>
                     {userRole}
                   </span>
                 </div>
@@ -194,11 +210,7 @@ export default function Navbar() {
               <div className="flex-1 min-w-0">
                 <div className="text-base font-bold text-gray-900 truncate">{user?.name ?? 'Pengguna'}</div>
                 <div className="text-sm text-gray-600 truncate">{user?.email ?? ''}</div>
-                <div className={`inline-block text-xs font-bold px-2 py-1 rounded-full mt-1 ${
-                  userRole === 'ADMIN' 
-                    ? 'bg-gradient-to-r from-purple-500 to-pink-500 text-white' 
-                    : 'bg-gradient-to-r from-green-500 to-emerald-500 text-white'
-                }`}>
+                <div className={`inline-block text-xs font-bold px-2 py-1 rounded-full mt-1 ${roleBadgeClass(userRole)}`}>
                   {userRole}
                 </div>
               </div>
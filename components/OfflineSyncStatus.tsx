@@ -0,0 +1,182 @@
+"use client"
+
+import React, { useState } from 'react'
+import {
+  ArrowPathIcon,
+  CloudIcon,
+  ExclamationTriangleIcon,
+  SignalSlashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline'
+import type { OutboxEntry } from '@/lib/offlineOutbox'
+
+interface OfflineSyncStatusProps {
+  isOnline: boolean
+  isSyncing: boolean
+  entries: OutboxEntry[]
+  onSync: () => void
+  onRetry: (idempotencyKey: string) => void
+  onApprove: (entry: OutboxEntry) => void
+  onDismiss: (idempotencyKey: string) => void
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR' }).format(Number(amount) || 0)
+
+export default function OfflineSyncStatus({ isOnline, isSyncing, entries, onSync, onRetry, onApprove, onDismiss }: OfflineSyncStatusProps) {
+  const [showDetails, setShowDetails] = useState(false)
+
+  const pending = entries.filter((e) => e.status === 'PENDING')
+  const problems = entries.filter((e) => e.status !== 'PENDING')
+
+  if (isOnline && entries.length === 0) return null
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        {!isOnline ? (
+          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-gray-800 text-white text-sm">
+            <SignalSlashIcon className="h-4 w-4" />
+            Offline • Hanya tunai
+          </span>
+        ) : (
+          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-blue-100 text-blue-700 text-sm">
+            <CloudIcon className="h-4 w-4" />
+            Online
+          </span>
+        )}
+        {entries.length > 0 && (
+          <button
+            onClick={() => setShowDetails(true)}
+            className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-sm ${problems.length > 0 ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-700'}`}
+          >
+            {problems.length > 0 && <ExclamationTriangleIcon className="h-4 w-4" />}
+            {pending.length} menunggu sinkron{problems.length > 0 ? ` • ${problems.length} perlu dicek` : ''}
+          </button>
+        )}
+        {isOnline && pending.length > 0 && (
+          <button
+            onClick={onSync}
+            disabled={isSyncing}
+            className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-sm font-medium disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            {isSyncing ? 'Menyinkronkan...' : 'Sinkronkan'}
+          </button>
+        )}
+      </div>
+
+      {showDetails && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[80vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-gray-900">Transaksi Offline</h3>
+              <button onClick={() => setShowDetails(false)} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+            <div className="p-6 space-y-3">
+              {entries.length === 0 && (
+                <p className="text-sm text-gray-500">Semua transaksi offline sudah tersinkron.</p>
+              )}
+              {entries.map((entry) => (
+                <div key={entry.idempotencyKey} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{formatCurrency(entry.payload?.total)}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(entry.createdAt).toLocaleString('id-ID', { timeZone: 'Asia/Jakarta' })} • {entry.payload?.items?.length || 0} item
+                      </p>
+                    </div>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                        entry.status === 'PENDING'
+                          ? 'bg-yellow-100 text-yellow-700'
+                          : entry.status === 'CONFLICT' || entry.status === 'NEEDS_APPROVAL'
+                            ? 'bg-orange-100 text-orange-700'
+                            : 'bg-red-100 text-red-700'
+                      }`}
+                    >
+                      {entry.status === 'PENDING'
+                        ? 'Menunggu'
+                        : entry.status === 'CONFLICT'
+                          ? 'Konflik'
+                          : entry.status === 'NEEDS_APPROVAL'
+                            ? 'Perlu persetujuan'
+                            : 'Gagal'}
+                    </span>
+                  </div>
+                  {entry.status === 'FAILED' && entry.lastError && (
+                    <p className="mt-2 text-xs text-red-600">{entry.lastError}</p>
+                  )}
+                  {entry.status === 'NEEDS_APPROVAL' && (
+                    <p className="mt-2 text-xs text-orange-700">
+                      Belum tercatat di server: transaksi ini perlu persetujuan manajer sebelum disinkronkan.
+                    </p>
+                  )}
+                  {entry.status === 'CONFLICT' && (entry.stockConflicts || []).length > 0 && (
+                    <div className="mt-2 text-xs text-orange-700">
+                      <p>Transaksi tersimpan{entry.transactionId ? ` (#${entry.transactionId})` : ''}, tetapi stok menjadi minus:</p>
+                      <ul className="list-disc ml-4">
+                        {(entry.stockConflicts || []).map((c) => (
+                          <li key={c.productId}>{c.name || c.productId}: stok {c.stock}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                  {entry.status === 'CONFLICT' && entry.priceConflicts && (
+                    <div className="mt-2 text-xs text-orange-700">
+                      <p>Transaksi tersimpan{entry.transactionId ? ` (#${entry.transactionId})` : ''} dengan harga server:</p>
+                      <ul className="list-disc ml-4">
+                        {entry.priceConflicts.items.map((c) => (
+                          <li key={c.productId}>{c.name || c.productId}: {formatCurrency(c.clientPrice)} → {formatCurrency(c.serverPrice)}</li>
+                        ))}
+                        {entry.priceConflicts.totals.total && (
+                          <li>Total: {formatCurrency(entry.priceConflicts.totals.total.client)} → {formatCurrency(entry.priceConflicts.totals.total.server)}</li>
+                        )}
+                      </ul>
+                    </div>
+                  )}
+                  {entry.status !== 'PENDING' && (
+                    <div className="mt-3 flex justify-end gap-2">
+                      {entry.status === 'FAILED' && (
+                        <button
+                          onClick={() => onRetry(entry.idempotencyKey)}
+                          className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium"
+                        >
+                          Coba Lagi
+                        </button>
+                      )}
+                      {entry.status === 'NEEDS_APPROVAL' && (
+                        <button
+                          onClick={() => {
+                            setShowDetails(false)
+                            onApprove(entry)
+                          }}
+                          className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 text-white text-xs font-medium"
+                        >
+                          Minta Persetujuan
+                        </button>
+                      )}
+                      <button
+                        onClick={() => {
+                          const message = entry.status === 'CONFLICT'
+                            ? 'Tandai konflik ini sudah ditangani?'
+                            : 'Hapus transaksi ini dari antrean? Transaksi tidak akan tercatat di server.'
+                          if (confirm(message)) onDismiss(entry.idempotencyKey)
+                        }}
+                        className="px-3 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 text-gray-700 text-xs font-medium"
+                      >
+                        {entry.status === 'CONFLICT' ? 'Selesai' : 'Hapus'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,285 @@
+"use client"
+
+import { useState } from "react"
+import useSWR from "swr"
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline"
+import toast from "react-hot-toast"
+import { apiFetch, apiSWRFetcher } from "@/lib/api"
+
+interface SupplierOption {
+  id: string
+  name: string
+}
+
+interface ProductOption {
+  id: string
+  name: string
+  productCode?: string
+  costPrice?: number
+  variants?: { id: string; size: string; color: string; isActive: boolean }[]
+}
+
+export interface PurchaseOrderLineInput {
+  productId: string
+  variantId: string
+  quantity: string
+  unitCost: string
+}
+
+export interface PurchaseOrderFormValues {
+  supplierId: string
+  expectedDate: string
+  notes: string
+  items: PurchaseOrderLineInput[]
+}
+
+interface PurchaseOrderFormProps {
+  purchaseOrderId?: string
+  initialValues?: PurchaseOrderFormValues
+  onSaved: (purchaseOrder: any) => void
+  onCancel: () => void
+}
+
+export type PurchaseOrderStatus = "DRAFT" | "SENT" | "PARTIALLY_RECEIVED" | "RECEIVED" | "CLOSED"
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, { text: string; color: string }> = {
+  DRAFT: { text: "Draft", color: "bg-gray-100 text-gray-800" },
+  SENT: { text: "Dikirim", color: "bg-blue-100 text-blue-800" },
+  PARTIALLY_RECEIVED: { text: "Diterima Sebagian", color: "bg-yellow-100 text-yellow-800" },
+  RECEIVED: { text: "Diterima", color: "bg-green-100 text-green-800" },
+  CLOSED: { text: "Ditutup", color: "bg-purple-100 text-purple-800" },
+}
+
+const emptyLine =(): PurchaseOrderLineInput => ({ productId: "", variantId: "", quantity: "1", unitCost: "" })
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function PurchaseOrderForm({ purchaseOrderId, initialValues, onSaved, onCancel }: PurchaseOrderFormProps) {
+  const [values, setValues] = useState<PurchaseOrderFormValues>(
+    initialValues || { supplierId: "", expectedDate: "", notes: "", items: [emptyLine()] }
+  )
+  const [saving, setSaving] = useState(false)
+
+  const { data: supplierData } = useSWR<{ suppliers: SupplierOption[] }>("/api/v1/suppliers", apiSWRFetcher)
+  const { data: productData } = useSWR<{ products: ProductOption[] }>("/api/v1/products", apiSWRFetcher)
+  const suppliers = supplierData?.suppliers || []
+  const products = productData?.products || []
+
+  const updateLine = (index: number, patch: Partial<PurchaseOrderLineInput>) => {
+    setValues((prev) => ({ ...prev, items: prev.items.map((l, i) => (i === index ? { ...l, ...patch } : l)) }))
+  }
+
+  const selectProduct = (index: number, productId: string) => {
+    const product = products.find((p) => p.id === productId)
+    // Pre-fill with the current average cost; the supplier price usually differs
+    updateLine(index, { productId, variantId: "", unitCost: product?.costPrice ? String(product.costPrice) : "" })
+  }
+
+  const total = values.items.reduce((sum, l) => sum + (Number(l.quantity) || 0) * (Number(l.unitCost) || 0), 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!values.supplierId) {
+      toast.error("Pilih supplier terlebih dahulu")
+      return
+    }
+    const items = values.items.filter((l) => l.productId)
+    if (items.length === 0) {
+      toast.error("Tambahkan minimal satu produk")
+      return
+    }
+    for (const line of items) {
+      const product = products.find((p) => p.id === line.productId)
+      const hasVariants = (product?.variants || []).some((v) => v.isActive !== false)
+      if (hasVariants && !line.variantId) {
+        toast.error(`Pilih varian untuk ${product?.name}`)
+        return
+      }
+      if (!(Number(line.quantity) > 0) || line.unitCost === "" || Number(line.unitCost) < 0) {
+        toast.error("Jumlah dan harga beli setiap baris wajib diisi")
+        return
+      }
+    }
+
+    setSaving(true)
+    try {
+      const res = await apiFetch(purchaseOrderId ? `/api/v1/purchase-orders/${purchaseOrderId}` : "/api/v1/purchase-orders", {
+        method: purchaseOrderId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          supplierId: values.supplierId,
+          expectedDate: values.expectedDate || undefined,
+          notes: values.notes,
+          items: items.map((l) => ({
+            productId: l.productId,
+            variantId: l.variantId || null,
+            quantity: Number(l.quantity),
+            unitCost: Number(l.unitCost),
+          })),
+        }),
+      })
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok) throw new Error(body.error || "Gagal menyimpan purchase order")
+      toast.success(purchaseOrderId ? "Purchase order diperbarui" : "Draft purchase order dibuat")
+      onSaved(body)
+    } catch (error) {
+      console.error("Error saving purchase order:", error)
+      toast.error(error instanceof Error ? error.message : "Gagal menyimpan purchase order")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Supplier *</label>
+          <select
+            value={values.supplierId}
+            onChange={(e) => setValues((prev) => ({ ...prev, supplierId: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">Pilih supplier</option>
+            {suppliers.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Perkiraan Tiba</label>
+          <input
+            type="date"
+            value={values.expectedDate}
+            onChange={(e) => setValues((prev) => ({ ...prev, expectedDate: e.target.value }))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Produk</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Varian</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Jumlah</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Harga Beli</th>
+              <th className="px-3 py-2 text-right font-medium text-gray-500">Subtotal</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {values.items.map((line, index) => {
+              const product = products.find((p) => p.id === line.productId)
+              const variants = (product?.variants || []).filter((v) => v.isActive !== false)
+              return (
+                <tr key={index}>
+                  <td className="px-3 py-2">
+                    <select
+                      value={line.productId}
+                      onChange={(e) => selectProduct(index, e.target.value)}
+                      className="w-48 px-2 py-1 border border-gray-300 rounded"
+                    >
+                      <option value="">Pilih produk</option>
+                      {products.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}{p.productCode ? ` (${p.productCode})` : ""}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-2">
+                    {variants.length > 0 ? (
+                      <select
+                        value={line.variantId}
+                        onChange={(e) => updateLine(index, { variantId: e.target.value })}
+                        className="w-32 px-2 py-1 border border-gray-300 rounded"
+                      >
+                        <option value="">Pilih</option>
+                        {variants.map((v) => (
+                          <option key={v.id} value={v.id}>{v.size} / {v.color}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <span className="text-gray-400">-</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      min="1"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded"
+                    />
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="text"
+                      value={line.unitCost}
+                      onChange={(e) => updateLine(index, { unitCost: e.target.value.replace(/\D/g, "") })}
+                      className="w-28 px-2 py-1 border border-gray-300 rounded"
+                      placeholder="0"
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatCurrency((Number(line.quantity) || 0) * (Number(line.unitCost) || 0))}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => setValues((prev) => ({ ...prev, items: prev.items.filter((_, i) => i !== index) }))}
+                      className="text-red-500 hover:text-red-700"
+                      title="Hapus baris"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setValues((prev) => ({ ...prev, items: [...prev.items, emptyLine()] }))}
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Tambah Baris
+        </button>
+        <span className="text-sm font-medium text-gray-900">Total: {formatCurrency(total)}</span>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Catatan</label>
+        <textarea
+          value={values.notes}
+          onChange={(e) => setValues((prev) => ({ ...prev, notes: e.target.value }))}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 font-medium"
+        >
+          Batal
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50"
+        >
+          {saving ? "Menyimpan..." : "Simpan Draft"}
+        </button>
+      </div>
+    </form>
+  )
+}
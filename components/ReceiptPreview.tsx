@@ -12,13 +12,15 @@ interface Transaction {
   tax: number
   total: number
   paymentMethod: "CASH" | "CARD" | "QRIS" | "VIRTUAL_ACCOUNT" | "CONVENIENCE_STORE" | "PAYLATER"
-  status: "COMPLETED" | "CANCELLED" | "PENDING" | "REFUNDED"
+  status: "COMPLETED" | "CANCELLED" | "PENDING" | "REFUNDED" | "PARTIALLY_REFUNDED"
   cashier: string
   customer?: string
   pointsUsed?: number
+  pointsDiscount?: number
   voucherCode?: string
   voucherDiscount?: number
   promotionDiscount?: number
+  tierDiscount?: number
 }
 
 interface TransactionItem {
@@ -212,7 +214,7 @@ export default function ReceiptPreview({ transaction, isOpen, onClose, onPrint }
           ${(transaction.pointsUsed ?? 0) > 0 ? `
           <div className="total-line">
             <span>Diskon Poin (${transaction.pointsUsed} poin):</span>
-            <span>-${formatCurrency((transaction.pointsUsed ?? 0) * 1000)}</span>
+            <span>-${formatCurrency(transaction.pointsDiscount ?? 0)}</span>
           </div>` : ''}
           ${transaction.voucherCode && (transaction.voucherDiscount ?? 0) > 0 ? `
           <div className="total-line">
@@ -224,6 +226,11 @@ export default function ReceiptPreview({ transaction, isOpen, onClose, onPrint }
             <span>Diskon Promosi:</span>
             <span>-${formatCurrency(transaction.promotionDiscount ?? 0)}</span>
           </div>` : ''}
+          ${(transaction.tierDiscount ?? 0) > 0 ? `
+          <div className="total-line">
+            <span>Diskon Member:</span>
+            <span>-${formatCurrency(transaction.tierDiscount ?? 0)}</span>
+          </div>` : ''}
           <div className="total-line total-final">
             <span>TOTAL:</span>
             <span>${formatCurrency(transaction.total)}</span>
@@ -334,7 +341,7 @@ export default function ReceiptPreview({ transaction, isOpen, onClose, onPrint }
               {(transaction.pointsUsed ?? 0) > 0 && (
                 <div className="flex justify-between text-xs mb-1 text-green-600">
                   <span>Diskon Poin ({transaction.pointsUsed} poin):</span>
-                  <span>-{formatCurrency((transaction.pointsUsed ?? 0) * 1000)}</span>
+                  <span>-{formatCurrency(transaction.pointsDiscount ?? 0)}</span>
                 </div>
               )}
               {transaction.voucherCode && (transaction.voucherDiscount ?? 0) > 0 && (
@@ -349,6 +356,12 @@ export default function ReceiptPreview({ transaction, isOpen, onClose, onPrint }
                   <span>-{formatCurrency(transaction.promotionDiscount ?? 0)}</span>
                 </div>
               )}
+              {(transaction.tierDiscount ?? 0) > 0 && (
+                <div className="flex justify-between text-xs mb-1 text-amber-600">
+                  <span>Diskon Member:</span>
+                  <span>-{formatCurrency(transaction.tierDiscount ?? 0)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-bold text-sm border-t border-gray-400 pt-2">
                 <span>TOTAL:</span>
                 <span>{formatCurrency(transaction.total)}</span>
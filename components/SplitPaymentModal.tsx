@@ -0,0 +1,192 @@
+"use client"
+
+import { useState } from "react"
+import { BanknotesIcon, PlusIcon, TrashIcon, XMarkIcon } from "@heroicons/react/24/outline"
+import toast from "react-hot-toast"
+
+export type TenderMethod = "CASH" | "CARD" | "QRIS" | "BANK_TRANSFER"
+
+// One tender as sent in POST /transactions payments[]; amount is what was applied
+// to the bill, so cash handed over beyond the balance is reported as change
+export interface Tender {
+  method: TenderMethod
+  amount: number
+  reference?: string
+}
+
+export const TENDER_LABELS: Record<TenderMethod, string> = {
+  CASH: "Tunai",
+  CARD: "Kartu",
+  QRIS: "QRIS",
+  BANK_TRANSFER: "Transfer Bank",
+}
+
+interface SplitPaymentModalProps {
+  total: number
+  processing?: boolean
+  onClose: () => void
+  onConfirm: (tenders: Tender[], change: number) => void
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("id-ID", { style: "currency", currency: "IDR", minimumFractionDigits: 0 }).format(Number(amount) || 0)
+
+export default function SplitPaymentModal({ total, processing, onClose, onConfirm }: SplitPaymentModalProps) {
+  const [tenders, setTenders] = useState<Tender[]>([])
+  const [change, setChange] = useState(0)
+  const [method, setMethod] = useState<TenderMethod>("CASH")
+  const [amount, setAmount] = useState("")
+  const [reference, setReference] = useState("")
+
+  const paid = tenders.reduce((sum, t) => sum + t.amount, 0)
+  const remaining = Math.max(0, total - paid)
+
+  const addTender = (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = Number(amount)
+    if (!Number.isFinite(value) || value <= 0) {
+      toast.error("Nominal pembayaran harus lebih dari 0")
+      return
+    }
+    // Only cash can exceed the balance; the rest goes back as change
+    if (value > remaining && method !== "CASH") {
+      toast.error(`Nominal ${TENDER_LABELS[method]} melebihi sisa tagihan`)
+      return
+    }
+    const applied = Math.min(value, remaining)
+    setTenders((prev) => [...prev, { method, amount: applied, ...(reference.trim() ? { reference: reference.trim() } : {}) }])
+    setChange((prev) => prev + (value - applied))
+    setAmount("")
+    setReference("")
+  }
+
+  const removeTender = (index: number) => {
+    setTenders((prev) => prev.filter((_, i) => i !== index))
+    setChange(0)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-100 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <BanknotesIcon className="h-5 w-5 mr-2 text-green-600" />
+            Bayar Terpisah
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Total tagihan</span>
+              <span className="text-gray-900">{formatCurrency(total)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Sudah dibayar</span>
+              <span className="text-gray-900">{formatCurrency(paid)}</span>
+            </div>
+            <div className="flex justify-between font-semibold pt-2 border-t border-gray-200">
+              <span>Sisa tagihan</span>
+              <span className={remaining > 0 ? "text-orange-600" : "text-green-700"}>{formatCurrency(remaining)}</span>
+            </div>
+            {change > 0 && (
+              <div className="flex justify-between text-green-700">
+                <span>Kembalian</span>
+                <span>{formatCurrency(change)}</span>
+              </div>
+            )}
+          </div>
+
+          {tenders.length > 0 && (
+            <div className="border rounded-lg divide-y divide-gray-200">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex items-center justify-between px-4 py-2 text-sm">
+                  <div>
+                    <p className="font-medium text-gray-900">{TENDER_LABELS[tender.method]}</p>
+                    {tender.reference && <p className="text-xs text-gray-500">Ref: {tender.reference}</p>}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-gray-900">{formatCurrency(tender.amount)}</span>
+                    <button
+                      type="button"
+                      onClick={() => removeTender(index)}
+                      className="text-red-500 hover:text-red-700"
+                      title="Hapus pembayaran"
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {remaining > 0 && (
+            <form onSubmit={addTender} className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={method}
+                  onChange={(e) => setMethod(e.target.value as TenderMethod)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {(Object.keys(TENDER_LABELS) as TenderMethod[]).map((m) => (
+                    <option key={m} value={m}>{TENDER_LABELS[m]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={String(remaining)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              {method !== "CASH" && (
+                <input
+                  type="text"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="No. referensi / approval (opsional)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              )}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setAmount(String(remaining))}
+                  className="px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                >
+                  Sisa Tagihan
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 inline-flex items-center justify-center px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium"
+                >
+                  <PlusIcon className="h-4 w-4 mr-1" />
+                  Tambah Pembayaran
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+            Batal
+          </button>
+          <button
+            onClick={() => onConfirm(tenders, change)}
+            disabled={remaining > 0 || tenders.length === 0 || processing}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium disabled:opacity-50"
+          >
+            {processing ? "Memproses..." : "Selesaikan Pembayaran"}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+"use client"
+
+import { useState } from "react"
+import { PlusIcon, TrashIcon } from "@heroicons/react/24/outline"
+
+export interface ProductVariantInput {
+  id?: string
+  size: string
+  color: string
+  productCode: string
+  barcode: string
+  stock: string
+  price: string
+}
+
+interface VariantMatrixEditorProps {
+  variants: ProductVariantInput[]
+  onChange: (variants: ProductVariantInput[]) => void
+  error?: string
+}
+
+const emptyVariant = (size = "", color = ""): ProductVariantInput => ({
+  size,
+  color,
+  productCode: "",
+  barcode: "",
+  stock: "0",
+  price: "",
+})
+
+const splitList = (value: string) =>
+  value.split(",").map((v) => v.trim()).filter((v) => v !== "")
+
+// Convert the editor rows into the payload accepted by /api/v1/products
+export function toVariantPayload(variants: ProductVariantInput[]) {
+  return variants.map((v) => ({
+    ...(v.id ? { id: v.id } : {}),
+    size: v.size.trim(),
+    color: v.color.trim(),
+    productCode: v.productCode.trim() || undefined,
+    barcode: v.barcode.trim() || null,
+    stock: Number(v.stock || 0),
+    price: v.price.trim() === "" ? null : Number(v.price),
+  }))
+}
+
+export function fromVariantResponse(variants: any[] | undefined): ProductVariantInput[] {
+  return (variants || [])
+    .filter((v) => v && v.isActive !== false)
+    .map((v) => ({
+      id: String(v.id),
+      size: String(v.size ?? ""),
+      color: String(v.color ?? ""),
+      productCode: String(v.productCode ?? ""),
+      barcode: String(v.barcode ?? ""),
+      stock: String(v.stock ?? 0),
+      price: v.price === null || v.price === undefined ? "" : String(v.price),
+    }))
+}
+
+export default function VariantMatrixEditor({ variants, onChange, error }: VariantMatrixEditorProps) {
+  const [sizesInput, setSizesInput] = useState("")
+  const [colorsInput, setColorsInput] = useState("")
+
+  // Add every size × color combination that is not in the table yet
+  const generateMatrix = () => {
+    const sizes = splitList(sizesInput)
+    const colors = splitList(colorsInput)
+    if (sizes.length === 0 || colors.length === 0) return
+    const existing = new Set(variants.map((v) => `${v.size.toLowerCase()}|${v.color.toLowerCase()}`))
+    const added: ProductVariantInput[] = []
+    for (const color of colors) {
+      for (const size of sizes) {
+        const key = `${size.toLowerCase()}|${color.toLowerCase()}`
+        if (!existing.has(key)) {
+          existing.add(key)
+          added.push(emptyVariant(size, color))
+        }
+      }
+    }
+    onChange([...variants, ...added])
+  }
+
+  const updateVariant = (index: number, field: keyof ProductVariantInput, value: string) => {
+    onChange(variants.map((v, i) => (i === index ? { ...v, [field]: value } : v)))
+  }
+
+  const removeVariant = (index: number) => {
+    onChange(variants.filter((_, i) => i !== index))
+  }
+
+  const totalStock = variants.reduce((sum, v) => sum + (Number(v.stock) || 0), 0)
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Ukuran</label>
+          <input
+            type="text"
+            value={sizesInput}
+            onChange={(e) => setSizesInput(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="S, M, L, XL"
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Warna/Corak</label>
+          <input
+            type="text"
+            value={colorsInput}
+            onChange={(e) => setColorsInput(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Hitam, Putih, Navy"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={generateMatrix}
+          className="px-4 py-2 bg-gray-800 text-white rounded-lg hover:bg-gray-900 text-sm font-medium"
+        >
+          Buat Matriks
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Ukuran</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Warna</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">SKU</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Barcode</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Stok</th>
+              <th className="px-3 py-2 text-left font-medium text-gray-500">Harga Khusus</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {variants.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-3 py-4 text-center text-gray-500">
+                  Belum ada varian. Isi ukuran dan warna lalu klik &quot;Buat Matriks&quot;.
+                </td>
+              </tr>
+            )}
+            {variants.map((variant, index) => (
+              <tr key={variant.id || `${variant.size}-${variant.color}-${index}`}>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={variant.size}
+                    onChange={(e) => updateVariant(index, "size", e.target.value)}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={variant.color}
+                    onChange={(e) => updateVariant(index, "color", e.target.value)}
+                    className="w-24 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={variant.productCode}
+                    onChange={(e) => updateVariant(index, "productCode", e.target.value)}
+                    className="w-36 px-2 py-1 border border-gray-300 rounded"
+                    placeholder="Otomatis"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={variant.barcode}
+                    onChange={(e) => updateVariant(index, "barcode", e.target.value)}
+                    className="w-36 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={variant.stock}
+                    onChange={(e) => updateVariant(index, "stock", e.target.value)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </td>
+                <td className="px-3 py-2">
+                  <input
+                    type="text"
+                    value={variant.price}
+                    onChange={(e) => updateVariant(index, "price", e.target.value.replace(/\D/g, ""))}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded"
+                    placeholder="Harga induk"
+                  />
+                </td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeVariant(index)}
+                    className="text-red-500 hover:text-red-700"
+                    title="Hapus varian"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => onChange([...variants, emptyVariant()])}
+          className="inline-flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <PlusIcon className="h-4 w-4 mr-1" />
+          Tambah Varian
+        </button>
+        <span className="text-sm text-gray-600">Total stok: {totalStock}</span>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react'
+
+interface UseBarcodeScannerOptions {
+  enabled?: boolean
+  // Shortest code accepted as a scan
+  minLength?: number
+  // Keyboard-wedge scanners type far faster than people; slower gaps reset the buffer
+  maxKeyGapMs?: number
+}
+
+// Detects keyboard-wedge barcode scanners: a burst of fast keystrokes ended by
+// Enter. Scans typed into an input are only picked up when the input opts in
+// with data-barcode-input, so customer names and notes are left alone.
+export function useBarcodeScanner(
+  onScan: (code: string) => void,
+  { enabled = true, minLength = 4, maxKeyGapMs = 40 }: UseBarcodeScannerOptions = {}
+) {
+  const onScanRef = useRef(onScan)
+  onScanRef.current = onScan
+
+  useEffect(() => {
+    if (!enabled) return
+    let buffer = ''
+    let lastKeyAt = 0
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null
+      const isField = target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+      if (isField && !target?.hasAttribute('data-barcode-input')) return
+      if (e.ctrlKey || e.altKey || e.metaKey) return
+
+      const now = Date.now()
+      if (now - lastKeyAt > maxKeyGapMs) buffer = ''
+      lastKeyAt = now
+
+      if (e.key === 'Enter') {
+        if (buffer.length >= minLength) {
+          e.preventDefault()
+          onScanRef.current(buffer)
+        }
+        buffer = ''
+        return
+      }
+      if (e.key.length === 1) buffer += e.key
+    }
+
+    window.addEventListener('keydown', handleKeyDown, true)
+    return () => window.removeEventListener('keydown', handleKeyDown, true)
+  }, [enabled, minLength, maxKeyGapMs])
+}
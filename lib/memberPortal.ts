@@ -0,0 +1,53 @@
+// Client helpers for the member portal (/portal). Members have their own token,
+// kept apart from the staff token in lib/auth-client.ts; the staff middleware
+// and apiFetch never see it.
+
+const TOKEN_KEY = 'pos.memberToken'
+
+export class PortalError extends Error {
+  status: number
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+export function setMemberToken(token: string | null) {
+  if (typeof window === 'undefined') return
+  try {
+    if (token) window.localStorage.setItem(TOKEN_KEY, token)
+    else window.localStorage.removeItem(TOKEN_KEY)
+  } catch (_) {}
+}
+
+export function getMemberToken(): string | null {
+  if (typeof window === 'undefined') return null
+  try { return window.localStorage.getItem(TOKEN_KEY) } catch (_) { return null }
+}
+
+// Calls /api/v1/portal<path> on the Express backend. A rejected token is
+// cleared so the pages send the member back to the login screen.
+export async function portalFetch<T>(path: string, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers || {})
+  const token = getMemberToken()
+  if (token) headers.set('Authorization', `Bearer ${token}`)
+  if (init?.body && !headers.has('Content-Type')) headers.set('Content-Type', 'application/json')
+
+  const backendBase = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:4000'
+  // No cookies: the staff session must not travel with member requests
+  const res = await fetch(`${backendBase}/api/v1/portal${path}`, { ...init, headers, credentials: 'omit', cache: 'no-store' })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    if (res.status === 401 && token) setMemberToken(null)
+    throw new PortalError(data?.error || res.statusText, res.status)
+  }
+  return data as T
+}
+
+export const portalSWRFetcher = (path: string) => portalFetch<any>(path)
+
+export const formatRupiah = (amount: number) =>
+  new Intl.NumberFormat('id-ID', { style: 'currency', currency: 'IDR', minimumFractionDigits: 0 }).format(amount || 0)
+
+export const formatTanggal = (value: string | Date | null | undefined) =>
+  value ? new Date(value).toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' }) : '-'
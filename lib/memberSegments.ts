@@ -0,0 +1,88 @@
+// Shared by the segment builder (/admin/segments) and the members list.
+// Rules follow backend/src/services/memberSegments.js.
+
+import { apiFetch } from '@/lib/api'
+
+export interface SegmentRange {
+  min?: number
+  max?: number
+}
+
+export interface SegmentRules {
+  recencyScore?: SegmentRange
+  frequencyScore?: SegmentRange
+  monetaryScore?: SegmentRange
+  spend?: SegmentRange
+  lastVisitDays?: SegmentRange
+  tierIds?: number[]
+  categoryIds?: string[]
+  minCategoryShare?: number
+}
+
+export interface MemberSegment {
+  id: number
+  name: string
+  description: string | null
+  color: string | null
+  rules: SegmentRules
+  isActive: boolean
+  memberCount: number
+  computedAt: string | null
+}
+
+export type RangeRule = 'recencyScore' | 'frequencyScore' | 'monetaryScore' | 'spend' | 'lastVisitDays'
+
+export const RANGE_RULES: { key: RangeRule; label: string; short: string; unit?: string }[] = [
+  { key: 'recencyScore', label: 'Skor Recency (1-5)', short: 'R' },
+  { key: 'frequencyScore', label: 'Skor Frequency (1-5)', short: 'F' },
+  { key: 'monetaryScore', label: 'Skor Monetary (1-5)', short: 'M' },
+  { key: 'spend', label: 'Belanja 12 bulan (Rp)', short: 'Belanja', unit: 'Rp' },
+  { key: 'lastVisitDays', label: 'Kunjungan terakhir (hari lalu)', short: 'Kunjungan terakhir', unit: 'hari' },
+]
+
+const formatBound = (value: number, unit?: string) =>
+  unit === 'Rp' ? `Rp ${value.toLocaleString('id-ID')}` : unit ? `${value} ${unit}` : String(value)
+
+// Ringkasan aturan untuk tabel, mis. "R ≥ 4 · F ≥ 4 · Tier: Gold"
+export function describeRules(
+  rules: SegmentRules,
+  names: { tiers?: Record<number, string>; categories?: Record<string, string> } = {}
+): string {
+  const parts: string[] = []
+  for (const { key, short, unit } of RANGE_RULES) {
+    const range = rules[key]
+    if (!range) continue
+    if (range.min !== undefined && range.max !== undefined) {
+      parts.push(range.min === range.max ? `${short} = ${formatBound(range.min, unit)}` : `${short} ${formatBound(range.min, unit)}–${formatBound(range.max, unit)}`)
+    } else if (range.min !== undefined) {
+      parts.push(`${short} ≥ ${formatBound(range.min, unit)}`)
+    } else if (range.max !== undefined) {
+      parts.push(`${short} ≤ ${formatBound(range.max, unit)}`)
+    }
+  }
+  if (rules.tierIds?.length) {
+    parts.push(`Tier: ${rules.tierIds.map((id) => names.tiers?.[id] || `#${id}`).join(', ')}`)
+  }
+  if (rules.categoryIds?.length) {
+    const categories = rules.categoryIds.map((id) => names.categories?.[id] || id).join(', ')
+    parts.push(`Kategori: ${categories}${rules.minCategoryShare ? ` > ${rules.minCategoryShare}%` : ''}`)
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'Semua member aktif'
+}
+
+// Unduh anggota segmen sebagai CSV (butuh izin segments:manage)
+export async function downloadSegmentCsv(segment: Pick<MemberSegment, 'id' | 'name'>) {
+  const res = await apiFetch(`/api/v1/member-segments/${segment.id}/export`)
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body.error || 'Gagal mengunduh CSV segmen')
+  }
+  const url = URL.createObjectURL(await res.blob())
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `segmen-${segment.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.csv`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+}
@@ -0,0 +1,280 @@
+import { apiFetch } from './api'
+
+// Offline support for the cashier page: a catalog snapshot cache plus an
+// outbox of CASH sales recorded while the backend was unreachable. Both live
+// in IndexedDB so they survive page reloads and browser restarts.
+
+const DB_NAME = 'pos-offline'
+const DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+const SNAPSHOT_STORE = 'snapshots'
+
+// NEEDS_APPROVAL: the server wants a manager approval (e.g. a large discount)
+// before it records the sale; it goes back to PENDING once a manager approves
+export type OutboxStatus = 'PENDING' | 'FAILED' | 'CONFLICT' | 'NEEDS_APPROVAL'
+
+export interface StockConflict {
+  productId: string
+  name?: string
+  stock: number
+}
+
+// Server repricing of an offline sale (see POST /transactions priceConflicts)
+export interface PriceConflict {
+  items: { productId: string; name?: string; clientPrice: number; serverPrice: number }[]
+  totals: Record<string, { client: number; server: number }>
+  voucherError?: string
+}
+
+export interface OutboxEntry {
+  // Same value sent as X-Idempotency-Key, so replays never double-post
+  idempotencyKey: string
+  payload: any
+  createdAt: string
+  status: OutboxStatus
+  attempts: number
+  lastError?: string
+  transactionId?: string
+  stockConflicts?: StockConflict[]
+  priceConflicts?: PriceConflict | null
+  // What the approval must cover, from the server's 403 APPROVAL_REQUIRED
+  approval?: { action: string; amount?: number }
+  // Single-use token for the next replay only
+  approvalToken?: string
+}
+
+export interface SyncResult {
+  synced: number
+  failed: number
+  conflicts: number
+  needsApproval: number
+  // True when the backend was still unreachable and the run stopped early
+  interrupted: boolean
+}
+
+function isIndexedDBAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+}
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isIndexedDBAvailable()) {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'idempotencyKey' })
+      }
+      if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'key' })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDB()
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode)
+      const request = run(tx.objectStore(storeName))
+      tx.oncomplete = () => resolve(request ? request.result : undefined)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+// fetch() rejects with a TypeError when the request never reached the server
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) return true
+  const message = error instanceof Error ? error.message : String(error || '')
+  return /failed to fetch|network ?error|load failed|networkrequestfailed/i.test(message)
+}
+
+export async function saveSnapshot(key: string, data: any): Promise<void> {
+  try {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put({ key, data, savedAt: new Date().toISOString() }))
+  } catch (err) {
+    console.warn('[offlineOutbox] Failed to save snapshot:', key, err)
+  }
+}
+
+export async function loadSnapshot<T = any>(key: string): Promise<T | null> {
+  try {
+    const row = await withStore<any>(SNAPSHOT_STORE, 'readonly', (store) => store.get(key))
+    return row ? (row.data as T) : null
+  } catch (err) {
+    console.warn('[offlineOutbox] Failed to load snapshot:', key, err)
+    return null
+  }
+}
+
+// Wrap an SWR fetcher so every successful response refreshes the snapshot and
+// a network failure falls back to the last snapshot for the same URL.
+export function withSnapshotFallback(fetcher: (url: string) => Promise<any>) {
+  return async (url: string) => {
+    try {
+      const data = await fetcher(url)
+      await saveSnapshot(url, data)
+      return data
+    } catch (err) {
+      const cached = await loadSnapshot(url)
+      if (cached != null) return cached
+      throw err
+    }
+  }
+}
+
+export async function enqueueSale(idempotencyKey: string, payload: any): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    idempotencyKey,
+    payload,
+    createdAt: payload?.clientCreatedAt || new Date().toISOString(),
+    status: 'PENDING',
+    attempts: 0
+  }
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry))
+  return entry
+}
+
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  try {
+    const rows = await withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())
+    return (rows || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  } catch (err) {
+    console.warn('[offlineOutbox] Failed to read outbox:', err)
+    return []
+  }
+}
+
+export async function removeOutboxEntry(idempotencyKey: string): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(idempotencyKey))
+}
+
+async function putOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(entry))
+}
+
+export async function retryOutboxEntry(idempotencyKey: string): Promise<void> {
+  const entries = await listOutbox()
+  const entry = entries.find((e) => e.idempotencyKey === idempotencyKey)
+  if (!entry) return
+  await putOutboxEntry({ ...entry, status: 'PENDING', lastError: undefined })
+}
+
+// Queue a sale that was held for approval again, with the manager's token
+export async function approveOutboxEntry(idempotencyKey: string, approvalToken: string): Promise<void> {
+  const entries = await listOutbox()
+  const entry = entries.find((e) => e.idempotencyKey === idempotencyKey)
+  if (!entry) return
+  await putOutboxEntry({ ...entry, status: 'PENDING', lastError: undefined, approvalToken })
+}
+
+let syncInFlight: Promise<SyncResult> | null = null
+
+// Replay pending sales oldest-first. Entries that the server accepted are
+// removed unless the replay pushed stock negative; those stay as CONFLICT so
+// the cashier can see which products need a stock check. A sale the server
+// will only take with a manager approval waits as NEEDS_APPROVAL rather than
+// FAILED, so it is not lost from the till when an earlier token has expired.
+export function syncOutbox(): Promise<SyncResult> {
+  if (syncInFlight) return syncInFlight
+  syncInFlight = (async () => {
+    const result: SyncResult = { synced: 0, failed: 0, conflicts: 0, needsApproval: 0, interrupted: false }
+    const entries = await listOutbox()
+    for (const entry of entries) {
+      if (entry.status !== 'PENDING') continue
+      let res: Response
+      try {
+        res = await apiFetch('/api/v1/transactions', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'X-Idempotency-Key': entry.idempotencyKey,
+            ...(entry.approvalToken ? { 'X-Approval-Token': entry.approvalToken } : {}),
+          },
+          body: JSON.stringify(entry.payload)
+        })
+      } catch (err) {
+        if (isNetworkError(err)) {
+          result.interrupted = true
+          break
+        }
+        throw err
+      }
+
+      let body: any = null
+      try {
+        body = await res.json()
+      } catch (_) {}
+
+      if (res.status === 401) {
+        // Session expired; keep the entry pending until the cashier logs in again
+        result.interrupted = true
+        break
+      }
+
+      if (res.status === 403 && body?.code === 'APPROVAL_REQUIRED') {
+        result.needsApproval++
+        await putOutboxEntry({
+          ...entry,
+          status: 'NEEDS_APPROVAL',
+          attempts: entry.attempts + 1,
+          approval: {
+            action: String(body.action),
+            ...(body.action === 'DISCOUNT' ? { amount: Number(entry.payload?.discount || 0) } : {})
+          },
+          approvalToken: undefined,
+          lastError: body?.error || res.statusText
+        })
+        continue
+      }
+
+      if (!res.ok) {
+        result.failed++
+        await putOutboxEntry({
+          ...entry,
+          status: 'FAILED',
+          approvalToken: undefined,
+          attempts: entry.attempts + 1,
+          lastError: body?.message || body?.error || res.statusText
+        })
+        continue
+      }
+
+      const stockConflicts: StockConflict[] = Array.isArray(body?.stockConflicts) ? body.stockConflicts : []
+      const priceConflicts: PriceConflict | null = body?.priceConflicts || null
+      if (stockConflicts.length > 0 || priceConflicts) {
+        result.conflicts++
+        await putOutboxEntry({
+          ...entry,
+          status: 'CONFLICT',
+          attempts: entry.attempts + 1,
+          approvalToken: undefined,
+          transactionId: body?.id ? String(body.id) : undefined,
+          stockConflicts,
+          priceConflicts
+        })
+      } else {
+        result.synced++
+        await removeOutboxEntry(entry.idempotencyKey)
+      }
+    }
+    return result
+  })().finally(() => {
+    syncInFlight = null
+  })
+  return syncInFlight
+}
@@ -0,0 +1,130 @@
+// Role permission matrix shared by the Express routes (authorize middleware),
+// the Next.js middleware and the Navbar. Add a permission here before using it.
+
+const ROLES = ['ADMIN', 'MANAGER', 'CASHIER']
+
+const ALL = ROLES
+const MANAGEMENT = ['ADMIN', 'MANAGER']
+const ADMIN_ONLY = ['ADMIN']
+
+const PERMISSIONS = {
+  'dashboard:read': ALL,
+  'archives:manage': ADMIN_ONLY,
+
+  'products:read': ALL,
+  'products:write': MANAGEMENT,
+  'products:delete': ADMIN_ONLY,
+  'categories:read': ALL,
+  'categories:write': MANAGEMENT,
+
+  'transactions:read': ALL,
+  'transactions:create': ALL,
+  'transactions:update': ALL,
+  'transactions:cancel': ALL,
+  'transactions:refund': ALL,
+  'transactions:exchange': ALL,
+  'transactions:mark-paid': ALL,
+  'payments:read': ALL,
+  'payments:confirm': ALL,
+  'payments:write': ADMIN_ONLY,
+
+  'shifts:operate': ALL,
+  'shifts:read': MANAGEMENT,
+  'shifts:write': ADMIN_ONLY,
+  'held-carts:use': ALL,
+  'held-carts:manage': MANAGEMENT,
+  'approvals:request': ALL,
+  'approvals:grant': MANAGEMENT,
+
+  'members:read': ALL,
+  'members:write': ALL,
+  'members:delete': MANAGEMENT,
+  'loyalty:read': ALL,
+  'loyalty:manage': ADMIN_ONLY,
+  'segments:manage': MANAGEMENT,
+  'promotions:read': ALL,
+  'promotions:write': MANAGEMENT,
+  'vouchers:read': ALL,
+  'vouchers:write': MANAGEMENT,
+
+  'reports:read': ALL,
+  'tax:read': ALL,
+  'tax:report': MANAGEMENT,
+  'tax:manage': ADMIN_ONLY,
+  'expenses:read': MANAGEMENT,
+  'expenses:write': MANAGEMENT,
+  'purchasing:manage': MANAGEMENT,
+
+  'users:read': MANAGEMENT,
+  'users:write': ADMIN_ONLY,
+  'whatsapp:send': ALL,
+  'whatsapp:manage': ADMIN_ONLY,
+  'campaigns:manage': MANAGEMENT,
+  'outbox:manage': MANAGEMENT,
+  'debug:read': ADMIN_ONLY,
+  'audit:read': ADMIN_ONLY,
+}
+
+// Page prefixes and the permission needed to open them; the most specific prefix wins.
+// This is the list of pages non-admin roles may open: a page missing here is ADMIN only.
+const PAGE_PERMISSIONS = {
+  '/dashboard': 'dashboard:read',
+  '/cashier': 'transactions:create',
+  '/products/new': 'products:write',
+  '/products': 'products:read',
+  '/categories': 'categories:write',
+  '/members': 'members:read',
+  '/transactions': 'transactions:read',
+  '/reports': 'reports:read',
+  '/promotions': 'promotions:write',
+  '/vouchers': 'vouchers:write',
+  '/operational-expenses': 'expenses:read',
+  '/users': 'users:write',
+  '/admin/bank-transfers': 'payments:confirm',
+  '/admin/purchase-orders': 'purchasing:manage',
+  '/admin/suppliers': 'purchasing:manage',
+  '/admin/whatsapp/campaigns': 'campaigns:manage',
+  '/admin/whatsapp/outbox': 'outbox:manage',
+  '/admin/whatsapp': 'whatsapp:manage',
+  '/admin/audit-logs': 'audit:read',
+  '/admin/archives': 'archives:manage',
+  '/admin/tax': 'tax:report',
+  '/admin/loyalty': 'loyalty:manage',
+  '/admin/segments': 'segments:manage',
+  '/auth-debug': 'debug:read',
+}
+
+function hasPermission(role, permission) {
+  const roles = PERMISSIONS[permission]
+  if (!roles) throw new Error(`Unknown permission: ${permission}`)
+  return roles.includes(String(role || '').toUpperCase())
+}
+
+function pagePermission(pathname) {
+  const prefix = Object.keys(PAGE_PERMISSIONS)
+    .filter((p) => pathname === p || pathname.startsWith(`${p}/`))
+    .sort((a, b) => b.length - a.length)[0]
+  return prefix ? PAGE_PERMISSIONS[prefix] : null
+}
+
+// Deny by default: pages without an entry are open to ADMIN only, so a new or
+// forgotten admin page is not reachable by cashiers
+function canAccessPage(role, pathname) {
+  if (String(role || '').toUpperCase() === 'ADMIN') return true
+  const permission = pagePermission(pathname)
+  return permission ? hasPermission(role, permission) : false
+}
+
+function homePathFor(role) {
+  return String(role || '').toUpperCase() === 'CASHIER' ? '/cashier' : '/dashboard'
+}
+
+module.exports = {
+  ROLES,
+  PERMISSIONS,
+  PAGE_PERMISSIONS,
+  hasPermission,
+  pagePermission,
+  canAccessPage,
+  homePathFor,
+}
@@ -61,6 +61,8 @@ interface TransactionItem {
   quantity: number;
   price: number;
   total: number;
+  taxRate?: number;
+  taxAmount?: number;
   productCode?: string;
   size?: string;
   color?: string;
@@ -72,6 +74,7 @@ export interface Transaction {
   items: TransactionItem[];
   subtotal: number;
   tax: number;
+  taxInclusive?: boolean;
   finalTotal: number;
   paymentMethod: string;
   status: string;
@@ -80,10 +83,12 @@ export interface Transaction {
   customerPhone?: string;
   customerEmail?: string;
   pointsUsed?: number;
+  pointsDiscount?: number;
   pointsEarned?: number;
   voucherCode?: string;
   voucherDiscount?: number;
   promotionDiscount?: number;
+  tierDiscount?: number;
   member?: {
     name: string;
     phone: string;
@@ -121,7 +126,8 @@ export class ReceiptFormatter {
       'COMPLETED': 'Selesai',
       'PENDING': 'Menunggu',
       'CANCELLED': 'Dibatalkan',
-      'REFUNDED': 'Dikembalikan'
+      'REFUNDED': 'Dikembalikan',
+      'PARTIALLY_REFUNDED': 'Dikembalikan Sebagian'
     };
     return statusLabels[status] || status;
   }
@@ -161,6 +167,13 @@ export class ReceiptFormatter {
     return 0;
   }
 
+  // Per-line PPN note, e.g. "PPN 11%: Rp 11.000" ("Termasuk PPN ..." for inclusive prices)
+  private static formatLineTax(item: TransactionItem, inclusive?: boolean): string {
+    const taxAmount = this.toNumber(item.taxAmount);
+    if (taxAmount <= 0) return '';
+    return `${inclusive ? 'Termasuk ' : ''}PPN ${this.toNumber(item.taxRate)}%: ${this.formatCurrency(taxAmount)}`;
+  }
+
   public static formatReceiptForWhatsApp(transaction: Transaction): string {
     let receipt = `🙏 *Terima kasih telah berbelanja di Wear Calaa!*\n`;
     receipt += `✨ Fashion berkualitas untuk gaya hidup Anda\n\n`;
@@ -201,23 +214,23 @@ export class ReceiptFormatter {
       const itemPrice = this.toNumber(item.price);
       const itemTotal = this.toNumber(item.total);
       const qty = this.toNumber(item.quantity);
-      receipt += `   🛒 Jumlah: ${qty} × ${this.formatCurrency(itemPrice)} = *${this.formatCurrency(itemTotal)}*\n\n`;
+      receipt += `   🛒 Jumlah: ${qty} × ${this.formatCurrency(itemPrice)} = *${this.formatCurrency(itemTotal)}*\n`;
+      const lineTax = this.formatLineTax(item, transaction.taxInclusive);
+      if (lineTax) {
+        receipt += `   🧾 ${lineTax}\n`;
+      }
+      receipt += `\n`;
     });
 
     // Totals
     receipt += `💰 *RINCIAN PEMBAYARAN*\n`;
     const subtotal = this.toNumber(transaction.subtotal);
     receipt += `Subtotal: ${this.formatCurrency(subtotal)}\n`;
-    
-    const tax = this.toNumber(transaction.tax);
-    if (tax > 0) {
-      receipt += `Pajak: ${this.formatCurrency(tax)}\n`;
-    }
 
     // Discounts
     const pointsUsed = this.toNumber(transaction.pointsUsed);
     if (pointsUsed > 0) {
-      const pointDiscount = pointsUsed * 1000;
+      const pointDiscount = this.toNumber(transaction.pointsDiscount);
       receipt += `🎯 Diskon Poin (${pointsUsed} poin): -${this.formatCurrency(pointDiscount)}\n`;
     }
 
@@ -232,6 +245,19 @@ export class ReceiptFormatter {
       receipt += `🎉 Diskon Promosi: -${this.formatCurrency(promotionDiscount)}\n`;
     }
 
+    const tierDiscount = this.toNumber(transaction.tierDiscount);
+    if (tierDiscount > 0) {
+      receipt += `⭐ Diskon Member: -${this.formatCurrency(tierDiscount)}\n`;
+    }
+
+    // PPN is charged on the discounted amount, so it follows the discounts
+    const tax = this.toNumber(transaction.tax);
+    if (tax > 0) {
+      receipt += transaction.taxInclusive
+        ? `🧾 PPN (termasuk dalam harga): ${this.formatCurrency(tax)}\n`
+        : `🧾 PPN: ${this.formatCurrency(tax)}\n`;
+    }
+
     const finalTotal = this.toNumber(transaction.finalTotal);
     receipt += `\n💳 *TOTAL PEMBAYARAN: ${this.formatCurrency(finalTotal)}*\n`;
 
@@ -270,7 +296,16 @@ export class ReceiptFormatter {
     transaction.items.forEach((item, index) => {
       const itemTotal = this.toNumber(item.total);
       receipt += `${index + 1}. ${item.name} (${item.quantity}x) - ${this.formatCurrency(itemTotal)}\n`;
+      const lineTax = this.formatLineTax(item, transaction.taxInclusive);
+      if (lineTax) {
+        receipt += `   ${lineTax}\n`;
+      }
     });
+
+    const tax = this.toNumber(transaction.tax);
+    if (tax > 0) {
+      receipt += `\n🧾 ${transaction.taxInclusive ? 'Termasuk PPN' : 'PPN'}: ${this.formatCurrency(tax)}`;
+    }
     
     const finalTotal = this.toNumber(transaction.finalTotal);
     receipt += `\n💰 *Total: ${this.formatCurrency(finalTotal)}*\n`;
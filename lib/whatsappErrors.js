@@ -0,0 +1,74 @@
+// WhatsApp send errors: what kind of failure a message is, whether trying
+// again can help and how long to wait before the next try. Shared by the
+// Express outbound queue (CommonJS) and lib/errorHandler.ts.
+
+const WHATSAPP_ERRORS = {
+  CONNECTION_FAILED: {
+    message: 'WhatsApp connection failed',
+    userFriendly: 'Koneksi WhatsApp terputus. Silakan coba lagi dalam beberapa saat.',
+    retryable: true
+  },
+  INVALID_PHONE_NUMBER: {
+    message: 'Invalid phone number format',
+    userFriendly: 'Format nomor telepon tidak valid. Pastikan nomor dimulai dengan kode negara.',
+    retryable: false
+  },
+  PHONE_NOT_REGISTERED: {
+    message: 'Phone number not registered on WhatsApp',
+    userFriendly: 'Nomor telepon tidak terdaftar di WhatsApp.',
+    retryable: false
+  },
+  MESSAGE_SEND_FAILED: {
+    message: 'Failed to send WhatsApp message',
+    userFriendly: 'Gagal mengirim pesan WhatsApp. Silakan coba lagi.',
+    retryable: true
+  },
+  AUTHENTICATION_FAILED: {
+    message: 'WhatsApp authentication failed',
+    userFriendly: 'Autentikasi WhatsApp gagal. Silakan scan QR code ulang.',
+    retryable: true
+  },
+  RATE_LIMITED: {
+    message: 'Rate limit exceeded',
+    userFriendly: 'Terlalu banyak pesan dikirim. Silakan tunggu beberapa menit.',
+    retryable: true
+  },
+  NETWORK_ERROR: {
+    message: 'Network connection error',
+    userFriendly: 'Koneksi internet bermasalah. Periksa koneksi Anda.',
+    retryable: true
+  },
+  UNKNOWN_ERROR: {
+    message: 'Unknown error occurred',
+    userFriendly: 'Terjadi kesalahan yang tidak diketahui. Silakan coba lagi.',
+    retryable: true
+  }
+}
+
+// Error type for an error message, e.g. 'Invalid phone number' -> INVALID_PHONE_NUMBER
+function categorizeWhatsAppError(message) {
+  const text = String(message || '').toLowerCase()
+  const has = (...words) => words.some((word) => text.includes(word))
+  if (has('connection', 'disconnect', 'not connected')) return 'CONNECTION_FAILED'
+  if (text.includes('invalid') && text.includes('phone')) return 'INVALID_PHONE_NUMBER'
+  if (has('not registered', 'not found')) return 'PHONE_NOT_REGISTERED'
+  if (has('auth', 'credential')) return 'AUTHENTICATION_FAILED'
+  if (has('rate', 'limit')) return 'RATE_LIMITED'
+  if (has('network', 'timeout')) return 'NETWORK_ERROR'
+  if (has('send', 'message')) return 'MESSAGE_SEND_FAILED'
+  return 'UNKNOWN_ERROR'
+}
+
+const isRetryableWhatsAppError = (message) => WHATSAPP_ERRORS[categorizeWhatsAppError(message)].retryable
+
+// Exponential backoff before try number `attempt` + 1: base, 2x base, 4x base, ... up to max
+function retryDelay(attempt, { baseMs = 1000, maxMs = 30000 } = {}) {
+  return Math.min(baseMs * Math.pow(2, Math.max(attempt, 1) - 1), maxMs)
+}
+
+module.exports = {
+  WHATSAPP_ERRORS,
+  categorizeWhatsAppError,
+  isRetryableWhatsAppError,
+  retryDelay
+}
@@ -1,5 +1,6 @@
 import { withAuth } from 'next-auth/middleware'
 import { NextResponse } from 'next/server'
+import { canAccessPage, homePathFor } from '@/lib/permissions'
 
 export default withAuth(
   function middleware(req) {
@@ -23,11 +24,7 @@ export default withAuth(
     // Allow access to login page; if already authenticated, redirect away
     if (pathname === '/login') {
       if (token || accessCookie) {
-        // Default redirect based on role
-        if (userRole === 'CASHIER') {
-          return NextResponse.redirect(new URL('/cashier', req.url))
-        }
-        return NextResponse.redirect(new URL('/dashboard', req.url))
+        return NextResponse.redirect(new URL(homePathFor(userRole), req.url))
       }
       return NextResponse.next()
     }
@@ -37,31 +34,13 @@ export default withAuth(
       return NextResponse.redirect(new URL('/login', req.url))
     }
 
-    // Role-based access control
-    // userRole determined above
-
-    // Admin can access everything
-    if (userRole === 'ADMIN') {
-      return NextResponse.next()
-    }
-
-    // Cashier restrictions
-    if (userRole === 'CASHIER') {
-      const restrictedPaths = ['/users', '/categories', '/products/new']
-      
-      // Check if current path is restricted for cashiers
-      const isRestricted = restrictedPaths.some(path => pathname.startsWith(path))
-      
-      if (isRestricted) {
-        return NextResponse.redirect(new URL('/cashier', req.url))
-      }
-      
-      // Allow access to cashier, products (read-only), reports, transactions, and members
-      const allowedPaths = ['/cashier', '/products', '/reports', '/transactions', '/dashboard', '/members']
-      const isAllowed = allowedPaths.some(path => pathname.startsWith(path))
-      
-      if (!isAllowed) {
-        return NextResponse.redirect(new URL('/cashier', req.url))
+    // Role-based access control from the shared permission matrix (lib/permissions.js);
+    // pages it does not list are ADMIN only. Tokens without a role fall through; the
+    // API still enforces permissions.
+    if (userRole && !canAccessPage(userRole, pathname)) {
+      const home = homePathFor(userRole)
+      if (pathname !== home) {
+        return NextResponse.redirect(new URL(home, req.url))
       }
     }
 
@@ -82,8 +61,10 @@ export default withAuth(
   }
 )
 
+// The member portal (/portal) has its own login by phone + WhatsApp code and is
+// left out here; staff tokens do not open it and member tokens do not open this app
 export const config = {
   matcher: [
-    '/((?!api|_next/static|_next/image|favicon.ico|login).*)',
+    '/((?!api|_next/static|_next/image|favicon.ico|login|portal).*)',
   ]
 }
\ No newline at end of file